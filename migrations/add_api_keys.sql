@@ -0,0 +1,49 @@
+-- Migration: API keys and per-key rate limits for the public /api/v1 surface
+--
+-- Design:
+--   * /api/v1 is read-only and authenticated by API key instead of the
+--     Supabase session, so pipelines can call it without a browser login.
+--   * A key looks like `sk_<prefix>_<secret>`. Only its SHA-256 hash is
+--     stored; `key_prefix` (unique) finds the row without scanning, and
+--     the full key is shown once when an admin creates it.
+--   * Each key has its own `rate_limit_per_minute`. `api_key_usage` keeps
+--     one counter per key per minute window, bumped with an upsert so the
+--     limit holds across server instances. Old windows are pruned lazily.
+--   * Revoking sets `revoked_at`; the row stays for the audit trail.
+--   * RLS is enabled with no policies, matching the other public tables.
+--
+-- Safe to run multiple times.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id                    BIGSERIAL PRIMARY KEY,
+  name                  TEXT NOT NULL,
+  key_prefix            TEXT NOT NULL,
+  key_hash              TEXT NOT NULL,
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 120 CHECK (rate_limit_per_minute > 0),
+  created_by            TEXT NOT NULL,
+  created_at            TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_used_at          TIMESTAMPTZ,
+  expires_at            TIMESTAMPTZ,
+  revoked_at            TIMESTAMPTZ,
+  CONSTRAINT uq_api_keys_prefix UNIQUE (key_prefix)
+);
+
+CREATE TABLE IF NOT EXISTS api_key_usage (
+  api_key_id    BIGINT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  window_start  TIMESTAMPTZ NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (api_key_id, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_key_usage_window
+  ON api_key_usage(window_start);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_key_usage ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE api_keys IS 'Hashed API keys for the public /api/v1 read API, with per-key rate limits';
+COMMENT ON TABLE api_key_usage IS 'Per-key request counters in one-minute windows (rate limiting)';
+
+COMMIT;
@@ -0,0 +1,18 @@
+-- Migration: Link revert changesets to the changeset they undo
+--
+-- POST /api/changesets/[id]/revert and /api/change-plans/[id]/revert stage
+-- inverse changesets as ordinary pending changes. Each inverse points at
+-- the committed changeset it undoes so the UI can show "Reverts #N" and a
+-- second revert of the same changeset is refused while the first is still
+-- pending or already committed. Plan-level reverts additionally record the
+-- source plan in change_plans.metadata.reverts_plan_id.
+--
+-- Safe to run multiple times.
+
+ALTER TABLE changesets
+  ADD COLUMN IF NOT EXISTS reverts_changeset_id BIGINT REFERENCES changesets(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_changesets_reverts
+  ON changesets(reverts_changeset_id) WHERE reverts_changeset_id IS NOT NULL;
+
+COMMENT ON COLUMN changesets.reverts_changeset_id IS 'Committed changeset this pending/committed changeset undoes (set by the revert endpoints)';
@@ -0,0 +1,139 @@
+-- Migration: Declarative commit policies (auto-commit / required approvals)
+--
+-- Design:
+--   * `commit_policies` rows are evaluated against every pending changeset
+--     or change plan when it is staged (and by the
+--     `db:evaluate:commit-policies` sweep for rows written outside the
+--     Explorer, e.g. by the remediation runner). A plan is evaluated as
+--     one unit; loose changesets on their own.
+--   * Every non-empty match column must hold for a policy to match:
+--       entity_types / operations / llm_job_ids - every member changeset
+--       plan_kinds  - the plan's kind (loose changesets never match)
+--       origins     - changesets.origin of every member
+--       from_llm_job - NULL any, TRUE only LLM job output, FALSE none
+--       field_names - update-only; every field change must be listed
+--       strategies  - remediation strategy of the staging proposal
+--       min_confidence - remediation proposal confidence (>=)
+--       max_descendant_count - every touched concept (frames.descendant_count <=)
+--     Unknown facts (no proposal, no concept) fail the condition.
+--   * `require_approvals` beats `auto_commit`: the matched requirement is
+--     written to `required_approvals` on the changeset / plan and the
+--     commit endpoints refuse until that many distinct non-author
+--     reviewers have approved (the committing reviewer counts as one).
+--   * `health_remediation_strategy_config.auto_commit = TRUE` acts as an
+--     implicit auto_commit policy for remediation output of that strategy.
+--   * Every automatic decision is appended to `commit_policy_decisions`
+--     with the evaluated facts so reviewers can audit it.
+--   * RLS is enabled with no policies, matching the other public tables.
+--
+-- Safe to run multiple times.
+
+DO $$
+BEGIN
+  CREATE TYPE commit_policy_action AS ENUM ('auto_commit', 'require_approvals');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE TYPE commit_policy_decision_kind AS ENUM (
+    'auto_committed',
+    'auto_commit_failed',
+    'auto_commit_skipped',
+    'approvals_required'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS commit_policies (
+  id                   BIGSERIAL PRIMARY KEY,
+  name                 TEXT NOT NULL UNIQUE,
+  description          TEXT,
+  enabled              BOOLEAN NOT NULL DEFAULT TRUE,
+  priority             INTEGER NOT NULL DEFAULT 100,
+  action               commit_policy_action NOT NULL,
+  required_approvals   INTEGER NOT NULL DEFAULT 2 CHECK (required_approvals >= 1),
+  entity_types         entity_type[] NOT NULL DEFAULT '{}',
+  operations           change_operation[] NOT NULL DEFAULT '{}',
+  plan_kinds           TEXT[] NOT NULL DEFAULT '{}',
+  origins              TEXT[] NOT NULL DEFAULT '{}',
+  from_llm_job         BOOLEAN,
+  llm_job_ids          BIGINT[] NOT NULL DEFAULT '{}',
+  field_names          TEXT[] NOT NULL DEFAULT '{}',
+  strategies           TEXT[] NOT NULL DEFAULT '{}',
+  min_confidence       NUMERIC(3, 2),
+  max_descendant_count INTEGER,
+  created_by           TEXT NOT NULL,
+  created_at           TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at           TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_commit_policies_enabled
+  ON commit_policies(priority) WHERE enabled;
+
+CREATE TABLE IF NOT EXISTS commit_policy_decisions (
+  id             BIGSERIAL PRIMARY KEY,
+  policy_id      BIGINT REFERENCES commit_policies(id) ON DELETE SET NULL,
+  policy_name    TEXT NOT NULL,
+  decision       commit_policy_decision_kind NOT NULL,
+  changeset_id   BIGINT REFERENCES changesets(id) ON DELETE CASCADE,
+  change_plan_id BIGINT REFERENCES change_plans(id) ON DELETE CASCADE,
+  reason         TEXT,
+  facts          JSONB NOT NULL DEFAULT '{}',
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT commit_policy_decisions_one_target
+    CHECK ((changeset_id IS NULL) <> (change_plan_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_commit_policy_decisions_changeset
+  ON commit_policy_decisions(changeset_id) WHERE changeset_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_commit_policy_decisions_plan
+  ON commit_policy_decisions(change_plan_id) WHERE change_plan_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_commit_policy_decisions_policy
+  ON commit_policy_decisions(policy_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS change_approvals (
+  id             BIGSERIAL PRIMARY KEY,
+  changeset_id   BIGINT REFERENCES changesets(id) ON DELETE CASCADE,
+  change_plan_id BIGINT REFERENCES change_plans(id) ON DELETE CASCADE,
+  approved_by    TEXT NOT NULL,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT change_approvals_one_target
+    CHECK ((changeset_id IS NULL) <> (change_plan_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_change_approvals_changeset
+  ON change_approvals(changeset_id, approved_by) WHERE changeset_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_change_approvals_plan
+  ON change_approvals(change_plan_id, approved_by) WHERE change_plan_id IS NOT NULL;
+
+ALTER TABLE changesets
+  ADD COLUMN IF NOT EXISTS required_approvals INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS policy_evaluated_at TIMESTAMPTZ;
+
+ALTER TABLE change_plans
+  ADD COLUMN IF NOT EXISTS required_approvals INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS policy_evaluated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_changesets_policy_unevaluated
+  ON changesets(id) WHERE status = 'pending' AND policy_evaluated_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_change_plans_policy_unevaluated
+  ON change_plans(id) WHERE status = 'pending' AND policy_evaluated_at IS NULL;
+
+ALTER TABLE commit_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE commit_policy_decisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE change_approvals ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE commit_policies IS 'Declarative auto-commit / required-approval rules evaluated when changes are staged';
+COMMENT ON TABLE commit_policy_decisions IS 'Audit log of every automatic commit-policy decision';
+COMMENT ON TABLE change_approvals IS 'Reviewer approvals counted against required_approvals';
+COMMENT ON COLUMN changesets.required_approvals IS 'Distinct non-author approvals needed before commit (0 = no requirement); set by commit policies';
+COMMENT ON COLUMN changesets.policy_evaluated_at IS 'Last commit-policy evaluation; NULL rows are picked up by the sweep';
+COMMENT ON COLUMN change_plans.required_approvals IS 'Distinct non-author approvals needed before commit (0 = no requirement); set by commit policies';
+COMMENT ON COLUMN change_plans.policy_evaluated_at IS 'Last commit-policy evaluation; NULL rows are picked up by the sweep';
+
+COMMIT;
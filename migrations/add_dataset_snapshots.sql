@@ -0,0 +1,43 @@
+-- Migration: Dataset snapshots (release tags) over the committed lexicon
+--
+-- Design:
+--   * A snapshot names the committed state at one moment. It stores no
+--     data, only the highest entity_row_history id and audit_log id at
+--     that moment (the watermarks). Every tracked row's state at the
+--     snapshot is its current row, rewound through any history entry
+--     newer than the watermark, so any snapshot can be re-exported later.
+--   * Two snapshots are diffed from the history entries between their
+--     watermarks: the first entry's old_row per row is the "before", the
+--     last entry's new_row the "after".
+--   * Only tables with a row-history trigger (see add_row_history.sql and
+--     add_entity_timeline_support.sql) are part of a snapshot. Writes made
+--     with app.skip_row_history set are invisible to it.
+--   * The watermark is max(id) when the snapshot is taken, so a writer
+--     transaction still open at that moment can land just below it; tag
+--     releases when no bulk job is running.
+--   * Names are unique and snapshots are never edited; deleting one only
+--     drops the tag.
+--
+-- Safe to run multiple times.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS dataset_snapshots (
+  id                    BIGSERIAL PRIMARY KEY,
+  name                  TEXT NOT NULL,
+  description           TEXT,
+  row_history_watermark BIGINT NOT NULL,
+  audit_log_watermark   BIGINT NOT NULL,
+  created_by            TEXT NOT NULL,
+  created_at            TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT uq_dataset_snapshots_name UNIQUE (name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dataset_snapshots_created_at
+  ON dataset_snapshots(created_at DESC);
+
+ALTER TABLE dataset_snapshots ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE dataset_snapshots IS 'Named releases of the committed lexicon, recorded as entity_row_history / audit_log id watermarks';
+
+COMMIT;
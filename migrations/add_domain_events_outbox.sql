@@ -0,0 +1,169 @@
+-- Migration: Domain event outbox, outbound webhooks and delivery log
+--
+-- Design:
+--   * `domain_events` is an append-only outbox of data changes other
+--     services care about. Rows are written in the same transaction as
+--     the change itself, so an event exists if and only if the change
+--     committed:
+--       changeset.committed       - commitChangesetInTx (app)
+--       change_plan.committed     - commitPlan (app)
+--       change_plan.discarded     - discardPlan (app)
+--       llm_job.status_changed    - llm_jobs.status changes (trigger)
+--       health_check_run.finished - health_check_runs.status becomes
+--                                   completed / failed / cancelled (trigger)
+--     The job and run events come from triggers because external workers
+--     write those rows directly.
+--   * `webhook_endpoints` are registered by admins. `event_types` lists
+--     exact types or `<prefix>.*` wildcards; an empty list means every
+--     event. `secret` signs each request body (HMAC-SHA256).
+--   * The deliverer (`webhooks:deliver`) fans new events out into
+--     `webhook_deliveries` (one row per endpoint and event, claimed via
+--     `fanned_out_at`), then POSTs due deliveries and reschedules failures
+--     with exponential backoff until they succeed or are marked `failed`.
+--     Replaying resets existing rows to `pending` and creates missing ones.
+--   * The Explorer's SSE stream (`/api/events/stream`) reads the same
+--     table by id cursor to live-update open tables.
+--   * RLS is enabled with no policies, matching the other public tables.
+--
+-- Safe to run multiple times.
+
+DO $$
+BEGIN
+  CREATE TYPE webhook_delivery_status AS ENUM (
+    'pending',
+    'succeeded',
+    'failed'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS domain_events (
+  id            BIGSERIAL PRIMARY KEY,
+  event_type    TEXT NOT NULL,
+  entity_type   TEXT NOT NULL,
+  entity_id     BIGINT,
+  payload       JSONB NOT NULL DEFAULT '{}'::jsonb,
+  actor         TEXT,
+  occurred_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  fanned_out_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_domain_events_unfanned
+  ON domain_events(id) WHERE fanned_out_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_domain_events_type
+  ON domain_events(event_type, id);
+CREATE INDEX IF NOT EXISTS idx_domain_events_occurred_at
+  ON domain_events(occurred_at);
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id          BIGSERIAL PRIMARY KEY,
+  url         TEXT NOT NULL,
+  description TEXT,
+  secret      TEXT NOT NULL,
+  event_types TEXT[] NOT NULL DEFAULT '{}',
+  enabled     BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by  TEXT NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id              BIGSERIAL PRIMARY KEY,
+  endpoint_id     BIGINT NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  event_id        BIGINT NOT NULL REFERENCES domain_events(id) ON DELETE CASCADE,
+  status          webhook_delivery_status NOT NULL DEFAULT 'pending',
+  attempts        INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_attempt_at TIMESTAMPTZ,
+  response_status INTEGER,
+  last_error      TEXT,
+  delivered_at    TIMESTAMPTZ,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT uq_webhook_deliveries_endpoint_event UNIQUE (endpoint_id, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint
+  ON webhook_deliveries(endpoint_id, id DESC);
+
+-- ----------------------------------------------------------------------------
+-- Event triggers
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION record_llm_job_domain_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO domain_events (event_type, entity_type, entity_id, payload, actor)
+    VALUES (
+      'llm_job.status_changed',
+      'llm_job',
+      NEW.id,
+      jsonb_build_object(
+        'label', NEW.label,
+        'job_type', NEW.job_type,
+        'from', OLD.status::text,
+        'to', NEW.status::text,
+        'total_items', NEW.total_items,
+        'succeeded_items', NEW.succeeded_items,
+        'failed_items', NEW.failed_items
+      ),
+      NEW.submitted_by
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS llm_jobs_domain_events ON llm_jobs;
+CREATE TRIGGER llm_jobs_domain_events
+  AFTER UPDATE OF status ON llm_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION record_llm_job_domain_event();
+
+CREATE OR REPLACE FUNCTION record_health_check_run_domain_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status
+     AND NEW.status IN ('completed', 'failed', 'cancelled') THEN
+    INSERT INTO domain_events (event_type, entity_type, entity_id, payload)
+    VALUES (
+      'health_check_run.finished',
+      'health_check_run',
+      NEW.id,
+      jsonb_build_object(
+        'check_definition_id', NEW.check_definition_id::text,
+        'label', NEW.label,
+        'status', NEW.status::text,
+        'total_items', NEW.total_items,
+        'passed_items', NEW.passed_items,
+        'warning_items', NEW.warning_items,
+        'failed_items', NEW.failed_items,
+        'error_items', NEW.error_items,
+        'error', NEW.error
+      )
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS health_check_runs_domain_events ON health_check_runs;
+CREATE TRIGGER health_check_runs_domain_events
+  AFTER UPDATE OF status ON health_check_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION record_health_check_run_domain_event();
+
+ALTER TABLE domain_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE domain_events IS 'Transactional outbox of data-change events; source for outbound webhooks and the SSE stream';
+COMMENT ON TABLE webhook_endpoints IS 'Registered outbound webhook receivers with their signing secret and event filter';
+COMMENT ON TABLE webhook_deliveries IS 'One delivery per endpoint and event, with retry state';
+
+COMMIT;
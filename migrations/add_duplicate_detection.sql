@@ -0,0 +1,91 @@
+-- Migration: Near-duplicate detection for concepts and senses
+--
+-- Design:
+--   * `duplicate_detection_runs` records each pass of the detector
+--     (`duplicates:detect` or POST /api/duplicates/runs) over one entity
+--     type: the options it ran with, how many pairs it found and, when it
+--     failed, why.
+--   * `duplicate_candidates` holds one row per unordered pair, stored with
+--     `a_id < b_id` so a pair found from either side collapses onto the
+--     same row (`uq_duplicate_candidates_pair`). `scope_key` is what the
+--     pair shares: "archetype/subtype" for concepts, the concept id for
+--     senses. `signals` keeps the evidence behind `score` so the review
+--     screen can explain it.
+--   * Re-running refreshes score and signals but keeps the review status,
+--     so a dismissed pair stays dismissed. Open pairs the latest run no
+--     longer finds are deleted.
+--   * Staging a pair stores the merge changeset (and, for senses, the
+--     `merge_sense` change plan) it produced. No foreign keys: discarding
+--     the changeset simply makes the pair reviewable again.
+--   * RLS is enabled with no policies, matching the other public tables.
+--
+-- Safe to run multiple times.
+
+DO $$
+BEGIN
+  CREATE TYPE duplicate_candidate_status AS ENUM (
+    'open',
+    'dismissed',
+    'staged'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE TYPE duplicate_detection_run_status AS ENUM (
+    'running',
+    'completed',
+    'failed'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS duplicate_detection_runs (
+  id               BIGSERIAL PRIMARY KEY,
+  entity_type      TEXT NOT NULL CHECK (entity_type IN ('concept', 'sense')),
+  status           duplicate_detection_run_status NOT NULL DEFAULT 'running',
+  options          JSONB NOT NULL DEFAULT '{}'::jsonb,
+  candidates_found INTEGER NOT NULL DEFAULT 0,
+  error            TEXT,
+  started_by       TEXT NOT NULL,
+  started_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at      TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_detection_runs_started_at
+  ON duplicate_detection_runs(started_at DESC);
+
+CREATE TABLE IF NOT EXISTS duplicate_candidates (
+  id             BIGSERIAL PRIMARY KEY,
+  entity_type    TEXT NOT NULL CHECK (entity_type IN ('concept', 'sense')),
+  a_id           BIGINT NOT NULL,
+  b_id           BIGINT NOT NULL,
+  scope_key      TEXT NOT NULL,
+  score          DOUBLE PRECISION NOT NULL,
+  signals        JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status         duplicate_candidate_status NOT NULL DEFAULT 'open',
+  run_id         BIGINT REFERENCES duplicate_detection_runs(id) ON DELETE SET NULL,
+  changeset_id   BIGINT,
+  change_plan_id BIGINT,
+  detected_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  reviewed_by    TEXT,
+  reviewed_at    TIMESTAMPTZ,
+  CONSTRAINT chk_duplicate_candidates_order CHECK (a_id < b_id),
+  CONSTRAINT uq_duplicate_candidates_pair UNIQUE (entity_type, a_id, b_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_candidates_review
+  ON duplicate_candidates(entity_type, status, score DESC);
+
+ALTER TABLE duplicate_detection_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE duplicate_candidates ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE duplicate_detection_runs IS 'Passes of the near-duplicate detector over concepts or senses';
+COMMENT ON TABLE duplicate_candidates IS 'Ranked near-duplicate concept/sense pairs with the evidence and review status';
+
+COMMIT;
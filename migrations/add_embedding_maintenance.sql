@@ -0,0 +1,77 @@
+-- Migration: Embedding refresh queue and per-vector provenance
+--
+-- Design:
+--   * `embedding_jobs` is the queue of entities whose vector must be
+--     (re)computed: concepts.embedding, lexical_units.embedding_1536 and
+--     senses.embedding. commitChangesetInTx enqueues a row in the commit
+--     transaction when a create or an approved update touches the text
+--     the vector is built from; backfills enqueue in bulk.
+--   * One row per entity (`uq_embedding_jobs_entity`). Re-enqueueing an
+--     entity resets its row to `pending`, so a burst of edits costs one
+--     embedding call. The worker (`embeddings:refresh`) leases due rows
+--     by pushing `next_attempt_at` forward, deletes them on success and
+--     reschedules failures with backoff until they are marked `failed`.
+--     It only deletes a row whose `requested_at` is unchanged, so an edit
+--     committed mid-refresh is embedded again.
+--   * `embedding_records` says which provider, model and text template
+--     version produced each stored vector, plus a hash of the embedded
+--     text; the worker skips entities whose text and model are unchanged.
+--     Keeping this out of the entity tables means a refresh never writes
+--     a business column, so row history and health-check fingerprints
+--     stay quiet.
+--   * entity_type uses the search names (concept, lexical_unit, sense),
+--     not the changeset ones.
+--   * RLS is enabled with no policies, matching the other public tables.
+--
+-- Safe to run multiple times.
+
+DO $$
+BEGIN
+  CREATE TYPE embedding_job_status AS ENUM (
+    'pending',
+    'failed'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS embedding_jobs (
+  id              BIGSERIAL PRIMARY KEY,
+  entity_type     TEXT NOT NULL CHECK (entity_type IN ('concept', 'lexical_unit', 'sense')),
+  entity_id       BIGINT NOT NULL,
+  reason          TEXT NOT NULL,
+  status          embedding_job_status NOT NULL DEFAULT 'pending',
+  attempts        INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_error      TEXT,
+  requested_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT uq_embedding_jobs_entity UNIQUE (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_jobs_due
+  ON embedding_jobs(status, next_attempt_at);
+
+CREATE TABLE IF NOT EXISTS embedding_records (
+  entity_type  TEXT NOT NULL CHECK (entity_type IN ('concept', 'lexical_unit', 'sense')),
+  entity_id    BIGINT NOT NULL,
+  provider     TEXT NOT NULL,
+  model        TEXT NOT NULL,
+  text_version INTEGER NOT NULL,
+  dimensions   INTEGER NOT NULL,
+  content_hash TEXT NOT NULL,
+  embedded_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_records_model
+  ON embedding_records(provider, model, text_version);
+
+ALTER TABLE embedding_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE embedding_records ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE embedding_jobs IS 'Entities whose embedding must be recomputed, with retry state';
+COMMENT ON TABLE embedding_records IS 'Provider, model and text version that produced each stored embedding';
+
+COMMIT;
@@ -0,0 +1,101 @@
+-- Supports the per-entity timeline (/api/{concepts,lexical-units,senses}/[id]/timeline).
+--
+-- Design:
+--   * The timeline reads entity_row_history for the entity's own row plus
+--     its child rows (properties, sense_concepts, concept_relations,
+--     lexical_unit_senses, lexical_unit_relations). Child rows are matched
+--     by their parent key inside the JSONB snapshot, e.g.
+--       COALESCE(new_row, old_row) ->> 'concept_id'
+--     so each such lookup gets a partial expression index scoped to the
+--     tables it applies to. The timeline query uses the exact same
+--     expressions so the planner can pick them up.
+--   * concept_relations never had a row-history trigger (the original
+--     migration predates the table), so reparents were invisible in
+--     history. Attach one here.
+--   * sense_concepts / lexical_unit_senses still carry the triggers created
+--     against frame_sense_frames / lexical_unit_senses with the *old*
+--     composite key column names, which now resolve to NULL in entity_key.
+--     Re-create them with the current column names.
+--
+-- Safe to run multiple times.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. Triggers
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS concept_relations_row_history ON concept_relations;
+CREATE TRIGGER concept_relations_row_history
+  AFTER INSERT OR UPDATE OR DELETE ON concept_relations
+  FOR EACH ROW
+  EXECUTE FUNCTION log_entity_row_history('frame_relation', 'id');
+
+DROP TRIGGER IF EXISTS frame_sense_frames_row_history ON sense_concepts;
+DROP TRIGGER IF EXISTS sense_concepts_row_history ON sense_concepts;
+CREATE TRIGGER sense_concepts_row_history
+  AFTER INSERT OR UPDATE OR DELETE ON sense_concepts
+  FOR EACH ROW
+  EXECUTE FUNCTION log_entity_row_history(
+    'frame_sense_frame',
+    'composite',
+    'sense_id,concept_id'
+  );
+
+DROP TRIGGER IF EXISTS lexical_unit_senses_row_history ON lexical_unit_senses;
+CREATE TRIGGER lexical_unit_senses_row_history
+  AFTER INSERT OR UPDATE OR DELETE ON lexical_unit_senses
+  FOR EACH ROW
+  EXECUTE FUNCTION log_entity_row_history(
+    'lexical_unit_sense',
+    'composite',
+    'lexical_unit_id,sense_id'
+  );
+
+-- ============================================================================
+-- 2. Child-row lookup indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_entity_row_history_child_concept
+  ON entity_row_history (((COALESCE(new_row, old_row) ->> 'concept_id')), id)
+  WHERE table_name IN ('properties', 'sense_concepts');
+
+CREATE INDEX IF NOT EXISTS idx_entity_row_history_child_sense
+  ON entity_row_history (((COALESCE(new_row, old_row) ->> 'sense_id')), id)
+  WHERE table_name IN ('sense_concepts', 'lexical_unit_senses');
+
+CREATE INDEX IF NOT EXISTS idx_entity_row_history_child_lexical_unit
+  ON entity_row_history (((COALESCE(new_row, old_row) ->> 'lexical_unit_id')), id)
+  WHERE table_name = 'lexical_unit_senses';
+
+CREATE INDEX IF NOT EXISTS idx_entity_row_history_child_parent
+  ON entity_row_history (((COALESCE(new_row, old_row) ->> 'parent_id')), id)
+  WHERE table_name = 'concept_relations';
+
+CREATE INDEX IF NOT EXISTS idx_entity_row_history_child_child
+  ON entity_row_history (((COALESCE(new_row, old_row) ->> 'child_id')), id)
+  WHERE table_name = 'concept_relations';
+
+CREATE INDEX IF NOT EXISTS idx_entity_row_history_child_source
+  ON entity_row_history (((COALESCE(new_row, old_row) ->> 'source_id')), id)
+  WHERE table_name = 'lexical_unit_relations';
+
+CREATE INDEX IF NOT EXISTS idx_entity_row_history_child_target
+  ON entity_row_history (((COALESCE(new_row, old_row) ->> 'target_id')), id)
+  WHERE table_name = 'lexical_unit_relations';
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFICATION QUERIES (run manually)
+-- ============================================================================
+-- 1. Triggers are attached to the renamed tables
+--    SELECT event_object_table, trigger_name, action_statement
+--    FROM information_schema.triggers
+--    WHERE event_object_table IN ('concept_relations', 'sense_concepts', 'lexical_unit_senses')
+--      AND trigger_name LIKE '%_row_history';
+--
+-- 2. The property lookup uses the new index
+--    EXPLAIN SELECT id FROM entity_row_history
+--    WHERE table_name IN ('properties', 'sense_concepts')
+--      AND (COALESCE(new_row, old_row) ->> 'concept_id') = '<some_concept_id>';
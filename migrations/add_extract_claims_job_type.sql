@@ -0,0 +1,29 @@
+-- Supports LLM claim extraction over source_texts (`extract_claims` jobs).
+--
+-- Design:
+--   * One llm_job_items row per DocumentIndex chunk of a source text.
+--     llm_job_items.source_text_id mirrors lexical_unit_id / concept_id so
+--     items can be listed per source without parsing request_payload.
+--   * Validated extractions are not written to instances directly. Each
+--     extracted top-level instance becomes a pending CREATE changeset with
+--     entity_type 'instance' (fillers and mentions nested in the snapshot),
+--     so it goes through the normal review / commit flow.
+--
+-- Safe to run multiple times.
+
+-- ALTER TYPE ... ADD VALUE cannot run inside a transaction block.
+ALTER TYPE llm_job_type ADD VALUE IF NOT EXISTS 'extract_claims';
+ALTER TYPE entity_type ADD VALUE IF NOT EXISTS 'instance';
+
+BEGIN;
+
+ALTER TABLE llm_job_items
+  ADD COLUMN IF NOT EXISTS source_text_id BIGINT REFERENCES source_texts(id) ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+CREATE INDEX IF NOT EXISTS idx_llm_job_items_source_text
+  ON llm_job_items (source_text_id)
+  WHERE source_text_id IS NOT NULL;
+
+COMMENT ON TYPE llm_job_type IS 'Types of LLM jobs: flag (flag issues), edit (improve data), allocate_contents (move entries between frames), review (review pending changes), split (divide frame into multiple frames), allocate (pick best parent), extract_claims (extract instances from source texts)';
+
+COMMIT;
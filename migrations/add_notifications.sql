@@ -0,0 +1,250 @@
+-- Migration: Reviewer notifications, subscriptions and delivery preferences
+--
+-- Design:
+--   * Triggers append a row to `notification_events` for everything a
+--     reviewer may want to hear about, whichever process wrote it (the
+--     Explorer, the remediation runner, the LLM job workers):
+--       changeset_committed / changeset_discarded - changesets.status leaves 'pending'
+--       changeset_revised - a changeset is inserted with revision_parent_id
+--       llm_job_finished  - llm_jobs.status becomes completed / failed / cancelled
+--       finding_opened    - a health_check_findings row is inserted
+--       comment_added     - a change_comments row is inserted
+--   * The Explorer's dispatcher (`src/lib/notifications/dispatch.ts`, run
+--     by `notifications:dispatch` and whenever the bell polls) claims
+--     unprocessed events and fans them out to `notifications`:
+--       - @mentions in comments, and comments on my changesets
+--       - my changeset / change plan was committed, discarded or revised
+--       - my LLM job finished
+--       - anything above on an entity, change plan or diagnosis code I
+--         subscribe to (`notification_subscriptions`)
+--     The actor never hears about their own action. `dedupe_key` collapses
+--     the per-changeset events of a plan into one notification per person.
+--   * `notification_preferences` holds the per-user delivery channels:
+--     in-app is always on; `webhook_url` gets a Slack-compatible POST per
+--     notification; `email_digest` includes the user in the daily digest
+--     (`notifications:digest`). `muted_kinds` suppresses kinds entirely.
+--   * RLS is enabled with no policies, matching the other public tables.
+--
+-- Safe to run multiple times.
+
+DO $$
+BEGIN
+  CREATE TYPE notification_event_kind AS ENUM (
+    'changeset_committed',
+    'changeset_discarded',
+    'changeset_revised',
+    'llm_job_finished',
+    'finding_opened',
+    'comment_added'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE TYPE notification_kind AS ENUM (
+    'mention',
+    'comment',
+    'changeset_committed',
+    'changeset_discarded',
+    'changeset_revised',
+    'plan_committed',
+    'plan_discarded',
+    'llm_job_finished',
+    'finding_opened'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE TYPE notification_target_type AS ENUM (
+    'frame',
+    'lexical_unit',
+    'change_plan',
+    'diagnosis_code'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS notification_events (
+  id             BIGSERIAL PRIMARY KEY,
+  kind           notification_event_kind NOT NULL,
+  changeset_id   BIGINT,
+  change_plan_id BIGINT,
+  llm_job_id     BIGINT,
+  finding_id     BIGINT,
+  comment_id     BIGINT,
+  actor          TEXT,
+  occurred_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  processed_at   TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_events_unprocessed
+  ON notification_events(id) WHERE processed_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id              BIGSERIAL PRIMARY KEY,
+  recipient       TEXT NOT NULL,
+  kind            notification_kind NOT NULL,
+  title           TEXT NOT NULL,
+  body            TEXT,
+  link            TEXT,
+  actor           TEXT,
+  event_id        BIGINT REFERENCES notification_events(id) ON DELETE SET NULL,
+  dedupe_key      TEXT NOT NULL,
+  read_at         TIMESTAMPTZ,
+  webhook_sent_at TIMESTAMPTZ,
+  webhook_attempts INTEGER NOT NULL DEFAULT 0,
+  emailed_at      TIMESTAMPTZ,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT uq_notifications_recipient_dedupe UNIQUE (recipient, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient
+  ON notifications(recipient, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread
+  ON notifications(recipient) WHERE read_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS notification_subscriptions (
+  id          BIGSERIAL PRIMARY KEY,
+  user_name   TEXT NOT NULL,
+  target_type notification_target_type NOT NULL,
+  target_id   BIGINT NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT uq_notification_subscriptions UNIQUE (user_name, target_type, target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_subscriptions_target
+  ON notification_subscriptions(target_type, target_id);
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_name      TEXT PRIMARY KEY,
+  email          TEXT,
+  email_digest   BOOLEAN NOT NULL DEFAULT FALSE,
+  webhook_url    TEXT,
+  muted_kinds    notification_kind[] NOT NULL DEFAULT '{}',
+  last_digest_at TIMESTAMPTZ,
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- ----------------------------------------------------------------------------
+-- Event triggers
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION record_changeset_notification_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.revision_parent_id IS NOT NULL THEN
+      INSERT INTO notification_events (kind, changeset_id, change_plan_id, actor)
+      VALUES ('changeset_revised', NEW.id, NEW.change_plan_id, NEW.created_by);
+    END IF;
+  ELSIF OLD.status = 'pending' AND NEW.status IN ('committed', 'discarded') THEN
+    INSERT INTO notification_events (kind, changeset_id, change_plan_id, actor)
+    VALUES (
+      ('changeset_' || NEW.status::text)::notification_event_kind,
+      NEW.id,
+      NEW.change_plan_id,
+      -- Commit and discard paths record the acting user in reviewed_by. The
+      -- ones that don't are the author emptying their own changeset while
+      -- editing, so the author is the actor.
+      COALESCE(NEW.reviewed_by, NEW.created_by)
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS changesets_notification_events ON changesets;
+CREATE TRIGGER changesets_notification_events
+  AFTER INSERT OR UPDATE OF status ON changesets
+  FOR EACH ROW
+  EXECUTE FUNCTION record_changeset_notification_event();
+
+CREATE OR REPLACE FUNCTION record_llm_job_notification_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status
+     AND NEW.status IN ('completed', 'failed', 'cancelled') THEN
+    INSERT INTO notification_events (kind, llm_job_id)
+    VALUES ('llm_job_finished', NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS llm_jobs_notification_events ON llm_jobs;
+CREATE TRIGGER llm_jobs_notification_events
+  AFTER UPDATE OF status ON llm_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION record_llm_job_notification_event();
+
+-- Every health-check run re-inserts its findings, carrying over ignored and
+-- false-positive ones and resolving the previous open rows after the new
+-- rows go in. Only a finding that is open and had no open predecessor for
+-- the same entity and diagnosis code is news.
+CREATE OR REPLACE FUNCTION record_finding_notification_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'open' THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM health_check_findings f
+    JOIN health_check_results r ON r.id = f.result_id
+    JOIN health_check_results nr ON nr.id = NEW.result_id
+    WHERE f.id <> NEW.id
+      AND f.status = 'open'
+      AND f.diagnosis_code_id = NEW.diagnosis_code_id
+      AND r.entity_type = nr.entity_type
+      AND r.entity_id = nr.entity_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notification_events (kind, finding_id)
+  VALUES ('finding_opened', NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS health_check_findings_notification_events ON health_check_findings;
+CREATE TRIGGER health_check_findings_notification_events
+  AFTER INSERT ON health_check_findings
+  FOR EACH ROW
+  EXECUTE FUNCTION record_finding_notification_event();
+
+CREATE OR REPLACE FUNCTION record_comment_notification_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notification_events (kind, changeset_id, comment_id, actor)
+  VALUES ('comment_added', NEW.changeset_id, NEW.id, NEW.author);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS change_comments_notification_events ON change_comments;
+CREATE TRIGGER change_comments_notification_events
+  AFTER INSERT ON change_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION record_comment_notification_event();
+
+ALTER TABLE notification_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE notification_events IS 'Trigger-fed queue of things reviewers may be notified about; drained by the notification dispatcher';
+COMMENT ON TABLE notifications IS 'Per-recipient notifications (in-app, webhook and email digest)';
+COMMENT ON TABLE notification_subscriptions IS 'Users watching a concept, lexical unit, change plan or diagnosis code';
+COMMENT ON TABLE notification_preferences IS 'Per-user notification delivery channels';
+
+COMMIT;
@@ -0,0 +1,74 @@
+-- Supports cross-document referent resolution (/api/referents/merge-candidates)
+-- and reviewable referent merges through the changeset workflow.
+--
+-- Design:
+--   * Merges are soft: the losing referent keeps its row and gets
+--     merged_into_id pointing at the survivor. Its instances, aliases and
+--     external ids move to the survivor, and the audit_log row written at
+--     commit time records exactly which rows moved so the merge can be
+--     reverted.
+--   * normalize_referent_label() is the single definition of "same
+--     surface form" used when matching aliases, canonical labels and
+--     unresolved instance labels. The TypeScript mirror lives in
+--     src/lib/referents/normalize.ts; keep the two in sync.
+--   * referents.embedding is optional. Referents without one simply don't
+--     contribute embedding-similarity candidates
+--     (see scripts/backfill-referent-embeddings.ts).
+--
+-- Safe to run multiple times.
+
+ALTER TYPE entity_type ADD VALUE IF NOT EXISTS 'referent';
+
+BEGIN;
+
+-- ============================================================================
+-- 1. Columns
+-- ============================================================================
+
+ALTER TABLE referents
+  ADD COLUMN IF NOT EXISTS merged_into_id BIGINT REFERENCES referents(id) ON UPDATE NO ACTION,
+  ADD COLUMN IF NOT EXISTS merged_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS embedding extensions.vector(1536);
+
+ALTER TABLE referents DROP CONSTRAINT IF EXISTS referents_not_merged_into_self;
+ALTER TABLE referents
+  ADD CONSTRAINT referents_not_merged_into_self CHECK (merged_into_id IS NULL OR merged_into_id <> id);
+
+-- ============================================================================
+-- 2. Normalization
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.normalize_referent_label(value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+SET search_path = ''
+AS $$
+  SELECT btrim(regexp_replace(lower(coalesce(value, '')), '[^[:alnum:]]+', ' ', 'g'))
+$$;
+
+-- ============================================================================
+-- 3. Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_referents_merged_into
+  ON referents (merged_into_id)
+  WHERE merged_into_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_referents_active_type_label
+  ON referents (type_concept_id, public.normalize_referent_label(canonical_label))
+  WHERE merged_into_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_referent_external_ids_normalized
+  ON referent_external_ids (lower(vocabulary), lower(regexp_replace(external_id, '^.*[/#]', '')));
+
+CREATE INDEX IF NOT EXISTS idx_instances_unresolved_label
+  ON instances (concept_id, public.normalize_referent_label(metadata ->> 'label'))
+  WHERE referent_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_referents_embedding
+  ON referents USING hnsw (embedding extensions.vector_cosine_ops)
+  WHERE merged_into_id IS NULL;
+
+COMMIT;
@@ -0,0 +1,57 @@
+-- Migration: Full-text search vectors for concepts, senses and referents
+--
+-- Design:
+--   * lexical_units already carries gloss_tsv / examples_tsv. The other
+--     searchable tables get a STORED generated gloss_tsv column so the
+--     hybrid search (src/lib/search/hybrid.ts) can rank every entity type
+--     with ts_rank over an indexed tsvector.
+--   * The column is named gloss_tsv on purpose: the row-history trigger
+--     (add_row_history.sql) and the snapshot export already strip that
+--     column, so history rows and bundles are unaffected.
+--   * Weights: A = label / lemmas, B = short definition, C = definition.
+--   * array_to_string is only STABLE, so sense lemmas go through an
+--     IMMUTABLE wrapper that generated columns accept.
+--   * Adding a stored generated column rewrites the table once; run it
+--     outside peak hours on large databases.
+--
+-- Safe to run multiple times.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.search_text_join(value text[])
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+SET search_path = ''
+AS $$
+  SELECT pg_catalog.array_to_string(coalesce(value, '{}'::text[]), ' ')
+$$;
+
+ALTER TABLE concepts
+  ADD COLUMN IF NOT EXISTS gloss_tsv tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(label, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(short_definition, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(definition, '')), 'C')
+  ) STORED;
+
+ALTER TABLE senses
+  ADD COLUMN IF NOT EXISTS gloss_tsv tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', public.search_text_join(lemmas)), 'A') ||
+    setweight(to_tsvector('english', coalesce(definition, '')), 'B')
+  ) STORED;
+
+ALTER TABLE referents
+  ADD COLUMN IF NOT EXISTS gloss_tsv tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(canonical_label, '')), 'A')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_concepts_gloss_tsv ON concepts USING GIN (gloss_tsv);
+CREATE INDEX IF NOT EXISTS idx_senses_gloss_tsv ON senses USING GIN (gloss_tsv);
+CREATE INDEX IF NOT EXISTS idx_referents_gloss_tsv ON referents USING GIN (gloss_tsv);
+
+COMMENT ON COLUMN concepts.gloss_tsv IS 'Full-text vector over label (A), short_definition (B) and definition (C)';
+COMMENT ON COLUMN senses.gloss_tsv IS 'Full-text vector over lemmas (A) and definition (B)';
+COMMENT ON COLUMN referents.gloss_tsv IS 'Full-text vector over canonical_label (A)';
+
+COMMIT;
@@ -0,0 +1,24 @@
+-- Supports editing sense contrasts through changesets and drafting them with
+-- an LLM (`draft_sense_contrasts` jobs).
+--
+-- Design:
+--   * sense_contrasts rows are staged as changesets with entity_type
+--     'sense_contrast': create, `contrast_text` update and delete. Rows keep
+--     the table's canonical order (sense_id < contrasted_sense_id), so a
+--     pair has one row whichever sense it was edited from.
+--   * A draft_sense_contrasts job has one llm_job_items row per polysemous
+--     lemma that still lacks contrasts between some of its senses. Drafts
+--     are staged as pending sense_contrast changesets carrying the job id,
+--     so reviewers accept or revise them like any other edit.
+--
+-- Safe to run multiple times.
+
+-- ALTER TYPE ... ADD VALUE cannot run inside a transaction block.
+ALTER TYPE entity_type ADD VALUE IF NOT EXISTS 'sense_contrast';
+ALTER TYPE llm_job_type ADD VALUE IF NOT EXISTS 'draft_sense_contrasts';
+
+BEGIN;
+
+COMMENT ON TYPE llm_job_type IS 'Types of LLM jobs: flag (flag issues), edit (improve data), allocate_contents (move entries between frames), review (review pending changes), split (divide frame into multiple frames), allocate (pick best parent), extract_claims (extract instances from source texts), draft_sense_contrasts (draft how senses of a lemma differ)';
+
+COMMIT;
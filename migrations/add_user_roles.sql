@@ -0,0 +1,46 @@
+-- Migration: Role-based permissions (viewer / editor / reviewer / admin)
+--
+-- Design:
+--   * One row per user, keyed by the same name `getCurrentUserName()`
+--     writes to changesets.created_by (the local part of the Supabase
+--     email), so "reviewer differs from author" is a plain string compare.
+--   * Roles are ordered: viewer < editor < reviewer < admin. Each role
+--     includes everything the roles below it can do:
+--       viewer   - read only
+--       editor   - stage changes, run LLM jobs, stage reverts
+--       reviewer - commit / discard changesets and plans, run health checks
+--       admin    - edit health-check definitions and diagnosis codes,
+--                  manage user_roles
+--   * Users without a row get DEFAULT_USER_ROLE (env, default `viewer`);
+--     requests without a session are treated as `viewer`.
+--   * RLS is enabled with no policies, matching the other public tables:
+--     only the server (Prisma) reads or writes this table.
+--
+-- Safe to run multiple times.
+
+DO $$
+BEGIN
+  CREATE TYPE user_role AS ENUM ('viewer', 'editor', 'reviewer', 'admin');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_name  TEXT PRIMARY KEY,
+  role       user_role NOT NULL,
+  granted_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_role ON user_roles(role);
+
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE user_roles IS 'Per-user permission role; users without a row get DEFAULT_USER_ROLE';
+COMMENT ON COLUMN user_roles.user_name IS 'Same value getCurrentUserName() writes to created_by / committed_by columns';
+COMMENT ON COLUMN user_roles.granted_by IS 'Admin who last set this role';
+
+COMMIT;
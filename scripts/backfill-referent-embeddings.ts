@@ -0,0 +1,79 @@
+/**
+ * Populate `referents.embedding` for referents that don't have one yet, so
+ * referent resolution can propose embedding-similarity merge candidates.
+ *
+ * Usage:
+ *   npx tsx scripts/backfill-referent-embeddings.ts [--all] [--batch=100]
+ *
+ * The embedded text is "<canonical label> (<type concept>) aka <aliases>".
+ * `--all` re-embeds every unmerged referent.
+ */
+
+import { config as loadEnv } from 'dotenv';
+loadEnv({ path: '.env.local' });
+loadEnv();
+
+import OpenAI from 'openai';
+import { prisma } from '../src/lib/prisma';
+
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+const EMBEDDING_DIMENSIONS = 1536;
+
+function embeddingToVectorString(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const all = args.includes('--all');
+  const batchArg = args.find((a) => a.startsWith('--batch='));
+  const batchSize = batchArg ? Math.max(1, parseInt(batchArg.slice('--batch='.length), 10) || 100) : 100;
+
+  if (!process.env.OPENAI_API_KEY) throw new Error('OPENAI_API_KEY is not set');
+  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+
+  let afterId = 0n;
+  let embedded = 0;
+  for (;;) {
+    const rows = await prisma.$queryRaw<{ id: bigint; text: string }[]>`
+      SELECT r.id,
+             r.canonical_label || ' (' || c.label || ')' ||
+               COALESCE(' aka ' || (
+                 SELECT string_agg(a.alias, ', ' ORDER BY a.id)
+                 FROM referent_aliases a WHERE a.referent_id = r.id
+               ), '') AS text
+      FROM referents r
+      JOIN concepts c ON c.id = r.type_concept_id
+      WHERE r.merged_into_id IS NULL
+        AND r.id > ${afterId}
+        AND (${all} OR r.embedding IS NULL)
+      ORDER BY r.id
+      LIMIT ${batchSize}
+    `;
+    if (rows.length === 0) break;
+
+    const response = await openai.embeddings.create({
+      model: EMBEDDING_MODEL,
+      input: rows.map((r) => r.text),
+      dimensions: EMBEDDING_DIMENSIONS,
+    });
+    for (const [idx, row] of rows.entries()) {
+      await prisma.$executeRaw`
+        UPDATE referents
+        SET embedding = ${embeddingToVectorString(response.data[idx].embedding)}::extensions.vector
+        WHERE id = ${row.id}
+      `;
+    }
+    embedded += rows.length;
+    afterId = rows[rows.length - 1].id;
+    console.log(`embedded ${embedded} referent(s)`);
+  }
+  console.log(`Done: ${embedded} referent(s) embedded.`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err?.stack ?? err?.message ?? err);
+    process.exit(1);
+  });
@@ -0,0 +1,63 @@
+/**
+ * Fan new domain events (migrations/add_domain_events_outbox.sql) out to
+ * the registered webhook endpoints and send every due delivery, including
+ * retries. Run it from cron every minute, or keep it running with --watch.
+ *
+ * Usage:
+ *   npx tsx scripts/deliver-webhooks.ts [--batch=100] [--watch[=5]]
+ *
+ * --watch repeats every N seconds (default 5) until interrupted.
+ */
+
+import { config as loadEnv } from 'dotenv';
+loadEnv({ path: '.env.local' });
+loadEnv();
+
+import { deliverDomainEvents, type DeliverySummary } from '../src/lib/events/delivery';
+
+async function drain(limit: number): Promise<DeliverySummary> {
+  const totals: DeliverySummary = { events: 0, deliveries_created: 0, sent: 0, retrying: 0, failed: 0 };
+  for (;;) {
+    const summary = await deliverDomainEvents({ limit });
+    totals.events += summary.events;
+    totals.deliveries_created += summary.deliveries_created;
+    totals.sent += summary.sent;
+    totals.retrying += summary.retrying;
+    totals.failed += summary.failed;
+    if (summary.sent + summary.retrying + summary.failed < limit && summary.events === 0) break;
+  }
+  return totals;
+}
+
+function report(totals: DeliverySummary) {
+  console.log(
+    `Fanned out ${totals.events} event(s) into ${totals.deliveries_created} delivery(ies); ` +
+      `${totals.sent} sent, ${totals.retrying} retrying, ${totals.failed} gave up.`,
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const batchArg = args.find((a) => a.startsWith('--batch='));
+  const limit = batchArg ? Math.max(1, parseInt(batchArg.slice('--batch='.length), 10) || 100) : 100;
+  const watchArg = args.find((a) => a === '--watch' || a.startsWith('--watch='));
+
+  if (!watchArg) {
+    report(await drain(limit));
+    return;
+  }
+
+  const intervalMs = Math.max(1, parseInt(watchArg.split('=')[1] ?? '5', 10) || 5) * 1000;
+  for (;;) {
+    const totals = await drain(limit);
+    if (totals.events + totals.sent + totals.retrying + totals.failed > 0) report(totals);
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err?.stack ?? err?.message ?? err);
+    process.exit(1);
+  });
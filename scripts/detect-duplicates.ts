@@ -0,0 +1,57 @@
+/**
+ * Find near-duplicate concepts and senses (migrations/add_duplicate_detection.sql)
+ * and refresh the candidate pairs reviewed at /concepts/duplicates. Run it
+ * from cron after embeddings are refreshed.
+ *
+ * Usage:
+ *   npx tsx scripts/detect-duplicates.ts [--type=concept|sense] [--min-similarity=0.9]
+ *     [--neighbors=5] [--min-score=0.5] [--limit=2000] [--user=system]
+ *
+ * Without --type both entity types are scanned, concepts first.
+ */
+
+import { config as loadEnv } from 'dotenv';
+loadEnv({ path: '.env.local' });
+loadEnv();
+
+import { executeDuplicateDetectionRun, resolveDetectOptions, startDuplicateDetectionRun } from '../src/lib/duplicates/detection';
+import { DUPLICATE_ENTITY_TYPES, type DuplicateEntityType } from '../src/lib/duplicates/types';
+
+function arg(args: string[], name: string): string | undefined {
+  const found = args.find((a) => a.startsWith(`--${name}=`));
+  return found?.slice(name.length + 3);
+}
+
+function numberArg(args: string[], name: string): number | undefined {
+  const value = arg(args, name);
+  return value === undefined ? undefined : Number(value);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const type = arg(args, 'type');
+  if (type && !DUPLICATE_ENTITY_TYPES.includes(type as DuplicateEntityType)) {
+    throw new Error(`--type must be one of ${DUPLICATE_ENTITY_TYPES.join(', ')}`);
+  }
+  const types = type ? [type as DuplicateEntityType] : DUPLICATE_ENTITY_TYPES;
+  const options = resolveDetectOptions({
+    min_similarity: numberArg(args, 'min-similarity'),
+    neighbors: numberArg(args, 'neighbors'),
+    min_score: numberArg(args, 'min-score'),
+    limit: numberArg(args, 'limit'),
+  });
+  const user = arg(args, 'user') ?? 'system';
+
+  for (const entityType of types) {
+    const started = await startDuplicateDetectionRun(entityType, options, user);
+    const run = await executeDuplicateDetectionRun(BigInt(started.id));
+    console.log(`Run #${run.id}: ${run.candidates_found} ${entityType} candidate pair(s).`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err?.stack ?? err?.message ?? err);
+    process.exit(1);
+  });
@@ -0,0 +1,41 @@
+/**
+ * Drain queued notification events (written by the triggers in
+ * migrations/add_notifications.sql) into per-user notifications and push
+ * them to personal webhooks. The bell does this on every poll too; run
+ * this from cron so webhooks fire when nobody has the Explorer open.
+ *
+ * Usage:
+ *   npx tsx scripts/dispatch-notifications.ts [--batch=200]
+ */
+
+import { config as loadEnv } from 'dotenv';
+loadEnv({ path: '.env.local' });
+loadEnv();
+
+import { dispatchNotificationEvents } from '../src/lib/notifications/dispatch';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const batchArg = args.find((a) => a.startsWith('--batch='));
+  const limit = batchArg ? Math.max(1, parseInt(batchArg.slice('--batch='.length), 10) || 200) : 200;
+
+  const totals = { events: 0, notifications: 0, webhooks_sent: 0, webhooks_failed: 0 };
+  for (;;) {
+    const summary = await dispatchNotificationEvents({ limit });
+    totals.events += summary.events;
+    totals.notifications += summary.notifications;
+    totals.webhooks_sent += summary.webhooks_sent;
+    totals.webhooks_failed += summary.webhooks_failed;
+    if (summary.events < limit) break;
+  }
+
+  console.log(`Processed ${totals.events} event(s) into ${totals.notifications} notification(s).`);
+  console.log(`Webhooks: ${totals.webhooks_sent} sent, ${totals.webhooks_failed} failed.`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err?.stack ?? err?.message ?? err);
+    process.exit(1);
+  });
@@ -0,0 +1,42 @@
+/**
+ * Evaluate commit policies for pending changesets and plans that were
+ * staged outside the Explorer (remediation runner, imports, scripts) and
+ * have never been evaluated. Matching auto_commit policies commit them;
+ * require_approvals policies flag them. Every decision is logged to
+ * commit_policy_decisions.
+ *
+ * Usage:
+ *   npx tsx scripts/evaluate-commit-policies.ts [--limit=500]
+ */
+
+import { config as loadEnv } from 'dotenv';
+loadEnv({ path: '.env.local' });
+loadEnv();
+
+import { evaluatePendingCommitPolicies } from '../src/lib/commit-policies/engine';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const limitArg = args.find((a) => a.startsWith('--limit='));
+  const limit = limitArg ? Math.max(1, parseInt(limitArg.slice('--limit='.length), 10) || 500) : 500;
+
+  const { evaluated, outcomes } = await evaluatePendingCommitPolicies({ limit });
+
+  const counts = new Map<string, number>();
+  for (const outcome of outcomes) {
+    if (!outcome.decision) continue;
+    counts.set(outcome.decision, (counts.get(outcome.decision) ?? 0) + 1);
+    console.log(`  ${outcome.target} ${outcome.id}: ${outcome.decision} (${outcome.policy_name})`);
+  }
+  console.log(`Evaluated ${evaluated} pending changeset(s)/plan(s).`);
+  for (const [decision, count] of counts) {
+    console.log(`${decision}: ${count}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err?.stack ?? err?.message ?? err);
+    process.exit(1);
+  });
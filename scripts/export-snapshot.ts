@@ -0,0 +1,46 @@
+/**
+ * Export a dataset snapshot (migrations/add_dataset_snapshots.sql) as a
+ * bundle: one JSONL file per table and a manifest.json with row counts and
+ * SHA-256 checksums, written to <out>/<snapshot name>/.
+ *
+ * Usage:
+ *   npx tsx scripts/export-snapshot.ts <snapshot name or id> [--out=snapshots]
+ *
+ * Tag a snapshot first with POST /api/snapshots.
+ */
+
+import { config as loadEnv } from 'dotenv';
+loadEnv({ path: '.env.local' });
+loadEnv();
+
+import { writeSnapshotBundle } from '../src/lib/snapshots/bundle';
+import { getSnapshotRow } from '../src/lib/snapshots/store';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const target = args.find((a) => !a.startsWith('--'));
+  if (!target) {
+    console.error('Usage: npx tsx scripts/export-snapshot.ts <snapshot name or id> [--out=snapshots]');
+    process.exit(2);
+  }
+  const outArg = args.find((a) => a.startsWith('--out='));
+  const outDir = outArg ? outArg.slice('--out='.length) : 'snapshots';
+
+  const snapshot = await getSnapshotRow(target);
+  console.log(
+    `Exporting snapshot "${snapshot.name}" (row history <= ${snapshot.row_history_watermark}, ` +
+      `taken ${snapshot.created_at.toISOString()})`,
+  );
+  const { dir, manifest } = await writeSnapshotBundle(snapshot, outDir, (entry) => {
+    console.log(`  ${entry.file}: ${entry.rows} row(s), sha256 ${entry.sha256.slice(0, 12)}…`);
+  });
+  const rows = manifest.tables.reduce((sum, t) => sum + t.rows, 0);
+  console.log(`Wrote ${manifest.tables.length} table(s), ${rows} row(s) and manifest.json to ${dir}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err?.stack ?? err?.message ?? err);
+    process.exit(1);
+  });
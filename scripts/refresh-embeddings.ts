@@ -0,0 +1,65 @@
+/**
+ * Drain the embedding refresh queue (migrations/add_embedding_maintenance.sql):
+ * re-embed entities whose text changed in a commit or that a backfill
+ * queued, with the provider chosen by EMBEDDING_PROVIDER. Run it from cron,
+ * or keep it running with --watch.
+ *
+ * Usage:
+ *   npx tsx scripts/refresh-embeddings.ts [--batch=100] [--watch[=30]]
+ *
+ * --watch repeats every N seconds (default 30) until interrupted.
+ */
+
+import { config as loadEnv } from 'dotenv';
+loadEnv({ path: '.env.local' });
+loadEnv();
+
+import { refreshEmbeddings } from '../src/lib/embeddings/worker';
+import type { EmbeddingRefreshSummary } from '../src/lib/embeddings/types';
+
+async function drain(limit: number): Promise<EmbeddingRefreshSummary> {
+  const totals: EmbeddingRefreshSummary = { claimed: 0, embedded: 0, skipped: 0, retrying: 0, failed: 0 };
+  for (;;) {
+    const summary = await refreshEmbeddings({ limit });
+    totals.claimed += summary.claimed;
+    totals.embedded += summary.embedded;
+    totals.skipped += summary.skipped;
+    totals.retrying += summary.retrying;
+    totals.failed += summary.failed;
+    if (summary.claimed < limit) break;
+  }
+  return totals;
+}
+
+function report(totals: EmbeddingRefreshSummary) {
+  console.log(
+    `Claimed ${totals.claimed} job(s): ${totals.embedded} embedded, ${totals.skipped} unchanged or gone, ` +
+      `${totals.retrying} retrying, ${totals.failed} gave up.`,
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const batchArg = args.find((a) => a.startsWith('--batch='));
+  const limit = batchArg ? Math.max(1, parseInt(batchArg.slice('--batch='.length), 10) || 100) : 100;
+  const watchArg = args.find((a) => a === '--watch' || a.startsWith('--watch='));
+
+  if (!watchArg) {
+    report(await drain(limit));
+    return;
+  }
+
+  const intervalMs = Math.max(1, parseInt(watchArg.split('=')[1] ?? '30', 10) || 30) * 1000;
+  for (;;) {
+    const totals = await drain(limit);
+    if (totals.claimed > 0) report(totals);
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err?.stack ?? err?.message ?? err);
+    process.exit(1);
+  });
@@ -0,0 +1,52 @@
+/**
+ * Run programmatic health checks in-process against the configured
+ * database, without the Step Functions pipeline.
+ *
+ * Usage:
+ *   npx tsx scripts/run-health-checks.ts [CODE ...] [--entity-ids=1,2,3] [--stale-only] [--force]
+ *
+ * With no codes, every registered rule runs. `--stale-only` re-checks only
+ * targets flagged stale by commits (or never checked). Exits non-zero if any run
+ * fails, so it can gate CI.
+ */
+
+import { config as loadEnv } from 'dotenv';
+loadEnv({ path: '.env.local' });
+loadEnv();
+
+import { listProgrammaticRules, runProgrammaticHealthCheck } from '../src/lib/health-checks/runner';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const staleOnly = args.includes('--stale-only');
+  const entityIdsArg = args.find((a) => a.startsWith('--entity-ids='));
+  const entityIds = entityIdsArg
+    ? entityIdsArg.slice('--entity-ids='.length).split(',').map((v) => v.trim()).filter(Boolean)
+    : undefined;
+  const requested = args.filter((a) => !a.startsWith('--'));
+
+  const known = listProgrammaticRules().map((r) => r.code);
+  const unknown = requested.filter((code) => !known.includes(code));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown rule(s): ${unknown.join(', ')}. Registered: ${known.join(', ')}`);
+  }
+  const codes = requested.length > 0 ? requested : known;
+
+  let failed = false;
+  for (const code of codes) {
+    console.log(`>>> ${code}`);
+    const summary = await runProgrammaticHealthCheck(code, {
+      scope: { entity_ids: entityIds, stale_only: staleOnly, force },
+      label: 'run-health-checks-script',
+    });
+    console.log(JSON.stringify({ ...summary, run_id: summary.run_id.toString() }, null, 2));
+    if (summary.status === 'failed') failed = true;
+  }
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error(err?.stack ?? err?.message ?? err);
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+/**
+ * Send the daily notification digest to every user who opted in
+ * (notification_preferences.email_digest with an email address). Mail is
+ * posted to NOTIFICATION_EMAIL_WEBHOOK_URL; see src/lib/notifications/digest.ts.
+ * Run once a day from cron, after `notifications:dispatch`.
+ *
+ * Usage:
+ *   npx tsx scripts/send-notification-digest.ts [--dry-run]
+ */
+
+import { config as loadEnv } from 'dotenv';
+loadEnv({ path: '.env.local' });
+loadEnv();
+
+import { dispatchNotificationEvents } from '../src/lib/notifications/dispatch';
+import { sendNotificationDigests } from '../src/lib/notifications/digest';
+
+async function main() {
+  const dryRun = process.argv.slice(2).includes('--dry-run');
+
+  if (!dryRun) {
+    // Include whatever is still queued.
+    while ((await dispatchNotificationEvents({ limit: 200 })).events === 200) {
+      // keep draining
+    }
+  }
+
+  const summary = await sendNotificationDigests({ dryRun });
+  console.log(
+    `${dryRun ? '[dry run] ' : ''}${summary.users} opted-in user(s): ` +
+      `${summary.sent} ${dryRun ? 'would be sent' : 'sent'}, ${summary.skipped} with nothing new, ${summary.failed} failed.`,
+  );
+  if (summary.failed > 0) process.exitCode = 1;
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((err) => {
+    console.error(err?.stack ?? err?.message ?? err);
+    process.exit(1);
+  });
@@ -0,0 +1,48 @@
+/**
+ * Report lexical unit relations whose inverse edge is missing
+ * (hypernym without hyponym, meronym_part without holonym_part, one-sided
+ * antonym, …) and, with `--fix`, insert the missing inverses.
+ *
+ * Usage:
+ *   npx tsx scripts/sweep-lu-relation-inverses.ts [--fix] [--samples=5] [--user=<name>]
+ *
+ * Inserted rows are attributed to `--user` (default
+ * `system:relation-sweep`) in entity_row_history.
+ */
+
+import { config as loadEnv } from 'dotenv';
+loadEnv({ path: '.env.local' });
+loadEnv();
+
+import { sweepLexicalUnitRelationInverses } from '../src/lib/version-control/lexical-unit-relations';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const fix = args.includes('--fix');
+  const samplesArg = args.find((a) => a.startsWith('--samples='));
+  const sampleSize = samplesArg ? Math.max(0, parseInt(samplesArg.slice('--samples='.length), 10) || 0) : 5;
+  const userArg = args.find((a) => a.startsWith('--user='));
+  const userId = userArg ? userArg.slice('--user='.length) : undefined;
+
+  const result = await sweepLexicalUnitRelationInverses({ fix, userId, sampleSize });
+
+  if (result.by_type.length === 0) {
+    console.log('No missing inverse relations.');
+    return;
+  }
+  for (const entry of result.by_type) {
+    console.log(`${entry.type} -> ${entry.inverse_type}: ${entry.missing} missing`);
+    for (const sample of entry.samples) {
+      console.log(`  ${sample.source} ${entry.type} ${sample.target}`);
+    }
+  }
+  console.log(`Total missing: ${result.total_missing}`);
+  console.log(fix ? `Inserted ${result.inserted} inverse relation(s).` : 'Dry run; pass --fix to insert them.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err?.stack ?? err?.message ?? err);
+    process.exit(1);
+  });
@@ -0,0 +1,58 @@
+/**
+ * API Route: /api/api-keys/[id]
+ *
+ * PATCH  - Rename a key or change its rate limit or expiry (admin); only
+ *          the fields present are changed
+ * DELETE - Revoke a key (admin). The row is kept; revoking is permanent.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyError, parseApiKeyInput, revokeApiKey, updateApiKey } from '@/lib/public-api/keys';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof PermissionError || error instanceof ApiKeyError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  console.error(`[API] Error ${action} API key:`, error);
+  return NextResponse.json({ error: `Failed to ${action === 'updating' ? 'update' : 'revoke'} API key` }, { status: 500 });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    await requirePermission('manage_api_keys');
+    const { id } = await params;
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ error: 'Invalid API key id' }, { status: 400 });
+    }
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 });
+    }
+    const key = await updateApiKey(BigInt(id), parseApiKeyInput(body, { partial: true }));
+    return NextResponse.json(key);
+  } catch (error) {
+    return errorResponse(error, 'updating');
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    await requirePermission('manage_api_keys');
+    const { id } = await params;
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ error: 'Invalid API key id' }, { status: 400 });
+    }
+    return NextResponse.json(await revokeApiKey(BigInt(id)));
+  } catch (error) {
+    return errorResponse(error, 'revoking');
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * API Route: /api/api-keys
+ *
+ * GET  - API keys for the /api/v1 read API (admin); secrets are never
+ *        returned
+ * POST - Issue a key (admin). Body: { name, rate_limit_per_minute?,
+ *        expires_at? }. The response includes the full key; it is not
+ *        shown again.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyError, createApiKey, listApiKeys, parseApiKeyInput } from '@/lib/public-api/keys';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof PermissionError || error instanceof ApiKeyError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  console.error(`[API] Error ${action} API keys:`, error);
+  return NextResponse.json({ error: `Failed to ${action === 'loading' ? 'load' : 'create'} API key` }, { status: 500 });
+}
+
+export async function GET() {
+  try {
+    await requirePermission('manage_api_keys');
+    return NextResponse.json({ keys: await listApiKeys() });
+  } catch (error) {
+    return errorResponse(error, 'loading');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userName } = await requirePermission('manage_api_keys');
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 });
+    }
+    const key = await createApiKey(parseApiKeyInput(body), userName);
+    return NextResponse.json(key, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'creating');
+  }
+}
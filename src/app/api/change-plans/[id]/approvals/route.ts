@@ -0,0 +1,69 @@
+/**
+ * API Route: /api/change-plans/[id]/approvals
+ *
+ * GET    - Required approvals and who has approved so far
+ * POST   - Approve as the current reviewer (authors can't approve their own work)
+ * DELETE - Withdraw the current reviewer's approval
+ *
+ * Requirements are set by require_approvals commit policies; a changeset
+ * inside a plan shares the plan's approvals.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  addApproval,
+  getApprovalStatus,
+  removeApproval,
+  type ApprovalTarget,
+} from '@/lib/commit-policies/approvals';
+import { CommitPolicyError } from '@/lib/commit-policies/validation';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function resolveTarget({ params }: RouteContext): Promise<ApprovalTarget | null> {
+  const { id } = await params;
+  return /^\d+$/.test(id) ? { kind: 'plan', id: BigInt(id) } : null;
+}
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof PermissionError || error instanceof CommitPolicyError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  console.error(`[API] Error ${action} plan approvals:`, error);
+  return NextResponse.json({ error: 'Failed to update approvals' }, { status: 500 });
+}
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const target = await resolveTarget(context);
+    if (!target) return NextResponse.json({ error: 'Invalid plan ID' }, { status: 400 });
+    return NextResponse.json(await getApprovalStatus(target));
+  } catch (error) {
+    return errorResponse(error, 'loading');
+  }
+}
+
+export async function POST(_request: NextRequest, context: RouteContext) {
+  try {
+    const { userName } = await requirePermission('review_changes');
+    const target = await resolveTarget(context);
+    if (!target) return NextResponse.json({ error: 'Invalid plan ID' }, { status: 400 });
+    return NextResponse.json(await addApproval(target, userName));
+  } catch (error) {
+    return errorResponse(error, 'adding');
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  try {
+    const { userName } = await requirePermission('review_changes');
+    const target = await resolveTarget(context);
+    if (!target) return NextResponse.json({ error: 'Invalid plan ID' }, { status: 400 });
+    return NextResponse.json(await removeApproval(target, userName));
+  } catch (error) {
+    return errorResponse(error, 'removing');
+  }
+}
@@ -11,9 +11,10 @@
  *     UI can re-render without an extra round trip.
  *   - 404 when the plan id does not exist.
  *   - 422 when the plan is not in `pending` status.
- *
- * Like the per-changeset commit endpoint, this should be restricted to
- * admin users; the explicit check is wired in the parent middleware.
+ *   - 401/403 without the reviewer role, or (with
+ *     REQUIRE_DISTINCT_REVIEWER) when the caller authored the plan or
+ *     one of its changesets.
+ *   - 409 when a require_approvals commit policy still needs approvals.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -24,7 +25,13 @@ import {
   PlanNotPendingError,
   PlanNotSelectedError,
 } from '@/lib/version-control';
-import { getCurrentUserName } from '@/utils/supabase/server';
+import {
+  assertCanCommitPlans,
+  PermissionError,
+  requirePermission,
+} from '@/lib/users/roles';
+import { assertApprovalsMet } from '@/lib/commit-policies/approvals';
+import { CommitPolicyError } from '@/lib/commit-policies/validation';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -34,7 +41,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
     const planId = BigInt(id);
-    const userId = await getCurrentUserName();
+    const { userName: userId } = await requirePermission('review_changes');
+    await assertCanCommitPlans(userId, [planId]);
+    await assertApprovalsMet(userId, { planIds: [planId] });
 
     let result;
     try {
@@ -82,6 +91,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       committed: result.committed,
     });
   } catch (error) {
+    if (error instanceof PermissionError || error instanceof CommitPolicyError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('Error committing change plan:', error);
     return NextResponse.json(
       { error: 'Failed to commit change plan' },
@@ -0,0 +1,50 @@
+/**
+ * API Route: /api/change-plans/[id]/revert
+ *
+ * POST - Stage the inverse of every changeset a committed plan applied as
+ *        one pending `revert` plan. Body: `{ force?: boolean }`. Returns
+ *        201 with the new plan id; 409 with `conflicts` when later changes
+ *        touched the same entities and `force` is not set.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseIdParam } from '@/lib/issues/validation';
+import {
+  RevertConflictError,
+  RevertError,
+  stagePlanRevert,
+} from '@/lib/version-control';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const planId = parseIdParam(id);
+    if (planId === null) {
+      return NextResponse.json({ error: 'Invalid change plan id' }, { status: 400 });
+    }
+    const body = (await request.json().catch(() => ({}))) as { force?: unknown };
+
+    const { userName } = await requirePermission('stage_changes');
+
+    const result = await stagePlanRevert(planId, userName, {
+      force: body.force === true,
+    });
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (error instanceof RevertConflictError) {
+      return NextResponse.json({ error: error.message, conflicts: error.conflicts }, { status: 409 });
+    }
+    if (error instanceof RevertError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] POST /api/change-plans/[id]/revert:', error);
+    return NextResponse.json({ error: 'Failed to revert change plan' }, { status: 500 });
+  }
+}
@@ -3,9 +3,7 @@
  *
  *   - GET    -> { plan, changesets } including conflict_report.
  *   - DELETE -> Discard the plan AND every linked pending changeset.
- *
- * Both endpoints require the caller to already be authenticated; the
- * admin-only check belongs in middleware.
+ *               Reviewers may discard any plan, editors only their own.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -15,7 +13,11 @@ import {
   discardPlan,
   PlanNotFoundError,
 } from '@/lib/version-control';
-import { getCurrentUserName } from '@/utils/supabase/server';
+import {
+  assertCanDiscardPlan,
+  PermissionError,
+  requirePermission,
+} from '@/lib/users/roles';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -83,11 +85,12 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
     const planId = BigInt(id);
-    const userId = await getCurrentUserName();
+    const current = await requirePermission('stage_changes');
+    await assertCanDiscardPlan(current, planId);
 
     let result;
     try {
-      result = await discardPlan(planId, userId);
+      result = await discardPlan(planId, current.userName);
     } catch (err) {
       if (err instanceof PlanNotFoundError) {
         return NextResponse.json({ error: err.message }, { status: 404 });
@@ -101,6 +104,9 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
       discarded_changesets: result.discardedChangesets,
     });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('Error discarding change plan:', error);
     return NextResponse.json({ error: 'Failed to discard change plan' }, { status: 500 });
   }
@@ -3,7 +3,7 @@
  *
  * POST — Mark this plan as the selected alternative within its group. The
  * selected plan is the one applied when committed; sibling plans (and their
- * changesets) are discarded at commit time.
+ * changesets) are discarded at commit time. Requires the reviewer role.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -12,6 +12,7 @@ import {
   selectPlanAlternative,
   getGroupIdForPlan,
 } from '@/lib/version-control/alternatives';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -21,6 +22,7 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
     const planId = BigInt(id);
+    await requirePermission('review_changes');
 
     const plan = await prisma.change_plans.findUnique({
       where: { id: planId },
@@ -48,6 +50,9 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
       { status: 200 },
     );
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('[API] Error selecting plan alternative:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to select plan alternative' },
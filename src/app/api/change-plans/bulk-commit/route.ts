@@ -9,12 +9,25 @@
  *
  * When plan_ids is omitted, all pending plans are committed (optionally
  * filtered by plan_kind).
+ *
+ * Requires the reviewer role. With REQUIRE_DISTINCT_REVIEWER, explicit
+ * plan_ids authored by the caller are refused and the "all pending" form
+ * skips them. Plans still waiting on commit-policy approvals are handled
+ * the same way.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 
 import { bulkCommitPlans } from '@/lib/version-control/bulk-commit-plans';
-import { getCurrentUserName } from '@/utils/supabase/server';
+import {
+  assertCanCommitPlans,
+  distinctReviewerRequired,
+  PermissionError,
+  requirePermission,
+} from '@/lib/users/roles';
+import { prisma } from '@/lib/prisma';
+import { assertApprovalsMet, unapprovedPlanIds } from '@/lib/commit-policies/approvals';
+import { CommitPolicyError } from '@/lib/commit-policies/validation';
 
 export async function POST(request: NextRequest) {
   try {
@@ -27,10 +40,23 @@ export async function POST(request: NextRequest) {
         ? planIdsRaw.map((id: string) => BigInt(id))
         : undefined;
 
-    const userId = await getCurrentUserName();
+    const { userName: userId } = await requirePermission('review_changes');
+    let excludePlanIds: bigint[] | undefined;
+    if (planIds) {
+      await assertCanCommitPlans(userId, planIds);
+      await assertApprovalsMet(userId, { planIds });
+    } else {
+      const flagged = await prisma.change_plans.findMany({
+        where: { status: 'pending', required_approvals: { gt: 0 }, ...(planKind ? { plan_kind: planKind } : {}) },
+        select: { id: true },
+      });
+      excludePlanIds = await unapprovedPlanIds(userId, flagged.map((p) => p.id));
+    }
     const result = await bulkCommitPlans({
       planIds,
       planKind,
+      excludeAuthor: !planIds && distinctReviewerRequired() ? userId : undefined,
+      excludePlanIds,
       committedBy: userId,
     });
 
@@ -50,6 +76,9 @@ export async function POST(request: NextRequest) {
       ...result,
     });
   } catch (error) {
+    if (error instanceof PermissionError || error instanceof CommitPolicyError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('Error bulk-committing change plans:', error);
     return NextResponse.json(
       { error: 'Failed to bulk-commit change plans' },
@@ -1,11 +1,14 @@
 /**
  * API Route: /api/changesets/[id]/apply-ai-suggestion
  * 
- * POST - Apply AI-suggested modifications to pending field changes
+ * POST - Apply AI-suggested modifications to pending field changes.
+ * Editors may only change their own changesets; reviewers may change any.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getChangeset, upsertFieldChange, valuesAreEqual } from '@/lib/version-control';
+import { roleAllows } from '@/lib/users/permissions';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -19,6 +22,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
     const changesetId = BigInt(id);
+    const current = await requirePermission('stage_changes');
     const body = await request.json() as ApplySuggestionRequest;
     const { modifications } = body;
 
@@ -37,6 +41,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         { status: 404 }
       );
     }
+    if (!roleAllows(current.role, 'review_changes') && changeset.created_by !== current.userName) {
+      throw new PermissionError('Only reviewers can change suggestions made by others');
+    }
 
     // Apply each modification
     const updatedFields: string[] = [];
@@ -106,6 +113,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       changeset_discarded: changesetDiscarded,
     });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('Error applying AI suggestion:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to apply suggestion' },
@@ -3,13 +3,20 @@
  * 
  * POST - Commit a single changeset
  * 
- * NOTE: This endpoint should be restricted to admin users only.
- * The caller should verify admin permissions before calling.
+ * Requires the reviewer role; with REQUIRE_DISTINCT_REVIEWER the
+ * changeset's author cannot commit it. Changesets flagged by a
+ * require_approvals commit policy need their approvals first (409).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { commitChangeset } from '@/lib/version-control';
-import { getCurrentUserName } from '@/utils/supabase/server';
+import {
+  assertCanCommitChangesets,
+  PermissionError,
+  requirePermission,
+} from '@/lib/users/roles';
+import { assertApprovalsMet } from '@/lib/commit-policies/approvals';
+import { CommitPolicyError } from '@/lib/commit-policies/validation';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -21,16 +28,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     const { id } = await params;
     const changesetId = BigInt(id);
     
-    const userId = await getCurrentUserName();
-
-    // TODO: Add admin check here
-    // const isAdmin = await checkIsAdmin(userId);
-    // if (!isAdmin) {
-    //   return NextResponse.json(
-    //     { error: 'Only admin users can commit changes' },
-    //     { status: 403 }
-    //   );
-    // }
+    const { userName: userId } = await requirePermission('review_changes');
+    await assertCanCommitChangesets(userId, [changesetId]);
+    await assertApprovalsMet(userId, { changesetIds: [changesetId] });
 
     const result = await commitChangeset(changesetId, userId);
 
@@ -54,6 +54,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       errors: [],
     });
   } catch (error) {
+    if (error instanceof PermissionError || error instanceof CommitPolicyError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('Error committing changeset:', error);
     return NextResponse.json(
       { error: 'Failed to commit changeset' },
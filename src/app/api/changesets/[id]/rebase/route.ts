@@ -0,0 +1,102 @@
+/**
+ * API Route: /api/changesets/[id]/rebase
+ *
+ * GET  - Three-way analysis of a pending changeset against the entity's
+ *        current row: per field clean / converged / conflict.
+ * POST - Rebase onto the current version. Body:
+ *        `{ resolutions?: { [field_name]: 'mine' | 'theirs' } }`.
+ *        409 with `analysis` and `unresolved` while conflicts lack a
+ *        resolution.
+ *
+ * Editors may rebase their own changesets; rebasing anyone else's needs
+ * the reviewer role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { parseIdParam } from '@/lib/issues/validation';
+import {
+  analyzeRebase,
+  rebaseChangeset,
+  RebaseConflictError,
+  RebaseError,
+  type RebaseResolution,
+} from '@/lib/version-control';
+import { evaluateStagedChanges } from '@/lib/commit-policies/engine';
+import { roleAllows } from '@/lib/users/permissions';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function errorResponse(error: unknown, method: string): NextResponse {
+  if (error instanceof PermissionError || error instanceof RebaseError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  if (error instanceof RebaseConflictError) {
+    return NextResponse.json(
+      { error: error.message, analysis: error.analysis, unresolved: error.unresolved },
+      { status: 409 },
+    );
+  }
+  console.error(`[API] ${method} /api/changesets/[id]/rebase:`, error);
+  return NextResponse.json({ error: 'Failed to rebase changeset' }, { status: 500 });
+}
+
+function parseResolutions(value: unknown): Record<string, RebaseResolution> | null {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) return null;
+  const out: Record<string, RebaseResolution> = {};
+  for (const [field, choice] of Object.entries(value)) {
+    if (choice !== 'mine' && choice !== 'theirs') return null;
+    out[field] = choice;
+  }
+  return out;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const changesetId = parseIdParam((await params).id);
+    if (changesetId === null) {
+      return NextResponse.json({ error: 'Invalid changeset id' }, { status: 400 });
+    }
+    return NextResponse.json(await analyzeRebase(changesetId));
+  } catch (error) {
+    return errorResponse(error, 'GET');
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const changesetId = parseIdParam((await params).id);
+    if (changesetId === null) {
+      return NextResponse.json({ error: 'Invalid changeset id' }, { status: 400 });
+    }
+    const body = (await request.json().catch(() => ({}))) as { resolutions?: unknown };
+    const resolutions = parseResolutions(body.resolutions);
+    if (!resolutions) {
+      return NextResponse.json(
+        { error: 'resolutions must map field names to "mine" or "theirs"' },
+        { status: 400 },
+      );
+    }
+
+    const current = await requirePermission('stage_changes');
+    if (!roleAllows(current.role, 'review_changes')) {
+      const cs = await prisma.changesets.findUnique({
+        where: { id: changesetId },
+        select: { created_by: true },
+      });
+      if (cs && cs.created_by !== current.userName) {
+        throw new PermissionError('Only reviewers can rebase changes made by others');
+      }
+    }
+
+    const result = await rebaseChangeset(changesetId, current.userName, resolutions);
+    if (result.rebased && !result.discarded) {
+      await evaluateStagedChanges({ changesetIds: [changesetId] });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    return errorResponse(error, 'POST');
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * API Route: /api/changesets/[id]/revert
+ *
+ * POST - Stage the inverse of a committed changeset as a new pending
+ *        changeset (or a `revert` plan when the inverse needs several).
+ *        Body: `{ force?: boolean }`. Returns 201 with the staged ids;
+ *        409 with `conflicts` when later changes touched the same fields
+ *        and `force` is not set.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseIdParam } from '@/lib/issues/validation';
+import {
+  RevertConflictError,
+  RevertError,
+  stageChangesetRevert,
+} from '@/lib/version-control';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const changesetId = parseIdParam(id);
+    if (changesetId === null) {
+      return NextResponse.json({ error: 'Invalid changeset id' }, { status: 400 });
+    }
+    const body = (await request.json().catch(() => ({}))) as { force?: unknown };
+
+    const { userName } = await requirePermission('stage_changes');
+
+    const result = await stageChangesetRevert(changesetId, userName, {
+      force: body.force === true,
+    });
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (error instanceof RevertConflictError) {
+      return NextResponse.json({ error: error.message, conflicts: error.conflicts }, { status: 409 });
+    }
+    if (error instanceof RevertError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] POST /api/changesets/[id]/revert:', error);
+    return NextResponse.json({ error: 'Failed to revert changeset' }, { status: 500 });
+  }
+}
@@ -4,18 +4,19 @@
  * POST — Accept user natural language feedback and ADD a new alternative to
  * the changeset's alternative group using the LLM revision agent. The new
  * alternative coexists with the existing one(s) (the source is NOT discarded);
- * the newly-added alternative becomes the selected one.
+ * the newly-added alternative becomes the selected one. Requires the editor
+ * role.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getCurrentUserName } from '@/utils/supabase/server';
 import { reviseChangeset, type ChangesetContext } from '@/lib/agents/changeset-revision-agent';
 import {
   getOrCreateAlternativeGroup,
   attachChangesetToGroup,
   countPendingAlternatives,
 } from '@/lib/version-control/alternatives';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 const MAX_ALTERNATIVES_PER_GROUP = 10;
 const MAX_PROMPT_LENGTH = 2000;
@@ -46,6 +47,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
     const changesetId = BigInt(id);
+    const { userName: userId } = await requirePermission('stage_changes');
     const body = await request.json();
     const { user_prompt } = body;
 
@@ -63,8 +65,6 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const userId = await getCurrentUserName();
-
     if (!checkRateLimit(userId)) {
       return NextResponse.json(
         { error: 'Too many revision requests. Please wait a moment before trying again.' },
@@ -202,6 +202,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       { status: 201 },
     );
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     if (error instanceof MaxAlternativesError) {
       return NextResponse.json({ error: error.message }, { status: 400 });
     }
@@ -2,8 +2,9 @@
  * API Route: /api/changesets/[id]
  * 
  * GET - Get a single changeset with field changes
- * PATCH - Update field change statuses (approve/reject individual fields)
- * DELETE - Discard the changeset
+ * PATCH - Update field change statuses (approve/reject individual fields);
+ *         reviewer role
+ * DELETE - Discard the changeset; editors may discard their own
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -15,7 +16,11 @@ import {
   discardChangeset,
   FieldChangeStatus,
 } from '@/lib/version-control';
-import { getCurrentUserName } from '@/utils/supabase/server';
+import {
+  assertCanDiscardChangesets,
+  PermissionError,
+  requirePermission,
+} from '@/lib/users/roles';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -64,7 +69,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     const body = await request.json();
     
     const { action, field_change_id, field_changes_updates } = body;
-    const userId = await getCurrentUserName();
+    const { userName: userId } = await requirePermission('review_changes');
 
     // Option 1: Bulk action on all fields
     if (action) {
@@ -145,6 +150,9 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       { status: 400 }
     );
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('Error updating changeset:', error);
     return NextResponse.json(
       { error: 'Failed to update changeset' },
@@ -158,12 +166,16 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
     const changesetId = BigInt(id);
-    const actor = await getCurrentUserName();
+    const current = await requirePermission('stage_changes');
+    await assertCanDiscardChangesets(current, [changesetId]);
 
-    await discardChangeset(changesetId);
+    await discardChangeset(changesetId, current.userName);
 
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('Error deleting changeset:', error);
     return NextResponse.json(
       { error: 'Failed to delete changeset' },
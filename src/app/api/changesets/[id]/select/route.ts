@@ -3,12 +3,14 @@
  *
  * POST — Mark this changeset as the selected alternative within its group.
  * The selected alternative is the one that will be applied when the change is
- * committed; non-selected siblings are discarded at commit time.
+ * committed; non-selected siblings are discarded at commit time. Requires
+ * the reviewer role.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { selectAlternative } from '@/lib/version-control/alternatives';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -18,6 +20,7 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
     const changesetId = BigInt(id);
+    await requirePermission('review_changes');
 
     const cs = await (prisma.changesets as any).findUnique({
       where: { id: changesetId },
@@ -46,6 +49,9 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
       { status: 200 },
     );
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('[API] Error selecting alternative:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to select alternative' },
@@ -4,6 +4,11 @@
  * POST - Batch commit or discard changesets by:
  *   - llm_job_id (for LLM job changes)
  *   - created_by (for manual changes)
+ *
+ * Requires the reviewer role. Commits are attributed to the signed-in
+ * reviewer, and REQUIRE_DISTINCT_REVIEWER blocks committing one's own
+ * changesets. The whole batch is refused (409) while any changeset in it
+ * still needs commit-policy approvals.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -13,6 +18,10 @@ import {
   discardByLlmJob,
   discardByUser,
 } from '@/lib/version-control';
+import { prisma } from '@/lib/prisma';
+import { assertCanCommitScope, PermissionError, requirePermission } from '@/lib/users/roles';
+import { assertApprovalsMet } from '@/lib/commit-policies/approvals';
+import { CommitPolicyError } from '@/lib/commit-policies/validation';
 
 export async function POST(request: NextRequest) {
   try {
@@ -22,7 +31,6 @@ export async function POST(request: NextRequest) {
       action,  // 'commit' or 'discard'
       llm_job_id,
       created_by,
-      committed_by,  // Required for commit action
     } = body;
 
     if (!action || (action !== 'commit' && action !== 'discard')) {
@@ -39,14 +47,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (action === 'commit' && !committed_by) {
-      return NextResponse.json(
-        { error: 'committed_by is required for commit action' },
-        { status: 400 }
-      );
-    }
+    const { userName: committed_by } = await requirePermission('review_changes');
 
     if (action === 'commit') {
+      await assertCanCommitScope(
+        committed_by,
+        llm_job_id ? { llmJobId: BigInt(llm_job_id) } : { createdBy: created_by },
+      );
+      const inScope = await prisma.changesets.findMany({
+        where: {
+          status: 'pending',
+          ...(llm_job_id ? { llm_job_id: BigInt(llm_job_id) } : { created_by }),
+        },
+        select: { id: true },
+      });
+      await assertApprovalsMet(committed_by, { changesetIds: inScope.map((cs) => cs.id) });
       if (llm_job_id) {
         const result = await commitByLlmJob(BigInt(llm_job_id), committed_by);
         return NextResponse.json({
@@ -65,14 +80,14 @@ export async function POST(request: NextRequest) {
     } else {
       // discard
       if (llm_job_id) {
-        await discardByLlmJob(BigInt(llm_job_id));
+        await discardByLlmJob(BigInt(llm_job_id), committed_by);
         return NextResponse.json({
           action: 'discard',
           target: { llm_job_id },
           success: true,
         });
       } else {
-        await discardByUser(created_by);
+        await discardByUser(created_by, committed_by);
         return NextResponse.json({
           action: 'discard',
           target: { created_by },
@@ -81,6 +96,9 @@ export async function POST(request: NextRequest) {
       }
     }
   } catch (error) {
+    if (error instanceof PermissionError || error instanceof CommitPolicyError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('Error performing batch operation:', error);
     return NextResponse.json(
       { error: 'Failed to perform batch operation' },
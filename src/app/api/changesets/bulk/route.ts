@@ -5,6 +5,9 @@
  *   - approve_and_commit: Approve all fields and commit
  *   - reject: Reject all fields (or discard for CREATE/DELETE)
  *   - discard: Discard changesets entirely
+ *
+ * Committing and rejecting need the reviewer role; editors may discard
+ * their own changesets.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -13,7 +16,14 @@ import {
   bulkReject,
   bulkDiscard,
 } from '@/lib/version-control';
-import { getCurrentUserName } from '@/utils/supabase/server';
+import {
+  assertCanCommitChangesets,
+  assertCanDiscardChangesets,
+  PermissionError,
+  requirePermission,
+} from '@/lib/users/roles';
+import { assertApprovalsMet } from '@/lib/commit-policies/approvals';
+import { CommitPolicyError } from '@/lib/commit-policies/validation';
 
 export async function POST(request: NextRequest) {
   try {
@@ -34,8 +44,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const userId = await getCurrentUserName();
-    const changesetIds = ids.map((id: string) => BigInt(id));
+    const changesetIds: bigint[] = ids.map((id: string) => BigInt(id));
+    const current = await requirePermission(action === 'discard' ? 'stage_changes' : 'review_changes');
+    const userId = current.userName;
+    if (action === 'approve_and_commit') {
+      await assertCanCommitChangesets(userId, changesetIds);
+      await assertApprovalsMet(userId, { changesetIds });
+    } else if (action === 'discard') {
+      await assertCanDiscardChangesets(current, changesetIds);
+    }
 
     let result;
     switch (action) {
@@ -46,7 +63,7 @@ export async function POST(request: NextRequest) {
         result = await bulkReject(changesetIds, userId);
         break;
       case 'discard':
-        result = await bulkDiscard(changesetIds);
+        result = await bulkDiscard(changesetIds, userId);
         break;
     }
 
@@ -57,6 +74,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(result);
   } catch (error) {
+    if (error instanceof PermissionError || error instanceof CommitPolicyError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('Error performing bulk operation:', error);
     return NextResponse.json(
       { error: 'Failed to perform bulk operation' },
@@ -26,6 +26,7 @@ import {
   shapePendingChangeset,
   type ShapedChangeset,
 } from '@/lib/changesets/pending-shape';
+import { findStaleChangesets } from '@/lib/version-control/rebase';
 import type { IssueChangePlanSummary } from '@/lib/issues/types';
 import {
   subjectConceptForChangeset,
@@ -155,6 +156,9 @@ const PLAN_KIND_LABELS: Record<string, string> = {
   detach_parent_relation: 'Detach parent relation',
   upsert_role_mappings: 'Upsert property mappings',
   ingest_new_tbox_concept: 'Add new concept',
+  ontology_import: 'Ontology import',
+  revert: 'Revert',
+  change_hypernym: 'Change hypernym',
 };
 
 const ENTITY_LABELS: Record<string, string> = {
@@ -163,6 +167,7 @@ const ENTITY_LABELS: Record<string, string> = {
   frame_role: 'property',
   frame_role_mapping: 'property mapping',
   frame_sense: 'sense',
+  lexical_unit_relation: 'lexical unit relation',
 };
 
 const OPERATION_VERB: Record<string, string> = {
@@ -228,6 +233,7 @@ export async function GET(_request: NextRequest) {
     });
 
     const lookup = await buildConceptRefLookup(changesets);
+    const staleVersions = await findStaleChangesets(changesets);
 
     // Fetch plans for plan-bound changesets.
     const allPlanIds = Array.from(
@@ -343,6 +349,7 @@ export async function GET(_request: NextRequest) {
           status: cs.status,
           revision_number: cs.revision_number ?? 1,
         })),
+        required_approvals: plan.required_approvals,
         alternative_group_id: groupId,
         selected_plan_id: groupId ? groupSelection.get(groupId) ?? null : null,
       };
@@ -414,7 +421,7 @@ export async function GET(_request: NextRequest) {
     const surfacedShaped: ShapedChangeset[] = [];
 
     for (const row of changesets) {
-      const cs = shapePendingChangeset(row, lookup);
+      const cs = shapePendingChangeset(row, lookup, staleVersions);
 
       // Plan alternatives: drop changesets that belong to a non-representative
       // sibling plan. The representative plan's card carries the siblings as
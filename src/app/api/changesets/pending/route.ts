@@ -17,6 +17,7 @@ import {
   shapePendingChangeset,
   type ShapedChangeset,
 } from '@/lib/changesets/pending-shape';
+import { findStaleChangesets } from '@/lib/version-control/rebase';
 
 interface ChangesetsByType {
   entity_type: string;
@@ -60,6 +61,7 @@ export async function GET(_request: NextRequest) {
     });
 
     const lookup = await buildConceptRefLookup(changesets);
+    const staleVersions = await findStaleChangesets(changesets);
 
     const llmJobGroups = new Map<
       string,
@@ -94,7 +96,7 @@ export async function GET(_request: NextRequest) {
         if (!byType.has(c.entity_type)) {
           byType.set(c.entity_type, []);
         }
-        byType.get(c.entity_type)!.push(shapePendingChangeset(c, lookup));
+        byType.get(c.entity_type)!.push(shapePendingChangeset(c, lookup, staleVersions));
       }
       return Array.from(byType.entries()).map(([entity_type, changesets]) => ({
         entity_type,
@@ -13,6 +13,8 @@ import {
   createChangesetFromDelete,
   EntityType,
 } from '@/lib/version-control';
+import { evaluateStagedChanges } from '@/lib/commit-policies/engine';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 // GET /api/changesets - List changesets
 export async function GET(request: NextRequest) {
@@ -93,6 +95,8 @@ export async function GET(request: NextRequest) {
 // POST /api/changesets - Create a new changeset
 export async function POST(request: NextRequest) {
   try {
+    // The author is always the signed-in user, whatever the body says.
+    const { userName: created_by } = await requirePermission('stage_changes');
     const body = await request.json();
     
     const { 
@@ -102,14 +106,13 @@ export async function POST(request: NextRequest) {
       updates,
       entity_data,
       current_entity,
-      created_by,
       llm_job_id,
       comment,
     } = body;
 
-    if (!entity_type || !operation || !created_by) {
+    if (!entity_type || !operation) {
       return NextResponse.json(
-        { error: 'entity_type, operation, and created_by are required' },
+        { error: 'entity_type and operation are required' },
         { status: 400 }
       );
     }
@@ -172,6 +175,10 @@ export async function POST(request: NextRequest) {
         );
     }
 
+    if (changeset.id !== BigInt(0)) {
+      await evaluateStagedChanges({ changesetIds: [changeset.id] });
+    }
+
     return NextResponse.json({
       ...changeset,
       id: changeset.id.toString(),
@@ -184,6 +191,9 @@ export async function POST(request: NextRequest) {
       })),
     }, { status: 201 });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('Error creating changeset:', error);
     return NextResponse.json(
       { error: 'Failed to create changeset' },
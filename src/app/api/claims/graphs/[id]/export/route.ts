@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CLAIMS_EXPORT_FORMATS,
+  CSV_TABLES,
+  loadClaimsExport,
+  serializeClaimsExport,
+  type ClaimsCsvTable,
+  type ClaimsExportFormat,
+} from '@/lib/claims/export';
+
+// Large graphs can take a while to load and serialize.
+export const maxDuration = 60;
+
+function filenameSlug(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'graph';
+}
+
+/**
+ * GET /api/claims/graphs/[id]/export?format=jsonld|turtle|graphml|csv
+ *
+ * For CSV, `table=nodes|edges|mentions` picks the table (default edges).
+ * IRIs in RDF output are minted under CLAIMS_EXPORT_BASE_IRI, or the
+ * request origin when unset.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ error: 'Invalid graph id' }, { status: 400 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const format = (searchParams.get('format') ?? 'jsonld') as ClaimsExportFormat;
+    if (!CLAIMS_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of ${CLAIMS_EXPORT_FORMATS.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    const table = (searchParams.get('table') ?? 'edges') as ClaimsCsvTable;
+    if (format === 'csv' && !CSV_TABLES.includes(table)) {
+      return NextResponse.json(
+        { error: `table must be one of ${CSV_TABLES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    const data = await loadClaimsExport(BigInt(id));
+    if (!data) {
+      return NextResponse.json({ error: 'Knowledge graph not found' }, { status: 404 });
+    }
+
+    const serialized = serializeClaimsExport(data, format, {
+      baseIri: process.env.CLAIMS_EXPORT_BASE_IRI || request.nextUrl.origin,
+      csvTable: table,
+    });
+    const filename = `${filenameSlug(data.graph.label)}-${data.graph.id}.${serialized.extension}`;
+
+    return new NextResponse(serialized.body, {
+      headers: {
+        'Content-Type': serialized.contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('[API] GET /api/claims/graphs/[id]/export:', error);
+    return NextResponse.json({ error: 'Failed to export graph' }, { status: 500 });
+  }
+}
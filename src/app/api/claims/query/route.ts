@@ -2,21 +2,39 @@ import { NextRequest, NextResponse } from 'next/server';
 import { generateObject } from 'ai';
 import { getChatModel } from '@/lib/chat/models';
 import { claimsQuerySchema } from '@/lib/claims/query-schema';
-import { buildGraphForInstances, executeClaimsQuery } from '@/lib/claims/query-executor';
+import {
+  buildGraphForInstances,
+  ClaimsQueryError,
+  executeClaimsQuery,
+} from '@/lib/claims/query-executor';
 import { prisma } from '@/lib/prisma';
 
-const QUERY_SYSTEM_PROMPT = `You translate natural language questions about a knowledge graph into structured filters.
+const QUERY_SYSTEM_PROMPT = `You translate natural language questions about a knowledge graph into a structured query.
 
 The graph contains:
 - **Instances**: concrete claims/assertions, each typed by a concept (e.g. Person, Organization, Patient)
 - **Fillers**: property slots on instances, either pointing to another instance or a primitive string value
-- Common properties: employer, title, headquarters, employee, treated_by, diagnosed_with, specialty
+- **Referents**: the real-world entity an instance refers to, shared across documents; unresolved instances have none
+- Concepts form a hierarchy through parent_of relations
+
+A query has an optional \`where\` predicate (omit it to match everything) built from these ops:
+- {op:"and", args:[...]}, {op:"or", args:[...]}, {op:"not", arg:...}
+- {op:"concept", label, includeDescendants?}: typed by a concept; set includeDescendants for "any kind of X"
+- {op:"label", contains}: instance label contains text
+- {op:"confidence", min?, max?}
+- {op:"referentialStatus", in:["specific"|"generic"|"hypothetical"]}
+- {op:"referent", label?, referentId?, resolved?}: linked to a referent by name/alias, or (un)resolved at all
+- {op:"path", steps:[{property, inverse?}], where?, valueContains?, valueEquals?}: follow filler slots (up to 4 hops); \`where\` constrains the instance reached, valueContains/valueEquals the primitive value reached. Use inverse to walk from a filler back to its owner.
+
+Examples:
+- "any instance whose concept descends from Drug" → {op:"concept", label:"Drug", includeDescendants:true}
+- "people employed by an organization headquartered in Boston" → {op:"and", args:[{op:"concept", label:"Person"}, {op:"path", steps:[{property:"employer"},{property:"headquarters"}], valueContains:"Boston"}]}
+- "patients not treated by anyone" → {op:"and", args:[{op:"concept", label:"Patient"}, {op:"not", arg:{op:"path", steps:[{property:"treated_by"}]}}]}
+
+Set \`aggregate\` only for counting questions ("how many", "which X most"): omit groupBy for a total, or group by concept, referent, referentialStatus, or path (with aggregate.path).
 
 Rules:
-- Map concept names to conceptLabels (exact canonical labels when possible)
-- Map property references to propertyFilters with propertyLabel
-- Use fillerConceptLabel when filtering by what concept fills a property (e.g. "employed by Acme" → propertyLabel: "employer", fillerConceptLabel: "Organization" with context)
-- Use fillerValueContains for primitive values (e.g. title contains "CEO")
+- Use the concept and property labels listed in the context verbatim where possible
 - Set expandNeighborhood true when the user wants related/connected entities shown
 - Always provide a concise explanation of what the query finds`;
 
@@ -53,6 +71,21 @@ export async function POST(request: NextRequest) {
       })
       .join('\n');
 
+    const [conceptLabels, propertyLabels] = await Promise.all([
+      prisma.$queryRaw<{ label: string }[]>`
+        SELECT DISTINCT c.label FROM instances i JOIN concepts c ON c.id = i.concept_id
+        WHERE i.knowledge_graph_id = ${graph.id}
+        ORDER BY c.label LIMIT 100
+      `,
+      prisma.$queryRaw<{ label: string }[]>`
+        SELECT DISTINCT p.label FROM instance_fillers f
+        JOIN instances i ON i.id = f.instance_id
+        JOIN properties p ON p.id = f.property_id
+        WHERE i.knowledge_graph_id = ${graph.id} AND p.label IS NOT NULL
+        ORDER BY p.label LIMIT 100
+      `,
+    ]);
+
     const { object: filter } = await generateObject({
       model: getChatModel(),
       schema: claimsQuerySchema,
@@ -60,13 +93,16 @@ export async function POST(request: NextRequest) {
       prompt: `Knowledge graph: "${graph.label}"
 ${graph.description ? `Description: ${graph.description}` : ''}
 
+Concepts used: ${conceptLabels.map((c) => c.label).join(', ') || '(none)'}
+Properties used: ${propertyLabels.map((p) => p.label).join(', ') || '(none)'}
+
 Sample instances:
 ${contextSummary || '(none)'}
 
 User query: ${query.trim()}`,
     });
 
-    const { matchedInstanceIds, explanation } = await executeClaimsQuery(
+    const { matchedInstanceIds, explanation, aggregates } = await executeClaimsQuery(
       BigInt(graphId),
       filter,
     );
@@ -81,9 +117,13 @@ User query: ${query.trim()}`,
       explanation,
       matchedInstanceIds: matchedInstanceIds.map(String),
       graph: graphPayload,
+      aggregates,
       filter,
     });
   } catch (error) {
+    if (error instanceof ClaimsQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('[API] POST /api/claims/query:', error);
     return NextResponse.json({ error: 'Failed to execute query' }, { status: 500 });
   }
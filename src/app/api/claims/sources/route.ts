@@ -1,5 +1,9 @@
 import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+import { DOCUMENT_FORMATS, DocumentIngestionError, type DocumentFormat } from '@/lib/documents';
+import { ingestSourceDocument, MAX_DOCUMENT_BYTES } from '@/lib/documents/ingest';
 
 export interface SourceListItem {
   id: string;
@@ -10,11 +14,19 @@ export interface SourceListItem {
   label: string;
 }
 
+function sourceMetadata(metadata: Prisma.JsonValue | null): Record<string, unknown> {
+  return metadata && typeof metadata === 'object' && !Array.isArray(metadata)
+    ? (metadata as Record<string, unknown>)
+    : {};
+}
+
 export async function GET() {
   try {
     const sources = await prisma.source_texts.findMany({
+      // Sources with extracted instances, plus uploaded documents that
+      // haven't been through extraction yet.
       where: {
-        instances: { some: {} },
+        OR: [{ instances: { some: {} } }, { document_index: { not: Prisma.DbNull } }],
       },
       include: {
         _count: { select: { instances: true } },
@@ -29,13 +41,30 @@ export async function GET() {
       orderBy: { id: 'desc' },
     });
 
+    const ingestedGraphIds = new Set<bigint>();
+    for (const st of sources) {
+      const graphId = sourceMetadata(st.metadata).knowledge_graph_id;
+      if (typeof graphId === 'string' && /^\d+$/.test(graphId)) ingestedGraphIds.add(BigInt(graphId));
+    }
+    const ingestedGraphs = ingestedGraphIds.size
+      ? await prisma.knowledge_graphs.findMany({
+          where: { id: { in: [...ingestedGraphIds] } },
+          select: { id: true, label: true },
+        })
+      : [];
+    const graphLabels = new Map(ingestedGraphs.map((g) => [g.id.toString(), g.label]));
+
     const result: SourceListItem[] = sources.map((st) => {
+      const meta = sourceMetadata(st.metadata);
       const mentionCount = st.instances.reduce(
         (sum, inst) => sum + inst.instance_mentions.length,
         0,
       );
-      const graphLabel = st.instances.find((i) => i.knowledge_graphs)?.knowledge_graphs?.label;
+      const graphLabel =
+        st.instances.find((i) => i.knowledge_graphs)?.knowledge_graphs?.label ??
+        (typeof meta.knowledge_graph_id === 'string' ? graphLabels.get(meta.knowledge_graph_id) : undefined);
       const label =
+        (typeof meta.title === 'string' && meta.title ? meta.title : undefined) ??
         graphLabel ??
         (st.source_uri
           ? st.source_uri.replace(/^[a-z-]+:\/\//, '').slice(0, 40)
@@ -57,3 +86,75 @@ export async function GET() {
     return NextResponse.json({ error: 'Failed to load sources' }, { status: 500 });
   }
 }
+
+function formString(form: FormData, key: string): string | null {
+  const value = form.get(key);
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Upload a source document (multipart form).
+ *
+ * Fields: `file` or `content` (pasted text), optional `format`
+ * (html | text | jats | json; detected when omitted), `source_uri`, `title`,
+ * and either `knowledge_graph_id` or `graph_label` (+ `graph_description`)
+ * to attach to a new graph. Requires the editor role.
+ */
+export async function POST(request: Request) {
+  try {
+    const { userName } = await requirePermission('stage_changes');
+    const form = await request.formData();
+    const file = form.get('file');
+    const pasted = formString(form, 'content');
+
+    let content: string;
+    let filename: string | null = null;
+    let mimeType: string | null = null;
+    if (file instanceof File && file.size > 0) {
+      if (file.size > MAX_DOCUMENT_BYTES) {
+        return NextResponse.json({ error: 'File size must be under 20MB' }, { status: 400 });
+      }
+      content = await file.text();
+      filename = file.name || null;
+      mimeType = file.type || null;
+    } else if (pasted) {
+      content = pasted;
+    } else {
+      return NextResponse.json({ error: 'Provide a file or pasted content' }, { status: 400 });
+    }
+
+    const format = formString(form, 'format');
+    if (format && !DOCUMENT_FORMATS.includes(format as DocumentFormat)) {
+      return NextResponse.json({ error: `Unsupported format: ${format}` }, { status: 400 });
+    }
+
+    const graphIdRaw = formString(form, 'knowledge_graph_id');
+    if (graphIdRaw && !/^\d+$/.test(graphIdRaw)) {
+      return NextResponse.json({ error: 'Invalid knowledge_graph_id' }, { status: 400 });
+    }
+
+    const result = await ingestSourceDocument({
+      content,
+      filename,
+      mimeType,
+      format: format as DocumentFormat | null,
+      sourceUri: formString(form, 'source_uri'),
+      title: formString(form, 'title'),
+      knowledgeGraphId: graphIdRaw ? BigInt(graphIdRaw) : null,
+      newGraphLabel: formString(form, 'graph_label'),
+      newGraphDescription: formString(form, 'graph_description'),
+      ingestedBy: userName,
+    });
+
+    return NextResponse.json(result, { status: result.created ? 201 : 200 });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (error instanceof DocumentIngestionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('[API] POST /api/claims/sources:', error);
+    return NextResponse.json({ error: 'Failed to ingest document' }, { status: 500 });
+  }
+}
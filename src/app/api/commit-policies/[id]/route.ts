@@ -0,0 +1,74 @@
+/**
+ * API Route: /api/commit-policies/[id]
+ *
+ * PATCH  - Update a policy (admin); only the fields present are changed
+ * DELETE - Delete a policy (admin); its logged decisions are kept
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { serializeCommitPolicy } from '@/lib/commit-policies/engine';
+import { CommitPolicyError, parseCommitPolicyInput } from '@/lib/commit-policies/validation';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof PermissionError || error instanceof CommitPolicyError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2025') {
+      return NextResponse.json({ error: 'Commit policy not found' }, { status: 404 });
+    }
+    if (error.code === 'P2002') {
+      return NextResponse.json({ error: 'A commit policy with this name already exists' }, { status: 409 });
+    }
+  }
+  console.error(`[API] Error ${action} commit policy:`, error);
+  return NextResponse.json({ error: `Failed to ${action === 'updating' ? 'update' : 'delete'} commit policy` }, { status: 500 });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    await requirePermission('manage_commit_policies');
+    const { id } = await params;
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ error: 'Invalid policy id' }, { status: 400 });
+    }
+    const body = await request.json();
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 });
+    }
+
+    const data = parseCommitPolicyInput(body, { partial: true });
+    const row = await prisma.commit_policies.update({
+      where: { id: BigInt(id) },
+      data: { ...data, updated_at: new Date() },
+    });
+    return NextResponse.json(serializeCommitPolicy(row));
+  } catch (error) {
+    return errorResponse(error, 'updating');
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    await requirePermission('manage_commit_policies');
+    const { id } = await params;
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ error: 'Invalid policy id' }, { status: 400 });
+    }
+    await prisma.commit_policies.delete({ where: { id: BigInt(id) } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'deleting');
+  }
+}
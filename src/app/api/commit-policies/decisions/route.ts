@@ -0,0 +1,54 @@
+/**
+ * API Route: /api/commit-policies/decisions
+ *
+ * GET - Audit log of automatic commit-policy decisions, newest first.
+ *       Filters: changeset_id, change_plan_id, policy_id, decision, limit (max 500)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { serializeCommitPolicyDecision } from '@/lib/commit-policies/engine';
+
+export const dynamic = 'force-dynamic';
+
+const DECISIONS = new Set(['auto_committed', 'auto_commit_failed', 'auto_commit_skipped', 'approvals_required']);
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const where: Prisma.commit_policy_decisionsWhereInput = {};
+
+    for (const [param, field] of [
+      ['changeset_id', 'changeset_id'],
+      ['change_plan_id', 'change_plan_id'],
+      ['policy_id', 'policy_id'],
+    ] as const) {
+      const value = params.get(param);
+      if (value === null) continue;
+      if (!/^\d+$/.test(value)) {
+        return NextResponse.json({ error: `${param} must be numeric` }, { status: 400 });
+      }
+      where[field] = BigInt(value);
+    }
+
+    const decision = params.get('decision');
+    if (decision !== null) {
+      if (!DECISIONS.has(decision)) {
+        return NextResponse.json({ error: 'Unknown decision' }, { status: 400 });
+      }
+      where.decision = decision as Prisma.commit_policy_decisionsWhereInput['decision'];
+    }
+
+    const limit = Math.min(Math.max(parseInt(params.get('limit') ?? '100', 10) || 100, 1), 500);
+    const rows = await prisma.commit_policy_decisions.findMany({
+      where,
+      orderBy: { id: 'desc' },
+      take: limit,
+    });
+    return NextResponse.json({ data: rows.map(serializeCommitPolicyDecision) });
+  } catch (error) {
+    console.error('[API] Error listing commit policy decisions:', error);
+    return NextResponse.json({ error: 'Failed to list commit policy decisions' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * API Route: /api/commit-policies/evaluate
+ *
+ * POST - Evaluate commit policies for pending changes that haven't been
+ *        evaluated yet (staged outside the Explorer, e.g. by the
+ *        remediation runner). Body: { limit?: number }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { evaluatePendingCommitPolicies } from '@/lib/commit-policies/engine';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission('review_changes');
+    const body = await request.json().catch(() => ({}));
+    const limit = typeof body?.limit === 'number' && body.limit > 0 ? Math.min(Math.trunc(body.limit), 5000) : undefined;
+
+    const result = await evaluatePendingCommitPolicies({ limit });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] Error evaluating commit policies:', error);
+    return NextResponse.json({ error: 'Failed to evaluate commit policies' }, { status: 500 });
+  }
+}
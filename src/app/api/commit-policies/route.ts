@@ -0,0 +1,55 @@
+/**
+ * API Route: /api/commit-policies
+ *
+ * GET  - List commit policies (enabled and disabled), by priority
+ * POST - Create a policy (admin)
+ *
+ * Policies are evaluated when changes are staged; see
+ * src/lib/commit-policies/engine.ts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { serializeCommitPolicy } from '@/lib/commit-policies/engine';
+import { CommitPolicyError, parseCommitPolicyInput } from '@/lib/commit-policies/validation';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const rows = await prisma.commit_policies.findMany({
+      orderBy: [{ priority: 'asc' }, { id: 'asc' }],
+    });
+    return NextResponse.json({ data: rows.map(serializeCommitPolicy) });
+  } catch (error) {
+    console.error('[API] Error listing commit policies:', error);
+    return NextResponse.json({ error: 'Failed to list commit policies' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userName } = await requirePermission('manage_commit_policies');
+    const body = await request.json();
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 });
+    }
+
+    const data = parseCommitPolicyInput(body, { partial: false });
+    const row = await prisma.commit_policies.create({
+      data: { ...data, created_by: userName } as Prisma.commit_policiesUncheckedCreateInput,
+    });
+    return NextResponse.json(serializeCommitPolicy(row), { status: 201 });
+  } catch (error) {
+    if (error instanceof PermissionError || error instanceof CommitPolicyError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A commit policy with this name already exists' }, { status: 409 });
+    }
+    console.error('[API] Error creating commit policy:', error);
+    return NextResponse.json({ error: 'Failed to create commit policy' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * API Route: /api/concepts/[id]/merge
+ *
+ * GET  - Preview merging concept [id] into `?into=<survivor id>`: every
+ *        sense link, relation, property, mapping and referencing row the
+ *        merge would touch, computed from the live tables.
+ * POST - Stage the merge for review. Body: { into, reason? }. Nothing is
+ *        applied until the changeset is committed from Pending Changes.
+ *        Requires the editor role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseIdParam } from '@/lib/issues/validation';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+import { ConceptMergeError, previewConceptMerge, stageConceptMerge } from '@/lib/concepts/merge';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const loserId = parseIdParam(id);
+    const survivorId = parseIdParam(request.nextUrl.searchParams.get('into'));
+    if (!loserId || !survivorId) {
+      return NextResponse.json({ error: 'A concept id and ?into=<concept id> are required' }, { status: 400 });
+    }
+    return NextResponse.json(await previewConceptMerge(loserId, survivorId));
+  } catch (error) {
+    if (error instanceof ConceptMergeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('[API] GET /api/concepts/[id]/merge:', error);
+    return NextResponse.json({ error: 'Failed to preview concept merge' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { userName } = await requirePermission('stage_changes');
+    const { id } = await params;
+    const loserId = parseIdParam(id);
+    const body = await request.json();
+    const survivorId = parseIdParam(body?.into);
+    if (!loserId || !survivorId) {
+      return NextResponse.json({ error: 'A concept id and `into` are required' }, { status: 400 });
+    }
+    if (body.reason != null && typeof body.reason !== 'string') {
+      return NextResponse.json({ error: 'reason must be a string' }, { status: 400 });
+    }
+
+    const { changeset_id, created } = await stageConceptMerge(
+      { loser_id: loserId, survivor_id: survivorId, reason: body.reason ?? null },
+      userName,
+    );
+    return NextResponse.json(
+      { staged: true, changeset_id: changeset_id.toString(), created },
+      { status: created ? 201 : 200 },
+    );
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (error instanceof ConceptMergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] POST /api/concepts/[id]/merge:', error);
+    return NextResponse.json({ error: 'Failed to stage concept merge' }, { status: 500 });
+  }
+}
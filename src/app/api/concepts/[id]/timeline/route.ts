@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server';
+import { handleGetTimeline, handleRestoreTimeline } from '@/lib/route-handlers';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleGetTimeline(request, id, 'concept', `GET /api/concepts/${id}/timeline`);
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleRestoreTimeline(request, id, 'concept', `POST /api/concepts/${id}/timeline`);
+}
@@ -0,0 +1,54 @@
+/**
+ * API Route: /api/duplicates/[id]
+ *
+ * GET   - One candidate pair with both sides summarized.
+ * PATCH - Review the pair (reviewers). Body: { status: 'dismissed' | 'open' }.
+ *         Dismissed pairs stay dismissed across detection runs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseIdParam } from '@/lib/issues/validation';
+import { DuplicateError } from '@/lib/duplicates/detection';
+import { getDuplicateCandidate, setDuplicateCandidateStatus } from '@/lib/duplicates/review';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const id = parseIdParam((await params).id);
+    if (!id) return NextResponse.json({ error: 'Invalid candidate id' }, { status: 400 });
+    return NextResponse.json(await getDuplicateCandidate(id));
+  } catch (error) {
+    if (error instanceof DuplicateError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] GET /api/duplicates/[id]:', error);
+    return NextResponse.json({ error: 'Failed to load duplicate candidate' }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { userName } = await requirePermission('review_changes');
+    const id = parseIdParam((await params).id);
+    if (!id) return NextResponse.json({ error: 'Invalid candidate id' }, { status: 400 });
+    const body = await request.json().catch(() => ({}));
+    if (body?.status !== 'dismissed' && body?.status !== 'open') {
+      return NextResponse.json({ error: "status must be 'dismissed' or 'open'" }, { status: 400 });
+    }
+    return NextResponse.json(await setDuplicateCandidateStatus(id, body.status, userName));
+  } catch (error) {
+    if (error instanceof PermissionError || error instanceof DuplicateError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] PATCH /api/duplicates/[id]:', error);
+    return NextResponse.json({ error: 'Failed to update duplicate candidate' }, { status: 500 });
+  }
+}
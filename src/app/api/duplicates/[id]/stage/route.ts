@@ -0,0 +1,57 @@
+/**
+ * API Route: /api/duplicates/[id]/stage
+ *
+ * POST - Stage the pair as a merge for review. Body: { survivor_id,
+ *        merged_definition?, reason? }. survivor_id is either side of the
+ *        pair; the other side is merged into it. Concepts stage a concept
+ *        merge changeset; senses stage a `merge_sense` change plan whose
+ *        survivor ends up with merged_definition (default: its current
+ *        definition). Nothing is applied until it is committed from
+ *        Pending Changes.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseIdParam } from '@/lib/issues/validation';
+import { DuplicateError } from '@/lib/duplicates/detection';
+import { stageDuplicateMerge } from '@/lib/duplicates/review';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { userName } = await requirePermission('stage_changes');
+    const id = parseIdParam((await params).id);
+    if (!id) return NextResponse.json({ error: 'Invalid candidate id' }, { status: 400 });
+
+    const body = await request.json().catch(() => ({}));
+    const survivorId = parseIdParam(body?.survivor_id);
+    if (!survivorId) {
+      return NextResponse.json({ error: 'survivor_id is required' }, { status: 400 });
+    }
+    for (const key of ['merged_definition', 'reason'] as const) {
+      if (body[key] != null && typeof body[key] !== 'string') {
+        return NextResponse.json({ error: `${key} must be a string` }, { status: 400 });
+      }
+    }
+
+    const { candidate, result } = await stageDuplicateMerge(
+      id,
+      { survivor_id: survivorId, merged_definition: body.merged_definition ?? null, reason: body.reason ?? null },
+      userName,
+    );
+    return NextResponse.json(
+      { staged: true, ...result, candidate },
+      { status: result.created ? 201 : 200 },
+    );
+  } catch (error) {
+    if (error instanceof PermissionError || error instanceof DuplicateError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] POST /api/duplicates/[id]/stage:', error);
+    return NextResponse.json({ error: 'Failed to stage duplicate merge' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * API Route: /api/duplicates
+ *
+ * GET - Near-duplicate candidate pairs, highest score first, with both
+ *       sides summarized and the reasons each pair was flagged.
+ *       Query: entity_type (concept | sense), status (open | dismissed |
+ *       staged, default open), scope (a pair's scope key), limit (default
+ *       50, max 200), offset.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DuplicateError } from '@/lib/duplicates/detection';
+import { listDuplicateCandidates } from '@/lib/duplicates/review';
+import {
+  DUPLICATE_ENTITY_TYPES,
+  type DuplicateCandidateStatus,
+  type DuplicateEntityType,
+} from '@/lib/duplicates/types';
+
+export const dynamic = 'force-dynamic';
+
+const STATUSES: DuplicateCandidateStatus[] = ['open', 'dismissed', 'staged'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+
+    const entityType = searchParams.get('entity_type');
+    if (entityType && !DUPLICATE_ENTITY_TYPES.includes(entityType as DuplicateEntityType)) {
+      return NextResponse.json(
+        { error: `entity_type must be one of ${DUPLICATE_ENTITY_TYPES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    const status = searchParams.get('status') ?? 'open';
+    if (!STATUSES.includes(status as DuplicateCandidateStatus)) {
+      return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') ?? '50', 10) || 50, 1), 200);
+    const offset = Math.max(parseInt(searchParams.get('offset') ?? '0', 10) || 0, 0);
+
+    const result = await listDuplicateCandidates({
+      entity_type: (entityType as DuplicateEntityType | null) ?? undefined,
+      status: status as DuplicateCandidateStatus,
+      scope: searchParams.get('scope') || undefined,
+      limit,
+      offset,
+    });
+    return NextResponse.json({ ...result, limit, offset });
+  } catch (error) {
+    if (error instanceof DuplicateError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] GET /api/duplicates:', error);
+    return NextResponse.json({ error: 'Failed to list duplicate candidates' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * API Route: /api/duplicates/runs
+ *
+ * GET  - Recent duplicate detection runs (most recent first).
+ * POST - Start a run (reviewers). Body: { entity_type, options? } where
+ *        options may set min_similarity, neighbors, min_score and limit.
+ *        Detection runs in the background; poll GET for its status.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DuplicateError,
+  executeDuplicateDetectionRun,
+  listDuplicateDetectionRuns,
+  resolveDetectOptions,
+  startDuplicateDetectionRun,
+} from '@/lib/duplicates/detection';
+import { DUPLICATE_ENTITY_TYPES, type DuplicateEntityType } from '@/lib/duplicates/types';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ runs: await listDuplicateDetectionRuns() });
+  } catch (error) {
+    console.error('[API] GET /api/duplicates/runs:', error);
+    return NextResponse.json({ error: 'Failed to list duplicate detection runs' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userName } = await requirePermission('run_health_checks');
+    const body = await request.json().catch(() => ({}));
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 });
+    }
+    if (!DUPLICATE_ENTITY_TYPES.includes(body.entity_type as DuplicateEntityType)) {
+      return NextResponse.json(
+        { error: `entity_type must be one of ${DUPLICATE_ENTITY_TYPES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    const run = await startDuplicateDetectionRun(
+      body.entity_type as DuplicateEntityType,
+      resolveDetectOptions(body.options),
+      userName,
+    );
+    void executeDuplicateDetectionRun(BigInt(run.id)).catch((error) => {
+      console.error(`Error executing duplicate detection run ${run.id}:`, error);
+    });
+    return NextResponse.json(run, { status: 202 });
+  } catch (error) {
+    if (error instanceof PermissionError || error instanceof DuplicateError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] POST /api/duplicates/runs:', error);
+    return NextResponse.json({ error: 'Failed to start duplicate detection' }, { status: 500 });
+  }
+}
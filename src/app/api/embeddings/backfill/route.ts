@@ -0,0 +1,59 @@
+/**
+ * API Route: /api/embeddings/backfill
+ *
+ * POST - Queue re-embedding (admin). Body: { types?, scope? }.
+ *        types: subset of concept | lexical_unit | sense (default all).
+ *        scope: missing (no vector, the default) | outdated (also vectors
+ *        from another provider, model or text version) | all.
+ *        Returns how many entities were queued per type; the
+ *        `embeddings:refresh` worker does the embedding.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { EmbeddingError } from '@/lib/embeddings/providers';
+import { enqueueEmbeddingBackfill } from '@/lib/embeddings/queue';
+import {
+  EMBEDDING_ENTITY_TYPES,
+  type EmbeddingBackfillScope,
+  type EmbeddingEntityType,
+} from '@/lib/embeddings/types';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+const SCOPES: EmbeddingBackfillScope[] = ['missing', 'outdated', 'all'];
+
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission('manage_embeddings');
+    const body = await request.json().catch(() => ({}));
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 });
+    }
+
+    const types = body.types ?? EMBEDDING_ENTITY_TYPES;
+    if (
+      !Array.isArray(types)
+      || types.length === 0
+      || !types.every((t) => EMBEDDING_ENTITY_TYPES.includes(t as EmbeddingEntityType))
+    ) {
+      return NextResponse.json(
+        { error: `types must be a non-empty subset of ${EMBEDDING_ENTITY_TYPES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    const scope = body.scope ?? 'missing';
+    if (!SCOPES.includes(scope)) {
+      return NextResponse.json({ error: `scope must be one of ${SCOPES.join(', ')}` }, { status: 400 });
+    }
+
+    const queued = await enqueueEmbeddingBackfill([...new Set(types as EmbeddingEntityType[])], scope);
+    return NextResponse.json({ scope, queued });
+  } catch (error) {
+    if (error instanceof PermissionError || error instanceof EmbeddingError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] POST /api/embeddings/backfill:', error);
+    return NextResponse.json({ error: 'Failed to queue embedding backfill' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * API Route: /api/embeddings/status
+ *
+ * GET - Embedding coverage per entity type (live rows, rows with a vector,
+ *       vectors from the current provider/model/text version, queued and
+ *       failed refreshes, recorded vectors per model), the configured
+ *       provider, and the most recent failed jobs.
+ */
+
+import { NextResponse } from 'next/server';
+import { EmbeddingError } from '@/lib/embeddings/providers';
+import { getEmbeddingStatus } from '@/lib/embeddings/queue';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await getEmbeddingStatus());
+  } catch (error) {
+    if (error instanceof EmbeddingError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] GET /api/embeddings/status:', error);
+    return NextResponse.json({ error: 'Failed to load embedding status' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * API Route: /api/events
+ *
+ * GET - Domain events after a cursor, oldest first (signed-in users).
+ *       Query: after (event id; default 0), limit (max 500),
+ *       types (comma-separated event types or "<prefix>.*" wildcards),
+ *       entity_types (comma-separated)
+ *
+ * Returns { events, next_cursor }; pass next_cursor as `after` to
+ * continue. For push delivery use a webhook endpoint or /api/events/stream.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listDomainEvents } from '@/lib/events/outbox';
+import { parseEventCursor, parseEventTypePatterns, WebhookError } from '@/lib/events/validation';
+import { PermissionError, requireSignedIn } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireSignedIn();
+    const { searchParams } = new URL(request.url);
+    const page = await listDomainEvents({
+      after: parseEventCursor(searchParams.get('after')) ?? 0n,
+      limit: Number(searchParams.get('limit')) || 100,
+      types: parseEventTypePatterns(searchParams.get('types'), 'types'),
+      entityTypes: (searchParams.get('entity_types') ?? '').split(',').map((t) => t.trim()).filter(Boolean),
+    });
+    return NextResponse.json(page);
+  } catch (error) {
+    if (error instanceof PermissionError || error instanceof WebhookError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] Error loading domain events:', error);
+    return NextResponse.json({ error: 'Failed to load events' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * API Route: /api/events/stream
+ *
+ * GET - Server-sent events for new domain events (signed-in users).
+ *       Query: after (event id; default: from now), types, entity_types
+ *       (as for GET /api/events). A reconnecting EventSource resumes from
+ *       its Last-Event-ID header. Connections close after a few minutes
+ *       and the browser reconnects on its own.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { streamDomainEvents } from '@/lib/events/stream';
+import { parseEventCursor, parseEventTypePatterns, WebhookError } from '@/lib/events/validation';
+import { PermissionError, requireSignedIn } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+// streamDomainEvents ends itself before this.
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  let frames: AsyncGenerator<string>;
+  try {
+    await requireSignedIn();
+    const { searchParams } = new URL(request.url);
+    frames = streamDomainEvents({
+      after:
+        parseEventCursor(request.headers.get('last-event-id'), 'Last-Event-ID') ??
+        parseEventCursor(searchParams.get('after')),
+      types: parseEventTypePatterns(searchParams.get('types'), 'types'),
+      entityTypes: (searchParams.get('entity_types') ?? '').split(',').map((t) => t.trim()).filter(Boolean),
+      signal: request.signal,
+    });
+  } catch (error) {
+    if (error instanceof PermissionError || error instanceof WebhookError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] Error opening event stream:', error);
+    return NextResponse.json({ error: 'Failed to open event stream' }, { status: 500 });
+  }
+
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await frames.next();
+        if (done) controller.close();
+        else controller.enqueue(encoder.encode(value));
+      } catch (error) {
+        console.error('[API] GET /api/events/stream:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await frames.return(undefined);
+    },
+  });
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * API Route: /api/graphql
+ *
+ * POST - Execute a GraphQL query. Body: { query, variables?, operationName? }
+ * GET  - Same, with query / variables (JSON) / operationName as query
+ *        parameters
+ *
+ * Signed-in users use their session; external tools pass an /api/v1 API
+ * key ("Authorization: Bearer <key>" or "X-API-Key"), which counts against
+ * that key's rate limit. The schema is read-only; see src/lib/graphql.
+ * Queries over the depth or cost limits in src/lib/graphql/limits are
+ * rejected before anything resolves.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { execute as executeQuery, GraphQLError, parse, specifiedRules, validate, type DocumentNode } from 'graphql';
+import { queryLimitRules } from '@/lib/graphql/limits';
+import { createGraphQLContext } from '@/lib/graphql/loaders';
+import { GraphQLInputError, schema } from '@/lib/graphql/schema';
+import { authenticateApiKey, consumeRateLimit } from '@/lib/public-api/keys';
+import { PublicApiError } from '@/lib/public-api/validation';
+import { PermissionError, requireSignedIn } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+interface GraphQLRequestBody {
+  query?: unknown;
+  variables?: unknown;
+  operationName?: unknown;
+}
+
+async function authenticate(request: NextRequest): Promise<void> {
+  if (request.headers.has('x-api-key') || request.headers.get('authorization')?.toLowerCase().startsWith('bearer ')) {
+    const rate = await consumeRateLimit(await authenticateApiKey(request));
+    if (rate.exceeded) {
+      throw new PublicApiError(`Rate limit of ${rate.limit} requests per minute exceeded`, 429, 'rate_limited');
+    }
+    return;
+  }
+  await requireSignedIn();
+}
+
+/** Resolver errors other than bad input are logged and masked. */
+function formatError(error: GraphQLError) {
+  if (error.originalError && !(error.originalError instanceof GraphQLInputError)) {
+    console.error('[API] Error resolving GraphQL field', error.path?.join('.'), error.originalError);
+    return { message: 'Internal error', locations: error.locations, path: error.path };
+  }
+  return error.toJSON();
+}
+
+async function execute(request: NextRequest, body: GraphQLRequestBody): Promise<NextResponse> {
+  try {
+    await authenticate(request);
+  } catch (error) {
+    if (error instanceof PermissionError || error instanceof PublicApiError) {
+      return NextResponse.json({ errors: [{ message: error.message }] }, { status: error.statusCode });
+    }
+    console.error('[API] Error authenticating GraphQL request:', error);
+    return NextResponse.json({ errors: [{ message: 'Failed to authenticate' }] }, { status: 500 });
+  }
+
+  if (typeof body.query !== 'string' || !body.query.trim()) {
+    return NextResponse.json({ errors: [{ message: 'query is required' }] }, { status: 400 });
+  }
+  if (body.variables != null && (typeof body.variables !== 'object' || Array.isArray(body.variables))) {
+    return NextResponse.json({ errors: [{ message: 'variables must be an object' }] }, { status: 400 });
+  }
+
+  const variables = body.variables as Record<string, unknown> | null | undefined;
+  let document: DocumentNode;
+  try {
+    document = parse(body.query);
+  } catch (error) {
+    if (error instanceof GraphQLError) {
+      return NextResponse.json({ errors: [error.toJSON()] }, { status: 400 });
+    }
+    throw error;
+  }
+  const validationErrors = validate(schema, document, [...specifiedRules, ...queryLimitRules(variables)]);
+  if (validationErrors.length > 0) {
+    return NextResponse.json({ errors: validationErrors.map((e) => e.toJSON()) }, { status: 400 });
+  }
+
+  const result = await executeQuery({
+    schema,
+    document,
+    variableValues: variables,
+    operationName: typeof body.operationName === 'string' ? body.operationName : undefined,
+    contextValue: createGraphQLContext(),
+  });
+
+  return NextResponse.json({
+    ...(result.errors ? { errors: result.errors.map(formatError) } : {}),
+    ...(result.data !== undefined ? { data: result.data } : {}),
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return NextResponse.json({ errors: [{ message: 'Request body must be an object' }] }, { status: 400 });
+  }
+  return execute(request, body);
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  let variables: unknown;
+  try {
+    variables = searchParams.has('variables') ? JSON.parse(searchParams.get('variables')!) : undefined;
+  } catch {
+    return NextResponse.json({ errors: [{ message: 'variables must be JSON' }] }, { status: 400 });
+  }
+  return execute(request, {
+    query: searchParams.get('query'),
+    variables,
+    operationName: searchParams.get('operationName'),
+  });
+}
@@ -11,6 +11,7 @@ import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { isPrismaNotFound, parseIdParam } from '@/lib/issues/validation';
 import { normalizeCode, sanitizeTargetTypes } from '@/lib/health-checks/validation';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -88,6 +89,7 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
 
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
+    await requirePermission('manage_health_checks');
     const { id } = await params;
     const defId = parseIdParam(id);
     if (defId === null) {
@@ -206,6 +208,9 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       throw err;
     }
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     if (isPrismaNotFound(error)) {
       return NextResponse.json({ error: 'Not found' }, { status: 404 });
     }
@@ -216,6 +221,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
 export async function DELETE(_request: NextRequest, { params }: RouteParams) {
   try {
+    await requirePermission('manage_health_checks');
     const { id } = await params;
     const defId = parseIdParam(id);
     if (defId === null) {
@@ -239,6 +245,9 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
     await prisma.health_check_definitions.delete({ where: { id: defId } });
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     if (isPrismaNotFound(error)) {
       return NextResponse.json({ error: 'Not found' }, { status: 404 });
     }
@@ -10,6 +10,7 @@ import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { parseIdParam } from '@/lib/issues/validation';
 import { normalizeCode, sanitizeTargetTypes } from '@/lib/health-checks/validation';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 type DefinitionRow = {
   id: bigint;
@@ -79,6 +80,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission('manage_health_checks');
     const body = await request.json();
 
     const code = normalizeCode(body.code);
@@ -152,6 +154,9 @@ export async function POST(request: NextRequest) {
       throw err;
     }
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('Error creating health check definition:', error);
     return NextResponse.json(
       { error: 'Failed to create health check definition' },
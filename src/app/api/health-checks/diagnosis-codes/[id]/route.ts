@@ -24,6 +24,7 @@ import type {
   HealthDiagnosisCode,
   HealthDiagnosisCodeGroup,
 } from '@/lib/health-checks/types';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -95,6 +96,7 @@ function serialize(c: {
 
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
+    await requirePermission('manage_health_checks');
     const { id } = await params;
     const codeId = parseIdParam(id);
     if (codeId === null) {
@@ -280,6 +282,9 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       throw err;
     }
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     if (isPrismaNotFound(error)) {
       return NextResponse.json({ error: 'Not found' }, { status: 404 });
     }
@@ -290,6 +295,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
 export async function DELETE(_request: NextRequest, { params }: RouteParams) {
   try {
+    await requirePermission('manage_health_checks');
     const { id } = await params;
     const codeId = parseIdParam(id);
     if (codeId === null) {
@@ -317,6 +323,9 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
     await prisma.health_diagnosis_codes.delete({ where: { id: codeId } });
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     if (isPrismaNotFound(error)) {
       return NextResponse.json({ error: 'Not found' }, { status: 404 });
     }
@@ -25,6 +25,7 @@ import type {
   HealthDiagnosisCodeGroup,
   HealthRemediationStrategy,
 } from '@/lib/health-checks/types';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 type DiagnosisGroupRow = {
   id: bigint;
@@ -169,6 +170,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission('manage_health_checks');
     const body = await request.json();
 
     const code = normalizeCode(body.code);
@@ -285,6 +287,9 @@ export async function POST(request: NextRequest) {
       throw err;
     }
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('Error creating diagnosis code:', error);
     return NextResponse.json(
       { error: 'Failed to create diagnosis code' },
@@ -0,0 +1,180 @@
+/**
+ * API Route: /api/health-checks/findings
+ *
+ * GET   - List findings with filters (all list filters accept repeated params
+ *         or comma-separated values):
+ *           status, definition_id, diagnosis_code (id or code string),
+ *           group_id, severity, entity_type, entity_id, archetype, subtype,
+ *           first_seen_from, first_seen_to, last_seen_from, last_seen_to
+ *           (ISO timestamps), limit, offset
+ * PATCH - Bulk triage: { finding_ids: string[], status: 'open' | 'ignored' | 'false_positive' }
+ *         Keeps health_check_state.open_findings_count in step.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseIdParam } from '@/lib/issues/validation';
+import {
+  listHealthFindings,
+  setHealthFindingStatus,
+  type HealthFindingFilters,
+} from '@/lib/health-checks/findings';
+import {
+  isConceptArchetype,
+  isConceptSubtype,
+  isHealthCheckEntityType,
+  isHealthFindingReviewStatus,
+  isHealthFindingStatus,
+  isIssuePriority,
+} from '@/lib/health-checks/validation';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+const MAX_BULK_FINDINGS = 1000;
+
+class FilterError extends Error {}
+
+function listParam(searchParams: URLSearchParams, key: string): string[] {
+  return searchParams
+    .getAll(key)
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function typedListParam<T extends string>(
+  searchParams: URLSearchParams,
+  key: string,
+  guard: (value: unknown) => value is T,
+): T[] | undefined {
+  const values = listParam(searchParams, key);
+  if (values.length === 0) return undefined;
+  for (const v of values) {
+    if (!guard(v)) throw new FilterError(`Invalid ${key} filter: ${v}`);
+  }
+  return values as T[];
+}
+
+function idListParam(searchParams: URLSearchParams, key: string): bigint[] | undefined {
+  const values = listParam(searchParams, key);
+  if (values.length === 0) return undefined;
+  return values.map((v) => {
+    const id = parseIdParam(v);
+    if (id === null) throw new FilterError(`Invalid ${key} filter: ${v}`);
+    return id;
+  });
+}
+
+function dateParam(searchParams: URLSearchParams, key: string): Date | undefined {
+  const raw = searchParams.get(key);
+  if (!raw) return undefined;
+  const date = new Date(raw);
+  if (Number.isNaN(date.getTime())) throw new FilterError(`Invalid ${key}: ${raw}`);
+  return date;
+}
+
+function parseFilters(searchParams: URLSearchParams): HealthFindingFilters {
+  const codeValues = listParam(searchParams, 'diagnosis_code');
+  const codeIds = codeValues.filter((v) => /^\d+$/.test(v)).map((v) => BigInt(v));
+  const codeStrings = codeValues.filter((v) => !/^\d+$/.test(v)).map((v) => v.toUpperCase());
+
+  const definitionParam = searchParams.get('definition_id');
+  const definitionId = definitionParam ? parseIdParam(definitionParam) : undefined;
+  if (definitionId === null) throw new FilterError('Invalid definition_id filter');
+
+  const entityIdParam = searchParams.get('entity_id');
+  const entityId = entityIdParam ? parseIdParam(entityIdParam) : undefined;
+  if (entityId === null) throw new FilterError('Invalid entity_id filter');
+
+  return {
+    statuses: typedListParam(searchParams, 'status', isHealthFindingStatus),
+    check_definition_id: definitionId,
+    diagnosis_code_ids: codeIds.length > 0 ? codeIds : undefined,
+    diagnosis_codes: codeStrings.length > 0 ? codeStrings : undefined,
+    group_ids: idListParam(searchParams, 'group_id'),
+    severities: typedListParam(searchParams, 'severity', isIssuePriority),
+    entity_types: typedListParam(searchParams, 'entity_type', isHealthCheckEntityType),
+    entity_id: entityId,
+    archetypes: typedListParam(searchParams, 'archetype', isConceptArchetype),
+    subtypes: typedListParam(searchParams, 'subtype', isConceptSubtype),
+    first_seen_from: dateParam(searchParams, 'first_seen_from'),
+    first_seen_to: dateParam(searchParams, 'first_seen_to'),
+    last_seen_from: dateParam(searchParams, 'last_seen_from'),
+    last_seen_to: dateParam(searchParams, 'last_seen_to'),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    let filters: HealthFindingFilters;
+    try {
+      filters = parseFilters(searchParams);
+    } catch (e) {
+      if (e instanceof FilterError) {
+        return NextResponse.json({ error: e.message }, { status: 400 });
+      }
+      throw e;
+    }
+
+    let limit = 50;
+    const limitParam = searchParams.get('limit');
+    if (limitParam) {
+      const n = Number(limitParam);
+      if (Number.isInteger(n) && n > 0 && n <= 500) limit = n;
+    }
+    let offset = 0;
+    const offsetParam = searchParams.get('offset');
+    if (offsetParam) {
+      const n = Number(offsetParam);
+      if (Number.isInteger(n) && n >= 0) offset = n;
+    }
+
+    const { findings, total } = await listHealthFindings(filters, { limit, offset });
+    return NextResponse.json({ findings, total, limit, offset });
+  } catch (error) {
+    console.error('Error listing health check findings:', error);
+    return NextResponse.json({ error: 'Failed to list findings' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    await requirePermission('run_health_checks');
+    const body = await request.json();
+
+    if (!isHealthFindingReviewStatus(body.status)) {
+      return NextResponse.json(
+        { error: "status must be one of 'open', 'ignored', 'false_positive'" },
+        { status: 400 },
+      );
+    }
+
+    if (!Array.isArray(body.finding_ids) || body.finding_ids.length === 0) {
+      return NextResponse.json({ error: 'finding_ids is required' }, { status: 400 });
+    }
+    if (body.finding_ids.length > MAX_BULK_FINDINGS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BULK_FINDINGS} findings per request` },
+        { status: 400 },
+      );
+    }
+
+    const ids: bigint[] = [];
+    for (const raw of body.finding_ids as unknown[]) {
+      const id = parseIdParam(raw);
+      if (id === null) {
+        return NextResponse.json({ error: `Invalid finding id: ${String(raw)}` }, { status: 400 });
+      }
+      ids.push(id);
+    }
+
+    const result = await setHealthFindingStatus(ids, body.status);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Error updating health check findings:', error);
+    return NextResponse.json({ error: 'Failed to update findings' }, { status: 500 });
+  }
+}
@@ -2,7 +2,9 @@
  * API Route: /api/health-checks/runs
  *
  * GET  - List recent health check runs (most recent first)
- * POST - Queue a new health check run for a definition (worker picks it up)
+ * POST - Queue a new health check run for a definition (worker picks it up).
+ *        With HEALTHCHECK_RUNNER=local, programmatic runs are executed
+ *        in-process right away.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -10,12 +12,19 @@ import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { parseIdParam } from '@/lib/issues/validation';
 import { isHealthCheckRunStatus } from '@/lib/health-checks/validation';
+import {
+  executeProgrammaticRun,
+  getProgrammaticRule,
+  isLocalHealthCheckRunner,
+} from '@/lib/health-checks/runner';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 type RunRow = {
   id: bigint;
   check_definition_id: bigint | null;
   label: string | null;
   status: string;
+  scope: Prisma.JsonValue | null;
   worker_id: string | null;
   model: string | null;
   llm_job_id: bigint | null;
@@ -54,6 +63,11 @@ function serialize(r: RunRow) {
           ? 'llm_batch'
           : null,
     label: r.label,
+    stale_only:
+      !!r.scope &&
+      typeof r.scope === 'object' &&
+      !Array.isArray(r.scope) &&
+      r.scope.stale_only === true,
     status: r.status,
     worker_id: r.worker_id,
     model: r.model,
@@ -130,6 +144,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission('run_health_checks');
     const body = await request.json();
 
     const definitionId = parseIdParam(body.check_definition_id);
@@ -142,7 +157,7 @@ export async function POST(request: NextRequest) {
 
     const definition = await prisma.health_check_definitions.findUnique({
       where: { id: definitionId },
-      select: { id: true, enabled: true },
+      select: { id: true, enabled: true, code: true, execution_kind: true },
     });
     if (!definition) {
       return NextResponse.json(
@@ -177,8 +192,21 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    if (
+      isLocalHealthCheckRunner() &&
+      definition.execution_kind === 'programmatic' &&
+      getProgrammaticRule(definition.code)
+    ) {
+      void executeProgrammaticRun(run.id).catch((error) => {
+        console.error(`Error executing local health check run ${run.id}:`, error);
+      });
+    }
+
     return NextResponse.json(serialize(run), { status: 201 });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('Error queuing health check run:', error);
     return NextResponse.json({ error: 'Failed to queue run' }, { status: 500 });
   }
@@ -6,12 +6,23 @@
  * checks + LLM submit + poll loop), matching what the EventBridge schedule
  * does. It is distinct from the per-definition "Queue Run" flow, which writes
  * a queued DB row.
+ *
+ * With HEALTHCHECK_RUNNER=local the programmatic checks are instead queued
+ * as `health_check_runs` rows and executed in-process by the local rule
+ * engine (no AWS required). LLM-bound checks are not run in this mode.
+ * Local runs re-check only stale / never-checked targets unless the body
+ * is `{ "full": true }`.
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { StartExecutionCommand } from '@aws-sdk/client-sfn';
 import { getSfnClient } from '@/lib/health-checks/sfn';
-import { getCurrentUserName } from '@/utils/supabase/server';
+import {
+  executeProgrammaticRun,
+  isLocalHealthCheckRunner,
+  queueProgrammaticRun,
+} from '@/lib/health-checks/runner';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 const PROGRAMMATIC_CHECK_CODES = [
   'FRAME_RULES',
@@ -25,8 +36,47 @@ function sanitizeExecutionName(raw: string): string {
   return raw.replace(/[^a-zA-Z0-9_-]/g, '-').slice(0, 80);
 }
 
-export async function POST() {
+async function triggerLocalRuns(userId: string, full: boolean) {
+  const runIds: bigint[] = [];
+  for (const code of PROGRAMMATIC_CHECK_CODES) {
+    runIds.push(
+      await queueProgrammaticRun(code, {
+        label: `manual-${userId}`,
+        scope: full ? undefined : { stale_only: true },
+      }),
+    );
+  }
+
+  // Run sequentially in the background; progress is visible through the
+  // run rows, same as with the Step Functions pipeline.
+  void (async () => {
+    for (const runId of runIds) {
+      try {
+        await executeProgrammaticRun(runId);
+      } catch (error) {
+        console.error(`[API] Local health-check run ${runId} failed to start:`, error);
+      }
+    }
+  })();
+
+  return NextResponse.json(
+    {
+      runIds: runIds.map((id) => id.toString()),
+      message: 'Local health-check runs started',
+    },
+    { status: 202 },
+  );
+}
+
+export async function POST(request: NextRequest) {
   try {
+    const { userName: userId } = await requirePermission('run_health_checks');
+
+    if (isLocalHealthCheckRunner()) {
+      const body = await request.json().catch(() => ({}));
+      return await triggerLocalRuns(userId, body?.full === true);
+    }
+
     const stateMachineArn = process.env.HEALTHCHECK_STATE_MACHINE_ARN;
     if (!stateMachineArn) {
       return NextResponse.json(
@@ -43,7 +93,6 @@ export async function POST() {
       );
     }
 
-    const userId = await getCurrentUserName();
     const name = sanitizeExecutionName(`manual-${userId}-${Date.now()}`);
 
     const result = await client.send(
@@ -63,6 +112,9 @@ export async function POST() {
       { status: 202 },
     );
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('[API] Error triggering health-check pipeline:', error);
     return NextResponse.json(
       { error: 'Failed to trigger health-check pipeline' },
@@ -0,0 +1,44 @@
+/**
+ * API Route: /api/lexical-units/[id]/sense-contrasts
+ *
+ * GET - For each lemma of the lexical unit (id or code) with two or more
+ *       senses of its part of speech, the senses and the contrasts between
+ *       them, with staged edits in `pending`. Returns
+ *       { groups: LemmaContrastGroup[] }.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSenseContrastsForLexicalUnit } from '@/lib/sense-contrasts';
+import { SenseContrastError } from '@/lib/version-control';
+
+export const dynamic = 'force-dynamic';
+
+async function resolveLexicalUnitId(idOrCode: string): Promise<bigint | null> {
+  if (/^\d+$/.test(idOrCode)) return BigInt(idOrCode);
+  const lu = await prisma.lexical_units.findUnique({
+    where: { code: idOrCode },
+    select: { id: true },
+  });
+  return lu?.id ?? null;
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const luId = await resolveLexicalUnitId((await params).id);
+    if (luId === null) {
+      return NextResponse.json({ error: 'Lexical unit not found' }, { status: 404 });
+    }
+    const groups = await getSenseContrastsForLexicalUnit(luId);
+    return NextResponse.json({ groups });
+  } catch (error) {
+    if (error instanceof SenseContrastError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] GET /api/lexical-units/[id]/sense-contrasts:', error);
+    return NextResponse.json({ error: 'Failed to load sense contrasts' }, { status: 500 });
+  }
+}
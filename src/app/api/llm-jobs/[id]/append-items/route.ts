@@ -3,6 +3,7 @@ import { prisma } from '@/lib/prisma';
 import { renderPromptAsync, fetchUnitsForScope } from '@/lib/llm/jobs';
 import type { JobScope } from '@/lib/llm/types';
 import type { Prisma } from '@prisma/client';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 interface Context {
   params: Promise<{ id: string }>;
@@ -12,6 +13,7 @@ const MAX_BATCH_SIZE = 3000;
 
 export async function POST(request: NextRequest, context: Context) {
   try {
+    await requirePermission('run_llm_jobs');
     const { id: jobIdStr } = await context.params;
     const jobId = BigInt(jobIdStr);
     
@@ -130,6 +132,9 @@ export async function POST(request: NextRequest, context: Context) {
       totalItems: updatedJob?.total_items ?? job.total_items + entries.length,
     });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('[LLM] Failed to append items:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to append items' },
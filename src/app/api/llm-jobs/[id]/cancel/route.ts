@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { cancelLLMJob } from '@/lib/llm/jobs';
+import { requirePermission } from '@/lib/users/roles';
 
 interface Context {
   params: Promise<{ id: string }>;
@@ -9,7 +10,8 @@ export async function POST(_request: Request, context: Context) {
   const { id: jobId } = await context.params;
 
   try {
-    const result = await cancelLLMJob(jobId);
+    const { userName } = await requirePermission('run_llm_jobs');
+    const result = await cancelLLMJob(jobId, userName);
     return NextResponse.json(result);
   } catch (error) {
     console.error(`[LLM] Failed to cancel job ${jobId}:`, error);
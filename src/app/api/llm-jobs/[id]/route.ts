@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { deleteLLMJob, getLLMJob } from '@/lib/llm/jobs';
 import { handleDatabaseError } from '@/lib/db-utils';
+import { requirePermission } from '@/lib/users/roles';
 
 interface Context {
   params: Promise<{ id: string }>;
@@ -41,7 +42,8 @@ export async function GET(request: NextRequest, context: Context) {
 export async function DELETE(_request: Request, context: Context) {
   const { id: jobId } = await context.params;
   try {
-    await deleteLLMJob(jobId);
+    const { userName } = await requirePermission('run_llm_jobs');
+    await deleteLLMJob(jobId, userName);
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error(`[LLM] Failed to delete job ${jobId}:`, error);
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { stageClaimsExtractionJob } from '@/lib/claims/extraction/stage';
+import { requirePermission } from '@/lib/users/roles';
+import { evaluateStagedChanges } from '@/lib/commit-policies/engine';
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Validate the results of an extract_claims job and stage them as pending
+ * instance changesets. Items already staged are skipped, so this can be
+ * called again as more items finish.
+ */
+export async function POST(_request: Request, context: Context) {
+  const { id: jobId } = await context.params;
+
+  if (!/^\d+$/.test(jobId)) {
+    return NextResponse.json({ error: 'Invalid job id' }, { status: 400 });
+  }
+
+  try {
+    const { userName: stagedBy } = await requirePermission('run_llm_jobs');
+    const result = await stageClaimsExtractionJob(BigInt(jobId), stagedBy);
+    await evaluateStagedChanges({ changesetIds: result.changeset_ids.map((id) => BigInt(id)) });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error(`[LLM] Failed to stage claims for job ${jobId}:`, error);
+    const status = error instanceof Error && 'statusCode' in error ? (error as { statusCode: number }).statusCode : 500;
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to stage claims' },
+      { status }
+    );
+  }
+}
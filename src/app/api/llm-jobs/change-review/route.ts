@@ -12,6 +12,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getChangeset } from '@/lib/version-control';
 import type { Prisma } from '@prisma/client';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 interface CommentHistoryItem {
   author: string;
@@ -140,6 +141,7 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission('run_llm_jobs');
     const body = await request.json() as ChangeReviewRequest;
     const { changeset_id, user_question, comment_history, model, submitted_by } = body;
 
@@ -243,6 +245,9 @@ export async function POST(request: NextRequest) {
     }, { status: 201 });
 
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('Error creating review job:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to create review job' },
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { countEntriesForScope } from '@/lib/llm/entries';
 import type { JobScope } from '@/lib/llm/types';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 /**
  * Quickly counts entries in a scope without fetching them all
@@ -8,6 +9,7 @@ import type { JobScope } from '@/lib/llm/types';
  */
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission('run_llm_jobs');
     const payload = await request.json() as { scope: JobScope };
     
     if (!payload.scope || typeof payload.scope !== 'object') {
@@ -17,6 +19,9 @@ export async function POST(request: NextRequest) {
     const count = await countEntriesForScope(payload.scope);
     return NextResponse.json({ count });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('[LLM] Failed to count scope:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to count scope' },
@@ -3,6 +3,7 @@ import type { CreateLLMJobParams } from '@/lib/llm/types';
 import { fetchUnitsForScope, renderPromptAsync } from '@/lib/llm/jobs';
 import { getOpenAIClient } from '@/lib/llm/client';
 import { estimateUsdCost } from '@/lib/llm/pricing';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 interface EstimateResponseBody {
   totalItems: number;
@@ -17,6 +18,7 @@ interface EstimateResponseBody {
 
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission('run_llm_jobs');
     const payload = (await request.json()) as Partial<CreateLLMJobParams> & {
       outputTokensPerItem?: number;
     };
@@ -134,6 +136,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(body);
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to estimate cost' },
       { status: 500 }
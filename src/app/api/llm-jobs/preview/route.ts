@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { previewLLMJob } from '@/lib/llm/jobs';
 import type { CreateLLMJobParams } from '@/lib/llm/types';
+import { requirePermission } from '@/lib/users/roles';
 
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission('run_llm_jobs');
     const payload = (await request.json()) as Partial<CreateLLMJobParams>;
 
     if (!payload || typeof payload !== 'object') {
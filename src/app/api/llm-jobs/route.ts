@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createLLMJob, listLLMJobs } from '@/lib/llm/jobs';
 import type { CreateLLMJobParams } from '@/lib/llm/types';
 import { handleDatabaseError } from '@/lib/db-utils';
+import { requirePermission } from '@/lib/users/roles';
 
 // Generous timeout for job creation with large batches
 export const maxDuration = 60;
@@ -32,6 +33,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const { userName } = await requirePermission('run_llm_jobs');
     const payload = (await request.json()) as Partial<CreateLLMJobParams> & { 
       previewOnly?: boolean;
       initialBatchSize?: number;
@@ -55,7 +57,7 @@ export async function POST(request: NextRequest) {
 
     const job = await createLLMJob({
       label: payload.label,
-      submittedBy: payload.submittedBy,
+      submittedBy: payload.submittedBy ?? userName,
       model: payload.model,
       promptTemplate: payload.promptTemplate,
       systemPrompt: payload.systemPrompt,
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import type { CreateLLMJobParams } from '@/lib/llm/types';
 import { fetchUnitsForScope } from '@/lib/llm/jobs';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission('run_llm_jobs');
     const payload = (await request.json()) as Partial<CreateLLMJobParams>;
     if (!payload || typeof payload !== 'object') {
       return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 });
@@ -33,6 +35,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ totalItems: totalEntries, sampleSize, sample });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to validate scope' },
       { status: 500 }
@@ -0,0 +1,36 @@
+/**
+ * API Route: /api/notifications/digest
+ *
+ * GET - Preview the current user's next email digest, rendered exactly
+ *       as it would be sent. Query: format=html (default) | text | json
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { previewDigest } from '@/lib/notifications/digest';
+import { PermissionError, requireSignedIn } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userName } = await requireSignedIn();
+    const format = new URL(request.url).searchParams.get('format') ?? 'html';
+    const digest = await previewDigest(userName);
+
+    if (format === 'json') return NextResponse.json({ digest });
+    if (format === 'text') {
+      return new NextResponse(digest?.text ?? 'Nothing new since your last digest.', {
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      });
+    }
+    return new NextResponse(digest?.html ?? '<p>Nothing new since your last digest.</p>', {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] Error rendering notification digest:', error);
+    return NextResponse.json({ error: 'Failed to render digest' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * API Route: /api/notifications/preferences
+ *
+ * GET   - The current user's delivery preferences
+ * PATCH - Update them. Body: { email?, email_digest?, webhook_url?, muted_kinds? }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '@/lib/notifications/store';
+import { NotificationError } from '@/lib/notifications/validation';
+import { PermissionError, requireSignedIn } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof PermissionError || error instanceof NotificationError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  console.error(`[API] Error ${action} notification preferences:`, error);
+  return NextResponse.json({ error: `Failed to ${action === 'loading' ? 'load' : 'update'} notification preferences` }, { status: 500 });
+}
+
+export async function GET() {
+  try {
+    const { userName } = await requireSignedIn();
+    return NextResponse.json(await getNotificationPreferences(userName));
+  } catch (error) {
+    return errorResponse(error, 'loading');
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userName } = await requireSignedIn();
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 });
+    }
+    return NextResponse.json(await updateNotificationPreferences(userName, body));
+  } catch (error) {
+    return errorResponse(error, 'updating');
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * API Route: /api/notifications/read
+ *
+ * POST - Mark notifications as read. Body: { ids: string[] } or { all: true }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { markNotificationsRead } from '@/lib/notifications/store';
+import { PermissionError, requireSignedIn } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userName } = await requireSignedIn();
+    const body = await request.json().catch(() => ({}));
+
+    let ids: bigint[] | 'all';
+    if (body?.all === true) {
+      ids = 'all';
+    } else if (Array.isArray(body?.ids) && body.ids.every((id: unknown) => /^\d+$/.test(String(id)))) {
+      ids = body.ids.map((id: unknown) => BigInt(String(id)));
+    } else {
+      return NextResponse.json({ error: 'Provide ids (notification ids) or all: true' }, { status: 400 });
+    }
+
+    const marked = await markNotificationsRead(userName, ids);
+    return NextResponse.json({ marked });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] Error marking notifications read:', error);
+    return NextResponse.json({ error: 'Failed to mark notifications read' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * API Route: /api/notifications
+ *
+ * GET - The current user's notifications, newest first, with the unread
+ *       count. Query: unread_only=true, limit (default 50, max 200),
+ *       before (notification id, for paging).
+ *
+ * Drains queued notification events first, so the bell stays current
+ * even when the `notifications:dispatch` cron is slow or not set up.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dispatchNotificationEvents } from '@/lib/notifications/dispatch';
+import { listNotifications } from '@/lib/notifications/store';
+import { PermissionError, requireSignedIn } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userName } = await requireSignedIn();
+    const { searchParams } = new URL(request.url);
+    const limitParam = Number(searchParams.get('limit'));
+    const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(Math.trunc(limitParam), 200) : 50;
+    const before = searchParams.get('before');
+    if (before !== null && !/^\d+$/.test(before)) {
+      return NextResponse.json({ error: 'before must be a notification id' }, { status: 400 });
+    }
+
+    try {
+      await dispatchNotificationEvents({ limit: 100 });
+    } catch (error) {
+      // Listing what's already there beats failing the bell.
+      console.error('[API] Error dispatching notification events:', error);
+    }
+
+    return NextResponse.json(
+      await listNotifications(userName, {
+        unreadOnly: searchParams.get('unread_only') === 'true',
+        limit,
+        beforeId: before !== null ? BigInt(before) : undefined,
+      }),
+    );
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] Error fetching notifications:', error);
+    return NextResponse.json({ error: 'Failed to fetch notifications' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * API Route: /api/notifications/subscriptions
+ *
+ * GET    - The current user's subscriptions; with target_type and
+ *          target_id, just the one for that target (empty when not watching)
+ * POST   - Watch a target. Body: { target_type, target_id }
+ * DELETE - Stop watching. Query: target_type, target_id
+ *
+ * target_type is frame (concept), lexical_unit, change_plan or diagnosis_code.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listSubscriptions, subscribe, unsubscribe } from '@/lib/notifications/store';
+import { NotificationError, parseSubscriptionTarget } from '@/lib/notifications/validation';
+import { PermissionError, requireSignedIn } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof PermissionError || error instanceof NotificationError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  console.error(`[API] Error ${action} notification subscriptions:`, error);
+  return NextResponse.json({ error: 'Failed to update subscriptions' }, { status: 500 });
+}
+
+function targetFromQuery(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  return parseSubscriptionTarget({
+    target_type: searchParams.get('target_type'),
+    target_id: searchParams.get('target_id'),
+  });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userName } = await requireSignedIn();
+    const filtered = new URL(request.url).searchParams.has('target_type');
+    const subscriptions = await listSubscriptions(userName, filtered ? targetFromQuery(request) : {});
+    return NextResponse.json({ subscriptions });
+  } catch (error) {
+    return errorResponse(error, 'loading');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userName } = await requireSignedIn();
+    const body = await request.json().catch(() => ({}));
+    const subscription = await subscribe(userName, parseSubscriptionTarget(body ?? {}));
+    return NextResponse.json(subscription, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'adding');
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userName } = await requireSignedIn();
+    const removed = await unsubscribe(userName, targetFromQuery(request));
+    return NextResponse.json({ removed });
+  } catch (error) {
+    return errorResponse(error, 'removing');
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ONTOLOGY_EXPORT_FLAVORS, streamOntologyTurtle, type OntologyExportFlavor } from '@/lib/ontology';
+
+// Streams the whole concept table; large ontologies take a while.
+export const maxDuration = 300;
+
+/**
+ * GET /api/ontology/export?format=owl|skos
+ *
+ * Streams the full ontology as Turtle. IRIs share the claims export
+ * namespace (CLAIMS_EXPORT_BASE_IRI, or the request origin when unset) so
+ * `/api/ontology/import` can match classes back to concepts.
+ */
+export async function GET(request: NextRequest) {
+  const flavor = (request.nextUrl.searchParams.get('format') ?? 'owl') as OntologyExportFlavor;
+  if (!ONTOLOGY_EXPORT_FLAVORS.includes(flavor)) {
+    return NextResponse.json(
+      { error: `format must be one of ${ONTOLOGY_EXPORT_FLAVORS.join(', ')}` },
+      { status: 400 },
+    );
+  }
+
+  const chunks = streamOntologyTurtle({
+    baseIri: process.env.CLAIMS_EXPORT_BASE_IRI || request.nextUrl.origin,
+    flavor,
+  });
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(encoder.encode(value));
+      } catch (error) {
+        console.error('[API] GET /api/ontology/export:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': 'text/turtle; charset=utf-8',
+      'Content-Disposition': `attachment; filename="ontology-${flavor}.ttl"`,
+    },
+  });
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { diffOntologyImport, OntologyImportError, stageOntologyImport } from '@/lib/ontology';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const maxDuration = 300;
+
+const MAX_ONTOLOGY_BYTES = 50 * 1024 * 1024;
+
+/**
+ * POST /api/ontology/import
+ *
+ * Multipart form with `file` (Turtle), or a raw `text/turtle` body.
+ * `dryRun=true` (form field or query param) returns the diff without
+ * staging; otherwise the diff is staged as one `ontology_import` change
+ * plan for review. Requires the editor role.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userName } = await requirePermission('stage_changes');
+    let text: string;
+    let filename: string | null = null;
+    let dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
+
+    if ((request.headers.get('content-type') ?? '').includes('multipart/form-data')) {
+      const form = await request.formData();
+      const file = form.get('file');
+      if (!(file instanceof File) || file.size === 0) {
+        return NextResponse.json({ error: 'Provide a Turtle file' }, { status: 400 });
+      }
+      if (file.size > MAX_ONTOLOGY_BYTES) {
+        return NextResponse.json({ error: 'File size must be under 50MB' }, { status: 400 });
+      }
+      text = await file.text();
+      filename = file.name || null;
+      dryRun = dryRun || form.get('dryRun') === 'true';
+    } else {
+      text = await request.text();
+      if (!text.trim()) {
+        return NextResponse.json({ error: 'Request body is empty' }, { status: 400 });
+      }
+    }
+
+    const baseIri = process.env.CLAIMS_EXPORT_BASE_IRI || request.nextUrl.origin;
+    if (dryRun) {
+      return NextResponse.json({ diff: await diffOntologyImport(text, { baseIri }), planId: null, changesetIds: [] });
+    }
+
+    const result = await stageOntologyImport(text, {
+      baseIri,
+      userId: userName,
+      filename,
+    });
+    return NextResponse.json(result, { status: result.planId ? 201 : 200 });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (error instanceof OntologyImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] POST /api/ontology/import:', error);
+    return NextResponse.json({ error: 'Failed to import ontology' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * API Route: /api/referents/merge-candidates
+ *
+ * GET - Propose referents / unresolved instances that denote the same
+ *       real-world thing. Query params:
+ *         type_concept_id, knowledge_graph_id (scope),
+ *         min_similarity (0-1, embedding threshold), limit (per signal)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseIdParam } from '@/lib/issues/validation';
+import { findReferentMergeCandidates } from '@/lib/referents/resolution';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const typeParam = searchParams.get('type_concept_id');
+    const typeConceptId = typeParam ? parseIdParam(typeParam) : undefined;
+    if (typeConceptId === null) {
+      return NextResponse.json({ error: 'Invalid type_concept_id' }, { status: 400 });
+    }
+    const graphParam = searchParams.get('knowledge_graph_id');
+    const knowledgeGraphId = graphParam ? parseIdParam(graphParam) : undefined;
+    if (knowledgeGraphId === null) {
+      return NextResponse.json({ error: 'Invalid knowledge_graph_id' }, { status: 400 });
+    }
+
+    const similarityParam = searchParams.get('min_similarity');
+    const minSimilarity = similarityParam ? Number(similarityParam) : undefined;
+    if (minSimilarity !== undefined && !(minSimilarity >= 0 && minSimilarity <= 1)) {
+      return NextResponse.json({ error: 'min_similarity must be between 0 and 1' }, { status: 400 });
+    }
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+    if (limit !== undefined && !(Number.isFinite(limit) && limit >= 1 && limit <= 1000)) {
+      return NextResponse.json({ error: 'limit must be between 1 and 1000' }, { status: 400 });
+    }
+
+    const candidates = await findReferentMergeCandidates({
+      type_concept_id: typeConceptId,
+      knowledge_graph_id: knowledgeGraphId,
+      min_similarity: minSimilarity,
+      limit,
+    });
+    return NextResponse.json({ candidates });
+  } catch (error) {
+    console.error('[API] GET /api/referents/merge-candidates:', error);
+    return NextResponse.json({ error: 'Failed to compute merge candidates' }, { status: 500 });
+  }
+}
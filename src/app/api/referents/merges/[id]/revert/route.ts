@@ -0,0 +1,60 @@
+/**
+ * API Route: /api/referents/merges/[id]/revert
+ *
+ * POST - Stage an un-merge of a committed referent merge changeset for
+ *        review. Body: `{ force?: boolean }`. When the un-merge is
+ *        committed, instances, aliases and external ids move back to the
+ *        loser and it is un-merged. Requires the editor role; 409 with
+ *        `conflicts` when later changes touched the same referents.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { parseIdParam } from '@/lib/issues/validation';
+import {
+  RevertConflictError,
+  RevertError,
+  stageChangesetRevert,
+} from '@/lib/version-control';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const changesetId = parseIdParam(id);
+    if (changesetId === null) {
+      return NextResponse.json({ error: 'Invalid changeset id' }, { status: 400 });
+    }
+    const body = (await request.json().catch(() => ({}))) as { force?: unknown };
+
+    const { userName } = await requirePermission('stage_changes');
+
+    const changeset = await prisma.changesets.findUnique({
+      where: { id: changesetId },
+      select: { entity_type: true, operation: true },
+    });
+    if (!changeset || changeset.entity_type !== 'referent' || changeset.operation !== 'merge') {
+      return NextResponse.json({ error: `Changeset ${changesetId} is not a referent merge` }, { status: 404 });
+    }
+
+    const result = await stageChangesetRevert(changesetId, userName, {
+      force: body.force === true,
+    });
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (error instanceof RevertConflictError) {
+      return NextResponse.json({ error: error.message, conflicts: error.conflicts }, { status: 409 });
+    }
+    if (error instanceof RevertError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] POST /api/referents/merges/[id]/revert:', error);
+    return NextResponse.json({ error: 'Failed to stage referent un-merge' }, { status: 500 });
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * API Route: /api/referents/merges
+ *
+ * GET  - Referent merge changesets, newest first. `status` filter
+ *        (pending | committed | discarded, default committed), `limit`.
+ * POST - Stage a referent merge for review. Body is one of:
+ *          { kind: 'merge', winner_id, loser_id?, instance_ids?, signals? }
+ *          { kind: 'create', canonical_label, type_concept_id,
+ *            knowledge_graph_id?, instance_ids, aliases? }
+ *        Nothing is applied until the changeset is committed from
+ *        Pending Changes. Requires the editor role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { parseIdParam } from '@/lib/issues/validation';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+import {
+  ReferentResolutionError,
+  stageReferentFromInstances,
+  stageReferentMerge,
+} from '@/lib/referents/merge';
+
+const CHANGESET_STATUSES = ['pending', 'committed', 'discarded'] as const;
+type ChangesetStatus = (typeof CHANGESET_STATUSES)[number];
+
+function parseIdList(value: unknown): bigint[] | null {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return null;
+  const ids = value.map(parseIdParam);
+  return ids.every((id): id is bigint => id !== null) ? ids : null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get('status') ?? 'committed') as ChangesetStatus;
+    if (!CHANGESET_STATUSES.includes(status)) {
+      return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+    }
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200);
+
+    const changesets = await prisma.changesets.findMany({
+      where: { entity_type: 'referent', operation: 'merge', status },
+      orderBy: { id: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        entity_id: true,
+        status: true,
+        created_by: true,
+        created_at: true,
+        committed_at: true,
+        before_snapshot: true,
+        audit_log: { select: { field_name: true } },
+      },
+    });
+
+    return NextResponse.json({
+      merges: changesets.map((cs) => {
+        const before = (cs.before_snapshot ?? {}) as Record<string, unknown>;
+        const ctx = (before.__merge_context ?? {}) as Record<string, unknown>;
+        return {
+          changeset_id: cs.id.toString(),
+          entity_id: cs.entity_id?.toString() ?? null,
+          winner_id: before.__merge_child_id != null ? String(before.__merge_child_id) : null,
+          winner_label: typeof ctx.winner_label === 'string' ? ctx.winner_label : null,
+          loser_label: typeof ctx.loser_label === 'string' ? ctx.loser_label : null,
+          status: cs.status,
+          created_by: cs.created_by,
+          created_at: cs.created_at.toISOString(),
+          committed_at: cs.committed_at?.toISOString() ?? null,
+          reverted: cs.audit_log.some((a) => a.field_name === 'merged_into_id'),
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('[API] GET /api/referents/merges:', error);
+    return NextResponse.json({ error: 'Failed to list referent merges' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userName: userId } = await requirePermission('stage_changes');
+    const body = await request.json();
+
+    if (body?.kind === 'create') {
+      const typeConceptId = parseIdParam(body.type_concept_id);
+      const instanceIds = parseIdList(body.instance_ids);
+      const knowledgeGraphId =
+        body.knowledge_graph_id == null ? null : parseIdParam(body.knowledge_graph_id);
+      if (typeof body.canonical_label !== 'string' || !typeConceptId || !instanceIds) {
+        return NextResponse.json(
+          { error: 'canonical_label, type_concept_id and instance_ids are required' },
+          { status: 400 },
+        );
+      }
+      const aliases = Array.isArray(body.aliases)
+        ? body.aliases.filter((a: unknown): a is string => typeof a === 'string')
+        : undefined;
+      const { changeset_id } = await stageReferentFromInstances(
+        {
+          canonical_label: body.canonical_label,
+          type_concept_id: typeConceptId,
+          knowledge_graph_id: knowledgeGraphId,
+          instance_ids: instanceIds,
+          aliases,
+        },
+        userId,
+      );
+      return NextResponse.json(
+        { staged: true, changeset_id: changeset_id.toString(), created: true },
+        { status: 201 },
+      );
+    }
+
+    if (body?.kind !== 'merge') {
+      return NextResponse.json({ error: "kind must be 'merge' or 'create'" }, { status: 400 });
+    }
+    const winnerId = parseIdParam(body.winner_id);
+    const loserId = body.loser_id == null ? null : parseIdParam(body.loser_id);
+    const instanceIds = parseIdList(body.instance_ids);
+    if (!winnerId || (body.loser_id != null && !loserId) || !instanceIds) {
+      return NextResponse.json(
+        { error: 'winner_id is required; loser_id and instance_ids must be ids' },
+        { status: 400 },
+      );
+    }
+    const { changeset_id, created } = await stageReferentMerge(
+      {
+        winner_id: winnerId,
+        loser_id: loserId,
+        instance_ids: instanceIds,
+        signals: Array.isArray(body.signals) ? body.signals : undefined,
+      },
+      userId,
+    );
+    return NextResponse.json(
+      { staged: true, changeset_id: changeset_id.toString(), created },
+      { status: created ? 201 : 200 },
+    );
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (error instanceof ReferentResolutionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] POST /api/referents/merges:', error);
+    return NextResponse.json({ error: 'Failed to stage referent merge' }, { status: 500 });
+  }
+}
@@ -16,6 +16,7 @@ import { prisma } from '@/lib/prisma';
  *   - search: matched against referent id, canonical_label, aliases, and
  *     external ids
  *   - sortBy: one of id | canonical_label | createdAt | updatedAt
+ *   - includeMerged: "true" to also list referents merged into another
  *   - sortOrder: asc | desc
  */
 
@@ -63,6 +64,10 @@ export async function GET(request: NextRequest) {
 
     const and: Prisma.referentsWhereInput[] = [];
 
+    if (searchParams.get('includeMerged') !== 'true') {
+      and.push({ merged_into_id: null });
+    }
+
     if (search) {
       const or: Prisma.referentsWhereInput[] = [
         { canonical_label: { contains: search, mode: 'insensitive' } },
@@ -1,16 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { prisma } from '@/lib/prisma'
-import { revalidateAllUnitCaches } from '@/lib/db'
-import type { lexical_unit_relation_type, Prisma } from '@prisma/client'
+import {
+  LexicalUnitRelationError,
+  stageHypernymChange,
+  stageLexicalUnitRelationCreate,
+  stageLexicalUnitRelationDelete,
+  stageLexicalUnitRelationRetype,
+  withCommitPolicies,
+} from '@/lib/version-control'
+import { evaluateStagedChanges } from '@/lib/commit-policies/engine'
+import { PermissionError, requirePermission } from '@/lib/users/roles'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
+// Relation edits are staged as `lexical_unit_relation` changesets; the
+// inverse edge (hyponym for hypernym, holonym for meronym, …) is written
+// when the changeset is committed. Every method requires the editor role.
+
 interface RelationRequest {
   sourceId: string  // code
   targetId: string  // code
-  type: lexical_unit_relation_type
+  type: string
+}
+
+interface RetypeRelationRequest extends RelationRequest {
+  newType: string
 }
 
 interface ChangeHypernymRequest {
@@ -22,242 +37,111 @@ interface ChangeHypernymRequest {
   hyponymsToStay: string[];
 }
 
-async function handleChangeHypernym(req: ChangeHypernymRequest): Promise<NextResponse> {
-  const { unitId, oldHypernym, newHypernym, hyponymsToMove, hyponymsToStay } = req;
-
-  // Get entry IDs
-  const entry = await prisma.lexical_units.findFirst({
-    where: { 
-      code: unitId,
-      deleted: false
-    },
-    select: { id: true }
-  });
-
-  if (!entry) {
-    return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
-  }
-
-  const newHypernymUnit = await prisma.lexical_units.findFirst({
-    where: { 
-      code: newHypernym,
-      deleted: false
-    },
-    select: { id: true }
-  });
+const NO_STORE_HEADERS = {
+  'Cache-Control': 'no-store, no-cache, must-revalidate',
+  'Pragma': 'no-cache',
+}
 
-  if (!newHypernymUnit) {
-    return NextResponse.json({ error: 'New hypernym not found' }, { status: 404 });
+function errorResponse(error: unknown, logLabel: string): NextResponse {
+  if (error instanceof PermissionError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode })
   }
-
-  // 1. Delete old hypernym relation (entry -> oldHypernym)
-  if (oldHypernym) {
-    const oldHypernymUnit = await prisma.lexical_units.findFirst({
-      where: { 
-        code: oldHypernym,
-        deleted: false
-      },
-      select: { id: true }
-    });
-
-    if (oldHypernymUnit) {
-      await prisma.lexical_unit_relations.deleteMany({
-        where: {
-          source_id: entry.id,
-          target_id: oldHypernymUnit.id,
-          type: 'hypernym'
-        }
-      });
-    }
+  if (error instanceof LexicalUnitRelationError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode })
   }
+  console.error(`[API] ${logLabel} /api/relations:`, error)
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+}
 
-  // 2. Create new hypernym relation (entry -> newHypernym)
-  await prisma.lexical_unit_relations.upsert({
-    where: {
-      source_id_type_target_id: {
-        source_id: entry.id,
-        target_id: newHypernymUnit.id,
-        type: 'hypernym'
-      }
-    },
-    create: {
-      source_id: entry.id,
-      target_id: newHypernymUnit.id,
-      type: 'hypernym'
-    },
-    update: {}
-  });
-
-  // 3. For hyponyms that stay: change their hypernym relation from entry to oldHypernym
-  if (oldHypernym && hyponymsToStay.length > 0) {
-    const oldHypernymUnit = await prisma.lexical_units.findFirst({
-      where: { 
-        code: oldHypernym,
-        deleted: false
-      },
-      select: { id: true }
-    });
-
-    if (oldHypernymUnit) {
-      for (const hyponymCode of hyponymsToStay) {
-        const hyponymUnit = await prisma.lexical_units.findFirst({
-          where: { 
-            code: hyponymCode,
-            deleted: false
-          },
-          select: { id: true }
-        });
-
-        if (hyponymUnit) {
-          // Delete relation: hyponym -> entry
-          await prisma.lexical_unit_relations.deleteMany({
-            where: {
-              source_id: hyponymUnit.id,
-              target_id: entry.id,
-              type: 'hypernym'
-            }
-          });
-
-          // Create relation: hyponym -> oldHypernym
-          await prisma.lexical_unit_relations.upsert({
-            where: {
-              source_id_type_target_id: {
-                source_id: hyponymUnit.id,
-                target_id: oldHypernymUnit.id,
-                type: 'hypernym'
-              }
-            },
-            create: {
-              source_id: hyponymUnit.id,
-              target_id: oldHypernymUnit.id,
-              type: 'hypernym'
-            },
-            update: {}
-          });
-        }
-      }
-    }
+async function handleChangeHypernym(req: ChangeHypernymRequest, userName: string): Promise<NextResponse> {
+  if (!req.unitId || !req.newHypernym) {
+    return NextResponse.json({ error: 'Missing required fields: unitId, newHypernym' }, { status: 400 })
   }
 
-  revalidateAllUnitCaches();
-
-  return NextResponse.json({ 
-    success: true,
-    message: `Updated hypernym to ${newHypernym}. ${hyponymsToMove.length} hyponyms moved, ${hyponymsToStay.length} stayed.`
-  }, {
-    headers: {
-      'Cache-Control': 'no-store, no-cache, must-revalidate',
-      'Pragma': 'no-cache',
-    },
-  });
+  const result = await stageHypernymChange({
+    unitCode: req.unitId,
+    oldHypernymCode: req.oldHypernym,
+    newHypernymCode: req.newHypernym,
+    hyponymsToMove: Array.isArray(req.hyponymsToMove) ? req.hyponymsToMove : [],
+    hyponymsToStay: Array.isArray(req.hyponymsToStay) ? req.hyponymsToStay : [],
+  }, userName)
+  await evaluateStagedChanges(result.plan_id
+    ? { planIds: [BigInt(result.plan_id)] }
+    : { changesetIds: result.changeset_ids.map((id) => BigInt(id)) })
+
+  return NextResponse.json(result, { status: 201, headers: NO_STORE_HEADERS })
 }
 
 export async function POST(request: NextRequest) {
   try {
+    const { userName } = await requirePermission('stage_changes')
     const body = await request.json();
-    
+
     if (body.action === 'change_hypernym') {
-      return handleChangeHypernym(body as ChangeHypernymRequest);
+      return await handleChangeHypernym(body as ChangeHypernymRequest, userName);
     }
-    
+
     const relationBody = body as RelationRequest;
-    
+
     if (!relationBody.sourceId || !relationBody.targetId || !relationBody.type) {
       return NextResponse.json(
         { error: 'Missing required fields: sourceId, targetId, type' },
         { status: 400 }
       )
     }
-    
-    if (relationBody.sourceId === relationBody.targetId) {
-      return NextResponse.json(
-        { error: 'Cannot create relation between entry and itself' },
-        { status: 400 }
-      )
-    }
-    
-    // Convert codes to numeric IDs
-    const sourceUnit = await prisma.lexical_units.findFirst({
-      where: { code: relationBody.sourceId, deleted: false },
-      select: { id: true }
-    })
-    
-    const targetUnit = await prisma.lexical_units.findFirst({
-      where: { code: relationBody.targetId, deleted: false },
-      select: { id: true }
-    })
-    
-    if (!sourceUnit || !targetUnit) {
+
+    const result = await withCommitPolicies(await stageLexicalUnitRelationCreate(
+      { sourceCode: relationBody.sourceId, targetCode: relationBody.targetId, type: relationBody.type },
+      userName
+    ))
+
+    return NextResponse.json(result, { status: 201, headers: NO_STORE_HEADERS })
+  } catch (error) {
+    return errorResponse(error, 'POST')
+  }
+}
+
+/** Change the type of an existing relation (e.g. similar_to -> antonym). */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userName } = await requirePermission('stage_changes')
+    const body: RetypeRelationRequest = await request.json()
+
+    if (!body.sourceId || !body.targetId || !body.type || !body.newType) {
       return NextResponse.json(
-        { error: 'One or both entries do not exist' },
+        { error: 'Missing required fields: sourceId, targetId, type, newType' },
         { status: 400 }
       )
     }
-    
-    const relation = await prisma.lexical_unit_relations.create({
-      data: {
-        source_id: sourceUnit.id,
-        target_id: targetUnit.id,
-        type: relationBody.type
-      }
-    })
-    
-    return NextResponse.json(relation, { 
-      status: 201,
-      headers: {
-        'Cache-Control': 'no-store, no-cache, must-revalidate',
-        'Pragma': 'no-cache',
-      },
-    })
+
+    const result = await withCommitPolicies(await stageLexicalUnitRelationRetype(
+      { sourceCode: body.sourceId, targetCode: body.targetId, type: body.type },
+      body.newType,
+      userName
+    ))
+
+    return NextResponse.json(result, { headers: NO_STORE_HEADERS })
   } catch (error) {
-    console.error('Create relation error:', error)
-    if (error instanceof Error && error.message.includes('Unique constraint')) {
-      return NextResponse.json({ error: 'This relation already exists' }, { status: 409 })
-    }
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    return errorResponse(error, 'PATCH')
   }
 }
 
 export async function DELETE(request: NextRequest) {
   try {
+    const { userName } = await requirePermission('stage_changes')
     const body: RelationRequest = await request.json()
-    
+
     if (!body.sourceId || !body.targetId || !body.type) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
     }
-    
-    const sourceUnit = await prisma.lexical_units.findFirst({
-      where: { code: body.sourceId, deleted: false },
-      select: { id: true }
-    })
-    
-    const targetUnit = await prisma.lexical_units.findFirst({
-      where: { code: body.targetId, deleted: false },
-      select: { id: true }
-    })
-    
-    if (!sourceUnit || !targetUnit) {
-      return NextResponse.json({ error: 'Entries not found' }, { status: 404 })
-    }
-    
-    await prisma.lexical_unit_relations.delete({
-      where: {
-        source_id_type_target_id: {
-          source_id: sourceUnit.id,
-          target_id: targetUnit.id,
-          type: body.type
-        }
-      }
-    })
-    
-    return NextResponse.json({ success: true }, {
-      headers: {
-        'Cache-Control': 'no-store, no-cache, must-revalidate',
-        'Pragma': 'no-cache',
-      },
-    })
+
+    const result = await withCommitPolicies(await stageLexicalUnitRelationDelete(
+      { sourceCode: body.sourceId, targetCode: body.targetId, type: body.type },
+      userName
+    ))
+
+    return NextResponse.json(result, { headers: NO_STORE_HEADERS })
   } catch (error) {
-    console.error('Delete relation error:', error)
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    return errorResponse(error, 'DELETE')
   }
 }
@@ -0,0 +1,56 @@
+/**
+ * API Route: /api/search/hybrid
+ *
+ * GET ?q=&types=&limit=&mode=&pos=&archetype=&subtype=&flagged=&domain=
+ *
+ * Full-text plus vector search over concepts, lexical units, senses,
+ * referents and claims, fused with reciprocal-rank fusion. Returns the
+ * grouped results with highlighted snippets, the facet counts over the
+ * candidate pool, and whether the vector ranking ran.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { SearchEntityType } from '@/lib/types';
+import {
+  HybridSearchError,
+  SEARCH_ENTITY_TYPES,
+  hybridSearch,
+  parseSearchFilters,
+} from '@/lib/search/hybrid';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const query = (searchParams.get('q') || '').trim();
+    const { mode, filters } = parseSearchFilters(searchParams);
+
+    const typesParam = (searchParams.get('types') || '').split(',').map((t) => t.trim()).filter(Boolean);
+    const invalid = typesParam.find((t) => !SEARCH_ENTITY_TYPES.includes(t as SearchEntityType));
+    if (invalid) {
+      return NextResponse.json({ error: `Invalid type: ${invalid}` }, { status: 400 });
+    }
+
+    const limitParam = parseInt(searchParams.get('limit') || '', 10);
+    const limit = Number.isFinite(limitParam) && limitParam > 0
+      ? Math.min(limitParam, MAX_LIMIT)
+      : DEFAULT_LIMIT;
+
+    return NextResponse.json(await hybridSearch(query, {
+      types: typesParam.length > 0 ? typesParam as SearchEntityType[] : undefined,
+      limit,
+      mode,
+      filters,
+    }));
+  } catch (error) {
+    if (error instanceof HybridSearchError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('[API] GET /api/search/hybrid:', error);
+    return NextResponse.json({ error: 'Failed to search' }, { status: 500 });
+  }
+}
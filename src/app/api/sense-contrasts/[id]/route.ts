@@ -0,0 +1,65 @@
+/**
+ * API Route: /api/sense-contrasts/[id]
+ *
+ * PATCH  - Stage a new contrast_text. Body: { contrast_text }.
+ * DELETE - Stage removal of the contrast.
+ *
+ * Both go through review as `sense_contrast` changesets.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  SenseContrastError,
+  stageSenseContrastDelete,
+  stageSenseContrastUpdate,
+  withCommitPolicies,
+} from '@/lib/version-control';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+function parseContrastId(raw: string): number | null {
+  return /^\d+$/.test(raw) ? Number(raw) : null;
+}
+
+function errorResponse(error: unknown, method: string): NextResponse {
+  if (error instanceof PermissionError || error instanceof SenseContrastError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  console.error(`[API] ${method} /api/sense-contrasts/[id]:`, error);
+  return NextResponse.json({ error: 'Failed to stage sense contrast change' }, { status: 500 });
+}
+
+export async function PATCH(request: NextRequest, context: Context) {
+  try {
+    const { userName } = await requirePermission('stage_changes');
+    const id = parseContrastId((await context.params).id);
+    if (id === null) return NextResponse.json({ error: 'Invalid contrast id' }, { status: 400 });
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body?.contrast_text !== 'string') {
+      return NextResponse.json({ error: 'contrast_text must be a string' }, { status: 400 });
+    }
+    return NextResponse.json(
+      await withCommitPolicies(await stageSenseContrastUpdate(id, body.contrast_text, userName)),
+    );
+  } catch (error) {
+    return errorResponse(error, 'PATCH');
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: Context) {
+  try {
+    const { userName } = await requirePermission('stage_changes');
+    const id = parseContrastId((await context.params).id);
+    if (id === null) return NextResponse.json({ error: 'Invalid contrast id' }, { status: 400 });
+
+    return NextResponse.json(await withCommitPolicies(await stageSenseContrastDelete(id, userName)));
+  } catch (error) {
+    return errorResponse(error, 'DELETE');
+  }
+}
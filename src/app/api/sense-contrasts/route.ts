@@ -0,0 +1,46 @@
+/**
+ * API Route: /api/sense-contrasts
+ *
+ * POST - Stage a new contrast between two senses sharing a lemma. Body:
+ *        { sense_id, contrasted_sense_id, contrast_text }. Either order is
+ *        accepted; the row is stored lower sense id first. Re-posting a
+ *        pair that already has a staged create returns that changeset.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SenseContrastError, stageSenseContrastCreate, withCommitPolicies } from '@/lib/version-control';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+function parseSenseId(raw: unknown): number | null {
+  const n = Number(raw);
+  return raw != null && raw !== '' && Number.isInteger(n) && n > 0 ? n : null;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userName } = await requirePermission('stage_changes');
+    const body = await request.json().catch(() => ({}));
+    const senseId = parseSenseId(body?.sense_id);
+    const contrastedSenseId = parseSenseId(body?.contrasted_sense_id);
+    if (senseId === null || contrastedSenseId === null) {
+      return NextResponse.json({ error: 'sense_id and contrasted_sense_id are required' }, { status: 400 });
+    }
+    if (typeof body.contrast_text !== 'string') {
+      return NextResponse.json({ error: 'contrast_text must be a string' }, { status: 400 });
+    }
+
+    const result = await withCommitPolicies(await stageSenseContrastCreate(
+      { senseId, contrastedSenseId, contrastText: body.contrast_text },
+      userName,
+    ));
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof PermissionError || error instanceof SenseContrastError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] POST /api/sense-contrasts:', error);
+    return NextResponse.json({ error: 'Failed to stage sense contrast' }, { status: 500 });
+  }
+}
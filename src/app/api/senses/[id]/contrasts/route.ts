@@ -0,0 +1,33 @@
+/**
+ * API Route: /api/senses/[id]/contrasts
+ *
+ * GET - For each lemma of the sense that has other senses (same part of
+ *       speech), the sibling senses and the contrasts between them, with
+ *       staged edits in `pending`. Returns { groups: LemmaContrastGroup[] }.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSenseContrastsForSense } from '@/lib/sense-contrasts';
+import { SenseContrastError } from '@/lib/version-control';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ error: 'Invalid sense id' }, { status: 400 });
+    }
+    const groups = await getSenseContrastsForSense(Number(id));
+    return NextResponse.json({ groups });
+  } catch (error) {
+    if (error instanceof SenseContrastError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] GET /api/senses/[id]/contrasts:', error);
+    return NextResponse.json({ error: 'Failed to load sense contrasts' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * API Route: /api/snapshots/[id]
+ *
+ * GET    - One snapshot, by id or name (signed-in users)
+ * DELETE - Remove the tag (admin). History is untouched, so a snapshot
+ *          with the same name can be tagged again later, at a new point.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSnapshot, getSnapshotRow, serializeSnapshot } from '@/lib/snapshots/store';
+import { SnapshotError } from '@/lib/snapshots/types';
+import { PermissionError, requirePermission, requireSignedIn } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof PermissionError || error instanceof SnapshotError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  console.error(`[API] Error ${action} snapshot:`, error);
+  return NextResponse.json({ error: `Failed to ${action === 'loading' ? 'load' : 'delete'} snapshot` }, { status: 500 });
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    await requireSignedIn();
+    const { id } = await params;
+    return NextResponse.json(serializeSnapshot(await getSnapshotRow(id)));
+  } catch (error) {
+    return errorResponse(error, 'loading');
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    await requirePermission('manage_releases');
+    const { id } = await params;
+    await deleteSnapshot(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'deleting');
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * API Route: /api/snapshots/[id]/tables/[table]
+ *
+ * GET - One table of a snapshot as JSONL, in primary-key order
+ *       (signed-in users). This is the same file `npm run
+ *       snapshots:export` writes into the bundle; the script also writes
+ *       the manifest with checksums.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { streamSnapshotTable } from '@/lib/snapshots/bundle';
+import { findSnapshotTable, SNAPSHOT_TABLES } from '@/lib/snapshots/state';
+import { getSnapshotRow } from '@/lib/snapshots/store';
+import { SnapshotError } from '@/lib/snapshots/types';
+import { PermissionError, requireSignedIn } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+// Large tables stream for a while.
+export const maxDuration = 300;
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; table: string }> },
+) {
+  const { id, table: tableName } = await params;
+  let lines: AsyncGenerator<string>;
+  let snapshotName: string;
+  try {
+    await requireSignedIn();
+    const table = findSnapshotTable(tableName);
+    if (!table) {
+      return NextResponse.json(
+        { error: `table must be one of ${SNAPSHOT_TABLES.map((t) => t.name).join(', ')}` },
+        { status: 400 },
+      );
+    }
+    const snapshot = await getSnapshotRow(id);
+    snapshotName = snapshot.name;
+    lines = streamSnapshotTable(snapshot, table);
+  } catch (error) {
+    if (error instanceof PermissionError || error instanceof SnapshotError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] Error loading snapshot table:', error);
+    return NextResponse.json({ error: 'Failed to export snapshot table' }, { status: 500 });
+  }
+
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await lines.next();
+        if (done) controller.close();
+        else controller.enqueue(encoder.encode(value));
+      } catch (error) {
+        console.error('[API] GET /api/snapshots/[id]/tables/[table]:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await lines.return(undefined);
+    },
+  });
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${snapshotName}-${tableName}.jsonl"`,
+    },
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * API Route: /api/snapshots/diff
+ *
+ * GET - What changed between two snapshots (signed-in users).
+ *       Query: from, to (snapshot ids or names, either order).
+ *
+ * Returns concepts added / removed / relabelled, reparentings, lexical
+ * unit moves between senses, sense changes and per-table change counts,
+ * always from the older snapshot to the newer one.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { diffSnapshots } from '@/lib/snapshots/diff';
+import { getSnapshotRow } from '@/lib/snapshots/store';
+import { SnapshotError } from '@/lib/snapshots/types';
+import { PermissionError, requireSignedIn } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireSignedIn();
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    if (!from || !to) {
+      return NextResponse.json({ error: 'from and to are required' }, { status: 400 });
+    }
+    const [a, b] = await Promise.all([getSnapshotRow(from), getSnapshotRow(to)]);
+    return NextResponse.json(await diffSnapshots(a, b));
+  } catch (error) {
+    if (error instanceof PermissionError || error instanceof SnapshotError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] Error diffing snapshots:', error);
+    return NextResponse.json({ error: 'Failed to diff snapshots' }, { status: 500 });
+  }
+}
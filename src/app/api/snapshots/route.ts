@@ -0,0 +1,46 @@
+/**
+ * API Route: /api/snapshots
+ *
+ * GET  - Dataset snapshots (release tags), newest first (signed-in users)
+ * POST - Tag the current committed state (admin). Body: { name,
+ *        description? }. The snapshot records the entity_row_history and
+ *        audit_log watermarks; see src/lib/snapshots.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createSnapshot, listSnapshots, parseSnapshotInput } from '@/lib/snapshots/store';
+import { SnapshotError } from '@/lib/snapshots/types';
+import { PermissionError, requirePermission, requireSignedIn } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof PermissionError || error instanceof SnapshotError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  console.error(`[API] Error ${action} snapshots:`, error);
+  return NextResponse.json({ error: `Failed to ${action === 'loading' ? 'load snapshots' : 'create snapshot'}` }, { status: 500 });
+}
+
+export async function GET() {
+  try {
+    await requireSignedIn();
+    return NextResponse.json({ snapshots: await listSnapshots() });
+  } catch (error) {
+    return errorResponse(error, 'loading');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userName } = await requirePermission('manage_releases');
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 });
+    }
+    const snapshot = await createSnapshot(parseSnapshotInput(body), userName);
+    return NextResponse.json(snapshot, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'creating');
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * API Route: /api/users/me
+ *
+ * GET - The signed-in user's name, role and the permissions it grants
+ */
+
+import { NextResponse } from 'next/server';
+import { getCurrentUserRole, serializeCurrentUserRole } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const current = await getCurrentUserRole();
+    return NextResponse.json(serializeCurrentUserRole(current), {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('[API] Error resolving current user role:', error);
+    return NextResponse.json({ error: 'Failed to resolve current user' }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * API Route: /api/users/roles
+ *
+ * GET    - List explicit role grants (users without one get DEFAULT_USER_ROLE)
+ * PUT    - Grant a role: { user_name, role }
+ * DELETE - Revoke a grant: ?user_name=…
+ *
+ * All methods require the admin role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { isUserRole, USER_ROLES } from '@/lib/users/permissions';
+import { defaultUserRole, PermissionError, requirePermission } from '@/lib/users/roles';
+
+type UserRoleRow = {
+  user_name: string;
+  role: string;
+  granted_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+function serialize(r: UserRoleRow) {
+  return {
+    user_name: r.user_name,
+    role: r.role,
+    granted_by: r.granted_by,
+    created_at: r.created_at.toISOString(),
+    updated_at: r.updated_at.toISOString(),
+  };
+}
+
+function permissionErrorResponse(error: unknown): NextResponse | null {
+  if (error instanceof PermissionError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  return null;
+}
+
+export async function GET() {
+  try {
+    await requirePermission('manage_roles');
+    const rows = await prisma.user_roles.findMany({ orderBy: { user_name: 'asc' } });
+    return NextResponse.json({
+      data: rows.map(serialize),
+      default_role: defaultUserRole(),
+    });
+  } catch (error) {
+    const denied = permissionErrorResponse(error);
+    if (denied) return denied;
+    console.error('[API] Error listing user roles:', error);
+    return NextResponse.json({ error: 'Failed to list user roles' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { userName } = await requirePermission('manage_roles');
+    const body = await request.json();
+
+    const targetUser = typeof body?.user_name === 'string' ? body.user_name.trim() : '';
+    if (!targetUser) {
+      return NextResponse.json({ error: 'user_name is required' }, { status: 400 });
+    }
+    if (!isUserRole(body?.role)) {
+      return NextResponse.json(
+        { error: `role must be one of: ${USER_ROLES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    if (targetUser === userName && body.role !== 'admin') {
+      return NextResponse.json({ error: 'Admins cannot demote themselves' }, { status: 400 });
+    }
+
+    const row = await prisma.user_roles.upsert({
+      where: { user_name: targetUser },
+      create: { user_name: targetUser, role: body.role, granted_by: userName },
+      update: { role: body.role, granted_by: userName, updated_at: new Date() },
+    });
+    return NextResponse.json(serialize(row));
+  } catch (error) {
+    const denied = permissionErrorResponse(error);
+    if (denied) return denied;
+    console.error('[API] Error granting user role:', error);
+    return NextResponse.json({ error: 'Failed to grant user role' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userName } = await requirePermission('manage_roles');
+    const targetUser = request.nextUrl.searchParams.get('user_name')?.trim();
+    if (!targetUser) {
+      return NextResponse.json({ error: 'user_name is required' }, { status: 400 });
+    }
+    if (targetUser === userName) {
+      return NextResponse.json({ error: 'Admins cannot revoke their own role' }, { status: 400 });
+    }
+
+    const { count } = await prisma.user_roles.deleteMany({ where: { user_name: targetUser } });
+    if (count === 0) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const denied = permissionErrorResponse(error);
+    if (denied) return denied;
+    console.error('[API] Error revoking user role:', error);
+    return NextResponse.json({ error: 'Failed to revoke user role' }, { status: 500 });
+  }
+}
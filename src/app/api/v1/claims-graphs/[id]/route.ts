@@ -0,0 +1,22 @@
+/**
+ * API Route: /api/v1/claims-graphs/[id]
+ *
+ * GET - A whole claims graph: instances with fillers and mentions,
+ *       plus the concepts, referents and sources they reference
+ *
+ * Authenticated by API key; see src/lib/public-api.
+ */
+
+import { NextRequest } from 'next/server';
+import { handlePublicApiRequest } from '@/lib/public-api/handler';
+import { getClaimsGraph } from '@/lib/public-api/resources';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  return handlePublicApiRequest(request, () => getClaimsGraph(id));
+}
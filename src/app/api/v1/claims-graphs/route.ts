@@ -0,0 +1,17 @@
+/**
+ * API Route: /api/v1/claims-graphs
+ *
+ * GET - Claims graphs, paged by id. Query: limit, cursor
+ *
+ * Authenticated by API key; see src/lib/public-api.
+ */
+
+import { NextRequest } from 'next/server';
+import { handlePublicApiRequest } from '@/lib/public-api/handler';
+import { listClaimsGraphs } from '@/lib/public-api/resources';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handlePublicApiRequest(request, (searchParams) => listClaimsGraphs(searchParams));
+}
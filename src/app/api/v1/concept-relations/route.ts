@@ -0,0 +1,18 @@
+/**
+ * API Route: /api/v1/concept-relations
+ *
+ * GET - The parent_of DAG as edges, paged by id. Query: limit, cursor,
+ *       parent_id, child_id, include_deleted
+ *
+ * Authenticated by API key; see src/lib/public-api.
+ */
+
+import { NextRequest } from 'next/server';
+import { handlePublicApiRequest } from '@/lib/public-api/handler';
+import { listConceptRelations } from '@/lib/public-api/resources';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handlePublicApiRequest(request, (searchParams) => listConceptRelations(searchParams));
+}
@@ -0,0 +1,22 @@
+/**
+ * API Route: /api/v1/concepts/[id]/properties
+ *
+ * GET - A concept's properties, paged by id. Query: limit, cursor,
+ *       updated_since
+ *
+ * Authenticated by API key; see src/lib/public-api.
+ */
+
+import { NextRequest } from 'next/server';
+import { handlePublicApiRequest } from '@/lib/public-api/handler';
+import { listProperties } from '@/lib/public-api/resources';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  return handlePublicApiRequest(request, (searchParams) => listProperties(searchParams, id));
+}
@@ -0,0 +1,21 @@
+/**
+ * API Route: /api/v1/concepts/[id]
+ *
+ * GET - One concept with its direct parent_of parents and children
+ *
+ * Authenticated by API key; see src/lib/public-api.
+ */
+
+import { NextRequest } from 'next/server';
+import { handlePublicApiRequest } from '@/lib/public-api/handler';
+import { getConcept } from '@/lib/public-api/resources';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  return handlePublicApiRequest(request, () => getConcept(id));
+}
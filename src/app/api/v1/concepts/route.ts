@@ -0,0 +1,19 @@
+/**
+ * API Route: /api/v1/concepts
+ *
+ * GET - Concepts, paged by id. Query: limit, cursor, code,
+ *       updated_since, include_deleted (deleted and merged concepts are
+ *       left out by default)
+ *
+ * Authenticated by API key; see src/lib/public-api.
+ */
+
+import { NextRequest } from 'next/server';
+import { handlePublicApiRequest } from '@/lib/public-api/handler';
+import { listConcepts } from '@/lib/public-api/resources';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handlePublicApiRequest(request, (searchParams) => listConcepts(searchParams));
+}
@@ -0,0 +1,18 @@
+/**
+ * API Route: /api/v1/lexical-unit-relations
+ *
+ * GET - Relations between lexical units, paged by id. Query: limit,
+ *       cursor, type, source_id, target_id
+ *
+ * Authenticated by API key; see src/lib/public-api.
+ */
+
+import { NextRequest } from 'next/server';
+import { handlePublicApiRequest } from '@/lib/public-api/handler';
+import { listLexicalUnitRelations } from '@/lib/public-api/resources';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handlePublicApiRequest(request, (searchParams) => listLexicalUnitRelations(searchParams));
+}
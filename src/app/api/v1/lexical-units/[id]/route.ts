@@ -0,0 +1,21 @@
+/**
+ * API Route: /api/v1/lexical-units/[id]
+ *
+ * GET - One lexical unit
+ *
+ * Authenticated by API key; see src/lib/public-api.
+ */
+
+import { NextRequest } from 'next/server';
+import { handlePublicApiRequest } from '@/lib/public-api/handler';
+import { getLexicalUnit } from '@/lib/public-api/resources';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  return handlePublicApiRequest(request, () => getLexicalUnit(id));
+}
@@ -0,0 +1,18 @@
+/**
+ * API Route: /api/v1/lexical-units
+ *
+ * GET - Lexical units, paged by id. Query: limit, cursor, pos, lemma,
+ *       updated_since, include_deleted
+ *
+ * Authenticated by API key; see src/lib/public-api.
+ */
+
+import { NextRequest } from 'next/server';
+import { handlePublicApiRequest } from '@/lib/public-api/handler';
+import { listLexicalUnits } from '@/lib/public-api/resources';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handlePublicApiRequest(request, (searchParams) => listLexicalUnits(searchParams));
+}
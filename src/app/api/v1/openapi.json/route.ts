@@ -0,0 +1,15 @@
+/**
+ * API Route: /api/v1/openapi.json
+ *
+ * GET - OpenAPI 3.1 description of the /api/v1 read API. Public, so
+ *       client generators can fetch it without a key.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/public-api/openapi';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(`${request.nextUrl.origin}/api/v1`));
+}
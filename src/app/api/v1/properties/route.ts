@@ -0,0 +1,18 @@
+/**
+ * API Route: /api/v1/properties
+ *
+ * GET - Properties, paged by id. Query: limit, cursor, concept_id,
+ *       updated_since
+ *
+ * Authenticated by API key; see src/lib/public-api.
+ */
+
+import { NextRequest } from 'next/server';
+import { handlePublicApiRequest } from '@/lib/public-api/handler';
+import { listProperties } from '@/lib/public-api/resources';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handlePublicApiRequest(request, (searchParams) => listProperties(searchParams));
+}
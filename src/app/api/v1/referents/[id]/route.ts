@@ -0,0 +1,21 @@
+/**
+ * API Route: /api/v1/referents/[id]
+ *
+ * GET - One referent with aliases and external ids
+ *
+ * Authenticated by API key; see src/lib/public-api.
+ */
+
+import { NextRequest } from 'next/server';
+import { handlePublicApiRequest } from '@/lib/public-api/handler';
+import { getReferent } from '@/lib/public-api/resources';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  return handlePublicApiRequest(request, () => getReferent(id));
+}
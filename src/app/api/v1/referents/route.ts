@@ -0,0 +1,18 @@
+/**
+ * API Route: /api/v1/referents
+ *
+ * GET - Referents, paged by id. Query: limit, cursor, type_concept_id,
+ *       knowledge_graph_id, updated_since, include_merged
+ *
+ * Authenticated by API key; see src/lib/public-api.
+ */
+
+import { NextRequest } from 'next/server';
+import { handlePublicApiRequest } from '@/lib/public-api/handler';
+import { listReferents } from '@/lib/public-api/resources';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handlePublicApiRequest(request, (searchParams) => listReferents(searchParams));
+}
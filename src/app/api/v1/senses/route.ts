@@ -0,0 +1,18 @@
+/**
+ * API Route: /api/v1/senses
+ *
+ * GET - Senses, paged by id. Query: limit, cursor, pos, concept_id,
+ *       lexical_unit_id
+ *
+ * Authenticated by API key; see src/lib/public-api.
+ */
+
+import { NextRequest } from 'next/server';
+import { handlePublicApiRequest } from '@/lib/public-api/handler';
+import { listSenses } from '@/lib/public-api/resources';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handlePublicApiRequest(request, (searchParams) => listSenses(searchParams));
+}
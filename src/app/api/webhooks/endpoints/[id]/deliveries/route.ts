@@ -0,0 +1,51 @@
+/**
+ * API Route: /api/webhooks/endpoints/[id]/deliveries
+ *
+ * GET - Delivery log for one endpoint, newest first (admin).
+ *       Query: status (pending | succeeded | failed), limit (max 200),
+ *       before (delivery id, for paging)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listWebhookDeliveries } from '@/lib/events/webhooks';
+import { WebhookError } from '@/lib/events/validation';
+import type { WebhookDeliveryStatus } from '@/lib/events/types';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+const STATUSES: readonly WebhookDeliveryStatus[] = ['pending', 'succeeded', 'failed'];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    await requirePermission('manage_webhooks');
+    const { id } = await params;
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ error: 'Invalid endpoint id' }, { status: 400 });
+    }
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    if (status && !(STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json({ error: 'status must be pending, succeeded or failed' }, { status: 400 });
+    }
+    const before = searchParams.get('before');
+    if (before && !/^\d+$/.test(before)) {
+      return NextResponse.json({ error: 'before must be a delivery id' }, { status: 400 });
+    }
+    const deliveries = await listWebhookDeliveries(BigInt(id), {
+      status: (status as WebhookDeliveryStatus | null) ?? undefined,
+      limit: Number(searchParams.get('limit')) || 50,
+      beforeId: before ? BigInt(before) : undefined,
+    });
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    if (error instanceof PermissionError || error instanceof WebhookError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] Error loading webhook deliveries:', error);
+    return NextResponse.json({ error: 'Failed to load webhook deliveries' }, { status: 500 });
+  }
+}
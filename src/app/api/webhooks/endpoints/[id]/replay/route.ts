@@ -0,0 +1,42 @@
+/**
+ * API Route: /api/webhooks/endpoints/[id]/replay
+ *
+ * POST - Queue events for re-delivery to one endpoint (admin).
+ *        Body: { event_ids?: string[], since?: ISO, until?: ISO,
+ *                status?: 'pending' | 'succeeded' | 'failed' }
+ *        e.g. { status: 'failed' } re-sends everything that gave up, and
+ *        { since } back-fills an endpoint registered after the fact.
+ *        Deliveries go out on the next `webhooks:deliver` run.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { replayWebhookDeliveries } from '@/lib/events/webhooks';
+import { parseReplayInput, WebhookError } from '@/lib/events/validation';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    await requirePermission('manage_webhooks');
+    const { id } = await params;
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ error: 'Invalid endpoint id' }, { status: 400 });
+    }
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 });
+    }
+    const queued = await replayWebhookDeliveries(BigInt(id), parseReplayInput(body));
+    return NextResponse.json({ queued });
+  } catch (error) {
+    if (error instanceof PermissionError || error instanceof WebhookError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[API] Error replaying webhook deliveries:', error);
+    return NextResponse.json({ error: 'Failed to replay webhook deliveries' }, { status: 500 });
+  }
+}
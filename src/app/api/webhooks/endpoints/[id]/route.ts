@@ -0,0 +1,68 @@
+/**
+ * API Route: /api/webhooks/endpoints/[id]
+ *
+ * PATCH  - Update an endpoint (admin); only the fields present are
+ *          changed. { rotate_secret: true } issues a new signing secret
+ *          and returns it once.
+ * DELETE - Remove an endpoint and its delivery log (admin)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteWebhookEndpoint, updateWebhookEndpoint } from '@/lib/events/webhooks';
+import { parseWebhookEndpointInput, WebhookError } from '@/lib/events/validation';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof PermissionError || error instanceof WebhookError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  console.error(`[API] Error ${action} webhook endpoint:`, error);
+  return NextResponse.json({ error: `Failed to ${action === 'updating' ? 'update' : 'delete'} webhook endpoint` }, { status: 500 });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    await requirePermission('manage_webhooks');
+    const { id } = await params;
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ error: 'Invalid endpoint id' }, { status: 400 });
+    }
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 });
+    }
+    if (body.rotate_secret !== undefined && typeof body.rotate_secret !== 'boolean') {
+      return NextResponse.json({ error: 'rotate_secret must be a boolean' }, { status: 400 });
+    }
+    const endpoint = await updateWebhookEndpoint(
+      BigInt(id),
+      parseWebhookEndpointInput(body, { partial: true }),
+      { rotateSecret: body.rotate_secret === true },
+    );
+    return NextResponse.json(endpoint);
+  } catch (error) {
+    return errorResponse(error, 'updating');
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    await requirePermission('manage_webhooks');
+    const { id } = await params;
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ error: 'Invalid endpoint id' }, { status: 400 });
+    }
+    await deleteWebhookEndpoint(BigInt(id));
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'deleting');
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * API Route: /api/webhooks/endpoints
+ *
+ * GET  - Registered webhook endpoints (admin); secrets are omitted
+ * POST - Register an endpoint (admin). Body: { url, description?,
+ *        event_types?, enabled? }. The response includes the signing
+ *        secret; it is not shown again.
+ *
+ * event_types lists exact types (e.g. changeset.committed) or "<prefix>.*"
+ * wildcards; empty means every event.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createWebhookEndpoint, listWebhookEndpoints } from '@/lib/events/webhooks';
+import { parseWebhookEndpointInput, WebhookError } from '@/lib/events/validation';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof PermissionError || error instanceof WebhookError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  console.error(`[API] Error ${action} webhook endpoints:`, error);
+  return NextResponse.json({ error: `Failed to ${action === 'loading' ? 'load' : 'create'} webhook endpoint` }, { status: 500 });
+}
+
+export async function GET() {
+  try {
+    await requirePermission('manage_webhooks');
+    return NextResponse.json({ endpoints: await listWebhookEndpoints() });
+  } catch (error) {
+    return errorResponse(error, 'loading');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userName } = await requirePermission('manage_webhooks');
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 });
+    }
+    const endpoint = await createWebhookEndpoint(parseWebhookEndpointInput(body), userName);
+    return NextResponse.json(endpoint, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'creating');
+  }
+}
@@ -8,11 +8,15 @@ import ChatButton from '@/components/ChatButton';
 import PendingChangesButton from '@/components/PendingChangesButton';
 import SourceListPanel from '@/components/claims/SourceListPanel';
 import SourceDetailPane from '@/components/claims/SourceDetailPane';
+import UploadSourceModal from '@/components/claims/UploadSourceModal';
+import { ArrowUpTrayIcon } from '@heroicons/react/24/outline';
 
 function ClaimsSourcesContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [selectedId, setSelectedId] = useState<string | null>(() => searchParams.get('source'));
+  const [uploadOpen, setUploadOpen] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
 
   useEffect(() => {
     setSelectedId(searchParams.get('source'));
@@ -77,6 +81,14 @@ function ClaimsSourcesContent() {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setUploadOpen(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-gray-300 text-sm text-gray-700 bg-white hover:bg-gray-50 cursor-pointer"
+            >
+              <ArrowUpTrayIcon className="w-4 h-4" />
+              Add source
+            </button>
             <PendingChangesButton />
             <ChatButton />
             <SignOutButton />
@@ -85,9 +97,18 @@ function ClaimsSourcesContent() {
       </header>
 
       <div className="flex-1 flex min-h-0">
-        <SourceListPanel selected={selectedId} onSelect={selectSource} />
+        <SourceListPanel selected={selectedId} onSelect={selectSource} refreshKey={refreshKey} />
         <SourceDetailPane sourceId={selectedId} />
       </div>
+
+      <UploadSourceModal
+        isOpen={uploadOpen}
+        onClose={() => setUploadOpen(false)}
+        onUploaded={(result) => {
+          setRefreshKey((k) => k + 1);
+          selectSource(result.sourceTextId);
+        }}
+      />
     </div>
   );
 }
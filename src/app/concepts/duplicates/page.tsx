@@ -0,0 +1,90 @@
+'use client';
+
+import { Suspense } from 'react';
+import { useRouter } from 'next/navigation';
+import SearchBox from '@/components/SearchBox';
+import ViewToggle, { ViewMode } from '@/components/ViewToggle';
+import PendingChangesButton from '@/components/PendingChangesButton';
+import SignOutButton from '@/components/SignOutButton';
+import ChatButton from '@/components/ChatButton';
+import NotificationsButton from '@/components/notifications/NotificationsButton';
+import { SearchResult } from '@/lib/types';
+import DuplicateReviewPanel from '@/components/duplicates/DuplicateReviewPanel';
+import LoadingSpinner from '@/components/LoadingSpinner';
+
+function DuplicatesContent() {
+  const router = useRouter();
+
+  const handleSearchResult = (result: SearchResult) => {
+    // Navigate to the graph mode with this concept
+    router.push(`/graph/concepts?entry=${result.id}`);
+  };
+
+  return (
+    <div className="h-screen-zoomed flex flex-col bg-white">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <button
+              onClick={() => router.push('/')}
+              className="text-xl font-bold text-gray-900 hover:text-gray-700 cursor-pointer"
+            >
+              Source Console
+            </button>
+          </div>
+          
+          <div className="flex items-center gap-4 flex-1 justify-end">
+            <div className="flex-1 max-w-2xl">
+              <SearchBox 
+                onSelectResult={handleSearchResult}
+                onSearchChange={() => {}}
+                placeholder="Search concepts..."
+                mode="concepts"
+              />
+            </div>
+            <ViewToggle 
+              currentView="table"
+              grayscale={true}
+              onViewChange={(view: ViewMode) => {
+                if (view === 'graph') {
+                  router.push('/graph/concepts?view=graph');
+                } else if (view === 'table') {
+                  router.push('/table/concepts');
+                }
+              }}
+            />
+            <PendingChangesButton />
+            <NotificationsButton />
+            <ChatButton />
+            <SignOutButton />
+          </div>
+
+        </div>
+      </header>
+
+      {/* Main Content - Full width */}
+      <main className="flex-1 min-h-0 flex flex-col overflow-hidden bg-white">
+        <div className="w-full px-6 py-8 flex-1 min-h-0 flex flex-col">
+          <div className="mb-4">
+            <h1 className="text-2xl font-bold text-gray-900">Near-duplicates</h1>
+            <p className="text-sm text-gray-600">
+              Concept and sense pairs that look like the same thing. Stage a merge to send a pair to Pending Changes, or mark it as not a duplicate.
+            </p>
+          </div>
+          <div className="flex-1 min-h-0 bg-white rounded-xl border border-gray-200 overflow-hidden">
+            <DuplicateReviewPanel />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default function DuplicatesPage() {
+  return (
+    <Suspense fallback={<LoadingSpinner fullPage />}>
+      <DuplicatesContent />
+    </Suspense>
+  );
+}
@@ -7,6 +7,7 @@ import ViewToggle, { ViewMode } from '@/components/ViewToggle';
 import PendingChangesButton from '@/components/PendingChangesButton';
 import SignOutButton from '@/components/SignOutButton';
 import ChatButton from '@/components/ChatButton';
+import NotificationsButton from '@/components/notifications/NotificationsButton';
 import { SearchResult } from '@/lib/types';
 import PendingChangesList from '@/components/PendingChangesList';
 import LoadingSpinner from '@/components/LoadingSpinner';
@@ -54,6 +55,7 @@ function PendingChangesContent() {
               }}
             />
             <PendingChangesButton />
+            <NotificationsButton />
             <ChatButton />
             <SignOutButton />
           </div>
@@ -34,6 +34,13 @@ function ConceptsTableModeContent() {
       >
         Concepts
       </button>
+      <button
+        type="button"
+        onClick={() => router.push('/concepts/duplicates')}
+        className="px-4 py-2 text-base font-medium transition-colors relative cursor-pointer text-gray-600 hover:text-gray-900 hover:bg-gray-50"
+      >
+        Duplicates
+      </button>
       <button
         type="button"
         onClick={() => router.push('/table/referents')}
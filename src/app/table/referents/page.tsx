@@ -4,11 +4,17 @@ import { Suspense, useEffect, useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { TablePageLayout } from '@/components/TablePageLayout';
 import DataTable from '@/components/DataTable';
+import ReferentResolutionPanel from '@/components/referents/ReferentResolutionPanel';
+
+type ReferentsView = 'table' | 'resolve';
 
 function ReferentsTableContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [searchQuery, setSearchQuery] = useState<string>('');
+  const [view, setView] = useState<ReferentsView>(
+    searchParams?.get('view') === 'resolve' ? 'resolve' : 'table',
+  );
 
   useEffect(() => {
     const search = searchParams?.get('search');
@@ -65,9 +71,34 @@ function ReferentsTableContent() {
       searchPlaceholder="Search referents..."
     >
       <div className="mt-2 mx-6 mb-6 bg-white rounded-xl border border-gray-200 overflow-hidden flex-1 min-h-0 flex flex-col">
-        <Suspense fallback={<div className="p-8 text-center text-gray-500">Loading referents...</div>}>
-          <DataTable searchQuery={searchQuery} mode="referents" refreshTrigger={0} />
-        </Suspense>
+        <div className="flex border-b border-gray-200 px-4 shrink-0">
+          {([
+            ['table', 'All referents'],
+            ['resolve', 'Resolve duplicates'],
+          ] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setView(value)}
+              className={`px-3 py-2 text-sm border-b-2 -mb-px ${
+                view === value
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {view === 'table' ? (
+          <Suspense fallback={<div className="p-8 text-center text-gray-500">Loading referents...</div>}>
+            <DataTable searchQuery={searchQuery} mode="referents" refreshTrigger={0} />
+          </Suspense>
+        ) : (
+          <div className="flex-1 min-h-0">
+            <ReferentResolutionPanel />
+          </div>
+        )}
       </div>
     </TablePageLayout>
   );
@@ -33,8 +33,9 @@ export const JobDetails = memo(function JobDetails({
   cancelLoading
 }: { 
   job: SerializedJob; 
-  onCancel: (jobId: string) => void; 
-  onDelete: (jobId: string) => void; 
+  /** Omitted for users who can't manage LLM jobs; hides the button. */
+  onCancel?: (jobId: string) => void; 
+  onDelete?: (jobId: string) => void; 
   onClose: () => void;
   onCloneSettings: (job: SerializedJob) => void;
   submissionProgress: {
@@ -144,7 +145,7 @@ export const JobDetails = memo(function JobDetails({
                 View Flagged
             </button>
           )}
-            {isActive && (
+            {isActive && onCancel && (
             <button
               onClick={() => onCancel(job.id)}
               disabled={cancelLoading}
@@ -165,6 +166,7 @@ export const JobDetails = memo(function JobDetails({
               )}
             </button>
           )}
+          {onDelete && (
           <button
             onClick={() => onDelete(job.id)}
               className="inline-flex items-center gap-1.5 rounded-lg border border-red-200 bg-red-50 px-3 py-1.5 text-xs font-medium text-red-700 hover:bg-red-100 transition-colors"
@@ -174,6 +176,7 @@ export const JobDetails = memo(function JobDetails({
               </svg>
               Delete
           </button>
+          )}
         </div>
       </div>
 
@@ -15,6 +15,8 @@ export interface JobListProps {
   onSelectJob: (jobId: string) => void;
   onStartCreateFlow: () => void;
   isCreating: boolean;
+  /** False for viewers; the create button is disabled. */
+  canCreate?: boolean;
 }
 
 export const JobList = memo(function JobList({
@@ -25,6 +27,7 @@ export const JobList = memo(function JobList({
   onSelectJob,
   onStartCreateFlow,
   isCreating,
+  canCreate = true,
 }: JobListProps) {
   const [visibleCount, setVisibleCount] = useState(INITIAL_VISIBLE_COUNT);
   
@@ -44,7 +47,8 @@ export const JobList = memo(function JobList({
         </div>
         <button
           onClick={onStartCreateFlow}
-          disabled={isCreating}
+          disabled={isCreating || !canCreate}
+          title={canCreate ? undefined : 'Creating jobs requires the editor role'}
           className="cursor-pointer inline-flex items-center gap-1 rounded-xl bg-gradient-to-r from-blue-500 to-blue-600 px-3 py-1.5 text-sm font-semibold text-white transition-colors hover:brightness-110 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed disabled:opacity-60 disabled:pointer-events-none"
           type="button"
         >
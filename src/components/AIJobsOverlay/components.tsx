@@ -42,6 +42,10 @@ function formatScopeDescription(scope: JobScope | null, totalItems: number): str
     }
     case 'filters':
       return `Filtered ${scope.targetType}${scope.filters?.limit ? ` (limit: ${scope.filters.limit})` : ''}`;
+    case 'source_texts': {
+      const sourceCount = scope.sourceTextIds?.length ?? 0;
+      return `${sourceCount} source text${sourceCount === 1 ? '' : 's'} (${totalItems} chunks)`;
+    }
     default:
       return `${totalItems} items`;
   }
@@ -5,6 +5,7 @@ import { api } from '@/lib/api-client';
 import { showGlobalAlert } from '@/lib/alerts';
 import type { SerializedJob } from '@/lib/llm/types';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import { useCurrentUserRole } from '@/hooks/useCurrentUserRole';
 import { createClient } from '@/utils/supabase/client';
 
 import type { AIJobsOverlayProps } from './types';
@@ -38,6 +39,7 @@ export function AIJobsOverlay({
   
   const userEmail = userEmailProp ?? fetchedUserEmail;
   const [isSyncingFromProvider, setIsSyncingFromProvider] = useState(false);
+  const canRunJobs = useCurrentUserRole().can('run_llm_jobs');
 
   // Job polling hook - manages job list, selection, and polling
   const polling = useJobPolling({
@@ -265,6 +267,7 @@ export function AIJobsOverlay({
               onSelectJob={polling.setActiveJobId}
               onStartCreateFlow={creation.startCreateFlow}
               isCreating={creation.isCreating}
+              canCreate={canRunJobs}
             />
 
             <main className="relative flex flex-1 flex-col overflow-hidden bg-white">
@@ -274,8 +277,8 @@ export function AIJobsOverlay({
                 ) : polling.selectedJobDetails ? (
                   <JobDetails
                     job={polling.selectedJobDetails}
-                    onCancel={handleCancelJob}
-                    onDelete={handleDeleteJob}
+                    onCancel={canRunJobs ? handleCancelJob : undefined}
+                    onDelete={canRunJobs ? handleDeleteJob : undefined}
                     onClose={onClose}
                     onCloneSettings={creation.loadJobSettings}
                     submissionProgress={creation.submissionProgress}
@@ -5,6 +5,7 @@ import { usePathname } from 'next/navigation'
 import { createClient } from '@/utils/supabase/client'
 import type { User } from '@supabase/supabase-js'
 import ChatButton from '@/components/ChatButton'
+import NotificationsButton from '@/components/notifications/NotificationsButton'
 
 export default function AuthHeader() {
   const [user, setUser] = useState<User | null>(null)
@@ -59,6 +60,7 @@ export default function AuthHeader() {
 
   return (
     <div className="fixed top-6 right-6 z-50 flex items-center gap-2">
+      <NotificationsButton />
       <ChatButton />
       <button
         onClick={handleSignOut}
@@ -11,6 +11,8 @@ import ViewToggle, { ViewMode } from './ViewToggle';
 import PendingChangesButton from './PendingChangesButton';
 import SignOutButton from './SignOutButton';
 import ChatButton from './ChatButton';
+import NotificationsButton from '@/components/notifications/NotificationsButton';
+import WatchButton from '@/components/WatchButton';
 import { EditOverlay } from './editing/EditOverlay';
 import LoadingSpinner from './LoadingSpinner';
 import ConceptRootNodesView from './ConceptRootNodesView';
@@ -299,7 +301,9 @@ export default function ConceptExplorer({ initialConceptId }: ConceptExplorerPro
                 }
               }}
             />
+            {currentConcept && <WatchButton targetType="frame" targetId={currentConcept.id} />}
             <PendingChangesButton />
+            <NotificationsButton />
             <ChatButton />
             <SignOutButton />
           </div>
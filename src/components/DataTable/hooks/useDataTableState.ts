@@ -17,9 +17,20 @@ import {
   DEFAULT_COLUMN_WIDTHS,
 } from '../config';
 import { SortState } from '../types';
+import { useDomainEvents } from '@/hooks/useDomainEvents';
 
 type DataTableEntry = TableLexicalUnit | Concept | SenseTableRow;
 
+/** Changeset entity types whose commits change the rows of each table. */
+const LIVE_ENTITY_TYPES: Record<DataTableMode, readonly string[]> = {
+  concepts: ['frame', 'concept', 'frame_relation', 'concept_relation'],
+  lexical_units: ['lexical_unit', 'lexical_unit_relation', 'verb', 'noun', 'adjective', 'adverb'],
+  senses: ['sense', 'frame_sense', 'lexical_unit_sense', 'sense_concept', 'frame_sense_frame'],
+  referents: ['referent', 'instance'],
+};
+
+const LIVE_REFRESH_DEBOUNCE_MS = 1000;
+
 export interface UseDataTableStateOptions {
   mode: DataTableMode;
   searchQuery?: string;
@@ -432,9 +443,10 @@ export function useDataTableState({
     router.replace(newUrl, { scroll: false });
   }, [isInitialized, filters, columnVisibility, sortState, currentPage, pageSize, pathname, router, searchParams, mode]);
 
-  // Data fetching
-  const fetchData = useCallback(async () => {
-    setLoading(true);
+  // Data fetching. A silent fetch (live updates) keeps the current rows
+  // on screen instead of showing the loading state.
+  const loadData = useCallback(async (silent: boolean) => {
+    if (!silent) setLoading(true);
     setError(null);
 
     try {
@@ -474,15 +486,34 @@ export function useDataTableState({
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
-      setLoading(false);
+      if (!silent) setLoading(false);
     }
   }, [currentPage, pageSize, sortState, searchQuery, filters, apiPrefix, mode]);
 
+  const fetchData = useCallback(() => loadData(false), [loadData]);
+
   // Fetch data when dependencies change
   useEffect(() => {
     fetchData();
   }, [fetchData, refreshTrigger]);
 
+  // Live updates: refetch quietly when someone commits a change to the
+  // entities this table shows. Bursts (plan commits) collapse into one fetch.
+  const liveRefreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useDomainEvents(
+    () => {
+      if (liveRefreshTimerRef.current) clearTimeout(liveRefreshTimerRef.current);
+      liveRefreshTimerRef.current = setTimeout(() => {
+        liveRefreshTimerRef.current = null;
+        void loadData(true);
+      }, LIVE_REFRESH_DEBOUNCE_MS);
+    },
+    { types: ['changeset.committed'], entityTypes: LIVE_ENTITY_TYPES[mode], enabled: isInitialized },
+  );
+  useEffect(() => () => {
+    if (liveRefreshTimerRef.current) clearTimeout(liveRefreshTimerRef.current);
+  }, []);
+
   // Reset to first page when search query changes (but not on initial mount)
   const isFirstSearchQueryRef = useRef(true);
   useEffect(() => {
@@ -31,9 +31,11 @@ import { Modal, EmptyState, ConflictDialog } from './ui';
 import type { ConflictError } from './ui';
 import { useTableSelection } from '@/hooks/useTableSelection';
 import { refreshPendingChangesCount } from '@/hooks/usePendingChangesCount';
+import { useCurrentUserRole } from '@/hooks/useCurrentUserRole';
 import ContextSection from '@/components/pending/ContextSection';
 import LexicalUnitReallocationContext from '@/components/pending/context/LexicalUnitReallocationContext';
 import DAGMoveVisualization from '@/components/pending/context/DAGMoveVisualization';
+import ConceptMergePreview from '@/components/pending/context/ConceptMergePreview';
 import EntityHoverPopup from '@/components/pending/EntityHoverPopup';
 import ReferenceHoverPopup from '@/components/pending/ReferenceHoverPopup';
 import { buildVirtualIndex, type VirtualIndex } from '@/components/pending/virtualIndex';
@@ -84,6 +86,8 @@ interface Changeset {
   change_plan_kind?: string | null;
   /** Revision chain: which revision number this changeset is (1 = original). */
   revision_number?: number;
+  /** Set when the entity moved past `entity_version`; needs a rebase before commit. */
+  stale?: { current_version: number | null } | null;
   field_changes: FieldChange[];
 }
 
@@ -293,8 +297,8 @@ function formatFieldChangeValue(fc: FieldChange, which: 'old' | 'new'): string {
 function getEntityDisplayName(changeset: Changeset): string {
   const snapshot = changeset.before_snapshot || changeset.after_snapshot;
   if (snapshot) {
-    // For frame_relation, show the relation type and involved frames
-    if (changeset.entity_type === 'frame_relation') {
+    // For frame_relation / lexical_unit_relation, show the relation type and its endpoints
+    if (changeset.entity_type === 'frame_relation' || changeset.entity_type === 'lexical_unit_relation') {
       const relType = String(snapshot.type ?? 'relation');
       const srcLabel = snapshot.source_label ? String(snapshot.source_label) : null;
       const tgtLabel = snapshot.target_label ? String(snapshot.target_label) : null;
@@ -305,10 +309,20 @@ function getEntityDisplayName(changeset: Changeset): string {
       const tgtId = snapshot.target_id ? `#${snapshot.target_id}` : '?';
       return `${srcId} → ${tgtId} (${relType})`;
     }
+    // For sense contrasts, show the two senses being contrasted
+    if (changeset.entity_type === 'sense_contrast') {
+      const a = snapshot.sense_label ? String(snapshot.sense_label) : `#${snapshot.sense_id ?? '?'}`;
+      const b = snapshot.contrasted_sense_label ? String(snapshot.contrasted_sense_label) : `#${snapshot.contrasted_sense_id ?? '?'}`;
+      return `${a} ↔ ${b} (contrast)`;
+    }
     // For frames, show label (id); for verbs/nouns/adjectives/adverbs, show code
     if (changeset.entity_type === 'frame') {
       const label = snapshot.label;
       const id = changeset.entity_id;
+      const ctx = snapshot.__merge_context as Record<string, unknown> | undefined;
+      if (changeset.operation === 'merge' && ctx && label) {
+        return `${String(label)} → ${String(ctx.winner_label ?? `#${snapshot.__merge_child_id}`)}`;
+      }
       if (label && id) {
         const truncatedLabel = String(label).substring(0, 25) + (String(label).length > 25 ? '...' : '');
         return `${truncatedLabel} (${id})`;
@@ -359,6 +373,18 @@ function getEntityDisplayName(changeset: Changeset): string {
       if (parentRole) return `${parentRole} → ?`;
     }
     // Generic fallback: verbs, nouns, adjectives, adverbs, lexical_units → code
+    if (changeset.entity_type === 'referent') {
+      const ctx = snapshot.__merge_context as Record<string, unknown> | undefined;
+      if (ctx) {
+        const winner = String(ctx.winner_label ?? `#${snapshot.__merge_child_id}`);
+        return ctx.loser_label ? `${String(ctx.loser_label)} → ${winner}` : `Instances → ${winner}`;
+      }
+      if (snapshot.canonical_label) return String(snapshot.canonical_label);
+    }
+    if (changeset.entity_type === 'instance' && snapshot.label) {
+      const concept = snapshot.__concept_label ? ` (${String(snapshot.__concept_label)})` : '';
+      return `${String(snapshot.label)}${concept}`;
+    }
     if (changeset.entity_type !== 'frame') {
       const code = snapshot.code;
       if (code) return `${String(code).substring(0, 30)}${String(code).length > 30 ? '...' : ''}`;
@@ -476,6 +502,17 @@ export default function PendingChangesList({ onRefresh, embedded }: PendingChang
   const [isLoading, setIsLoading] = useState(true);
   const [committingAction, setCommittingAction] = useState<'commit' | 'reject' | null>(null);
   const isCommitting = committingAction !== null;
+  const { can, isOwnWork, userName } = useCurrentUserRole();
+  const canReview = can('review_changes');
+  // Mirrors the server rules: reviewers commit, editors may only discard their own work.
+  const commitBlockedReason = (createdBy: string | null) =>
+    !canReview
+      ? 'Committing requires the reviewer role'
+      : isOwnWork(createdBy)
+        ? 'Another reviewer has to commit your own change'
+        : null;
+  const canDiscard = (createdBy: string | null) =>
+    canReview || (can('stage_changes') && createdBy === userName);
   const [error, setError] = useState<string | null>(null);
   const [expandedComments, setExpandedComments] = useState<string | null>(null);
   const [unreadChangesetIds, setUnreadChangesetIds] = useState<Set<string>>(new Set());
@@ -958,9 +995,23 @@ export default function PendingChangesList({ onRefresh, embedded }: PendingChang
         );
       case 'op':
         return (
-          <span className={`px-2 py-0.5 rounded-md text-[10px] font-bold uppercase ${getOperationColor(cs.operation)}`}>
-            {cs.operation}
-          </span>
+          <div className="flex flex-col items-start gap-1">
+            <span className={`px-2 py-0.5 rounded-md text-[10px] font-bold uppercase ${getOperationColor(cs.operation)}`}>
+              {cs.operation}
+            </span>
+            {cs.stale && (
+              <span
+                className="px-2 py-0.5 rounded-md text-[10px] font-bold uppercase bg-orange-100 text-orange-700"
+                title={
+                  cs.stale.current_version === null
+                    ? 'The entity no longer exists'
+                    : `Staged against version ${cs.entity_version}; the entity is now at version ${cs.stale.current_version}. Committing will offer a rebase.`
+                }
+              >
+                Stale
+              </span>
+            )}
+          </div>
         );
       case 'changes':
         // Handle delete operations - show what's being deleted
@@ -1258,6 +1309,13 @@ export default function PendingChangesList({ onRefresh, embedded }: PendingChang
     }
   };
 
+  const handleConflictRebased = async () => {
+    setConflictDialog({ isOpen: false, errors: [], changesetId: null, entityDisplay: null });
+    await fetchData();
+    refreshPendingChangesCount();
+    if (onRefresh) onRefresh();
+  };
+
   // --- Render ---
 
   if (isLoading && !data) {
@@ -1377,7 +1435,7 @@ export default function PendingChangesList({ onRefresh, embedded }: PendingChang
                   onClick={() => {
                     setRevisionTarget(selectedDetail);
                   }}
-                  disabled={isCommitting}
+                  disabled={isCommitting || !can('stage_changes')}
                   className="inline-flex items-center gap-1.5 px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 cursor-pointer"
                 >
                   <PlusCircleIcon className="w-4 h-4" />
@@ -1389,7 +1447,7 @@ export default function PendingChangesList({ onRefresh, embedded }: PendingChang
                       await handleSingleReject(selectedDetail.id);
                       setSelectedDetail(null);
                     }}
-                    disabled={isCommitting}
+                    disabled={isCommitting || !canDiscard(selectedDetail.created_by)}
                     className="px-4 py-1.5 bg-red-600 hover:bg-red-500 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 cursor-pointer"
                   >
                     {selectedDetail.operation === 'move' ? 'Reject Move' : 'Reject All'}
@@ -1400,7 +1458,8 @@ export default function PendingChangesList({ onRefresh, embedded }: PendingChang
                     handleSingleCommit(selectedDetail.id);
                     setSelectedDetail(null);
                   }}
-                  disabled={isCommitting || (selectedDetail.operation === 'update' && detailFieldChanges.every(fc => fc.status === 'rejected'))}
+                  disabled={isCommitting || commitBlockedReason(selectedDetail.created_by) !== null || (selectedDetail.operation === 'update' && detailFieldChanges.every(fc => fc.status === 'rejected'))}
+                  title={commitBlockedReason(selectedDetail.created_by) ?? undefined}
                   className="px-4 py-1.5 bg-green-600 hover:bg-green-500 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 cursor-pointer"
                 >
                   {selectedDetail.operation === 'update' 
@@ -1554,6 +1613,17 @@ export default function PendingChangesList({ onRefresh, embedded }: PendingChang
                     </div>
                   )}
 
+                  {/* Handle concept merge: live preview of everything the commit will touch */}
+                  {selectedDetail.operation === 'merge' &&
+                    selectedDetail.entity_type === 'frame' &&
+                    selectedDetail.entity_id &&
+                    selectedDetail.before_snapshot?.__merge_child_id != null && (
+                      <ConceptMergePreview
+                        loserId={selectedDetail.entity_id}
+                        survivorId={String(selectedDetail.before_snapshot.__merge_child_id)}
+                      />
+                    )}
+
                   {/* Handle delete operation */}
                   {selectedDetail.operation === 'delete' && (() => {
                     const snapshot = selectedDetail.before_snapshot;
@@ -1800,7 +1870,8 @@ export default function PendingChangesList({ onRefresh, embedded }: PendingChang
                   <span className="text-sm text-gray-600">{selection.selectedCount} selected</span>
                   <button
                     onClick={handleBulkCommit}
-                    disabled={isCommitting}
+                    disabled={isCommitting || !canReview}
+                    title={canReview ? undefined : 'Committing requires the reviewer role'}
                     className="flex items-center gap-1 px-3 py-1 text-sm font-medium text-green-700 bg-green-100 border border-green-200 rounded-xl hover:bg-green-200 transition-colors cursor-pointer disabled:opacity-50"
                   >
                     {committingAction === 'commit' ? (
@@ -1812,7 +1883,7 @@ export default function PendingChangesList({ onRefresh, embedded }: PendingChang
                   </button>
                   <button
                     onClick={handleBulkReject}
-                    disabled={isCommitting}
+                    disabled={isCommitting || !can('stage_changes')}
                     className="flex items-center gap-1 px-3 py-1 text-sm font-medium text-red-700 bg-red-100 border border-red-200 rounded-xl hover:bg-red-200 transition-colors cursor-pointer disabled:opacity-50"
                   >
                     {committingAction === 'reject' ? (
@@ -1966,7 +2037,7 @@ export default function PendingChangesList({ onRefresh, embedded }: PendingChang
                           </button>
                           <button
                             onClick={() => setRevisionTarget(item)}
-                            disabled={isCommitting}
+                            disabled={isCommitting || !can('stage_changes')}
                             className="p-1.5 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50"
                             title="Add alternative with AI"
                           >
@@ -1974,15 +2045,15 @@ export default function PendingChangesList({ onRefresh, embedded }: PendingChang
                           </button>
                           <button
                             onClick={() => handleSingleCommit(item.id)}
-                            disabled={isCommitting}
+                            disabled={isCommitting || commitBlockedReason(item.created_by) !== null}
                             className="p-1.5 text-green-600 hover:bg-green-50 rounded-lg transition-colors disabled:opacity-50"
-                            title="Commit"
+                            title={commitBlockedReason(item.created_by) ?? 'Commit'}
                           >
                             <CheckIcon className="w-5 h-5" />
                           </button>
                           <button
                             onClick={() => handleSingleReject(item.id)}
-                            disabled={isCommitting}
+                            disabled={isCommitting || !canDiscard(item.created_by)}
                             className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
                             title="Reject"
                           >
@@ -2015,6 +2086,7 @@ export default function PendingChangesList({ onRefresh, embedded }: PendingChang
         isOpen={conflictDialog.isOpen}
         onClose={handleCloseConflictDialog}
         onDiscard={handleDiscardConflictedChangeset}
+        onRebased={handleConflictRebased}
         errors={conflictDialog.errors}
         entityDisplay={conflictDialog.entityDisplay || undefined}
         loading={isDiscarding}
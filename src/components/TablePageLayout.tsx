@@ -8,6 +8,7 @@ import ViewToggle, { ViewMode } from '@/components/ViewToggle';
 import PendingChangesButton from '@/components/PendingChangesButton';
 import SignOutButton from '@/components/SignOutButton';
 import ChatButton from '@/components/ChatButton';
+import NotificationsButton from '@/components/notifications/NotificationsButton';
 import { EditOverlay } from '@/components/editing/EditOverlay';
 import { Mode } from '@/components/editing/types';
 import { SearchResult, TableEntry, Concept, GraphNode } from '@/lib/types';
@@ -157,6 +158,7 @@ export function TablePageLayout({
               />
             )}
             {config.showPendingChanges && <PendingChangesButton />}
+            <NotificationsButton />
             <ChatButton />
             <SignOutButton />
           </div>
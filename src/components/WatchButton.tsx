@@ -0,0 +1,93 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { EyeIcon } from '@heroicons/react/24/outline';
+import { EyeIcon as EyeSolidIcon } from '@heroicons/react/24/solid';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import type { SubscriptionTargetType } from '@/lib/notifications/types';
+
+interface WatchButtonProps {
+  targetType: SubscriptionTargetType;
+  targetId: string;
+  className?: string;
+}
+
+const TARGET_NOUNS: Record<SubscriptionTargetType, string> = {
+  frame: 'concept',
+  lexical_unit: 'lexical unit',
+  change_plan: 'change plan',
+  diagnosis_code: 'diagnosis code',
+};
+
+/**
+ * Watch / unwatch toggle. Watchers are notified about comments, commits,
+ * discards and revisions touching the target, and about new health-check
+ * findings on concepts and diagnosis codes.
+ */
+export default function WatchButton({ targetType, targetId, className }: WatchButtonProps) {
+  const [watching, setWatching] = useState<boolean | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const query = `target_type=${targetType}&target_id=${encodeURIComponent(targetId)}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setWatching(null);
+    fetch(`/api/notifications/subscriptions?${query}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((body: { subscriptions: unknown[] } | null) => {
+        if (!cancelled && body) setWatching(body.subscriptions.length > 0);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  const toggle = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = watching
+        ? await fetch(`/api/notifications/subscriptions?${query}`, { method: 'DELETE' })
+        : await fetch('/api/notifications/subscriptions', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ target_type: targetType, target_id: targetId }),
+          });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body?.error ?? `Failed to update subscription (${res.status})`);
+      setWatching(!watching);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update subscription');
+    } finally {
+      setBusy(false);
+    }
+  }, [query, targetType, targetId, watching]);
+
+  if (!/^\d+$/.test(targetId) || watching === null) return null;
+
+  const noun = TARGET_NOUNS[targetType];
+  return (
+    <button
+      type="button"
+      onClick={toggle}
+      disabled={busy}
+      title={error ?? (watching ? `Stop watching this ${noun}` : `Get notified about changes to this ${noun}`)}
+      className={`inline-flex items-center gap-1 px-2 py-1 text-xs font-medium border rounded-md disabled:opacity-50 ${
+        watching
+          ? 'text-blue-700 border-blue-200 bg-blue-50 hover:bg-blue-100'
+          : 'text-gray-600 border-gray-200 bg-white hover:bg-gray-50'
+      } ${className ?? ''}`}
+    >
+      {busy ? (
+        <LoadingSpinner size="sm" noPadding />
+      ) : watching ? (
+        <EyeSolidIcon className="w-3.5 h-3.5" />
+      ) : (
+        <EyeIcon className="w-3.5 h-3.5" />
+      )}
+      {watching ? 'Watching' : 'Watch'}
+    </button>
+  );
+}
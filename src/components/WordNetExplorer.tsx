@@ -12,6 +12,7 @@ import ViewToggle, { ViewMode } from './ViewToggle';
 import PendingChangesButton from './PendingChangesButton';
 import SignOutButton from './SignOutButton';
 import ChatButton from './ChatButton';
+import NotificationsButton from '@/components/notifications/NotificationsButton';
 import RootNodesView from './RootNodesView';
 import { EditOverlay } from './editing/EditOverlay';
 import LoadingSpinner from './LoadingSpinner';
@@ -324,6 +325,7 @@ export default function WordNetExplorer({ initialEntryId, mode = 'lexical_units'
               }}
             />
             <PendingChangesButton />
+            <NotificationsButton />
             <ChatButton />
             <SignOutButton />
           </div>
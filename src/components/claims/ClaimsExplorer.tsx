@@ -5,13 +5,20 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import SignOutButton from '@/components/SignOutButton';
 import ChatButton from '@/components/ChatButton';
+import NotificationsButton from '@/components/notifications/NotificationsButton';
 import PendingChangesButton from '@/components/PendingChangesButton';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import ClaimsForceGraph from './ClaimsForceGraph';
 import GraphSelector from './GraphSelector';
+import GraphExportMenu from './GraphExportMenu';
 import NLQueryBar from './NLQueryBar';
 import InstanceDetailPanel from './InstanceDetailPanel';
-import type { ClaimsGraphPayload, ClaimsNodeType, KnowledgeGraphSummary } from '@/lib/claims/types';
+import type {
+  ClaimsAggregateRow,
+  ClaimsGraphPayload,
+  ClaimsNodeType,
+  KnowledgeGraphSummary,
+} from '@/lib/claims/types';
 import type { ClaimsQueryFilter } from '@/lib/claims/query-schema';
 
 export default function ClaimsExplorer() {
@@ -24,6 +31,7 @@ export default function ClaimsExplorer() {
   const [selectedInstanceId, setSelectedInstanceId] = useState<string | null>(null);
   const [queryExplanation, setQueryExplanation] = useState<string | null>(null);
   const [queryFilter, setQueryFilter] = useState<ClaimsQueryFilter | null>(null);
+  const [queryAggregates, setQueryAggregates] = useState<ClaimsAggregateRow[] | null>(null);
   const [loadingGraphs, setLoadingGraphs] = useState(true);
   const [loadingViz, setLoadingViz] = useState(false);
   const [queryLoading, setQueryLoading] = useState(false);
@@ -73,6 +81,7 @@ export default function ClaimsExplorer() {
       setSelectedInstanceId(null);
       setQueryExplanation(null);
       setQueryFilter(null);
+      setQueryAggregates(null);
       const params = new URLSearchParams(searchParams.toString());
       params.set('graph', graphId);
       params.delete('highlight');
@@ -107,6 +116,7 @@ export default function ClaimsExplorer() {
     setQueryLoading(true);
     setQueryExplanation(null);
     setQueryFilter(null);
+    setQueryAggregates(null);
     setError(null);
     try {
       const res = await fetch('/api/claims/query', {
@@ -114,11 +124,12 @@ export default function ClaimsExplorer() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ graphId: selectedGraphId, query }),
       });
-      if (!res.ok) throw new Error('Query failed');
       const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Query failed');
       setGraphData(data.graph);
       setQueryExplanation(data.explanation ?? null);
       setQueryFilter(data.filter ?? null);
+      setQueryAggregates(data.aggregates ?? null);
       setSelectedInstanceId(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Query failed');
@@ -184,6 +195,7 @@ export default function ClaimsExplorer() {
           </div>
           <div className="flex items-center gap-2">
             <PendingChangesButton />
+            <NotificationsButton />
             <ChatButton />
             <SignOutButton />
           </div>
@@ -204,6 +216,7 @@ export default function ClaimsExplorer() {
                 {selectedGraph.description}
               </p>
             )}
+            <GraphExportMenu graphId={selectedGraphId} />
           </div>
 
           {error && (
@@ -239,6 +252,7 @@ export default function ClaimsExplorer() {
             loading={queryLoading}
             explanation={queryExplanation}
             filter={queryFilter}
+            aggregates={queryAggregates}
             disabled={!selectedGraphId}
           />
         </div>
@@ -0,0 +1,209 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import Modal from '@/components/ui/Modal';
+import { MODEL_OPTIONS } from '@/components/AIJobsOverlay/constants';
+import { DEFAULT_CLAIMS_EXTRACTION_TEMPLATE } from '@/lib/claims/extraction/prompt';
+import type { StageClaimsExtractionResult } from '@/lib/claims/extraction/types';
+import type { SerializedJob } from '@/lib/llm/types';
+
+interface ExtractClaimsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sourceId: string;
+  sourceLabel: string;
+}
+
+type JobSummary = Pick<
+  SerializedJob,
+  'id' | 'status' | 'total_items' | 'processed_items' | 'succeeded_items' | 'failed_items'
+>;
+
+const inputClass =
+  'w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function ExtractClaimsModal({ isOpen, onClose, sourceId, sourceLabel }: ExtractClaimsModalProps) {
+  const [model, setModel] = useState<string>('gpt-5-mini');
+  const [promptTemplate, setPromptTemplate] = useState(DEFAULT_CLAIMS_EXTRACTION_TEMPLATE);
+  const [job, setJob] = useState<JobSummary | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [staged, setStaged] = useState<StageClaimsExtractionResult | null>(null);
+
+  const handleClose = () => {
+    if (busy) return;
+    setJob(null);
+    setStaged(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleCreate = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/llm-jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          label: `Extract claims: ${sourceLabel}`,
+          model,
+          promptTemplate,
+          jobType: 'extract_claims',
+          scope: { kind: 'source_texts', sourceTextIds: [sourceId] },
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to create job');
+      setJob(data as SerializedJob);
+      toast.success(`Extraction job queued (${data.total_items} chunk${data.total_items === 1 ? '' : 's'})`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create job');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    if (!job) return;
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/llm-jobs/${job.id}?refresh=true&pendingLimit=0&succeededLimit=0&failedLimit=0`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to refresh job');
+      setJob(data as SerializedJob);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refresh job');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStage = async () => {
+    if (!job) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/llm-jobs/${job.id}/stage-claims`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to stage claims');
+      const result = data as StageClaimsExtractionResult;
+      setStaged(result);
+      toast.success(
+        `Staged ${result.changeset_ids.length} pending change${result.changeset_ids.length === 1 ? '' : 's'}`,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to stage claims');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const footer = job ? (
+    <div className="flex justify-end gap-2">
+      <button
+        type="button"
+        onClick={handleRefresh}
+        disabled={busy}
+        className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-md disabled:opacity-50"
+      >
+        Refresh status
+      </button>
+      <button
+        type="button"
+        onClick={handleStage}
+        disabled={busy || job.succeeded_items === 0}
+        className="px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50"
+      >
+        Stage results
+      </button>
+    </div>
+  ) : (
+    <div className="flex justify-end gap-2">
+      <button
+        type="button"
+        onClick={handleClose}
+        disabled={busy}
+        className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-md disabled:opacity-50"
+      >
+        Cancel
+      </button>
+      <button
+        type="button"
+        onClick={handleCreate}
+        disabled={busy || !promptTemplate.trim()}
+        className="px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50"
+      >
+        {busy ? 'Creating…' : 'Create job'}
+      </button>
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Extract claims"
+      subtitle={sourceLabel}
+      maxWidth="2xl"
+      footer={footer}
+      preventClose={busy}
+    >
+      <div className="space-y-4 p-6">
+        {error && (
+          <div className="rounded-md bg-red-50 border border-red-200 px-3 py-2 text-sm text-red-700">{error}</div>
+        )}
+
+        {!job ? (
+          <>
+            <p className="text-sm text-gray-600">
+              The source is split into chunks along its sections. Each chunk is sent to the model with the
+              concepts of the source&apos;s knowledge graph; results are validated and staged for review.
+            </p>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Model</span>
+              <select className={inputClass} value={model} onChange={(e) => setModel(e.target.value)}>
+                {MODEL_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Prompt</span>
+              <textarea
+                className={`${inputClass} font-mono text-xs`}
+                rows={14}
+                value={promptTemplate}
+                onChange={(e) => setPromptTemplate(e.target.value)}
+              />
+            </label>
+          </>
+        ) : (
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+            <dt className="text-gray-500">Job</dt>
+            <dd className="text-gray-900">#{job.id} · {job.status}</dd>
+            <dt className="text-gray-500">Chunks</dt>
+            <dd className="text-gray-900">
+              {job.succeeded_items} succeeded, {job.failed_items} failed of {job.total_items}
+            </dd>
+            {staged && (
+              <>
+                <dt className="text-gray-500">Staged</dt>
+                <dd className="text-gray-900">
+                  {staged.instance_count} instance{staged.instance_count === 1 ? '' : 's'} in{' '}
+                  {staged.changeset_ids.length} pending change{staged.changeset_ids.length === 1 ? '' : 's'}
+                  {staged.issue_count > 0 && (
+                    <span className="text-amber-600"> · {staged.issue_count} dropped (see job items)</span>
+                  )}
+                </dd>
+              </>
+            )}
+          </dl>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+interface GraphExportMenuProps {
+  graphId: string | null;
+}
+
+const EXPORT_OPTIONS = [
+  { value: 'format=jsonld', label: 'JSON-LD' },
+  { value: 'format=turtle', label: 'Turtle (RDF)' },
+  { value: 'format=graphml', label: 'GraphML' },
+  { value: 'format=csv&table=nodes', label: 'CSV — nodes' },
+  { value: 'format=csv&table=edges', label: 'CSV — edges' },
+  { value: 'format=csv&table=mentions', label: 'CSV — mentions' },
+];
+
+export default function GraphExportMenu({ graphId }: GraphExportMenuProps) {
+  return (
+    <select
+      aria-label="Export graph"
+      value=""
+      disabled={!graphId}
+      onChange={(e) => {
+        if (!graphId || !e.target.value) return;
+        window.location.href = `/api/claims/graphs/${graphId}/export?${e.target.value}`;
+      }}
+      className="ml-auto rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+    >
+      <option value="">Export…</option>
+      {EXPORT_OPTIONS.map((opt) => (
+        <option key={opt.value} value={opt.value}>
+          {opt.label}
+        </option>
+      ))}
+    </select>
+  );
+}
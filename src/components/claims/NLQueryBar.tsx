@@ -4,12 +4,14 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { ArrowUpIcon } from '@heroicons/react/24/solid';
 import { ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/24/outline';
 import type { ClaimsQueryFilter } from '@/lib/claims/query-schema';
+import type { ClaimsAggregateRow } from '@/lib/claims/types';
 
 interface NLQueryBarProps {
   onSubmit: (query: string) => Promise<void>;
   loading?: boolean;
   explanation?: string | null;
   filter?: ClaimsQueryFilter | null;
+  aggregates?: ClaimsAggregateRow[] | null;
   disabled?: boolean;
 }
 
@@ -23,6 +25,7 @@ export default function NLQueryBar({
   loading = false,
   explanation,
   filter,
+  aggregates,
   disabled = false,
 }: NLQueryBarProps) {
   const [query, setQuery] = useState('');
@@ -75,6 +78,24 @@ export default function NLQueryBar({
         {explanation && (
           <div className="mb-3 rounded-xl border border-blue-100 bg-blue-50 px-4 py-2.5">
             <p className="text-sm text-gray-700">{explanation}</p>
+            {aggregates && (
+              <div className="mt-2 max-h-48 overflow-y-auto rounded-lg border border-blue-100 bg-white">
+                {aggregates.length === 0 ? (
+                  <p className="px-3 py-2 text-xs text-gray-500">No matching instances.</p>
+                ) : (
+                  <table className="w-full text-xs">
+                    <tbody>
+                      {aggregates.map((row, idx) => (
+                        <tr key={row.key ?? `row-${idx}`} className="border-b border-gray-100 last:border-0">
+                          <td className="px-3 py-1.5 text-gray-800">{row.label}</td>
+                          <td className="px-3 py-1.5 text-right font-mono text-gray-600">{row.count}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
             {filter && (
               <button
                 type="button"
@@ -1,9 +1,10 @@
 'use client';
 
 import { useCallback, useEffect, useState } from 'react';
-import { ArrowTopRightOnSquareIcon } from '@heroicons/react/24/outline';
+import { ArrowTopRightOnSquareIcon, SparklesIcon } from '@heroicons/react/24/outline';
 import HighlightedDocument, { MENTION_COLORS } from './HighlightedDocument';
 import InstanceDetailPanel from './InstanceDetailPanel';
+import ExtractClaimsModal from './ExtractClaimsModal';
 import type { SourceDetail, SourceInstance } from '@/app/api/claims/sources/[id]/route';
 
 interface SourceDetailPaneProps {
@@ -77,6 +78,7 @@ export default function SourceDetailPane({ sourceId }: SourceDetailPaneProps) {
   const [loading, setLoading] = useState(false);
   const [hoveredInstanceId, setHoveredInstanceId] = useState<string | null>(null);
   const [selectedInstanceId, setSelectedInstanceId] = useState<string | null>(null);
+  const [extractOpen, setExtractOpen] = useState(false);
 
   useEffect(() => {
     if (!sourceId) {
@@ -131,12 +133,22 @@ export default function SourceDetailPane({ sourceId }: SourceDetailPaneProps) {
             <h2 className="text-sm font-semibold text-gray-900 truncate">
               {detail.sourceUri ?? `Source ${detail.id}`}
             </h2>
+            <button
+              type="button"
+              onClick={() => setExtractOpen(true)}
+              disabled={!detail.documentIndex}
+              className="ml-auto inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded disabled:opacity-40 shrink-0"
+              title={detail.documentIndex ? 'Extract claims with an LLM job' : 'Source has no document index'}
+            >
+              <SparklesIcon className="w-4 h-4" />
+              Extract claims
+            </button>
             {detail.artifactUri && (
               <a
                 href={detail.artifactUri}
                 target="_blank"
                 rel="noopener noreferrer"
-                className="ml-auto text-gray-400 hover:text-blue-500 shrink-0"
+                className="text-gray-400 hover:text-blue-500 shrink-0"
                 title="Open original"
               >
                 <ArrowTopRightOnSquareIcon className="w-4 h-4" />
@@ -168,6 +180,13 @@ export default function SourceDetailPane({ sourceId }: SourceDetailPaneProps) {
         )}
       </div>
 
+      <ExtractClaimsModal
+        isOpen={extractOpen}
+        onClose={() => setExtractOpen(false)}
+        sourceId={detail.id}
+        sourceLabel={detail.sourceUri ?? `Source ${detail.id}`}
+      />
+
       {/* Instance detail side panel */}
       {selectedInstanceId && (
         <aside className="w-80 shrink-0 bg-white border-l border-gray-200 flex flex-col min-h-0">
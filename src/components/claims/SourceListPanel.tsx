@@ -7,6 +7,8 @@ import type { SourceListItem } from '@/app/api/claims/sources/route';
 interface SourceListPanelProps {
   selected: string | null;
   onSelect: (id: string) => void;
+  /** Bump to refetch the list, e.g. after an upload. */
+  refreshKey?: number;
 }
 
 function contentTypeIcon(ct: string | null) {
@@ -15,17 +17,20 @@ function contentTypeIcon(ct: string | null) {
   return <DocumentTextIcon className="w-4 h-4 text-gray-400" />;
 }
 
-export default function SourceListPanel({ selected, onSelect }: SourceListPanelProps) {
+export default function SourceListPanel({ selected, onSelect, refreshKey = 0 }: SourceListPanelProps) {
   const [sources, setSources] = useState<SourceListItem[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadedKey, setLoadedKey] = useState<number | null>(null);
   const railRef = useRef<HTMLElement>(null);
 
   useEffect(() => {
+    setLoading(true);
     fetch('/api/claims/sources')
       .then((res) => res.json())
       .then((data) => {
         const items: SourceListItem[] = data.sources ?? [];
         setSources(items);
+        setLoadedKey(refreshKey);
         if (items.length > 0 && !selected) {
           onSelect(items[0].id);
         }
@@ -33,13 +38,15 @@ export default function SourceListPanel({ selected, onSelect }: SourceListPanelP
       .catch(() => setSources([]))
       .finally(() => setLoading(false));
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [refreshKey]);
 
   useEffect(() => {
+    // A freshly uploaded source isn't in the list until the refetch lands.
+    if (loadedKey !== refreshKey) return;
     if (sources.length > 0 && selected && !sources.find((s) => s.id === selected)) {
       onSelect(sources[0].id);
     }
-  }, [sources, selected, onSelect]);
+  }, [sources, selected, onSelect, loadedKey, refreshKey]);
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
@@ -0,0 +1,249 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import Modal from '@/components/ui/Modal';
+import type { KnowledgeGraphSummary } from '@/lib/claims/types';
+import type { DocumentFormat } from '@/lib/documents';
+import type { IngestDocumentResult } from '@/lib/documents/ingest';
+
+interface UploadSourceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onUploaded: (result: IngestDocumentResult) => void;
+}
+
+const NEW_GRAPH = '__new__';
+
+const FORMAT_OPTIONS: { value: DocumentFormat | ''; label: string }[] = [
+  { value: '', label: 'Auto-detect' },
+  { value: 'html', label: 'HTML' },
+  { value: 'text', label: 'Plain text / Markdown' },
+  { value: 'jats', label: 'JATS XML' },
+  { value: 'json', label: 'Normalized JSON' },
+];
+
+const inputClass =
+  'w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function UploadSourceModal({ isOpen, onClose, onUploaded }: UploadSourceModalProps) {
+  const [mode, setMode] = useState<'file' | 'paste'>('file');
+  const [file, setFile] = useState<File | null>(null);
+  const [pasted, setPasted] = useState('');
+  const [format, setFormat] = useState<DocumentFormat | ''>('');
+  const [sourceUri, setSourceUri] = useState('');
+  const [title, setTitle] = useState('');
+  const [graphs, setGraphs] = useState<KnowledgeGraphSummary[]>([]);
+  const [graphId, setGraphId] = useState<string>(NEW_GRAPH);
+  const [graphLabel, setGraphLabel] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFile(null);
+    setPasted('');
+    setFormat('');
+    setSourceUri('');
+    setTitle('');
+    setGraphLabel('');
+    setError(null);
+    fetch('/api/claims/graphs')
+      .then((res) => res.json())
+      .then((data) => {
+        const items: KnowledgeGraphSummary[] = data.graphs ?? [];
+        setGraphs(items);
+        setGraphId(items[0]?.id ?? NEW_GRAPH);
+      })
+      .catch(() => setGraphs([]));
+  }, [isOpen]);
+
+  const handleUpload = async () => {
+    setError(null);
+    if (mode === 'file' && !file) {
+      setError('Choose a file to upload');
+      return;
+    }
+    if (mode === 'paste' && !pasted.trim()) {
+      setError('Paste some content to ingest');
+      return;
+    }
+    if (graphId === NEW_GRAPH && !graphLabel.trim()) {
+      setError('Give the new knowledge graph a label');
+      return;
+    }
+
+    const body = new FormData();
+    if (mode === 'file' && file) body.set('file', file);
+    else body.set('content', pasted);
+    if (format) body.set('format', format);
+    if (sourceUri.trim()) body.set('source_uri', sourceUri.trim());
+    if (title.trim()) body.set('title', title.trim());
+    if (graphId === NEW_GRAPH) body.set('graph_label', graphLabel.trim());
+    else body.set('knowledge_graph_id', graphId);
+
+    setUploading(true);
+    try {
+      const res = await fetch('/api/claims/sources', { method: 'POST', body });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Upload failed');
+      const result = data as IngestDocumentResult;
+      toast.success(
+        !result.created
+          ? `${result.title ?? result.sourceUri} is already up to date`
+          : result.previousSourceTextId
+            ? `Added a new version of ${result.title ?? result.sourceUri} (${result.blockCount} blocks)`
+            : `Added ${result.title ?? result.sourceUri} (${result.blockCount} blocks)`,
+      );
+      onUploaded(result);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Upload failed');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Add source document"
+      subtitle="HTML, plain text, JATS XML or normalized JSON"
+      maxWidth="2xl"
+      preventClose={uploading}
+      footer={
+        <div className="flex items-center justify-end gap-2">
+          {error && <span className="mr-auto text-sm text-red-600">{error}</span>}
+          <button
+            onClick={onClose}
+            disabled={uploading}
+            className="px-4 py-2 rounded-md border border-gray-300 text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleUpload}
+            disabled={uploading}
+            className="px-4 py-2 rounded-md bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {uploading ? 'Ingesting…' : 'Ingest'}
+          </button>
+        </div>
+      }
+    >
+      <div className="p-6 space-y-4">
+        <div className="flex border-b border-gray-200">
+          {(['file', 'paste'] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              className={`px-3 py-2 text-sm border-b-2 -mb-px ${
+                mode === m
+                  ? 'border-blue-600 text-blue-600 font-medium'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {m === 'file' ? 'Upload file' : 'Paste content'}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'file' ? (
+          <div>
+            <input
+              type="file"
+              accept=".html,.htm,.xhtml,.txt,.md,.xml,.nxml,.json,text/html,text/plain,application/xml,application/json"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="block w-full text-sm text-gray-700 file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border file:border-gray-300 file:bg-white file:text-sm file:text-gray-700 hover:file:bg-gray-50"
+            />
+            {file && (
+              <p className="mt-1 text-xs text-gray-500">
+                {file.name} · {(file.size / 1024).toFixed(1)} KB
+              </p>
+            )}
+          </div>
+        ) : (
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            rows={8}
+            placeholder="Paste article text, HTML or JATS XML"
+            className={`${inputClass} font-mono resize-y`}
+          />
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as DocumentFormat | '')}
+              className={`${inputClass} bg-white`}
+            >
+              {FORMAT_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Knowledge graph</label>
+            <select
+              value={graphId}
+              onChange={(e) => setGraphId(e.target.value)}
+              className={`${inputClass} bg-white`}
+            >
+              {graphs.map((g) => (
+                <option key={g.id} value={g.id}>
+                  {g.label}
+                </option>
+              ))}
+              <option value={NEW_GRAPH}>New graph…</option>
+            </select>
+          </div>
+        </div>
+
+        {graphId === NEW_GRAPH && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">New graph label</label>
+            <input
+              type="text"
+              value={graphLabel}
+              onChange={(e) => setGraphLabel(e.target.value)}
+              placeholder="e.g. GLP-1 review (Nauck 2021)"
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Source URI</label>
+          <input
+            type="text"
+            value={sourceUri}
+            onChange={(e) => setSourceUri(e.target.value)}
+            placeholder="doi:10.… or https://… (taken from the document when blank)"
+            className={inputClass}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Uploading again with the same URI refreshes the existing source.
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Taken from the document when blank"
+            className={inputClass}
+          />
+        </div>
+      </div>
+    </Modal>
+  );
+}
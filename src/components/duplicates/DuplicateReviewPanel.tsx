@@ -0,0 +1,411 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowPathIcon, ArrowsRightLeftIcon, PlayIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import LoadingSpinner from '../LoadingSpinner';
+import type {
+  DuplicateCandidate,
+  DuplicateCandidateStatus,
+  DuplicateDetectionRun,
+  DuplicateEntitySummary,
+  DuplicateEntityType,
+  DuplicateSignal,
+} from '@/lib/duplicates/types';
+
+const PAGE_SIZE = 100;
+const RUN_POLL_MS = 3000;
+
+const ENTITY_LABELS: Record<DuplicateEntityType, string> = {
+  concept: 'Concepts',
+  sense: 'Senses',
+};
+
+const STATUS_LABELS: Record<DuplicateCandidateStatus, string> = {
+  open: 'Open',
+  dismissed: 'Dismissed',
+  staged: 'Staged',
+};
+
+function signalLabel(signal: DuplicateSignal): string {
+  switch (signal.kind) {
+    case 'embedding':
+      return `embedding ${signal.similarity.toFixed(3)}`;
+    case 'label':
+      return `label ${signal.overlap.toFixed(2)}`;
+    case 'definition':
+      return `definition ${signal.overlap.toFixed(2)}`;
+    case 'lexical_units':
+      return `lexical units ${signal.overlap.toFixed(2)}`;
+  }
+}
+
+export default function DuplicateReviewPanel() {
+  const [entityType, setEntityType] = useState<DuplicateEntityType>('concept');
+  const [status, setStatus] = useState<DuplicateCandidateStatus>('open');
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [total, setTotal] = useState(0);
+  const [latestRun, setLatestRun] = useState<DuplicateDetectionRun | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  /** Candidate ids whose survivor the reviewer swapped away from the suggestion. */
+  const [swapped, setSwapped] = useState<Set<string>>(new Set());
+  /** Sense pairs: merged definition edits, keyed by candidate id. */
+  const [definitions, setDefinitions] = useState<Record<string, string>>({});
+
+  const loadRuns = useCallback(async () => {
+    const res = await fetch('/api/duplicates/runs');
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error ?? 'Failed to load runs');
+    const runs = (data.runs ?? []) as DuplicateDetectionRun[];
+    setLatestRun(runs.find((r) => r.entity_type === entityType) ?? null);
+  }, [entityType]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ entity_type: entityType, status, limit: String(PAGE_SIZE) });
+      const res = await fetch(`/api/duplicates?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to load candidates');
+      setCandidates(data.candidates ?? []);
+      setTotal(data.total ?? 0);
+      await loadRuns();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load');
+    } finally {
+      setLoading(false);
+    }
+  }, [entityType, status, loadRuns]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  // While a run is going, poll until it finishes, then reload the list.
+  const running = latestRun?.status === 'running';
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => {
+      void (async () => {
+        try {
+          const res = await fetch('/api/duplicates/runs');
+          const data = await res.json();
+          const run = ((data.runs ?? []) as DuplicateDetectionRun[]).find((r) => r.entity_type === entityType);
+          if (run && run.status !== 'running') {
+            if (run.status === 'failed') toast.error(`Detection failed: ${run.error ?? 'unknown error'}`);
+            else toast.success(`Detection found ${run.candidates_found} pair(s)`);
+            void load();
+          }
+        } catch {
+          // Keep polling; the next tick retries.
+        }
+      })();
+    }, RUN_POLL_MS);
+    return () => clearInterval(timer);
+  }, [running, entityType, load]);
+
+  const startRun = async () => {
+    try {
+      const res = await fetch('/api/duplicates/runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entity_type: entityType }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to start detection');
+      setLatestRun(data);
+      toast.success(`Detection run #${data.id} started`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to start detection');
+    }
+  };
+
+  const survivorOf = (c: DuplicateCandidate) => {
+    const suggested = c.suggested_survivor_id === c.a.id ? c.a : c.b;
+    const other = suggested === c.a ? c.b : c.a;
+    return swapped.has(c.id) ? { survivor: other, loser: suggested } : { survivor: suggested, loser: other };
+  };
+
+  const replace = (updated: DuplicateCandidate) => {
+    setCandidates((prev) =>
+      updated.status === status ? prev.map((c) => (c.id === updated.id ? updated : c)) : prev.filter((c) => c.id !== updated.id),
+    );
+    if (updated.status !== status) setTotal((t) => Math.max(0, t - 1));
+  };
+
+  const stage = async (candidate: DuplicateCandidate) => {
+    const { survivor } = survivorOf(candidate);
+    setBusyId(candidate.id);
+    try {
+      const res = await fetch(`/api/duplicates/${candidate.id}/stage`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          survivor_id: survivor.id,
+          merged_definition: candidate.entity_type === 'sense' ? definitions[candidate.id] ?? null : null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to stage merge');
+      replace(data.candidate);
+      const target = data.change_plan_id ? `plan #${data.change_plan_id}` : `changeset #${data.changeset_id}`;
+      toast.success(data.created ? `Staged ${target} for review` : `Already staged as ${target}`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to stage merge');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const review = async (candidate: DuplicateCandidate, next: 'dismissed' | 'open') => {
+    setBusyId(candidate.id);
+    try {
+      const res = await fetch(`/api/duplicates/${candidate.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: next }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to update pair');
+      replace(data);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to update pair');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 py-2 border-b border-gray-200 bg-white flex flex-wrap items-center gap-2 shrink-0">
+        <select
+          value={entityType}
+          onChange={(e) => setEntityType(e.target.value as DuplicateEntityType)}
+          className="px-2 py-1 rounded-md border border-gray-300 text-xs bg-white"
+        >
+          {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as DuplicateCandidateStatus)}
+          className="px-2 py-1 rounded-md border border-gray-300 text-xs bg-white"
+        >
+          {Object.entries(STATUS_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500">
+          {total} pair(s)
+          {latestRun && (
+            <>
+              {' · '}last run #{latestRun.id}{' '}
+              {latestRun.status === 'running'
+                ? 'running…'
+                : latestRun.status === 'failed'
+                  ? 'failed'
+                  : `finished ${latestRun.finished_at ? new Date(latestRun.finished_at).toLocaleString() : ''}`}
+            </>
+          )}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={() => void startRun()}
+            disabled={running}
+            className="inline-flex items-center gap-1 px-2.5 py-1 rounded-md border border-gray-300 bg-white text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            title="Re-scan for near-duplicates"
+          >
+            <PlayIcon className="w-3.5 h-3.5" />
+            {running ? 'Detecting…' : 'Run detection'}
+          </button>
+          <button
+            onClick={() => void load()}
+            className="p-1.5 rounded-md border border-gray-300 bg-white text-gray-600 hover:bg-gray-50"
+            title="Refresh"
+          >
+            <ArrowPathIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto">
+        {loading ? (
+          <div className="flex items-center justify-center py-20">
+            <LoadingSpinner />
+          </div>
+        ) : error ? (
+          <div className="p-6 text-center text-red-600 text-sm">{error}</div>
+        ) : candidates.length === 0 ? (
+          <div className="p-6 text-sm text-gray-500 italic">No {STATUS_LABELS[status].toLowerCase()} duplicate pairs.</div>
+        ) : (
+          <ul className="divide-y divide-gray-100 bg-white">
+            {candidates.map((c) => {
+              const { survivor, loser } = survivorOf(c);
+              return (
+                <CandidateRow
+                  key={c.id}
+                  candidate={c}
+                  survivor={survivor}
+                  loser={loser}
+                  mergedDefinition={definitions[c.id] ?? survivor.definition ?? ''}
+                  busy={busyId === c.id}
+                  onSwap={() => {
+                    setSwapped((prev) => {
+                      const next = new Set(prev);
+                      if (next.has(c.id)) next.delete(c.id);
+                      else next.add(c.id);
+                      return next;
+                    });
+                    setDefinitions((prev) => {
+                      const next = { ...prev };
+                      delete next[c.id];
+                      return next;
+                    });
+                  }}
+                  onDefinitionChange={(value) => setDefinitions((prev) => ({ ...prev, [c.id]: value }))}
+                  onStage={() => void stage(c)}
+                  onDismiss={() => void review(c, 'dismissed')}
+                  onReopen={() => void review(c, 'open')}
+                />
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function EntityCard({
+  entity,
+  entityType,
+  role,
+}: {
+  entity: DuplicateEntitySummary;
+  entityType: DuplicateEntityType;
+  role: string;
+}) {
+  return (
+    <div className={`flex-1 min-w-0 rounded-md border px-3 py-2 ${entity.live ? 'border-gray-200' : 'border-dashed border-gray-300 opacity-60'}`}>
+      <div className="text-[10px] uppercase tracking-wide text-gray-400">{role}</div>
+      <div className="text-sm font-medium text-gray-900 truncate">
+        {entityType === 'concept' && entity.live ? (
+          <Link href={`/graph/concepts?entry=${entity.id}`} className="hover:underline">{entity.label}</Link>
+        ) : (
+          entity.label
+        )}{' '}
+        <span className="font-mono text-xs text-gray-400">#{entity.id}</span>
+      </div>
+      {entity.definition && <div className="text-xs text-gray-600 line-clamp-3">{entity.definition}</div>}
+      <div className="text-xs text-gray-400 mt-1">
+        {entity.link_count} {entityType === 'concept' ? 'sense(s)' : 'lexical unit(s)'}
+      </div>
+    </div>
+  );
+}
+
+function CandidateRow({
+  candidate,
+  survivor,
+  loser,
+  mergedDefinition,
+  busy,
+  onSwap,
+  onDefinitionChange,
+  onStage,
+  onDismiss,
+  onReopen,
+}: {
+  candidate: DuplicateCandidate;
+  survivor: DuplicateEntitySummary;
+  loser: DuplicateEntitySummary;
+  mergedDefinition: string;
+  busy: boolean;
+  onSwap: () => void;
+  onDefinitionChange: (value: string) => void;
+  onStage: () => void;
+  onDismiss: () => void;
+  onReopen: () => void;
+}) {
+  const open = candidate.status === 'open';
+  return (
+    <li className="px-4 py-3">
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+        <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-700">{candidate.scope_label}</span>
+        <span className="font-mono text-gray-500">score {candidate.score.toFixed(2)}</span>
+        {candidate.signals.map((s) => (
+          <span key={s.kind} className="px-1.5 py-0.5 rounded bg-blue-50 text-blue-700">
+            {signalLabel(s)}
+          </span>
+        ))}
+        <div className="ml-auto flex items-center gap-2">
+          {candidate.status === 'staged' ? (
+            <Link href="/concepts/pending" className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 hover:underline">
+              Staged {candidate.change_plan_id ? `plan #${candidate.change_plan_id}` : `#${candidate.changeset_id}`}
+            </Link>
+          ) : candidate.status === 'dismissed' ? (
+            <button
+              onClick={onReopen}
+              disabled={busy}
+              className="px-2.5 py-1 rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+              Reopen
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={onDismiss}
+                disabled={busy}
+                className="px-2.5 py-1 rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+              >
+                Not a duplicate
+              </button>
+              <button
+                onClick={onStage}
+                disabled={busy || !survivor.live || !loser.live}
+                className="px-2.5 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                Stage merge
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      {candidate.reasons.length > 0 && (
+        <ul className="mb-2 text-xs text-gray-600 list-disc list-inside">
+          {candidate.reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-stretch gap-2">
+        <EntityCard entity={loser} entityType={candidate.entity_type} role="Merge" />
+        <button
+          onClick={onSwap}
+          disabled={!open}
+          className="self-center p-1 rounded text-gray-400 hover:text-gray-700 disabled:opacity-40"
+          title="Swap which side survives"
+        >
+          <ArrowsRightLeftIcon className="w-4 h-4" />
+        </button>
+        <EntityCard entity={survivor} entityType={candidate.entity_type} role="Into (survives)" />
+      </div>
+      {candidate.entity_type === 'sense' && open && (
+        <label className="block mt-2">
+          <span className="text-[10px] uppercase tracking-wide text-gray-400">Merged definition</span>
+          <textarea
+            value={mergedDefinition}
+            onChange={(e) => onDefinitionChange(e.target.value)}
+            rows={2}
+            className="mt-1 w-full px-2 py-1 rounded-md border border-gray-300 text-xs"
+          />
+        </label>
+      )}
+    </li>
+  );
+}
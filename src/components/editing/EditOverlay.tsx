@@ -13,13 +13,14 @@ import { ConceptPropertiesSection } from './ConceptPropertiesSection';
 import { PropertiesSection } from './PropertiesSection';
 import { ConceptRelationsSection } from './ConceptRelationsSection';
 import { AIRemediationPanel } from './AIRemediationPanel';
+import { EntityHistoryPanel } from './EntityHistoryPanel';
 import { useEntryEditor } from '@/hooks/useEntryEditor';
 import { useEntryMutations } from '@/hooks/useEntryMutations';
 import { PendingEntityBadge } from '@/components/PendingChangeIndicator';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import ClassifierGuidanceModal from '@/components/ClassifierGuidanceModal';
 
-type EditTab = 'ai' | 'manual';
+type EditTab = 'ai' | 'manual' | 'history';
 
 interface EditOverlayProps {
   node: GraphNode | Concept | null;
@@ -374,37 +375,32 @@ export function EditOverlay({ node, nodeId, mode, isOpen, onClose, onUpdate }: E
             </div>
           )}
 
-          {/* Tab Bar (concepts mode only) */}
-          {mode === 'concepts' && (
-            <div className="flex border-b border-gray-200 mb-5 mt-1 mx-1">
-              <button
-                onClick={() => setActiveTab('ai')}
-                className={`px-5 py-3 text-sm font-medium transition-colors relative ${
-                  activeTab === 'ai'
-                    ? 'text-blue-600'
-                    : 'text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                AI Mode
-                {activeTab === 'ai' && (
-                  <span className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-600 rounded-full" />
-                )}
-              </button>
-              <button
-                onClick={() => setActiveTab('manual')}
-                className={`px-5 py-3 text-sm font-medium transition-colors relative ${
-                  activeTab === 'manual'
-                    ? 'text-blue-600'
-                    : 'text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                Manual Mode
-                {activeTab === 'manual' && (
-                  <span className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-600 rounded-full" />
-                )}
-              </button>
-            </div>
-          )}
+          {/* Tab Bar (AI/Manual for concepts; Edit for lexical units; History for both) */}
+          <div className="flex border-b border-gray-200 mb-5 mt-1 mx-1">
+            {(mode === 'concepts'
+              ? ([['ai', 'AI Mode'], ['manual', 'Manual Mode'], ['history', 'History']] as const)
+              : ([['manual', 'Edit'], ['history', 'History']] as const)
+            ).map(([tab, label]) => {
+              const isActive =
+                activeTab === tab || (mode !== 'concepts' && tab === 'manual' && activeTab === 'ai');
+              return (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={`px-5 py-3 text-sm font-medium transition-colors relative ${
+                    isActive
+                      ? 'text-blue-600'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {label}
+                  {isActive && (
+                    <span className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-600 rounded-full" />
+                  )}
+                </button>
+              );
+            })}
+          </div>
 
           {/* AI Remediation Panel (concepts mode, AI tab) */}
           {mode === 'concepts' && activeTab === 'ai' && 'label' in node && (
@@ -416,8 +412,17 @@ export function EditOverlay({ node, nodeId, mode, isOpen, onClose, onUpdate }: E
             </div>
           )}
 
-          {/* Manual editing content (non-concepts always show; concepts only on manual tab) */}
-          {(mode !== 'concepts' || activeTab === 'manual') && (
+          {/* History tab: committed row history grouped by changeset */}
+          {activeTab === 'history' && (
+            <EntityHistoryPanel
+              kind={mode === 'concepts' ? 'concept' : 'lexical_unit'}
+              entityId={String(node.id || nodeId)}
+              onRestored={onUpdate}
+            />
+          )}
+
+          {/* Manual editing content (non-concepts show unless on history; concepts only on manual tab) */}
+          {activeTab !== 'history' && (mode !== 'concepts' || activeTab === 'manual') && (
             <>
               {/* Flagging Section */}
               <FlagButtons
@@ -0,0 +1,385 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  ArrowUturnLeftIcon,
+  BackwardIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+} from '@heroicons/react/24/outline';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { useCurrentUserRole } from '@/hooks/useCurrentUserRole';
+import type { RevertConflict, RevertResult } from '@/lib/version-control/revert';
+import type {
+  EntityTimeline,
+  TimelineEntityKind,
+  TimelineGroup,
+  TimelineRestoreResult,
+  TimelineRowChange,
+} from '@/lib/version-control/timeline';
+
+const KIND_TO_ROUTE: Record<TimelineEntityKind, string> = {
+  concept: 'concepts',
+  lexical_unit: 'lexical-units',
+  sense: 'senses',
+};
+
+const RELATION_LABELS: Record<TimelineRowChange['relation'], string> = {
+  self: '',
+  property: 'Property',
+  sense_concept: 'Sense link',
+  concept_relation: 'Relation',
+  lexical_unit_sense: 'Sense link',
+  lexical_unit_relation: 'Relation',
+};
+
+interface EntityHistoryPanelProps {
+  kind: TimelineEntityKind;
+  entityId: string;
+  /** Called after a restore was staged so the caller can refresh pending state. */
+  onRestored?: () => Promise<void> | void;
+}
+
+export function EntityHistoryPanel({ kind, entityId, onRestored }: EntityHistoryPanelProps) {
+  const [groups, setGroups] = useState<TimelineGroup[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedGroup, setExpandedGroup] = useState<string | null>(null);
+  const [restoringPoint, setRestoringPoint] = useState<string | null>(null);
+  const [restoreResult, setRestoreResult] = useState<TimelineRestoreResult | null>(null);
+  const [revertingPoint, setRevertingPoint] = useState<string | null>(null);
+  const [revertResult, setRevertResult] = useState<RevertResult | null>(null);
+  const canStage = useCurrentUserRole().can('stage_changes');
+
+  const baseUrl = `/api/${KIND_TO_ROUTE[kind]}/${encodeURIComponent(entityId)}/timeline`;
+
+  const fetchTimeline = useCallback(async (before?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const url = before ? `${baseUrl}?before=${before}` : baseUrl;
+      const response = await fetch(url, { cache: 'no-store' });
+      if (!response.ok) {
+        const errData = await response.json().catch(() => ({}));
+        throw new Error(errData.error || `Failed to fetch history (${response.status})`);
+      }
+      const data: EntityTimeline = await response.json();
+      setGroups(prev => (before ? [...prev, ...data.groups] : data.groups));
+      setNextCursor(data.next_cursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch history');
+    } finally {
+      setLoading(false);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    setRestoreResult(null);
+    fetchTimeline();
+  }, [fetchTimeline]);
+
+  const handleRestore = async (group: TimelineGroup) => {
+    if (!confirm('Stage a change that restores this entry to the state after this change?')) return;
+    setRestoringPoint(group.restore_point);
+    setError(null);
+    setRestoreResult(null);
+    try {
+      const response = await fetch(baseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ history_id: group.restore_point }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to restore (${response.status})`);
+      }
+      setRestoreResult(data as TimelineRestoreResult);
+      await onRestored?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore');
+    } finally {
+      setRestoringPoint(null);
+    }
+  };
+
+  // Reverts the whole plan when the change came from one, so the inverse
+  // lands as atomically as the original did.
+  const handleRevert = async (group: TimelineGroup) => {
+    const changeset = group.changeset;
+    if (!changeset) return;
+    const url = changeset.change_plan_id
+      ? `/api/change-plans/${changeset.change_plan_id}/revert`
+      : `/api/changesets/${changeset.id}/revert`;
+    const what = changeset.change_plan_id ? `plan #${changeset.change_plan_id}` : `changeset #${changeset.id}`;
+    if (!confirm(`Stage a change that undoes ${what}?`)) return;
+
+    setRevertingPoint(group.restore_point);
+    setError(null);
+    setRevertResult(null);
+    try {
+      const post = (force: boolean) =>
+        fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ force }),
+        });
+      let response = await post(false);
+      let data = await response.json().catch(() => ({}));
+      if (response.status === 409 && Array.isArray(data.conflicts)) {
+        const lines = (data.conflicts as RevertConflict[]).map(c => `• ${c.message}`).join('\n');
+        if (!confirm(`Later changes overlap this revert:\n${lines}\n\nStage the revert anyway?`)) return;
+        response = await post(true);
+        data = await response.json().catch(() => ({}));
+      }
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to revert (${response.status})`);
+      }
+      setRevertResult(data as RevertResult);
+      await onRestored?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revert');
+    } finally {
+      setRevertingPoint(null);
+    }
+  };
+
+  const groupKey = (group: TimelineGroup) => group.restore_point;
+
+  return (
+    <div className="px-2 pb-4">
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {restoreResult && (
+        <div className="mb-3 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+          {restoreResult.staged.some(s => s.field_changes_count > 0)
+            ? 'Restore staged for review in Pending Changes.'
+            : 'Nothing to stage — already matches this point.'}
+          {restoreResult.skipped.length > 0 && (
+            <ul className="mt-2 list-disc pl-5 text-xs text-blue-700">
+              {restoreResult.skipped.map((line, i) => (
+                <li key={i}>{line}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {revertResult && (
+        <div className="mb-3 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+          {revertResult.plan_id
+            ? `Revert staged as plan #${revertResult.plan_id} in Pending Changes.`
+            : `Revert staged as changeset #${revertResult.changeset_ids[0]} in Pending Changes.`}
+          {revertResult.skipped.length > 0 && (
+            <ul className="mt-2 list-disc pl-5 text-xs text-blue-700">
+              {revertResult.skipped.map((line, i) => (
+                <li key={i}>{line}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {!loading && groups.length === 0 && !error && (
+        <p className="text-sm text-gray-500 py-6 text-center">No recorded history yet.</p>
+      )}
+
+      {groups.length > 0 && (
+        <div className="relative">
+          <div className="absolute left-3 top-4 bottom-4 w-px bg-gray-200" />
+          <ul className="space-y-3 relative">
+            {groups.map((group, idx) => (
+              <HistoryGroupItem
+                key={groupKey(group)}
+                group={group}
+                isLatest={idx === 0}
+                isExpanded={expandedGroup === groupKey(group)}
+                isRestoring={restoringPoint === group.restore_point}
+                isReverting={revertingPoint === group.restore_point}
+                onToggle={() =>
+                  setExpandedGroup(prev => (prev === groupKey(group) ? null : groupKey(group)))
+                }
+                onRestore={canStage ? () => handleRestore(group) : undefined}
+                onRevert={canStage ? () => handleRevert(group) : undefined}
+              />
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex items-center justify-center py-6">
+          <LoadingSpinner size="md" noPadding />
+        </div>
+      )}
+
+      {nextCursor && !loading && (
+        <div className="mt-3 text-center">
+          <button
+            type="button"
+            onClick={() => fetchTimeline(nextCursor)}
+            className="text-xs font-medium text-blue-600 hover:text-blue-800"
+          >
+            Load older history
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface HistoryGroupItemProps {
+  group: TimelineGroup;
+  isLatest: boolean;
+  isExpanded: boolean;
+  isRestoring: boolean;
+  isReverting: boolean;
+  onToggle: () => void;
+  /** Omitted for viewers, who can't stage changes. */
+  onRestore?: () => void;
+  onRevert?: () => void;
+}
+
+function HistoryGroupItem({
+  group,
+  isLatest,
+  isExpanded,
+  isRestoring,
+  isReverting,
+  onToggle,
+  onRestore,
+  onRevert,
+}: HistoryGroupItemProps) {
+  const fieldCount = group.changes.reduce((sum, c) => sum + Math.max(c.diffs.length, 1), 0);
+  const source = group.changeset
+    ? group.changeset.change_plan_id
+      ? `Plan #${group.changeset.change_plan_id}`
+      : group.changeset.llm_job_id
+      ? `LLM job #${group.changeset.llm_job_id}`
+      : `Changeset #${group.changeset.id}`
+    : 'Direct write';
+
+  return (
+    <li className="relative pl-8">
+      <div
+        className={`absolute left-1.5 top-3 w-3 h-3 rounded-full border-2 ${
+          isLatest ? 'bg-blue-500 border-blue-500' : 'bg-white border-gray-300'
+        }`}
+      />
+
+      <div className="rounded-lg border border-gray-200 bg-white">
+        <div className="flex items-center justify-between gap-2 p-3">
+          <button
+            type="button"
+            onClick={onToggle}
+            className="flex items-center gap-2 min-w-0 text-left"
+          >
+            {isExpanded ? (
+              <ChevronDownIcon className="w-3.5 h-3.5 text-gray-400 shrink-0" />
+            ) : (
+              <ChevronRightIcon className="w-3.5 h-3.5 text-gray-400 shrink-0" />
+            )}
+            <div className="min-w-0">
+              <div className="text-xs font-semibold text-gray-800 truncate">{source}</div>
+              <div className="text-[10px] text-gray-400">
+                {new Date(group.changed_at).toLocaleString(undefined, {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+                {group.changed_by && <> · by {group.changed_by}</>}
+                {' · '}
+                {fieldCount} change{fieldCount === 1 ? '' : 's'}
+              </div>
+            </div>
+          </button>
+
+          <div className="flex items-center gap-1 shrink-0">
+            {onRevert && group.changeset?.committed_at && (
+              <button
+                type="button"
+                onClick={onRevert}
+                disabled={isReverting}
+                title={group.changeset.change_plan_id ? 'Stage a change undoing this plan' : 'Stage a change undoing this changeset'}
+                className="inline-flex items-center gap-1 px-2 py-1 text-[11px] font-medium text-gray-600 border border-gray-200 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                <BackwardIcon className="w-3.5 h-3.5" />
+                {isReverting ? 'Staging…' : 'Revert'}
+              </button>
+            )}
+            {onRestore && !isLatest && (
+              <button
+                type="button"
+                onClick={onRestore}
+                disabled={isRestoring}
+                title="Stage a change restoring this point"
+                className="inline-flex items-center gap-1 px-2 py-1 text-[11px] font-medium text-gray-600 border border-gray-200 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ArrowUturnLeftIcon className="w-3.5 h-3.5" />
+                {isRestoring ? 'Staging…' : 'Restore'}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {isExpanded && (
+          <ul className="border-t border-gray-100 divide-y divide-gray-100 max-h-72 overflow-y-auto">
+            {group.changes.map(change => (
+              <RowChangeItem key={change.history_id} change={change} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </li>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '∅';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function RowChangeItem({ change }: { change: TimelineRowChange }) {
+  const opColor =
+    change.operation === 'create'
+      ? 'text-green-700 bg-green-50'
+      : change.operation === 'delete'
+      ? 'text-red-700 bg-red-50'
+      : 'text-orange-700 bg-orange-50';
+  const relationLabel = RELATION_LABELS[change.relation];
+
+  return (
+    <li className="px-3 py-2 text-xs">
+      <div className="flex items-center gap-2 mb-1">
+        <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${opColor}`}>
+          {change.operation}
+        </span>
+        {relationLabel && <span className="text-gray-500">{relationLabel}</span>}
+        {change.row_label && (
+          <span className="font-medium text-gray-700 truncate">{change.row_label}</span>
+        )}
+      </div>
+      {change.operation === 'update' && change.diffs.length > 0 && (
+        <dl className="space-y-1">
+          {change.diffs.map(diff => (
+            <div key={diff.field} className="grid grid-cols-[auto,1fr] gap-x-2">
+              <dt className="font-mono text-gray-500">{diff.field}</dt>
+              <dd className="min-w-0">
+                <span className="line-through text-red-600 break-words">{formatValue(diff.old_value)}</span>
+                {' → '}
+                <span className="text-green-700 break-words">{formatValue(diff.new_value)}</span>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </li>
+  );
+}
@@ -6,6 +6,7 @@ import { VendlerClassSelector } from './VendlerClassSelector';
 import { LexfileSelector } from './LexfileSelector';
 import { PendingFieldIndicator } from '@/components/PendingChangeIndicator';
 import { SenseConceptWarning } from '@/components/ui';
+import { SenseContrastsSection } from '@/components/senses/SenseContrastsSection';
 
 interface LexicalPropertiesSectionProps {
   node: GraphNode;
@@ -186,6 +187,11 @@ export function LexicalPropertiesSection({
               })}
             </div>
           )}
+          {node.senses && node.senses.length > 0 && (
+            <div className="mt-4">
+              <SenseContrastsSection lexicalUnitId={node.numericId || node.id} />
+            </div>
+          )}
         </div>
       )}
 
@@ -21,8 +21,11 @@ import {
 } from '@heroicons/react/24/outline';
 import toast from 'react-hot-toast';
 import LoadingSpinner from '../LoadingSpinner';
+import WatchButton from '../WatchButton';
+import { useCurrentUserRole } from '@/hooks/useCurrentUserRole';
 import HealthCheckDefinitionFormModal from './HealthCheckDefinitionFormModal';
 import DiagnosisCodeFormModal from './DiagnosisCodeFormModal';
+import HealthFindingsPanel from './HealthFindingsPanel';
 import {
   HEALTH_CHECK_EXECUTION_KIND_LABELS,
   HEALTH_CHECK_EXECUTION_KIND_STYLES,
@@ -31,6 +34,7 @@ import {
   HEALTH_REMEDIATION_STRATEGY_LABELS,
   type HealthCheckDefinition,
   type HealthCheckExecutionKind,
+  type HealthCheckRunScope,
   type HealthCheckRunSummary,
   type HealthDiagnosisCode,
   type HealthDiagnosisCodeGroup,
@@ -66,6 +70,9 @@ export default function HealthChecksBoard() {
   const [defFormOpen, setDefFormOpen] = useState(false);
   const [editingDef, setEditingDef] = useState<HealthCheckDefinition | null>(null);
   const [triggering, setTriggering] = useState(false);
+  const { can } = useCurrentUserRole();
+  const canManage = can('manage_health_checks');
+  const [boardTab, setBoardTab] = useState<'definitions' | 'findings'>('definitions');
 
   const llmDefinitions = definitions.filter(
     (def) => (def.execution_kind ?? 'llm_batch') === 'llm_batch',
@@ -169,9 +176,13 @@ export default function HealthChecksBoard() {
         <div className="ml-auto flex items-center gap-2">
           <button
             onClick={() => void triggerPipeline()}
-            disabled={triggering}
+            disabled={triggering || !can('run_health_checks')}
             className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-gray-300 bg-white text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-            title="Run the full health-check pipeline now (programmatic checks + LLM batch), matching the nightly schedule"
+            title={
+              can('run_health_checks')
+                ? 'Run the full health-check pipeline now (programmatic checks + LLM batch), matching the nightly schedule'
+                : 'Running health checks requires the reviewer role'
+            }
           >
             <BoltIcon className="w-4 h-4" />
             {triggering ? 'Starting…' : 'Run pipeline'}
@@ -186,42 +197,73 @@ export default function HealthChecksBoard() {
         </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto">
-        {loading ? (
-          <div className="flex items-center justify-center py-20">
-            <LoadingSpinner />
-          </div>
-        ) : error ? (
-          <div className="p-6 text-center text-red-600 text-sm">{error}</div>
-        ) : (
-          <div className="p-4 space-y-6">
-            <DefinitionsSection
-              title="Programmatic Health Checks"
-              description="Managed by source code / runner jobs. These definitions are immutable here."
-              definitions={programmaticDefinitions}
-              immutable
-              onSelect={setSelectedId}
-            />
-            <DefinitionsSection
-              title="LLM-bound Health Checks"
-              description="User-managed checks queued for the LLM batch worker."
-              definitions={llmDefinitions}
-              onSelect={setSelectedId}
-              onToggleEnabled={handleToggleEnabled}
-              onEdit={(def) => {
-                setEditingDef(def);
-                setDefFormOpen(true);
-              }}
-              onDelete={handleDelete}
-              onCreate={() => {
-                setEditingDef(null);
-                setDefFormOpen(true);
-              }}
-            />
-          </div>
-        )}
+      <div className="shrink-0 px-4 border-b border-gray-200 bg-white flex items-center gap-1">
+        <button
+          type="button"
+          onClick={() => setBoardTab('definitions')}
+          className={`px-3 py-2 text-sm border-b-2 -mb-px ${
+            boardTab === 'definitions'
+              ? 'border-blue-600 text-blue-700 font-medium'
+              : 'border-transparent text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          Definitions
+        </button>
+        <button
+          type="button"
+          onClick={() => setBoardTab('findings')}
+          className={`px-3 py-2 text-sm border-b-2 -mb-px ${
+            boardTab === 'findings'
+              ? 'border-blue-600 text-blue-700 font-medium'
+              : 'border-transparent text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          Findings
+        </button>
       </div>
 
+      {boardTab === 'findings' ? (
+        <div className="flex-1 min-h-0">
+          <HealthFindingsPanel />
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center py-20">
+              <LoadingSpinner />
+            </div>
+          ) : error ? (
+            <div className="p-6 text-center text-red-600 text-sm">{error}</div>
+          ) : (
+            <div className="p-4 space-y-6">
+              <DefinitionsSection
+                title="Programmatic Health Checks"
+                description="Managed by source code / runner jobs. These definitions are immutable here."
+                definitions={programmaticDefinitions}
+                immutable
+                onSelect={setSelectedId}
+              />
+              <DefinitionsSection
+                title="LLM-bound Health Checks"
+                description="User-managed checks queued for the LLM batch worker."
+                definitions={llmDefinitions}
+                onSelect={setSelectedId}
+                onToggleEnabled={canManage ? handleToggleEnabled : undefined}
+                onEdit={canManage ? (def) => {
+                  setEditingDef(def);
+                  setDefFormOpen(true);
+                } : undefined}
+                onDelete={canManage ? handleDelete : undefined}
+                onCreate={canManage ? () => {
+                  setEditingDef(null);
+                  setDefFormOpen(true);
+                } : undefined}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       <HealthCheckDefinitionFormModal
         isOpen={defFormOpen}
         onClose={() => setDefFormOpen(false)}
@@ -334,6 +376,7 @@ function DefinitionsSection({
                       <input
                         type="checkbox"
                         checked={def.enabled}
+                        disabled={!onToggleEnabled}
                         onChange={() => onToggleEnabled?.(def)}
                         className="rounded border-gray-300"
                       />
@@ -346,12 +389,12 @@ function DefinitionsSection({
                 <td className="px-4 py-2 text-right">
                   {immutable ? (
                     <span className="text-xs text-gray-400">Managed</span>
-                  ) : (
+                  ) : onEdit && onDelete ? (
                     <>
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
-                          onEdit?.(def);
+                          onEdit(def);
                         }}
                         className="p-1 rounded hover:bg-gray-100 text-gray-500"
                         title="Edit"
@@ -361,7 +404,7 @@ function DefinitionsSection({
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
-                          onDelete?.(def);
+                          onDelete(def);
                         }}
                         className="p-1 rounded hover:bg-gray-100 text-gray-500 ml-1"
                         title="Delete"
@@ -369,7 +412,7 @@ function DefinitionsSection({
                         <TrashIcon className="w-4 h-4" />
                       </button>
                     </>
-                  )}
+                  ) : null}
                 </td>
               </tr>
             ))}
@@ -393,6 +436,9 @@ function DefinitionDetail({ definitionId, onBack, onUpdated }: DefinitionDetailP
   const [error, setError] = useState<string | null>(null);
   const [defFormOpen, setDefFormOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<'codes' | 'runs'>('codes');
+  const { can } = useCurrentUserRole();
+  const canRun = can('run_health_checks');
+  const canManage = can('manage_health_checks');
 
   const load = useCallback(async () => {
     setLoading(true);
@@ -420,12 +466,12 @@ function DefinitionDetail({ definitionId, onBack, onUpdated }: DefinitionDetailP
     void load();
   }, [load]);
 
-  const queueRun = async () => {
+  const queueRun = async (scope?: HealthCheckRunScope) => {
     if (!def) return;
     const res = await fetch('/api/health-checks/runs', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ check_definition_id: def.id }),
+      body: JSON.stringify({ check_definition_id: def.id, scope }),
     });
     if (res.ok) {
       const run = (await res.json()) as HealthCheckRunSummary;
@@ -476,7 +522,8 @@ function DefinitionDetail({ definitionId, onBack, onUpdated }: DefinitionDetailP
         <div className="ml-auto flex items-center gap-2">
           <button
             onClick={() => void queueRun()}
-            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-gray-300 bg-white text-sm text-gray-700 hover:bg-gray-50"
+            disabled={!canRun}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-gray-300 bg-white text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
             title={
               def.execution_kind === 'programmatic'
                 ? 'Queue a programmatic run (picked up by the rule worker)'
@@ -486,11 +533,20 @@ function DefinitionDetail({ definitionId, onBack, onUpdated }: DefinitionDetailP
             <PlayIcon className="w-4 h-4" />
             Queue Run
           </button>
+          <button
+            onClick={() => void queueRun({ stale_only: true })}
+            disabled={!canRun}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-gray-300 bg-white text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Queue a run that only re-checks targets changed since their last check (or never checked)"
+          >
+            <ArrowPathIcon className="w-4 h-4" />
+            Re-check Stale
+          </button>
           {definitionIsImmutable ? (
             <span className="px-3 py-1.5 rounded-md border border-gray-200 bg-gray-50 text-sm text-gray-500">
               Managed by code
             </span>
-          ) : (
+          ) : canManage && (
             <button
               onClick={() => setDefFormOpen(true)}
               className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-gray-300 bg-white text-sm text-gray-700 hover:bg-gray-50"
@@ -561,7 +617,7 @@ function DefinitionDetail({ definitionId, onBack, onUpdated }: DefinitionDetailP
               codes={def.diagnosis_codes}
               definitionId={def.id}
               parentExecutionKind={def.execution_kind ?? 'llm_batch'}
-              readonly={definitionIsImmutable}
+              readonly={definitionIsImmutable || !canManage}
               onCodesChange={(diagnosis_codes) => {
                 setDef((prev) => (prev ? { ...prev, diagnosis_codes } : prev));
               }}
@@ -626,6 +682,9 @@ function RecentRunsPanel({
                   <tr key={r.id}>
                     <td className="px-3 py-2 font-mono text-xs text-gray-500">
                       #{r.id}
+                      {r.stale_only && (
+                        <div className="font-sans text-[10px] text-gray-400">stale only</div>
+                      )}
                     </td>
                     <td className="px-3 py-2">
                       <span
@@ -1129,6 +1188,7 @@ function CodeDetailPanel({
             <h4 className="mt-1 text-lg font-semibold text-gray-900">{code.label}</h4>
           </div>
           <div className="flex items-center gap-2 shrink-0">
+            <WatchButton targetType="diagnosis_code" targetId={code.id} />
             {readonly ? (
               <span className="text-xs text-gray-500">
                 {code.enabled ? 'Enabled' : 'Disabled'}
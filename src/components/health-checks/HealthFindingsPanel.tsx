@@ -0,0 +1,488 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ArrowPathIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+} from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import LoadingSpinner from '../LoadingSpinner';
+import { useCurrentUserRole } from '@/hooks/useCurrentUserRole';
+import {
+  CONCEPT_ARCHETYPES,
+  CONCEPT_SUBTYPES,
+  HEALTH_CHECK_ENTITY_TYPES,
+  HEALTH_FINDING_STATUSES,
+  HEALTH_FINDING_STATUS_LABELS,
+  HEALTH_FINDING_STATUS_STYLES,
+  type HealthCheckFindingSummary,
+  type HealthDiagnosisCodeGroup,
+  type HealthFindingReviewStatus,
+} from '@/lib/health-checks/types';
+import { ISSUE_PRIORITIES } from '@/lib/issues/types';
+
+const PAGE_SIZE = 50;
+
+/** Relative windows offered for first_seen / last_seen filtering. */
+const SEEN_WINDOWS: { value: string; label: string; ms: number }[] = [
+  { value: '1d', label: 'Last 24h', ms: 24 * 60 * 60 * 1000 },
+  { value: '7d', label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { value: '30d', label: 'Last 30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+  { value: '90d', label: 'Last 90 days', ms: 90 * 24 * 60 * 60 * 1000 },
+];
+
+const BULK_ACTIONS: { status: HealthFindingReviewStatus; label: string }[] = [
+  { status: 'false_positive', label: 'Mark false positive' },
+  { status: 'ignored', label: 'Ignore' },
+  { status: 'open', label: 'Reopen' },
+];
+
+interface FindingFilters {
+  status: string;
+  severity: string;
+  entityType: string;
+  diagnosisCode: string;
+  groupId: string;
+  archetype: string;
+  subtype: string;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+const DEFAULT_FILTERS: FindingFilters = {
+  status: 'open',
+  severity: '',
+  entityType: '',
+  diagnosisCode: '',
+  groupId: '',
+  archetype: '',
+  subtype: '',
+  firstSeen: '',
+  lastSeen: '',
+};
+
+function buildQuery(filters: FindingFilters, offset: number): string {
+  const params = new URLSearchParams();
+  if (filters.status) params.set('status', filters.status);
+  if (filters.severity) params.set('severity', filters.severity);
+  if (filters.entityType) params.set('entity_type', filters.entityType);
+  if (filters.diagnosisCode.trim()) params.set('diagnosis_code', filters.diagnosisCode.trim());
+  if (filters.groupId) params.set('group_id', filters.groupId);
+  if (filters.archetype) params.set('archetype', filters.archetype);
+  if (filters.subtype) params.set('subtype', filters.subtype);
+  const now = Date.now();
+  const firstSeen = SEEN_WINDOWS.find((w) => w.value === filters.firstSeen);
+  if (firstSeen) params.set('first_seen_from', new Date(now - firstSeen.ms).toISOString());
+  const lastSeen = SEEN_WINDOWS.find((w) => w.value === filters.lastSeen);
+  if (lastSeen) params.set('last_seen_from', new Date(now - lastSeen.ms).toISOString());
+  params.set('limit', String(PAGE_SIZE));
+  params.set('offset', String(offset));
+  return params.toString();
+}
+
+export default function HealthFindingsPanel() {
+  const [filters, setFilters] = useState<FindingFilters>(DEFAULT_FILTERS);
+  const canUpdate = useCurrentUserRole().can('run_health_checks');
+  const [offset, setOffset] = useState(0);
+  const [findings, setFindings] = useState<HealthCheckFindingSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [groups, setGroups] = useState<HealthDiagnosisCodeGroup[]>([]);
+  const [applying, setApplying] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/health-checks/findings?${buildQuery(filters, offset)}`);
+      const data = (await res.json().catch(() => ({}))) as {
+        findings?: HealthCheckFindingSummary[];
+        total?: number;
+        error?: string;
+      };
+      if (!res.ok) throw new Error(data.error ?? 'Failed to load findings');
+      setFindings(data.findings ?? []);
+      setTotal(data.total ?? 0);
+      setSelected(new Set());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, offset]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    void (async () => {
+      const res = await fetch('/api/health-checks/diagnosis-code-groups');
+      if (res.ok) {
+        const data = (await res.json()) as { groups: HealthDiagnosisCodeGroup[] };
+        setGroups(data.groups);
+      }
+    })();
+  }, []);
+
+  const updateFilter = (key: keyof FindingFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setOffset(0);
+  };
+
+  const allSelected = findings.length > 0 && findings.every((f) => selected.has(f.id));
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(findings.map((f) => f.id)));
+  };
+
+  const toggleOne = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const applyStatus = async (status: HealthFindingReviewStatus) => {
+    if (selected.size === 0 || applying) return;
+    setApplying(true);
+    try {
+      const res = await fetch('/api/health-checks/findings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ finding_ids: Array.from(selected), status }),
+      });
+      const data = (await res.json().catch(() => ({}))) as { updated?: number; error?: string };
+      if (!res.ok) throw new Error(data.error ?? 'Failed to update findings');
+      toast.success(
+        `${data.updated ?? 0} finding${data.updated === 1 ? '' : 's'} marked ${HEALTH_FINDING_STATUS_LABELS[status].toLowerCase()}`,
+      );
+      await load();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to update findings');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const pageLabel = useMemo(() => {
+    if (total === 0) return '0';
+    return `${offset + 1}–${Math.min(offset + PAGE_SIZE, total)} of ${total}`;
+  }, [offset, total]);
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 py-2 border-b border-gray-200 bg-white flex flex-wrap items-center gap-2 shrink-0">
+        <FilterSelect
+          value={filters.status}
+          onChange={(v) => updateFilter('status', v)}
+          placeholder="Any status"
+          options={HEALTH_FINDING_STATUSES.map((s) => ({ value: s, label: HEALTH_FINDING_STATUS_LABELS[s] }))}
+        />
+        <FilterSelect
+          value={filters.severity}
+          onChange={(v) => updateFilter('severity', v)}
+          placeholder="Any severity"
+          options={ISSUE_PRIORITIES.map((p) => ({ value: p, label: p }))}
+        />
+        <FilterSelect
+          value={filters.entityType}
+          onChange={(v) => updateFilter('entityType', v)}
+          placeholder="Any entity"
+          options={HEALTH_CHECK_ENTITY_TYPES.map((t) => ({ value: t, label: t }))}
+        />
+        <FilterSelect
+          value={filters.groupId}
+          onChange={(v) => updateFilter('groupId', v)}
+          placeholder="Any group"
+          options={groups.map((g) => ({ value: g.id, label: g.label }))}
+        />
+        <input
+          type="text"
+          value={filters.diagnosisCode}
+          onChange={(e) => updateFilter('diagnosisCode', e.target.value)}
+          placeholder="Diagnosis code"
+          className="px-2 py-1 rounded-md border border-gray-300 text-xs w-32"
+        />
+        <FilterSelect
+          value={filters.archetype}
+          onChange={(v) => updateFilter('archetype', v)}
+          placeholder="Any archetype"
+          options={CONCEPT_ARCHETYPES.map((a) => ({ value: a, label: a }))}
+        />
+        <FilterSelect
+          value={filters.subtype}
+          onChange={(v) => updateFilter('subtype', v)}
+          placeholder="Any subtype"
+          options={CONCEPT_SUBTYPES.map((s) => ({ value: s, label: s }))}
+        />
+        <FilterSelect
+          value={filters.firstSeen}
+          onChange={(v) => updateFilter('firstSeen', v)}
+          placeholder="First seen: any"
+          options={SEEN_WINDOWS.map((w) => ({ value: w.value, label: `First seen: ${w.label}` }))}
+        />
+        <FilterSelect
+          value={filters.lastSeen}
+          onChange={(v) => updateFilter('lastSeen', v)}
+          placeholder="Last seen: any"
+          options={SEEN_WINDOWS.map((w) => ({ value: w.value, label: `Last seen: ${w.label}` }))}
+        />
+        <button
+          onClick={() => {
+            setFilters(DEFAULT_FILTERS);
+            setOffset(0);
+          }}
+          className="text-xs text-gray-500 hover:text-gray-800"
+        >
+          Reset
+        </button>
+        <button
+          onClick={() => void load()}
+          className="ml-auto p-1.5 rounded-md border border-gray-300 bg-white text-gray-600 hover:bg-gray-50"
+          title="Refresh"
+        >
+          <ArrowPathIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="px-4 py-2 border-b border-gray-100 bg-gray-50 flex items-center gap-2 shrink-0 text-xs">
+        <span className="text-gray-600">
+          {selected.size > 0 ? `${selected.size} selected` : 'Select findings for bulk actions'}
+        </span>
+        {BULK_ACTIONS.map((action) => (
+          <button
+            key={action.status}
+            onClick={() => void applyStatus(action.status)}
+            disabled={selected.size === 0 || applying || !canUpdate}
+            title={canUpdate ? undefined : 'Updating findings requires the reviewer role'}
+            className="px-2.5 py-1 rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {action.label}
+          </button>
+        ))}
+        <div className="ml-auto flex items-center gap-2 text-gray-600">
+          <span>{pageLabel}</span>
+          <button
+            onClick={() => setOffset((o) => Math.max(o - PAGE_SIZE, 0))}
+            disabled={offset === 0 || loading}
+            className="px-2 py-0.5 rounded border border-gray-300 bg-white disabled:opacity-50"
+          >
+            Prev
+          </button>
+          <button
+            onClick={() => setOffset((o) => o + PAGE_SIZE)}
+            disabled={offset + PAGE_SIZE >= total || loading}
+            className="px-2 py-0.5 rounded border border-gray-300 bg-white disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto">
+        {loading ? (
+          <div className="flex items-center justify-center py-20">
+            <LoadingSpinner />
+          </div>
+        ) : error ? (
+          <div className="p-6 text-center text-red-600 text-sm">{error}</div>
+        ) : findings.length === 0 ? (
+          <div className="p-6 text-sm text-gray-500 italic">No findings match these filters.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-600 uppercase sticky top-0 z-10">
+              <tr>
+                <th className="px-3 py-2 w-8">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleAll}
+                    className="rounded border-gray-300"
+                  />
+                </th>
+                <th className="px-3 py-2 text-left w-28">Status</th>
+                <th className="px-3 py-2 text-left w-32">Code</th>
+                <th className="px-3 py-2 text-left">Finding</th>
+                <th className="px-3 py-2 text-left w-56">Entity</th>
+                <th className="px-3 py-2 text-left w-40">Staged</th>
+                <th className="px-3 py-2 text-left w-36">Last seen</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 bg-white">
+              {findings.map((f) => (
+                <FindingRow
+                  key={f.id}
+                  finding={f}
+                  selected={selected.has(f.id)}
+                  expanded={expandedId === f.id}
+                  onToggleSelected={() => toggleOne(f.id)}
+                  onToggleExpanded={() => setExpandedId((prev) => (prev === f.id ? null : f.id))}
+                />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function FilterSelect({
+  value,
+  onChange,
+  placeholder,
+  options,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  options: { value: string; label: string }[];
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-2 py-1 rounded-md border border-gray-300 bg-white text-xs text-gray-700"
+    >
+      <option value="">{placeholder}</option>
+      {options.map((o) => (
+        <option key={o.value} value={o.value}>
+          {o.label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function FindingRow({
+  finding: f,
+  selected,
+  expanded,
+  onToggleSelected,
+  onToggleExpanded,
+}: {
+  finding: HealthCheckFindingSummary;
+  selected: boolean;
+  expanded: boolean;
+  onToggleSelected: () => void;
+  onToggleExpanded: () => void;
+}) {
+  const entityText = f.entity_label ?? `#${f.entity_id}`;
+  return (
+    <>
+      <tr className={selected ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+        <td className="px-3 py-2 align-top">
+          <input
+            type="checkbox"
+            checked={selected}
+            onChange={onToggleSelected}
+            className="rounded border-gray-300"
+          />
+        </td>
+        <td className="px-3 py-2 align-top">
+          <span
+            className={`inline-flex px-2 py-0.5 rounded-full border text-xs font-medium ${HEALTH_FINDING_STATUS_STYLES[f.status]}`}
+          >
+            {HEALTH_FINDING_STATUS_LABELS[f.status]}
+          </span>
+        </td>
+        <td className="px-3 py-2 align-top">
+          <div className="font-mono text-xs text-gray-800">{f.diagnosis_code.code}</div>
+          {f.diagnosis_code.group_label && (
+            <div className="text-[10px] text-gray-500 truncate">{f.diagnosis_code.group_label}</div>
+          )}
+        </td>
+        <td className="px-3 py-2 align-top">
+          <button
+            onClick={onToggleExpanded}
+            className="flex items-start gap-1 text-left text-gray-900 hover:text-blue-700"
+          >
+            {expanded ? (
+              <ChevronDownIcon className="w-3.5 h-3.5 mt-0.5 shrink-0 text-gray-400" />
+            ) : (
+              <ChevronRightIcon className="w-3.5 h-3.5 mt-0.5 shrink-0 text-gray-400" />
+            )}
+            <span>{f.title}</span>
+          </button>
+          <div className="ml-5 text-[10px] text-gray-500 capitalize">{f.severity}</div>
+        </td>
+        <td className="px-3 py-2 align-top text-xs">
+          <div className="text-[10px] uppercase text-gray-500">{f.entity_type}</div>
+          {f.anchor_concept_id ? (
+            <a
+              href={`/graph/concepts?entry=${f.anchor_concept_id}`}
+              className="text-blue-600 hover:underline break-words"
+            >
+              {entityText}
+            </a>
+          ) : (
+            <span className="text-gray-800 break-words">{entityText}</span>
+          )}
+        </td>
+        <td className="px-3 py-2 align-top text-xs">
+          {f.staged_changes.length === 0 ? (
+            <span className="text-gray-400">—</span>
+          ) : (
+            <div className="flex flex-wrap gap-1">
+              {f.staged_changes.map((c) => (
+                <span
+                  key={`${c.kind}:${c.id}`}
+                  className={`inline-flex px-1.5 py-0.5 rounded border text-[10px] ${
+                    c.status === 'pending'
+                      ? 'bg-amber-50 text-amber-800 border-amber-200'
+                      : 'bg-emerald-50 text-emerald-800 border-emerald-200'
+                  }`}
+                  title={`${c.label} (${c.status})`}
+                >
+                  {c.kind === 'change_plan' ? 'Plan' : 'Changeset'} #{c.id}
+                </span>
+              ))}
+            </div>
+          )}
+        </td>
+        <td className="px-3 py-2 align-top text-xs text-gray-500">
+          {new Date(f.last_seen_at).toLocaleString()}
+        </td>
+      </tr>
+      {expanded && (
+        <tr className="bg-gray-50">
+          <td />
+          <td colSpan={6} className="px-3 py-3 text-xs text-gray-700 space-y-2">
+            {f.message && <p className="whitespace-pre-wrap">{f.message}</p>}
+            <div className="text-gray-500">
+              Check {f.check_definition_code} · run #{f.run_id} · first seen{' '}
+              {new Date(f.first_seen_at).toLocaleString()}
+              {f.resolved_at && <> · closed {new Date(f.resolved_at).toLocaleString()}</>}
+            </div>
+            {f.evidence != null && (
+              <JsonBlock label="Evidence" value={f.evidence} />
+            )}
+            {f.suggested_fix != null && (
+              <JsonBlock label="Suggested fix" value={f.suggested_fix} />
+            )}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+function JsonBlock({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div>
+      <div className="text-[10px] font-semibold text-gray-500 uppercase tracking-wide mb-1">
+        {label}
+      </div>
+      <pre className="bg-white border border-gray-200 rounded p-2 overflow-x-auto text-[11px] max-h-48">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import {
+  NOTIFICATION_KINDS,
+  NOTIFICATION_KIND_LABELS,
+  type NotificationKind,
+  type NotificationPreferences,
+  type NotificationSubscription,
+} from '@/lib/notifications/types';
+
+const TARGET_LABELS: Record<NotificationSubscription['target_type'], string> = {
+  frame: 'Concept',
+  lexical_unit: 'Lexical unit',
+  change_plan: 'Change plan',
+  diagnosis_code: 'Diagnosis code',
+};
+
+/**
+ * Delivery channels (webhook, daily email digest), muted kinds and the
+ * list of watched targets. In-app notifications are always on.
+ */
+export default function NotificationSettings() {
+  const [prefs, setPrefs] = useState<NotificationPreferences | null>(null);
+  const [subscriptions, setSubscriptions] = useState<NotificationSubscription[]>([]);
+  const [email, setEmail] = useState('');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      fetch('/api/notifications/preferences').then((res) => (res.ok ? res.json() : null)),
+      fetch('/api/notifications/subscriptions').then((res) => (res.ok ? res.json() : null)),
+    ])
+      .then(([p, s]: [NotificationPreferences | null, { subscriptions: NotificationSubscription[] } | null]) => {
+        if (cancelled) return;
+        if (p) {
+          setPrefs(p);
+          setEmail(p.email ?? '');
+          setWebhookUrl(p.webhook_url ?? '');
+        }
+        setSubscriptions(s?.subscriptions ?? []);
+      })
+      .catch(() => setError('Failed to load notification settings'));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const save = useCallback(async (patch: Partial<NotificationPreferences>) => {
+    setSaving(true);
+    setError(null);
+    setSaved(false);
+    try {
+      const res = await fetch('/api/notifications/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body?.error ?? `Failed to save (${res.status})`);
+      setPrefs(body as NotificationPreferences);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  const toggleMuted = (kind: NotificationKind) => {
+    if (!prefs) return;
+    const muted = prefs.muted_kinds.includes(kind)
+      ? prefs.muted_kinds.filter((k) => k !== kind)
+      : [...prefs.muted_kinds, kind];
+    void save({ muted_kinds: muted });
+  };
+
+  const removeSubscription = async (s: NotificationSubscription) => {
+    const res = await fetch(
+      `/api/notifications/subscriptions?target_type=${s.target_type}&target_id=${s.target_id}`,
+      { method: 'DELETE' },
+    );
+    if (res.ok) setSubscriptions((prev) => prev.filter((x) => x.id !== s.id));
+  };
+
+  if (!prefs) {
+    return (
+      <div className="p-6 flex justify-center">
+        {error ? <span className="text-sm text-red-600">{error}</span> : <LoadingSpinner size="sm" noPadding />}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-5 text-sm">
+      <section className="space-y-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Daily email digest</h4>
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          onBlur={() => email !== (prefs.email ?? '') && void save({ email: email || null })}
+          placeholder="you@example.org"
+          className="w-full rounded-md border border-gray-300 px-2.5 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <label className="flex items-center gap-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={prefs.email_digest}
+            disabled={saving || !prefs.email}
+            onChange={(e) => void save({ email_digest: e.target.checked })}
+            className="rounded border-gray-300"
+          />
+          Send me a daily digest
+          <a
+            href="/api/notifications/digest"
+            target="_blank"
+            rel="noreferrer"
+            className="ml-auto text-xs text-blue-600 hover:underline"
+          >
+            Preview
+          </a>
+        </label>
+      </section>
+
+      <section className="space-y-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Webhook</h4>
+        <input
+          type="url"
+          value={webhookUrl}
+          onChange={(e) => setWebhookUrl(e.target.value)}
+          onBlur={() => webhookUrl !== (prefs.webhook_url ?? '') && void save({ webhook_url: webhookUrl || null })}
+          placeholder="https://hooks.slack.com/services/…"
+          className="w-full rounded-md border border-gray-300 px-2.5 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <p className="text-xs text-gray-500">Each notification is posted as a Slack-compatible message.</p>
+      </section>
+
+      <section className="space-y-1.5">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Notify me about</h4>
+        {NOTIFICATION_KINDS.map((kind) => (
+          <label key={kind} className="flex items-center gap-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={!prefs.muted_kinds.includes(kind)}
+              disabled={saving}
+              onChange={() => toggleMuted(kind)}
+              className="rounded border-gray-300"
+            />
+            {NOTIFICATION_KIND_LABELS[kind]}
+          </label>
+        ))}
+      </section>
+
+      <section className="space-y-1.5">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+          Watching ({subscriptions.length})
+        </h4>
+        {subscriptions.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            Use the Watch button on a concept, change plan or diagnosis code to follow it.
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {subscriptions.map((s) => (
+              <li key={s.id} className="flex items-center gap-2">
+                <span className="text-[11px] text-gray-500 shrink-0">{TARGET_LABELS[s.target_type]}</span>
+                <span className="truncate text-gray-800">{s.target_label ?? `#${s.target_id}`}</span>
+                <button
+                  type="button"
+                  onClick={() => void removeSubscription(s)}
+                  className="ml-auto p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                  title="Stop watching"
+                >
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {(error || saved) && (
+        <p className={`text-xs ${error ? 'text-red-600' : 'text-emerald-600'}`}>{error ?? 'Saved'}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNowStrict } from 'date-fns';
+import { BellIcon, Cog6ToothIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { NotificationBadge } from '@/components/NotificationBadge';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import NotificationSettings from './NotificationSettings';
+import type { Notification, NotificationList } from '@/lib/notifications/types';
+
+const POLL_INTERVAL = 30000;
+
+interface NotificationsButtonProps {
+  className?: string;
+}
+
+/**
+ * Header bell: unread count, the latest notifications and the
+ * per-user delivery settings. Polling the list also drains queued
+ * notification events server-side.
+ */
+export default function NotificationsButton({ className }: NotificationsButtonProps) {
+  const router = useRouter();
+  const [data, setData] = useState<NotificationList | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [view, setView] = useState<'inbox' | 'settings'>('inbox');
+  const [isLoading, setIsLoading] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const res = await fetch('/api/notifications?limit=30');
+      if (!res.ok) return;
+      setData((await res.json()) as NotificationList);
+    } catch (err) {
+      console.error('Error fetching notifications:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const markRead = useCallback(async (body: { ids: string[] } | { all: true }) => {
+    const res = await fetch('/api/notifications/read', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) return;
+    const now = new Date().toISOString();
+    setData((prev) => {
+      if (!prev) return prev;
+      const ids = 'ids' in body ? new Set(body.ids) : null;
+      let cleared = 0;
+      const notifications = prev.notifications.map((n) => {
+        if (n.read_at || (ids && !ids.has(n.id))) return n;
+        cleared += 1;
+        return { ...n, read_at: now };
+      });
+      return {
+        notifications,
+        unread_count: ids ? Math.max(0, prev.unread_count - cleared) : 0,
+      };
+    });
+  }, []);
+
+  const handleOpen = async () => {
+    const next = !isOpen;
+    setIsOpen(next);
+    if (next) {
+      setView('inbox');
+      setIsLoading(true);
+      await fetchNotifications();
+      setIsLoading(false);
+    }
+  };
+
+  const handleItemClick = (n: Notification) => {
+    if (!n.read_at) void markRead({ ids: [n.id] });
+    if (n.link) {
+      setIsOpen(false);
+      router.push(n.link);
+    }
+  };
+
+  if (!data) return null;
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={handleOpen}
+        className={`relative inline-flex items-center justify-center rounded-xl px-3 py-2.5 text-sm font-medium border transition-colors ${
+          isOpen
+            ? 'bg-blue-50 text-blue-600 border-blue-300 ring-1 ring-blue-400'
+            : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-blue-50 hover:text-blue-600 hover:border-blue-300'
+        } hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${className || ''}`}
+        title="Notifications"
+      >
+        <BellIcon className="w-5 h-5" />
+        <NotificationBadge count={data.unread_count} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 max-h-[32rem] flex flex-col bg-white border border-gray-200 rounded-xl shadow-lg z-50 overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between gap-2">
+            <h3 className="text-sm font-semibold text-gray-900">
+              {view === 'inbox' ? 'Notifications' : 'Notification settings'}
+            </h3>
+            <div className="flex items-center gap-1">
+              {view === 'inbox' && data.unread_count > 0 && (
+                <button
+                  type="button"
+                  onClick={() => void markRead({ all: true })}
+                  className="px-2 py-1 text-xs font-medium text-blue-600 rounded-md hover:bg-blue-50"
+                >
+                  Mark all read
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setView(view === 'inbox' ? 'settings' : 'inbox')}
+                className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100"
+                title={view === 'inbox' ? 'Settings' : 'Back to notifications'}
+              >
+                {view === 'inbox' ? <Cog6ToothIcon className="w-4 h-4" /> : <XMarkIcon className="w-4 h-4" />}
+              </button>
+            </div>
+          </div>
+
+          {view === 'settings' ? (
+            <NotificationSettings />
+          ) : isLoading && data.notifications.length === 0 ? (
+            <div className="p-6 flex justify-center">
+              <LoadingSpinner size="sm" noPadding />
+            </div>
+          ) : data.notifications.length === 0 ? (
+            <div className="p-6 text-sm text-gray-500 text-center">
+              Nothing yet. Mentions, reviews of your changes, finished LLM jobs and activity on things you
+              watch show up here.
+            </div>
+          ) : (
+            <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+              {data.notifications.map((n) => (
+                <li key={n.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleItemClick(n)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${n.read_at ? '' : 'bg-blue-50/40'}`}
+                  >
+                    <div className="flex items-start gap-2">
+                      <span
+                        className={`mt-1.5 w-2 h-2 rounded-full shrink-0 ${n.read_at ? 'bg-transparent' : 'bg-blue-500'}`}
+                        aria-hidden
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="text-sm text-gray-900">{n.title}</div>
+                        {n.body && <div className="mt-0.5 text-xs text-gray-600 line-clamp-2">{n.body}</div>}
+                        <div className="mt-1 text-[11px] text-gray-400">
+                          {formatDistanceToNowStrict(new Date(n.created_at), { addSuffix: true })}
+                        </div>
+                      </div>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { HandThumbUpIcon } from '@heroicons/react/24/outline';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { useCurrentUserRole } from '@/hooks/useCurrentUserRole';
+import type { ChangeApprovalStatus } from '@/lib/commit-policies/types';
+
+interface ApprovalControlProps {
+  /** `/api/changesets/:id/approvals` or `/api/change-plans/:id/approvals`. */
+  endpoint: string;
+  /** Authors of the change; they can't approve it. */
+  createdBy: string;
+}
+
+/**
+ * Approval count and approve / withdraw toggle for changes a
+ * require_approvals commit policy has flagged. The commit routes enforce
+ * the requirement; this only shows where things stand.
+ */
+export default function ApprovalControl({ endpoint, createdBy }: ApprovalControlProps) {
+  const { can, userName } = useCurrentUserRole();
+  const [status, setStatus] = useState<ChangeApprovalStatus | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(endpoint)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((body: ChangeApprovalStatus | null) => {
+        if (!cancelled) setStatus(body);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [endpoint]);
+
+  const approved = status?.approvals.some((a) => a.approved_by === userName) ?? false;
+
+  const toggle = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(endpoint, { method: approved ? 'DELETE' : 'POST' });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body?.error ?? `Failed to update approval (${res.status})`);
+      setStatus(body as ChangeApprovalStatus);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update approval');
+    } finally {
+      setBusy(false);
+    }
+  }, [endpoint, approved]);
+
+  if (!status || status.required_approvals === 0) return null;
+
+  const disabledReason = !can('review_changes')
+    ? 'Approving requires the reviewer role'
+    : createdBy === userName
+      ? 'Authors cannot approve their own changes'
+      : null;
+  const approvers = status.approvals.map((a) => a.approved_by).join(', ');
+
+  return (
+    <div className="inline-flex items-center gap-1.5">
+      <span
+        className={`px-2 py-0.5 text-[11px] font-medium rounded-full ${
+          status.remaining === 0 ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-700'
+        }`}
+        title={approvers ? `Approved by ${approvers}` : 'No approvals yet'}
+      >
+        {status.approvals.length}/{status.required_approvals} approvals
+      </span>
+      <button
+        type="button"
+        onClick={toggle}
+        disabled={busy || disabledReason !== null}
+        title={error ?? disabledReason ?? (approved ? 'Withdraw your approval' : 'Approve for commit')}
+        className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium text-sky-700 border border-sky-200 rounded-md bg-white hover:bg-sky-50 disabled:opacity-50"
+      >
+        {busy ? <LoadingSpinner size="sm" noPadding /> : <HandThumbUpIcon className="w-3.5 h-3.5" />}
+        {approved ? 'Withdraw' : 'Approve'}
+      </button>
+    </div>
+  );
+}
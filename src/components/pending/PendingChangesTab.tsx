@@ -229,6 +229,7 @@ export default function PendingChangesTab({
         isOpen={actions.conflictDialog.isOpen}
         onClose={actions.closeConflictDialog}
         onDiscard={actions.discardConflictedChangeset}
+        onRebased={actions.handleConflictRebased}
         errors={actions.conflictDialog.errors}
         entityDisplay={actions.conflictDialog.entityDisplay ?? undefined}
         loading={actions.isDiscardingConflicted}
@@ -18,12 +18,16 @@ import {
   TableCellsIcon,
   PlusCircleIcon,
   DocumentTextIcon,
+  BackwardIcon,
 } from '@heroicons/react/24/outline';
 import type {
   IssueChangePlanSummary,
   IssueChangePlanChangesetSummary,
 } from '@/lib/issues/types';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import ApprovalControl from '@/components/pending/ApprovalControl';
+import WatchButton from '@/components/WatchButton';
+import { useCurrentUserRole } from '@/hooks/useCurrentUserRole';
 import { RevisionModal } from '@/components/editing/RevisionModal';
 import { RevisionNavigator } from '@/components/editing/RevisionNavigator';
 import type { AlternativeEntry } from '@/lib/version-control/types';
@@ -89,6 +93,9 @@ const PLAN_KIND_LABELS: Record<string, string> = {
   detach_parent_relation: 'Detach parent relation',
   upsert_role_mappings: 'Upsert role mappings',
   ingest_new_tbox_concept: 'Add new concept',
+  ontology_import: 'Ontology import',
+  revert: 'Revert',
+  change_hypernym: 'Change hypernym',
 };
 
 const PLAN_STATUS_BADGE: Record<string, string> = {
@@ -111,6 +118,7 @@ function planKindIcon(kind: string): React.ReactNode {
       return <ArrowsPointingInIcon className="w-4 h-4" />;
     case 'move_frame_sense':
     case 'move_frame_parent':
+    case 'change_hypernym':
       return <ArrowRightCircleIcon className="w-4 h-4" />;
     case 'detach_parent_relation':
       return <XMarkIcon className="w-4 h-4" />;
@@ -118,6 +126,10 @@ function planKindIcon(kind: string): React.ReactNode {
       return <ArrowPathIcon className="w-4 h-4" />;
     case 'ingest_new_tbox_concept':
       return <PlusCircleIcon className="w-4 h-4" />;
+    case 'ontology_import':
+      return <DocumentTextIcon className="w-4 h-4" />;
+    case 'revert':
+      return <BackwardIcon className="w-4 h-4" />;
     default:
       return <Squares2X2Icon className="w-4 h-4" />;
   }
@@ -1205,6 +1217,171 @@ function PlanKindRenderer({ plan, metadataOverride }: { plan: IssueChangePlanSum
         </div>
       );
     }
+    case 'ontology_import': {
+      // metadata (from `stageOntologyImport`):
+      //   filename:         string | null
+      //   counts:           { new_concepts, concept_updates, added_parents,
+      //                       removed_parents, new_properties, property_updates }
+      //   unsupported:      string[]  (diff lines the importer could not stage)
+      //   missing_concepts: number
+      const counts = (md.counts as Record<string, unknown> | undefined) ?? {};
+      const unsupported = Array.isArray(md.unsupported) ? (md.unsupported as unknown[]).map(String) : [];
+      const missing = typeof md.missing_concepts === 'number' ? md.missing_concepts : 0;
+      const chips: Array<[string, unknown]> = [
+        ['new concepts', counts.new_concepts],
+        ['concept edits', counts.concept_updates],
+        ['parents added', counts.added_parents],
+        ['parents removed', counts.removed_parents],
+        ['new properties', counts.new_properties],
+        ['property edits', counts.property_updates],
+      ];
+
+      return (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-700">
+            {snapStr(md, 'filename') && (
+              <span className="inline-flex items-center gap-1 font-mono px-2 py-0.5 rounded bg-gray-50 border border-gray-200">
+                <DocumentTextIcon className="w-3.5 h-3.5" />
+                {snapStr(md, 'filename')}
+              </span>
+            )}
+            {chips
+              .filter(([, n]) => typeof n === 'number' && n > 0)
+              .map(([label, n]) => (
+                <span key={label} className="px-2 py-0.5 rounded-full bg-blue-50 border border-blue-200 text-blue-800">
+                  {String(n)} {label}
+                </span>
+              ))}
+          </div>
+
+          {missing > 0 && (
+            <p className="text-xs text-gray-500">
+              {missing} concept{missing === 1 ? '' : 's'} in the explorer {missing === 1 ? 'is' : 'are'} not in the file and {missing === 1 ? 'was' : 'were'} left untouched.
+            </p>
+          )}
+
+          {unsupported.length > 0 && (
+            <div className="rounded-xl border border-amber-200 bg-amber-50/30 p-3">
+              <header className="flex items-center gap-1 text-xs font-bold uppercase tracking-wider text-amber-700 mb-2">
+                <ExclamationTriangleIcon className="w-3.5 h-3.5" /> Not imported
+              </header>
+              <ul className="list-disc list-inside text-xs text-amber-900 space-y-0.5 font-mono max-h-48 overflow-y-auto">
+                {unsupported.map((line, i) => (
+                  <li key={i}>{line}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      );
+    }
+    case 'revert': {
+      // metadata (from `stageChangesetRevert` / `stagePlanRevert`):
+      //   reverts_plan_id:       string | null
+      //   reverts_changeset_ids: string[]
+      //   conflicts:             RevertConflict[]  (overridden with force)
+      //   skipped:               string[]          (parts not inverted)
+      const revertsPlanId = snapStr(md, 'reverts_plan_id');
+      const revertsIds = Array.isArray(md.reverts_changeset_ids)
+        ? (md.reverts_changeset_ids as unknown[]).map(String)
+        : [];
+      const conflicts = Array.isArray(md.conflicts)
+        ? (md.conflicts as Array<Record<string, unknown>>).map((c) => String(c.message ?? ''))
+        : [];
+      const skipped = Array.isArray(md.skipped) ? (md.skipped as unknown[]).map(String) : [];
+
+      return (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-700">
+            <BackwardIcon className="w-3.5 h-3.5" />
+            {revertsPlanId ? (
+              <span>Undoes plan <span className="font-mono">#{revertsPlanId}</span></span>
+            ) : (
+              <span>
+                Undoes changeset{revertsIds.length === 1 ? '' : 's'}{' '}
+                <span className="font-mono">{revertsIds.map((id) => `#${id}`).join(', ')}</span>
+              </span>
+            )}
+          </div>
+
+          {conflicts.length > 0 && (
+            <div className="rounded-xl border border-red-200 bg-red-50/30 p-3">
+              <header className="flex items-center gap-1 text-xs font-bold uppercase tracking-wider text-red-700 mb-2">
+                <ExclamationTriangleIcon className="w-3.5 h-3.5" /> Overrides later changes
+              </header>
+              <ul className="list-disc list-inside text-xs text-red-900 space-y-0.5">
+                {conflicts.map((line, i) => (
+                  <li key={i}>{line}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {skipped.length > 0 && (
+            <div className="rounded-xl border border-amber-200 bg-amber-50/30 p-3">
+              <header className="flex items-center gap-1 text-xs font-bold uppercase tracking-wider text-amber-700 mb-2">
+                Not reverted
+              </header>
+              <ul className="list-disc list-inside text-xs text-amber-900 space-y-0.5 font-mono">
+                {skipped.map((line, i) => (
+                  <li key={i}>{line}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      );
+    }
+    case 'change_hypernym': {
+      // metadata (from `stageHypernymChange`):
+      //   unit_code:        string
+      //   old_hypernym:     string | null
+      //   new_hypernym:     string
+      //   hyponyms_to_move: string[]  (follow the unit; no edge changes)
+      //   hyponyms_to_stay: string[]  (re-attached to old_hypernym)
+      const unitCode = snapStr(md, 'unit_code') ?? '?';
+      const oldHypernym = snapStr(md, 'old_hypernym');
+      const newHypernym = snapStr(md, 'new_hypernym') ?? '?';
+      const moving = Array.isArray(md.hyponyms_to_move) ? (md.hyponyms_to_move as unknown[]).map(String) : [];
+      const staying = Array.isArray(md.hyponyms_to_stay) ? (md.hyponyms_to_stay as unknown[]).map(String) : [];
+
+      return (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            <span className="font-mono px-2 py-0.5 rounded bg-blue-50 border border-blue-200 text-blue-800">
+              {unitCode}
+            </span>
+            <span className="text-gray-400">hypernym</span>
+            {oldHypernym && (
+              <>
+                <span className="font-mono px-2 py-0.5 rounded bg-red-50 border border-red-200 text-red-800 line-through">
+                  {oldHypernym}
+                </span>
+                <ArrowRightCircleIcon className="w-4 h-4 text-gray-400" />
+              </>
+            )}
+            <span className="font-mono px-2 py-0.5 rounded bg-green-50 border border-green-200 text-green-800">
+              {newHypernym}
+            </span>
+          </div>
+
+          {(moving.length > 0 || staying.length > 0) && (
+            <div className="grid grid-cols-2 gap-3 text-xs">
+              <div>
+                <div className="font-semibold text-gray-600 mb-1">Hyponyms moving with {unitCode}</div>
+                <div className="font-mono text-gray-800">{moving.length > 0 ? moving.join(', ') : '—'}</div>
+              </div>
+              <div>
+                <div className="font-semibold text-gray-600 mb-1">
+                  Hyponyms staying under {oldHypernym ?? 'the old hypernym'}
+                </div>
+                <div className="font-mono text-gray-800">{staying.length > 0 ? staying.join(', ') : '—'}</div>
+              </div>
+            </div>
+          )}
+        </div>
+      );
+    }
     default: {
       // Forward-compatible fallback for plan kinds the UI hasn't
       // learned about yet (or that have been removed at the runner).
@@ -1263,6 +1440,7 @@ function readConflictReport(
 export default function PlanCard({ plan, subjectLabel, onCommitted, onDiscarded, onRevised, onConflict }: PlanCardProps) {
   const [expanded, setExpanded] = useState(false);
   const [busy, setBusy] = useState<'commit' | 'discard' | null>(null);
+  const { can, isOwnWork, userName } = useCurrentUserRole();
   const [error, setError] = useState<string | null>(null);
   const [revisionModalOpen, setRevisionModalOpen] = useState(false);
   const [revising, setRevising] = useState(false);
@@ -1316,6 +1494,13 @@ export default function PlanCard({ plan, subjectLabel, onCommitted, onDiscarded,
 
   const conflict = useMemo(() => readConflictReport(activePlan.conflict_report), [activePlan.conflict_report]);
   const isPending = activePlan.status === 'pending';
+  // Mirrors the server checks; the commit / discard routes have the final say.
+  const commitBlockedReason = !can('review_changes')
+    ? 'Committing requires the reviewer role'
+    : isOwnWork(activePlan.created_by)
+      ? 'Another reviewer has to commit your own plan'
+      : null;
+  const canDiscard = can('review_changes') || (can('stage_changes') && activePlan.created_by === userName);
   const statusClass = PLAN_STATUS_BADGE[activePlan.status] ?? PLAN_STATUS_BADGE.pending;
 
   // Find the primary changeset for revision purposes.
@@ -1476,9 +1661,17 @@ export default function PlanCard({ plan, subjectLabel, onCommitted, onDiscarded,
         </div>
         {isPending && (
           <div className="flex items-center gap-2 shrink-0">
+            <WatchButton targetType="change_plan" targetId={activePlan.id} />
+            {(activePlan.required_approvals ?? 0) > 0 && (
+              <ApprovalControl
+                endpoint={`/api/change-plans/${activePlan.id}/approvals`}
+                createdBy={activePlan.created_by}
+              />
+            )}
             <button
               onClick={handleDiscard}
-              disabled={busy !== null}
+              disabled={busy !== null || !canDiscard}
+              title={canDiscard ? undefined : 'Only reviewers can discard plans made by others'}
               className="inline-flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-red-700 border border-red-200 rounded-md bg-white hover:bg-red-50 disabled:opacity-50"
             >
               {busy === 'discard' ? <LoadingSpinner size="sm" noPadding /> : <XCircleIcon className="w-4 h-4" />}
@@ -1486,7 +1679,7 @@ export default function PlanCard({ plan, subjectLabel, onCommitted, onDiscarded,
             </button>
             <button
               onClick={() => setRevisionModalOpen(true)}
-              disabled={busy !== null || revising}
+              disabled={busy !== null || revising || !can('stage_changes')}
               className="inline-flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-indigo-700 border border-indigo-200 rounded-md bg-white hover:bg-indigo-50 disabled:opacity-50"
             >
               {revising ? <LoadingSpinner size="sm" noPadding /> : <PlusCircleIcon className="w-4 h-4" />}
@@ -1494,7 +1687,8 @@ export default function PlanCard({ plan, subjectLabel, onCommitted, onDiscarded,
             </button>
             <button
               onClick={handleCommit}
-              disabled={busy !== null}
+              disabled={busy !== null || commitBlockedReason !== null}
+              title={commitBlockedReason ?? undefined}
               className="inline-flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-white bg-emerald-600 rounded-md hover:bg-emerald-500 disabled:opacity-50"
             >
               {busy === 'commit' ? <LoadingSpinner size="sm" noPadding /> : <CheckCircleIcon className="w-4 h-4" />}
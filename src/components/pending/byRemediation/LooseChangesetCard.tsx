@@ -14,6 +14,7 @@ import {
   ArrowsPointingInIcon,
 } from '@heroicons/react/24/outline';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import { useCurrentUserRole } from '@/hooks/useCurrentUserRole';
 import { RevisionButton } from '@/components/editing/RevisionButton';
 import { RevisionModal } from '@/components/editing/RevisionModal';
 import { RevisionNavigator } from '@/components/editing/RevisionNavigator';
@@ -23,6 +24,8 @@ import PropertyPanel, {
   type RoleSnapshot,
 } from '@/components/pending/context/PropertyPanel';
 import PlanContextPanel from '@/components/pending/context/PlanContextPanel';
+import ConceptMergePreview from '@/components/pending/context/ConceptMergePreview';
+import ApprovalControl from '@/components/pending/ApprovalControl';
 import {
   formatUserName,
   getEntityDisplayName,
@@ -74,6 +77,13 @@ export default function LooseChangesetCard({
   const [revisionModalOpen, setRevisionModalOpen] = useState(false);
   const [busyAction, setBusyAction] = useState<'commit' | 'reject' | null>(null);
   const isBusy = busyAction !== null;
+  const { can, isOwnWork, userName } = useCurrentUserRole();
+  const commitBlockedReason = !can('review_changes')
+    ? 'Committing requires the reviewer role'
+    : isOwnWork(cs.created_by)
+      ? 'Another reviewer has to commit your own change'
+      : null;
+  const canDiscard = can('review_changes') || (can('stage_changes') && cs.created_by === userName);
 
   const handleCommit = async () => {
     setBusyAction('commit');
@@ -121,6 +131,18 @@ export default function LooseChangesetCard({
             <span className="text-xs text-gray-500">
               {changeCount} change{changeCount === 1 ? '' : 's'}
             </span>
+            {cs.stale && (
+              <span
+                className="inline-flex items-center px-2 py-0.5 rounded-full border text-xs font-medium bg-orange-100 text-orange-800 border-orange-200"
+                title={
+                  cs.stale.current_version === null
+                    ? 'The entity no longer exists'
+                    : `Staged against version ${cs.entity_version}; the entity is now at version ${cs.stale.current_version}. Committing will offer a rebase.`
+                }
+              >
+                Stale
+              </span>
+            )}
           </div>
         </div>
 
@@ -137,15 +159,18 @@ export default function LooseChangesetCard({
           )}
           <RevisionButton
             onClick={() => setRevisionModalOpen(true)}
-            disabled={isBusy}
+            disabled={isBusy || !can('stage_changes')}
             revisionCount={cs.alternatives_count}
           />
+          {cs.required_approvals > 0 && (
+            <ApprovalControl endpoint={`/api/changesets/${cs.id}/approvals`} createdBy={cs.created_by} />
+          )}
           <button
             type="button"
             onClick={() => void handleReject()}
-            disabled={isBusy}
+            disabled={isBusy || !canDiscard}
             className="inline-flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-red-700 border border-red-200 rounded-md bg-white hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
-            title="Reject changeset"
+            title={canDiscard ? 'Reject changeset' : 'Only reviewers can discard changes made by others'}
           >
             {busyAction === 'reject' ? (
               <LoadingSpinner size="sm" noPadding />
@@ -157,9 +182,9 @@ export default function LooseChangesetCard({
           <button
             type="button"
             onClick={() => void handleCommit()}
-            disabled={isBusy}
+            disabled={isBusy || commitBlockedReason !== null}
             className="inline-flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-white bg-emerald-600 rounded-md hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed"
-            title="Commit changeset"
+            title={commitBlockedReason ?? 'Commit changeset'}
           >
             {busyAction === 'commit' ? (
               <LoadingSpinner size="sm" noPadding />
@@ -662,6 +687,18 @@ function ChangesetBody({ cs, pendingFieldChanges }: ChangesetBodyProps) {
     return null;
   }
 
+  // Concept merges: the live plan (senses, hierarchy, properties and every
+  // row that follows the loser) from the same planner the commit runs.
+  if (cs.operation === 'merge' && cs.entity_type === 'frame') {
+    const survivorId = pickIdLike(cs.before_snapshot?.__merge_child_id);
+    if (!cs.entity_id || !survivorId) return null;
+    return (
+      <div className="rounded-lg border border-gray-200 bg-white px-3 py-2">
+        <ConceptMergePreview loserId={cs.entity_id} survivorId={survivorId} />
+      </div>
+    );
+  }
+
   // Update: render a field-by-field Before/After panel using the same
   // shell as the reparent UI. Each side renders the same fields in the
   // same order so the rows line up visually.
@@ -756,6 +793,9 @@ const ENTITY_LABELS: Record<string, string> = {
   frame_sense: 'sense',
   lexical_unit: 'lexical unit',
   lexical_unit_sense: 'lexical unit sense',
+  referent: 'referent',
+  instance: 'claim instance',
+  lexical_unit_relation: 'lexical unit relation',
 };
 
 const OPERATION_VERB: Record<string, string> = {
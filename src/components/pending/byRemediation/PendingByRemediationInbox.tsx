@@ -8,6 +8,7 @@ import {
   CheckIcon,
 } from '@heroicons/react/24/outline';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import { useCurrentUserRole } from '@/hooks/useCurrentUserRole';
 import { EmptyState } from '@/components/ui';
 import LazyMount from '@/components/pending/LazyMount';
 import PlanCard from '@/components/pending/PlanCard';
@@ -477,6 +478,7 @@ function ActionBucketHeader({
   onCommitPlans: () => void;
 }) {
   const hasPlans = plansCount > 0;
+  const canCommit = useCurrentUserRole().can('review_changes');
 
   return (
     <header className="px-4 py-3 bg-white border-b border-gray-200 shrink-0">
@@ -515,7 +517,8 @@ function ActionBucketHeader({
             <button
               type="button"
               onClick={onCommitPlans}
-              disabled={plansBusy}
+              disabled={plansBusy || !canCommit}
+              title={canCommit ? undefined : 'Committing requires the reviewer role'}
               className="inline-flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-white bg-emerald-700 rounded-md hover:bg-emerald-600 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {plansBusy
@@ -7,7 +7,7 @@ import {
 export function getEntityDisplayName(cs: ByRemediationChangeset): string {
   const snapshot = cs.before_snapshot || cs.after_snapshot;
   if (snapshot) {
-    if (cs.entity_type === 'frame_relation') {
+    if (cs.entity_type === 'frame_relation' || cs.entity_type === 'lexical_unit_relation') {
       const relType = String(snapshot.type ?? 'relation');
       const srcLabel = (snapshot.parent_label || snapshot.source_label) ? String(snapshot.parent_label || snapshot.source_label) : null;
       const tgtLabel = (snapshot.child_label || snapshot.target_label) ? String(snapshot.child_label || snapshot.target_label) : null;
@@ -16,9 +16,18 @@ export function getEntityDisplayName(cs: ByRemediationChangeset): string {
       const tgtId = (snapshot.child_id || snapshot.target_id) ? `#${snapshot.child_id || snapshot.target_id}` : '?';
       return `${srcId} → ${tgtId} (${relType})`;
     }
+    if (cs.entity_type === 'sense_contrast') {
+      const a = snapshot.sense_label ? String(snapshot.sense_label) : `#${snapshot.sense_id ?? '?'}`;
+      const b = snapshot.contrasted_sense_label ? String(snapshot.contrasted_sense_label) : `#${snapshot.contrasted_sense_id ?? '?'}`;
+      return `${a} ↔ ${b} (contrast)`;
+    }
     if (cs.entity_type === 'frame') {
       const label = snapshot.label;
       const id = cs.entity_id;
+      const ctx = snapshot.__merge_context as Record<string, unknown> | undefined;
+      if (cs.operation === 'merge' && ctx && label) {
+        return `${String(label)} → ${String(ctx.winner_label ?? `#${snapshot.__merge_child_id}`)}`;
+      }
       if (label && id) {
         const truncated =
           String(label).substring(0, 25) + (String(label).length > 25 ? '...' : '');
@@ -63,6 +72,18 @@ export function getEntityDisplayName(cs: ByRemediationChangeset): string {
       }
       if (parentRole) return `${parentRole} → ?`;
     }
+    if (cs.entity_type === 'referent') {
+      const ctx = snapshot.__merge_context as Record<string, unknown> | undefined;
+      if (ctx) {
+        const winner = String(ctx.winner_label ?? `#${snapshot.__merge_child_id}`);
+        return ctx.loser_label ? `${String(ctx.loser_label)} → ${winner}` : `Instances → ${winner}`;
+      }
+      if (snapshot.canonical_label) return String(snapshot.canonical_label);
+    }
+    if (cs.entity_type === 'instance' && snapshot.label) {
+      const concept = snapshot.__concept_label ? ` (${String(snapshot.__concept_label)})` : '';
+      return `${String(snapshot.label)}${concept}`;
+    }
     if (cs.entity_type !== 'frame') {
       const code = snapshot.code;
       if (code) {
@@ -30,6 +30,8 @@ interface UseBucketActionsResult {
   conflictDialog: ConflictDialogState;
   closeConflictDialog: () => void;
   discardConflictedChangeset: () => Promise<void>;
+  /** Close the conflict dialog after a rebase and reload the list. */
+  handleConflictRebased: () => void;
   isDiscardingConflicted: boolean;
 
   plansBulkBusy: PlansBulkBusyState;
@@ -171,6 +173,17 @@ export function useBucketActions({
     void refetch();
   }, [refetch]);
 
+  const handleConflictRebased = useCallback(() => {
+    setConflictDialog({
+      isOpen: false,
+      errors: [],
+      changesetId: null,
+      entityDisplay: null,
+    });
+    void refetch();
+    refreshPendingChangesCount();
+  }, [refetch]);
+
   const discardConflictedChangeset = useCallback(async () => {
     if (!conflictDialog.changesetId) return;
     setIsDiscardingConflicted(true);
@@ -202,6 +215,7 @@ export function useBucketActions({
     conflictDialog,
     closeConflictDialog,
     discardConflictedChangeset,
+    handleConflictRebased,
     isDiscardingConflicted,
     plansBulkBusy,
     lastBulkError,
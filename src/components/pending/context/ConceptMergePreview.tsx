@@ -0,0 +1,184 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import type {
+  ConceptMergeEdge,
+  ConceptMergeEdgeAction,
+  ConceptMergePlan,
+} from '@/lib/concepts/types';
+
+export interface ConceptMergePreviewProps {
+  /** Concept folded away by the merge (the changeset's entity_id). */
+  loserId: string;
+  /** Concept that survives (`before_snapshot.__merge_child_id`). */
+  survivorId: string;
+}
+
+const EDGE_ACTION_LABELS: Record<ConceptMergeEdgeAction, string> = {
+  repoint: 'moves to survivor',
+  drop_duplicate: 'dropped: survivor already has it',
+  drop_self: 'dropped: links loser and survivor',
+  drop_cycle: 'dropped: would create a cycle',
+};
+
+function Section({ title, count, children }: { title: string; count: number; children?: React.ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <div className="text-sm font-semibold text-gray-700">
+        {title} <span className="font-normal text-gray-400">({count})</span>
+      </div>
+      {count > 0 && children}
+    </div>
+  );
+}
+
+function EdgeList({ edges, direction }: { edges: ConceptMergeEdge[]; direction: 'parent' | 'child' }) {
+  return (
+    <ul className="text-xs space-y-0.5">
+      {edges.map((e) => (
+        <li key={e.relation_id} className={e.action === 'repoint' ? 'text-gray-700' : 'text-gray-400 line-through'}>
+          {direction === 'parent' ? 'parent' : 'child'}{' '}
+          <span className="font-medium">{e.label ?? `#${e.concept_id}`}</span>{' '}
+          <span className="no-underline text-gray-400">— {EDGE_ACTION_LABELS[e.action]}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function IdSummary({ label, ids }: { label: string; ids: string[] }) {
+  if (ids.length === 0) return null;
+  const shown = ids.slice(0, 20).map((id) => `#${id}`).join(', ');
+  return (
+    <li>
+      {ids.length} {label}: <span className="font-mono">{shown}{ids.length > 20 ? ', …' : ''}</span>
+    </li>
+  );
+}
+
+/**
+ * Live preview of a staged concept merge. Fetched from the same planner
+ * the commit runs, so it reflects the tables as they are now rather than
+ * when the merge was staged.
+ */
+export default function ConceptMergePreview({ loserId, survivorId }: ConceptMergePreviewProps) {
+  const [plan, setPlan] = useState<ConceptMergePlan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const ac = new AbortController();
+    setLoading(true);
+    setError(null);
+    fetch(`/api/concepts/${loserId}/merge?into=${survivorId}`, { signal: ac.signal })
+      .then(async (res) => {
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || `Request failed (${res.status})`);
+        setPlan(body as ConceptMergePlan);
+      })
+      .catch((err) => {
+        if (err instanceof Error && err.name === 'AbortError') return;
+        setError(err instanceof Error ? err.message : 'Failed to load merge preview');
+      })
+      .finally(() => {
+        if (!ac.signal.aborted) setLoading(false);
+      });
+    return () => ac.abort();
+  }, [loserId, survivorId]);
+
+  if (loading) return <LoadingSpinner size="sm" />;
+  if (error || !plan) {
+    return (
+      <div className="text-sm text-red-600">
+        Merge can no longer be applied: {error ?? 'preview unavailable'}
+      </div>
+    );
+  }
+
+  const merged = plan.properties.filter((p) => p.action === 'merge');
+  const moved = plan.properties.filter((p) => p.action === 'move');
+  const mappingDrops = plan.property_mappings.filter((m) => m.action === 'drop').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <span className="font-mono px-2 py-0.5 rounded bg-amber-50 border border-amber-200 text-amber-800">
+          {plan.loser.label}
+        </span>
+        <span className="text-gray-400">merges into</span>
+        <span className="font-mono px-2 py-0.5 rounded bg-green-50 border border-green-200 text-green-800">
+          {plan.survivor.label}
+        </span>
+      </div>
+
+      <Section title="Senses" count={plan.sense_links.length}>
+        <ul className="text-xs space-y-0.5">
+          {plan.sense_links.map((s) => (
+            <li key={s.sense_id} className={s.action === 'repoint' ? 'text-gray-700' : 'text-gray-400'}>
+              #{s.sense_id} {s.definition ? `— ${s.definition.slice(0, 80)}${s.definition.length > 80 ? '…' : ''}` : ''}
+              {s.action === 'drop_duplicate' && ' (already on survivor)'}
+            </li>
+          ))}
+        </ul>
+      </Section>
+
+      <Section title="Hierarchy" count={plan.parent_edges.length + plan.child_edges.length}>
+        <EdgeList edges={plan.parent_edges} direction="parent" />
+        <EdgeList edges={plan.child_edges} direction="child" />
+      </Section>
+
+      <Section title="Properties" count={plan.properties.length}>
+        <ul className="text-xs space-y-0.5">
+          {merged.map((p) => (
+            <li key={p.property_id} className="text-gray-700">
+              <span className="font-mono">{p.label ?? `#${p.property_id}`}</span> folds into{' '}
+              <span className="font-mono">{p.survivor_label ?? `#${p.survivor_property_id}`}</span>
+              <span className="text-gray-400">
+                {' '}({p.matched_by === 'mapping' ? 'via property mapping' : 'same label'}
+                {p.filler_count > 0 ? `, ${p.filler_count} filler${p.filler_count === 1 ? '' : 's'}` : ''})
+              </span>
+            </li>
+          ))}
+          {moved.map((p) => (
+            <li key={p.property_id} className="text-gray-700">
+              <span className="font-mono">{p.label ?? `#${p.property_id}`}</span> moves to the survivor
+            </li>
+          ))}
+        </ul>
+      </Section>
+
+      <div className="space-y-1">
+        <div className="text-sm font-semibold text-gray-700">Other references</div>
+        <ul className="text-xs text-gray-700 space-y-0.5">
+          <li>{plan.instance_count} instance{plan.instance_count === 1 ? '' : 's'} retyped</li>
+          <IdSummary label="referent(s) retyped" ids={plan.referent_ids} />
+          <IdSummary label="filler constraint(s)" ids={plan.filler_constraint_ids} />
+          <IdSummary label="property group(s)" ids={plan.property_group_ids} />
+          <IdSummary label="unit(s)" ids={plan.unit_ids} />
+          <IdSummary label="previously merged concept(s) re-chained" ids={plan.rechained_concept_ids} />
+          {plan.property_mappings.length > 0 && (
+            <li>
+              {plan.property_mappings.length - mappingDrops} property mapping(s) repointed
+              {mappingDrops > 0 ? `, ${mappingDrops} dropped` : ''}
+            </li>
+          )}
+          {plan.external_ids.length > 0 && (
+            <li>
+              External ids:{' '}
+              <span className="font-mono">
+                {plan.external_ids.map((x) => `${x.vocabulary}:${x.external_id}`).join(', ')}
+              </span>
+            </li>
+          )}
+        </ul>
+      </div>
+
+      <div className="text-xs text-gray-500">
+        The loser is soft-deleted with <code className="font-mono">merged_into</code> set;
+        descendant counts are recomputed for {plan.descendant_count_concept_ids.length} concept
+        {plan.descendant_count_concept_ids.length === 1 ? '' : 's'}.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,398 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrowPathIcon, ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import LoadingSpinner from '../LoadingSpinner';
+import type {
+  ReferentMatchSignal,
+  ReferentMergeCandidate,
+  ReferentSummary,
+  UnresolvedInstanceSummary,
+} from '@/lib/referents/types';
+
+type PanelView = 'candidates' | 'merges';
+
+const KIND_LABELS: Record<ReferentMergeCandidate['kind'], string> = {
+  referents: 'Duplicate referents',
+  instances_to_referent: 'Unresolved → referent',
+  instances_new_referent: 'New referent',
+};
+
+const SIMILARITY_OPTIONS = ['0.85', '0.9', '0.92', '0.95'];
+
+interface ReferentMergeRow {
+  changeset_id: string;
+  winner_id: string | null;
+  winner_label: string | null;
+  loser_label: string | null;
+  created_by: string;
+  committed_at: string | null;
+  reverted: boolean;
+}
+
+function signalLabel(signal: ReferentMatchSignal): string {
+  switch (signal.kind) {
+    case 'alias':
+      return `alias “${signal.form}”`;
+    case 'external_id':
+      return `${signal.vocabulary}:${signal.external_id}`;
+    case 'embedding':
+      return `embedding ${signal.similarity.toFixed(3)}`;
+  }
+}
+
+export default function ReferentResolutionPanel() {
+  const [view, setView] = useState<PanelView>('candidates');
+  const [candidates, setCandidates] = useState<ReferentMergeCandidate[]>([]);
+  const [merges, setMerges] = useState<ReferentMergeRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [kindFilter, setKindFilter] = useState('');
+  const [typeFilter, setTypeFilter] = useState('');
+  const [minSimilarity, setMinSimilarity] = useState('0.92');
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  /** Candidate keys whose winner/loser the reviewer swapped. */
+  const [swapped, setSwapped] = useState<Set<string>>(new Set());
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      if (view === 'candidates') {
+        const params = new URLSearchParams({ min_similarity: minSimilarity });
+        if (typeFilter) params.set('type_concept_id', typeFilter);
+        const res = await fetch(`/api/referents/merge-candidates?${params}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error ?? 'Failed to load candidates');
+        setCandidates(data.candidates ?? []);
+      } else {
+        const res = await fetch('/api/referents/merges?status=committed');
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error ?? 'Failed to load merges');
+        setMerges(data.merges ?? []);
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load');
+    } finally {
+      setLoading(false);
+    }
+  }, [view, minSimilarity, typeFilter]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const typeOptions = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const c of candidates) byId.set(c.type_concept_id, c.type_concept_label ?? `#${c.type_concept_id}`);
+    if (typeFilter && !byId.has(typeFilter)) byId.set(typeFilter, `#${typeFilter}`);
+    return Array.from(byId, ([value, label]) => ({ value, label })).sort((a, b) => a.label.localeCompare(b.label));
+  }, [candidates, typeFilter]);
+
+  const visible = useMemo(
+    () => (kindFilter ? candidates.filter((c) => c.kind === kindFilter) : candidates),
+    [candidates, kindFilter],
+  );
+
+  const stage = async (candidate: ReferentMergeCandidate) => {
+    setBusyKey(candidate.key);
+    try {
+      let body: Record<string, unknown>;
+      if (candidate.kind === 'referents') {
+        const flip = swapped.has(candidate.key);
+        body = {
+          kind: 'merge',
+          winner_id: flip ? candidate.loser.id : candidate.winner.id,
+          loser_id: flip ? candidate.winner.id : candidate.loser.id,
+          signals: candidate.signals,
+        };
+      } else if (candidate.kind === 'instances_to_referent') {
+        body = {
+          kind: 'merge',
+          winner_id: candidate.referent.id,
+          instance_ids: candidate.instances.map((i) => i.id),
+          signals: candidate.signals,
+        };
+      } else {
+        body = {
+          kind: 'create',
+          canonical_label: candidate.label,
+          type_concept_id: candidate.type_concept_id,
+          knowledge_graph_id: candidate.instances[0]?.knowledge_graph_id ?? null,
+          instance_ids: candidate.instances.map((i) => i.id),
+        };
+      }
+      const res = await fetch('/api/referents/merges', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to stage merge');
+      setCandidates((prev) =>
+        prev.map((c) => (c.key === candidate.key ? { ...c, pending_changeset_id: data.changeset_id } : c)),
+      );
+      toast.success(
+        data.created
+          ? `Staged changeset #${data.changeset_id} for review`
+          : `Already staged as changeset #${data.changeset_id}`,
+      );
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to stage merge');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const revert = async (merge: ReferentMergeRow) => {
+    if (!confirm(`Revert merge ${merge.loser_label ?? 'instances'} → ${merge.winner_label ?? merge.winner_id}?`)) return;
+    setBusyKey(merge.changeset_id);
+    try {
+      const res = await fetch(`/api/referents/merges/${merge.changeset_id}/revert`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to stage un-merge');
+      toast.success(`Staged un-merge as changeset #${data.changeset_ids[0]} for review`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to stage un-merge');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 py-2 border-b border-gray-200 bg-white flex flex-wrap items-center gap-2 shrink-0">
+        <select
+          value={view}
+          onChange={(e) => setView(e.target.value as PanelView)}
+          className="px-2 py-1 rounded-md border border-gray-300 text-xs bg-white"
+        >
+          <option value="candidates">Merge candidates</option>
+          <option value="merges">Committed merges</option>
+        </select>
+        {view === 'candidates' && (
+          <>
+            <select
+              value={kindFilter}
+              onChange={(e) => setKindFilter(e.target.value)}
+              className="px-2 py-1 rounded-md border border-gray-300 text-xs bg-white"
+            >
+              <option value="">Any kind</option>
+              {Object.entries(KIND_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value)}
+              className="px-2 py-1 rounded-md border border-gray-300 text-xs bg-white"
+            >
+              <option value="">Any type</option>
+              {typeOptions.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+            <select
+              value={minSimilarity}
+              onChange={(e) => setMinSimilarity(e.target.value)}
+              className="px-2 py-1 rounded-md border border-gray-300 text-xs bg-white"
+              title="Minimum embedding similarity"
+            >
+              {SIMILARITY_OPTIONS.map((v) => (
+                <option key={v} value={v}>Similarity ≥ {v}</option>
+              ))}
+            </select>
+          </>
+        )}
+        <button
+          onClick={() => void load()}
+          className="ml-auto p-1.5 rounded-md border border-gray-300 bg-white text-gray-600 hover:bg-gray-50"
+          title="Refresh"
+        >
+          <ArrowPathIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto">
+        {loading ? (
+          <div className="flex items-center justify-center py-20">
+            <LoadingSpinner />
+          </div>
+        ) : error ? (
+          <div className="p-6 text-center text-red-600 text-sm">{error}</div>
+        ) : view === 'merges' ? (
+          merges.length === 0 ? (
+            <div className="p-6 text-sm text-gray-500 italic">No committed referent merges.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-xs text-gray-600 uppercase sticky top-0 z-10">
+                <tr>
+                  <th className="px-3 py-2 text-left w-24">Changeset</th>
+                  <th className="px-3 py-2 text-left">Merge</th>
+                  <th className="px-3 py-2 text-left w-32">By</th>
+                  <th className="px-3 py-2 text-left w-40">Committed</th>
+                  <th className="px-3 py-2 w-28" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 bg-white">
+                {merges.map((m) => (
+                  <tr key={m.changeset_id}>
+                    <td className="px-3 py-2 font-mono text-xs text-gray-500">#{m.changeset_id}</td>
+                    <td className="px-3 py-2 text-gray-800">
+                      {m.loser_label ?? 'Unresolved instances'} → {m.winner_label ?? `#${m.winner_id}`}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-gray-600">{m.created_by}</td>
+                    <td className="px-3 py-2 text-xs text-gray-600">
+                      {m.committed_at ? new Date(m.committed_at).toLocaleString() : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {m.reverted ? (
+                        <span className="text-xs text-gray-400">Reverted</span>
+                      ) : (
+                        <button
+                          onClick={() => void revert(m)}
+                          disabled={busyKey === m.changeset_id}
+                          className="px-2.5 py-1 rounded-md border border-gray-300 bg-white text-xs text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                        >
+                          Revert
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )
+        ) : visible.length === 0 ? (
+          <div className="p-6 text-sm text-gray-500 italic">No merge candidates for this scope.</div>
+        ) : (
+          <ul className="divide-y divide-gray-100 bg-white">
+            {visible.map((c) => (
+              <CandidateRow
+                key={c.key}
+                candidate={c}
+                swapped={swapped.has(c.key)}
+                busy={busyKey === c.key}
+                onSwap={() =>
+                  setSwapped((prev) => {
+                    const next = new Set(prev);
+                    if (next.has(c.key)) next.delete(c.key);
+                    else next.add(c.key);
+                    return next;
+                  })
+                }
+                onStage={() => void stage(c)}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ReferentCard({ referent, role }: { referent: ReferentSummary; role: string }) {
+  return (
+    <div className="flex-1 min-w-0 rounded-md border border-gray-200 px-3 py-2">
+      <div className="text-[10px] uppercase tracking-wide text-gray-400">{role}</div>
+      <div className="text-sm font-medium text-gray-900 truncate">
+        {referent.canonical_label} <span className="font-mono text-xs text-gray-400">#{referent.id}</span>
+      </div>
+      <div className="text-xs text-gray-500 truncate">
+        {referent.instance_count} instance(s)
+        {referent.aliases.length > 0 && ` · aka ${referent.aliases.slice(0, 4).join(', ')}`}
+      </div>
+    </div>
+  );
+}
+
+function InstanceList({ instances }: { instances: UnresolvedInstanceSummary[] }) {
+  return (
+    <div className="flex-1 min-w-0 rounded-md border border-dashed border-gray-300 px-3 py-2">
+      <div className="text-[10px] uppercase tracking-wide text-gray-400">Unresolved instances</div>
+      <ul className="text-xs text-gray-700 space-y-0.5">
+        {instances.slice(0, 6).map((i) => (
+          <li key={i.id} className="truncate">
+            {i.label ?? `#${i.id}`}
+            {i.source_text_title && <span className="text-gray-400"> · {i.source_text_title}</span>}
+          </li>
+        ))}
+        {instances.length > 6 && <li className="text-gray-400">+{instances.length - 6} more</li>}
+      </ul>
+    </div>
+  );
+}
+
+function CandidateRow({
+  candidate,
+  swapped,
+  busy,
+  onSwap,
+  onStage,
+}: {
+  candidate: ReferentMergeCandidate;
+  swapped: boolean;
+  busy: boolean;
+  onSwap: () => void;
+  onStage: () => void;
+}) {
+  return (
+    <li className="px-4 py-3">
+      <div className="flex items-center gap-2 mb-2 text-xs">
+        <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-700">{KIND_LABELS[candidate.kind]}</span>
+        <span className="text-gray-500">{candidate.type_concept_label ?? `#${candidate.type_concept_id}`}</span>
+        <span className="font-mono text-gray-500">score {candidate.score.toFixed(2)}</span>
+        {candidate.signals.slice(0, 4).map((s, idx) => (
+          <span key={idx} className="px-1.5 py-0.5 rounded bg-blue-50 text-blue-700">
+            {signalLabel(s)}
+          </span>
+        ))}
+        <div className="ml-auto flex items-center gap-2">
+          {candidate.pending_changeset_id ? (
+            <span className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-700">
+              Staged #{candidate.pending_changeset_id}
+            </span>
+          ) : (
+            <button
+              onClick={onStage}
+              disabled={busy}
+              className="px-2.5 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {candidate.kind === 'instances_new_referent' ? 'Stage new referent' : 'Stage merge'}
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="flex items-stretch gap-2">
+        {candidate.kind === 'referents' ? (
+          <>
+            <ReferentCard referent={swapped ? candidate.winner : candidate.loser} role="Merge" />
+            <button
+              onClick={onSwap}
+              disabled={!!candidate.pending_changeset_id}
+              className="self-center p-1 rounded text-gray-400 hover:text-gray-700 disabled:opacity-40"
+              title="Swap which referent survives"
+            >
+              <ArrowsRightLeftIcon className="w-4 h-4" />
+            </button>
+            <ReferentCard referent={swapped ? candidate.loser : candidate.winner} role="Into (survives)" />
+          </>
+        ) : candidate.kind === 'instances_to_referent' ? (
+          <>
+            <InstanceList instances={candidate.instances} />
+            <ReferentCard referent={candidate.referent} role="Into" />
+          </>
+        ) : (
+          <>
+            <InstanceList instances={candidate.instances} />
+            <div className="flex-1 min-w-0 rounded-md border border-gray-200 px-3 py-2">
+              <div className="text-[10px] uppercase tracking-wide text-gray-400">New referent</div>
+              <div className="text-sm font-medium text-gray-900 truncate">{candidate.label}</div>
+            </div>
+          </>
+        )}
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import Modal from '@/components/ui/Modal';
+import { MODEL_OPTIONS } from '@/components/AIJobsOverlay/constants';
+import { DEFAULT_SENSE_CONTRAST_TEMPLATE } from '@/lib/sense-contrasts/prompt';
+import type { StageContrastDraftsResult } from '@/lib/sense-contrasts/types';
+import type { SerializedJob } from '@/lib/llm/types';
+
+interface DraftSenseContrastsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Lemmas to draft for; empty means every lemma with missing contrasts. */
+  lemmas: string[];
+  pos?: string;
+  label: string;
+}
+
+type JobSummary = Pick<
+  SerializedJob,
+  'id' | 'status' | 'total_items' | 'processed_items' | 'succeeded_items' | 'failed_items'
+>;
+
+const inputClass =
+  'w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function DraftSenseContrastsModal({ isOpen, onClose, lemmas, pos, label }: DraftSenseContrastsModalProps) {
+  const [model, setModel] = useState<string>('gpt-5-mini');
+  const [promptTemplate, setPromptTemplate] = useState(DEFAULT_SENSE_CONTRAST_TEMPLATE);
+  const [job, setJob] = useState<JobSummary | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [staged, setStaged] = useState<StageContrastDraftsResult | null>(null);
+
+  const handleClose = () => {
+    if (busy) return;
+    setJob(null);
+    setStaged(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleCreate = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/llm-jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          label: `Draft sense contrasts: ${label}`,
+          model,
+          promptTemplate,
+          jobType: 'draft_sense_contrasts',
+          scope: { kind: 'sense_contrast_lemmas', lemmas, pos },
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to create job');
+      setJob(data as SerializedJob);
+      toast.success(`Drafting job queued (${data.total_items} lemma${data.total_items === 1 ? '' : 's'})`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create job');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    if (!job) return;
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/llm-jobs/${job.id}?refresh=true&pendingLimit=0&succeededLimit=0&failedLimit=0`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to refresh job');
+      setJob(data as SerializedJob);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refresh job');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStage = async () => {
+    if (!job) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/llm-jobs/${job.id}/stage-contrasts`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to stage contrasts');
+      const result = data as StageContrastDraftsResult;
+      setStaged(result);
+      toast.success(
+        `Staged ${result.changeset_ids.length} pending contrast${result.changeset_ids.length === 1 ? '' : 's'}`,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to stage contrasts');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const footer = job ? (
+    <div className="flex justify-end gap-2">
+      <button
+        type="button"
+        onClick={handleRefresh}
+        disabled={busy}
+        className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-md disabled:opacity-50"
+      >
+        Refresh status
+      </button>
+      <button
+        type="button"
+        onClick={handleStage}
+        disabled={busy || job.succeeded_items === 0}
+        className="px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50"
+      >
+        Stage drafts
+      </button>
+    </div>
+  ) : (
+    <div className="flex justify-end gap-2">
+      <button
+        type="button"
+        onClick={handleClose}
+        disabled={busy}
+        className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-md disabled:opacity-50"
+      >
+        Cancel
+      </button>
+      <button
+        type="button"
+        onClick={handleCreate}
+        disabled={busy || !promptTemplate.trim()}
+        className="px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50"
+      >
+        {busy ? 'Creating…' : 'Create job'}
+      </button>
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Draft sense contrasts"
+      subtitle={label}
+      maxWidth="2xl"
+      footer={footer}
+      preventClose={busy}
+    >
+      <div className="space-y-4 p-6">
+        {error && (
+          <div className="rounded-md bg-red-50 border border-red-200 px-3 py-2 text-sm text-red-700">{error}</div>
+        )}
+
+        {!job ? (
+          <>
+            <p className="text-sm text-gray-600">
+              The model is shown every sense of the lemma and asked for a contrast for each pair that has
+              none yet. Drafts are staged as pending changes for reviewers to accept or revise.
+            </p>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Model</span>
+              <select className={inputClass} value={model} onChange={(e) => setModel(e.target.value)}>
+                {MODEL_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Prompt</span>
+              <textarea
+                className={`${inputClass} font-mono text-xs`}
+                rows={14}
+                value={promptTemplate}
+                onChange={(e) => setPromptTemplate(e.target.value)}
+              />
+            </label>
+          </>
+        ) : (
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+            <dt className="text-gray-500">Job</dt>
+            <dd className="text-gray-900">#{job.id} · {job.status}</dd>
+            <dt className="text-gray-500">Lemmas</dt>
+            <dd className="text-gray-900">
+              {job.succeeded_items} succeeded, {job.failed_items} failed of {job.total_items}
+            </dd>
+            {staged && (
+              <>
+                <dt className="text-gray-500">Staged</dt>
+                <dd className="text-gray-900">
+                  {staged.changeset_ids.length} pending contrast{staged.changeset_ids.length === 1 ? '' : 's'}
+                  {staged.issue_count > 0 && (
+                    <span className="text-amber-600"> · {staged.issue_count} dropped (see job items)</span>
+                  )}
+                </dd>
+              </>
+            )}
+          </dl>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,286 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import type { ContrastSenseSummary, LemmaContrastGroup, SenseContrastEntry } from '@/lib/sense-contrasts/types';
+import DraftSenseContrastsModal from './DraftSenseContrastsModal';
+
+interface SenseContrastsSectionProps {
+  /** Lexical unit id or code. */
+  lexicalUnitId: string;
+}
+
+type Editing =
+  | { kind: 'edit'; contrast: SenseContrastEntry; text: string }
+  | { kind: 'add'; lemma: string; senseId: string; contrastedSenseId: string; text: string };
+
+const inputClass =
+  'w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function senseLabel(sense: ContrastSenseSummary | undefined): string {
+  if (!sense) return '?';
+  const definition = sense.definition.length > 60 ? `${sense.definition.slice(0, 60)}…` : sense.definition;
+  return `#${sense.id} ${definition}`;
+}
+
+function pendingBadge(contrast: SenseContrastEntry) {
+  if (!contrast.pending) return null;
+  const label = contrast.pending.operation === 'delete'
+    ? 'deletion pending'
+    : contrast.pending.llm_job_id ? 'AI draft pending' : 'pending';
+  return (
+    <span className="text-[10px] font-medium uppercase bg-orange-100 text-orange-700 px-1.5 py-0.5 rounded">
+      {label}
+    </span>
+  );
+}
+
+/**
+ * For each polysemous lemma of a lexical unit, what distinguishes each
+ * sense from its siblings. Adds, edits and deletes are staged as
+ * `sense_contrast` changesets; staged text is shown in place of the
+ * committed text until it is reviewed.
+ */
+export function SenseContrastsSection({ lexicalUnitId }: SenseContrastsSectionProps) {
+  const [groups, setGroups] = useState<LemmaContrastGroup[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [drafting, setDrafting] = useState<LemmaContrastGroup | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/lexical-units/${encodeURIComponent(lexicalUnitId)}/sense-contrasts`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to load sense contrasts');
+      setGroups(data.groups as LemmaContrastGroup[]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sense contrasts');
+    }
+  }, [lexicalUnitId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const send = async (url: string, method: 'POST' | 'PATCH' | 'DELETE', body?: Record<string, unknown>) => {
+    setSaving(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to stage change');
+      toast.success(data.message ?? 'Staged for review');
+      setEditing(null);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to stage change');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const samePair = editing?.kind === 'add' && editing.senseId === editing.contrastedSenseId;
+
+  const handleSave = () => {
+    if (!editing || !editing.text.trim() || samePair) return;
+    if (editing.kind === 'edit') {
+      void send(`/api/sense-contrasts/${editing.contrast.id}`, 'PATCH', { contrast_text: editing.text });
+    } else {
+      void send('/api/sense-contrasts', 'POST', {
+        sense_id: editing.senseId,
+        contrasted_sense_id: editing.contrastedSenseId,
+        contrast_text: editing.text,
+      });
+    }
+  };
+
+  const handleDelete = (contrast: SenseContrastEntry) => {
+    if (!contrast.id) return;
+    void send(`/api/sense-contrasts/${contrast.id}`, 'DELETE');
+  };
+
+  if (error) {
+    return <div className="text-sm text-red-600">{error}</div>;
+  }
+  if (!groups) {
+    return <div className="text-sm text-gray-500 italic">Loading sense contrasts…</div>;
+  }
+  if (groups.length === 0) {
+    return null;
+  }
+
+  const editor = (
+    <div className="space-y-2 mt-2">
+      <textarea
+        className={inputClass}
+        rows={2}
+        value={editing?.text ?? ''}
+        onChange={(e) => setEditing((prev) => (prev ? { ...prev, text: e.target.value } : prev))}
+        placeholder="How the first sense differs from the second"
+        autoFocus
+      />
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setEditing(null)}
+          disabled={saving}
+          className="px-3 py-1 text-xs text-gray-700 hover:bg-gray-100 rounded-md disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || !editing?.text.trim() || samePair}
+          className="px-3 py-1 text-xs text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50"
+        >
+          {saving ? 'Staging…' : 'Stage'}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 mb-2">Sense contrasts</h3>
+      <div className="space-y-3">
+        {groups.map((group) => {
+          const byId = new Map(group.senses.map((s) => [s.id, s]));
+          const adding = editing?.kind === 'add' && editing.lemma === group.lemma ? editing : null;
+          return (
+            <div key={`${group.lemma}-${group.pos}`} className="rounded-lg border border-gray-200 bg-white px-3 py-2">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-sm font-medium text-gray-900">{group.lemma}</span>
+                <span className="text-xs text-gray-500">
+                  {group.senses.length} senses
+                  {group.missing_count > 0 && <> · {group.missing_count} without a contrast</>}
+                </span>
+                <div className="ml-auto flex gap-2">
+                  {group.missing_count > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => setDrafting(group)}
+                      className="text-xs text-purple-600 hover:text-purple-800"
+                    >
+                      Draft missing with AI
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setEditing({
+                      kind: 'add',
+                      lemma: group.lemma,
+                      senseId: group.senses[0].id,
+                      contrastedSenseId: group.senses[1].id,
+                      text: '',
+                    })}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    Add contrast
+                  </button>
+                </div>
+              </div>
+
+              {group.contrasts.length === 0 && !adding && (
+                <div className="text-xs text-gray-500 italic mt-1">No contrasts yet.</div>
+              )}
+              <ul className="mt-2 space-y-2">
+                {group.contrasts.map((contrast) => {
+                  const key = `${contrast.sense_id}:${contrast.contrasted_sense_id}`;
+                  const isEditing = editing?.kind === 'edit'
+                    && editing.contrast.sense_id === contrast.sense_id
+                    && editing.contrast.contrasted_sense_id === contrast.contrasted_sense_id;
+                  const text = contrast.pending?.contrast_text ?? contrast.contrast_text;
+                  return (
+                    <li key={key} className="text-sm">
+                      <div className="flex items-start gap-2">
+                        <div className="flex-1 min-w-0">
+                          <div className="text-xs text-gray-500">
+                            {senseLabel(byId.get(contrast.sense_id))}
+                            <span className="mx-1">vs</span>
+                            {senseLabel(byId.get(contrast.contrasted_sense_id))}
+                          </div>
+                          {!isEditing && (
+                            <p className={`text-gray-800 leading-snug ${contrast.pending?.operation === 'delete' ? 'line-through text-gray-400' : ''}`}>
+                              {text}
+                            </p>
+                          )}
+                        </div>
+                        {pendingBadge(contrast)}
+                        {!isEditing && contrast.id && contrast.pending?.operation !== 'delete' && (
+                          <div className="flex gap-2 shrink-0">
+                            <button
+                              type="button"
+                              onClick={() => setEditing({ kind: 'edit', contrast, text: text ?? '' })}
+                              className="text-xs text-blue-600 hover:text-blue-800"
+                            >
+                              Edit
+                            </button>
+                            {!contrast.pending && (
+                              <button
+                                type="button"
+                                onClick={() => handleDelete(contrast)}
+                                disabled={saving}
+                                className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                              >
+                                Delete
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                      {isEditing && editor}
+                    </li>
+                  );
+                })}
+              </ul>
+
+              {adding && (
+                <div className="mt-2 border-t border-gray-100 pt-2 space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['senseId', 'contrastedSenseId'] as const).map((side) => (
+                      <select
+                        key={side}
+                        className={inputClass}
+                        value={adding[side]}
+                        onChange={(e) => setEditing({ ...adding, [side]: e.target.value })}
+                      >
+                        {group.senses.map((sense) => (
+                          <option key={sense.id} value={sense.id}>
+                            {senseLabel(sense)}
+                          </option>
+                        ))}
+                      </select>
+                    ))}
+                  </div>
+                  {samePair && (
+                    <div className="text-xs text-amber-600">Pick two different senses.</div>
+                  )}
+                  {editor}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {drafting && (
+        <DraftSenseContrastsModal
+          isOpen
+          onClose={() => {
+            setDrafting(null);
+            void load();
+          }}
+          lemmas={[drafting.lemma]}
+          pos={drafting.pos}
+          label={`${drafting.lemma} (${drafting.pos})`}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,14 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { ExclamationTriangleIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
 import Modal from './Modal';
+import type {
+  RebaseAnalysis,
+  RebaseFieldOutcome,
+  RebaseResolution,
+  RebaseResult,
+} from '@/lib/version-control/types';
 
 export interface ConflictError {
   changeset_id: string;
@@ -22,11 +28,23 @@ export interface ConflictDialogProps {
   onClose: () => void;
   onDiscard: () => void;
   onRetry?: () => void;
+  /**
+   * Enables three-way rebase for version conflicts: the dialog loads the
+   * analysis for the conflicted changeset and calls this after a
+   * successful rebase.
+   */
+  onRebased?: (result: RebaseResult) => void;
   errors: ConflictError[];
   entityDisplay?: string;
   loading?: boolean;
 }
 
+const OUTCOME_BADGE: Record<RebaseFieldOutcome, { label: string; className: string }> = {
+  clean: { label: 'Kept', className: 'bg-green-50 text-green-700 border-green-200' },
+  converged: { label: 'Already applied', className: 'bg-gray-50 text-gray-600 border-gray-200' },
+  conflict: { label: 'Conflict', className: 'bg-red-50 text-red-700 border-red-200' },
+};
+
 function formatValue(value: unknown): string {
   if (value === null || value === undefined) return '(empty)';
   if (typeof value === 'string') return value || '(empty string)';
@@ -40,12 +58,69 @@ export default function ConflictDialog({
   onClose,
   onDiscard,
   onRetry,
+  onRebased,
   errors,
   entityDisplay,
   loading = false,
 }: ConflictDialogProps) {
   const primaryError = errors[0];
   const hasVersionConflict = primaryError?.conflict?.field_name === 'version';
+  // Errors thrown inside the commit transaction only carry the message.
+  const isVersionConflict = hasVersionConflict || /^Version conflict/.test(primaryError?.error ?? '');
+  const rebaseChangesetId = onRebased && isVersionConflict ? primaryError.changeset_id : null;
+
+  const [analysis, setAnalysis] = useState<RebaseAnalysis | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, RebaseResolution>>({});
+  const [rebasing, setRebasing] = useState(false);
+  const [rebaseError, setRebaseError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAnalysis(null);
+    setResolutions({});
+    setRebaseError(null);
+    if (!isOpen || !rebaseChangesetId) return;
+    let cancelled = false;
+    fetch(`/api/changesets/${rebaseChangesetId}/rebase`)
+      .then(async (res) => {
+        const body = await res.json().catch(() => ({}));
+        if (cancelled) return;
+        if (res.ok) setAnalysis(body as RebaseAnalysis);
+        else setRebaseError(body?.error ?? 'Could not analyse the conflict');
+      })
+      .catch(() => {
+        if (!cancelled) setRebaseError('Could not analyse the conflict');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, rebaseChangesetId]);
+
+  const conflicts = analysis?.fields.filter((f) => f.outcome === 'conflict') ?? [];
+  const unresolved = conflicts.filter((f) => !resolutions[f.field_name]).length;
+  const busy = loading || rebasing;
+
+  const handleRebase = async () => {
+    if (!rebaseChangesetId || !onRebased) return;
+    setRebasing(true);
+    setRebaseError(null);
+    try {
+      const res = await fetch(`/api/changesets/${rebaseChangesetId}/rebase`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolutions }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        if (body?.analysis) setAnalysis(body.analysis as RebaseAnalysis);
+        throw new Error(body?.error ?? `Rebase failed (${res.status})`);
+      }
+      onRebased(body as RebaseResult);
+    } catch (err) {
+      setRebaseError(err instanceof Error ? err.message : 'Rebase failed');
+    } finally {
+      setRebasing(false);
+    }
+  };
 
   const customHeader = (
     <div className="flex items-center gap-3 w-full -mx-6 -my-4 px-6 py-4 bg-orange-50 border-b border-orange-200">
@@ -69,18 +144,28 @@ export default function ConflictDialog({
       <div className="flex gap-3">
         <button
           onClick={onClose}
-          disabled={loading}
+          disabled={busy}
           className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-xl hover:bg-gray-50 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
         >
           Keep Pending
         </button>
         <button
           onClick={onDiscard}
-          disabled={loading}
+          disabled={busy}
           className="px-4 py-2 text-sm font-medium text-white bg-orange-600 rounded-xl hover:bg-orange-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {loading ? 'Discarding...' : 'Discard Changes'}
         </button>
+        {analysis?.stale && (
+          <button
+            onClick={handleRebase}
+            disabled={busy || unresolved > 0}
+            title={unresolved > 0 ? `Pick a side for ${unresolved} conflicting field${unresolved === 1 ? '' : 's'}` : undefined}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-xl hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {rebasing ? 'Rebasing...' : 'Rebase Changes'}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -94,7 +179,7 @@ export default function ConflictDialog({
       showCloseButton={false}
       footer={footer}
       className="shadow-2xl"
-      preventClose={loading}
+      preventClose={busy}
     >
       <div className="p-6 space-y-4">
         {/* Entity Info */}
@@ -151,6 +236,73 @@ export default function ConflictDialog({
           </div>
         )}
 
+        {/* Three-way rebase */}
+        {rebaseChangesetId && (analysis || rebaseError) && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Rebase onto the current version</h4>
+            {rebaseError && (
+              <div className="mb-2 p-3 text-sm text-red-700 bg-red-50 rounded-lg border border-red-200">{rebaseError}</div>
+            )}
+            {analysis && analysis.fields.length === 0 && (
+              <p className="text-sm text-gray-600">
+                {analysis.operation === 'delete'
+                  ? 'The deletion will apply to the current version of the entity.'
+                  : 'No field changes to compare.'}
+              </p>
+            )}
+            {analysis && analysis.fields.length > 0 && (
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {analysis.fields.map((field) => {
+                  const badge = OUTCOME_BADGE[field.outcome];
+                  const choice = resolutions[field.field_name];
+                  return (
+                    <div key={field.field_change_id} className="p-3 text-sm">
+                      <div className="flex items-center justify-between gap-2 mb-1">
+                        <span className="font-mono text-gray-900">{field.field_name}</span>
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded border ${badge.className}`}>
+                          {badge.label}
+                        </span>
+                      </div>
+                      {field.outcome === 'conflict' ? (
+                        <div className="grid grid-cols-2 gap-2">
+                          {(['mine', 'theirs'] as const).map((side) => (
+                            <button
+                              key={side}
+                              type="button"
+                              onClick={() => setResolutions((prev) => ({ ...prev, [field.field_name]: side }))}
+                              disabled={busy}
+                              className={`text-left p-2 rounded-lg border transition-colors cursor-pointer ${
+                                choice === side
+                                  ? 'border-blue-500 bg-blue-50'
+                                  : 'border-gray-200 bg-white hover:bg-gray-50'
+                              }`}
+                            >
+                              <div className="text-xs uppercase font-medium text-gray-500 mb-1">
+                                {side === 'mine' ? 'Keep pending value' : 'Keep current value'}
+                              </div>
+                              <div className="font-mono text-xs text-gray-800 break-words">
+                                {side === 'mine'
+                                  ? formatValue(field.proposed_value)
+                                  : field.current_value === undefined
+                                    ? '(not comparable; drops this change)'
+                                    : formatValue(field.current_value)}
+                              </div>
+                            </button>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="font-mono text-xs text-gray-600 break-words">
+                          {formatValue(field.base_value)} → {formatValue(field.proposed_value)}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Explanation */}
         <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
           <h4 className="text-sm font-medium text-gray-700 mb-2">What should you do?</h4>
@@ -161,6 +313,14 @@ export default function ConflictDialog({
                 <strong>Discard Changes:</strong> Remove these pending changes. You can then re-edit the entity with the latest data.
               </span>
             </li>
+            {analysis?.stale && (
+              <li className="flex items-start gap-2">
+                <span className="text-blue-500 mt-0.5">•</span>
+                <span>
+                  <strong>Rebase Changes:</strong> Re-apply your changes on top of the current version. Fields the other edit didn&apos;t touch are kept; pick a side for each conflict.
+                </span>
+              </li>
+            )}
             <li className="flex items-start gap-2">
               <span className="text-gray-400 mt-0.5">•</span>
               <span>
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Permission, UserRole } from '@/lib/users/permissions';
+
+export interface CurrentUserRoleInfo {
+  user_name: string;
+  role: UserRole;
+  authenticated: boolean;
+  permissions: Permission[];
+  require_distinct_reviewer: boolean;
+}
+
+// One request per page load, shared by every component that gates an action.
+let cached: Promise<CurrentUserRoleInfo | null> | null = null;
+
+function fetchCurrentUserRole(): Promise<CurrentUserRoleInfo | null> {
+  if (!cached) {
+    cached = fetch('/api/users/me')
+      .then((response) => (response.ok ? (response.json() as Promise<CurrentUserRoleInfo>) : null))
+      .catch((error) => {
+        console.error('Error fetching current user role:', error);
+        return null;
+      })
+      .then((info) => {
+        // Don't pin a failed lookup for the rest of the session.
+        if (!info) cached = null;
+        return info;
+      });
+  }
+  return cached;
+}
+
+/**
+ * The signed-in user's role, for hiding or disabling actions the server
+ * would reject. `can()` is false until the role has loaded; the API routes
+ * remain the source of truth.
+ */
+export function useCurrentUserRole() {
+  const [info, setInfo] = useState<CurrentUserRoleInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    fetchCurrentUserRole().then((result) => {
+      if (!active) return;
+      setInfo(result);
+      setIsLoading(false);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const can = useCallback(
+    (permission: Permission) => info?.permissions.includes(permission) ?? false,
+    [info],
+  );
+
+  /** True when the distinct-reviewer rule stops the current user committing `createdBy`'s work. */
+  const isOwnWork = useCallback(
+    (createdBy: string | null | undefined) =>
+      !!info?.require_distinct_reviewer && !!createdBy && createdBy === info.user_name,
+    [info],
+  );
+
+  return {
+    role: info?.role ?? null,
+    userName: info?.user_name ?? null,
+    isLoading,
+    can,
+    isOwnWork,
+  };
+}
@@ -0,0 +1,76 @@
+import { useEffect, useRef } from 'react';
+import { DOMAIN_EVENT_TYPES, matchesEventType, type DomainEvent } from '@/lib/events/types';
+
+const STREAM_URL = '/api/events/stream';
+
+type Listener = (event: DomainEvent) => void;
+
+// One EventSource per tab, shared by every mounted hook and closed when
+// the last one unmounts.
+let source: EventSource | null = null;
+const listeners = new Set<Listener>();
+
+function handleMessage(message: MessageEvent<string>) {
+  let event: DomainEvent;
+  try {
+    event = JSON.parse(message.data) as DomainEvent;
+  } catch {
+    return;
+  }
+  for (const listener of listeners) listener(event);
+}
+
+function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  if (!source && typeof EventSource !== 'undefined') {
+    source = new EventSource(STREAM_URL);
+    for (const type of DOMAIN_EVENT_TYPES) source.addEventListener(type, handleMessage);
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && source) {
+      source.close();
+      source = null;
+    }
+  };
+}
+
+interface UseDomainEventsOptions {
+  /** Exact event types or `<prefix>.*` wildcards; empty means every event. */
+  types?: readonly string[];
+  /** Only events whose `entity_type` is listed; empty means any. */
+  entityTypes?: readonly string[];
+  enabled?: boolean;
+}
+
+/**
+ * Calls `onEvent` for each new domain event (commits, plan commits and
+ * discards, LLM job and health-check run transitions) pushed by
+ * /api/events/stream, so views can refresh without a manual trigger.
+ *
+ * @param onEvent - Callback; the latest one is always used
+ * @param options - Event / entity-type filters
+ */
+export function useDomainEvents(
+  onEvent: (event: DomainEvent) => void,
+  { types = [], entityTypes = [], enabled = true }: UseDomainEventsOptions = {},
+) {
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  const typesKey = types.join(',');
+  const entityTypesKey = entityTypes.join(',');
+
+  useEffect(() => {
+    if (!enabled) return;
+    const typeFilter = typesKey ? typesKey.split(',') : [];
+    const entityFilter = entityTypesKey ? entityTypesKey.split(',') : [];
+    return subscribe((event) => {
+      if (!matchesEventType(event.type, typeFilter)) return;
+      if (entityFilter.length > 0 && !entityFilter.includes(event.entity_type)) return;
+      onEventRef.current(event);
+    });
+  }, [enabled, typesKey, entityTypesKey]);
+}
@@ -86,6 +86,9 @@ export function useEntryMutations(mode: Mode) {
       const errorData = await response.json();
       throw new Error(errorData.error || 'Failed to update hypernym');
     }
+
+    // Refresh pending changes count since this stages a change_hypernym plan
+    refreshPendingChangesCount();
   }, []);
 
   const updateField = useCallback(async (
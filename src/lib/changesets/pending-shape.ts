@@ -8,7 +8,8 @@
  *
  *   1. The Prisma include shape (`PENDING_CHANGESET_INCLUDE`).
  *   2. The concept_id display-decoration lookup (`buildConceptRefLookup`).
- *   3. Per-row conversion to the wire format (`shapePendingChangeset`).
+ *   3. Per-row conversion to the wire format (`shapePendingChangeset`),
+ *      flagging rows `findStaleChangesets` reported as stale.
  *
  * Keep these in lockstep with `Changeset` in
  * `src/components/PendingChangesList.tsx` and the new by-issue view —
@@ -59,6 +60,14 @@ export interface ShapedChangeset {
   alternatives_count: number;
   /** The selected alternative's changeset id within the group, if any. */
   selected_changeset_id: string | null;
+  /** Reviewer approvals a require_approvals commit policy asks for (0 = none). */
+  required_approvals: number;
+  /**
+   * Set when the entity moved past `entity_version`, so committing would
+   * fail until the changeset is rebased. `current_version` is null when
+   * the entity is gone.
+   */
+  stale: { current_version: number | null } | null;
   field_changes: ShapedFieldChange[];
 }
 
@@ -225,6 +234,7 @@ interface PendingChangesetRow {
   revision_prompt?: string | null;
   alternative_group_id?: bigint | null;
   origin?: string;
+  required_approvals?: number;
   change_plan: { id: bigint; plan_kind: string; status: string } | null;
   alternative_group?: {
     id: bigint;
@@ -253,7 +263,9 @@ interface PendingChangesetRow {
 export function shapePendingChangeset(
   row: PendingChangesetRow,
   lookup: ConceptRefLookup,
+  staleVersions?: Map<string, number | null>,
 ): ShapedChangeset {
+  const staleKey = row.id.toString();
   return {
     id: row.id.toString(),
     entity_type: row.entity_type,
@@ -281,6 +293,10 @@ export function shapePendingChangeset(
       : 1,
     selected_changeset_id:
       row.alternative_group?.selected_changeset_id?.toString() ?? null,
+    required_approvals: row.required_approvals ?? 0,
+    stale: staleVersions?.has(staleKey)
+      ? { current_version: staleVersions.get(staleKey) ?? null }
+      : null,
     field_changes: row.field_changes.map((fc) => {
       const shouldDecorate = CONCEPT_REF_FIELDS.has(fc.field_name);
       const oldRaw = shouldDecorate ? normalizeIntLike(fc.old_value) : null;
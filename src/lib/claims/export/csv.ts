@@ -0,0 +1,84 @@
+/**
+ * CSV tables in Gephi's spreadsheet import layout: `nodes` (Id, Label, …)
+ * and `edges` (Source, Target, Type, Label, …), plus a `mentions` table of
+ * provenance rows. Node ids match the GraphML export.
+ */
+
+import type { ClaimsExport } from './types';
+
+export const CSV_TABLES = ['nodes', 'edges', 'mentions'] as const;
+export type ClaimsCsvTable = (typeof CSV_TABLES)[number];
+
+function cell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: Array<Array<string | number | null | undefined>>): string {
+  return [header, ...rows].map((row) => row.map(cell).join(',')).join('\r\n') + '\r\n';
+}
+
+export function serializeCsv(data: ClaimsExport, table: ClaimsCsvTable = 'edges'): string {
+  const conceptLabels = new Map(data.concepts.map((c) => [c.id, c.label]));
+  const sourcesById = new Map(data.sources.map((s) => [s.id, s]));
+
+  if (table === 'nodes') {
+    const rows: Array<Array<string | number | null>> = [];
+    for (const c of data.concepts) rows.push([`concept-${c.id}`, c.label, 'concept', null, null, null]);
+    for (const s of data.sources) {
+      rows.push([`source-${s.id}`, s.title ?? s.uri ?? `Source ${s.id}`, 'source', null, null, s.uri]);
+    }
+    for (const r of data.referents) {
+      rows.push([`referent-${r.id}`, r.label, 'referent', conceptLabels.get(r.typeConceptId) ?? null, null, null]);
+    }
+    for (const i of data.instances) {
+      rows.push([`instance-${i.id}`, i.label, 'instance', conceptLabels.get(i.conceptId) ?? null, i.confidence, null]);
+      for (const f of i.fillers) {
+        if (!f.fillerInstanceId && f.value !== null) rows.push([`value-${f.id}`, f.value, 'value', f.valueType, null, null]);
+      }
+    }
+    return toCsv(['Id', 'Label', 'Kind', 'Concept', 'Confidence', 'Uri'], rows);
+  }
+
+  if (table === 'mentions') {
+    const rows: Array<Array<string | number | null>> = [];
+    for (const i of data.instances) {
+      for (const m of i.mentions) {
+        rows.push([
+          `instance-${i.id}`,
+          i.label,
+          `source-${m.sourceTextId}`,
+          sourcesById.get(m.sourceTextId)?.uri ?? null,
+          m.start,
+          m.end,
+          m.page,
+          m.breadcrumb,
+          m.text,
+        ]);
+      }
+    }
+    return toCsv(['Instance', 'InstanceLabel', 'Source', 'SourceUri', 'Start', 'End', 'Page', 'Section', 'Quote'], rows);
+  }
+
+  const referentIds = new Set(data.referents.map((r) => r.id));
+  const rows: Array<Array<string | number | null>> = [];
+  for (const r of data.referents) {
+    rows.push([`referent-${r.id}`, `concept-${r.typeConceptId}`, 'Directed', 'typed_as', 'typed_as', null]);
+  }
+  for (const i of data.instances) {
+    const id = `instance-${i.id}`;
+    rows.push([id, `concept-${i.conceptId}`, 'Directed', 'typed_as', 'typed_as', null]);
+    if (i.referentId && referentIds.has(i.referentId)) {
+      rows.push([id, `referent-${i.referentId}`, 'Directed', 'refers_to', 'refers_to', null]);
+    }
+    for (const f of i.fillers) {
+      if (f.fillerInstanceId) {
+        rows.push([id, `instance-${f.fillerInstanceId}`, 'Directed', f.propertyLabel, 'filler', null]);
+      } else if (f.value !== null) {
+        rows.push([id, `value-${f.id}`, 'Directed', f.propertyLabel, 'filler', f.value]);
+      }
+    }
+  }
+  return toCsv(['Source', 'Target', 'Type', 'Label', 'Kind', 'Value'], rows);
+}
@@ -0,0 +1,130 @@
+/**
+ * GraphML for Gephi/yEd/NetworkX. Node kinds: instance, concept, value
+ * (primitive filler), referent, source. Edge kinds: typed_as, filler
+ * (labelled with the property), refers_to, mentioned_in (with the
+ * character range and quote).
+ */
+
+import type { ClaimsExport } from './types';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // XML 1.0 forbids most control characters even when escaped.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+const NODE_KEYS = [
+  ['label', 'string'],
+  ['kind', 'string'],
+  ['concept', 'string'],
+  ['confidence', 'double'],
+  ['referential_status', 'string'],
+  ['uri', 'string'],
+] as const;
+
+const EDGE_KEYS = [
+  ['label', 'string'],
+  ['kind', 'string'],
+  ['value', 'string'],
+  ['start', 'int'],
+  ['end', 'int'],
+  ['quote', 'string'],
+] as const;
+
+type NodeAttrs = Partial<Record<(typeof NODE_KEYS)[number][0], string | number | null>>;
+type EdgeAttrs = Partial<Record<(typeof EDGE_KEYS)[number][0], string | number | null>>;
+
+export function serializeGraphMl(data: ClaimsExport): string {
+  const conceptLabels = new Map(data.concepts.map((c) => [c.id, c.label]));
+  const nodes: string[] = [];
+  const edges: string[] = [];
+  let edgeCounter = 0;
+
+  const data_ = (attrs: Record<string, string | number | null | undefined>, prefix: 'n' | 'e') =>
+    Object.entries(attrs)
+      .filter(([, v]) => v !== null && v !== undefined && v !== '')
+      .map(([k, v]) => `      <data key="${prefix}_${k}">${escapeXml(String(v))}</data>`)
+      .join('\n');
+
+  const node = (id: string, attrs: NodeAttrs) => {
+    nodes.push(`    <node id="${escapeXml(id)}">\n${data_(attrs, 'n')}\n    </node>`);
+  };
+  const edge = (source: string, target: string, attrs: EdgeAttrs) => {
+    edges.push(
+      `    <edge id="e${++edgeCounter}" source="${escapeXml(source)}" target="${escapeXml(target)}">\n${data_(attrs, 'e')}\n    </edge>`,
+    );
+  };
+
+  for (const concept of data.concepts) {
+    node(`concept-${concept.id}`, { label: concept.label, kind: 'concept' });
+  }
+  for (const source of data.sources) {
+    node(`source-${source.id}`, { label: source.title ?? source.uri ?? `Source ${source.id}`, kind: 'source', uri: source.uri });
+  }
+  for (const referent of data.referents) {
+    node(`referent-${referent.id}`, {
+      label: referent.label,
+      kind: 'referent',
+      concept: conceptLabels.get(referent.typeConceptId) ?? null,
+    });
+    edge(`referent-${referent.id}`, `concept-${referent.typeConceptId}`, { kind: 'typed_as', label: 'typed_as' });
+  }
+
+  const referentIds = new Set(data.referents.map((r) => r.id));
+  for (const instance of data.instances) {
+    const id = `instance-${instance.id}`;
+    node(id, {
+      label: instance.label,
+      kind: 'instance',
+      concept: conceptLabels.get(instance.conceptId) ?? null,
+      confidence: instance.confidence,
+      referential_status: instance.referentialStatus,
+    });
+    edge(id, `concept-${instance.conceptId}`, { kind: 'typed_as', label: 'typed_as' });
+    if (instance.referentId && referentIds.has(instance.referentId)) {
+      edge(id, `referent-${instance.referentId}`, { kind: 'refers_to', label: 'refers_to' });
+    }
+
+    for (const filler of instance.fillers) {
+      if (filler.fillerInstanceId) {
+        edge(id, `instance-${filler.fillerInstanceId}`, { kind: 'filler', label: filler.propertyLabel });
+      } else if (filler.value !== null) {
+        const valueId = `value-${filler.id}`;
+        node(valueId, { label: filler.value, kind: 'value', concept: filler.valueType });
+        edge(id, valueId, { kind: 'filler', label: filler.propertyLabel, value: filler.value });
+      }
+    }
+
+    for (const mention of instance.mentions) {
+      edge(id, `source-${mention.sourceTextId}`, {
+        kind: 'mentioned_in',
+        label: 'mentioned_in',
+        start: mention.start,
+        end: mention.end,
+        quote: mention.text,
+      });
+    }
+  }
+
+  const keys = [
+    ...NODE_KEYS.map(([name, type]) => `  <key id="n_${name}" for="node" attr.name="${name}" attr.type="${type}"/>`),
+    ...EDGE_KEYS.map(([name, type]) => `  <key id="e_${name}" for="edge" attr.name="${name}" attr.type="${type}"/>`),
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...keys,
+    `  <graph id="graph-${escapeXml(data.graph.id)}" edgedefault="directed">`,
+    `    <desc>${escapeXml(data.graph.label)}</desc>`,
+    ...nodes,
+    ...edges,
+    '  </graph>',
+    '</graphml>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,33 @@
+import { serializeCsv, type ClaimsCsvTable } from './csv';
+import { serializeGraphMl } from './graphml';
+import { serializeJsonLd } from './jsonld';
+import { exportNamespaces } from './rdf';
+import { serializeTurtle } from './turtle';
+import type { ClaimsExport, ClaimsExportFormat, SerializedExport } from './types';
+
+export * from './types';
+export { loadClaimsExport } from './load';
+export { CSV_TABLES, type ClaimsCsvTable } from './csv';
+export { exportNamespaces, propertyIri } from './rdf';
+
+export const CLAIMS_EXPORT_FORMATS: ClaimsExportFormat[] = ['jsonld', 'turtle', 'graphml', 'csv'];
+
+export function serializeClaimsExport(
+  data: ClaimsExport,
+  format: ClaimsExportFormat,
+  options: { baseIri: string; csvTable?: ClaimsCsvTable },
+): SerializedExport {
+  const ns = exportNamespaces(options.baseIri, data.graph.id);
+  switch (format) {
+    case 'jsonld':
+      return { body: serializeJsonLd(data, ns), contentType: 'application/ld+json', extension: 'jsonld' };
+    case 'turtle':
+      return { body: serializeTurtle(data, ns), contentType: 'text/turtle; charset=utf-8', extension: 'ttl' };
+    case 'graphml':
+      return { body: serializeGraphMl(data), contentType: 'application/graphml+xml', extension: 'graphml' };
+    case 'csv': {
+      const table = options.csvTable ?? 'edges';
+      return { body: serializeCsv(data, table), contentType: 'text/csv; charset=utf-8', extension: `${table}.csv` };
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { buildExportTriples, propertyIri, RDF_PREFIXES, type RdfTerm } from './rdf';
+import type { ClaimsExport, ExportNamespaces } from './types';
+
+type JsonLdValue = string | { '@id': string } | { '@value': string; '@type'?: string };
+
+/**
+ * Flattened JSON-LD: one node object per subject in `@graph`. Filler
+ * predicates are exposed as context terms named after the property label,
+ * so consumers that ignore the context still see readable keys.
+ */
+export function serializeJsonLd(data: ClaimsExport, ns: ExportNamespaces): string {
+  const prefixes: Record<string, string> = {
+    ...RDF_PREFIXES,
+    se: ns.vocab,
+    concept: ns.concept,
+    inst: ns.instance,
+    ref: ns.referent,
+    src: ns.source,
+  };
+
+  const context: Record<string, unknown> = { ...prefixes };
+  const termsByIri = new Map<string, string>();
+  const usedTerms = new Set(Object.keys(prefixes));
+  for (const instance of data.instances) {
+    for (const filler of instance.fillers) {
+      const iri = propertyIri(ns, filler.propertyLabel);
+      if (termsByIri.has(iri)) continue;
+      let term = filler.propertyLabel.trim().replace(/^@+/, '').replace(/:/g, '_') || 'property';
+      while (usedTerms.has(term)) term = `${term}_`;
+      usedTerms.add(term);
+      termsByIri.set(iri, term);
+      context[term] = { '@id': iri };
+    }
+  }
+
+  const compact = (iri: string): string => {
+    const term = termsByIri.get(iri);
+    if (term) return term;
+    for (const [prefix, namespace] of Object.entries(prefixes)) {
+      if (iri.startsWith(namespace) && iri.length > namespace.length) {
+        return `${prefix}:${iri.slice(namespace.length)}`;
+      }
+    }
+    return iri;
+  };
+
+  const value = (t: RdfTerm): JsonLdValue => {
+    if (t.kind === 'iri') return { '@id': compact(t.value) };
+    if (t.kind === 'bnode') return { '@id': `_:${t.value}` };
+    return t.datatype ? { '@value': t.value, '@type': compact(t.datatype) } : t.value;
+  };
+
+  const nodes = new Map<string, Record<string, unknown>>();
+  for (const triple of buildExportTriples(data, ns)) {
+    const id = triple.subject.kind === 'bnode' ? `_:${triple.subject.value}` : compact(triple.subject.value);
+    const node = nodes.get(id) ?? { '@id': id };
+    nodes.set(id, node);
+
+    if (triple.predicate === `${RDF_PREFIXES.rdf}type` && triple.object.kind === 'iri') {
+      const types = (node['@type'] as string[] | undefined) ?? [];
+      types.push(compact(triple.object.value));
+      node['@type'] = types;
+      continue;
+    }
+    const key = compact(triple.predicate);
+    const list = (node[key] as JsonLdValue[] | undefined) ?? [];
+    list.push(value(triple.object));
+    node[key] = list;
+  }
+
+  return JSON.stringify(
+    {
+      '@context': context,
+      '@id': compact(`${ns.graph}${data.graph.id}`),
+      '@graph': Array.from(nodes.values()),
+    },
+    null,
+    2,
+  );
+}
@@ -0,0 +1,188 @@
+import { prisma } from '@/lib/prisma';
+import type { DocumentIndex } from '@/lib/documents';
+import { blockLocatorSchema, resolveLocator } from '../locator-schema';
+import type { ReferentialStatus } from '../types';
+import type {
+  ClaimsExport,
+  ExportConcept,
+  ExportInstance,
+  ExportMention,
+  ExportReferent,
+  ExportSource,
+} from './types';
+
+const exportInstanceInclude = {
+  concepts: { select: { id: true, label: true } },
+  instance_fillers_instance_fillers_instance_idToinstances: {
+    orderBy: { id: 'asc' as const },
+    include: {
+      properties: { select: { id: true, label: true } },
+      filler_types: { select: { label: true } },
+    },
+  },
+  instance_mentions: { orderBy: { id: 'asc' as const } },
+};
+
+function instanceLabel(metadata: unknown, conceptLabel: string, id: bigint): string {
+  const meta = metadata as Record<string, unknown> | null;
+  if (meta?.label && typeof meta.label === 'string') return meta.label;
+  return `${conceptLabel} #${id}`;
+}
+
+function sourceTitle(metadata: unknown): string | null {
+  const meta = metadata as Record<string, unknown> | null;
+  return typeof meta?.title === 'string' && meta.title.trim() ? meta.title.trim() : null;
+}
+
+/**
+ * Load everything an export needs for one graph: its instances (plus
+ * filler targets in other graphs, as stubs), their concepts, the
+ * referents they resolve to, and mention ranges resolved against each
+ * source's document index. Returns null when the graph doesn't exist.
+ */
+export async function loadClaimsExport(graphId: bigint): Promise<ClaimsExport | null> {
+  const graph = await prisma.knowledge_graphs.findUnique({ where: { id: graphId } });
+  if (!graph) return null;
+
+  const rows = await prisma.instances.findMany({
+    where: { knowledge_graph_id: graphId },
+    include: exportInstanceInclude,
+    orderBy: { id: 'asc' },
+  });
+
+  const inGraph = new Set(rows.map((r) => r.id));
+  const externalIds = new Set<bigint>();
+  for (const row of rows) {
+    for (const f of row.instance_fillers_instance_fillers_instance_idToinstances) {
+      if (f.filler_instance_id && !inGraph.has(f.filler_instance_id)) externalIds.add(f.filler_instance_id);
+    }
+  }
+  const externalRows = externalIds.size
+    ? await prisma.instances.findMany({
+        where: { id: { in: Array.from(externalIds) } },
+        select: {
+          id: true,
+          metadata: true,
+          confidence: true,
+          referential_status: true,
+          referent_id: true,
+          source_text_id: true,
+          concepts: { select: { id: true, label: true } },
+        },
+      })
+    : [];
+
+  const sourceIds = new Set<bigint>();
+  for (const row of rows) {
+    if (row.source_text_id) sourceIds.add(row.source_text_id);
+  }
+  const sourceRows = sourceIds.size
+    ? await prisma.source_texts.findMany({
+        where: { id: { in: Array.from(sourceIds) } },
+        select: { id: true, source_uri: true, metadata: true, content: true, document_index: true },
+      })
+    : [];
+  const sourcesById = new Map(sourceRows.map((s) => [s.id.toString(), s]));
+
+  const concepts = new Map<string, ExportConcept>();
+  const instances: ExportInstance[] = [];
+
+  for (const row of rows) {
+    concepts.set(row.concepts.id.toString(), { id: row.concepts.id.toString(), label: row.concepts.label });
+    const source = row.source_text_id ? sourcesById.get(row.source_text_id.toString()) : undefined;
+    const docIndex = (source?.document_index ?? null) as unknown as DocumentIndex | null;
+
+    const mentions: ExportMention[] = row.instance_mentions.map((m) => {
+      const parsed = blockLocatorSchema.safeParse(m.locator);
+      const resolved = parsed.success && docIndex && source
+        ? resolveLocator(parsed.data, docIndex, source.content)
+        : null;
+      return {
+        id: m.id.toString(),
+        sourceTextId: row.source_text_id?.toString() ?? '',
+        start: resolved?.globalStart ?? null,
+        end: resolved?.globalEnd ?? null,
+        text: m.mention_text ?? resolved?.mentionText ?? null,
+        breadcrumb: resolved?.breadcrumb ?? null,
+        page: resolved?.page ?? null,
+      };
+    });
+
+    instances.push({
+      id: row.id.toString(),
+      label: instanceLabel(row.metadata, row.concepts.label, row.id),
+      conceptId: row.concepts.id.toString(),
+      confidence: row.confidence,
+      referentialStatus: row.referential_status as ReferentialStatus,
+      referentId: row.referent_id?.toString() ?? null,
+      sourceTextId: row.source_text_id?.toString() ?? null,
+      inGraph: true,
+      fillers: row.instance_fillers_instance_fillers_instance_idToinstances.map((f) => ({
+        id: f.id.toString(),
+        propertyId: f.property_id.toString(),
+        propertyLabel: f.properties.label ?? `Property ${f.property_id}`,
+        fillerInstanceId: f.filler_instance_id?.toString() ?? null,
+        value: f.filler_instance_id ? null : f.filler_value,
+        valueType: f.filler_instance_id ? null : f.filler_types?.label ?? null,
+      })),
+      mentions: row.source_text_id ? mentions : [],
+    });
+  }
+
+  for (const row of externalRows) {
+    concepts.set(row.concepts.id.toString(), { id: row.concepts.id.toString(), label: row.concepts.label });
+    instances.push({
+      id: row.id.toString(),
+      label: instanceLabel(row.metadata, row.concepts.label, row.id),
+      conceptId: row.concepts.id.toString(),
+      confidence: row.confidence,
+      referentialStatus: row.referential_status as ReferentialStatus,
+      referentId: row.referent_id?.toString() ?? null,
+      sourceTextId: row.source_text_id?.toString() ?? null,
+      inGraph: false,
+      fillers: [],
+      mentions: [],
+    });
+  }
+
+  const referentIds = new Set<bigint>();
+  for (const row of [...rows, ...externalRows]) {
+    if (row.referent_id) referentIds.add(row.referent_id);
+  }
+  const referentRows = await prisma.referents.findMany({
+    where: {
+      merged_into_id: null,
+      OR: [{ knowledge_graph_id: graphId }, { id: { in: Array.from(referentIds) } }],
+    },
+    include: {
+      concepts: { select: { id: true, label: true } },
+      referent_aliases: { select: { alias: true }, orderBy: { id: 'asc' } },
+      referent_external_ids: { select: { vocabulary: true, external_id: true }, orderBy: { id: 'asc' } },
+    },
+    orderBy: { id: 'asc' },
+  });
+
+  const referents: ExportReferent[] = referentRows.map((r) => {
+    concepts.set(r.concepts.id.toString(), { id: r.concepts.id.toString(), label: r.concepts.label });
+    return {
+      id: r.id.toString(),
+      label: r.canonical_label,
+      typeConceptId: r.type_concept_id.toString(),
+      aliases: Array.from(new Set(r.referent_aliases.map((a) => a.alias))).filter((a) => a !== r.canonical_label),
+      externalIds: r.referent_external_ids.map((e) => ({ vocabulary: e.vocabulary, externalId: e.external_id })),
+    };
+  });
+
+  const sources: ExportSource[] = sourceRows
+    .map((s) => ({ id: s.id.toString(), uri: s.source_uri, title: sourceTitle(s.metadata) }))
+    .sort((a, b) => Number(a.id) - Number(b.id));
+
+  return {
+    graph: { id: graph.id.toString(), label: graph.label, description: graph.description },
+    exportedAt: new Date().toISOString(),
+    concepts: Array.from(concepts.values()).sort((a, b) => Number(a.id) - Number(b.id)),
+    instances,
+    referents,
+    sources,
+  };
+}
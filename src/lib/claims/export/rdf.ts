@@ -0,0 +1,173 @@
+/**
+ * RDF view of a {@link ClaimsExport}, shared by the Turtle and JSON-LD
+ * serializers.
+ *
+ * Mapping:
+ *   - instance  → `rdf:type` its concept (the typed_as edge), `rdfs:label`,
+ *                 `se:confidence`, `se:referentialStatus`, `se:referent`,
+ *                 `prov:wasDerivedFrom` its source
+ *   - filler    → predicate keyed by property label
+ *                 (`<ns.property><label>`), object is the filler instance
+ *                 or a literal (typed with xsd when the value fits)
+ *   - referent  → `skos:prefLabel` / `skos:altLabel`, external ids as
+ *                 `se:externalId [ se:vocabulary; se:identifier ]`
+ *   - mention   → a Web Annotation (`oa:Annotation`) whose body is the
+ *                 instance and whose target selects the character range
+ *                 (TextPositionSelector) and quote (TextQuoteSelector) in
+ *                 the source
+ */
+
+import { RDF_PREFIXES, type RdfTerm, type RdfTriple } from '@/lib/rdf';
+import type { ClaimsExport, ExportNamespaces } from './types';
+
+export { RDF_PREFIXES, type RdfTerm, type RdfTriple };
+
+export function exportNamespaces(baseIri: string, graphId: string): ExportNamespaces {
+  const base = baseIri.endsWith('/') ? baseIri : `${baseIri}/`;
+  return {
+    graph: `${base}claims/graphs/`,
+    instance: `${base}claims/graphs/${graphId}/instances/`,
+    concept: `${base}concepts/`,
+    property: `${base}claims/properties/`,
+    referent: `${base}claims/referents/`,
+    source: `${base}claims/sources/`,
+    mention: `${base}claims/graphs/${graphId}/mentions/`,
+    vocab: `${base}claims/vocab#`,
+  };
+}
+
+/** Property IRI keyed by label, so same-named slots across concepts share a predicate. */
+export function propertyIri(ns: ExportNamespaces, label: string): string {
+  return `${ns.property}${encodeURIComponent(label.trim().replace(/\s+/g, '_'))}`;
+}
+
+function typedLiteral(value: string, valueType: string | null): RdfTerm {
+  const type = valueType?.toLowerCase();
+  const trimmed = value.trim();
+  if ((type === 'integer' || type === 'int') && /^[-+]?\d+$/.test(trimmed)) {
+    return { kind: 'literal', value: trimmed, datatype: `${RDF_PREFIXES.xsd}integer` };
+  }
+  if ((type === 'number' || type === 'float' || type === 'decimal') && /^[-+]?(\d+\.?\d*|\.\d+)$/.test(trimmed)) {
+    return { kind: 'literal', value: trimmed, datatype: `${RDF_PREFIXES.xsd}decimal` };
+  }
+  if (type === 'boolean' && /^(true|false)$/i.test(trimmed)) {
+    return { kind: 'literal', value: trimmed.toLowerCase(), datatype: `${RDF_PREFIXES.xsd}boolean` };
+  }
+  if (type === 'date' && /^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    return { kind: 'literal', value: trimmed, datatype: `${RDF_PREFIXES.xsd}date` };
+  }
+  return { kind: 'literal', value };
+}
+
+function isAbsoluteHttpIri(value: string): boolean {
+  return /^https?:\/\/\S+$/i.test(value);
+}
+
+export function buildExportTriples(data: ClaimsExport, ns: ExportNamespaces): RdfTriple[] {
+  const triples: RdfTriple[] = [];
+  const { rdf, rdfs, owl, xsd, skos, dcterms, prov, oa } = RDF_PREFIXES;
+  const iri = (value: string) => ({ kind: 'iri' as const, value });
+  const lit = (value: string, datatype?: string): RdfTerm => ({ kind: 'literal', value, datatype });
+  const add = (subject: RdfTriple['subject'], predicate: string, object: RdfTerm) =>
+    triples.push({ subject, predicate, object });
+  let bnodeCounter = 0;
+  const bnode = () => ({ kind: 'bnode' as const, value: `b${++bnodeCounter}` });
+
+  const graph = iri(`${ns.graph}${data.graph.id}`);
+  add(graph, `${rdf}type`, iri(`${ns.vocab}KnowledgeGraph`));
+  add(graph, `${rdfs}label`, lit(data.graph.label));
+  if (data.graph.description) add(graph, `${dcterms}description`, lit(data.graph.description));
+  add(graph, `${dcterms}modified`, lit(data.exportedAt, `${xsd}dateTime`));
+
+  for (const concept of data.concepts) {
+    const subject = iri(`${ns.concept}${concept.id}`);
+    add(subject, `${rdf}type`, iri(`${owl}Class`));
+    add(subject, `${rdfs}label`, lit(concept.label));
+  }
+
+  const properties = new Map<string, string>();
+  for (const instance of data.instances) {
+    for (const filler of instance.fillers) {
+      const predicate = propertyIri(ns, filler.propertyLabel);
+      if (!properties.has(predicate)) properties.set(predicate, filler.propertyLabel);
+    }
+  }
+  for (const [predicate, label] of properties) {
+    add(iri(predicate), `${rdf}type`, iri(`${rdf}Property`));
+    add(iri(predicate), `${rdfs}label`, lit(label));
+  }
+
+  for (const source of data.sources) {
+    const subject = iri(`${ns.source}${source.id}`);
+    add(subject, `${rdf}type`, iri(`${prov}Entity`));
+    if (source.title) add(subject, `${dcterms}title`, lit(source.title));
+    if (source.uri) {
+      add(subject, `${dcterms}source`, isAbsoluteHttpIri(source.uri) ? iri(source.uri) : lit(source.uri));
+    }
+  }
+
+  for (const referent of data.referents) {
+    const subject = iri(`${ns.referent}${referent.id}`);
+    add(subject, `${rdf}type`, iri(`${ns.vocab}Referent`));
+    add(subject, `${rdf}type`, iri(`${ns.concept}${referent.typeConceptId}`));
+    add(subject, `${rdfs}label`, lit(referent.label));
+    add(subject, `${skos}prefLabel`, lit(referent.label));
+    for (const alias of referent.aliases) add(subject, `${skos}altLabel`, lit(alias));
+    for (const ext of referent.externalIds) {
+      const node = bnode();
+      add(subject, `${ns.vocab}externalId`, node);
+      add(node, `${ns.vocab}vocabulary`, lit(ext.vocabulary));
+      add(node, `${ns.vocab}identifier`, lit(ext.externalId));
+    }
+  }
+
+  for (const instance of data.instances) {
+    const subject = iri(`${ns.instance}${instance.id}`);
+    add(subject, `${rdf}type`, iri(`${ns.concept}${instance.conceptId}`));
+    add(subject, `${rdfs}label`, lit(instance.label));
+    if (!instance.inGraph) continue;
+
+    add(subject, `${ns.vocab}graph`, graph);
+    add(subject, `${ns.vocab}referentialStatus`, lit(instance.referentialStatus));
+    if (instance.confidence !== null) {
+      add(subject, `${ns.vocab}confidence`, lit(String(instance.confidence), `${xsd}float`));
+    }
+    if (instance.referentId) add(subject, `${ns.vocab}referent`, iri(`${ns.referent}${instance.referentId}`));
+    if (instance.sourceTextId) add(subject, `${prov}wasDerivedFrom`, iri(`${ns.source}${instance.sourceTextId}`));
+
+    for (const filler of instance.fillers) {
+      const predicate = propertyIri(ns, filler.propertyLabel);
+      if (filler.fillerInstanceId) {
+        add(subject, predicate, iri(`${ns.instance}${filler.fillerInstanceId}`));
+      } else if (filler.value !== null) {
+        add(subject, predicate, typedLiteral(filler.value, filler.valueType));
+      }
+    }
+
+    for (const mention of instance.mentions) {
+      const annotation = iri(`${ns.mention}${mention.id}`);
+      add(annotation, `${rdf}type`, iri(`${oa}Annotation`));
+      add(annotation, `${oa}hasBody`, subject);
+      const target = bnode();
+      add(annotation, `${oa}hasTarget`, target);
+      add(target, `${oa}hasSource`, iri(`${ns.source}${mention.sourceTextId}`));
+      if (mention.start !== null && mention.end !== null) {
+        const position = bnode();
+        add(target, `${oa}hasSelector`, position);
+        add(position, `${rdf}type`, iri(`${oa}TextPositionSelector`));
+        add(position, `${oa}start`, lit(String(mention.start), `${xsd}nonNegativeInteger`));
+        add(position, `${oa}end`, lit(String(mention.end), `${xsd}nonNegativeInteger`));
+      }
+      if (mention.text) {
+        const quote = bnode();
+        add(target, `${oa}hasSelector`, quote);
+        add(quote, `${rdf}type`, iri(`${oa}TextQuoteSelector`));
+        add(quote, `${oa}exact`, lit(mention.text));
+      }
+      if (mention.breadcrumb) add(annotation, `${ns.vocab}breadcrumb`, lit(mention.breadcrumb));
+      if (mention.page !== null) add(annotation, `${ns.vocab}page`, lit(String(mention.page), `${xsd}integer`));
+    }
+  }
+
+  return triples;
+}
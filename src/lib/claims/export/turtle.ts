@@ -0,0 +1,17 @@
+import { createTurtleFormatter, RDF_PREFIXES } from '@/lib/rdf';
+import { buildExportTriples } from './rdf';
+import type { ClaimsExport, ExportNamespaces } from './types';
+
+export function serializeTurtle(data: ClaimsExport, ns: ExportNamespaces): string {
+  const turtle = createTurtleFormatter([
+    ...Object.entries(RDF_PREFIXES),
+    ['se', ns.vocab],
+    ['concept', ns.concept],
+    ['inst', ns.instance],
+    ['prop', ns.property],
+    ['ref', ns.referent],
+    ['src', ns.source],
+    ['mention', ns.mention],
+  ]);
+  return turtle.header() + turtle.blocks(buildExportTriples(data, ns));
+}
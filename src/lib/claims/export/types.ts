@@ -0,0 +1,91 @@
+/**
+ * Format-neutral snapshot of a knowledge graph for export. Each serializer
+ * (JSON-LD, Turtle, GraphML, CSV) reads this; none of them touch Prisma.
+ */
+
+import type { ReferentialStatus } from '../types';
+
+export type ClaimsExportFormat = 'jsonld' | 'turtle' | 'graphml' | 'csv';
+
+export interface ExportConcept {
+  id: string;
+  label: string;
+}
+
+export interface ExportFiller {
+  id: string;
+  propertyId: string;
+  propertyLabel: string;
+  /** Set for instance-valued fillers. */
+  fillerInstanceId: string | null;
+  /** Set for primitive fillers. */
+  value: string | null;
+  /** Filler type label of `value` (e.g. `number`), when recorded. */
+  valueType: string | null;
+}
+
+export interface ExportMention {
+  id: string;
+  sourceTextId: string;
+  /** Character range in the source's canonical text; null when the locator no longer resolves. */
+  start: number | null;
+  end: number | null;
+  text: string | null;
+  breadcrumb: string | null;
+  page: number | null;
+}
+
+export interface ExportInstance {
+  id: string;
+  label: string;
+  conceptId: string;
+  confidence: number | null;
+  referentialStatus: ReferentialStatus;
+  referentId: string | null;
+  sourceTextId: string | null;
+  /** False for filler targets that live in another graph (no fillers or mentions exported). */
+  inGraph: boolean;
+  fillers: ExportFiller[];
+  mentions: ExportMention[];
+}
+
+export interface ExportReferent {
+  id: string;
+  label: string;
+  typeConceptId: string;
+  aliases: string[];
+  externalIds: Array<{ vocabulary: string; externalId: string }>;
+}
+
+export interface ExportSource {
+  id: string;
+  uri: string | null;
+  title: string | null;
+}
+
+export interface ClaimsExport {
+  graph: { id: string; label: string; description: string | null };
+  exportedAt: string;
+  concepts: ExportConcept[];
+  instances: ExportInstance[];
+  referents: ExportReferent[];
+  sources: ExportSource[];
+}
+
+/** IRI namespaces for RDF output; all end in `/` or `#`. */
+export interface ExportNamespaces {
+  graph: string;
+  instance: string;
+  concept: string;
+  property: string;
+  referent: string;
+  source: string;
+  mention: string;
+  vocab: string;
+}
+
+export interface SerializedExport {
+  body: string;
+  contentType: string;
+  extension: string;
+}
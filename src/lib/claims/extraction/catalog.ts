@@ -0,0 +1,189 @@
+/**
+ * Extraction catalog: the concepts a job may extract, each with the
+ * properties it can fill (own plus inherited over parent_of) and the
+ * `property_filler_constraints` that govern each slot.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type {
+  CatalogConcept,
+  CatalogFillerConstraint,
+  CatalogProperty,
+  ExtractionCatalog,
+} from './types';
+
+interface AncestorRow {
+  concept_id: bigint;
+  ancestor_id: bigint;
+  depth: number;
+}
+
+interface DescendantRow {
+  root_id: bigint;
+  concept_id: bigint;
+}
+
+/** Concepts already used by instances in a graph; the default catalog. */
+export async function graphConceptIds(knowledgeGraphId: bigint): Promise<bigint[]> {
+  const rows = await prisma.instances.findMany({
+    where: { knowledge_graph_id: knowledgeGraphId },
+    distinct: ['concept_id'],
+    select: { concept_id: true },
+  });
+  return rows.map((r) => r.concept_id);
+}
+
+async function loadAncestors(conceptIds: bigint[]): Promise<AncestorRow[]> {
+  return prisma.$queryRaw<AncestorRow[]>`
+    WITH RECURSIVE up(concept_id, ancestor_id, depth) AS (
+      SELECT c.id, c.id, 0 FROM concepts c WHERE c.id IN (${Prisma.join(conceptIds)})
+      UNION
+      SELECT up.concept_id, r.parent_id, up.depth + 1
+      FROM concept_relations r
+      JOIN up ON r.child_id = up.ancestor_id
+      WHERE r.type = 'parent_of' AND up.depth < 32
+    )
+    SELECT concept_id, ancestor_id, MIN(depth)::int AS depth
+    FROM up
+    GROUP BY concept_id, ancestor_id
+  `;
+}
+
+async function loadDescendants(rootIds: bigint[]): Promise<Map<string, string[]>> {
+  const result = new Map<string, string[]>();
+  if (rootIds.length === 0) return result;
+  const rows = await prisma.$queryRaw<DescendantRow[]>`
+    WITH RECURSIVE down(root_id, concept_id) AS (
+      SELECT c.id, c.id FROM concepts c WHERE c.id IN (${Prisma.join(rootIds)})
+      UNION
+      SELECT down.root_id, r.child_id
+      FROM concept_relations r
+      JOIN down ON r.parent_id = down.concept_id
+      WHERE r.type = 'parent_of'
+    )
+    SELECT root_id, concept_id FROM down
+  `;
+  for (const row of rows) {
+    const key = row.root_id.toString();
+    const list = result.get(key) ?? [];
+    list.push(row.concept_id.toString());
+    result.set(key, list);
+  }
+  return result;
+}
+
+export async function loadExtractionCatalog(conceptIds: bigint[]): Promise<ExtractionCatalog> {
+  if (conceptIds.length === 0) return { concepts: [] };
+
+  const concepts = await prisma.concepts.findMany({
+    where: { id: { in: conceptIds }, deleted: false },
+    select: { id: true, label: true, definition: true, short_definition: true },
+    orderBy: { label: 'asc' },
+  });
+  if (concepts.length === 0) return { concepts: [] };
+
+  const ancestors = await loadAncestors(concepts.map((c) => c.id));
+  const declaringIds = Array.from(new Set(ancestors.map((a) => a.ancestor_id)));
+
+  const properties = await prisma.properties.findMany({
+    where: { concept_id: { in: declaringIds } },
+    select: {
+      id: true,
+      concept_id: true,
+      label: true,
+      description: true,
+      property_filler_constraints: {
+        select: {
+          filler_type_id: true,
+          concept_id: true,
+          filler_types: { select: { label: true } },
+          concepts: { select: { label: true } },
+        },
+      },
+    },
+  });
+
+  const constraintRoots = new Set<bigint>();
+  for (const p of properties) {
+    for (const c of p.property_filler_constraints) {
+      if (c.concept_id) constraintRoots.add(c.concept_id);
+    }
+  }
+  const descendants = await loadDescendants(Array.from(constraintRoots));
+
+  const propertiesByConcept = new Map<string, typeof properties>();
+  for (const p of properties) {
+    const key = p.concept_id.toString();
+    const list = propertiesByConcept.get(key) ?? [];
+    list.push(p);
+    propertiesByConcept.set(key, list);
+  }
+
+  const catalogConcepts: CatalogConcept[] = concepts.map((concept) => {
+    const lineage = ancestors
+      .filter((a) => a.concept_id === concept.id)
+      .sort((a, b) => a.depth - b.depth);
+
+    // Nearest declaration wins when a descendant redeclares an inherited label.
+    const byLabel = new Map<string, CatalogProperty>();
+    for (const { ancestor_id } of lineage) {
+      for (const p of propertiesByConcept.get(ancestor_id.toString()) ?? []) {
+        if (!p.label) continue;
+        const labelKey = p.label.toLowerCase();
+        if (byLabel.has(labelKey)) continue;
+
+        const seen = new Set<string>();
+        const constraints: CatalogFillerConstraint[] = [];
+        for (const c of p.property_filler_constraints) {
+          const dedupeKey = `${c.filler_type_id}|${c.concept_id ?? ''}`;
+          if (seen.has(dedupeKey)) continue;
+          seen.add(dedupeKey);
+          const conceptId = c.concept_id?.toString() ?? null;
+          constraints.push({
+            filler_type_id: c.filler_type_id,
+            filler_type_label: c.filler_types.label,
+            concept_id: conceptId,
+            concept_label: c.concepts?.label ?? null,
+            accepted_concept_ids: conceptId ? descendants.get(conceptId) ?? [conceptId] : [],
+          });
+        }
+
+        byLabel.set(labelKey, {
+          id: p.id.toString(),
+          label: p.label,
+          description: p.description,
+          declared_on: ancestor_id.toString(),
+          constraints,
+        });
+      }
+    }
+
+    return {
+      id: concept.id.toString(),
+      label: concept.label,
+      definition: concept.short_definition ?? concept.definition,
+      properties: Array.from(byLabel.values()),
+    };
+  });
+
+  return { concepts: catalogConcepts };
+}
+
+/** Plain-text rendering of the catalog for prompts. */
+export function formatCatalogForPrompt(catalog: ExtractionCatalog): string {
+  return catalog.concepts
+    .map((concept) => {
+      const lines = [`- ${concept.label}${concept.definition ? `: ${concept.definition}` : ''}`];
+      for (const p of concept.properties) {
+        const accepts = p.constraints.length
+          ? p.constraints
+              .map((c) => (c.concept_label ? `instance of ${c.concept_label}` : c.filler_type_label))
+              .join(' | ')
+          : 'any';
+        lines.push(`    * ${p.label} (${accepts})${p.description ? ` — ${p.description}` : ''}`);
+      }
+      return lines.join('\n');
+    })
+    .join('\n');
+}
@@ -0,0 +1,93 @@
+/**
+ * Split a source text into extraction chunks along DocumentIndex sections.
+ *
+ * Consecutive sections are packed into one chunk until `maxChars` of block
+ * text is reached; a section larger than that is split at block
+ * boundaries. Chunks never cut through a block, so every mention the model
+ * cites can be expressed as a BlockLocator.
+ */
+
+import type { DocumentIndex } from '@/lib/documents';
+import type { ExtractionBlock, ExtractionChunk } from './types';
+
+export const DEFAULT_MAX_CHUNK_CHARS = 6000;
+
+function blockText(canonicalText: string, globalStart: number, globalEnd: number): string {
+  return canonicalText.slice(globalStart, globalEnd).replace(/\n+$/, '');
+}
+
+function sectionPath(index: DocumentIndex, sectionIndex: number): string[] {
+  // Walk back to collect the nearest heading at each shallower level.
+  const path: string[] = [];
+  let depth = Number.POSITIVE_INFINITY;
+  for (let i = sectionIndex; i >= 0; i--) {
+    const section = index.sections[i];
+    if (!section || !section.heading || section.headingLevel === 'intro') continue;
+    const level = Number(section.headingLevel.slice(1));
+    if (level < depth) {
+      path.unshift(section.heading);
+      depth = level;
+    }
+    if (depth === 1) break;
+  }
+  return path;
+}
+
+export function chunkSourceText(
+  sourceTextId: bigint | string,
+  canonicalText: string,
+  index: DocumentIndex,
+  maxChars: number = DEFAULT_MAX_CHUNK_CHARS,
+): ExtractionChunk[] {
+  const bySection = new Map<number, ExtractionBlock[]>();
+  for (const block of index.blocks) {
+    const text = blockText(canonicalText, block.globalStart, block.globalEnd);
+    if (!text.trim()) continue;
+    const list = bySection.get(block.sectionIndex) ?? [];
+    list.push({
+      id: block.id,
+      kind: block.kind,
+      sectionIndex: block.sectionIndex,
+      paragraphIndex: block.paragraphIndex,
+      page: block.page,
+      text,
+    });
+    bySection.set(block.sectionIndex, list);
+  }
+
+  const chunks: ExtractionChunk[] = [];
+  let current: ExtractionBlock[] = [];
+  let currentChars = 0;
+
+  const emit = () => {
+    if (current.length === 0) return;
+    const sectionIndices = Array.from(new Set(current.map((b) => b.sectionIndex)));
+    chunks.push({
+      sourceTextId: sourceTextId.toString(),
+      chunkIndex: chunks.length,
+      sectionPath: sectionPath(index, sectionIndices[0]),
+      sectionIndices,
+      blocks: current,
+    });
+    current = [];
+    currentChars = 0;
+  };
+
+  const sectionIndices = Array.from(bySection.keys()).sort((a, b) => a - b);
+  for (const sectionIndex of sectionIndices) {
+    const blocks = bySection.get(sectionIndex)!;
+    const sectionChars = blocks.reduce((sum, b) => sum + b.text.length, 0);
+
+    // Start a fresh chunk rather than splitting a section that would fit on its own.
+    if (currentChars > 0 && currentChars + sectionChars > maxChars) emit();
+
+    for (const block of blocks) {
+      if (currentChars > 0 && currentChars + block.text.length > maxChars) emit();
+      current.push(block);
+      currentChars += block.text.length;
+    }
+  }
+  emit();
+
+  return chunks;
+}
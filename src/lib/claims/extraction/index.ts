@@ -0,0 +1,14 @@
+export * from './types';
+export { extractionOutputSchema, extractionOutputJsonSchema } from './output-schema';
+export { chunkSourceText, DEFAULT_MAX_CHUNK_CHARS } from './chunks';
+export { graphConceptIds, loadExtractionCatalog, formatCatalogForPrompt } from './catalog';
+export { validateExtractionOutput } from './validate';
+export { DEFAULT_CLAIMS_EXTRACTION_TEMPLATE } from './prompt';
+export {
+  ClaimsExtractionError,
+  prepareClaimsExtractionItems,
+  renderExtractionPrompt,
+  type ExtractionItemContext,
+  type PreparedExtractionItem,
+} from './job';
+export { stageClaimsExtractionJob, commitInstanceCreateInTx } from './stage';
@@ -0,0 +1,183 @@
+/**
+ * Job preparation for `extract_claims`: turns a `source_texts` scope into
+ * rendered per-chunk job item payloads. Execution happens in the job
+ * runner like every other job type; staging the results is
+ * {@link stageClaimsExtractionJob} in ./stage.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { DocumentIndex } from '@/lib/documents';
+import { renderTemplate } from '@/lib/llm/template-renderer';
+import type { JobScopeSourceTexts } from '@/lib/llm/types';
+import { formatCatalogForPrompt, graphConceptIds, loadExtractionCatalog } from './catalog';
+import { chunkSourceText, DEFAULT_MAX_CHUNK_CHARS } from './chunks';
+import { extractionOutputJsonSchema } from './output-schema';
+import { DEFAULT_CLAIMS_EXTRACTION_TEMPLATE } from './prompt';
+import type { ExtractionCatalog, ExtractionChunk } from './types';
+
+export class ClaimsExtractionError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'ClaimsExtractionError';
+  }
+}
+
+/** What the stager needs to re-validate an item; stored in request_payload.extraction. */
+export interface ExtractionItemContext {
+  source_text_id: string;
+  knowledge_graph_id: string;
+  concept_ids: string[];
+  chunk: ExtractionChunk;
+}
+
+export interface PreparedExtractionItem {
+  source_text_id: bigint;
+  request_payload: Prisma.InputJsonObject;
+}
+
+function toBigIntList(ids: string[] | undefined): bigint[] {
+  return (ids ?? []).filter((id) => /^\d+$/.test(id)).map((id) => BigInt(id));
+}
+
+function sourceTitle(source: { id: bigint; source_uri: string | null; metadata: Prisma.JsonValue }): string {
+  const meta = source.metadata as Record<string, unknown> | null;
+  if (meta && typeof meta.title === 'string' && meta.title.trim()) return meta.title.trim();
+  return source.source_uri ?? `Source ${source.id}`;
+}
+
+function sourceGraphId(metadata: Prisma.JsonValue): string | null {
+  const meta = metadata as Record<string, unknown> | null;
+  const id = meta?.knowledge_graph_id;
+  return typeof id === 'string' && /^\d+$/.test(id) ? id : null;
+}
+
+export function renderExtractionPrompt(
+  template: string,
+  source: { id: string; title: string; uri: string | null },
+  chunk: ExtractionChunk,
+  catalog: ExtractionCatalog,
+): { prompt: string; variables: Record<string, string> } {
+  const variables = {
+    source_title: source.title,
+    source_uri: source.uri ?? '',
+    section_path: chunk.sectionPath.join(' › '),
+    chunk_text: chunk.blocks.map((b) => `[${b.id}] ${b.text}`).join('\n\n'),
+    concept_catalog: formatCatalogForPrompt(catalog),
+  };
+  const result = renderTemplate(template, {
+    ...variables,
+    source: { id: source.id, title: source.title, uri: source.uri },
+    blocks: chunk.blocks,
+    concepts: catalog.concepts,
+  });
+  if (!result.success) {
+    throw new ClaimsExtractionError(`Prompt template error: ${result.error ?? 'unknown error'}`);
+  }
+  return { prompt: result.prompt, variables };
+}
+
+/**
+ * Resolve the scope into chunks and rendered payloads. Each source is staged
+ * into `scope.knowledgeGraphId` or, failing that, the graph it was ingested
+ * into; the catalog is `scope.conceptIds` or the concepts already used in
+ * that graph.
+ */
+export async function prepareClaimsExtractionItems(
+  scope: JobScopeSourceTexts,
+  promptTemplate: string | undefined,
+  options: { limit?: number } = {},
+): Promise<{ items: PreparedExtractionItem[]; totalChunks: number }> {
+  const sourceIds = toBigIntList(scope.sourceTextIds);
+  if (sourceIds.length === 0) {
+    throw new ClaimsExtractionError('Select at least one source text.');
+  }
+
+  const sources = await prisma.source_texts.findMany({
+    where: { id: { in: sourceIds } },
+    select: { id: true, content: true, source_uri: true, metadata: true, document_index: true },
+    orderBy: { id: 'asc' },
+  });
+  if (sources.length !== sourceIds.length) {
+    const found = new Set(sources.map((s) => s.id));
+    const missing = sourceIds.filter((id) => !found.has(id));
+    throw new ClaimsExtractionError(`Source text(s) not found: ${missing.join(', ')}`);
+  }
+
+  const template = promptTemplate?.trim() || DEFAULT_CLAIMS_EXTRACTION_TEMPLATE;
+  const maxChars = scope.maxChunkChars && scope.maxChunkChars > 500 ? scope.maxChunkChars : DEFAULT_MAX_CHUNK_CHARS;
+  const explicitConceptIds = toBigIntList(scope.conceptIds);
+  const catalogs = new Map<string, { catalog: ExtractionCatalog; conceptIds: string[] }>();
+  const responseSchema = extractionOutputJsonSchema() as Prisma.InputJsonValue;
+
+  const items: PreparedExtractionItem[] = [];
+  let totalChunks = 0;
+
+  for (const source of sources) {
+    const documentIndex = source.document_index as DocumentIndex | null;
+    if (!documentIndex || !Array.isArray(documentIndex.blocks)) {
+      throw new ClaimsExtractionError(
+        `Source text ${source.id} has no document index; re-ingest it before extracting claims.`,
+      );
+    }
+
+    const graphId = scope.knowledgeGraphId ?? sourceGraphId(source.metadata);
+    if (!graphId) {
+      throw new ClaimsExtractionError(
+        `Source text ${source.id} is not attached to a knowledge graph; choose a target graph.`,
+      );
+    }
+
+    let entry = catalogs.get(graphId);
+    if (!entry) {
+      const conceptIds = explicitConceptIds.length > 0
+        ? explicitConceptIds
+        : await graphConceptIds(BigInt(graphId));
+      const catalog = await loadExtractionCatalog(conceptIds);
+      if (catalog.concepts.length === 0) {
+        throw new ClaimsExtractionError(
+          `No concepts to extract for graph ${graphId}; pick concept types for the job.`,
+        );
+      }
+      entry = { catalog, conceptIds: catalog.concepts.map((c) => c.id) };
+      catalogs.set(graphId, entry);
+    }
+
+    const chunks = chunkSourceText(source.id, source.content, documentIndex, maxChars);
+    totalChunks += chunks.length;
+    const title = sourceTitle(source);
+
+    for (const chunk of chunks) {
+      if (options.limit !== undefined && items.length >= options.limit) continue;
+      const { prompt, variables } = renderExtractionPrompt(
+        template,
+        { id: source.id.toString(), title, uri: source.source_uri },
+        chunk,
+        entry.catalog,
+      );
+      const extraction: ExtractionItemContext = {
+        source_text_id: source.id.toString(),
+        knowledge_graph_id: graphId,
+        concept_ids: entry.conceptIds,
+        chunk,
+      };
+      items.push({
+        source_text_id: source.id,
+        request_payload: {
+          promptTemplate: template,
+          renderedPrompt: prompt,
+          variables,
+          entry: {
+            code: `${title} · ${chunk.sectionPath.join(' › ') || `chunk ${chunk.chunkIndex + 1}`}`,
+            pos: null,
+            label: title,
+          },
+          extraction: extraction as unknown as Prisma.InputJsonObject,
+          responseSchema,
+        },
+      });
+    }
+  }
+
+  return { items, totalChunks };
+}
@@ -0,0 +1,49 @@
+/**
+ * Structured output contract for `extract_claims` job items.
+ *
+ * Instances are a flat list; fillers reference other instances in the same
+ * chunk by `key` instead of nesting, which keeps the schema non-recursive
+ * (a requirement for strict structured outputs) and lets one instance fill
+ * several slots.
+ */
+
+import { z } from 'zod';
+import { zodSchema } from 'ai';
+
+export const extractionOutputSchema = z.object({
+  instances: z.array(
+    z.object({
+      key: z.string().describe('Identifier unique within this response, e.g. "i1"'),
+      concept: z.string().describe('Concept label, exactly as listed in the catalog'),
+      label: z.string().describe('Short human-readable name for this instance'),
+      referential_status: z
+        .enum(['specific', 'generic', 'hypothetical'])
+        .describe('specific: a particular thing; generic: a kind; hypothetical: posited or conditional'),
+      confidence: z.number().min(0).max(1),
+      mentions: z
+        .array(
+          z.object({
+            block_id: z.string().describe('Block id the quote comes from, e.g. "s2-p0"'),
+            quote: z.string().describe('Exact text copied from that block'),
+          }),
+        )
+        .min(1),
+      fillers: z.array(
+        z.object({
+          property: z.string().describe('Property label of this instance\'s concept'),
+          instance_key: z
+            .string()
+            .nullable()
+            .describe('Key of the instance filling the slot, for instance-valued properties'),
+          value: z.string().nullable().describe('Literal value, for primitive-valued properties'),
+          value_type: z.string().nullable().describe('Filler type label of `value`, e.g. "number"'),
+        }),
+      ),
+    }),
+  ),
+});
+
+/** JSON Schema handed to the job runner alongside each rendered prompt. */
+export function extractionOutputJsonSchema(): unknown {
+  return zodSchema(extractionOutputSchema).jsonSchema;
+}
@@ -0,0 +1,20 @@
+/**
+ * Default user prompt for extract_claims jobs. Kept free of server imports
+ * so the job dialog can prefill it.
+ */
+
+export const DEFAULT_CLAIMS_EXTRACTION_TEMPLATE = `Extract the claims made in the passage below as instances of the listed concepts.
+
+Source: {{ source.title }}{% if section_path %} — {{ section_path }}{% endif %}
+
+Concept catalog (only these concepts and properties may be used):
+{{ concept_catalog }}
+
+Passage blocks:
+{{ chunk_text }}
+
+Rules:
+- Only extract what the passage states; do not use outside knowledge.
+- Every instance needs at least one mention: a block id and a quote copied exactly from that block.
+- Use instance_key for properties that take an instance and value (+ value_type) for primitive properties.
+- Give each instance a key unique within your answer (i1, i2, ...).`;
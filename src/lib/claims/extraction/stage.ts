@@ -0,0 +1,304 @@
+/**
+ * Staging and committing extracted claims.
+ *
+ * `stageClaimsExtractionJob` turns each succeeded, not-yet-staged item of an
+ * `extract_claims` job into pending CREATE changesets on `instance`: one per
+ * connected group of instances (an instance plus everything its fillers
+ * point at), so a reviewer accepts or rejects a claim together with its
+ * arguments. `commitInstanceCreateInTx` is the commit side, called from
+ * `commitCreateInTx`.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { DocumentIndex } from '@/lib/documents';
+import { createChangeset } from '@/lib/version-control/create';
+import { loadExtractionCatalog } from './catalog';
+import { ClaimsExtractionError, type ExtractionItemContext } from './job';
+import { validateExtractionOutput } from './validate';
+import type {
+  ClaimsExtractionItemReport,
+  ExtractionCatalog,
+  StageClaimsExtractionResult,
+  StagedInstanceSnapshot,
+  ValidatedInstance,
+} from './types';
+
+/** Find the extraction output in a runner response payload. */
+function extractOutput(payload: Prisma.JsonValue | null): unknown {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return payload;
+  const record = payload as Record<string, unknown>;
+  if (Array.isArray(record.instances)) return record;
+  for (const key of ['parsed', 'output', 'result']) {
+    const value = record[key];
+    if (value && typeof value === 'object' && Array.isArray((value as Record<string, unknown>).instances)) {
+      return value;
+    }
+  }
+  if (typeof record.output_text === 'string') {
+    try {
+      return JSON.parse(record.output_text);
+    } catch {
+      return record.output_text;
+    }
+  }
+  return payload;
+}
+
+/**
+ * Group instances into connected components over filler references. The
+ * root of each group is an instance nothing else points at (the claim), or
+ * the first member when the group is a cycle.
+ */
+function groupInstances(instances: ValidatedInstance[]): Array<{ root: ValidatedInstance; members: ValidatedInstance[] }> {
+  const byKey = new Map(instances.map((i) => [i.key, i]));
+  const parent = new Map(instances.map((i) => [i.key, i.key]));
+  const find = (key: string): string => {
+    let root = key;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(key, root);
+    return root;
+  };
+  const referenced = new Set<string>();
+  for (const instance of instances) {
+    for (const filler of instance.fillers) {
+      if (!filler.filler_instance_key || !byKey.has(filler.filler_instance_key)) continue;
+      referenced.add(filler.filler_instance_key);
+      parent.set(find(instance.key), find(filler.filler_instance_key));
+    }
+  }
+
+  const groups = new Map<string, ValidatedInstance[]>();
+  for (const instance of instances) {
+    const key = find(instance.key);
+    const list = groups.get(key) ?? [];
+    list.push(instance);
+    groups.set(key, list);
+  }
+  return Array.from(groups.values()).map((members) => ({
+    root: members.find((m) => !referenced.has(m.key)) ?? members[0],
+    members,
+  }));
+}
+
+function readItemContext(requestPayload: Prisma.JsonValue | null): ExtractionItemContext | null {
+  const record = requestPayload as Record<string, unknown> | null;
+  const ctx = record?.extraction as ExtractionItemContext | undefined;
+  if (!ctx || !ctx.chunk || !Array.isArray(ctx.chunk.blocks) || !ctx.knowledge_graph_id) return null;
+  return ctx;
+}
+
+/**
+ * Validate and stage every succeeded item of an extract_claims job that
+ * hasn't been staged yet. Safe to call repeatedly, or concurrently, while
+ * the job runs.
+ */
+export async function stageClaimsExtractionJob(
+  jobId: bigint,
+  stagedBy: string,
+): Promise<StageClaimsExtractionResult> {
+  const job = await prisma.llm_jobs.findUnique({
+    where: { id: jobId },
+    select: { id: true, job_type: true },
+  });
+  if (!job) throw new ClaimsExtractionError(`Job ${jobId} not found`, 404);
+  if (job.job_type !== 'extract_claims') {
+    throw new ClaimsExtractionError(`Job ${jobId} is not an extract_claims job`);
+  }
+
+  const items = await prisma.llm_job_items.findMany({
+    where: { job_id: jobId, status: 'succeeded' },
+    select: { id: true, request_payload: true, response_payload: true, flags: true, source_text_id: true },
+    orderBy: { id: 'asc' },
+  });
+
+  const result: StageClaimsExtractionResult = {
+    job_id: jobId.toString(),
+    staged_items: 0,
+    skipped_items: 0,
+    changeset_ids: [],
+    instance_count: 0,
+    issue_count: 0,
+  };
+
+  const catalogs = new Map<string, ExtractionCatalog>();
+  const sources = new Map<string, { canonicalText: string; documentIndex: DocumentIndex } | null>();
+
+  for (const item of items) {
+    const flags = (item.flags as Record<string, unknown> | null) ?? {};
+    const ctx = readItemContext(item.request_payload);
+    if (flags.claims_extraction || !ctx) {
+      result.skipped_items++;
+      continue;
+    }
+
+    const catalogKey = ctx.concept_ids.join(',');
+    let catalog = catalogs.get(catalogKey);
+    if (!catalog) {
+      catalog = await loadExtractionCatalog(ctx.concept_ids.map((id) => BigInt(id)));
+      catalogs.set(catalogKey, catalog);
+    }
+
+    if (!sources.has(ctx.source_text_id)) {
+      const source = await prisma.source_texts.findUnique({
+        where: { id: BigInt(ctx.source_text_id) },
+        select: { content: true, document_index: true },
+      });
+      sources.set(
+        ctx.source_text_id,
+        source?.document_index
+          ? { canonicalText: source.content, documentIndex: source.document_index as unknown as DocumentIndex }
+          : null,
+      );
+    }
+    const source = sources.get(ctx.source_text_id);
+
+    const validation = source
+      ? validateExtractionOutput(extractOutput(item.response_payload), ctx.chunk, catalog, source)
+      : {
+          instances: [],
+          issues: [{ code: 'unresolved_locator' as const, message: `Source text ${ctx.source_text_id} no longer has a document index` }],
+        };
+
+    // Stage under a row lock on the item and re-check the flag, so
+    // concurrent or retried calls can't stage the same item twice. The
+    // changesets and the flag commit together, so a crash leaves neither.
+    const changesetIds = await prisma.$transaction(
+      async (tx) => {
+        const locked = await tx.$queryRaw<Array<{ flags: Prisma.JsonValue | null }>>`
+          SELECT flags FROM llm_job_items WHERE id = ${item.id} FOR UPDATE
+        `;
+        const currentFlags = (locked[0]?.flags as Record<string, unknown> | null) ?? {};
+        if (locked.length === 0 || currentFlags.claims_extraction) return null;
+
+        const ids: string[] = [];
+        for (const { root, members } of groupInstances(validation.instances)) {
+          const snapshot: StagedInstanceSnapshot = {
+            concept_id: root.concept_id,
+            knowledge_graph_id: ctx.knowledge_graph_id,
+            source_text_id: ctx.source_text_id,
+            label: root.label,
+            confidence: root.confidence,
+            referential_status: root.referential_status,
+            __concept_label: root.concept_label,
+            __root_key: root.key,
+            __instances: members,
+            __extraction: {
+              llm_job_id: jobId.toString(),
+              llm_job_item_id: item.id.toString(),
+              chunk_index: ctx.chunk.chunkIndex,
+            },
+          };
+          const changeset = await createChangeset({
+            entity_type: 'instance',
+            operation: 'create',
+            after_snapshot: snapshot,
+            created_by: stagedBy,
+            llm_job_id: jobId,
+          }, tx);
+          ids.push(changeset.id.toString());
+        }
+
+        const report: ClaimsExtractionItemReport = {
+          staged_at: new Date().toISOString(),
+          staged_by: stagedBy,
+          changeset_ids: ids,
+          instance_count: validation.instances.length,
+          issues: validation.issues,
+        };
+        await tx.llm_job_items.update({
+          where: { id: item.id },
+          data: {
+            has_edits: ids.length > 0,
+            flagged: validation.issues.length > 0 ? true : undefined,
+            flags: { ...currentFlags, claims_extraction: report } as unknown as Prisma.InputJsonObject,
+          },
+        });
+        return ids;
+      },
+      { timeout: 30_000, maxWait: 10_000 },
+    );
+    if (changesetIds === null) {
+      result.skipped_items++;
+      continue;
+    }
+
+    result.staged_items++;
+    result.changeset_ids.push(...changesetIds);
+    result.instance_count += validation.instances.length;
+    result.issue_count += validation.issues.length;
+  }
+
+  return result;
+}
+
+/**
+ * Commit a staged instance CREATE: insert every instance in the group,
+ * then fillers (resolving sibling keys to the new ids) and mentions.
+ * Returns the root instance id.
+ */
+export async function commitInstanceCreateInTx(
+  tx: Prisma.TransactionClient,
+  data: Record<string, unknown>,
+): Promise<bigint> {
+  const snapshot = data as Partial<StagedInstanceSnapshot>;
+  const members = Array.isArray(snapshot.__instances) ? snapshot.__instances : [];
+  if (members.length === 0 || !snapshot.__root_key) {
+    throw new Error('CREATE instance requires __instances and __root_key');
+  }
+  const knowledgeGraphId = snapshot.knowledge_graph_id ? BigInt(snapshot.knowledge_graph_id) : null;
+  const sourceTextId = snapshot.source_text_id ? BigInt(snapshot.source_text_id) : null;
+
+  const idsByKey = new Map<string, bigint>();
+  for (const member of members) {
+    const created = await tx.instances.create({
+      data: {
+        concept_id: BigInt(member.concept_id),
+        knowledge_graph_id: knowledgeGraphId,
+        source_text_id: sourceTextId,
+        confidence: member.confidence,
+        referential_status: member.referential_status,
+        metadata: {
+          label: member.label,
+          ...(snapshot.__extraction ? { extraction: snapshot.__extraction } : {}),
+        },
+      },
+      select: { id: true },
+    });
+    idsByKey.set(member.key, created.id);
+  }
+
+  for (const member of members) {
+    const instanceId = idsByKey.get(member.key)!;
+    for (const filler of member.fillers) {
+      const fillerInstanceId = filler.filler_instance_key ? idsByKey.get(filler.filler_instance_key) : undefined;
+      if (filler.filler_instance_key && !fillerInstanceId) {
+        throw new Error(`Filler ${filler.property_label} on ${member.key} points at unknown key ${filler.filler_instance_key}`);
+      }
+      await tx.instance_fillers.create({
+        data: {
+          instance_id: instanceId,
+          property_id: BigInt(filler.property_id),
+          filler_instance_id: fillerInstanceId ?? null,
+          filler_value: filler.filler_value,
+          filler_primitive_type_id: filler.filler_primitive_type_id,
+          confidence: member.confidence,
+        },
+      });
+    }
+    if (member.mentions.length > 0) {
+      await tx.instance_mentions.createMany({
+        data: member.mentions.map((m) => ({
+          instance_id: instanceId,
+          locator: m.locator as unknown as Prisma.InputJsonObject,
+          mention_text: m.mention_text,
+          confidence: member.confidence,
+        })),
+      });
+    }
+  }
+
+  const rootId = idsByKey.get(snapshot.__root_key);
+  if (!rootId) throw new Error(`Root key ${snapshot.__root_key} is not in __instances`);
+  return rootId;
+}
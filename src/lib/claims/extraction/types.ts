@@ -0,0 +1,195 @@
+/**
+ * Claim extraction (`extract_claims` LLM jobs) types.
+ *
+ * Flow: source text → {@link ExtractionChunk}s (DocumentIndex sections) →
+ * one llm_job_items row per chunk → model output ({@link ExtractionOutput})
+ * → validation against the {@link ExtractionCatalog} → pending CREATE
+ * changesets on `instance` ({@link StagedInstanceSnapshot}).
+ */
+
+import type { BlockLocator } from '../locator-schema';
+import type { ReferentialStatus } from '../types';
+
+export interface ExtractionBlock {
+  /** DocumentIndex block id, e.g. `s3-p2`; the model cites these. */
+  id: string;
+  kind: 'heading' | 'paragraph';
+  sectionIndex: number;
+  paragraphIndex?: number;
+  page?: number;
+  /** Block text without the trailing separator. */
+  text: string;
+}
+
+export interface ExtractionChunk {
+  sourceTextId: string;
+  chunkIndex: number;
+  /** Heading breadcrumb for the first section in the chunk. */
+  sectionPath: string[];
+  sectionIndices: number[];
+  blocks: ExtractionBlock[];
+}
+
+// ============================================
+// Catalog (what the model may extract)
+// ============================================
+
+export interface CatalogFillerConstraint {
+  filler_type_id: number;
+  filler_type_label: string;
+  /** Set for instance-valued slots: the filler must be this concept or a descendant. */
+  concept_id: string | null;
+  concept_label: string | null;
+  /** `concept_id` plus its parent_of descendants. */
+  accepted_concept_ids: string[];
+}
+
+export interface CatalogProperty {
+  id: string;
+  label: string;
+  description: string | null;
+  /** Concept the property is declared on (the concept itself or an ancestor). */
+  declared_on: string;
+  /** Empty means the slot is unconstrained. */
+  constraints: CatalogFillerConstraint[];
+}
+
+export interface CatalogConcept {
+  id: string;
+  label: string;
+  definition: string | null;
+  properties: CatalogProperty[];
+}
+
+export interface ExtractionCatalog {
+  concepts: CatalogConcept[];
+}
+
+// ============================================
+// Model output
+// ============================================
+
+export interface ExtractedMention {
+  block_id: string;
+  quote: string;
+}
+
+export interface ExtractedFiller {
+  property: string;
+  /** Key of another extracted instance in the same chunk. */
+  instance_key: string | null;
+  /** Literal value for primitive slots. */
+  value: string | null;
+  /** Filler type label for `value` (e.g. `number`); optional when the slot allows one type. */
+  value_type: string | null;
+}
+
+export interface ExtractedInstance {
+  key: string;
+  concept: string;
+  label: string;
+  referential_status: ReferentialStatus;
+  confidence: number;
+  mentions: ExtractedMention[];
+  fillers: ExtractedFiller[];
+}
+
+export interface ExtractionOutput {
+  instances: ExtractedInstance[];
+}
+
+// ============================================
+// Validation + staging
+// ============================================
+
+export type ExtractionIssueCode =
+  | 'invalid_output'
+  | 'duplicate_key'
+  | 'unknown_concept'
+  | 'unknown_block'
+  | 'quote_not_found'
+  | 'unresolved_locator'
+  | 'no_mentions'
+  | 'unknown_property'
+  | 'missing_filler_instance'
+  | 'filler_concept_mismatch'
+  | 'filler_type_mismatch'
+  | 'empty_filler';
+
+export interface ExtractionIssue {
+  code: ExtractionIssueCode;
+  message: string;
+  instance_key?: string;
+  property?: string;
+}
+
+export interface ValidatedFiller {
+  property_id: string;
+  property_label: string;
+  filler_instance_key: string | null;
+  filler_value: string | null;
+  filler_primitive_type_id: number | null;
+}
+
+export interface ValidatedMention {
+  locator: BlockLocator;
+  mention_text: string;
+}
+
+export interface ValidatedInstance {
+  key: string;
+  concept_id: string;
+  concept_label: string;
+  label: string;
+  referential_status: ReferentialStatus;
+  confidence: number;
+  fillers: ValidatedFiller[];
+  mentions: ValidatedMention[];
+}
+
+export interface ExtractionValidationResult {
+  instances: ValidatedInstance[];
+  issues: ExtractionIssue[];
+}
+
+/**
+ * `after_snapshot` of a staged CREATE `instance` changeset. The top-level
+ * fields describe the root instance (what the pending UI shows); every
+ * instance in the group, root included, is listed in `__instances` so
+ * fillers can point at siblings by key.
+ */
+export interface StagedInstanceSnapshot {
+  [key: string]: unknown;
+  concept_id: string;
+  knowledge_graph_id: string;
+  source_text_id: string;
+  label: string;
+  confidence: number;
+  referential_status: ReferentialStatus;
+  __concept_label: string;
+  __root_key: string;
+  __instances: ValidatedInstance[];
+  __extraction: {
+    llm_job_id: string;
+    llm_job_item_id: string;
+    chunk_index: number;
+  };
+}
+
+/** Stored on llm_job_items.flags once an item has been staged. */
+export interface ClaimsExtractionItemReport {
+  staged_at: string;
+  staged_by: string;
+  changeset_ids: string[];
+  instance_count: number;
+  issues: ExtractionIssue[];
+}
+
+export interface StageClaimsExtractionResult {
+  job_id: string;
+  staged_items: number;
+  skipped_items: number;
+  changeset_ids: string[];
+  instance_count: number;
+  issue_count: number;
+}
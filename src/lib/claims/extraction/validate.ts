@@ -0,0 +1,296 @@
+/**
+ * Validate model output for one extraction chunk.
+ *
+ * Anything that can't be grounded is dropped with an issue rather than
+ * failing the whole chunk: unknown concepts, quotes that aren't in the
+ * cited block, fillers for properties the concept doesn't have, or values
+ * the slot's `property_filler_constraints` don't allow. Instances left with
+ * no resolvable mention are dropped too, and so are fillers pointing at
+ * them.
+ */
+
+import type { DocumentIndex } from '@/lib/documents';
+import { blockLocatorSchema, resolveLocator } from '../locator-schema';
+import { extractionOutputSchema } from './output-schema';
+import type {
+  CatalogConcept,
+  CatalogFillerConstraint,
+  CatalogProperty,
+  ExtractedFiller,
+  ExtractedInstance,
+  ExtractionBlock,
+  ExtractionCatalog,
+  ExtractionChunk,
+  ExtractionIssue,
+  ExtractionValidationResult,
+  ValidatedFiller,
+  ValidatedInstance,
+  ValidatedMention,
+} from './types';
+
+interface SourceDocument {
+  canonicalText: string;
+  documentIndex: DocumentIndex;
+}
+
+/** Locate `quote` in the block: exact first, then case- and whitespace-insensitive. */
+function findQuote(block: ExtractionBlock, quote: string): { start: number; end: number } | null {
+  const trimmed = quote.trim();
+  if (!trimmed) return null;
+  const exact = block.text.indexOf(trimmed);
+  if (exact !== -1) return { start: exact, end: exact + trimmed.length };
+
+  const escaped = trimmed
+    .split(/\s+/)
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('\\s+');
+  const match = new RegExp(escaped, 'i').exec(block.text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+function primitiveValueMatches(typeLabel: string, value: string): boolean {
+  switch (typeLabel.toLowerCase()) {
+    case 'number':
+    case 'float':
+    case 'decimal':
+      return value.trim() !== '' && Number.isFinite(Number(value.replace(/,/g, '')));
+    case 'integer':
+    case 'int':
+      return /^[-+]?\d+$/.test(value.replace(/,/g, '').trim());
+    case 'boolean':
+      return /^(true|false|yes|no)$/i.test(value.trim());
+    case 'date':
+      return !Number.isNaN(Date.parse(value));
+    default:
+      return value.trim() !== '';
+  }
+}
+
+function validateMentions(
+  instance: ExtractedInstance,
+  blocks: Map<string, ExtractionBlock>,
+  doc: SourceDocument,
+  issues: ExtractionIssue[],
+): ValidatedMention[] {
+  const mentions: ValidatedMention[] = [];
+  const seen = new Set<string>();
+
+  for (const mention of instance.mentions) {
+    const block = blocks.get(mention.block_id);
+    if (!block) {
+      issues.push({
+        code: 'unknown_block',
+        message: `Mention cites block "${mention.block_id}", which is not in this chunk`,
+        instance_key: instance.key,
+      });
+      continue;
+    }
+    const span = findQuote(block, mention.quote);
+    if (!span) {
+      issues.push({
+        code: 'quote_not_found',
+        message: `Quote "${mention.quote.slice(0, 80)}" not found in block ${block.id}`,
+        instance_key: instance.key,
+      });
+      continue;
+    }
+
+    const parsed = blockLocatorSchema.safeParse({
+      type: 'block',
+      sectionIndex: block.sectionIndex,
+      ...(block.kind === 'paragraph' ? { paragraphIndex: block.paragraphIndex } : {}),
+      start: span.start,
+      end: span.end,
+      ...(block.page ? { page: block.page } : {}),
+    });
+    const resolved = parsed.success
+      ? resolveLocator(parsed.data, doc.documentIndex, doc.canonicalText)
+      : null;
+    if (!parsed.success || !resolved || resolved.mentionText !== block.text.slice(span.start, span.end)) {
+      issues.push({
+        code: 'unresolved_locator',
+        message: `Locator for quote in block ${block.id} does not resolve against the document index`,
+        instance_key: instance.key,
+      });
+      continue;
+    }
+
+    const dedupeKey = `${block.id}:${span.start}:${span.end}`;
+    if (seen.has(dedupeKey)) continue;
+    seen.add(dedupeKey);
+    mentions.push({ locator: parsed.data, mention_text: resolved.mentionText });
+  }
+
+  return mentions;
+}
+
+function checkInstanceFiller(
+  property: CatalogProperty,
+  target: ValidatedInstance,
+): CatalogFillerConstraint | null | 'mismatch' {
+  const instanceConstraints = property.constraints.filter((c) => c.concept_id);
+  if (property.constraints.length === 0) return null;
+  const match = instanceConstraints.find((c) => c.accepted_concept_ids.includes(target.concept_id));
+  return match ?? 'mismatch';
+}
+
+function checkValueFiller(
+  property: CatalogProperty,
+  filler: ExtractedFiller,
+  value: string,
+): CatalogFillerConstraint | null | 'mismatch' {
+  if (property.constraints.length === 0) return null;
+  const primitive = property.constraints.filter((c) => !c.concept_id);
+  const candidates = filler.value_type
+    ? primitive.filter((c) => c.filler_type_label.toLowerCase() === filler.value_type!.toLowerCase())
+    : primitive;
+  return candidates.find((c) => primitiveValueMatches(c.filler_type_label, value)) ?? 'mismatch';
+}
+
+export function validateExtractionOutput(
+  raw: unknown,
+  chunk: ExtractionChunk,
+  catalog: ExtractionCatalog,
+  doc: SourceDocument,
+): ExtractionValidationResult {
+  const issues: ExtractionIssue[] = [];
+  const parsed = extractionOutputSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return {
+      instances: [],
+      issues: [{
+        code: 'invalid_output',
+        message: `Output does not match the extraction schema: ${issue.path.join('.') || '(root)'}: ${issue.message}`,
+      }],
+    };
+  }
+
+  const blocks = new Map(chunk.blocks.map((b) => [b.id, b]));
+  const conceptsByLabel = new Map<string, CatalogConcept>(
+    catalog.concepts.map((c) => [c.label.toLowerCase(), c]),
+  );
+
+  // Pass 1: concepts and mentions.
+  const accepted = new Map<string, { extracted: ExtractedInstance; concept: CatalogConcept; mentions: ValidatedMention[] }>();
+  for (const extracted of parsed.data.instances) {
+    if (accepted.has(extracted.key)) {
+      issues.push({ code: 'duplicate_key', message: `Duplicate instance key "${extracted.key}"`, instance_key: extracted.key });
+      continue;
+    }
+    const concept = conceptsByLabel.get(extracted.concept.trim().toLowerCase());
+    if (!concept) {
+      issues.push({
+        code: 'unknown_concept',
+        message: `Concept "${extracted.concept}" is not in the extraction catalog`,
+        instance_key: extracted.key,
+      });
+      continue;
+    }
+    const mentions = validateMentions(extracted, blocks, doc, issues);
+    if (mentions.length === 0) {
+      issues.push({
+        code: 'no_mentions',
+        message: `Instance "${extracted.label}" has no mention that resolves in the source`,
+        instance_key: extracted.key,
+      });
+      continue;
+    }
+    accepted.set(extracted.key, { extracted, concept, mentions });
+  }
+
+  // Pass 2: fillers, now that every surviving instance is known.
+  const skeletons = new Map<string, ValidatedInstance>();
+  for (const [key, { extracted, concept, mentions }] of accepted) {
+    skeletons.set(key, {
+      key,
+      concept_id: concept.id,
+      concept_label: concept.label,
+      label: extracted.label.trim() || concept.label,
+      referential_status: extracted.referential_status,
+      confidence: extracted.confidence,
+      fillers: [],
+      mentions,
+    });
+  }
+
+  for (const [key, { extracted, concept }] of accepted) {
+    const instance = skeletons.get(key)!;
+    const properties = new Map(concept.properties.map((p) => [p.label.toLowerCase(), p]));
+
+    for (const filler of extracted.fillers) {
+      const property = properties.get(filler.property.trim().toLowerCase());
+      if (!property) {
+        issues.push({
+          code: 'unknown_property',
+          message: `${concept.label} has no property "${filler.property}"`,
+          instance_key: key,
+          property: filler.property,
+        });
+        continue;
+      }
+
+      let validated: ValidatedFiller | null = null;
+      if (filler.instance_key) {
+        const target = skeletons.get(filler.instance_key);
+        if (!target) {
+          issues.push({
+            code: 'missing_filler_instance',
+            message: `Filler for ${property.label} points at "${filler.instance_key}", which was not extracted or was dropped`,
+            instance_key: key,
+            property: property.label,
+          });
+          continue;
+        }
+        const constraint = checkInstanceFiller(property, target);
+        if (constraint === 'mismatch') {
+          issues.push({
+            code: 'filler_concept_mismatch',
+            message: `${property.label} does not accept an instance of ${target.concept_label}`,
+            instance_key: key,
+            property: property.label,
+          });
+          continue;
+        }
+        validated = {
+          property_id: property.id,
+          property_label: property.label,
+          filler_instance_key: target.key,
+          filler_value: null,
+          filler_primitive_type_id: null,
+        };
+      } else if (filler.value && filler.value.trim()) {
+        const value = filler.value.trim();
+        const constraint = checkValueFiller(property, filler, value);
+        if (constraint === 'mismatch') {
+          issues.push({
+            code: 'filler_type_mismatch',
+            message: `${property.label} does not accept the value "${value.slice(0, 60)}"${filler.value_type ? ` as ${filler.value_type}` : ''}`,
+            instance_key: key,
+            property: property.label,
+          });
+          continue;
+        }
+        validated = {
+          property_id: property.id,
+          property_label: property.label,
+          filler_instance_key: null,
+          filler_value: value,
+          filler_primitive_type_id: constraint?.filler_type_id ?? null,
+        };
+      } else {
+        issues.push({
+          code: 'empty_filler',
+          message: `Filler for ${property.label} has neither an instance nor a value`,
+          instance_key: key,
+          property: property.label,
+        });
+        continue;
+      }
+
+      instance.fillers.push(validated);
+    }
+  }
+
+  return { instances: Array.from(skeletons.values()), issues };
+}
@@ -1,124 +1,299 @@
-import type { Prisma } from '@prisma/client';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
-import type { ClaimsQueryFilter } from './query-schema';
+import type {
+  ClaimsAggregate,
+  ClaimsPathStep,
+  ClaimsPredicate,
+  ClaimsQueryFilter,
+} from './query-schema';
+import type { ClaimsAggregateRow } from './types';
 import { buildClaimsGraphPayload, instanceGraphInclude } from './graph-builder';
 
-async function resolveConceptIdsByLabels(labels: string[]): Promise<bigint[]> {
-  if (labels.length === 0) return [];
-  const concepts = await prisma.concepts.findMany({
-    where: {
-      deleted: false,
-      label: { in: labels, mode: 'insensitive' },
-    },
-    select: { id: true },
-  });
-  return concepts.map((c) => c.id);
-}
+const MAX_PREDICATE_DEPTH = 8;
+const MAX_MATCHED_INSTANCES = 2000;
+const DEFAULT_AGGREGATE_LIMIT = 50;
 
-async function resolvePropertyIdsByLabels(labels: string[]): Promise<Map<string, bigint[]>> {
-  const properties = await prisma.properties.findMany({
-    where: {
-      label: { in: labels, mode: 'insensitive' },
-    },
-    select: { id: true, label: true },
-  });
-  const map = new Map<string, bigint[]>();
-  for (const prop of properties) {
-    const key = (prop.label ?? '').toLowerCase();
-    const existing = map.get(key) ?? [];
-    existing.push(prop.id);
-    map.set(key, existing);
+/** Thrown for well-formed but unexecutable queries (surfaced as 400). */
+export class ClaimsQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClaimsQueryError';
   }
-  return map;
 }
 
-export async function executeClaimsQuery(
-  graphId: bigint,
-  filter: ClaimsQueryFilter,
-): Promise<{ matchedInstanceIds: bigint[]; explanation: string }> {
-  const where: Prisma.instancesWhereInput = {
-    knowledge_graph_id: graphId,
-  };
+/** Hands out unique table aliases while compiling nested EXISTS clauses. */
+class AliasPool {
+  private next = 0;
+  take(prefix: string): Prisma.Sql {
+    this.next += 1;
+    return Prisma.raw(`${prefix}${this.next}`);
+  }
+}
 
-  if (filter.minConfidence != null) {
-    where.confidence = { gte: filter.minConfidence };
+function conceptIdsSql(label: string, includeDescendants: boolean): Prisma.Sql {
+  if (!includeDescendants) {
+    return Prisma.sql`
+      SELECT id FROM concepts WHERE deleted = false AND lower(label) = lower(${label})
+    `;
   }
+  return Prisma.sql`
+    WITH RECURSIVE sub(id) AS (
+      SELECT id FROM concepts WHERE deleted = false AND lower(label) = lower(${label})
+      UNION
+      SELECT r.child_id FROM concept_relations r JOIN sub ON r.parent_id = sub.id
+      WHERE r.type = 'parent_of'
+    )
+    SELECT id FROM sub
+  `;
+}
 
-  if (filter.conceptLabels?.length) {
-    const conceptIds = await resolveConceptIdsByLabels(filter.conceptLabels);
-    if (conceptIds.length === 0) {
-      return { matchedInstanceIds: [], explanation: filter.explanation };
-    }
-    where.concept_id = { in: conceptIds };
+interface CompiledPath {
+  /** `instance_fillers ... JOIN ...` chain, usable after FROM or JOIN. */
+  joins: Prisma.Sql;
+  /** Column of the first hop that must equal the starting instance id. */
+  anchor: Prisma.Sql;
+  /** Alias of the last filler row (for `filler_value`). */
+  lastFiller: Prisma.Sql;
+  /** Column holding the instance id reached at the end of the path. */
+  reached: Prisma.Sql;
+}
+
+/**
+ * Compile a filler path into a join chain. Each hop joins
+ * `instance_fillers` plus `properties` (matched by label); `inverse` hops
+ * walk from filler back to owner.
+ */
+function compilePath(steps: ClaimsPathStep[], aliases: AliasPool): CompiledPath {
+  if (steps.length === 0 || steps.length > 4) {
+    throw new ClaimsQueryError('Paths must have between 1 and 4 steps');
   }
 
-  let matched = await prisma.instances.findMany({
-    where,
-    select: { id: true },
-  });
+  const parts: Prisma.Sql[] = [];
+  let anchor: Prisma.Sql = Prisma.empty;
+  let lastFiller: Prisma.Sql = Prisma.empty;
+  let reached: Prisma.Sql = Prisma.empty;
 
-  if (filter.propertyFilters?.length) {
-    const propertyLabels = filter.propertyFilters.map((f) => f.propertyLabel);
-    const propertyMap = await resolvePropertyIdsByLabels(propertyLabels);
+  for (const [idx, step] of steps.entries()) {
+    const f = aliases.take('f');
+    const p = aliases.take('p');
+    const ownerCol = step.inverse ? Prisma.sql`${f}.filler_instance_id` : Prisma.sql`${f}.instance_id`;
+    const nextCol = step.inverse ? Prisma.sql`${f}.instance_id` : Prisma.sql`${f}.filler_instance_id`;
+    const propertyJoin = Prisma.sql`
+      JOIN properties ${p} ON ${p}.id = ${f}.property_id AND lower(${p}.label) = lower(${step.property})
+    `;
+    if (idx === 0) {
+      parts.push(Prisma.sql`instance_fillers ${f} ${propertyJoin}`);
+      anchor = ownerCol;
+    } else {
+      parts.push(Prisma.sql`JOIN instance_fillers ${f} ON ${ownerCol} = ${reached} ${propertyJoin}`);
+    }
+    lastFiller = f;
+    reached = nextCol;
+  }
 
-    for (const pf of filter.propertyFilters) {
-      const propertyIds = propertyMap.get(pf.propertyLabel.toLowerCase()) ?? [];
-      if (propertyIds.length === 0) {
-        matched = [];
-        break;
-      }
+  return { joins: Prisma.join(parts, ' '), anchor, lastFiller, reached };
+}
 
-      const fillerWhere: Prisma.instance_fillersWhereInput = {
-        property_id: { in: propertyIds },
-      };
+/**
+ * `ILIKE` pattern matching `text` anywhere, with `\`, `%` and `_` taken
+ * literally; pair it with `ESCAPE '\'`.
+ */
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
 
-      if (pf.fillerValueContains) {
-        fillerWhere.filler_value = { contains: pf.fillerValueContains, mode: 'insensitive' };
-      }
+/** Compile a predicate into a boolean SQL expression over instance alias `self`. */
+function compilePredicate(
+  predicate: ClaimsPredicate,
+  self: Prisma.Sql,
+  aliases: AliasPool,
+  depth = 0,
+): Prisma.Sql {
+  if (depth > MAX_PREDICATE_DEPTH) {
+    throw new ClaimsQueryError(`Query nests deeper than ${MAX_PREDICATE_DEPTH} levels`);
+  }
 
-      if (pf.fillerConceptLabel) {
-        const fillerConceptIds = await resolveConceptIdsByLabels([pf.fillerConceptLabel]);
-        if (fillerConceptIds.length === 0) {
-          matched = [];
-          break;
+  switch (predicate.op) {
+    case 'and':
+      if (predicate.args.length === 0) return Prisma.sql`TRUE`;
+      return Prisma.sql`(${Prisma.join(
+        predicate.args.map((a) => compilePredicate(a, self, aliases, depth + 1)),
+        ' AND ',
+      )})`;
+    case 'or':
+      if (predicate.args.length === 0) return Prisma.sql`FALSE`;
+      return Prisma.sql`(${Prisma.join(
+        predicate.args.map((a) => compilePredicate(a, self, aliases, depth + 1)),
+        ' OR ',
+      )})`;
+    case 'not':
+      // A NULL inner result (e.g. a missing label) is "no match", so NOT of it matches.
+      return Prisma.sql`NOT COALESCE((${compilePredicate(predicate.arg, self, aliases, depth + 1)}), FALSE)`;
+    case 'concept':
+      return Prisma.sql`${self}.concept_id IN (${conceptIdsSql(
+        predicate.label,
+        predicate.includeDescendants ?? false,
+      )})`;
+    case 'label':
+      return Prisma.sql`${self}.metadata ->> 'label' ILIKE ${containsPattern(predicate.contains)} ESCAPE '\\'`;
+    case 'confidence': {
+      const clauses: Prisma.Sql[] = [];
+      if (predicate.min != null) clauses.push(Prisma.sql`${self}.confidence >= ${predicate.min}`);
+      if (predicate.max != null) clauses.push(Prisma.sql`${self}.confidence <= ${predicate.max}`);
+      return clauses.length > 0 ? Prisma.sql`(${Prisma.join(clauses, ' AND ')})` : Prisma.sql`TRUE`;
+    }
+    case 'referentialStatus':
+      if (predicate.in.length === 0) return Prisma.sql`FALSE`;
+      return Prisma.sql`${self}.referential_status::text IN (${Prisma.join(predicate.in)})`;
+    case 'referent': {
+      const clauses: Prisma.Sql[] = [];
+      if (predicate.resolved === true) clauses.push(Prisma.sql`${self}.referent_id IS NOT NULL`);
+      if (predicate.resolved === false) clauses.push(Prisma.sql`${self}.referent_id IS NULL`);
+      if (predicate.referentId) {
+        if (!/^\d+$/.test(predicate.referentId)) {
+          throw new ClaimsQueryError(`Invalid referentId: ${predicate.referentId}`);
         }
-        fillerWhere.instances_instance_fillers_filler_instance_idToinstances = {
-          concept_id: { in: fillerConceptIds },
-        };
+        clauses.push(Prisma.sql`${self}.referent_id = ${BigInt(predicate.referentId)}`);
       }
-
-      const fillers = await prisma.instance_fillers.findMany({
-        where: fillerWhere,
-        select: { instance_id: true },
-      });
-      const allowedIds = new Set(fillers.map((f) => f.instance_id.toString()));
-      matched = matched.filter((m) => allowedIds.has(m.id.toString()));
+      if (predicate.label) {
+        const r = aliases.take('r');
+        const a = aliases.take('a');
+        clauses.push(Prisma.sql`${self}.referent_id IN (
+          SELECT ${r}.id FROM referents ${r}
+          WHERE lower(${r}.canonical_label) = lower(${predicate.label})
+             OR EXISTS (
+               SELECT 1 FROM referent_aliases ${a}
+               WHERE ${a}.referent_id = ${r}.id AND lower(${a}.alias) = lower(${predicate.label})
+             )
+        )`);
+      }
+      return clauses.length > 0 ? Prisma.sql`(${Prisma.join(clauses, ' AND ')})` : Prisma.sql`TRUE`;
+    }
+    case 'path': {
+      const { joins, anchor, lastFiller, reached } = compilePath(predicate.steps, aliases);
+      const conditions: Prisma.Sql[] = [Prisma.sql`${anchor} = ${self}.id`];
+      if (predicate.valueContains) {
+        conditions.push(Prisma.sql`${lastFiller}.filler_value ILIKE ${containsPattern(predicate.valueContains)} ESCAPE '\\'`);
+      }
+      if (predicate.valueEquals) {
+        conditions.push(Prisma.sql`lower(${lastFiller}.filler_value) = lower(${predicate.valueEquals})`);
+      }
+      let targetJoin = Prisma.empty;
+      if (predicate.where) {
+        const t = aliases.take('t');
+        targetJoin = Prisma.sql`JOIN instances ${t} ON ${t}.id = ${reached}`;
+        conditions.push(compilePredicate(predicate.where, t, aliases, depth + 1));
+      }
+      return Prisma.sql`EXISTS (
+        SELECT 1 FROM ${joins} ${targetJoin}
+        WHERE ${Prisma.join(conditions, ' AND ')}
+      )`;
     }
   }
+}
 
-  let matchedIds = matched.map((m) => m.id);
+function compileWhere(graphId: bigint, filter: ClaimsQueryFilter, aliases: AliasPool): Prisma.Sql {
+  const base = Prisma.sql`i.knowledge_graph_id = ${graphId}`;
+  if (!filter.where) return base;
+  return Prisma.sql`${base} AND ${compilePredicate(filter.where, Prisma.raw('i'), aliases)}`;
+}
 
-  if (filter.expandNeighborhood && matchedIds.length > 0) {
-    const neighborFillers = await prisma.instance_fillers.findMany({
-      where: {
-        OR: [
-          { instance_id: { in: matchedIds } },
-          { filler_instance_id: { in: matchedIds } },
-        ],
-      },
-      select: { instance_id: true, filler_instance_id: true },
-    });
-    const expanded = new Set(matchedIds.map(String));
-    for (const f of neighborFillers) {
-      expanded.add(f.instance_id.toString());
-      if (f.filler_instance_id) expanded.add(f.filler_instance_id.toString());
+async function runAggregate(
+  graphId: bigint,
+  filter: ClaimsQueryFilter,
+  aggregate: ClaimsAggregate,
+): Promise<ClaimsAggregateRow[]> {
+  const aliases = new AliasPool();
+  const where = compileWhere(graphId, filter, aliases);
+  const limit = aggregate.limit ?? DEFAULT_AGGREGATE_LIMIT;
+
+  let sql: Prisma.Sql;
+  switch (aggregate.groupBy) {
+    case undefined:
+      sql = Prisma.sql`
+        SELECT NULL::text AS key, 'Total' AS label, COUNT(*)::bigint AS count
+        FROM instances i WHERE ${where}
+      `;
+      break;
+    case 'concept':
+      sql = Prisma.sql`
+        SELECT c.id::text AS key, c.label AS label, COUNT(*)::bigint AS count
+        FROM instances i JOIN concepts c ON c.id = i.concept_id
+        WHERE ${where}
+        GROUP BY c.id, c.label
+        ORDER BY count DESC, c.label
+        LIMIT ${limit}
+      `;
+      break;
+    case 'referent':
+      sql = Prisma.sql`
+        SELECT r.id::text AS key, COALESCE(r.canonical_label, '(unresolved)') AS label,
+               COUNT(*)::bigint AS count
+        FROM instances i LEFT JOIN referents r ON r.id = i.referent_id
+        WHERE ${where}
+        GROUP BY r.id, r.canonical_label
+        ORDER BY count DESC, label
+        LIMIT ${limit}
+      `;
+      break;
+    case 'referentialStatus':
+      sql = Prisma.sql`
+        SELECT i.referential_status::text AS key, i.referential_status::text AS label,
+               COUNT(*)::bigint AS count
+        FROM instances i
+        WHERE ${where}
+        GROUP BY i.referential_status
+        ORDER BY count DESC
+      `;
+      break;
+    case 'path': {
+      if (!aggregate.path?.length) {
+        throw new ClaimsQueryError('aggregate.path is required when grouping by path');
+      }
+      const { joins, anchor, lastFiller, reached } = compilePath(aggregate.path, aliases);
+      sql = Prisma.sql`
+        SELECT COALESCE(t.id::text, 'value:' || ${lastFiller}.filler_value) AS key,
+               COALESCE(t.metadata ->> 'label', tc.label, ${lastFiller}.filler_value) AS label,
+               COUNT(DISTINCT i.id)::bigint AS count
+        FROM instances i
+        JOIN (${joins}) ON ${anchor} = i.id
+        LEFT JOIN instances t ON t.id = ${reached}
+        LEFT JOIN concepts tc ON tc.id = t.concept_id
+        WHERE ${where}
+        GROUP BY 1, 2
+        ORDER BY count DESC, label
+        LIMIT ${limit}
+      `;
+      break;
     }
-    matchedIds = Array.from(expanded).map((id) => BigInt(id));
   }
 
+  const rows = await prisma.$queryRaw<{ key: string | null; label: string | null; count: bigint }[]>(sql);
+  return rows.map((r) => ({ key: r.key, label: r.label ?? '(none)', count: Number(r.count) }));
+}
+
+export async function executeClaimsQuery(
+  graphId: bigint,
+  filter: ClaimsQueryFilter,
+): Promise<{
+  matchedInstanceIds: bigint[];
+  explanation: string;
+  aggregates: ClaimsAggregateRow[] | null;
+}> {
+  const where = compileWhere(graphId, filter, new AliasPool());
+  const matched = await prisma.$queryRaw<{ id: bigint }[]>`
+    SELECT i.id FROM instances i
+    WHERE ${where}
+    ORDER BY i.id
+    LIMIT ${MAX_MATCHED_INSTANCES}
+  `;
+
+  const aggregates = filter.aggregate ? await runAggregate(graphId, filter, filter.aggregate) : null;
+
   return {
-    matchedInstanceIds: matchedIds,
+    matchedInstanceIds: matched.map((m) => m.id),
     explanation: filter.explanation,
+    aggregates,
   };
 }
 
@@ -1,15 +1,127 @@
 import { z } from 'zod';
+import type { ReferentialStatus } from './types';
 
-export const claimsPropertyFilterSchema = z.object({
-  propertyLabel: z.string(),
-  fillerConceptLabel: z.string().optional(),
-  fillerValueContains: z.string().optional(),
+/**
+ * Claims query AST.
+ *
+ * A query is a boolean predicate over the instances of one knowledge graph
+ * plus an optional aggregate. Predicates compile to a single SQL WHERE
+ * clause (see `query-executor.ts`), so nesting costs no extra round-trips.
+ */
+
+const REFERENTIAL_STATUSES = ['specific', 'generic', 'hypothetical'] as const satisfies readonly ReferentialStatus[];
+
+/** One hop along `instance_fillers`, by property label. */
+export const claimsPathStepSchema = z.object({
+  property: z.string().describe('Property label of the filler slot, e.g. "employer"'),
+  inverse: z
+    .boolean()
+    .optional()
+    .describe('Follow the slot backwards: from the filler to the instance that has it'),
+});
+
+export type ClaimsPathStep = z.infer<typeof claimsPathStepSchema>;
+
+export type ClaimsPredicate =
+  | { op: 'and'; args: ClaimsPredicate[] }
+  | { op: 'or'; args: ClaimsPredicate[] }
+  | { op: 'not'; arg: ClaimsPredicate }
+  | { op: 'concept'; label: string; includeDescendants?: boolean }
+  | { op: 'label'; contains: string }
+  | { op: 'confidence'; min?: number; max?: number }
+  | { op: 'referentialStatus'; in: ReferentialStatus[] }
+  | { op: 'referent'; label?: string; referentId?: string; resolved?: boolean }
+  | {
+      op: 'path';
+      steps: ClaimsPathStep[];
+      where?: ClaimsPredicate;
+      valueContains?: string;
+      valueEquals?: string;
+    };
+
+export const claimsPredicateSchema: z.ZodType<ClaimsPredicate> = z.lazy(() =>
+  z.discriminatedUnion('op', [
+    z.object({
+      op: z.literal('and'),
+      args: z.array(claimsPredicateSchema).describe('All must hold'),
+    }),
+    z.object({
+      op: z.literal('or'),
+      args: z.array(claimsPredicateSchema).describe('At least one must hold'),
+    }),
+    z.object({
+      op: z.literal('not'),
+      arg: claimsPredicateSchema,
+    }),
+    z.object({
+      op: z.literal('concept'),
+      label: z.string().describe('Canonical concept label the instance is typed by'),
+      includeDescendants: z
+        .boolean()
+        .optional()
+        .describe('Also match instances typed by any concept descending from this one'),
+    }),
+    z.object({
+      op: z.literal('label'),
+      contains: z.string().describe("Case-insensitive substring of the instance's own label"),
+    }),
+    z.object({
+      op: z.literal('confidence'),
+      min: z.number().min(0).max(1).optional(),
+      max: z.number().min(0).max(1).optional(),
+    }),
+    z.object({
+      op: z.literal('referentialStatus'),
+      in: z.array(z.enum(REFERENTIAL_STATUSES)).min(1),
+    }),
+    z.object({
+      op: z.literal('referent'),
+      label: z
+        .string()
+        .optional()
+        .describe('Canonical label or alias of the real-world referent'),
+      referentId: z.string().optional(),
+      resolved: z
+        .boolean()
+        .optional()
+        .describe('true = linked to some referent, false = not yet resolved'),
+    }),
+    z.object({
+      op: z.literal('path'),
+      steps: z.array(claimsPathStepSchema).min(1).max(4),
+      where: claimsPredicateSchema
+        .optional()
+        .describe('Predicate the instance reached at the end of the path must satisfy'),
+      valueContains: z
+        .string()
+        .optional()
+        .describe('Primitive filler value at the end of the path contains this text'),
+      valueEquals: z.string().optional(),
+    }),
+  ]),
+);
+
+export const claimsAggregateSchema = z.object({
+  groupBy: z
+    .enum(['concept', 'referent', 'referentialStatus', 'path'])
+    .optional()
+    .describe('Omit for a single total count'),
+  path: z
+    .array(claimsPathStepSchema)
+    .min(1)
+    .max(4)
+    .optional()
+    .describe('Required when groupBy is "path": group by what sits at the end of this path'),
+  limit: z.number().int().min(1).max(200).optional(),
 });
 
+export type ClaimsAggregate = z.infer<typeof claimsAggregateSchema>;
+
 export const claimsQuerySchema = z.object({
-  conceptLabels: z.array(z.string()).optional(),
-  propertyFilters: z.array(claimsPropertyFilterSchema).optional(),
-  minConfidence: z.number().min(0).max(1).optional(),
+  where: claimsPredicateSchema.optional().describe('Omit to match every instance in the graph'),
+  aggregate: claimsAggregateSchema
+    .optional()
+    .describe('Set when the user asks "how many" / "count" / "which ... most"'),
   expandNeighborhood: z.boolean().optional(),
   explanation: z.string().describe('Brief plain-English summary of what the query finds'),
 });
@@ -89,8 +89,16 @@ export interface ClaimsMentionDetail {
   page: number | null;
 }
 
+/** One bucket of a query aggregate; `key` is null for the total-count row. */
+export interface ClaimsAggregateRow {
+  key: string | null;
+  label: string;
+  count: number;
+}
+
 export interface ClaimsQueryResult {
   explanation: string;
   matchedInstanceIds: string[];
   graph: ClaimsGraphPayload;
+  aggregates: ClaimsAggregateRow[] | null;
 }
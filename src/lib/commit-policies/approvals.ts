@@ -0,0 +1,200 @@
+/**
+ * Reviewer approvals for changes a `require_approvals` policy has flagged.
+ *
+ * Only approvals by someone other than the change's author count. The
+ * reviewer who commits counts as one approval, so a requirement of 2 means
+ * "one other reviewer approved, then I commit". A changeset inside a plan
+ * is governed by the plan's requirement and approvals.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { CommitPolicyError } from './validation';
+import type { ChangeApprovalStatus } from './types';
+
+export type ApprovalTarget =
+  | { kind: 'changeset'; id: bigint }
+  | { kind: 'plan'; id: bigint };
+
+interface TargetInfo {
+  status: string;
+  required_approvals: number;
+  /** Everyone who authored the change (plan author and member authors). */
+  authors: Set<string>;
+  approvals: Array<{ approved_by: string; created_at: Date }>;
+}
+
+const APPROVAL_SELECT = {
+  select: { approved_by: true, created_at: true },
+  orderBy: { created_at: 'asc' as const },
+};
+
+async function loadTarget(target: ApprovalTarget): Promise<TargetInfo | null> {
+  if (target.kind === 'plan') {
+    const plan = await prisma.change_plans.findUnique({
+      where: { id: target.id },
+      select: {
+        status: true,
+        required_approvals: true,
+        created_by: true,
+        changesets: { select: { created_by: true } },
+        approvals: APPROVAL_SELECT,
+      },
+    });
+    if (!plan) return null;
+    return {
+      status: plan.status,
+      required_approvals: plan.required_approvals,
+      authors: new Set([plan.created_by, ...plan.changesets.map((cs) => cs.created_by)]),
+      approvals: plan.approvals,
+    };
+  }
+
+  const cs = await prisma.changesets.findUnique({
+    where: { id: target.id },
+    select: {
+      status: true,
+      required_approvals: true,
+      created_by: true,
+      change_plan_id: true,
+      approvals: APPROVAL_SELECT,
+    },
+  });
+  if (!cs) return null;
+  if (cs.change_plan_id !== null) {
+    return loadTarget({ kind: 'plan', id: cs.change_plan_id });
+  }
+  return {
+    status: cs.status,
+    required_approvals: cs.required_approvals,
+    authors: new Set([cs.created_by]),
+    approvals: cs.approvals,
+  };
+}
+
+function countingApprovals(info: TargetInfo): string[] {
+  return info.approvals.map((a) => a.approved_by).filter((name) => !info.authors.has(name));
+}
+
+/**
+ * Approvals still missing. Without a `committer`, assume the eventual
+ * committer is a reviewer who hasn't approved yet.
+ */
+function remainingFor(info: TargetInfo, committer?: string): number {
+  const approvers = new Set(countingApprovals(info));
+  let count = approvers.size;
+  if (committer === undefined) count += 1;
+  else if (!info.authors.has(committer) && !approvers.has(committer)) count += 1;
+  return Math.max(0, info.required_approvals - count);
+}
+
+function toStatus(info: TargetInfo): ChangeApprovalStatus {
+  return {
+    required_approvals: info.required_approvals,
+    approvals: info.approvals.map((a) => ({ approved_by: a.approved_by, created_at: a.created_at.toISOString() })),
+    remaining: info.required_approvals === 0 ? 0 : remainingFor(info),
+  };
+}
+
+/** Resolve a changeset to the row that holds its approvals (itself or its plan). */
+async function approvalRow(target: ApprovalTarget): Promise<ApprovalTarget> {
+  if (target.kind === 'plan') return target;
+  const cs = await prisma.changesets.findUnique({
+    where: { id: target.id },
+    select: { change_plan_id: true },
+  });
+  return cs?.change_plan_id ? { kind: 'plan', id: cs.change_plan_id } : target;
+}
+
+export async function getApprovalStatus(target: ApprovalTarget): Promise<ChangeApprovalStatus> {
+  const info = await loadTarget(target);
+  if (!info) throw new CommitPolicyError(`${target.kind === 'plan' ? 'Plan' : 'Changeset'} not found`, 404);
+  return toStatus(info);
+}
+
+export async function addApproval(target: ApprovalTarget, approvedBy: string): Promise<ChangeApprovalStatus> {
+  const info = await loadTarget(target);
+  if (!info) throw new CommitPolicyError(`${target.kind === 'plan' ? 'Plan' : 'Changeset'} not found`, 404);
+  if (info.status !== 'pending') {
+    throw new CommitPolicyError(`Cannot approve a ${info.status} change`, 409);
+  }
+  if (info.authors.has(approvedBy)) {
+    throw new CommitPolicyError('Authors cannot approve their own changes', 403);
+  }
+
+  const row = await approvalRow(target);
+  await prisma.change_approvals.createMany({
+    data: [{
+      changeset_id: row.kind === 'changeset' ? row.id : null,
+      change_plan_id: row.kind === 'plan' ? row.id : null,
+      approved_by: approvedBy,
+    }],
+    skipDuplicates: true,
+  });
+  return getApprovalStatus(target);
+}
+
+export async function removeApproval(target: ApprovalTarget, approvedBy: string): Promise<ChangeApprovalStatus> {
+  const row = await approvalRow(target);
+  await prisma.change_approvals.deleteMany({
+    where: row.kind === 'plan'
+      ? { change_plan_id: row.id, approved_by: approvedBy }
+      : { changeset_id: row.id, approved_by: approvedBy },
+  });
+  return getApprovalStatus(target);
+}
+
+/**
+ * Ids (of `planIds`) whose required approvals aren't met if `committer`
+ * commits them now. Used by bulk plan commits to leave those plans out.
+ */
+export async function unapprovedPlanIds(committer: string, planIds: bigint[]): Promise<bigint[]> {
+  if (planIds.length === 0) return [];
+  const flagged = await prisma.change_plans.findMany({
+    where: { id: { in: planIds }, required_approvals: { gt: 0 } },
+    select: { id: true },
+  });
+  const unmet: bigint[] = [];
+  for (const { id } of flagged) {
+    const info = await loadTarget({ kind: 'plan', id });
+    if (info && remainingFor(info, committer) > 0) unmet.push(id);
+  }
+  return unmet;
+}
+
+/**
+ * Throw a 409 when any of the given changesets (or their plans) or plans
+ * still needs approvals before `committer` may commit it.
+ */
+export async function assertApprovalsMet(
+  committer: string,
+  { changesetIds = [], planIds = [] }: { changesetIds?: bigint[]; planIds?: bigint[] },
+): Promise<void> {
+  const flaggedChangesets = changesetIds.length === 0 ? [] : await prisma.changesets.findMany({
+    where: {
+      id: { in: changesetIds },
+      OR: [{ required_approvals: { gt: 0 } }, { change_plan: { required_approvals: { gt: 0 } } }],
+    },
+    select: { id: true, change_plan_id: true },
+  });
+
+  const plans = new Set(planIds.map(String));
+  const targets: ApprovalTarget[] = [];
+  for (const cs of flaggedChangesets) {
+    if (cs.change_plan_id !== null) plans.add(cs.change_plan_id.toString());
+    else targets.push({ kind: 'changeset', id: cs.id });
+  }
+
+  const unmetPlans = await unapprovedPlanIds(committer, [...plans].map((id) => BigInt(id)));
+  const labels: string[] = unmetPlans.map((id) => `plan ${id}`);
+  for (const target of targets) {
+    const info = await loadTarget(target);
+    if (!info) continue;
+    if (remainingFor(info, committer) > 0) labels.push(`changeset ${target.id}`);
+  }
+  if (labels.length === 0) return;
+
+  throw new CommitPolicyError(
+    `Commit policy requires more reviewer approvals before committing ${labels.join(', ')}`,
+    409,
+  );
+}
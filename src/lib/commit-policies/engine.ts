@@ -0,0 +1,577 @@
+/**
+ * Commit policy engine.
+ *
+ * `evaluateCommitPolicies` gathers the facts for each pending loose
+ * changeset or change plan, matches them against the enabled
+ * `commit_policies` (plus the implicit rules from
+ * `health_remediation_strategy_config.auto_commit`), and then:
+ *
+ *   - require_approvals: records the strongest requirement on the row's
+ *     `required_approvals`; the commit endpoints enforce it (./approvals).
+ *   - auto_commit: approves the pending field changes and commits as
+ *     `AUTO_COMMIT_USER`, unless a require_approvals policy also matched or
+ *     the change can't be committed unattended (open alternatives, half of
+ *     a move group).
+ *
+ * Each automatic decision is appended to `commit_policy_decisions` with the
+ * facts it was based on. Staging helpers call `evaluateStagedChanges`;
+ * rows written elsewhere (the remediation runner, imports) are picked up
+ * by `evaluatePendingCommitPolicies`.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { commitChangeset } from '@/lib/version-control/commit';
+import { commitPlan } from '@/lib/version-control/commit-plan';
+import type {
+  CommitPolicy,
+  CommitPolicyAction,
+  CommitPolicyDecision,
+  CommitPolicyDecisionKind,
+  CommitPolicyFacts,
+} from './types';
+
+/** `reviewed_by` on changes committed by a policy. */
+export const AUTO_COMMIT_USER = 'commit-policy';
+
+/** Name prefix of the implicit rules derived from `health_remediation_strategy_config`. */
+const STRATEGY_CONFIG_PREFIX = 'strategy_config:';
+
+type CommitPolicyRow = Prisma.commit_policiesGetPayload<object>;
+
+interface PolicyRule {
+  id: bigint | null;
+  name: string;
+  priority: number;
+  action: CommitPolicyAction;
+  required_approvals: number;
+  entity_types: string[];
+  operations: string[];
+  plan_kinds: string[];
+  origins: string[];
+  from_llm_job: boolean | null;
+  llm_job_ids: string[];
+  field_names: string[];
+  strategies: string[];
+  min_confidence: number | null;
+  max_descendant_count: number | null;
+}
+
+export type CommitPolicyTarget =
+  | { kind: 'changeset'; id: bigint }
+  | { kind: 'plan'; id: bigint };
+
+export interface CommitPolicyOutcome {
+  target: 'changeset' | 'plan';
+  id: string;
+  /** null when no policy matched. */
+  decision: CommitPolicyDecisionKind | null;
+  policy_name: string | null;
+  required_approvals: number;
+}
+
+// ============================================
+// Serialization
+// ============================================
+
+export function serializeCommitPolicy(row: CommitPolicyRow): CommitPolicy {
+  return {
+    id: row.id.toString(),
+    name: row.name,
+    description: row.description,
+    enabled: row.enabled,
+    priority: row.priority,
+    action: row.action,
+    required_approvals: row.required_approvals,
+    entity_types: row.entity_types,
+    operations: row.operations,
+    plan_kinds: row.plan_kinds,
+    origins: row.origins,
+    from_llm_job: row.from_llm_job,
+    llm_job_ids: row.llm_job_ids.map(String),
+    field_names: row.field_names,
+    strategies: row.strategies,
+    min_confidence: row.min_confidence === null ? null : Number(row.min_confidence),
+    max_descendant_count: row.max_descendant_count,
+    created_by: row.created_by,
+    created_at: row.created_at.toISOString(),
+    updated_at: row.updated_at.toISOString(),
+  };
+}
+
+export function serializeCommitPolicyDecision(
+  row: Prisma.commit_policy_decisionsGetPayload<object>,
+): CommitPolicyDecision {
+  return {
+    id: row.id.toString(),
+    policy_id: row.policy_id?.toString() ?? null,
+    policy_name: row.policy_name,
+    decision: row.decision,
+    changeset_id: row.changeset_id?.toString() ?? null,
+    change_plan_id: row.change_plan_id?.toString() ?? null,
+    reason: row.reason,
+    facts: (row.facts ?? {}) as Record<string, unknown>,
+    created_at: row.created_at.toISOString(),
+  };
+}
+
+// ============================================
+// Rules
+// ============================================
+
+function toRule(row: CommitPolicyRow): PolicyRule {
+  const policy = serializeCommitPolicy(row);
+  return { ...policy, id: row.id };
+}
+
+function strategyConfigRule(strategy: string): PolicyRule {
+  return {
+    id: null,
+    name: `${STRATEGY_CONFIG_PREFIX}${strategy}`,
+    // Explicit policies take precedence over the strategy switch.
+    priority: Number.MAX_SAFE_INTEGER,
+    action: 'auto_commit',
+    required_approvals: 0,
+    entity_types: [],
+    operations: [],
+    plan_kinds: [],
+    origins: ['remediation'],
+    from_llm_job: null,
+    llm_job_ids: [],
+    field_names: [],
+    strategies: [strategy],
+    min_confidence: null,
+    max_descendant_count: null,
+  };
+}
+
+async function loadPolicyRules(): Promise<PolicyRule[]> {
+  const [rows, configs] = await Promise.all([
+    prisma.commit_policies.findMany({
+      where: { enabled: true },
+      orderBy: [{ priority: 'asc' }, { id: 'asc' }],
+    }),
+    prisma.health_remediation_strategy_config.findMany({
+      where: { enabled: true, auto_commit: true },
+      select: { strategy: true },
+      orderBy: { strategy: 'asc' },
+    }),
+  ]);
+  return [...rows.map(toRule), ...configs.map((c) => strategyConfigRule(c.strategy))];
+}
+
+const everyIn = (values: (string | null)[], allowed: string[]) =>
+  values.every((v) => v !== null && allowed.includes(v));
+
+/** True when every non-empty condition of `rule` holds for `facts`. */
+export function policyMatches(rule: Omit<PolicyRule, 'id' | 'name' | 'priority'>, facts: CommitPolicyFacts): boolean {
+  if (rule.entity_types.length > 0 && !everyIn(facts.entity_types, rule.entity_types)) return false;
+  if (rule.operations.length > 0 && !everyIn(facts.operations, rule.operations)) return false;
+  if (rule.plan_kinds.length > 0 && (facts.plan_kind === null || !rule.plan_kinds.includes(facts.plan_kind))) {
+    return false;
+  }
+  if (rule.origins.length > 0 && !everyIn(facts.origins, rule.origins)) return false;
+  if (rule.from_llm_job === true && facts.llm_job_ids.some((id) => id === null)) return false;
+  if (rule.from_llm_job === false && facts.llm_job_ids.some((id) => id !== null)) return false;
+  if (rule.llm_job_ids.length > 0 && !everyIn(facts.llm_job_ids, rule.llm_job_ids)) return false;
+  if (rule.field_names.length > 0) {
+    if (facts.operations.some((op) => op !== 'update') || facts.field_names.length === 0) return false;
+    if (!everyIn(facts.field_names, rule.field_names)) return false;
+  }
+  if (rule.strategies.length > 0 && (facts.strategy === null || !rule.strategies.includes(facts.strategy))) {
+    return false;
+  }
+  if (rule.min_confidence !== null && (facts.confidence === null || facts.confidence < rule.min_confidence)) {
+    return false;
+  }
+  if (
+    rule.max_descendant_count !== null &&
+    (facts.max_descendant_count === null || facts.max_descendant_count > rule.max_descendant_count)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+// ============================================
+// Facts
+// ============================================
+
+const MEMBER_SELECT = {
+  id: true,
+  status: true,
+  entity_type: true,
+  entity_id: true,
+  operation: true,
+  origin: true,
+  llm_job_id: true,
+  created_by: true,
+  before_snapshot: true,
+  after_snapshot: true,
+  alternative_group_id: true,
+  change_plan_id: true,
+  field_changes: { where: { status: { not: 'rejected' } }, select: { field_name: true } },
+} satisfies Prisma.changesetsSelect;
+
+type Member = Prisma.changesetsGetPayload<{ select: typeof MEMBER_SELECT }>;
+
+interface GatheredTarget {
+  facts: CommitPolicyFacts;
+  members: Member[];
+  currentRequirement: number;
+  /** Why an auto_commit match must not commit unattended; null when it may. */
+  blocker: string | null;
+}
+
+function snapshotNumber(snapshot: Prisma.JsonValue, key: string): bigint | null {
+  if (!snapshot || typeof snapshot !== 'object' || Array.isArray(snapshot)) return null;
+  const value = (snapshot as Record<string, unknown>)[key];
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value))) return BigInt(value);
+  return null;
+}
+
+function snapshotHas(snapshot: Prisma.JsonValue, key: string): boolean {
+  return !!snapshot && typeof snapshot === 'object' && !Array.isArray(snapshot) && key in snapshot;
+}
+
+/** Concepts touched by the members: the concept itself, or both ends of a relation. */
+function touchedConceptIds(members: Member[]): { ids: bigint[]; createsConcept: boolean } {
+  const ids = new Set<bigint>();
+  let createsConcept = false;
+  for (const cs of members) {
+    if (cs.entity_type === 'frame') {
+      if (cs.entity_id !== null) ids.add(cs.entity_id);
+      else createsConcept = true;
+    } else if (cs.entity_type === 'frame_relation') {
+      const snapshot = cs.after_snapshot ?? cs.before_snapshot;
+      for (const key of ['parent_id', 'child_id', 'source_id', 'target_id']) {
+        const id = snapshotNumber(snapshot, key);
+        if (id !== null) ids.add(id);
+      }
+    }
+  }
+  return { ids: [...ids], createsConcept };
+}
+
+async function gatherFacts(target: CommitPolicyTarget): Promise<GatheredTarget | null> {
+  let members: Member[];
+  let planKind: string | null = null;
+  let currentRequirement = 0;
+  let alternativeGroupId: bigint | null = null;
+
+  if (target.kind === 'plan') {
+    const plan = await prisma.change_plans.findUnique({
+      where: { id: target.id },
+      select: {
+        status: true,
+        plan_kind: true,
+        required_approvals: true,
+        alternative_group_id: true,
+        changesets: { where: { status: 'pending' }, select: MEMBER_SELECT, orderBy: { id: 'asc' } },
+      },
+    });
+    if (!plan || plan.status !== 'pending' || plan.changesets.length === 0) return null;
+    members = plan.changesets;
+    planKind = plan.plan_kind;
+    currentRequirement = plan.required_approvals;
+    alternativeGroupId = plan.alternative_group_id;
+  } else {
+    const cs = await prisma.changesets.findUnique({
+      where: { id: target.id },
+      select: { ...MEMBER_SELECT, required_approvals: true },
+    });
+    if (!cs || cs.status !== 'pending' || cs.change_plan_id !== null) return null;
+    members = [cs];
+    currentRequirement = cs.required_approvals;
+    alternativeGroupId = cs.alternative_group_id;
+  }
+
+  const proposal = await prisma.health_remediation_proposals.findFirst({
+    where: target.kind === 'plan' ? { staged_change_plan_id: target.id } : { staged_changeset_id: target.id },
+    select: { confidence: true, target: { select: { strategy: true } } },
+    orderBy: { id: 'desc' },
+  });
+
+  const { ids: conceptIds, createsConcept } = touchedConceptIds(members);
+  let maxDescendants: number | null = createsConcept ? 0 : null;
+  if (conceptIds.length > 0) {
+    const concepts = await prisma.concepts.findMany({
+      where: { id: { in: conceptIds } },
+      select: { descendant_count: true },
+    });
+    for (const c of concepts) {
+      maxDescendants = Math.max(maxDescendants ?? 0, c.descendant_count);
+    }
+  }
+
+  const facts: CommitPolicyFacts = {
+    plan_kind: planKind,
+    changeset_ids: members.map((cs) => cs.id.toString()),
+    entity_types: [...new Set(members.map((cs) => cs.entity_type))],
+    operations: [...new Set(members.map((cs) => cs.operation))],
+    origins: [...new Set(members.map((cs) => cs.origin))],
+    llm_job_ids: [...new Set(members.map((cs) => cs.llm_job_id?.toString() ?? null))],
+    field_names: [...new Set(members.flatMap((cs) => cs.field_changes.map((fc) => fc.field_name)))],
+    strategy: proposal?.target.strategy ?? null,
+    confidence: proposal?.confidence == null ? null : Number(proposal.confidence),
+    max_descendant_count: maxDescendants,
+  };
+
+  let blocker: string | null = null;
+  if (alternativeGroupId !== null) {
+    const pendingAlternatives = target.kind === 'plan'
+      ? await prisma.change_plans.count({ where: { alternative_group_id: alternativeGroupId, status: 'pending' } })
+      : await prisma.changesets.count({
+          where: { alternative_group_id: alternativeGroupId, change_plan_id: null, status: 'pending' },
+        });
+    if (pendingAlternatives > 1) {
+      blocker = `${pendingAlternatives} pending alternatives; a reviewer has to choose one`;
+    }
+  }
+  if (!blocker && target.kind === 'changeset' && snapshotHas(members[0].after_snapshot ?? members[0].before_snapshot, 'move_group_id')) {
+    blocker = 'Part of a move group; the paired changeset has to commit with it';
+  }
+
+  return { facts, members, currentRequirement, blocker };
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+async function logDecision(
+  target: CommitPolicyTarget,
+  rule: PolicyRule,
+  decision: CommitPolicyDecisionKind,
+  reason: string,
+  facts: CommitPolicyFacts,
+): Promise<void> {
+  await prisma.commit_policy_decisions.create({
+    data: {
+      policy_id: rule.id,
+      policy_name: rule.name,
+      decision,
+      changeset_id: target.kind === 'changeset' ? target.id : null,
+      change_plan_id: target.kind === 'plan' ? target.id : null,
+      reason,
+      facts: facts as unknown as Prisma.InputJsonObject,
+    },
+  });
+}
+
+/** Whether the latest logged decision for `target` is already this one (avoids repeat rows on re-staging). */
+async function alreadyLogged(
+  target: CommitPolicyTarget,
+  rule: PolicyRule,
+  decision: CommitPolicyDecisionKind,
+): Promise<boolean> {
+  const last = await prisma.commit_policy_decisions.findFirst({
+    where: target.kind === 'plan' ? { change_plan_id: target.id } : { changeset_id: target.id },
+    orderBy: { id: 'desc' },
+    select: { policy_name: true, decision: true },
+  });
+  return last?.policy_name === rule.name && last.decision === decision;
+}
+
+async function markEvaluated(target: CommitPolicyTarget, requiredApprovals: number): Promise<void> {
+  const data = { required_approvals: requiredApprovals, policy_evaluated_at: new Date() };
+  if (target.kind === 'plan') {
+    await prisma.change_plans.update({ where: { id: target.id }, data });
+  } else {
+    await prisma.changesets.update({ where: { id: target.id }, data });
+  }
+}
+
+async function autoCommit(target: CommitPolicyTarget, members: Member[]): Promise<string | null> {
+  // commitChangeset/commitPlan only apply approved field changes, so the
+  // approval has to land first. Remember which rows were approved here so a
+  // failed commit puts exactly those back to pending instead of leaving them
+  // approved by the policy user.
+  const pending = await prisma.field_changes.findMany({
+    where: { changeset_id: { in: members.map((cs) => cs.id) }, status: 'pending' },
+    select: { id: true },
+  });
+  const approvedIds = pending.map((fc) => fc.id);
+  await prisma.field_changes.updateMany({
+    where: { id: { in: approvedIds }, status: 'pending' },
+    data: { status: 'approved', approved_by: AUTO_COMMIT_USER, approved_at: new Date() },
+  });
+
+  let error: string | null;
+  try {
+    if (target.kind === 'plan') {
+      const result = await commitPlan(target.id, AUTO_COMMIT_USER);
+      error = result.success ? null : result.errors.map((e) => e.error).join('; ') || 'Plan commit failed';
+    } else {
+      const result = await commitChangeset(target.id, AUTO_COMMIT_USER);
+      error = result.success ? null : result.errors.map((e) => e.error).join('; ') || 'Commit failed';
+    }
+  } catch (err) {
+    await revertAutoApproval(approvedIds);
+    throw err;
+  }
+  if (error !== null) {
+    await revertAutoApproval(approvedIds);
+  }
+  return error;
+}
+
+async function revertAutoApproval(fieldChangeIds: bigint[]): Promise<void> {
+  if (fieldChangeIds.length === 0) return;
+  await prisma.field_changes.updateMany({
+    where: { id: { in: fieldChangeIds }, status: 'approved', approved_by: AUTO_COMMIT_USER },
+    data: { status: 'pending', approved_by: null, approved_at: null },
+  });
+}
+
+async function evaluateTarget(target: CommitPolicyTarget, rules: PolicyRule[]): Promise<CommitPolicyOutcome | null> {
+  const gathered = await gatherFacts(target);
+  if (!gathered) return null;
+  const { facts, members, currentRequirement, blocker } = gathered;
+
+  const outcome: CommitPolicyOutcome = {
+    target: target.kind,
+    id: target.id.toString(),
+    decision: null,
+    policy_name: null,
+    required_approvals: 0,
+  };
+
+  const matched = rules.filter((rule) => policyMatches(rule, facts));
+  const approvalRule = matched
+    .filter((rule) => rule.action === 'require_approvals')
+    .reduce<PolicyRule | null>(
+      (best, rule) => (best === null || rule.required_approvals > best.required_approvals ? rule : best),
+      null,
+    );
+
+  if (approvalRule) {
+    outcome.decision = 'approvals_required';
+    outcome.policy_name = approvalRule.name;
+    outcome.required_approvals = approvalRule.required_approvals;
+    if (currentRequirement !== approvalRule.required_approvals) {
+      await logDecision(
+        target,
+        approvalRule,
+        'approvals_required',
+        `Requires ${approvalRule.required_approvals} reviewer approval${approvalRule.required_approvals === 1 ? '' : 's'}`,
+        facts,
+      );
+    }
+    await markEvaluated(target, approvalRule.required_approvals);
+    return outcome;
+  }
+
+  // Nothing requires approvals any more (e.g. the field list changed).
+  await markEvaluated(target, 0);
+
+  const autoRule = matched.find((rule) => rule.action === 'auto_commit');
+  if (!autoRule) return outcome;
+  outcome.policy_name = autoRule.name;
+
+  if (blocker) {
+    outcome.decision = 'auto_commit_skipped';
+    if (!(await alreadyLogged(target, autoRule, 'auto_commit_skipped'))) {
+      await logDecision(target, autoRule, 'auto_commit_skipped', blocker, facts);
+    }
+    return outcome;
+  }
+
+  let failure: string | null;
+  try {
+    failure = await autoCommit(target, members);
+  } catch (error) {
+    failure = error instanceof Error ? error.message : 'Unknown error';
+  }
+  outcome.decision = failure ? 'auto_commit_failed' : 'auto_committed';
+  await logDecision(
+    target,
+    autoRule,
+    outcome.decision,
+    failure ?? `Committed ${members.length} changeset${members.length === 1 ? '' : 's'} as ${AUTO_COMMIT_USER}`,
+    facts,
+  );
+  return outcome;
+}
+
+/**
+ * Evaluate policies for the given changesets and plans. Changesets that
+ * belong to a plan are evaluated as part of their plan.
+ */
+export async function evaluateCommitPolicies(input: {
+  changesetIds?: bigint[];
+  planIds?: bigint[];
+}): Promise<CommitPolicyOutcome[]> {
+  const planIds = new Set((input.planIds ?? []).map(String));
+  const looseIds: bigint[] = [];
+
+  if (input.changesetIds && input.changesetIds.length > 0) {
+    const rows = await prisma.changesets.findMany({
+      where: { id: { in: input.changesetIds }, status: 'pending' },
+      select: { id: true, change_plan_id: true },
+    });
+    for (const row of rows) {
+      if (row.change_plan_id !== null) planIds.add(row.change_plan_id.toString());
+      else looseIds.push(row.id);
+    }
+  }
+
+  const targets: CommitPolicyTarget[] = [
+    ...[...planIds].map((id) => ({ kind: 'plan' as const, id: BigInt(id) })),
+    ...looseIds.map((id) => ({ kind: 'changeset' as const, id })),
+  ];
+  if (targets.length === 0) return [];
+
+  const rules = await loadPolicyRules();
+  const outcomes: CommitPolicyOutcome[] = [];
+  for (const target of targets) {
+    const outcome = await evaluateTarget(target, rules);
+    if (outcome) outcomes.push(outcome);
+  }
+  return outcomes;
+}
+
+/**
+ * Staging-side entry point: evaluate policies for freshly staged changes.
+ * Never throws, so a broken policy can't fail the edit that triggered it.
+ */
+export async function evaluateStagedChanges(input: {
+  changesetIds?: bigint[];
+  planIds?: bigint[];
+}): Promise<CommitPolicyOutcome[]> {
+  try {
+    return await evaluateCommitPolicies(input);
+  } catch (error) {
+    console.error('[commit-policies] Evaluation after staging failed:', error);
+    return [];
+  }
+}
+
+/**
+ * Evaluate pending plans and loose changesets that have never been
+ * evaluated (staged by the remediation runner, imports, scripts).
+ */
+export async function evaluatePendingCommitPolicies(
+  { limit = 500 }: { limit?: number } = {},
+): Promise<{ evaluated: number; outcomes: CommitPolicyOutcome[] }> {
+  const [plans, changesets] = await Promise.all([
+    prisma.change_plans.findMany({
+      where: { status: 'pending', policy_evaluated_at: null },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: limit,
+    }),
+    prisma.changesets.findMany({
+      where: { status: 'pending', policy_evaluated_at: null, change_plan_id: null },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: limit,
+    }),
+  ]);
+
+  const outcomes = await evaluateCommitPolicies({
+    planIds: plans.map((p) => p.id),
+    changesetIds: changesets.map((cs) => cs.id),
+  });
+  return { evaluated: plans.length + changesets.length, outcomes };
+}
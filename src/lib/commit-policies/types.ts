@@ -0,0 +1,87 @@
+/**
+ * Commit policy types shared by the API routes and the UI.
+ *
+ * A policy matches pending changes on entity type, operation, plan kind,
+ * origin, LLM job, field names, remediation strategy, AI confidence and
+ * concept size, and then either commits them automatically or requires
+ * N reviewer approvals before they can be committed. See
+ * migrations/add_commit_policies.sql for the matching rules.
+ */
+
+export type CommitPolicyAction = 'auto_commit' | 'require_approvals';
+
+export const COMMIT_POLICY_ACTIONS: readonly CommitPolicyAction[] = ['auto_commit', 'require_approvals'];
+
+export type CommitPolicyDecisionKind =
+  | 'auto_committed'
+  | 'auto_commit_failed'
+  /** A policy matched but the change can't be committed unattended (e.g. open alternatives). */
+  | 'auto_commit_skipped'
+  | 'approvals_required';
+
+export interface CommitPolicy {
+  id: string;
+  name: string;
+  description: string | null;
+  enabled: boolean;
+  /** Lower runs first; the first matching auto_commit policy is the one logged. */
+  priority: number;
+  action: CommitPolicyAction;
+  /** Only meaningful for `require_approvals`. */
+  required_approvals: number;
+  entity_types: string[];
+  operations: string[];
+  plan_kinds: string[];
+  origins: string[];
+  /** null = any, true = only LLM job output, false = never LLM job output. */
+  from_llm_job: boolean | null;
+  llm_job_ids: string[];
+  field_names: string[];
+  strategies: string[];
+  min_confidence: number | null;
+  /** Inclusive: "fewer than 5 descendants" is 4. */
+  max_descendant_count: number | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * What the engine knows about a staged changeset or plan. Logged with
+ * every decision so reviewers can see why a policy did (or didn't) fire.
+ */
+export interface CommitPolicyFacts {
+  plan_kind: string | null;
+  changeset_ids: string[];
+  entity_types: string[];
+  operations: string[];
+  origins: string[];
+  llm_job_ids: (string | null)[];
+  field_names: string[];
+  strategy: string | null;
+  confidence: number | null;
+  /** Largest frames.descendant_count among the concepts touched; null when none are. */
+  max_descendant_count: number | null;
+}
+
+export interface CommitPolicyDecision {
+  id: string;
+  policy_id: string | null;
+  policy_name: string;
+  decision: CommitPolicyDecisionKind;
+  changeset_id: string | null;
+  change_plan_id: string | null;
+  reason: string | null;
+  facts: CommitPolicyFacts | Record<string, unknown>;
+  created_at: string;
+}
+
+export interface ChangeApprovalStatus {
+  required_approvals: number;
+  approvals: Array<{ approved_by: string; created_at: string }>;
+  /**
+   * Approvals still missing. Committing counts as the committer's own
+   * approval, so a reviewer who hasn't approved yet can commit at 1.
+   */
+  remaining: number;
+}
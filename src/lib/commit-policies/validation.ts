@@ -0,0 +1,117 @@
+/**
+ * Validation for commit policy API input.
+ */
+
+import { Prisma, change_operation, entity_type } from '@prisma/client';
+import { COMMIT_POLICY_ACTIONS, type CommitPolicyAction } from './types';
+
+const ENTITY_TYPES: readonly string[] = Object.values(entity_type);
+const OPERATIONS: readonly string[] = Object.values(change_operation);
+
+export class CommitPolicyError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'CommitPolicyError';
+  }
+}
+
+export function isCommitPolicyAction(value: unknown): value is CommitPolicyAction {
+  return typeof value === 'string' && (COMMIT_POLICY_ACTIONS as readonly string[]).includes(value);
+}
+
+function stringList(value: unknown, field: string, allowed?: readonly string[]): string[] {
+  if (value === null) return [];
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+    throw new CommitPolicyError(`${field} must be an array of strings`);
+  }
+  const list = [...new Set((value as string[]).map((v) => v.trim()).filter(Boolean))];
+  if (allowed) {
+    const unknown = list.filter((v) => !allowed.includes(v));
+    if (unknown.length > 0) {
+      throw new CommitPolicyError(`${field} has unknown values: ${unknown.join(', ')}`);
+    }
+  }
+  return list;
+}
+
+function idList(value: unknown, field: string): bigint[] {
+  if (value === null) return [];
+  if (!Array.isArray(value) || value.some((v) => !/^\d+$/.test(String(v)))) {
+    throw new CommitPolicyError(`${field} must be an array of numeric ids`);
+  }
+  return [...new Set(value.map((v) => String(v)))].map((v) => BigInt(v));
+}
+
+function optionalNumber(value: unknown, field: string, min: number, max?: number): number | null {
+  if (value === null || value === '') return null;
+  const n = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(n) || n < min || (max !== undefined && n > max)) {
+    throw new CommitPolicyError(
+      `${field} must be a number ${max !== undefined ? `between ${min} and ${max}` : `>= ${min}`}`,
+    );
+  }
+  return n;
+}
+
+/**
+ * Turn a POST / PATCH body into Prisma data. With `partial`, only the
+ * fields present in the body are returned (PATCH); otherwise `name` and
+ * `action` are required (POST).
+ */
+export function parseCommitPolicyInput(
+  body: Record<string, unknown>,
+  { partial }: { partial: boolean },
+): Omit<Prisma.commit_policiesUncheckedUpdateInput, 'id' | 'created_by' | 'created_at' | 'updated_at'> {
+  const data: Omit<Prisma.commit_policiesUncheckedUpdateInput, 'id' | 'created_by' | 'created_at' | 'updated_at'> = {};
+  const has = (key: string) => body[key] !== undefined;
+
+  if (has('name') || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) throw new CommitPolicyError('name is required');
+    data.name = name;
+  }
+  if (has('action') || !partial) {
+    if (!isCommitPolicyAction(body.action)) {
+      throw new CommitPolicyError(`action must be one of: ${COMMIT_POLICY_ACTIONS.join(', ')}`);
+    }
+    data.action = body.action;
+  }
+  if (has('description')) {
+    data.description = typeof body.description === 'string' && body.description.trim()
+      ? body.description.trim()
+      : null;
+  }
+  if (has('enabled')) data.enabled = Boolean(body.enabled);
+  if (has('priority')) {
+    data.priority = Math.trunc(optionalNumber(body.priority, 'priority', -1_000_000) ?? 100);
+  }
+  if (has('required_approvals')) {
+    data.required_approvals = Math.trunc(optionalNumber(body.required_approvals, 'required_approvals', 1, 10) ?? 2);
+  }
+  if (has('entity_types')) {
+    data.entity_types = stringList(body.entity_types, 'entity_types', ENTITY_TYPES) as entity_type[];
+  }
+  if (has('operations')) {
+    data.operations = stringList(body.operations, 'operations', OPERATIONS) as change_operation[];
+  }
+  if (has('plan_kinds')) data.plan_kinds = stringList(body.plan_kinds, 'plan_kinds');
+  if (has('origins')) data.origins = stringList(body.origins, 'origins');
+  if (has('field_names')) data.field_names = stringList(body.field_names, 'field_names');
+  if (has('strategies')) data.strategies = stringList(body.strategies, 'strategies');
+  if (has('llm_job_ids')) data.llm_job_ids = idList(body.llm_job_ids, 'llm_job_ids');
+  if (has('from_llm_job')) {
+    if (body.from_llm_job !== null && typeof body.from_llm_job !== 'boolean') {
+      throw new CommitPolicyError('from_llm_job must be true, false or null');
+    }
+    data.from_llm_job = body.from_llm_job;
+  }
+  if (has('min_confidence')) {
+    data.min_confidence = optionalNumber(body.min_confidence, 'min_confidence', 0, 1);
+  }
+  if (has('max_descendant_count')) {
+    const max = optionalNumber(body.max_descendant_count, 'max_descendant_count', 0);
+    data.max_descendant_count = max === null ? null : Math.trunc(max);
+  }
+
+  return data;
+}
@@ -0,0 +1,952 @@
+/**
+ * Concept merges through the changeset workflow.
+ *
+ * Staging writes a pending `merge` changeset on `entity_type='frame'`; a
+ * reviewer inspects the plan from `planConceptMerge` in Pending Changes
+ * and commits it, which lands in `commitConceptMergeInTx`.
+ *
+ * Contract for `merge` on `frame`:
+ *
+ *   - `entity_id` is the LOSER concept.
+ *   - `before_snapshot.__merge_child_id` is the SURVIVOR concept id.
+ *   - `before_snapshot.__merge_context` carries the labels shown in
+ *     review and the optional `reason`.
+ *
+ * The plan is not frozen at staging time: preview and commit both build it
+ * from the live tables, so what the reviewer saw last is what lands, and a
+ * merge staged weeks ago still applies cleanly. Drift only aborts the
+ * commit when either concept was deleted or merged in the meantime.
+ *
+ * Merges are soft: the loser keeps its row (`deleted`, `merged_into` set)
+ * along with the properties that were folded into survivor properties, so
+ * nothing the loser owned is destroyed. The audit_log row records the
+ * applied plan plus a `ConceptMergeUndoRecord`, which is what a staged
+ * un-merge (`commitConceptUnmergeInTx`) replays backwards.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createChangeset } from '@/lib/version-control/create';
+import { setRowHistoryContext } from '@/lib/version-control/rowHistoryContext';
+import type { ChangesetWithFieldChanges, CommitResult } from '@/lib/version-control/types';
+import type {
+  ConceptMergeEdge,
+  ConceptMergeEdgeAction,
+  ConceptMergePlan,
+  ConceptMergeProperty,
+  ConceptMergePropertyMapping,
+  ConceptMergeRef,
+  ConceptMergeUndoRecord,
+  ConceptUnmergeResult,
+  StageConceptMergeInput,
+} from './types';
+
+/** Invalid merge request (surfaced as 400 by the routes). */
+export class ConceptMergeError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'ConceptMergeError';
+  }
+}
+
+function toBigIntOrNull(value: unknown): bigint | null {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value);
+  if (typeof value === 'string' && /^\d+$/.test(value)) return BigInt(value);
+  return null;
+}
+
+/** Property labels compare case-insensitively, with spaces and underscores equivalent. */
+function normalizePropertyLabel(label: string | null): string {
+  return (label ?? '').trim().toLowerCase().replace(/[\s_]+/g, '_');
+}
+
+async function loadMergeConcepts(
+  db: Prisma.TransactionClient,
+  loserId: bigint,
+  survivorId: bigint,
+): Promise<{ loser: ConceptMergeRef; survivor: ConceptMergeRef }> {
+  if (loserId === survivorId) {
+    throw new ConceptMergeError('Cannot merge a concept into itself');
+  }
+  const rows = await db.concepts.findMany({
+    where: { id: { in: [loserId, survivorId] } },
+    select: { id: true, label: true, code: true, deleted: true, merged_into: true },
+  });
+  const ref = (id: bigint, role: string): ConceptMergeRef => {
+    const row = rows.find((r) => r.id === id);
+    if (!row) throw new ConceptMergeError(`${role} concept ${id} not found`);
+    if (row.merged_into !== null) {
+      throw new ConceptMergeError(`Concept ${id} is already merged into ${row.merged_into}`);
+    }
+    if (row.deleted) throw new ConceptMergeError(`Concept ${id} is deleted`);
+    return { id: row.id.toString(), label: row.label, code: row.code };
+  };
+  return { loser: ref(loserId, 'Loser'), survivor: ref(survivorId, 'Survivor') };
+}
+
+/** Strict ancestors (`up`) or descendants of the given concepts along `parent_of`. */
+async function loadHierarchy(
+  db: Prisma.TransactionClient,
+  ids: bigint[],
+  direction: 'up' | 'down',
+): Promise<Set<string>> {
+  const [from, to] = direction === 'up' ? ['child_id', 'parent_id'] : ['parent_id', 'child_id'];
+  const rows = await db.$queryRaw<{ id: bigint }[]>(Prisma.sql`
+    WITH RECURSIVE walk(id) AS (
+      SELECT ${Prisma.raw(to)} FROM concept_relations
+      WHERE type = 'parent_of' AND ${Prisma.raw(from)} IN (${Prisma.join(ids)})
+      UNION
+      SELECT cr.${Prisma.raw(to)} FROM concept_relations cr
+      JOIN walk w ON cr.${Prisma.raw(from)} = w.id
+      WHERE cr.type = 'parent_of'
+    )
+    SELECT id FROM walk
+  `);
+  const result = new Set(rows.map((r) => r.id.toString()));
+  for (const id of ids) result.delete(id.toString());
+  return result;
+}
+
+/**
+ * Pair each loser property with a survivor property, by label first and
+ * then through `property_mappings`: a direct mapping between the two
+ * concepts, or both concepts mapping their property to the same property
+ * of a shared parent. Unpaired loser properties move to the survivor.
+ */
+async function planProperties(
+  db: Prisma.TransactionClient,
+  loserId: bigint,
+  survivorId: bigint,
+  mappings: Array<{
+    parent_concept_id: bigint;
+    child_concept_id: bigint;
+    parent_property_label: string;
+    child_property_label: string | null;
+    is_absorbed: boolean | null;
+  }>,
+): Promise<ConceptMergeProperty[]> {
+  const [loserProps, survivorProps] = await Promise.all([
+    db.properties.findMany({ where: { concept_id: loserId }, select: { id: true, label: true }, orderBy: { id: 'asc' } }),
+    db.properties.findMany({ where: { concept_id: survivorId }, select: { id: true, label: true }, orderBy: { id: 'asc' } }),
+  ]);
+  if (loserProps.length === 0) return [];
+
+  const survivorByLabel = new Map<string, { id: bigint; label: string | null }>();
+  for (const p of survivorProps) {
+    const key = normalizePropertyLabel(p.label);
+    if (key && !survivorByLabel.has(key)) survivorByLabel.set(key, p);
+  }
+
+  // Loser label -> survivor labels reachable through property_mappings.
+  const mappedLabels = new Map<string, string[]>();
+  const addMapped = (loserLabel: string | null, survivorLabel: string | null) => {
+    const from = normalizePropertyLabel(loserLabel);
+    const to = normalizePropertyLabel(survivorLabel);
+    if (!from || !to) return;
+    mappedLabels.set(from, [...(mappedLabels.get(from) ?? []), to]);
+  };
+  const viaParent = new Map<string, string[]>();
+  for (const m of mappings) {
+    if (m.is_absorbed) continue;
+    if (m.parent_concept_id === survivorId && m.child_concept_id === loserId) {
+      addMapped(m.child_property_label, m.parent_property_label);
+    } else if (m.parent_concept_id === loserId && m.child_concept_id === survivorId) {
+      addMapped(m.parent_property_label, m.child_property_label);
+    } else if (m.child_concept_id === survivorId && m.child_property_label) {
+      const key = `${m.parent_concept_id}:${normalizePropertyLabel(m.parent_property_label)}`;
+      viaParent.set(key, [...(viaParent.get(key) ?? []), m.child_property_label]);
+    }
+  }
+  for (const m of mappings) {
+    if (m.is_absorbed || m.child_concept_id !== loserId || m.parent_concept_id === survivorId) continue;
+    const key = `${m.parent_concept_id}:${normalizePropertyLabel(m.parent_property_label)}`;
+    for (const label of viaParent.get(key) ?? []) addMapped(m.child_property_label, label);
+  }
+
+  const fillerCounts = await db.instance_fillers.groupBy({
+    by: ['property_id'],
+    where: { property_id: { in: loserProps.map((p) => p.id) } },
+    _count: { _all: true },
+  });
+  const fillersOf = new Map(fillerCounts.map((f) => [f.property_id.toString(), f._count._all]));
+
+  return loserProps.map((p) => {
+    const key = normalizePropertyLabel(p.label);
+    let match = key ? survivorByLabel.get(key) : undefined;
+    let matchedBy: ConceptMergeProperty['matched_by'] = match ? 'label' : null;
+    if (!match) {
+      match = (mappedLabels.get(key) ?? []).map((label) => survivorByLabel.get(label)).find(Boolean);
+      if (match) matchedBy = 'mapping';
+    }
+    return {
+      property_id: p.id.toString(),
+      label: p.label,
+      action: match ? 'merge' : 'move',
+      survivor_property_id: match?.id.toString() ?? null,
+      survivor_label: match?.label ?? null,
+      matched_by: matchedBy,
+      filler_count: fillersOf.get(p.id.toString()) ?? 0,
+    };
+  });
+}
+
+/**
+ * Repoint every property mapping that touches the loser, renaming loser
+ * property labels that merge into a survivor property. Mappings that
+ * would join the survivor to itself or duplicate an existing mapping are
+ * dropped.
+ */
+function planPropertyMappings(
+  loserId: bigint,
+  survivorId: bigint,
+  mappings: Array<{
+    id: bigint;
+    parent_concept_id: bigint;
+    child_concept_id: bigint;
+    parent_property_label: string;
+    child_property_label: string | null;
+    run_id: string;
+  }>,
+  properties: ConceptMergeProperty[],
+): ConceptMergePropertyMapping[] {
+  const renamed = new Map<string, string>();
+  for (const p of properties) {
+    if (p.action === 'merge' && p.label && p.survivor_label) {
+      renamed.set(normalizePropertyLabel(p.label), p.survivor_label);
+    }
+  }
+  const rename = (label: string) => renamed.get(normalizePropertyLabel(label)) ?? label;
+  const keyOf = (parent: bigint, child: bigint, parentLabel: string, childLabel: string | null, runId: string) =>
+    [parent, child, normalizePropertyLabel(parentLabel), normalizePropertyLabel(childLabel), runId].join('|');
+
+  const taken = new Set(
+    mappings
+      .filter((m) => m.parent_concept_id !== loserId && m.child_concept_id !== loserId)
+      .map((m) => keyOf(m.parent_concept_id, m.child_concept_id, m.parent_property_label, m.child_property_label, m.run_id)),
+  );
+
+  const planned: ConceptMergePropertyMapping[] = [];
+  for (const m of mappings) {
+    if (m.parent_concept_id !== loserId && m.child_concept_id !== loserId) continue;
+    const parent = m.parent_concept_id === loserId ? survivorId : m.parent_concept_id;
+    const child = m.child_concept_id === loserId ? survivorId : m.child_concept_id;
+    const parentLabel = m.parent_concept_id === loserId ? rename(m.parent_property_label) : m.parent_property_label;
+    const childLabel =
+      m.child_concept_id === loserId && m.child_property_label !== null
+        ? rename(m.child_property_label)
+        : m.child_property_label;
+    const key = keyOf(parent, child, parentLabel, childLabel, m.run_id);
+    const drop = parent === child || taken.has(key);
+    if (!drop) taken.add(key);
+    planned.push({
+      mapping_id: m.id.toString(),
+      parent_concept_id: parent.toString(),
+      child_concept_id: child.toString(),
+      parent_property_label: parentLabel,
+      child_property_label: childLabel,
+      action: drop ? 'drop' : 'repoint',
+    });
+  }
+  return planned;
+}
+
+/**
+ * Work out everything a merge of `loserId` into `survivorId` touches.
+ * Read-only; runs against `prisma` for previews and against the commit
+ * transaction for the real thing.
+ */
+export async function planConceptMerge(
+  db: Prisma.TransactionClient,
+  loserId: bigint,
+  survivorId: bigint,
+): Promise<ConceptMergePlan> {
+  const { loser, survivor } = await loadMergeConcepts(db, loserId, survivorId);
+  const pair = [loserId, survivorId];
+
+  const [senseLinks, survivorSenses, edges, ancestors, descendants, mappings] = await Promise.all([
+    db.sense_concepts.findMany({
+      where: { concept_id: loserId },
+      select: { sense_id: true, senses: { select: { definition: true } } },
+      orderBy: { sense_id: 'asc' },
+    }),
+    db.sense_concepts.findMany({ where: { concept_id: survivorId }, select: { sense_id: true } }),
+    db.concept_relations.findMany({
+      where: { type: 'parent_of', OR: [{ parent_id: { in: pair } }, { child_id: { in: pair } }] },
+      select: { id: true, parent_id: true, child_id: true },
+      orderBy: { id: 'asc' },
+    }),
+    loadHierarchy(db, pair, 'up'),
+    loadHierarchy(db, pair, 'down'),
+    db.property_mappings.findMany({
+      where: { OR: [{ parent_concept_id: { in: pair } }, { child_concept_id: { in: pair } }] },
+      select: {
+        id: true,
+        parent_concept_id: true,
+        child_concept_id: true,
+        parent_property_label: true,
+        child_property_label: true,
+        is_absorbed: true,
+        run_id: true,
+      },
+      orderBy: { id: 'asc' },
+    }),
+  ]);
+
+  // Senses
+  const survivorSenseIds = new Set(survivorSenses.map((s) => s.sense_id));
+  const sense_links = senseLinks.map((link) => ({
+    sense_id: String(link.sense_id),
+    definition: link.senses.definition,
+    action: survivorSenseIds.has(link.sense_id) ? ('drop_duplicate' as const) : ('repoint' as const),
+  }));
+
+  // Hierarchy. A child of the loser that is also an ancestor of either
+  // concept (and a parent that is also a descendant) would close a cycle
+  // once the loser and survivor are one node.
+  const survivorChildren = new Set(edges.filter((e) => e.parent_id === survivorId).map((e) => e.child_id.toString()));
+  const survivorParents = new Set(edges.filter((e) => e.child_id === survivorId).map((e) => e.parent_id.toString()));
+  const otherEndIds = new Set<bigint>();
+  const child_edges: Array<Omit<ConceptMergeEdge, 'label'>> = [];
+  const parent_edges: Array<Omit<ConceptMergeEdge, 'label'>> = [];
+  for (const e of edges) {
+    if (e.parent_id === loserId) {
+      const other = e.child_id.toString();
+      let action: ConceptMergeEdgeAction = 'repoint';
+      if (e.child_id === survivorId) action = 'drop_self';
+      else if (ancestors.has(other)) action = 'drop_cycle';
+      else if (survivorChildren.has(other)) action = 'drop_duplicate';
+      child_edges.push({ relation_id: e.id.toString(), concept_id: other, action });
+      otherEndIds.add(e.child_id);
+    } else if (e.child_id === loserId) {
+      const other = e.parent_id.toString();
+      let action: ConceptMergeEdgeAction = 'repoint';
+      if (e.parent_id === survivorId) action = 'drop_self';
+      else if (descendants.has(other)) action = 'drop_cycle';
+      else if (survivorParents.has(other)) action = 'drop_duplicate';
+      parent_edges.push({ relation_id: e.id.toString(), concept_id: other, action });
+      otherEndIds.add(e.parent_id);
+    }
+  }
+  const otherEnds = otherEndIds.size
+    ? await db.concepts.findMany({ where: { id: { in: [...otherEndIds] } }, select: { id: true, label: true } })
+    : [];
+  const labelOf = new Map(otherEnds.map((c) => [c.id.toString(), c.label]));
+  const withLabel = (e: Omit<ConceptMergeEdge, 'label'>): ConceptMergeEdge => ({
+    ...e,
+    label: labelOf.get(e.concept_id) ?? null,
+  });
+
+  // Properties
+  const properties = await planProperties(db, loserId, survivorId, mappings);
+  const property_mappings = planPropertyMappings(loserId, survivorId, mappings, properties);
+
+  // Rows that simply follow the loser to the survivor
+  const [groups, instanceCount, referents, constraints, externalIds, units, rechained] = await Promise.all([
+    db.property_groups.findMany({ where: { concept_id: loserId }, select: { id: true }, orderBy: { id: 'asc' } }),
+    db.instances.count({ where: { concept_id: loserId } }),
+    db.referents.findMany({ where: { type_concept_id: loserId }, select: { id: true }, orderBy: { id: 'asc' } }),
+    db.property_filler_constraints.findMany({
+      where: { concept_id: loserId },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+    }),
+    db.concept_external_ids.findMany({
+      where: { concept_id: loserId },
+      select: { id: true, vocabulary: true, external_id: true },
+      orderBy: { id: 'asc' },
+    }),
+    db.units.findMany({ where: { concept_id: loserId }, select: { id: true }, orderBy: { id: 'asc' } }),
+    db.concepts.findMany({ where: { merged_into: loserId }, select: { id: true }, orderBy: { id: 'asc' } }),
+  ]);
+  const ids = (rows: { id: bigint | number }[]) => rows.map((r) => String(r.id));
+
+  return {
+    loser,
+    survivor,
+    sense_links,
+    child_edges: child_edges.map(withLabel),
+    parent_edges: parent_edges.map(withLabel),
+    properties,
+    property_group_ids: ids(groups),
+    property_mappings,
+    instance_count: instanceCount,
+    referent_ids: ids(referents),
+    filler_constraint_ids: ids(constraints),
+    external_ids: externalIds.map((x) => ({ id: x.id.toString(), vocabulary: x.vocabulary, external_id: x.external_id })),
+    unit_ids: ids(units),
+    rechained_concept_ids: ids(rechained),
+    descendant_count_concept_ids: [survivor.id, loser.id, ...ancestors].sort((a, b) =>
+      Number(BigInt(a) - BigInt(b)),
+    ),
+  };
+}
+
+/** Preview for the staging and pending screens. */
+export async function previewConceptMerge(loserId: bigint, survivorId: bigint): Promise<ConceptMergePlan> {
+  return planConceptMerge(prisma, loserId, survivorId);
+}
+
+/**
+ * Stage a concept merge. Returns the new changeset id, or the id of an
+ * already-pending merge of the same loser into the same survivor (staging
+ * is idempotent). A pending merge into a different survivor is a conflict.
+ */
+export async function stageConceptMerge(
+  input: StageConceptMergeInput,
+  createdBy: string,
+): Promise<{ changeset_id: bigint; created: boolean }> {
+  const { loser, survivor } = await loadMergeConcepts(prisma, input.loser_id, input.survivor_id);
+
+  const existing = await prisma.changesets.findFirst({
+    where: { entity_type: 'frame', entity_id: input.loser_id, operation: 'merge', status: 'pending' },
+    select: { id: true, before_snapshot: true },
+  });
+  if (existing) {
+    const snapshot = (existing.before_snapshot ?? {}) as Record<string, unknown>;
+    if (String(snapshot.__merge_child_id) !== survivor.id) {
+      throw new ConceptMergeError(
+        `Concept ${loser.id} already has a pending merge into concept ${String(snapshot.__merge_child_id)} (changeset ${existing.id})`,
+        409,
+      );
+    }
+    return { changeset_id: existing.id, created: false };
+  }
+
+  const row = await prisma.concepts.findUniqueOrThrow({
+    where: { id: input.loser_id },
+    select: { label: true, code: true, definition: true },
+  });
+  const changeset = await createChangeset({
+    entity_type: 'frame',
+    entity_id: input.loser_id,
+    operation: 'merge',
+    before_snapshot: {
+      label: row.label,
+      code: row.code,
+      definition: row.definition,
+      __merge_child_id: survivor.id,
+      __merge_context: {
+        winner_label: survivor.label,
+        winner_code: survivor.code,
+        loser_label: loser.label,
+        loser_code: loser.code,
+        reason: input.reason?.trim() || null,
+      },
+    },
+    created_by: createdBy,
+  });
+  return { changeset_id: changeset.id, created: true };
+}
+
+const bigints = (ids: string[]) => ids.map((id) => BigInt(id));
+const strings = (rows: { id: bigint }[]) => rows.map((r) => r.id.toString());
+
+/**
+ * Read the rows `plan` will move or delete that it doesn't list itself.
+ * Must run before any of the plan is applied.
+ */
+async function recordMergeUndo(
+  tx: Prisma.TransactionClient,
+  loserId: bigint,
+  plan: ConceptMergePlan,
+): Promise<ConceptMergeUndoRecord> {
+  const instances = await tx.instances.findMany({
+    where: { concept_id: loserId },
+    select: { id: true },
+    orderBy: { id: 'asc' },
+  });
+
+  const merged_properties: ConceptMergeUndoRecord['merged_properties'] = [];
+  for (const p of plan.properties) {
+    if (p.action !== 'merge' || !p.survivor_property_id) continue;
+    const from = BigInt(p.property_id);
+    const to = BigInt(p.survivor_property_id);
+    const [fillers, fromGroups, toGroups] = await Promise.all([
+      tx.instance_fillers.findMany({ where: { property_id: from }, select: { id: true }, orderBy: { id: 'asc' } }),
+      tx.property_group_members.findMany({ where: { property_id: from }, select: { role_group_id: true } }),
+      tx.property_group_members.findMany({ where: { property_id: to }, select: { role_group_id: true } }),
+    ]);
+    const survivorGroups = new Set(toGroups.map((g) => g.role_group_id));
+    merged_properties.push({
+      property_id: p.property_id,
+      survivor_property_id: p.survivor_property_id,
+      filler_ids: strings(fillers),
+      moved_group_ids: fromGroups.filter((g) => !survivorGroups.has(g.role_group_id)).map((g) => g.role_group_id.toString()),
+      dropped_group_ids: fromGroups.filter((g) => survivorGroups.has(g.role_group_id)).map((g) => g.role_group_id.toString()),
+    });
+  }
+
+  const mappings = await tx.property_mappings.findMany({
+    where: { id: { in: plan.property_mappings.map((m) => BigInt(m.mapping_id)) } },
+    orderBy: { id: 'asc' },
+  });
+
+  return {
+    instance_ids: strings(instances),
+    merged_properties,
+    property_mappings: mappings.map((m) => ({
+      id: m.id.toString(),
+      parent_concept_id: m.parent_concept_id.toString(),
+      child_concept_id: m.child_concept_id.toString(),
+      parent_property_label: m.parent_property_label,
+      child_property_label: m.child_property_label,
+      is_absorbed: m.is_absorbed,
+      incorporated_value: m.incorporated_value,
+      model: m.model,
+      run_id: m.run_id,
+    })),
+  };
+}
+
+/** Recompute `descendant_count` for `ids` from the live hierarchy. */
+async function recomputeDescendantCounts(tx: Prisma.TransactionClient, ids: bigint[]): Promise<void> {
+  await tx.$executeRaw`
+    WITH RECURSIVE subtree(root_id, concept_id) AS (
+      SELECT id, id FROM concepts WHERE id IN (${Prisma.join(ids)})
+      UNION
+      SELECT s.root_id, cr.child_id
+      FROM concept_relations cr
+      JOIN subtree s ON cr.parent_id = s.concept_id
+      WHERE cr.type = 'parent_of'
+    )
+    UPDATE concepts c
+    SET descendant_count = subq.cnt
+    FROM (
+      SELECT root_id, COUNT(DISTINCT concept_id) - 1 AS cnt
+      FROM subtree
+      GROUP BY root_id
+    ) subq
+    WHERE c.id = subq.root_id AND c.descendant_count <> subq.cnt
+  `;
+}
+
+/**
+ * Commit a staged concept MERGE (see the contract at the top of this
+ * file): rebuild the plan inside the transaction, apply it, soft-delete
+ * the loser, recompute descendant counts, then mark committed and audit.
+ */
+export async function commitConceptMergeInTx(
+  tx: Prisma.TransactionClient,
+  changeset: ChangesetWithFieldChanges,
+  committedBy: string,
+): Promise<CommitResult> {
+  const csLabel = `changeset ${changeset.id.toString()}`;
+  const before = changeset.before_snapshot;
+  if (!before || !changeset.entity_id) {
+    throw new Error(`MERGE on frame requires entity_id and before_snapshot (${csLabel})`);
+  }
+  const survivorId = toBigIntOrNull(before.__merge_child_id);
+  if (!survivorId) {
+    throw new Error(`MERGE before_snapshot missing __merge_child_id on ${csLabel}`);
+  }
+  const loserId = changeset.entity_id;
+  const ctx = (before.__merge_context ?? {}) as Record<string, unknown>;
+
+  await setRowHistoryContext(tx, { userId: committedBy, changesetId: changeset.id });
+
+  // 1) DRIFT CHECK + plan, against the rows this transaction will write.
+  let plan: ConceptMergePlan;
+  try {
+    plan = await planConceptMerge(tx, loserId, survivorId);
+  } catch (error) {
+    if (error instanceof ConceptMergeError) throw new Error(`MERGE drift: ${error.message} (${csLabel})`);
+    throw error;
+  }
+  const undo = await recordMergeUndo(tx, loserId, plan);
+  const now = new Date();
+
+  // 2) sense_concepts: drop links the survivor already has, move the rest.
+  const droppedSenses = plan.sense_links.filter((l) => l.action === 'drop_duplicate').map((l) => Number(l.sense_id));
+  if (droppedSenses.length > 0) {
+    await tx.sense_concepts.deleteMany({ where: { concept_id: loserId, sense_id: { in: droppedSenses } } });
+  }
+  await tx.sense_concepts.updateMany({ where: { concept_id: loserId }, data: { concept_id: survivorId } });
+
+  // 3) concept_relations
+  const edges = [...plan.child_edges, ...plan.parent_edges];
+  const droppedEdges = edges.filter((e) => e.action !== 'repoint').map((e) => BigInt(e.relation_id));
+  if (droppedEdges.length > 0) {
+    await tx.concept_relations.deleteMany({ where: { id: { in: droppedEdges } } });
+  }
+  const repointed = (list: ConceptMergeEdge[]) =>
+    list.filter((e) => e.action === 'repoint').map((e) => BigInt(e.relation_id));
+  await tx.concept_relations.updateMany({
+    where: { id: { in: repointed(plan.child_edges) } },
+    data: { parent_id: survivorId, updated_at: now, version: { increment: 1 } },
+  });
+  await tx.concept_relations.updateMany({
+    where: { id: { in: repointed(plan.parent_edges) } },
+    data: { child_id: survivorId, updated_at: now, version: { increment: 1 } },
+  });
+
+  // 4) Properties. Merged properties hand their fillers and group
+  //    memberships to the survivor property and stay on the loser;
+  //    unmatched ones move over whole.
+  for (const p of plan.properties) {
+    if (p.action !== 'merge' || !p.survivor_property_id) continue;
+    const from = BigInt(p.property_id);
+    const to = BigInt(p.survivor_property_id);
+    await tx.instance_fillers.updateMany({ where: { property_id: from }, data: { property_id: to } });
+    await tx.$executeRaw`
+      DELETE FROM property_group_members
+      WHERE property_id = ${from}
+        AND role_group_id IN (SELECT role_group_id FROM property_group_members WHERE property_id = ${to})
+    `;
+    await tx.property_group_members.updateMany({ where: { property_id: from }, data: { property_id: to } });
+  }
+  const moved = plan.properties.filter((p) => p.action === 'move').map((p) => BigInt(p.property_id));
+  if (moved.length > 0) {
+    await tx.properties.updateMany({
+      where: { id: { in: moved } },
+      data: { concept_id: survivorId, updated_at: now, version: { increment: 1 } },
+    });
+  }
+  await tx.property_groups.updateMany({
+    where: { id: { in: bigints(plan.property_group_ids) } },
+    data: { concept_id: survivorId, updated_at: now },
+  });
+
+  // 5) property_mappings
+  const droppedMappings = plan.property_mappings.filter((m) => m.action === 'drop').map((m) => BigInt(m.mapping_id));
+  if (droppedMappings.length > 0) {
+    await tx.property_mappings.deleteMany({ where: { id: { in: droppedMappings } } });
+  }
+  for (const m of plan.property_mappings) {
+    if (m.action !== 'repoint') continue;
+    await tx.property_mappings.update({
+      where: { id: BigInt(m.mapping_id) },
+      data: {
+        parent_concept_id: BigInt(m.parent_concept_id),
+        child_concept_id: BigInt(m.child_concept_id),
+        parent_property_label: m.parent_property_label,
+        child_property_label: m.child_property_label,
+      },
+    });
+  }
+
+  // 6) Rows that reference the concept directly.
+  const instances = await tx.instances.updateMany({ where: { concept_id: loserId }, data: { concept_id: survivorId } });
+  await tx.referents.updateMany({
+    where: { type_concept_id: loserId },
+    data: { type_concept_id: survivorId, updated_at: now },
+  });
+  await tx.property_filler_constraints.updateMany({ where: { concept_id: loserId }, data: { concept_id: survivorId } });
+  // (vocabulary, external_id) is globally unique, so these cannot collide.
+  await tx.concept_external_ids.updateMany({ where: { concept_id: loserId }, data: { concept_id: survivorId } });
+  await tx.units.updateMany({ where: { concept_id: loserId }, data: { concept_id: survivorId } });
+  await tx.concepts.updateMany({ where: { merged_into: loserId }, data: { merged_into: survivorId, updated_at: now } });
+
+  // 7) Soft-delete the loser.
+  const reason = typeof ctx.reason === 'string' && ctx.reason ? ctx.reason : null;
+  await tx.concepts.update({
+    where: { id: loserId },
+    data: {
+      deleted: true,
+      deleted_at: now,
+      deleted_reason: reason ?? `Merged into ${plan.survivor.label} (${plan.survivor.id})`,
+      merged_into: survivorId,
+      updated_at: now,
+      version: { increment: 1 },
+    },
+  });
+  await tx.concepts.update({
+    where: { id: survivorId },
+    data: { updated_at: now, version: { increment: 1 } },
+  });
+
+  // 8) descendant_count for both concepts and everything above them.
+  await recomputeDescendantCounts(tx, bigints(plan.descendant_count_concept_ids));
+
+  // 9) AUDIT + mark changeset committed.
+  await tx.changesets.update({
+    where: { id: changeset.id },
+    data: { status: 'committed', reviewed_by: committedBy, reviewed_at: now, committed_at: now },
+  });
+  await tx.audit_log.create({
+    data: {
+      entity_type: 'frame',
+      entity_id: loserId,
+      field_name: '*',
+      operation: 'merge',
+      old_value: before as Prisma.InputJsonValue,
+      new_value: {
+        merged_into: survivorId.toString(),
+        ...plan,
+        instance_count: instances.count,
+        undo,
+      } as unknown as Prisma.InputJsonValue,
+      changed_by: committedBy,
+      changesets: { connect: { id: changeset.id } },
+    },
+  });
+
+  return {
+    success: true,
+    committed_count: 1,
+    skipped_count: 0,
+    errors: [],
+  };
+}
+
+/**
+ * Commit a staged concept un-merge: an UPDATE changeset on the merge's
+ * loser whose `reverts_changeset_id` is the committed merge and whose only
+ * field change is `merged_into: <survivor> -> null` (staged by
+ * `stageChangesetRevert`). Replays the recorded plan backwards: rows that
+ * moved to the survivor move back, deleted edges, mappings, sense links
+ * and group memberships are recreated, and the loser is undeleted. Rows
+ * that moved again since the merge are left alone.
+ */
+export async function commitConceptUnmergeInTx(
+  tx: Prisma.TransactionClient,
+  changeset: ChangesetWithFieldChanges,
+  approvedChanges: ChangesetWithFieldChanges['field_changes'],
+  committedBy: string,
+): Promise<CommitResult> {
+  const csLabel = `changeset ${changeset.id.toString()}`;
+  if (approvedChanges.some((fc) => fc.field_name !== 'merged_into')) {
+    throw new Error(`Concept un-merge only accepts merged_into (${csLabel})`);
+  }
+  const row = await tx.changesets.findUnique({
+    where: { id: changeset.id },
+    select: { reverts_changeset_id: true },
+  });
+  const mergeId = row?.reverts_changeset_id;
+  if (!mergeId) {
+    throw new Error(`UPDATE of merged_into is only supported for merge reverts (${csLabel})`);
+  }
+  const merge = await tx.changesets.findUnique({
+    where: { id: mergeId },
+    select: { entity_type: true, operation: true, status: true },
+  });
+  if (!merge || merge.entity_type !== 'frame' || merge.operation !== 'merge' || merge.status !== 'committed') {
+    throw new Error(`Changeset ${mergeId} is not a committed concept merge (${csLabel})`);
+  }
+
+  const audits = await tx.audit_log.findMany({
+    where: { changeset_id: mergeId, entity_type: 'frame' },
+    orderBy: { id: 'asc' },
+    select: { operation: true, field_name: true, new_value: true },
+  });
+  if (audits.some((a) => a.field_name === 'merged_into')) {
+    throw new Error(`Concept merge ${mergeId} was already reverted (${csLabel})`);
+  }
+  const record = audits.find((a) => a.operation === 'merge')?.new_value as
+    | (ConceptMergePlan & { undo?: ConceptMergeUndoRecord })
+    | undefined;
+  if (!record?.undo) {
+    throw new Error(`Concept merge ${mergeId} has no un-merge record (${csLabel})`);
+  }
+  const { undo } = record;
+  const loserId = BigInt(record.loser.id);
+  const survivorId = BigInt(record.survivor.id);
+
+  const loser = await tx.concepts.findUnique({ where: { id: loserId }, select: { merged_into: true } });
+  if (!loser || loser.merged_into !== survivorId) {
+    throw new Error(`Concept ${loserId} is no longer merged into ${survivorId}; cannot un-merge (${csLabel})`);
+  }
+
+  await setRowHistoryContext(tx, { userId: committedBy, changesetId: changeset.id });
+  const now = new Date();
+
+  // 1) Undelete the loser and take back what followed it.
+  await tx.concepts.update({
+    where: { id: loserId },
+    data: {
+      deleted: false,
+      deleted_at: null,
+      deleted_reason: null,
+      merged_into: null,
+      updated_at: now,
+      version: { increment: 1 },
+    },
+  });
+  await tx.concepts.updateMany({
+    where: { id: { in: bigints(record.rechained_concept_ids) }, merged_into: survivorId },
+    data: { merged_into: loserId, updated_at: now },
+  });
+  await tx.units.updateMany({
+    where: { id: { in: record.unit_ids.map(Number) }, concept_id: survivorId },
+    data: { concept_id: loserId },
+  });
+  await tx.concept_external_ids.updateMany({
+    where: { id: { in: bigints(record.external_ids.map((x) => x.id)) }, concept_id: survivorId },
+    data: { concept_id: loserId },
+  });
+  await tx.property_filler_constraints.updateMany({
+    where: { id: { in: bigints(record.filler_constraint_ids) }, concept_id: survivorId },
+    data: { concept_id: loserId },
+  });
+  await tx.referents.updateMany({
+    where: { id: { in: bigints(record.referent_ids) }, type_concept_id: survivorId },
+    data: { type_concept_id: loserId, updated_at: now },
+  });
+  const instances = await tx.instances.updateMany({
+    where: { id: { in: bigints(undo.instance_ids) }, concept_id: survivorId },
+    data: { concept_id: loserId },
+  });
+
+  // 2) property_mappings: repointed rows get their old ends and labels
+  //    back; dropped rows are recreated with their old ids.
+  const planned = new Map(record.property_mappings.map((m) => [m.mapping_id, m]));
+  const dropped: Prisma.property_mappingsCreateManyInput[] = [];
+  for (const m of undo.property_mappings) {
+    const original = {
+      parent_concept_id: BigInt(m.parent_concept_id),
+      child_concept_id: BigInt(m.child_concept_id),
+      parent_property_label: m.parent_property_label,
+      child_property_label: m.child_property_label,
+    };
+    const after = planned.get(m.id);
+    if (after?.action === 'repoint') {
+      await tx.property_mappings.updateMany({
+        where: {
+          id: BigInt(m.id),
+          parent_concept_id: BigInt(after.parent_concept_id),
+          child_concept_id: BigInt(after.child_concept_id),
+        },
+        data: original,
+      });
+    } else {
+      dropped.push({
+        id: BigInt(m.id),
+        ...original,
+        is_absorbed: m.is_absorbed,
+        incorporated_value: m.incorporated_value,
+        model: m.model,
+        run_id: m.run_id,
+      });
+    }
+  }
+  if (dropped.length > 0) {
+    await tx.property_mappings.createMany({ data: dropped, skipDuplicates: true });
+  }
+
+  // 3) Properties: groups and moved properties come back whole; merged
+  //    ones take back their fillers and group memberships.
+  await tx.property_groups.updateMany({
+    where: { id: { in: bigints(record.property_group_ids) }, concept_id: survivorId },
+    data: { concept_id: loserId, updated_at: now },
+  });
+  const moved = record.properties.filter((p) => p.action === 'move').map((p) => BigInt(p.property_id));
+  const restoredProperties = moved.length > 0
+    ? (
+        await tx.properties.updateMany({
+          where: { id: { in: moved }, concept_id: survivorId },
+          data: { concept_id: loserId, updated_at: now, version: { increment: 1 } },
+        })
+      ).count
+    : 0;
+  for (const p of undo.merged_properties) {
+    const from = BigInt(p.property_id);
+    const to = BigInt(p.survivor_property_id);
+    await tx.instance_fillers.updateMany({
+      where: { id: { in: bigints(p.filler_ids) }, property_id: to },
+      data: { property_id: from },
+    });
+    await tx.property_group_members.updateMany({
+      where: { property_id: to, role_group_id: { in: bigints(p.moved_group_ids) } },
+      data: { property_id: from },
+    });
+    if (p.dropped_group_ids.length > 0) {
+      await tx.property_group_members.createMany({
+        data: p.dropped_group_ids.map((g) => ({ role_group_id: BigInt(g), property_id: from })),
+        skipDuplicates: true,
+      });
+    }
+  }
+
+  // 4) concept_relations: repointed edges swing back to the loser; edges
+  //    the merge deleted are recreated with their old ids.
+  const repointed = (list: ConceptMergeEdge[]) =>
+    list.filter((e) => e.action === 'repoint').map((e) => BigInt(e.relation_id));
+  const asParent = await tx.concept_relations.updateMany({
+    where: { id: { in: repointed(record.child_edges) }, parent_id: survivorId },
+    data: { parent_id: loserId, updated_at: now, version: { increment: 1 } },
+  });
+  const asChild = await tx.concept_relations.updateMany({
+    where: { id: { in: repointed(record.parent_edges) }, child_id: survivorId },
+    data: { child_id: loserId, updated_at: now, version: { increment: 1 } },
+  });
+  const droppedEdges = [
+    ...record.child_edges
+      .filter((e) => e.action !== 'repoint')
+      .map((e) => ({ id: BigInt(e.relation_id), parent_id: loserId, child_id: BigInt(e.concept_id) })),
+    ...record.parent_edges
+      .filter((e) => e.action !== 'repoint')
+      .map((e) => ({ id: BigInt(e.relation_id), parent_id: BigInt(e.concept_id), child_id: loserId })),
+  ];
+  const recreatedEdges = droppedEdges.length > 0
+    ? (
+        await tx.concept_relations.createMany({
+          data: droppedEdges.map((e) => ({ ...e, type: 'parent_of' as const })),
+          skipDuplicates: true,
+        })
+      ).count
+    : 0;
+
+  // 5) sense_concepts: moved links come back; links dropped as duplicates
+  //    of the survivor's are recreated (the survivor keeps its own).
+  const movedSenses = record.sense_links.filter((l) => l.action === 'repoint').map((l) => Number(l.sense_id));
+  const senseLinks = movedSenses.length > 0
+    ? (
+        await tx.sense_concepts.updateMany({
+          where: { concept_id: survivorId, sense_id: { in: movedSenses } },
+          data: { concept_id: loserId },
+        })
+      ).count
+    : 0;
+  const droppedSenses = record.sense_links.filter((l) => l.action === 'drop_duplicate').map((l) => Number(l.sense_id));
+  const relinked = droppedSenses.length > 0
+    ? (
+        await tx.sense_concepts.createMany({
+          data: droppedSenses.map((sense_id) => ({ sense_id, concept_id: loserId })),
+          skipDuplicates: true,
+        })
+      ).count
+    : 0;
+
+  await tx.concepts.update({
+    where: { id: survivorId },
+    data: { updated_at: now, version: { increment: 1 } },
+  });
+  await recomputeDescendantCounts(tx, bigints(record.descendant_count_concept_ids));
+
+  // 6) AUDIT on both changesets (the merge's row marks it reverted) and
+  //    mark the un-merge committed.
+  const summary: ConceptUnmergeResult = {
+    changeset_id: mergeId.toString(),
+    loser_id: loserId.toString(),
+    survivor_id: survivorId.toString(),
+    restored_instances: instances.count,
+    restored_sense_links: senseLinks + relinked,
+    restored_edges: asParent.count + asChild.count + recreatedEdges,
+    restored_properties: restoredProperties + undo.merged_properties.length,
+  };
+  for (const changesetId of [mergeId, changeset.id]) {
+    await tx.audit_log.create({
+      data: {
+        entity_type: 'frame',
+        entity_id: loserId,
+        field_name: 'merged_into',
+        operation: 'update',
+        old_value: { merged_into: survivorId.toString() },
+        new_value: summary as unknown as Prisma.InputJsonValue,
+        changed_by: committedBy,
+        changesets: { connect: { id: changesetId } },
+      },
+    });
+  }
+  await tx.changesets.update({
+    where: { id: changeset.id },
+    data: { status: 'committed', reviewed_by: committedBy, reviewed_at: now, committed_at: now },
+  });
+
+  return {
+    success: true,
+    committed_count: 1,
+    skipped_count: 0,
+    errors: [],
+  };
+}
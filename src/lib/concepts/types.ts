@@ -0,0 +1,139 @@
+/**
+ * Types for concept merges (see `./merge.ts`).
+ */
+
+export interface StageConceptMergeInput {
+  /** Concept that absorbs the loser and stays live. */
+  survivor_id: bigint;
+  /** Concept folded into the survivor and soft-deleted. */
+  loser_id: bigint;
+  /** Free-text reason shown in review and stored on the loser. */
+  reason?: string | null;
+}
+
+export interface ConceptMergeRef {
+  id: string;
+  label: string;
+  code: string | null;
+}
+
+/**
+ * What happens to one of the loser's `parent_of` edges. `repoint` moves
+ * the loser end onto the survivor; every other action deletes the edge.
+ */
+export type ConceptMergeEdgeAction =
+  | 'repoint'
+  /** The survivor already has the same edge. */
+  | 'drop_duplicate'
+  /** The edge runs between the loser and the survivor. */
+  | 'drop_self'
+  /** Repointing would put the survivor above one of its own ancestors (or below a descendant). */
+  | 'drop_cycle';
+
+export interface ConceptMergeEdge {
+  relation_id: string;
+  /** The concept on the other end of the edge. */
+  concept_id: string;
+  label: string | null;
+  action: ConceptMergeEdgeAction;
+}
+
+export interface ConceptMergeSenseLink {
+  sense_id: string;
+  definition: string | null;
+  /** `drop_duplicate` when the sense is already linked to the survivor. */
+  action: 'repoint' | 'drop_duplicate';
+}
+
+/**
+ * How one loser property is reconciled. A `merge` folds it into a
+ * survivor property (instance fillers and group memberships follow); a
+ * `move` hands the property itself to the survivor.
+ */
+export interface ConceptMergeProperty {
+  property_id: string;
+  label: string | null;
+  action: 'merge' | 'move';
+  survivor_property_id: string | null;
+  survivor_label: string | null;
+  /** Why the two properties were paired: equal labels, or a property_mappings row. */
+  matched_by: 'label' | 'mapping' | null;
+  filler_count: number;
+}
+
+export interface ConceptMergePropertyMapping {
+  mapping_id: string;
+  parent_concept_id: string;
+  child_concept_id: string;
+  parent_property_label: string;
+  child_property_label: string | null;
+  /** `drop` when the mapping would join the survivor to itself or duplicate an existing one. */
+  action: 'repoint' | 'drop';
+}
+
+/**
+ * Every row a merge of `loser` into `survivor` would touch, computed from
+ * the live tables. The pending UI renders this before commit and the
+ * commit applies exactly this plan inside its transaction.
+ */
+export interface ConceptMergePlan {
+  loser: ConceptMergeRef;
+  survivor: ConceptMergeRef;
+  sense_links: ConceptMergeSenseLink[];
+  /** Edges where the loser is the parent. */
+  child_edges: ConceptMergeEdge[];
+  /** Edges where the loser is the child. */
+  parent_edges: ConceptMergeEdge[];
+  properties: ConceptMergeProperty[];
+  property_group_ids: string[];
+  property_mappings: ConceptMergePropertyMapping[];
+  instance_count: number;
+  referent_ids: string[];
+  filler_constraint_ids: string[];
+  external_ids: Array<{ id: string; vocabulary: string; external_id: string }>;
+  unit_ids: string[];
+  /** Concepts previously merged into the loser; they are re-chained to the survivor. */
+  rechained_concept_ids: string[];
+  /** Concepts whose `descendant_count` is recomputed after the merge. */
+  descendant_count_concept_ids: string[];
+}
+
+/**
+ * Rows a committed merge moved or deleted that the plan alone can't put
+ * back. Recorded next to the plan in the merge's audit row so a staged
+ * un-merge can replay it backwards.
+ */
+export interface ConceptMergeUndoRecord {
+  instance_ids: string[];
+  merged_properties: Array<{
+    property_id: string;
+    survivor_property_id: string;
+    filler_ids: string[];
+    /** Groups whose membership moved to the survivor property. */
+    moved_group_ids: string[];
+    /** Groups the survivor property was already in; the loser's membership was deleted. */
+    dropped_group_ids: string[];
+  }>;
+  /** Every mapping in `property_mappings`, as it was before the merge. */
+  property_mappings: Array<{
+    id: string;
+    parent_concept_id: string;
+    child_concept_id: string;
+    parent_property_label: string;
+    child_property_label: string | null;
+    is_absorbed: boolean | null;
+    incorporated_value: string | null;
+    model: string | null;
+    run_id: string;
+  }>;
+}
+
+export interface ConceptUnmergeResult {
+  changeset_id: string;
+  loser_id: string;
+  survivor_id: string;
+  restored_instances: number;
+  restored_sense_links: number;
+  restored_edges: number;
+  restored_properties: number;
+}
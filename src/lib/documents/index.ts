@@ -14,3 +14,16 @@ export type {
   HeadingLevel,
   SourceType,
 } from './schema';
+export {
+  detectDocumentFormat,
+  normalizeDocument,
+  normalizeHtml,
+  normalizeJats,
+  normalizeJsonDocument,
+  normalizePlainText,
+  normalizedDocumentSchema,
+  DocumentIngestionError,
+  DOCUMENT_FORMATS,
+  FORMAT_CONTENT_TYPES,
+} from './normalize';
+export type { DocumentFormat, NormalizeOptions } from './normalize';
@@ -0,0 +1,296 @@
+/**
+ * Source document ingestion: raw upload → NormalizedDocument → document
+ * index → `source_texts` row attached to a knowledge graph.
+ *
+ * source_texts has no graph foreign key (instances carry
+ * `knowledge_graph_id`), so the target graph is recorded in
+ * `metadata.knowledge_graph_id`. Extraction jobs read it from there when
+ * creating instances for the source.
+ *
+ * Re-uploading a document with the same source URI never touches the
+ * existing row: instance mentions hold character offsets into its content
+ * and instances are already attached to its graph. Identical bytes return
+ * the latest row as is; changed content becomes a new row that records the
+ * row it supersedes in `metadata.previous_source_text_id`.
+ */
+
+import { createHash } from 'crypto';
+import { PutObjectCommand } from '@aws-sdk/client-s3';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getPublicUrl, getS3Client } from '@/lib/chat/s3';
+import { buildDocumentIndex } from './build-document-index';
+import {
+  detectDocumentFormat,
+  DocumentIngestionError,
+  FORMAT_CONTENT_TYPES,
+  normalizeDocument,
+  type DocumentFormat,
+} from './normalize';
+import type { NormalizedDocument, SourceType } from './schema';
+
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+const SOURCE_TYPE_CONTENT_TYPES: Record<SourceType, string> = {
+  web: 'text/html',
+  wikipedia: 'text/html',
+  pdf: 'application/pdf',
+  jats: 'application/xml+jats',
+};
+
+const FORMAT_EXTENSIONS: Record<DocumentFormat, string> = {
+  html: 'html',
+  text: 'txt',
+  jats: 'xml',
+  json: 'json',
+};
+
+export interface IngestDocumentInput {
+  /** Raw file contents. */
+  content: string;
+  filename?: string | null;
+  mimeType?: string | null;
+  /** Skip detection and force a format. */
+  format?: DocumentFormat | null;
+  /** Overrides any URL found in the document (canonical link, DOI, ...). */
+  sourceUri?: string | null;
+  /** Overrides the title found in the document. */
+  title?: string | null;
+  /** Attach to this graph... */
+  knowledgeGraphId?: bigint | null;
+  /** ...or to the graph with this label, creating it if needed. */
+  newGraphLabel?: string | null;
+  newGraphDescription?: string | null;
+  ingestedBy: string;
+}
+
+export interface IngestDocumentResult {
+  sourceTextId: string;
+  sourceUri: string;
+  /** False when the latest row for the URI already had these bytes. */
+  created: boolean;
+  /** Row this one supersedes when the URI had been ingested before. */
+  previousSourceTextId: string | null;
+  format: DocumentFormat;
+  title: string | null;
+  contentType: string;
+  artifactUri: string | null;
+  knowledgeGraph: { id: string; label: string; created: boolean };
+  sectionCount: number;
+  blockCount: number;
+  characterCount: number;
+}
+
+/**
+ * Store the raw upload in S3, keyed by content hash so re-uploads of the
+ * same bytes don't pile up. Returns null when S3 isn't configured; the
+ * source row is still written, just without an artifact.
+ */
+async function storeArtifact(
+  content: string,
+  sha256: string,
+  format: DocumentFormat,
+): Promise<string | null> {
+  const s3 = getS3Client();
+  const bucket = process.env.S3_BUCKET_NAME;
+  if (!s3 || !bucket) return null;
+
+  const key = `source-artifacts/${sha256}.${FORMAT_EXTENSIONS[format]}`;
+  await s3.send(
+    new PutObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      Body: content,
+      ContentType: `${FORMAT_CONTENT_TYPES[format]}; charset=utf-8`,
+    }),
+  );
+  return getPublicUrl(key);
+}
+
+function documentTitle(doc: NormalizedDocument): string | null {
+  const title = doc.metadata?.title;
+  return typeof title === 'string' && title.trim() ? title.trim() : null;
+}
+
+function jsonObject(value: Prisma.JsonValue | null | undefined): Prisma.JsonObject {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Prisma.JsonObject) : {};
+}
+
+type LatestSourceText = {
+  id: bigint;
+  content: string;
+  content_type: string | null;
+  artifact_uri: string | null;
+  document_index: Prisma.JsonValue | null;
+  metadata: Prisma.JsonValue | null;
+};
+
+/**
+ * Result for a re-upload whose bytes match the latest row for the URI, or
+ * null when that row's graph can no longer be resolved (it is then
+ * superseded like any changed document).
+ */
+async function unchangedResult(
+  tx: Prisma.TransactionClient,
+  latest: LatestSourceText,
+  sourceUri: string,
+  format: DocumentFormat,
+): Promise<IngestDocumentResult | null> {
+  const metadata = jsonObject(latest.metadata);
+  const graphId = metadata.knowledge_graph_id;
+  if (typeof graphId !== 'string' || !/^\d+$/.test(graphId)) return null;
+  const graph = await tx.knowledge_graphs.findUnique({
+    where: { id: BigInt(graphId) },
+    select: { id: true, label: true },
+  });
+  if (!graph) return null;
+
+  const index = jsonObject(latest.document_index);
+  const previousId = metadata.previous_source_text_id;
+  return {
+    sourceTextId: latest.id.toString(),
+    sourceUri,
+    created: false,
+    previousSourceTextId: typeof previousId === 'string' ? previousId : null,
+    format,
+    title: typeof metadata.title === 'string' ? metadata.title : null,
+    contentType: latest.content_type ?? FORMAT_CONTENT_TYPES[format],
+    artifactUri: latest.artifact_uri,
+    knowledgeGraph: { id: graph.id.toString(), label: graph.label, created: false },
+    sectionCount: Array.isArray(index.sections) ? index.sections.length : 0,
+    blockCount: Array.isArray(index.blocks) ? index.blocks.length : 0,
+    characterCount: latest.content.length,
+  };
+}
+
+export async function ingestSourceDocument(input: IngestDocumentInput): Promise<IngestDocumentResult> {
+  if (!input.content.trim()) {
+    throw new DocumentIngestionError('Document is empty');
+  }
+  if (Buffer.byteLength(input.content, 'utf8') > MAX_DOCUMENT_BYTES) {
+    throw new DocumentIngestionError('Document exceeds the 20MB upload limit');
+  }
+  const graphLabel = input.newGraphLabel?.trim() || null;
+  if (input.knowledgeGraphId == null && !graphLabel) {
+    throw new DocumentIngestionError('Choose a knowledge graph or give a label for a new one');
+  }
+
+  const format = input.format ?? detectDocumentFormat(input);
+  const sha256 = createHash('sha256').update(input.content).digest('hex');
+  const doc = normalizeDocument(input.content, format, {
+    url: input.sourceUri?.trim() || null,
+    fallbackUrl: `upload:sha256:${sha256.slice(0, 16)}`,
+  });
+
+  const { canonicalText, documentIndex } = buildDocumentIndex(doc);
+  if (!canonicalText.trim()) {
+    throw new DocumentIngestionError('Document has no text after normalization');
+  }
+
+  const title = input.title?.trim() || documentTitle(doc);
+  const contentType =
+    format === 'json' ? SOURCE_TYPE_CONTENT_TYPES[doc.source_type] : FORMAT_CONTENT_TYPES[format];
+
+  if (input.knowledgeGraphId != null) {
+    const exists = await prisma.knowledge_graphs.findUnique({
+      where: { id: input.knowledgeGraphId },
+      select: { id: true },
+    });
+    if (!exists) {
+      throw new DocumentIngestionError(`Knowledge graph ${input.knowledgeGraphId} not found`);
+    }
+  }
+
+  const artifactUri = await storeArtifact(input.content, sha256, format);
+
+  return prisma.$transaction(
+    async (tx) => {
+      const latest = await tx.source_texts.findFirst({
+        where: { source_uri: doc.url },
+        select: {
+          id: true,
+          content: true,
+          content_type: true,
+          artifact_uri: true,
+          document_index: true,
+          metadata: true,
+        },
+        orderBy: { id: 'desc' },
+      });
+      const latestIngestion = jsonObject(jsonObject(latest?.metadata).ingestion);
+      if (latest && latestIngestion.sha256 === sha256) {
+        const unchanged = await unchangedResult(tx, latest, doc.url, format);
+        if (unchanged) return unchanged;
+      }
+
+      let graph: { id: bigint; label: string };
+      let graphCreated = false;
+      if (input.knowledgeGraphId != null) {
+        graph = await tx.knowledge_graphs.findUniqueOrThrow({
+          where: { id: input.knowledgeGraphId },
+          select: { id: true, label: true },
+        });
+      } else {
+        const existingGraph = await tx.knowledge_graphs.findFirst({
+          where: { label: graphLabel! },
+          select: { id: true, label: true },
+        });
+        if (existingGraph) {
+          graph = existingGraph;
+        } else {
+          graph = await tx.knowledge_graphs.create({
+            data: {
+              label: graphLabel!,
+              description: input.newGraphDescription?.trim() || null,
+            },
+            select: { id: true, label: true },
+          });
+          graphCreated = true;
+        }
+      }
+
+      const metadata = {
+        ...(doc.metadata ?? {}),
+        title,
+        knowledge_graph_id: graph.id.toString(),
+        previous_source_text_id: latest ? latest.id.toString() : null,
+        ingestion: {
+          format,
+          filename: input.filename ?? null,
+          sha256,
+          normalized_at: doc.normalized_at,
+          ingested_by: input.ingestedBy,
+          ingested_at: new Date().toISOString(),
+        },
+      } as Prisma.InputJsonObject;
+
+      const source = await tx.source_texts.create({
+        data: {
+          content: canonicalText,
+          source_uri: doc.url,
+          content_type: contentType,
+          artifact_uri: artifactUri,
+          document_index: documentIndex as unknown as Prisma.InputJsonObject,
+          metadata,
+        },
+        select: { id: true, artifact_uri: true },
+      });
+
+      return {
+        sourceTextId: source.id.toString(),
+        sourceUri: doc.url,
+        created: true,
+        previousSourceTextId: latest ? latest.id.toString() : null,
+        format,
+        title,
+        contentType,
+        artifactUri: source.artifact_uri,
+        knowledgeGraph: { id: graph.id.toString(), label: graph.label, created: graphCreated },
+        sectionCount: documentIndex.sections.length,
+        blockCount: documentIndex.blocks.length,
+        characterCount: canonicalText.length,
+      };
+    },
+    { timeout: 30_000, maxWait: 10_000 },
+  );
+}
@@ -0,0 +1,6 @@
+export class DocumentIngestionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentIngestionError';
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * HTML → NormalizedDocument.
+ *
+ * Content is taken from the first `<article>`, else `<main>`, else the whole
+ * body. h1–h6 open sections; p / li / blockquote / table rows etc. become
+ * paragraphs. The first h1 seen before any body text is treated as the page
+ * title rather than a section.
+ */
+
+import type { HeadingLevel, NormalizedDocument } from '../schema';
+import { DocumentIngestionError } from './errors';
+import { collapseWhitespace, SectionBuilder, tokenizeMarkup, type MarkupToken } from './markup';
+import type { NormalizeOptions } from './types';
+
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea']);
+
+const SKIPPED_TAGS = new Set([
+  'head',
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'math',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'form',
+  'button',
+  'select',
+  'textarea',
+  'iframe',
+]);
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'li', 'ul', 'ol', 'dl', 'dt', 'dd', 'blockquote',
+  'pre', 'table', 'thead', 'tbody', 'tr', 'figure', 'figcaption', 'hr', 'address', 'details', 'summary',
+]);
+
+const HEADING_TAGS: Record<string, HeadingLevel> = {
+  h1: 'h1', h2: 'h2', h3: 'h3', h4: 'h4', h5: 'h5', h6: 'h6',
+};
+
+function resolveHref(href: string, base: string | null): string {
+  if (!base) return href;
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return href;
+  }
+}
+
+/** Narrow the token stream to the first <article>, else <main>, else everything. */
+function contentScope(tokens: MarkupToken[]): MarkupToken[] {
+  for (const container of ['article', 'main']) {
+    const start = tokens.findIndex((t) => t.type === 'open' && t.name === container && !t.selfClosing);
+    if (start === -1) continue;
+    let depth = 0;
+    for (let i = start; i < tokens.length; i++) {
+      const t = tokens[i];
+      if (t.type === 'open' && t.name === container && !t.selfClosing) depth++;
+      if (t.type === 'close' && t.name === container && --depth === 0) {
+        return tokens.slice(start + 1, i);
+      }
+    }
+    return tokens.slice(start + 1);
+  }
+  return tokens;
+}
+
+function readHeadMetadata(tokens: MarkupToken[]): { title: string | null; canonical: string | null } {
+  let title: string | null = null;
+  let canonical: string | null = null;
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.type !== 'open') continue;
+    if (t.name === 'title' && title === null) {
+      const next = tokens[i + 1];
+      if (next?.type === 'text') title = collapseWhitespace(next.text) || null;
+    } else if (t.name === 'link' && t.attrs.rel?.toLowerCase() === 'canonical' && t.attrs.href) {
+      canonical ??= t.attrs.href;
+    } else if (t.name === 'meta' && t.attrs.property === 'og:url' && t.attrs.content) {
+      canonical ??= t.attrs.content;
+    } else if (t.name === 'body') {
+      break;
+    }
+  }
+  return { title, canonical };
+}
+
+export function normalizeHtml(source: string, options: NormalizeOptions): NormalizedDocument {
+  const tokens = tokenizeMarkup(source, RAW_TEXT_TAGS);
+  const head = readHeadMetadata(tokens);
+  const url = options.url ?? head.canonical ?? options.fallbackUrl;
+  const linkBase = /^https?:\/\//.test(url) ? url : null;
+
+  const builder = new SectionBuilder();
+  let title: string | null = null;
+  let skipDepth = 0;
+  let heading: { level: HeadingLevel; text: string } | null = null;
+  let sawBodyText = false;
+
+  for (const token of contentScope(tokens)) {
+    if (token.type === 'open') {
+      if (SKIPPED_TAGS.has(token.name)) {
+        if (!token.selfClosing && !VOID_TAGS.has(token.name)) skipDepth++;
+        continue;
+      }
+      if (skipDepth > 0) continue;
+
+      if (HEADING_TAGS[token.name]) {
+        builder.flush();
+        heading = { level: HEADING_TAGS[token.name], text: '' };
+      } else if (BLOCK_TAGS.has(token.name)) {
+        builder.flush();
+      } else if (token.name === 'br' || token.name === 'td' || token.name === 'th') {
+        if (heading) heading.text += ' ';
+        else builder.text(' ');
+      } else if (token.name === 'a' && token.attrs.href && !heading) {
+        builder.beginLink(resolveHref(token.attrs.href, linkBase));
+      }
+      continue;
+    }
+
+    if (token.type === 'close') {
+      if (SKIPPED_TAGS.has(token.name)) {
+        if (skipDepth > 0) skipDepth--;
+        continue;
+      }
+      if (skipDepth > 0) continue;
+
+      if (HEADING_TAGS[token.name] && heading) {
+        const text = collapseWhitespace(heading.text);
+        if (text) {
+          if (heading.level === 'h1' && title === null && !sawBodyText) {
+            title = text;
+          } else {
+            builder.startSection(text, heading.level);
+          }
+        }
+        heading = null;
+      } else if (BLOCK_TAGS.has(token.name)) {
+        builder.flush();
+      } else if (token.name === 'a') {
+        builder.endLink();
+      }
+      continue;
+    }
+
+    if (skipDepth > 0) continue;
+    if (heading) {
+      heading.text += token.text;
+    } else {
+      builder.text(token.text);
+      if (token.text.trim()) sawBodyText = true;
+    }
+  }
+
+  const sections = builder.build();
+  if (sections.length === 0) {
+    throw new DocumentIngestionError('No readable text found in HTML document');
+  }
+
+  return {
+    url,
+    source_type: 'web',
+    normalized_at: options.normalizedAt ?? new Date().toISOString(),
+    article: { sections },
+    metadata: { title: title ?? head.title },
+  };
+}
@@ -0,0 +1,87 @@
+import type { NormalizedDocument } from '../schema';
+import { DocumentIngestionError } from './errors';
+import { normalizeHtml } from './html';
+import { normalizeJats } from './jats';
+import { normalizeJsonDocument } from './json';
+import { normalizePlainText } from './text';
+import type { DocumentFormat, NormalizeOptions } from './types';
+
+export { DocumentIngestionError } from './errors';
+export { normalizeHtml } from './html';
+export { normalizeJats } from './jats';
+export { normalizeJsonDocument, normalizedDocumentSchema } from './json';
+export { normalizePlainText } from './text';
+export type { DocumentFormat, NormalizeOptions } from './types';
+
+export const DOCUMENT_FORMATS: readonly DocumentFormat[] = ['html', 'text', 'jats', 'json'];
+
+/** content_type stored on source_texts for each upload format. */
+export const FORMAT_CONTENT_TYPES: Record<DocumentFormat, string> = {
+  html: 'text/html',
+  text: 'text/plain',
+  jats: 'application/xml+jats',
+  json: 'application/json',
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  txt: 'text',
+  text: 'text',
+  md: 'text',
+  markdown: 'text',
+  xml: 'jats',
+  nxml: 'jats',
+  jats: 'jats',
+  json: 'json',
+};
+
+/**
+ * Work out the upload format from the file name, MIME type and, failing
+ * those, the first bytes of the content. XML is always treated as JATS;
+ * {@link normalizeJats} rejects anything without an `<article>` root.
+ */
+export function detectDocumentFormat(input: {
+  filename?: string | null;
+  mimeType?: string | null;
+  content: string;
+}): DocumentFormat {
+  const ext = input.filename?.split('.').pop()?.toLowerCase();
+  if (ext && input.filename?.includes('.') && EXTENSION_FORMATS[ext]) {
+    return EXTENSION_FORMATS[ext];
+  }
+
+  const mime = input.mimeType?.split(';')[0].trim().toLowerCase();
+  if (mime === 'text/html' || mime === 'application/xhtml+xml') return 'html';
+  if (mime === 'application/json') return 'json';
+  if (mime === 'application/xml' || mime === 'text/xml' || mime === 'application/jats+xml') return 'jats';
+
+  const head = input.content.trimStart().slice(0, 2048).toLowerCase();
+  if (head.startsWith('{')) return 'json';
+  if (/<!doctype\s+article|<article[\s>]/.test(head) && !/<html[\s>]/.test(head)) return 'jats';
+  if (/^<(!doctype\s+html|html|head|body)[\s>]/.test(head) || /<\/?(p|div|h[1-6])[\s>]/.test(head)) {
+    return 'html';
+  }
+  if (head.startsWith('<?xml')) return 'jats';
+  return 'text';
+}
+
+export function normalizeDocument(
+  source: string,
+  format: DocumentFormat,
+  options: NormalizeOptions,
+): NormalizedDocument {
+  switch (format) {
+    case 'html':
+      return normalizeHtml(source, options);
+    case 'text':
+      return normalizePlainText(source, options);
+    case 'jats':
+      return normalizeJats(source, options);
+    case 'json':
+      return normalizeJsonDocument(source, options);
+    default:
+      throw new DocumentIngestionError(`Unsupported document format: ${String(format)}`);
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * JATS XML → NormalizedDocument.
+ *
+ * TypeScript counterpart of source-normalize's `normalize_jats` for uploads
+ * that can't shell out to Python. Covers the parts the claims pipeline uses:
+ * front-matter title / DOI, the abstract (as an "Abstract" h1 section) and
+ * body `<sec>` nesting mapped to h1–h6. Figures, tables, formulae and back
+ * matter are dropped.
+ */
+
+import type { NormalizedDocument } from '../schema';
+import { DocumentIngestionError } from './errors';
+import { collapseWhitespace, headingLevelForDepth, SectionBuilder, tokenizeMarkup } from './markup';
+import type { NormalizeOptions } from './types';
+
+const SKIPPED_TAGS = new Set([
+  'back',
+  'fig',
+  'fig-group',
+  'table-wrap',
+  'table-wrap-group',
+  'disp-formula',
+  'tex-math',
+  'mml:math',
+  'graphic',
+  'media',
+  'supplementary-material',
+  'ref-list',
+  'fn-group',
+  'label',
+  'object-id',
+]);
+
+const BLOCK_TAGS = new Set(['p', 'list', 'list-item', 'disp-quote', 'def-list', 'def-item', 'boxed-text']);
+
+const LINK_TAGS = new Set(['ext-link', 'uri']);
+
+const SKIPPED_ABSTRACT_TYPES = new Set(['graphical', 'teaser', 'toc']);
+
+export function normalizeJats(source: string, options: NormalizeOptions): NormalizedDocument {
+  const tokens = tokenizeMarkup(source);
+  const builder = new SectionBuilder();
+  const stack: string[] = [];
+
+  let region: 'none' | 'front' | 'abstract' | 'body' = 'none';
+  let skipDepth = 0;
+  let secDepth = 0;
+  let abstractNeedsHeading = false;
+  let sawArticle = false;
+
+  let capture: { kind: 'title' | 'doi' | 'journal' | 'heading'; text: string } | null = null;
+  let title: string | null = null;
+  let doi: string | null = null;
+  let journal: string | null = null;
+
+  const parent = () => stack[stack.length - 1];
+
+  for (const token of tokens) {
+    if (token.type === 'open') {
+      if (token.name === 'article') sawArticle = true;
+
+      if (skipDepth > 0 || SKIPPED_TAGS.has(token.name)) {
+        if (!token.selfClosing) skipDepth++;
+        continue;
+      }
+      if (token.selfClosing) continue;
+
+      const enclosing = parent();
+      stack.push(token.name);
+
+      switch (token.name) {
+        case 'front':
+          region = 'front';
+          break;
+        case 'abstract':
+          if (region === 'front' && !SKIPPED_ABSTRACT_TYPES.has(token.attrs['abstract-type'] ?? '')) {
+            region = 'abstract';
+            secDepth = 1;
+            abstractNeedsHeading = true;
+          } else {
+            // Unwanted abstract variant: skip it like any other dropped element.
+            stack.pop();
+            skipDepth++;
+          }
+          break;
+        case 'body':
+          region = 'body';
+          secDepth = 0;
+          builder.continueSection();
+          break;
+        case 'article-title':
+          if (region === 'front' && enclosing === 'title-group' && title === null) {
+            capture = { kind: 'title', text: '' };
+          }
+          break;
+        case 'journal-title':
+          if (region === 'front' && journal === null) capture = { kind: 'journal', text: '' };
+          break;
+        case 'article-id':
+          if (region === 'front' && token.attrs['pub-id-type'] === 'doi' && doi === null) {
+            capture = { kind: 'doi', text: '' };
+          }
+          break;
+        case 'sec':
+          if (region === 'abstract' && abstractNeedsHeading) {
+            builder.startSection('Abstract', 'h1');
+            abstractNeedsHeading = false;
+          }
+          if (region === 'body' || region === 'abstract') secDepth++;
+          break;
+        case 'title':
+          if ((region === 'body' && enclosing === 'sec') || (region === 'abstract' && (enclosing === 'sec' || enclosing === 'abstract'))) {
+            builder.flush();
+            capture = { kind: 'heading', text: '' };
+          }
+          break;
+        default:
+          if (region === 'body' || region === 'abstract') {
+            if (BLOCK_TAGS.has(token.name)) {
+              if (region === 'abstract' && abstractNeedsHeading) {
+                builder.startSection('Abstract', 'h1');
+                abstractNeedsHeading = false;
+              }
+              builder.flush();
+            } else if (LINK_TAGS.has(token.name) && token.attrs['xlink:href'] && !capture) {
+              builder.beginLink(token.attrs['xlink:href']);
+            }
+          }
+      }
+      continue;
+    }
+
+    if (token.type === 'close') {
+      // JATS is well-formed XML, so every open inside a dropped element
+      // has a matching close.
+      if (skipDepth > 0) {
+        skipDepth--;
+        continue;
+      }
+
+      const idx = stack.lastIndexOf(token.name);
+      if (idx === -1) continue;
+      stack.length = idx;
+      const enclosing = parent();
+
+      if (capture) {
+        const text = collapseWhitespace(capture.text);
+        const closesCapture =
+          (capture.kind === 'title' && token.name === 'article-title') ||
+          (capture.kind === 'journal' && token.name === 'journal-title') ||
+          (capture.kind === 'doi' && token.name === 'article-id') ||
+          (capture.kind === 'heading' && token.name === 'title');
+        if (closesCapture) {
+          if (capture.kind === 'title') title = text || null;
+          else if (capture.kind === 'journal') journal = text || null;
+          else if (capture.kind === 'doi') doi = text || null;
+          else if (text) {
+            if (region === 'abstract' && enclosing === 'abstract') {
+              builder.startSection(text, 'h1');
+              abstractNeedsHeading = false;
+            } else {
+              builder.startSection(text, headingLevelForDepth(secDepth));
+            }
+          }
+          capture = null;
+          continue;
+        }
+      }
+
+      switch (token.name) {
+        case 'front':
+        case 'body':
+          builder.flush();
+          region = 'none';
+          break;
+        case 'abstract':
+          builder.flush();
+          region = 'front';
+          break;
+        case 'sec':
+          if (region === 'body' || region === 'abstract') {
+            secDepth--;
+            builder.continueSection();
+          }
+          break;
+        default:
+          if (BLOCK_TAGS.has(token.name)) builder.flush();
+          else if (LINK_TAGS.has(token.name)) builder.endLink();
+      }
+      continue;
+    }
+
+    if (skipDepth > 0) continue;
+    if (capture) {
+      capture.text += token.text;
+    } else if (region === 'body' || region === 'abstract') {
+      if (region === 'abstract' && abstractNeedsHeading && token.text.trim()) {
+        builder.startSection('Abstract', 'h1');
+        abstractNeedsHeading = false;
+      }
+      builder.text(token.text);
+    }
+  }
+
+  if (!sawArticle) {
+    throw new DocumentIngestionError('Not a JATS document: no <article> element found');
+  }
+  const sections = builder.build();
+  if (sections.length === 0) {
+    throw new DocumentIngestionError('JATS document has no abstract or body text');
+  }
+
+  return {
+    url: options.url ?? (doi ? `doi:${doi}` : options.fallbackUrl),
+    source_type: 'jats',
+    normalized_at: options.normalizedAt ?? new Date().toISOString(),
+    article: { sections },
+    metadata: { title, doi, journal },
+  };
+}
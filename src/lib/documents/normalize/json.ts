@@ -0,0 +1,62 @@
+/**
+ * Already-normalized JSON (e.g. source-normalize output) → NormalizedDocument.
+ *
+ * The payload is validated rather than trusted: everything downstream
+ * computes offsets from it, so a malformed paragraph would corrupt the
+ * document index.
+ */
+
+import { z } from 'zod';
+import type { NormalizedDocument } from '../schema';
+import { DocumentIngestionError } from './errors';
+import type { NormalizeOptions } from './types';
+
+const linkSchema = z.object({ text: z.string(), url: z.string() });
+
+const paragraphSchema = z.object({
+  text: z.string(),
+  links: z.array(linkSchema).optional(),
+  page: z.number().int().positive().optional(),
+  page_end: z.number().int().positive().optional(),
+});
+
+const sectionSchema = z.object({
+  heading: z.string(),
+  heading_level: z.enum(['intro', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']),
+  paragraphs: z.array(paragraphSchema),
+  heading_page: z.number().int().positive().optional(),
+});
+
+export const normalizedDocumentSchema = z.object({
+  url: z.string(),
+  source_type: z.enum(['web', 'pdf', 'wikipedia', 'jats']),
+  normalized_at: z.string(),
+  article: z.object({ sections: z.array(sectionSchema).min(1) }),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export function normalizeJsonDocument(source: string, options: NormalizeOptions): NormalizedDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch (err) {
+    throw new DocumentIngestionError(
+      `Invalid JSON: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  const parsed = normalizedDocumentSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new DocumentIngestionError(
+      `Not a NormalizedDocument: ${issue.path.join('.') || '(root)'}: ${issue.message}`,
+    );
+  }
+
+  const doc = parsed.data;
+  return {
+    ...doc,
+    url: options.url ?? (doc.url || options.fallbackUrl),
+    normalized_at: doc.normalized_at || options.normalizedAt || new Date().toISOString(),
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * Minimal tag tokenizer shared by the HTML and JATS normalizers.
+ *
+ * This is not a conforming HTML or XML parser. It only needs to recover
+ * heading / paragraph structure and link targets from reasonably well-formed
+ * markup, so it tolerates unclosed tags and ignores everything it does not
+ * understand (comments, doctypes, processing instructions).
+ */
+
+import type { HeadingLevel, Link, Paragraph, Section } from '../schema';
+
+export type MarkupToken =
+  | { type: 'open'; name: string; attrs: Record<string, string>; selfClosing: boolean }
+  | { type: 'close'; name: string }
+  | { type: 'text'; text: string };
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  middot: '·',
+  bull: '•',
+  deg: '°',
+  plusmn: '±',
+  times: '×',
+  divide: '÷',
+  micro: 'µ',
+  le: '≤',
+  ge: '≥',
+  ne: '≠',
+  alpha: 'α',
+  beta: 'β',
+  gamma: 'γ',
+  delta: 'δ',
+  kappa: 'κ',
+  lambda: 'λ',
+  mu: 'μ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  shy: '',
+  zwnj: '',
+  zwj: '',
+};
+
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z][a-z0-9]*);/gi, (match, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X'
+        ? parseInt(body.slice(2), 16)
+        : parseInt(body.slice(1), 10);
+      if (!Number.isFinite(code) || code < 0 || code > 0x10ffff) return match;
+      return String.fromCodePoint(code);
+    }
+    const named = NAMED_ENTITIES[body.toLowerCase()];
+    return named ?? match;
+  });
+}
+
+/** Collapse runs of whitespace (including newlines) to single spaces. */
+export function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /([^\s=/"'>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(source)) !== null) {
+    const name = match[1].toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    attrs[name] = decodeEntities(value);
+  }
+  return attrs;
+}
+
+/**
+ * Split markup into open / close / text tokens. Tag names are lower-cased;
+ * namespace prefixes are kept (`xlink:href`, `mml:math`).
+ *
+ * `rawTextTags` are elements whose content is skipped verbatim up to the
+ * matching close tag (e.g. `script` / `style` in HTML), so stray `<` inside
+ * them can't derail the scan.
+ */
+export function tokenizeMarkup(
+  source: string,
+  rawTextTags: ReadonlySet<string> = new Set(),
+): MarkupToken[] {
+  const tokens: MarkupToken[] = [];
+  let pos = 0;
+
+  const pushText = (text: string) => {
+    if (text) tokens.push({ type: 'text', text: decodeEntities(text) });
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    if (lt === -1) {
+      pushText(source.slice(pos));
+      break;
+    }
+    pushText(source.slice(pos, lt));
+
+    if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt + 4);
+      pos = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt + 9);
+      const text = source.slice(lt + 9, end === -1 ? source.length : end);
+      if (text) tokens.push({ type: 'text', text });
+      pos = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source[lt + 1] === '!' || source[lt + 1] === '?') {
+      const end = source.indexOf('>', lt + 2);
+      pos = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    const end = source.indexOf('>', lt + 1);
+    if (end === -1) {
+      pushText(source.slice(lt));
+      break;
+    }
+    const inner = source.slice(lt + 1, end);
+    pos = end + 1;
+
+    if (inner.startsWith('/')) {
+      const name = inner.slice(1).trim().toLowerCase();
+      if (name) tokens.push({ type: 'close', name });
+      continue;
+    }
+
+    const nameMatch = /^([a-zA-Z][\w:.-]*)/.exec(inner);
+    if (!nameMatch) {
+      // Not a tag after all ("a < b"); keep it as text.
+      pushText(source.slice(lt, end + 1));
+      continue;
+    }
+    const name = nameMatch[1].toLowerCase();
+    const selfClosing = inner.endsWith('/');
+    const attrSource = inner.slice(nameMatch[1].length, selfClosing ? -1 : undefined);
+    tokens.push({ type: 'open', name, attrs: parseAttributes(attrSource), selfClosing });
+
+    if (!selfClosing && rawTextTags.has(name)) {
+      const closeRe = new RegExp(`</${name}\\s*>`, 'i');
+      const rest = closeRe.exec(source.slice(pos));
+      pos = rest ? pos + rest.index + rest[0].length : source.length;
+      tokens.push({ type: 'close', name });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Accumulates inline text into paragraphs and paragraphs into sections.
+ *
+ * Both markup normalizers walk the token stream and tell the builder where
+ * block boundaries and headings are; the builder owns whitespace handling
+ * and link bookkeeping so the two stay consistent.
+ */
+export class SectionBuilder {
+  private sections: Section[] = [{ heading: '', heading_level: 'intro', paragraphs: [] }];
+  private buffer = '';
+  private links: Link[] = [];
+  private openLink: { url: string; start: number } | null = null;
+
+  /** Append inline text to the paragraph being built. */
+  text(value: string): void {
+    this.buffer += value;
+  }
+
+  beginLink(url: string): void {
+    this.openLink = { url, start: this.buffer.length };
+  }
+
+  endLink(): void {
+    if (!this.openLink) return;
+    const text = collapseWhitespace(this.buffer.slice(this.openLink.start));
+    if (text && this.openLink.url) {
+      this.links.push({ text, url: this.openLink.url });
+    }
+    this.openLink = null;
+  }
+
+  /** Close the current paragraph, if it has any text. */
+  flush(): void {
+    this.endLink();
+    const text = collapseWhitespace(this.buffer);
+    if (text) {
+      const paragraph: Paragraph = { text };
+      if (this.links.length > 0) paragraph.links = this.links;
+      this.current().paragraphs.push(paragraph);
+    }
+    this.buffer = '';
+    this.links = [];
+  }
+
+  /** Start a new section. Pending paragraph text goes to the previous one. */
+  startSection(heading: string, level: HeadingLevel): void {
+    this.flush();
+    this.sections.push({ heading: collapseWhitespace(heading), heading_level: level, paragraphs: [] });
+  }
+
+  /**
+   * Start an untitled continuation section, used when body text resumes
+   * after a nested section has closed.
+   */
+  continueSection(): void {
+    this.flush();
+    const last = this.current();
+    if (last.paragraphs.length === 0 && !last.heading) return;
+    this.sections.push({ heading: '', heading_level: 'intro', paragraphs: [] });
+  }
+
+  build(): Section[] {
+    this.flush();
+    return this.sections.filter(
+      (s) => s.paragraphs.length > 0 || (s.heading && s.heading_level !== 'intro'),
+    );
+  }
+
+  private current(): Section {
+    return this.sections[this.sections.length - 1];
+  }
+}
+
+export function headingLevelForDepth(depth: number): HeadingLevel {
+  const clamped = Math.max(1, Math.min(6, depth));
+  return `h${clamped}` as HeadingLevel;
+}
@@ -0,0 +1,55 @@
+/**
+ * Plain text → NormalizedDocument.
+ *
+ * Paragraphs are separated by blank lines. Markdown-style `#` headings start
+ * sections (one `#` per level); the first top-level heading before any body
+ * text is taken as the title. Single line breaks inside a paragraph are
+ * folded to spaces.
+ */
+
+import type { NormalizedDocument } from '../schema';
+import { DocumentIngestionError } from './errors';
+import { collapseWhitespace, headingLevelForDepth, SectionBuilder } from './markup';
+import type { NormalizeOptions } from './types';
+
+const HEADING_RE = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+export function normalizePlainText(source: string, options: NormalizeOptions): NormalizedDocument {
+  const builder = new SectionBuilder();
+  let title: string | null = null;
+  let sawBodyText = false;
+
+  for (const line of source.replace(/\r\n?/g, '\n').split('\n')) {
+    const heading = HEADING_RE.exec(line);
+    if (heading) {
+      const text = collapseWhitespace(heading[2]);
+      if (heading[1].length === 1 && title === null && !sawBodyText) {
+        title = text;
+      } else {
+        builder.startSection(text, headingLevelForDepth(heading[1].length));
+      }
+      continue;
+    }
+    if (!line.trim()) {
+      builder.flush();
+      continue;
+    }
+    builder.text(line + '\n');
+    sawBodyText = true;
+  }
+
+  const sections = builder.build();
+  if (sections.length === 0) {
+    throw new DocumentIngestionError('Text document is empty');
+  }
+
+  return {
+    url: options.url ?? options.fallbackUrl,
+    // NormalizedDocument has no plain-text source type; text uploads follow
+    // the web normalizer's conventions and keep text/plain as content_type.
+    source_type: 'web',
+    normalized_at: options.normalizedAt ?? new Date().toISOString(),
+    article: { sections },
+    metadata: { title },
+  };
+}
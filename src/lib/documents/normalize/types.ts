@@ -0,0 +1,10 @@
+export type DocumentFormat = 'html' | 'text' | 'jats' | 'json';
+
+export interface NormalizeOptions {
+  /** Explicit document URL / URI; wins over anything found in the source. */
+  url?: string | null;
+  /** Used when neither `url` nor the source itself names the document. */
+  fallbackUrl: string;
+  /** Defaults to now. */
+  normalizedAt?: string;
+}
@@ -0,0 +1,493 @@
+/**
+ * Near-duplicate detection (migrations/add_duplicate_detection.sql).
+ *
+ * A run works in two steps. SQL proposes pairs cheaply, always within one
+ * scope (concepts: same archetype and subtype; senses: linked to the same
+ * live concept with the same part of speech):
+ *
+ *   - concepts: embedding nearest neighbours, identical normalized labels,
+ *     or two or more shared lexical units (through their senses);
+ *   - senses:   embedding nearest neighbours, overlapping lemmas,
+ *     identical normalized definitions, or a shared lexical unit.
+ *
+ * Each pair is then scored from its signals (see `scoreDuplicateSignals`)
+ * and kept when the score reaches `min_score`. Candidates are upserted on
+ * the pair, so their review status survives re-runs.
+ */
+
+import { Prisma, type duplicate_detection_runs } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type {
+  DetectDuplicatesOptions,
+  DuplicateDetectionRun,
+  DuplicateEntityType,
+  DuplicateSignal,
+} from './types';
+
+/** Invalid duplicate request; `statusCode` is what the routes answer with. */
+export class DuplicateError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'DuplicateError';
+  }
+}
+
+const DEFAULT_OPTIONS: Required<DetectDuplicatesOptions> = {
+  min_similarity: 0.9,
+  neighbors: 5,
+  min_score: 0.5,
+  limit: 2000,
+};
+
+/** Signal weights; a signal that cannot be computed drops out and the rest are rescaled. */
+const SIGNAL_WEIGHTS: Record<DuplicateSignal['kind'], number> = {
+  embedding: 0.4,
+  label: 0.25,
+  definition: 0.15,
+  lexical_units: 0.2,
+};
+
+const MAX_SHARED_LISTED = 10;
+const UPSERT_CHUNK = 200;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it',
+  'of', 'on', 'or', 'something', 'someone', 'that', 'the', 'to', 'which', 'with',
+]);
+
+/** Label comparison in SQL: case-insensitive, punctuation and underscores as spaces. */
+const normalized = (column: Prisma.Sql) =>
+  Prisma.sql`lower(trim(regexp_replace(${column}, '[^[:alnum:]]+', ' ', 'g')))`;
+
+export function resolveDetectOptions(input: unknown): Required<DetectDuplicatesOptions> {
+  if (input == null) return { ...DEFAULT_OPTIONS };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new DuplicateError('options must be an object');
+  }
+  const raw = input as Record<string, unknown>;
+  const number = (key: keyof DetectDuplicatesOptions, min: number, max: number, integer = false) => {
+    const value = raw[key];
+    if (value == null) return DEFAULT_OPTIONS[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max
+      || (integer && !Number.isInteger(value))) {
+      throw new DuplicateError(`${key} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}`);
+    }
+    return value;
+  };
+  return {
+    min_similarity: number('min_similarity', 0, 1),
+    neighbors: number('neighbors', 1, 50, true),
+    min_score: number('min_score', 0, 1),
+    limit: number('limit', 1, 20000, true),
+  };
+}
+
+// ============================================
+// Signals and scoring
+// ============================================
+
+function words(text: string | null | undefined, dropStopWords = false): Set<string> {
+  const tokens = (text ?? '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  return new Set(dropStopWords ? tokens.filter((t) => !STOP_WORDS.has(t)) : tokens);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): { overlap: number; shared: string[] } | null {
+  if (a.size === 0 || b.size === 0) return null;
+  const shared = [...a].filter((x) => b.has(x)).sort();
+  return { overlap: shared.length / (a.size + b.size - shared.length), shared };
+}
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+function signalValue(signal: DuplicateSignal): number {
+  return signal.kind === 'embedding' ? signal.similarity : signal.overlap;
+}
+
+/**
+ * Weighted mean of the signals present (0-1). A pair with no embedding
+ * (either side not embedded yet) is scored on the text signals alone.
+ */
+export function scoreDuplicateSignals(signals: DuplicateSignal[]): number {
+  let total = 0;
+  let weight = 0;
+  for (const signal of signals) {
+    total += SIGNAL_WEIGHTS[signal.kind] * Math.max(0, signalValue(signal));
+    weight += SIGNAL_WEIGHTS[signal.kind];
+  }
+  return weight === 0 ? 0 : round(total / weight);
+}
+
+const percent = (n: number) => `${Math.round(n * 100)}%`;
+
+function listed(values: string[]): string {
+  const shown = values.slice(0, 5).join(', ');
+  return values.length > 5 ? `${shown} (+${values.length - 5} more)` : shown;
+}
+
+/** Plain-language reasons, strongest signal first; weak signals are left out. */
+export function explainDuplicateSignals(entityType: DuplicateEntityType, signals: DuplicateSignal[]): string[] {
+  const reasons: Array<{ strength: number; text: string }> = [];
+  for (const signal of signals) {
+    switch (signal.kind) {
+      case 'embedding':
+        if (signal.similarity >= 0.8) {
+          reasons.push({ strength: signal.similarity, text: `Embeddings are ${percent(signal.similarity)} similar` });
+        }
+        break;
+      case 'label':
+        if (signal.overlap === 1) {
+          reasons.push({ strength: 1, text: entityType === 'concept' ? 'Labels are identical' : 'Lemmas are identical' });
+        } else if (signal.shared.length > 0) {
+          reasons.push({
+            strength: signal.overlap,
+            text: entityType === 'concept'
+              ? `Labels share ${listed(signal.shared)}`
+              : `Shared lemmas: ${listed(signal.shared)}`,
+          });
+        }
+        break;
+      case 'definition':
+        if (signal.overlap === 1) {
+          reasons.push({ strength: 1, text: 'Definitions use the same words' });
+        } else if (signal.overlap >= 0.3) {
+          reasons.push({ strength: signal.overlap, text: `Definitions overlap ${percent(signal.overlap)}` });
+        }
+        break;
+      case 'lexical_units':
+        if (signal.shared.length > 0) {
+          reasons.push({
+            strength: signal.overlap,
+            text: `Both linked to lexical unit${signal.shared.length === 1 ? '' : 's'} ${listed(signal.shared)}`,
+          });
+        }
+        break;
+    }
+  }
+  return reasons.sort((a, b) => b.strength - a.strength).map((r) => r.text);
+}
+
+// ============================================
+// Candidate generation
+// ============================================
+
+type PairRow = { a_id: bigint; b_id: bigint; scope_key: string; similarity: number | null };
+
+interface EntityFeatures {
+  label: Set<string>;
+  definition: Set<string>;
+  lexicalUnits: Set<string>;
+}
+
+export interface ScoredPair {
+  a_id: bigint;
+  b_id: bigint;
+  scope_key: string;
+  score: number;
+  signals: DuplicateSignal[];
+}
+
+async function conceptPairs(options: Required<DetectDuplicatesOptions>): Promise<PairRow[]> {
+  const live = (alias: string) =>
+    Prisma.sql`${Prisma.raw(alias)}.deleted = false AND ${Prisma.raw(alias)}.merged_into IS NULL`;
+  const sameScope = (a: string, b: string) => Prisma.sql`
+    ${Prisma.raw(a)}.archetype IS NOT DISTINCT FROM ${Prisma.raw(b)}.archetype
+    AND ${Prisma.raw(a)}.subtype IS NOT DISTINCT FROM ${Prisma.raw(b)}.subtype`;
+
+  return prisma.$queryRaw<PairRow[]>`
+    WITH knn AS (
+      SELECT c.id AS a, n.id AS b
+      FROM concepts c
+      CROSS JOIN LATERAL (
+        SELECT x.id, x.embedding <=> c.embedding AS distance
+        FROM concepts x
+        WHERE x.id <> c.id AND ${live('x')} AND x.embedding IS NOT NULL AND ${sameScope('x', 'c')}
+        ORDER BY x.embedding <=> c.embedding
+        LIMIT ${options.neighbors}
+      ) n
+      WHERE ${live('c')} AND c.embedding IS NOT NULL AND 1 - n.distance >= ${options.min_similarity}
+    ),
+    labels AS (
+      SELECT c.id AS a, x.id AS b
+      FROM concepts c
+      JOIN concepts x
+        ON x.id > c.id
+       AND ${normalized(Prisma.sql`x.label`)} = ${normalized(Prisma.sql`c.label`)}
+       AND ${sameScope('x', 'c')}
+      WHERE ${live('c')} AND ${live('x')}
+    ),
+    shared_lus AS (
+      SELECT sc1.concept_id AS a, sc2.concept_id AS b
+      FROM sense_concepts sc1
+      JOIN lexical_unit_senses l1 ON l1.sense_id = sc1.sense_id
+      JOIN lexical_unit_senses l2 ON l2.lexical_unit_id = l1.lexical_unit_id
+      JOIN sense_concepts sc2 ON sc2.sense_id = l2.sense_id AND sc2.concept_id > sc1.concept_id
+      GROUP BY sc1.concept_id, sc2.concept_id
+      HAVING count(DISTINCT l1.lexical_unit_id) >= 2
+    ),
+    pairs AS (
+      SELECT DISTINCT least(a, b) AS a_id, greatest(a, b) AS b_id
+      FROM (
+        SELECT a, b FROM knn
+        UNION ALL SELECT a, b FROM labels
+        UNION ALL SELECT a, b FROM shared_lus
+      ) p
+    )
+    SELECT p.a_id, p.b_id,
+           coalesce(ca.archetype::text, '-') || '/' || coalesce(ca.subtype::text, '-') AS scope_key,
+           CASE WHEN ca.embedding IS NOT NULL AND cb.embedding IS NOT NULL
+                THEN 1 - (ca.embedding <=> cb.embedding) END AS similarity
+    FROM pairs p
+    JOIN concepts ca ON ca.id = p.a_id
+    JOIN concepts cb ON cb.id = p.b_id
+    WHERE ${live('ca')} AND ${live('cb')} AND ${sameScope('ca', 'cb')}
+    ORDER BY similarity DESC NULLS LAST, p.a_id, p.b_id
+    LIMIT ${options.limit}
+  `;
+}
+
+async function sensePairs(options: Required<DetectDuplicatesOptions>): Promise<PairRow[]> {
+  return prisma.$queryRaw<PairRow[]>`
+    WITH linked AS (
+      SELECT sc.sense_id, sc.concept_id
+      FROM sense_concepts sc
+      JOIN concepts c ON c.id = sc.concept_id
+      WHERE c.deleted = false AND c.merged_into IS NULL
+    ),
+    knn AS (
+      SELECT s.id AS a, n.id AS b
+      FROM senses s
+      JOIN linked l ON l.sense_id = s.id
+      CROSS JOIN LATERAL (
+        SELECT x.id, x.embedding <=> s.embedding AS distance
+        FROM sense_concepts xc
+        JOIN senses x ON x.id = xc.sense_id
+        WHERE xc.concept_id = l.concept_id AND x.id <> s.id AND x.pos = s.pos AND x.embedding IS NOT NULL
+        ORDER BY x.embedding <=> s.embedding
+        LIMIT ${options.neighbors}
+      ) n
+      WHERE s.embedding IS NOT NULL AND 1 - n.distance >= ${options.min_similarity}
+    ),
+    text_matches AS (
+      SELECT s.id AS a, x.id AS b
+      FROM linked l
+      JOIN senses s ON s.id = l.sense_id
+      JOIN sense_concepts xc ON xc.concept_id = l.concept_id AND xc.sense_id > l.sense_id
+      JOIN senses x ON x.id = xc.sense_id AND x.pos = s.pos
+      WHERE s.lemmas && x.lemmas
+         OR ${normalized(Prisma.sql`s.definition`)} = ${normalized(Prisma.sql`x.definition`)}
+         OR EXISTS (
+           SELECT 1
+           FROM lexical_unit_senses ls1
+           JOIN lexical_unit_senses ls2 ON ls2.lexical_unit_id = ls1.lexical_unit_id
+           WHERE ls1.sense_id = s.id AND ls2.sense_id = x.id
+         )
+    ),
+    pairs AS (
+      SELECT DISTINCT least(a, b) AS a_id, greatest(a, b) AS b_id
+      FROM (SELECT a, b FROM knn UNION ALL SELECT a, b FROM text_matches) p
+    )
+    SELECT p.a_id::bigint AS a_id, p.b_id::bigint AS b_id,
+           (
+             SELECT min(la.concept_id)
+             FROM linked la
+             JOIN linked lb ON lb.concept_id = la.concept_id AND lb.sense_id = p.b_id
+             WHERE la.sense_id = p.a_id
+           )::text AS scope_key,
+           CASE WHEN sa.embedding IS NOT NULL AND sb.embedding IS NOT NULL
+                THEN 1 - (sa.embedding <=> sb.embedding) END AS similarity
+    FROM pairs p
+    JOIN senses sa ON sa.id = p.a_id
+    JOIN senses sb ON sb.id = p.b_id
+    ORDER BY similarity DESC NULLS LAST, p.a_id, p.b_id
+    LIMIT ${options.limit}
+  `;
+}
+
+async function conceptFeatures(ids: bigint[]): Promise<Map<string, EntityFeatures>> {
+  const [rows, units] = await Promise.all([
+    prisma.concepts.findMany({ where: { id: { in: ids } }, select: { id: true, label: true, definition: true } }),
+    prisma.$queryRaw<Array<{ id: bigint; codes: string[] }>>`
+      SELECT sc.concept_id AS id, array_agg(DISTINCT lu.code::text) AS codes
+      FROM sense_concepts sc
+      JOIN lexical_unit_senses ls ON ls.sense_id = sc.sense_id
+      JOIN lexical_units lu ON lu.id = ls.lexical_unit_id AND coalesce(lu.deleted, false) = false
+      WHERE sc.concept_id IN (${Prisma.join(ids)})
+      GROUP BY sc.concept_id
+    `,
+  ]);
+  const codes = new Map(units.map((u) => [u.id.toString(), u.codes]));
+  return new Map(rows.map((r) => [r.id.toString(), {
+    label: words(r.label),
+    definition: words(r.definition, true),
+    lexicalUnits: new Set(codes.get(r.id.toString()) ?? []),
+  }]));
+}
+
+async function senseFeatures(ids: bigint[]): Promise<Map<string, EntityFeatures>> {
+  const intIds = ids.map(Number);
+  const [rows, units] = await Promise.all([
+    prisma.senses.findMany({ where: { id: { in: intIds } }, select: { id: true, lemmas: true, definition: true } }),
+    prisma.$queryRaw<Array<{ id: number; codes: string[] }>>`
+      SELECT ls.sense_id AS id, array_agg(DISTINCT lu.code::text) AS codes
+      FROM lexical_unit_senses ls
+      JOIN lexical_units lu ON lu.id = ls.lexical_unit_id AND coalesce(lu.deleted, false) = false
+      WHERE ls.sense_id IN (${Prisma.join(intIds)})
+      GROUP BY ls.sense_id
+    `,
+  ]);
+  const codes = new Map(units.map((u) => [u.id.toString(), u.codes]));
+  return new Map(rows.map((r) => [r.id.toString(), {
+    label: new Set(r.lemmas.map((l) => l.trim().toLowerCase()).filter(Boolean)),
+    definition: words(r.definition, true),
+    lexicalUnits: new Set(codes.get(r.id.toString()) ?? []),
+  }]));
+}
+
+function pairSignals(row: PairRow, a: EntityFeatures, b: EntityFeatures): DuplicateSignal[] {
+  const signals: DuplicateSignal[] = [];
+  if (row.similarity !== null) {
+    signals.push({ kind: 'embedding', similarity: round(Number(row.similarity)) });
+  }
+  const label = jaccard(a.label, b.label);
+  if (label) {
+    signals.push({ kind: 'label', overlap: round(label.overlap), shared: label.shared.slice(0, MAX_SHARED_LISTED) });
+  }
+  const definition = jaccard(a.definition, b.definition);
+  if (definition) signals.push({ kind: 'definition', overlap: round(definition.overlap) });
+  const units = jaccard(a.lexicalUnits, b.lexicalUnits);
+  if (units) {
+    signals.push({
+      kind: 'lexical_units',
+      overlap: round(units.overlap),
+      shared: units.shared.slice(0, MAX_SHARED_LISTED),
+    });
+  }
+  return signals;
+}
+
+/** Propose, score and rank candidate pairs for one entity type (highest score first). */
+export async function detectDuplicatePairs(
+  entityType: DuplicateEntityType,
+  options: Required<DetectDuplicatesOptions>,
+): Promise<ScoredPair[]> {
+  const rows = entityType === 'concept' ? await conceptPairs(options) : await sensePairs(options);
+  if (rows.length === 0) return [];
+
+  const ids = [...new Set(rows.flatMap((r) => [r.a_id, r.b_id]))];
+  const features = entityType === 'concept' ? await conceptFeatures(ids) : await senseFeatures(ids);
+
+  const scored: ScoredPair[] = [];
+  for (const row of rows) {
+    const a = features.get(row.a_id.toString());
+    const b = features.get(row.b_id.toString());
+    if (!a || !b || !row.scope_key) continue;
+    const signals = pairSignals(row, a, b);
+    const score = scoreDuplicateSignals(signals);
+    if (score < options.min_score) continue;
+    scored.push({ a_id: row.a_id, b_id: row.b_id, scope_key: row.scope_key, score, signals });
+  }
+  return scored.sort((x, y) => y.score - x.score);
+}
+
+// ============================================
+// Runs
+// ============================================
+
+export function serializeDuplicateDetectionRun(run: duplicate_detection_runs): DuplicateDetectionRun {
+  return {
+    id: run.id.toString(),
+    entity_type: run.entity_type as DuplicateEntityType,
+    status: run.status,
+    options: run.options as DetectDuplicatesOptions,
+    candidates_found: run.candidates_found,
+    error: run.error,
+    started_by: run.started_by,
+    started_at: run.started_at.toISOString(),
+    finished_at: run.finished_at?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Record a new run. Only one run per entity type at a time: a second
+ * request while one is running is refused with 409.
+ */
+export async function startDuplicateDetectionRun(
+  entityType: DuplicateEntityType,
+  options: Required<DetectDuplicatesOptions>,
+  startedBy: string,
+): Promise<DuplicateDetectionRun> {
+  const running = await prisma.duplicate_detection_runs.findFirst({
+    where: { entity_type: entityType, status: 'running' },
+    select: { id: true },
+  });
+  if (running) {
+    throw new DuplicateError(`A ${entityType} duplicate detection run (#${running.id}) is already running`, 409);
+  }
+  const run = await prisma.duplicate_detection_runs.create({
+    data: { entity_type: entityType, options: options as Prisma.InputJsonValue, started_by: startedBy },
+  });
+  return serializeDuplicateDetectionRun(run);
+}
+
+async function saveCandidates(runId: bigint, entityType: DuplicateEntityType, pairs: ScoredPair[]) {
+  for (let i = 0; i < pairs.length; i += UPSERT_CHUNK) {
+    await prisma.$transaction(pairs.slice(i, i + UPSERT_CHUNK).map((pair) => {
+      const data = {
+        scope_key: pair.scope_key,
+        score: pair.score,
+        signals: pair.signals as unknown as Prisma.InputJsonValue,
+        run_id: runId,
+        detected_at: new Date(),
+      };
+      return prisma.duplicate_candidates.upsert({
+        where: { entity_type_a_id_b_id: { entity_type: entityType, a_id: pair.a_id, b_id: pair.b_id } },
+        create: { entity_type: entityType, a_id: pair.a_id, b_id: pair.b_id, ...data },
+        update: data,
+      });
+    }));
+  }
+  // Open pairs this run did not find again are stale; reviewed ones are kept.
+  await prisma.duplicate_candidates.deleteMany({
+    where: {
+      entity_type: entityType,
+      status: 'open',
+      OR: [{ run_id: null }, { run_id: { not: runId } }],
+    },
+  });
+}
+
+/** Detect and store candidates for a run created by `startDuplicateDetectionRun`. */
+export async function executeDuplicateDetectionRun(runId: bigint): Promise<DuplicateDetectionRun> {
+  const run = await prisma.duplicate_detection_runs.findUnique({ where: { id: runId } });
+  if (!run) throw new DuplicateError(`Duplicate detection run ${runId} not found`, 404);
+  if (run.status !== 'running') return serializeDuplicateDetectionRun(run);
+
+  try {
+    const entityType = run.entity_type as DuplicateEntityType;
+    const pairs = await detectDuplicatePairs(entityType, resolveDetectOptions(run.options));
+    await saveCandidates(run.id, entityType, pairs);
+    const done = await prisma.duplicate_detection_runs.update({
+      where: { id: run.id },
+      data: { status: 'completed', candidates_found: pairs.length, finished_at: new Date() },
+    });
+    return serializeDuplicateDetectionRun(done);
+  } catch (error) {
+    await prisma.duplicate_detection_runs.update({
+      where: { id: run.id },
+      data: {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        finished_at: new Date(),
+      },
+    });
+    throw error;
+  }
+}
+
+export async function listDuplicateDetectionRuns(limit = 20): Promise<DuplicateDetectionRun[]> {
+  const runs = await prisma.duplicate_detection_runs.findMany({
+    orderBy: { started_at: 'desc' },
+    take: limit,
+  });
+  return runs.map(serializeDuplicateDetectionRun);
+}
@@ -0,0 +1,369 @@
+/**
+ * Reviewing duplicate candidates: list them with both sides summarized,
+ * dismiss or reopen a pair, or stage it as a merge.
+ *
+ * Concept pairs stage through `stageConceptMerge` (one `merge` changeset on
+ * the loser frame). Sense pairs stage a `merge` changeset on the loser
+ * frame_sense, following the contract of `commitMergeInTx`, grouped in a
+ * `merge_sense` change plan so Pending Changes shows the before/after
+ * definitions. A staged pair whose changeset was discarded lists as open
+ * again.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { evaluateStagedChanges } from '@/lib/commit-policies/engine';
+import { ConceptMergeError, stageConceptMerge } from '@/lib/concepts/merge';
+import { createChangeset } from '@/lib/version-control/create';
+import { DuplicateError, explainDuplicateSignals } from './detection';
+import type {
+  DuplicateCandidate,
+  DuplicateCandidateStatus,
+  DuplicateEntitySummary,
+  DuplicateEntityType,
+  DuplicateSignal,
+  StageDuplicateMergeInput,
+  StageDuplicateMergeResult,
+} from './types';
+
+export interface ListDuplicateCandidatesOptions {
+  entity_type?: DuplicateEntityType;
+  status?: DuplicateCandidateStatus;
+  /** Exact scope_key: "archetype/subtype" for concepts, a concept id for senses. */
+  scope?: string;
+  limit: number;
+  offset: number;
+}
+
+type CandidateRow = {
+  id: bigint;
+  entity_type: string;
+  a_id: bigint;
+  b_id: bigint;
+  scope_key: string;
+  score: number;
+  signals: Prisma.JsonValue;
+  status: DuplicateCandidateStatus;
+  changeset_id: bigint | null;
+  change_plan_id: bigint | null;
+  detected_at: Date;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+};
+
+/** Review status with discarded stagings counted as open again. */
+const EFFECTIVE_STATUS = Prisma.sql`
+  CASE WHEN dc.status = 'staged' AND cs.status = 'discarded' THEN 'open' ELSE dc.status::text END
+`;
+
+type Summaries = Map<string, DuplicateEntitySummary>;
+
+async function conceptSummaries(ids: bigint[]): Promise<Summaries> {
+  const rows = await prisma.concepts.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      label: true,
+      definition: true,
+      deleted: true,
+      merged_into: true,
+      _count: { select: { sense_concepts: true } },
+    },
+  });
+  return new Map(rows.map((r) => [r.id.toString(), {
+    id: r.id.toString(),
+    label: r.label,
+    live: !r.deleted && r.merged_into === null,
+    definition: r.definition,
+    link_count: r._count.sense_concepts,
+  }]));
+}
+
+function senseLabel(sense: { id: number; lemmas: string[]; pos: string }): string {
+  return sense.lemmas.length > 0 ? `${sense.lemmas.join(', ')} (${sense.pos})` : `sense ${sense.id}`;
+}
+
+async function senseSummaries(ids: bigint[]): Promise<Summaries> {
+  const rows = await prisma.senses.findMany({
+    where: { id: { in: ids.map(Number) } },
+    select: {
+      id: true,
+      lemmas: true,
+      pos: true,
+      definition: true,
+      _count: { select: { lexical_unit_senses: true } },
+    },
+  });
+  return new Map(rows.map((r) => [r.id.toString(), {
+    id: r.id.toString(),
+    label: senseLabel(r),
+    live: true,
+    definition: r.definition,
+    link_count: r._count.lexical_unit_senses,
+  }]));
+}
+
+function missing(id: bigint): DuplicateEntitySummary {
+  return { id: id.toString(), label: `#${id} (deleted)`, live: false, definition: null, link_count: 0 };
+}
+
+/** Larger side wins (more senses / lexical units), then the older row. */
+function suggestedSurvivor(a: DuplicateEntitySummary, b: DuplicateEntitySummary): string {
+  if (a.link_count !== b.link_count) return a.link_count > b.link_count ? a.id : b.id;
+  return BigInt(a.id) < BigInt(b.id) ? a.id : b.id;
+}
+
+async function scopeLabels(entityType: string, keys: string[]): Promise<Map<string, string>> {
+  if (entityType === 'concept') {
+    return new Map(keys.map((key) => [key, key.split('/').map((p) => (p === '-' ? 'none' : p)).join(' / ')]));
+  }
+  const ids = keys.filter((k) => /^\d+$/.test(k)).map((k) => BigInt(k));
+  const concepts = await prisma.concepts.findMany({ where: { id: { in: ids } }, select: { id: true, label: true } });
+  const labels = new Map(concepts.map((c) => [c.id.toString(), c.label]));
+  return new Map(keys.map((key) => [key, labels.get(key) ?? `concept ${key}`]));
+}
+
+async function hydrate(rows: CandidateRow[]): Promise<DuplicateCandidate[]> {
+  const byType = (type: string) => rows.filter((r) => r.entity_type === type);
+  const ids = (list: CandidateRow[]) => [...new Set(list.flatMap((r) => [r.a_id, r.b_id]))];
+  const keys = (list: CandidateRow[]) => [...new Set(list.map((r) => r.scope_key))];
+
+  const [concepts, senses, conceptScopes, senseScopes] = await Promise.all([
+    conceptSummaries(ids(byType('concept'))),
+    senseSummaries(ids(byType('sense'))),
+    scopeLabels('concept', keys(byType('concept'))),
+    scopeLabels('sense', keys(byType('sense'))),
+  ]);
+
+  return rows.map((row) => {
+    const entityType = row.entity_type as DuplicateEntityType;
+    const summaries = entityType === 'concept' ? concepts : senses;
+    const scopes = entityType === 'concept' ? conceptScopes : senseScopes;
+    const a = summaries.get(row.a_id.toString()) ?? missing(row.a_id);
+    const b = summaries.get(row.b_id.toString()) ?? missing(row.b_id);
+    const signals = (Array.isArray(row.signals) ? row.signals : []) as unknown as DuplicateSignal[];
+    return {
+      id: row.id.toString(),
+      entity_type: entityType,
+      scope_label: scopes.get(row.scope_key) ?? row.scope_key,
+      score: row.score,
+      signals,
+      reasons: explainDuplicateSignals(entityType, signals),
+      status: row.status,
+      a,
+      b,
+      suggested_survivor_id: suggestedSurvivor(a, b),
+      changeset_id: row.changeset_id?.toString() ?? null,
+      change_plan_id: row.change_plan_id?.toString() ?? null,
+      detected_at: row.detected_at.toISOString(),
+      reviewed_by: row.reviewed_by,
+      reviewed_at: row.reviewed_at?.toISOString() ?? null,
+    };
+  });
+}
+
+const CANDIDATE_SELECT = Prisma.sql`
+  SELECT dc.id, dc.entity_type, dc.a_id, dc.b_id, dc.scope_key, dc.score, dc.signals,
+         ${EFFECTIVE_STATUS} AS status,
+         dc.changeset_id, dc.change_plan_id, dc.detected_at, dc.reviewed_by, dc.reviewed_at
+  FROM duplicate_candidates dc
+  LEFT JOIN changesets cs ON cs.id = dc.changeset_id
+`;
+
+/** Candidates ranked by score, with both sides summarized and the reasons spelled out. */
+export async function listDuplicateCandidates(
+  options: ListDuplicateCandidatesOptions,
+): Promise<{ candidates: DuplicateCandidate[]; total: number }> {
+  const conditions: Prisma.Sql[] = [];
+  if (options.entity_type) conditions.push(Prisma.sql`dc.entity_type = ${options.entity_type}`);
+  if (options.status) conditions.push(Prisma.sql`${EFFECTIVE_STATUS} = ${options.status}`);
+  if (options.scope) conditions.push(Prisma.sql`dc.scope_key = ${options.scope}`);
+  const where = conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+
+  const [rows, counted] = await Promise.all([
+    prisma.$queryRaw<CandidateRow[]>`
+      ${CANDIDATE_SELECT}
+      ${where}
+      ORDER BY dc.score DESC, dc.id
+      LIMIT ${options.limit} OFFSET ${options.offset}
+    `,
+    prisma.$queryRaw<Array<{ total: bigint }>>`
+      SELECT count(*) AS total
+      FROM duplicate_candidates dc
+      LEFT JOIN changesets cs ON cs.id = dc.changeset_id
+      ${where}
+    `,
+  ]);
+  return { candidates: await hydrate(rows), total: Number(counted[0]?.total ?? 0) };
+}
+
+export async function getDuplicateCandidate(id: bigint): Promise<DuplicateCandidate> {
+  const rows = await prisma.$queryRaw<CandidateRow[]>`${CANDIDATE_SELECT} WHERE dc.id = ${id}`;
+  if (rows.length === 0) throw new DuplicateError(`Duplicate candidate ${id} not found`, 404);
+  return (await hydrate(rows))[0];
+}
+
+/** Dismiss a pair as "not a duplicate", or reopen a dismissed one. Staged pairs can't be changed. */
+export async function setDuplicateCandidateStatus(
+  id: bigint,
+  status: Extract<DuplicateCandidateStatus, 'open' | 'dismissed'>,
+  reviewedBy: string,
+): Promise<DuplicateCandidate> {
+  const current = await getDuplicateCandidate(id);
+  if (current.status === 'staged') {
+    throw new DuplicateError('This pair is already staged as a merge; discard the changeset to reopen it', 409);
+  }
+  await prisma.duplicate_candidates.update({
+    where: { id },
+    data: {
+      status,
+      reviewed_by: status === 'dismissed' ? reviewedBy : null,
+      reviewed_at: status === 'dismissed' ? new Date() : null,
+      changeset_id: null,
+      change_plan_id: null,
+    },
+  });
+  return getDuplicateCandidate(id);
+}
+
+async function stageSenseMerge(
+  loserId: bigint,
+  winnerId: bigint,
+  input: StageDuplicateMergeInput,
+  createdBy: string,
+): Promise<StageDuplicateMergeResult> {
+  const [loser, winner] = await Promise.all([
+    prisma.senses.findUnique({ where: { id: Number(loserId) }, select: { id: true, lemmas: true, pos: true, definition: true } }),
+    prisma.senses.findUnique({ where: { id: Number(winnerId) }, select: { id: true, lemmas: true, pos: true, definition: true } }),
+  ]);
+  if (!loser || !winner) throw new DuplicateError('One of the senses no longer exists', 409);
+
+  // The merge commits against one concept both senses link to.
+  const shared = await prisma.$queryRaw<Array<{ id: bigint; label: string }>>`
+    SELECT c.id, c.label
+    FROM sense_concepts a
+    JOIN sense_concepts b ON b.concept_id = a.concept_id AND b.sense_id = ${winner.id}
+    JOIN concepts c ON c.id = a.concept_id
+    WHERE a.sense_id = ${loser.id} AND c.deleted = false AND c.merged_into IS NULL
+    ORDER BY c.id
+    LIMIT 1
+  `;
+
+  const mergedDefinition = input.merged_definition?.trim() || winner.definition;
+  const reason = input.reason?.trim() || null;
+
+  // The changeset, its plan and the plan link land together so a failure
+  // can't leave a merge changeset outside its plan.
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.changesets.findFirst({
+      where: { entity_type: 'frame_sense', entity_id: loserId, operation: 'merge', status: 'pending' },
+      select: { id: true, change_plan_id: true, before_snapshot: true },
+    });
+    if (existing) {
+      const snapshot = (existing.before_snapshot ?? {}) as Record<string, unknown>;
+      if (String(snapshot.__merge_child_id) !== winner.id.toString()) {
+        throw new DuplicateError(
+          `Sense ${loser.id} already has a pending merge into sense ${String(snapshot.__merge_child_id)}`,
+          409,
+        );
+      }
+      return {
+        changeset_id: existing.id.toString(),
+        change_plan_id: existing.change_plan_id?.toString() ?? null,
+        created: false,
+      };
+    }
+    if (shared.length === 0) throw new DuplicateError('The senses no longer share a concept', 409);
+    const concept = shared[0];
+
+    const changeset = await createChangeset({
+      entity_type: 'frame_sense',
+      entity_id: loserId,
+      operation: 'merge',
+      before_snapshot: {
+        definition: loser.definition,
+        lemmas: loser.lemmas,
+        pos: loser.pos,
+        __merge_child_id: winner.id.toString(),
+        __merge_context: { concept_id: concept.id.toString(), reason },
+        __merge_payload: { merged_definition: mergedDefinition },
+      },
+      created_by: createdBy,
+    }, tx);
+
+    const plan = await tx.change_plans.create({
+      data: {
+        plan_kind: 'merge_sense',
+        summary: `Merge ${senseLabel(loser)} into ${senseLabel(winner)}`,
+        created_by: createdBy,
+        metadata: {
+          frame: { id: concept.id.toString(), label: concept.label },
+          winner: { id: winner.id.toString(), label: senseLabel(winner), definition_before: winner.definition },
+          loser: { id: loser.id.toString(), label: senseLabel(loser), definition_before: loser.definition },
+          merged_definition: mergedDefinition,
+          reason,
+        },
+      },
+    });
+    await tx.changesets.updateMany({
+      where: { id: changeset.id, change_plan_id: null, status: 'pending' },
+      data: { change_plan_id: plan.id },
+    });
+    return { changeset_id: changeset.id.toString(), change_plan_id: plan.id.toString(), created: true };
+  });
+}
+
+/**
+ * Stage the pair as a merge into `survivor_id` (either side) and mark it
+ * staged. Staging is idempotent: a pending merge of the same loser into
+ * the same survivor is reused; one into the other side is a 409.
+ */
+export async function stageDuplicateMerge(
+  id: bigint,
+  input: StageDuplicateMergeInput,
+  createdBy: string,
+): Promise<{ candidate: DuplicateCandidate; result: StageDuplicateMergeResult }> {
+  const candidate = await getDuplicateCandidate(id);
+  if (candidate.status === 'staged') {
+    throw new DuplicateError('This pair is already staged as a merge', 409);
+  }
+  const survivorId = input.survivor_id;
+  const aId = BigInt(candidate.a.id);
+  const bId = BigInt(candidate.b.id);
+  if (survivorId !== aId && survivorId !== bId) {
+    throw new DuplicateError('survivor_id must be one of the two ids in the pair');
+  }
+  const loserId = survivorId === aId ? bId : aId;
+
+  let result: StageDuplicateMergeResult;
+  if (candidate.entity_type === 'concept') {
+    try {
+      const staged = await stageConceptMerge(
+        { loser_id: loserId, survivor_id: survivorId, reason: input.reason ?? null },
+        createdBy,
+      );
+      result = { changeset_id: staged.changeset_id.toString(), change_plan_id: null, created: staged.created };
+    } catch (error) {
+      if (error instanceof ConceptMergeError) throw new DuplicateError(error.message, 409);
+      throw error;
+    }
+    await evaluateStagedChanges({ changesetIds: [BigInt(result.changeset_id)] });
+  } else {
+    result = await stageSenseMerge(loserId, survivorId, input, createdBy);
+    await evaluateStagedChanges(result.change_plan_id
+      ? { planIds: [BigInt(result.change_plan_id)] }
+      : { changesetIds: [BigInt(result.changeset_id)] });
+  }
+
+  await prisma.duplicate_candidates.update({
+    where: { id },
+    data: {
+      status: 'staged',
+      changeset_id: BigInt(result.changeset_id),
+      change_plan_id: result.change_plan_id ? BigInt(result.change_plan_id) : null,
+      reviewed_by: createdBy,
+      reviewed_at: new Date(),
+    },
+  });
+  return { candidate: await getDuplicateCandidate(id), result };
+}
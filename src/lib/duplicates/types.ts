@@ -0,0 +1,89 @@
+/** Entity types the duplicate detector pairs up. */
+export type DuplicateEntityType = 'concept' | 'sense';
+
+export const DUPLICATE_ENTITY_TYPES: DuplicateEntityType[] = ['concept', 'sense'];
+
+export type DuplicateCandidateStatus = 'open' | 'dismissed' | 'staged';
+
+export type DuplicateDetectionRunStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * One piece of evidence that two rows are the same thing. `overlap` values
+ * are Jaccard indexes (0-1); `shared` lists what overlapped.
+ *   - embedding:     cosine similarity of the stored vectors
+ *   - label:         concept label words / sense lemmas
+ *   - definition:    definition words, ignoring common function words
+ *   - lexical_units: linked lexical units (codes)
+ */
+export type DuplicateSignal =
+  | { kind: 'embedding'; similarity: number }
+  | { kind: 'label'; overlap: number; shared: string[] }
+  | { kind: 'definition'; overlap: number }
+  | { kind: 'lexical_units'; overlap: number; shared: string[] };
+
+export interface DetectDuplicatesOptions {
+  /** Minimum cosine similarity for an embedding neighbour to become a candidate. Default 0.9. */
+  min_similarity?: number;
+  /** Nearest neighbours examined per row. Default 5. */
+  neighbors?: number;
+  /** Pairs scoring below this are not kept. Default 0.5. */
+  min_score?: number;
+  /** Cap on candidate pairs examined per run. Default 2000. */
+  limit?: number;
+}
+
+export interface DuplicateDetectionRun {
+  id: string;
+  entity_type: DuplicateEntityType;
+  status: DuplicateDetectionRunStatus;
+  options: DetectDuplicatesOptions;
+  candidates_found: number;
+  error: string | null;
+  started_by: string;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export interface DuplicateEntitySummary {
+  id: string;
+  label: string;
+  /** False once the row was deleted or merged away (e.g. by a committed merge). */
+  live: boolean;
+  definition: string | null;
+  /** Concepts: senses linked. Senses: lexical units linked. */
+  link_count: number;
+}
+
+export interface DuplicateCandidate {
+  id: string;
+  entity_type: DuplicateEntityType;
+  /** Concepts: "archetype / subtype". Senses: the shared concept's label. */
+  scope_label: string;
+  score: number;
+  signals: DuplicateSignal[];
+  /** Plain-language reasons derived from `signals`, strongest first. */
+  reasons: string[];
+  status: DuplicateCandidateStatus;
+  a: DuplicateEntitySummary;
+  b: DuplicateEntitySummary;
+  /** Id of the side that should survive by default (more links, then older). */
+  suggested_survivor_id: string;
+  changeset_id: string | null;
+  change_plan_id: string | null;
+  detected_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+}
+
+export interface StageDuplicateMergeInput {
+  survivor_id: bigint;
+  /** Senses only: definition the survivor ends up with; defaults to its current one. */
+  merged_definition?: string | null;
+  reason?: string | null;
+}
+
+export interface StageDuplicateMergeResult {
+  changeset_id: string;
+  change_plan_id: string | null;
+  created: boolean;
+}
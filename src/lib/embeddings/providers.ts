@@ -0,0 +1,167 @@
+/**
+ * Embedding providers.
+ *
+ * EMBEDDING_PROVIDER picks one: `openai` (OPENAI_API_KEY), `bedrock`
+ * (AWS credentials from the environment; BEDROCK_EMBEDDING_MODEL, default
+ * Cohere Embed v4) or `local`, a deterministic hashing embedder for tests
+ * and offline development. Unset means `openai` when OPENAI_API_KEY is
+ * present and no provider otherwise.
+ *
+ * Stored vectors and query vectors must come from the same model, so
+ * search embeds its queries through `embedText` here as well.
+ */
+
+import { createHash } from 'crypto';
+import { bedrock } from '@ai-sdk/amazon-bedrock';
+import { embedMany } from 'ai';
+import { getOpenAIClient } from '@/lib/llm/client';
+import type { EmbeddingProvider, EmbeddingProviderName, EmbeddingPurpose } from './types';
+
+/** Width of every maintained embedding column (and of referents.embedding). */
+export const EMBEDDING_DIMENSIONS = 1536;
+export const EMBEDDING_MODEL = 'text-embedding-3-small';
+const DEFAULT_BEDROCK_MODEL = 'cohere.embed-v4:0';
+const LOCAL_MODEL = 'local-hash-v1';
+
+const PROVIDER_NAMES: EmbeddingProviderName[] = ['openai', 'bedrock', 'local'];
+
+export class EmbeddingError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'EmbeddingError';
+  }
+}
+
+function createOpenAIProvider(): EmbeddingProvider | null {
+  const client = getOpenAIClient();
+  if (!client) return null;
+  return {
+    name: 'openai',
+    model: EMBEDDING_MODEL,
+    dimensions: EMBEDDING_DIMENSIONS,
+    async embed(texts) {
+      const response = await client.embeddings.create({
+        model: EMBEDDING_MODEL,
+        input: texts,
+        dimensions: EMBEDDING_DIMENSIONS,
+      });
+      return [...response.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    },
+  };
+}
+
+/** Cohere Embed v4 is the Bedrock model that can emit 1536-wide vectors. */
+function createBedrockProvider(): EmbeddingProvider {
+  const model = process.env.BEDROCK_EMBEDDING_MODEL || DEFAULT_BEDROCK_MODEL;
+  return {
+    name: 'bedrock',
+    model,
+    dimensions: EMBEDDING_DIMENSIONS,
+    async embed(texts, purpose = 'document') {
+      const { embeddings } = await embedMany({
+        model: bedrock.embedding(model),
+        values: texts,
+        providerOptions: {
+          bedrock: {
+            outputDimension: EMBEDDING_DIMENSIONS,
+            inputType: purpose === 'query' ? 'search_query' : 'search_document',
+          },
+        },
+      });
+      return embeddings;
+    },
+  };
+}
+
+/**
+ * Feature hashing over words and character trigrams, L2-normalised. Same
+ * text, same vector, on any machine; texts sharing words land close
+ * together, which is enough to exercise search and clustering without an
+ * API key. Not a semantic model.
+ */
+export function localEmbedding(text: string, dimensions = EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const features = [
+    ...words,
+    ...words.flatMap((w) => {
+      const padded = `#${w}#`;
+      const grams: string[] = [];
+      for (let i = 0; i + 3 <= padded.length; i++) grams.push(`~${padded.slice(i, i + 3)}`);
+      return grams;
+    }),
+  ];
+  for (const feature of features) {
+    const digest = createHash('sha256').update(feature).digest();
+    const index = digest.readUInt32BE(0) % dimensions;
+    vector[index] += digest[4] & 1 ? 1 : -1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+function createLocalProvider(): EmbeddingProvider {
+  return {
+    name: 'local',
+    model: LOCAL_MODEL,
+    dimensions: EMBEDDING_DIMENSIONS,
+    async embed(texts) {
+      return texts.map((t) => localEmbedding(t));
+    },
+  };
+}
+
+let cached: EmbeddingProvider | null | undefined;
+
+function createProvider(): EmbeddingProvider | null {
+  const configured = (process.env.EMBEDDING_PROVIDER || '').trim().toLowerCase();
+  if (!configured) return process.env.OPENAI_API_KEY ? createOpenAIProvider() : null;
+  switch (configured as EmbeddingProviderName) {
+    case 'openai':
+      return createOpenAIProvider();
+    case 'bedrock':
+      return createBedrockProvider();
+    case 'local':
+      return createLocalProvider();
+    default:
+      throw new EmbeddingError(
+        `Unknown EMBEDDING_PROVIDER "${configured}"; expected one of ${PROVIDER_NAMES.join(', ')}`,
+        500,
+      );
+  }
+}
+
+/** The configured provider, or null when none is (see the module comment). */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (cached === undefined) cached = createProvider();
+  return cached;
+}
+
+/** Like getEmbeddingProvider, but a missing provider is an error. */
+export function requireEmbeddingProvider(): EmbeddingProvider {
+  const provider = getEmbeddingProvider();
+  if (!provider) {
+    throw new EmbeddingError('No embedding provider is configured (set EMBEDDING_PROVIDER or OPENAI_API_KEY)', 409);
+  }
+  return provider;
+}
+
+/** True when query embeddings can be computed. */
+export function embeddingsAvailable(): boolean {
+  try {
+    return getEmbeddingProvider() !== null;
+  } catch {
+    return false;
+  }
+}
+
+/** Embed one piece of text with the configured provider. */
+export async function embedText(text: string, purpose: EmbeddingPurpose = 'query'): Promise<number[]> {
+  const [embedding] = await requireEmbeddingProvider().embed([text], purpose);
+  return embedding;
+}
+
+/** pgvector text literal, cast with `::extensions.vector` / `::extensions.halfvec` in SQL. */
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
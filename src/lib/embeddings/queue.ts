@@ -0,0 +1,211 @@
+/**
+ * Embedding refresh queue (migrations/add_embedding_maintenance.sql).
+ *
+ * Commits enqueue through `enqueueEmbeddingRefreshInTx` with their own
+ * transaction client, so a rolled-back plan queues nothing. Backfills
+ * enqueue in bulk. Either way an entity has at most one row; enqueueing it
+ * again resets that row to `pending`. `./worker` drains the queue.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { ChangesetWithFieldChanges } from '@/lib/version-control/types';
+import { EmbeddingError, getEmbeddingProvider } from './providers';
+import { EMBEDDING_TARGETS, EMBEDDING_TEXT_VERSION, embeddingTypeForChangeset } from './targets';
+import {
+  EMBEDDING_ENTITY_TYPES,
+  type EmbeddingBackfillScope,
+  type EmbeddingEntityType,
+  type EmbeddingJobReason,
+  type EmbeddingStatus,
+  type EmbeddingTypeStatus,
+} from './types';
+
+const RECENT_FAILURES_LIMIT = 20;
+
+/** ON CONFLICT clause shared by every enqueue: re-requesting resets the row. */
+const RESET_ON_CONFLICT = Prisma.sql`
+  ON CONFLICT (entity_type, entity_id) DO UPDATE
+  SET reason = EXCLUDED.reason,
+      status = 'pending',
+      attempts = 0,
+      next_attempt_at = now(),
+      last_error = NULL,
+      requested_at = now()
+`;
+
+export async function enqueueEmbeddingJobsInTx(
+  tx: Prisma.TransactionClient,
+  entityType: EmbeddingEntityType,
+  entityIds: bigint[],
+  reason: EmbeddingJobReason,
+): Promise<void> {
+  if (entityIds.length === 0) return;
+  await tx.$executeRaw(Prisma.sql`
+    INSERT INTO embedding_jobs (entity_type, entity_id, reason)
+    SELECT ${entityType}, id, ${reason}
+    FROM unnest(ARRAY[${Prisma.join(entityIds)}]::bigint[]) AS id
+    ${RESET_ON_CONFLICT}
+  `);
+}
+
+/**
+ * Queue a re-embed for a changeset `commitChangesetInTx` just applied: any
+ * create, and updates with an approved change to a field the embedding
+ * text is built from. Deletes drop a queued job; merges leave the
+ * survivor's text alone.
+ */
+export async function enqueueEmbeddingRefreshInTx(
+  tx: Prisma.TransactionClient,
+  changeset: ChangesetWithFieldChanges,
+): Promise<void> {
+  const type = embeddingTypeForChangeset(changeset.entity_type);
+  if (!type) return;
+
+  if (changeset.operation === 'delete') {
+    if (changeset.entity_id != null) {
+      await tx.embedding_jobs.deleteMany({ where: { entity_type: type, entity_id: changeset.entity_id } });
+    }
+    return;
+  }
+  if (changeset.operation === 'update') {
+    const fields = EMBEDDING_TARGETS[type].textFields;
+    const touchesText = changeset.field_changes.some(
+      (fc) => fc.status === 'approved' && fields.includes(fc.field_name),
+    );
+    if (!touchesText) return;
+  } else if (changeset.operation !== 'create') {
+    return;
+  }
+
+  // A CREATE only learns its entity id during the commit.
+  const committed = await tx.changesets.findUnique({
+    where: { id: changeset.id },
+    select: { entity_id: true },
+  });
+  const entityId = committed?.entity_id ?? changeset.entity_id;
+  if (entityId == null) return;
+  await enqueueEmbeddingJobsInTx(tx, type, [entityId], 'commit');
+}
+
+/**
+ * Queue every live row of `types` that `scope` selects. Returns how many
+ * rows were queued per type.
+ */
+export async function enqueueEmbeddingBackfill(
+  types: EmbeddingEntityType[],
+  scope: EmbeddingBackfillScope,
+): Promise<Partial<Record<EmbeddingEntityType, number>>> {
+  const provider = scope === 'outdated' ? getEmbeddingProvider() : null;
+  if (scope === 'outdated' && !provider) {
+    throw new EmbeddingError('An outdated backfill needs a configured embedding provider to compare against', 409);
+  }
+
+  const queued: Partial<Record<EmbeddingEntityType, number>> = {};
+  for (const type of types) {
+    const target = EMBEDDING_TARGETS[type];
+    let condition: Prisma.Sql;
+    if (scope === 'missing') {
+      condition = Prisma.sql`t.${target.column} IS NULL`;
+    } else if (scope === 'outdated') {
+      condition = Prisma.sql`(
+        t.${target.column} IS NULL
+        OR NOT EXISTS (
+          SELECT 1 FROM embedding_records er
+          WHERE er.entity_type = ${type}
+            AND er.entity_id = t.id
+            AND er.provider = ${provider!.name}
+            AND er.model = ${provider!.model}
+            AND er.text_version = ${EMBEDDING_TEXT_VERSION}
+        )
+      )`;
+    } else {
+      condition = Prisma.sql`TRUE`;
+    }
+    queued[type] = await prisma.$executeRaw(Prisma.sql`
+      INSERT INTO embedding_jobs (entity_type, entity_id, reason)
+      SELECT ${type}, t.id, 'backfill'
+      FROM ${target.table} t
+      WHERE ${target.live} AND ${condition}
+      ${RESET_ON_CONFLICT}
+    `);
+  }
+  return queued;
+}
+
+async function typeStatus(
+  type: EmbeddingEntityType,
+  current: { provider: string; model: string } | null,
+): Promise<EmbeddingTypeStatus> {
+  const target = EMBEDDING_TARGETS[type];
+  const [[counts], jobs, models] = await Promise.all([
+    prisma.$queryRaw<Array<{ total: number; with_vector: number; current: number }>>(Prisma.sql`
+      SELECT count(*)::int AS total,
+             count(t.${target.column})::int AS with_vector,
+             count(er.entity_id) FILTER (
+               WHERE t.${target.column} IS NOT NULL
+                 AND er.provider = ${current?.provider ?? ''}
+                 AND er.model = ${current?.model ?? ''}
+                 AND er.text_version = ${EMBEDDING_TEXT_VERSION}
+             )::int AS current
+      FROM ${target.table} t
+      LEFT JOIN embedding_records er ON er.entity_type = ${type} AND er.entity_id = t.id
+      WHERE ${target.live}
+    `),
+    prisma.embedding_jobs.groupBy({
+      by: ['status'],
+      where: { entity_type: type },
+      _count: { _all: true },
+    }),
+    prisma.embedding_records.groupBy({
+      by: ['provider', 'model', 'text_version'],
+      where: { entity_type: type },
+      _count: { _all: true },
+    }),
+  ]);
+
+  return {
+    entity_type: type,
+    total: counts?.total ?? 0,
+    with_vector: counts?.with_vector ?? 0,
+    current: counts?.current ?? 0,
+    pending: jobs.find((j) => j.status === 'pending')?._count._all ?? 0,
+    failed: jobs.find((j) => j.status === 'failed')?._count._all ?? 0,
+    by_model: Object.fromEntries(
+      models.map((m) => [`${m.provider}:${m.model}@${m.text_version}`, m._count._all]),
+    ),
+  };
+}
+
+export async function getEmbeddingStatus(): Promise<EmbeddingStatus> {
+  const provider = getEmbeddingProvider();
+  const current = provider ? { provider: provider.name, model: provider.model } : null;
+
+  const [types, failures] = await Promise.all([
+    Promise.all(EMBEDDING_ENTITY_TYPES.map((type) => typeStatus(type, current))),
+    prisma.embedding_jobs.findMany({
+      where: { status: 'failed' },
+      orderBy: { requested_at: 'desc' },
+      take: RECENT_FAILURES_LIMIT,
+    }),
+  ]);
+
+  return {
+    provider: provider
+      ? {
+          provider: provider.name,
+          model: provider.model,
+          dimensions: provider.dimensions,
+          text_version: EMBEDDING_TEXT_VERSION,
+        }
+      : null,
+    types,
+    recent_failures: failures.map((f) => ({
+      entity_type: f.entity_type as EmbeddingEntityType,
+      entity_id: f.entity_id.toString(),
+      attempts: f.attempts,
+      last_error: f.last_error,
+      requested_at: f.requested_at.toISOString(),
+    })),
+  };
+}
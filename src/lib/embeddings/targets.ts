@@ -0,0 +1,91 @@
+/**
+ * What gets embedded, and where the vector is stored, per entity type.
+ *
+ * Bump EMBEDDING_TEXT_VERSION whenever a `buildText` changes: vectors
+ * recorded under an older version count as outdated, and an `outdated`
+ * backfill re-embeds them.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { EntityType } from '@/lib/version-control/types';
+import type { EmbeddingEntityType } from './types';
+
+export const EMBEDDING_TEXT_VERSION = 1;
+
+export interface EmbeddingTarget {
+  /** Table and vector column; `t` is the table alias in `live`. */
+  table: Prisma.Sql;
+  column: Prisma.Sql;
+  /** pgvector type the column holds. */
+  cast: Prisma.Sql;
+  /** Rows that should have a vector. */
+  live: Prisma.Sql;
+  /** Changeset entity type whose commits can change the text. */
+  changesetEntityType: EntityType;
+  /** Fields that feed `buildText`; an approved update to any of them re-queues the entity. */
+  textFields: string[];
+  /** Embedding input per live entity id; deleted or missing ids are absent. */
+  loadTexts(ids: bigint[]): Promise<Map<string, string>>;
+}
+
+function joinText(parts: Array<string | null | undefined>): string {
+  return parts.map((p) => p?.trim()).filter(Boolean).join('\n');
+}
+
+export const EMBEDDING_TARGETS: Record<EmbeddingEntityType, EmbeddingTarget> = {
+  concept: {
+    table: Prisma.raw('concepts'),
+    column: Prisma.raw('embedding'),
+    cast: Prisma.raw('extensions.vector'),
+    live: Prisma.sql`t.deleted = false AND t.merged_into IS NULL`,
+    changesetEntityType: 'frame',
+    textFields: ['label', 'short_definition', 'definition'],
+    async loadTexts(ids) {
+      const rows = await prisma.concepts.findMany({
+        where: { id: { in: ids }, deleted: false, merged_into: null },
+        select: { id: true, label: true, short_definition: true, definition: true },
+      });
+      return new Map(rows.map((r) => [r.id.toString(), joinText([r.label, r.short_definition, r.definition])]));
+    },
+  },
+  lexical_unit: {
+    table: Prisma.raw('lexical_units'),
+    // The 1536-wide column; the legacy `embedding` column is left alone.
+    column: Prisma.raw('embedding_1536'),
+    cast: Prisma.raw('extensions.vector'),
+    live: Prisma.sql`coalesce(t.deleted, false) = false`,
+    changesetEntityType: 'lexical_unit',
+    textFields: ['lemmas', 'gloss'],
+    async loadTexts(ids) {
+      const rows = await prisma.lexical_units.findMany({
+        where: { id: { in: ids }, OR: [{ deleted: false }, { deleted: null }] },
+        select: { id: true, lemmas: true, gloss: true },
+      });
+      return new Map(rows.map((r) => [r.id.toString(), joinText([r.lemmas.join(', '), r.gloss])]));
+    },
+  },
+  sense: {
+    table: Prisma.raw('senses'),
+    column: Prisma.raw('embedding'),
+    cast: Prisma.raw('extensions.halfvec'),
+    live: Prisma.sql`TRUE`,
+    changesetEntityType: 'frame_sense',
+    textFields: ['lemmas', 'definition'],
+    async loadTexts(ids) {
+      const rows = await prisma.senses.findMany({
+        where: { id: { in: ids.map(Number) } },
+        select: { id: true, lemmas: true, definition: true },
+      });
+      return new Map(rows.map((r) => [r.id.toString(), joinText([r.lemmas.join(', '), r.definition])]));
+    },
+  },
+};
+
+/** Maintained type for a changeset entity type, if any. */
+export function embeddingTypeForChangeset(entityType: string): EmbeddingEntityType | null {
+  for (const [type, target] of Object.entries(EMBEDDING_TARGETS) as [EmbeddingEntityType, EmbeddingTarget][]) {
+    if (target.changesetEntityType === entityType) return type;
+  }
+  return null;
+}
@@ -0,0 +1,77 @@
+/** Entity types whose embedding this subsystem maintains. */
+export type EmbeddingEntityType = 'concept' | 'lexical_unit' | 'sense';
+
+export const EMBEDDING_ENTITY_TYPES: EmbeddingEntityType[] = ['concept', 'lexical_unit', 'sense'];
+
+export type EmbeddingProviderName = 'openai' | 'bedrock' | 'local';
+
+/** Stored rows are `document`s; search queries are embedded as `query` (providers that distinguish them). */
+export type EmbeddingPurpose = 'document' | 'query';
+
+/**
+ * Turns text into vectors. Every provider returns EMBEDDING_DIMENSIONS-wide
+ * vectors so they fit the existing columns; switching provider or model
+ * therefore only needs a backfill, not a migration.
+ */
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+  /** One vector per input, in input order. */
+  embed(texts: string[], purpose?: EmbeddingPurpose): Promise<number[][]>;
+}
+
+/** Why an entity was queued. */
+export type EmbeddingJobReason = 'commit' | 'backfill';
+
+/**
+ * - missing:  live rows without a vector
+ * - outdated: missing, plus vectors not produced by the current provider,
+ *             model and text version (or with no record at all)
+ * - all:      every live row; unchanged ones are skipped by hash
+ */
+export type EmbeddingBackfillScope = 'missing' | 'outdated' | 'all';
+
+export interface EmbeddingModelInfo {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+  text_version: number;
+}
+
+export interface EmbeddingTypeStatus {
+  entity_type: EmbeddingEntityType;
+  /** Live (not deleted) rows. */
+  total: number;
+  with_vector: number;
+  /** Vectors recorded as produced by the current provider, model and text version. */
+  current: number;
+  pending: number;
+  failed: number;
+  /** Recorded vectors per `provider:model@text_version`. */
+  by_model: Record<string, number>;
+}
+
+export interface EmbeddingJobFailure {
+  entity_type: EmbeddingEntityType;
+  entity_id: string;
+  attempts: number;
+  last_error: string | null;
+  requested_at: string;
+}
+
+export interface EmbeddingStatus {
+  /** Null when no provider is configured; commits still queue work. */
+  provider: EmbeddingModelInfo | null;
+  types: EmbeddingTypeStatus[];
+  recent_failures: EmbeddingJobFailure[];
+}
+
+export interface EmbeddingRefreshSummary {
+  claimed: number;
+  embedded: number;
+  /** Text and model unchanged since the last vector, or the entity is gone. */
+  skipped: number;
+  retrying: number;
+  failed: number;
+}
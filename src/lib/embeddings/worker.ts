@@ -0,0 +1,183 @@
+/**
+ * Embedding refresh worker.
+ *
+ * `refreshEmbeddings` claims due `embedding_jobs` rows (bumping `attempts`
+ * and leasing them for a few minutes so a crashed worker's rows come back),
+ * loads the current text of each entity and embeds whatever changed since
+ * its recorded vector, one provider call per entity type. Each vector is
+ * written together with its `embedding_records` row and the job's removal.
+ * Failures are rescheduled with exponential backoff and marked `failed`
+ * after MAX_EMBEDDING_ATTEMPTS; a new commit or backfill resets them.
+ * Safe to run concurrently.
+ */
+
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requireEmbeddingProvider, toVectorLiteral } from './providers';
+import { EMBEDDING_TARGETS, EMBEDDING_TEXT_VERSION } from './targets';
+import type { EmbeddingEntityType, EmbeddingProvider, EmbeddingRefreshSummary } from './types';
+
+export const MAX_EMBEDDING_ATTEMPTS = 5;
+/** First retry delay; doubles per attempt up to MAX_BACKOFF_MS. */
+const BASE_BACKOFF_MS = 60_000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+/** A claimed job is retried after this if its worker never reports back. */
+const CLAIM_LEASE = Prisma.raw(`interval '10 minutes'`);
+
+interface ClaimedJob {
+  id: bigint;
+  entity_type: EmbeddingEntityType;
+  entity_id: bigint;
+  attempts: number;
+  /** Exact timestamptz text; a JS Date would drop the microseconds. */
+  requested_at: string;
+}
+
+function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+async function claimDueJobs(limit: number): Promise<ClaimedJob[]> {
+  return prisma.$queryRaw<ClaimedJob[]>(Prisma.sql`
+    UPDATE embedding_jobs
+    SET attempts = attempts + 1,
+        next_attempt_at = now() + ${CLAIM_LEASE}
+    WHERE id IN (
+      SELECT id FROM embedding_jobs
+      WHERE status = 'pending' AND next_attempt_at <= now()
+      ORDER BY next_attempt_at, id
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, entity_type, entity_id, attempts, requested_at::text AS requested_at
+  `);
+}
+
+/** Remove a finished job unless it was re-requested while we worked on it. */
+function completeJob(job: ClaimedJob): Prisma.PrismaPromise<number> {
+  return prisma.$executeRaw(Prisma.sql`
+    DELETE FROM embedding_jobs
+    WHERE id = ${job.id} AND requested_at = ${job.requested_at}::timestamptz
+  `);
+}
+
+async function failJob(job: ClaimedJob, error: unknown, summary: EmbeddingRefreshSummary): Promise<void> {
+  const giveUp = job.attempts >= MAX_EMBEDDING_ATTEMPTS;
+  if (giveUp) summary.failed += 1;
+  else summary.retrying += 1;
+  const message = (error instanceof Error ? error.message : String(error)).slice(0, 1000);
+  await prisma.$executeRaw(Prisma.sql`
+    UPDATE embedding_jobs
+    SET status = ${giveUp ? 'failed' : 'pending'}::embedding_job_status,
+        next_attempt_at = ${new Date(Date.now() + retryDelayMs(job.attempts))},
+        last_error = ${message}
+    WHERE id = ${job.id} AND requested_at = ${job.requested_at}::timestamptz
+  `);
+}
+
+async function refreshType(
+  type: EmbeddingEntityType,
+  jobs: ClaimedJob[],
+  provider: EmbeddingProvider,
+  summary: EmbeddingRefreshSummary,
+): Promise<void> {
+  const target = EMBEDDING_TARGETS[type];
+  const ids = jobs.map((j) => j.entity_id);
+  const [texts, records] = await Promise.all([
+    target.loadTexts(ids),
+    prisma.embedding_records.findMany({ where: { entity_type: type, entity_id: { in: ids } } }),
+  ]);
+  const recordById = new Map(records.map((r) => [r.entity_id.toString(), r]));
+
+  const toEmbed: Array<{ job: ClaimedJob; text: string; hash: string }> = [];
+  const skipped: ClaimedJob[] = [];
+  for (const job of jobs) {
+    const text = texts.get(job.entity_id.toString());
+    // Deleted since it was queued, or nothing to embed.
+    if (!text) {
+      skipped.push(job);
+      continue;
+    }
+    const hash = contentHash(text);
+    const record = recordById.get(job.entity_id.toString());
+    const unchanged = record
+      && record.content_hash === hash
+      && record.provider === provider.name
+      && record.model === provider.model
+      && record.text_version === EMBEDDING_TEXT_VERSION;
+    if (unchanged) skipped.push(job);
+    else toEmbed.push({ job, text, hash });
+  }
+
+  if (skipped.length > 0) {
+    await prisma.$transaction(skipped.map(completeJob));
+    summary.skipped += skipped.length;
+  }
+  if (toEmbed.length === 0) return;
+
+  let vectors: number[][];
+  try {
+    vectors = await provider.embed(toEmbed.map((e) => e.text), 'document');
+    if (vectors.length !== toEmbed.length) {
+      throw new Error(`Provider returned ${vectors.length} vectors for ${toEmbed.length} inputs`);
+    }
+  } catch (error) {
+    console.error(`[embeddings] ${provider.name} failed for ${toEmbed.length} ${type}(s):`, error);
+    for (const { job } of toEmbed) await failJob(job, error, summary);
+    return;
+  }
+
+  for (let i = 0; i < toEmbed.length; i++) {
+    const { job, hash } = toEmbed[i];
+    const record = {
+      provider: provider.name,
+      model: provider.model,
+      text_version: EMBEDDING_TEXT_VERSION,
+      dimensions: vectors[i].length,
+      content_hash: hash,
+      embedded_at: new Date(),
+    };
+    try {
+      await prisma.$transaction([
+        prisma.$executeRaw(Prisma.sql`
+          UPDATE ${target.table}
+          SET ${target.column} = ${toVectorLiteral(vectors[i])}::${target.cast}
+          WHERE id = ${job.entity_id}
+        `),
+        prisma.embedding_records.upsert({
+          where: { entity_type_entity_id: { entity_type: type, entity_id: job.entity_id } },
+          create: { entity_type: type, entity_id: job.entity_id, ...record },
+          update: record,
+        }),
+        completeJob(job),
+      ]);
+      summary.embedded += 1;
+    } catch (error) {
+      await failJob(job, error, summary);
+    }
+  }
+}
+
+/** Embed up to `limit` due jobs with the configured provider. */
+export async function refreshEmbeddings({ limit = 100 }: { limit?: number } = {}): Promise<EmbeddingRefreshSummary> {
+  const provider = requireEmbeddingProvider();
+  const summary: EmbeddingRefreshSummary = { claimed: 0, embedded: 0, skipped: 0, retrying: 0, failed: 0 };
+  const claimed = await claimDueJobs(limit);
+  summary.claimed = claimed.length;
+
+  const byType = new Map<EmbeddingEntityType, ClaimedJob[]>();
+  for (const job of claimed) {
+    const list = byType.get(job.entity_type) ?? [];
+    list.push(job);
+    byType.set(job.entity_type, list);
+  }
+  for (const [type, jobs] of byType) {
+    await refreshType(type, jobs, provider, summary);
+  }
+  return summary;
+}
@@ -0,0 +1,233 @@
+/**
+ * Outbound webhook delivery.
+ *
+ * `deliverDomainEvents` runs in two steps, both safe to run concurrently:
+ *
+ *   1. Fan-out: claim domain events nobody has fanned out yet (FOR UPDATE
+ *      SKIP LOCKED on `fanned_out_at`) and create one `webhook_deliveries`
+ *      row per enabled endpoint whose `event_types` match. Endpoints only
+ *      receive events from after they were registered; use a replay for
+ *      older ones.
+ *   2. Delivery: claim due pending deliveries, bumping `attempts` and
+ *      leasing them for a few minutes so a crashed deliverer's rows come
+ *      back, then POST each one. Failures are rescheduled with exponential
+ *      backoff and marked `failed` after MAX_DELIVERY_ATTEMPTS.
+ *
+ * Every request carries the event JSON and
+ *
+ *   X-Source-Event: changeset.committed
+ *   X-Source-Event-Id: 1234
+ *   X-Source-Delivery: 5678
+ *   X-Source-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * signed with the endpoint's secret. Receivers should recompute the HMAC,
+ * reject stale timestamps and de-duplicate on the event id: delivery is
+ * at-least-once and not ordered across retries.
+ */
+
+import { createHmac } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { serializeDomainEvent } from './outbox';
+
+/** Give up (status `failed`) after this many attempts; replay to try again. */
+export const MAX_DELIVERY_ATTEMPTS = 10;
+/** First retry delay; doubles per attempt up to MAX_BACKOFF_MS (≈ 4h of retries in total). */
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 4 * 60 * 60 * 1000;
+/** A claimed delivery is retried after this if its deliverer never reports back. */
+const CLAIM_LEASE = Prisma.raw(`interval '5 minutes'`);
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface DeliverySummary {
+  events: number;
+  deliveries_created: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+interface ClaimedDelivery {
+  id: bigint;
+  endpoint_id: bigint;
+  event_id: bigint;
+  attempts: number;
+}
+
+/** Value of the X-Source-Signature header for `body` sent at `timestamp` (unix seconds). */
+export function signWebhookBody(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/** Delay before the attempt after `attempts` failed ones, with ±10% jitter. */
+export function backoffMs(attempts: number): number {
+  const base = Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+  return Math.round(base * (0.9 + Math.random() * 0.2));
+}
+
+/**
+ * SQL predicate: does `eventType` match the endpoint's `event_types`
+ * (exact or `<prefix>.*`; empty matches everything)? Mirrors
+ * `matchesEventType`.
+ */
+export function eventTypeMatchesSql(patterns: Prisma.Sql, eventType: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`(
+    cardinality(${patterns}) = 0
+    OR EXISTS (
+      SELECT 1 FROM unnest(${patterns}) AS p
+      WHERE p = ${eventType} OR (right(p, 2) = '.*' AND starts_with(${eventType}, left(p, -1)))
+    )
+  )`;
+}
+
+/** Step 1: turn up to `limit` new domain events into pending deliveries. */
+export async function fanOutDomainEvents(limit = 500): Promise<{ events: number; deliveries: number }> {
+  const [row] = await prisma.$queryRaw<Array<{ events: number; deliveries: number }>>(Prisma.sql`
+    WITH claimed AS (
+      UPDATE domain_events
+      SET fanned_out_at = now()
+      WHERE id IN (
+        SELECT id FROM domain_events
+        WHERE fanned_out_at IS NULL
+        ORDER BY id
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, event_type, occurred_at
+    ),
+    inserted AS (
+      INSERT INTO webhook_deliveries (endpoint_id, event_id)
+      SELECT e.id, c.id
+      FROM claimed c
+      JOIN webhook_endpoints e
+        ON e.enabled
+       AND e.created_at <= c.occurred_at
+       AND ${eventTypeMatchesSql(Prisma.sql`e.event_types`, Prisma.sql`c.event_type`)}
+      ON CONFLICT (endpoint_id, event_id) DO NOTHING
+      RETURNING 1
+    )
+    SELECT
+      (SELECT count(*) FROM claimed)::int AS events,
+      (SELECT count(*) FROM inserted)::int AS deliveries
+  `);
+  return row ?? { events: 0, deliveries: 0 };
+}
+
+async function claimDueDeliveries(limit: number): Promise<ClaimedDelivery[]> {
+  return prisma.$queryRaw<ClaimedDelivery[]>(Prisma.sql`
+    UPDATE webhook_deliveries
+    SET attempts = attempts + 1,
+        last_attempt_at = now(),
+        next_attempt_at = now() + ${CLAIM_LEASE}
+    WHERE id IN (
+      SELECT d.id
+      FROM webhook_deliveries d
+      JOIN webhook_endpoints e ON e.id = d.endpoint_id
+      WHERE d.status = 'pending'
+        AND d.next_attempt_at <= now()
+        AND e.enabled
+      ORDER BY d.next_attempt_at, d.id
+      LIMIT ${limit}
+      FOR UPDATE OF d SKIP LOCKED
+    )
+    RETURNING id, endpoint_id, event_id, attempts
+  `);
+}
+
+async function post(
+  url: string,
+  secret: string,
+  headers: Record<string, string>,
+  body: string,
+): Promise<{ ok: boolean; status: number | null; error: string | null }> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SourceConsole-Webhooks/1',
+        ...headers,
+        'X-Source-Signature': signWebhookBody(secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      redirect: 'manual',
+    });
+    if (res.ok) return { ok: true, status: res.status, error: null };
+    const text = await res.text().catch(() => '');
+    return { ok: false, status: res.status, error: `HTTP ${res.status}${text ? `: ${text.slice(0, 300)}` : ''}` };
+  } catch (error) {
+    return { ok: false, status: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/** Step 2: POST up to `limit` due deliveries in parallel and record the outcome. */
+export async function deliverDueWebhooks(limit = 100): Promise<Pick<DeliverySummary, 'sent' | 'retrying' | 'failed'>> {
+  const claimed = await claimDueDeliveries(limit);
+  const summary = { sent: 0, retrying: 0, failed: 0 };
+  if (claimed.length === 0) return summary;
+
+  const [endpoints, events] = await Promise.all([
+    prisma.webhook_endpoints.findMany({
+      where: { id: { in: [...new Set(claimed.map((d) => d.endpoint_id))] } },
+      select: { id: true, url: true, secret: true },
+    }),
+    prisma.domain_events.findMany({
+      where: { id: { in: [...new Set(claimed.map((d) => d.event_id))] } },
+    }),
+  ]);
+  const endpointById = new Map(endpoints.map((e) => [e.id, e]));
+  const eventById = new Map(events.map((e) => [e.id, e]));
+
+  await Promise.all(
+    claimed.map(async (delivery) => {
+      const endpoint = endpointById.get(delivery.endpoint_id);
+      const event = eventById.get(delivery.event_id);
+      // Both cascade-delete the delivery; a row deleted mid-claim just disappears.
+      if (!endpoint || !event) return;
+
+      const serialized = serializeDomainEvent(event);
+      const result = await post(
+        endpoint.url,
+        endpoint.secret,
+        {
+          'X-Source-Event': serialized.type,
+          'X-Source-Event-Id': serialized.id,
+          'X-Source-Delivery': delivery.id.toString(),
+        },
+        JSON.stringify(serialized),
+      );
+
+      if (result.ok) {
+        summary.sent += 1;
+        await prisma.webhook_deliveries.updateMany({
+          where: { id: delivery.id },
+          data: { status: 'succeeded', delivered_at: new Date(), response_status: result.status, last_error: null },
+        });
+        return;
+      }
+      const giveUp = delivery.attempts >= MAX_DELIVERY_ATTEMPTS;
+      if (giveUp) summary.failed += 1;
+      else summary.retrying += 1;
+      await prisma.webhook_deliveries.updateMany({
+        where: { id: delivery.id },
+        data: {
+          status: giveUp ? 'failed' : 'pending',
+          next_attempt_at: new Date(Date.now() + backoffMs(delivery.attempts)),
+          response_status: result.status,
+          last_error: result.error,
+        },
+      });
+    }),
+  );
+  return summary;
+}
+
+/** Fan out new events, then send whatever is due. */
+export async function deliverDomainEvents({ limit = 100 }: { limit?: number } = {}): Promise<DeliverySummary> {
+  const fanOut = await fanOutDomainEvents();
+  const delivered = await deliverDueWebhooks(limit);
+  return { events: fanOut.events, deliveries_created: fanOut.deliveries, ...delivered };
+}
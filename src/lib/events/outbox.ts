@@ -0,0 +1,156 @@
+/**
+ * Domain event outbox.
+ *
+ * The commit paths call the `record*InTx` helpers with their own
+ * transaction client, so an event row exists exactly when the change it
+ * describes committed; a rolled-back plan leaves no events behind. LLM job
+ * and health-check run events are written by triggers instead, because
+ * external workers update those rows directly.
+ *
+ * Consumers read the outbox by id cursor: the webhook deliverer
+ * (`./delivery`), GET /api/events and the SSE stream.
+ */
+
+import { Prisma, type domain_events } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { ChangesetWithFieldChanges } from '@/lib/version-control/types';
+import { matchesEventType, type DomainEvent, type DomainEventPage, type DomainEventType } from './types';
+
+/** Most events returned by one `listDomainEvents` call. */
+export const MAX_EVENT_PAGE_SIZE = 500;
+
+export interface DomainEventInput {
+  type: DomainEventType;
+  entityType: string;
+  entityId: bigint | null;
+  actor: string | null;
+  data?: Record<string, unknown>;
+}
+
+export async function recordDomainEventInTx(
+  tx: Prisma.TransactionClient,
+  event: DomainEventInput,
+): Promise<void> {
+  await tx.domain_events.create({
+    data: {
+      event_type: event.type,
+      entity_type: event.entityType,
+      entity_id: event.entityId,
+      actor: event.actor,
+      payload: (event.data ?? {}) as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * `changeset.committed` for a changeset `commitChangesetInTx` just
+ * applied. The row is re-read because a CREATE only learns its entity
+ * id during the commit.
+ */
+export async function recordChangesetCommittedInTx(
+  tx: Prisma.TransactionClient,
+  changeset: ChangesetWithFieldChanges,
+  committedBy: string,
+): Promise<void> {
+  const committed = await tx.changesets.findUnique({
+    where: { id: changeset.id },
+    select: { entity_id: true, change_plan_id: true },
+  });
+  await recordDomainEventInTx(tx, {
+    type: 'changeset.committed',
+    entityType: changeset.entity_type,
+    entityId: committed?.entity_id ?? changeset.entity_id,
+    actor: committedBy,
+    data: {
+      changeset_id: changeset.id.toString(),
+      operation: changeset.operation,
+      change_plan_id: committed?.change_plan_id?.toString() ?? null,
+      llm_job_id: changeset.llm_job_id?.toString() ?? null,
+      created_by: changeset.created_by,
+      fields: changeset.field_changes
+        .filter((fc) => fc.status === 'approved')
+        .map((fc) => fc.field_name),
+    },
+  });
+}
+
+export async function recordChangePlanEventInTx(
+  tx: Prisma.TransactionClient,
+  type: 'change_plan.committed' | 'change_plan.discarded',
+  plan: { id: bigint; plan_kind: string; summary: string | null; created_by: string },
+  actor: string,
+  changesetCount: number,
+): Promise<void> {
+  await recordDomainEventInTx(tx, {
+    type,
+    entityType: 'change_plan',
+    entityId: plan.id,
+    actor,
+    data: {
+      plan_kind: plan.plan_kind,
+      summary: plan.summary,
+      created_by: plan.created_by,
+      changeset_count: changesetCount,
+    },
+  });
+}
+
+export function serializeDomainEvent(row: domain_events): DomainEvent {
+  return {
+    id: row.id.toString(),
+    type: row.event_type as DomainEventType,
+    entity_type: row.entity_type,
+    entity_id: row.entity_id?.toString() ?? null,
+    actor: row.actor,
+    occurred_at: row.occurred_at.toISOString(),
+    data: (row.payload ?? {}) as Record<string, unknown>,
+  };
+}
+
+/** Id of the newest event, so a fresh subscriber can start "from now". */
+export async function latestDomainEventId(): Promise<bigint> {
+  const row = await prisma.domain_events.findFirst({ orderBy: { id: 'desc' }, select: { id: true } });
+  return row?.id ?? 0n;
+}
+
+/**
+ * Events with `id > after`, oldest first. `types` takes exact types or
+ * `<prefix>.*` wildcards, `entityTypes` filters on `entity_type`. The
+ * cursor advances past filtered-out rows so pollers never rescan them.
+ * A long transaction can commit a lower id after a higher one has been
+ * read, so consumers that must see every event should use a webhook.
+ * `settleMs` narrows that window: the page stops at the first event
+ * younger than it, so only transactions open longer than `settleMs` can
+ * still slip behind the cursor.
+ */
+export async function listDomainEvents({
+  after,
+  limit = 100,
+  types = [],
+  entityTypes = [],
+  settleMs = 0,
+}: {
+  after: bigint;
+  limit?: number;
+  types?: string[];
+  entityTypes?: string[];
+  settleMs?: number;
+}): Promise<DomainEventPage> {
+  const take = Math.min(Math.max(limit, 1), MAX_EVENT_PAGE_SIZE);
+  let rows = await prisma.domain_events.findMany({
+    where: { id: { gt: after } },
+    orderBy: { id: 'asc' },
+    take,
+  });
+  if (settleMs > 0) {
+    const settledBefore = Date.now() - settleMs;
+    const unsettled = rows.findIndex((r) => r.occurred_at.getTime() > settledBefore);
+    if (unsettled !== -1) rows = rows.slice(0, unsettled);
+  }
+  const last = rows.length > 0 ? rows[rows.length - 1].id : after;
+  const events = rows
+    .filter((r) => matchesEventType(r.event_type, types))
+    .filter((r) => entityTypes.length === 0 || entityTypes.includes(r.entity_type))
+    .map(serializeDomainEvent);
+  return { events, next_cursor: last.toString() };
+}
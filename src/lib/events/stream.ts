@@ -0,0 +1,74 @@
+/**
+ * Server-sent events over the domain event outbox.
+ *
+ * Each connection polls `domain_events` by id cursor and writes one SSE
+ * message per event (`id` = event id, `event` = event type, `data` = the
+ * serialized event). Heartbeats carry the current cursor as their `id`, so
+ * a reconnecting EventSource resumes past events it filtered out. The
+ * stream ends itself after STREAM_LIFETIME_MS to stay inside serverless
+ * limits; the browser reconnects with `Last-Event-ID` and carries on from
+ * its cursor.
+ *
+ * Events are held back until they are SETTLE_MS old, so one written by a
+ * transaction that commits after a newer event was sent is still picked
+ * up. A transaction open longer than that can still be skipped; consumers
+ * that must see every event should use a webhook.
+ */
+
+import { latestDomainEventId, listDomainEvents } from './outbox';
+
+const POLL_INTERVAL_MS = 2_000;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+/** Kept below the route's maxDuration. */
+const STREAM_LIFETIME_MS = 270_000;
+const RECONNECT_DELAY_MS = 1_000;
+const SETTLE_MS = 5_000;
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * SSE frames for events after `after` (or from now when null) matching
+ * `types` / `entityTypes`, until `signal` aborts or the lifetime is up.
+ */
+export async function* streamDomainEvents({
+  after,
+  types = [],
+  entityTypes = [],
+  signal,
+}: {
+  after: bigint | null;
+  types?: string[];
+  entityTypes?: string[];
+  signal: AbortSignal;
+}): AsyncGenerator<string> {
+  let cursor = after ?? (await latestDomainEventId());
+  const startedAt = Date.now();
+  let lastWriteAt = startedAt;
+
+  yield `retry: ${RECONNECT_DELAY_MS}\nid: ${cursor}\n: connected\n\n`;
+
+  while (!signal.aborted && Date.now() - startedAt < STREAM_LIFETIME_MS) {
+    const page = await listDomainEvents({ after: cursor, limit: 200, types, entityTypes, settleMs: SETTLE_MS });
+    const next = BigInt(page.next_cursor ?? cursor.toString());
+    for (const event of page.events) {
+      yield `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+      lastWriteAt = Date.now();
+    }
+    const advanced = next > cursor;
+    cursor = next;
+    if (Date.now() - lastWriteAt >= HEARTBEAT_INTERVAL_MS) {
+      yield `id: ${cursor}\n: heartbeat\n\n`;
+      lastWriteAt = Date.now();
+    }
+    // Keep reading while there's a backlog; otherwise wait for new events.
+    if (!advanced) await sleep(POLL_INTERVAL_MS, signal);
+  }
+}
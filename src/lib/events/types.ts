@@ -0,0 +1,81 @@
+/**
+ * Domain event types shared by the outbox, the webhook deliverer, the
+ * API routes and the Explorer's live-update hook.
+ *
+ * Events are written to `domain_events` in the same transaction as the
+ * change they describe (see `./outbox` and
+ * migrations/add_domain_events_outbox.sql).
+ */
+
+export type DomainEventType =
+  /** A changeset's writes landed (standalone or as part of a plan). */
+  | 'changeset.committed'
+  /** Every child of a change plan committed atomically. */
+  | 'change_plan.committed'
+  | 'change_plan.discarded'
+  /** Any llm_jobs.status transition, e.g. queued → running → completed. */
+  | 'llm_job.status_changed'
+  /** A health-check run reached completed, failed or cancelled. */
+  | 'health_check_run.finished';
+
+export const DOMAIN_EVENT_TYPES: readonly DomainEventType[] = [
+  'changeset.committed',
+  'change_plan.committed',
+  'change_plan.discarded',
+  'llm_job.status_changed',
+  'health_check_run.finished',
+];
+
+export interface DomainEvent {
+  id: string;
+  type: DomainEventType;
+  /** A changeset `entity_type` for changeset events, otherwise the resource (`change_plan`, `llm_job`, …). */
+  entity_type: string;
+  entity_id: string | null;
+  actor: string | null;
+  occurred_at: string;
+  data: Record<string, unknown>;
+}
+
+export interface DomainEventPage {
+  events: DomainEvent[];
+  /** Pass as `after` to continue; equals the input cursor when nothing new arrived. */
+  next_cursor: string | null;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  /** Exact event types or `<prefix>.*` wildcards; empty means every event. */
+  event_types: string[];
+  enabled: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  /** Only returned when the endpoint is created or its secret is rotated. */
+  secret?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+/** Whether `type` matches any of `patterns` (exact or `<prefix>.*`); no patterns matches everything. */
+export function matchesEventType(type: string, patterns: readonly string[]): boolean {
+  if (patterns.length === 0) return true;
+  return patterns.some((p) => p === type || (p.endsWith('.*') && type.startsWith(p.slice(0, -1))));
+}
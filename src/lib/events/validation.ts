@@ -0,0 +1,136 @@
+/**
+ * Validation for the event and webhook API input.
+ */
+
+import { DOMAIN_EVENT_TYPES, type WebhookDeliveryStatus } from './types';
+
+export class WebhookError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+/** Most events a single replay may cover. */
+export const MAX_REPLAY_EVENTS = 10_000;
+
+const EVENT_PREFIXES = new Set(DOMAIN_EVENT_TYPES.map((t) => t.split('.')[0]));
+
+function isEventTypePattern(value: string): boolean {
+  if (value.endsWith('.*')) return EVENT_PREFIXES.has(value.slice(0, -2));
+  return (DOMAIN_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+/** `types` query/body value: comma-separated string or array of exact types and `<prefix>.*` wildcards. */
+export function parseEventTypePatterns(value: unknown, field = 'event_types'): string[] {
+  if (value === undefined || value === null || value === '') return [];
+  const items = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(items) || items.some((t) => typeof t !== 'string')) {
+    throw new WebhookError(`${field} must be a list of event types`);
+  }
+  const patterns = [...new Set(items.map((t: string) => t.trim()).filter(Boolean))];
+  const unknown = patterns.filter((p) => !isEventTypePattern(p));
+  if (unknown.length > 0) {
+    throw new WebhookError(
+      `Unknown event type ${unknown.join(', ')}; use one of ${DOMAIN_EVENT_TYPES.join(', ')} or a "<prefix>.*" wildcard`,
+    );
+  }
+  return patterns;
+}
+
+/** Event id cursor (`after`, `Last-Event-ID`); absent means "not given". */
+export function parseEventCursor(value: string | null | undefined, field = 'after'): bigint | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (!/^\d+$/.test(value)) throw new WebhookError(`${field} must be a numeric event id`);
+  return BigInt(value);
+}
+
+function parseWebhookUrl(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) throw new WebhookError('url is required');
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new WebhookError('url must be an absolute URL');
+  }
+  if (url.protocol !== 'https:') throw new WebhookError('url must use https');
+  return url.toString();
+}
+
+export interface WebhookEndpointInput {
+  url?: string;
+  description?: string | null;
+  event_types?: string[];
+  enabled?: boolean;
+}
+
+/** POST (url required) or PATCH (`partial`) body for an endpoint. */
+export function parseWebhookEndpointInput(
+  body: Record<string, unknown>,
+  { partial = false }: { partial?: boolean } = {},
+): WebhookEndpointInput {
+  const input: WebhookEndpointInput = {};
+  if (!partial || body.url !== undefined) input.url = parseWebhookUrl(body.url);
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      throw new WebhookError('description must be a string');
+    }
+    input.description = body.description?.trim() || null;
+  }
+  if (body.event_types !== undefined) input.event_types = parseEventTypePatterns(body.event_types);
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') throw new WebhookError('enabled must be a boolean');
+    input.enabled = body.enabled;
+  }
+  return input;
+}
+
+export interface ReplayInput {
+  eventIds: bigint[] | null;
+  since: Date | null;
+  until: Date | null;
+  /** Only replay events whose existing delivery has this status. */
+  status: WebhookDeliveryStatus | null;
+}
+
+function parseDate(value: unknown, field: string): Date | null {
+  if (value === undefined || value === null || value === '') return null;
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) throw new WebhookError(`${field} must be an ISO timestamp`);
+  return date;
+}
+
+/**
+ * Replay selects events either by id (`event_ids`) or by time window
+ * (`since`, optional `until`), optionally narrowed to events whose
+ * delivery ended in `status` (e.g. re-send everything that `failed`).
+ */
+export function parseReplayInput(body: Record<string, unknown>): ReplayInput {
+  let eventIds: bigint[] | null = null;
+  if (body.event_ids !== undefined) {
+    if (
+      !Array.isArray(body.event_ids) ||
+      body.event_ids.length === 0 ||
+      body.event_ids.some((id) => !/^\d+$/.test(String(id)))
+    ) {
+      throw new WebhookError('event_ids must be a non-empty list of numeric event ids');
+    }
+    if (body.event_ids.length > MAX_REPLAY_EVENTS) {
+      throw new WebhookError(`At most ${MAX_REPLAY_EVENTS} events can be replayed at once`);
+    }
+    eventIds = body.event_ids.map((id) => BigInt(String(id)));
+  }
+  const since = parseDate(body.since, 'since');
+  const until = parseDate(body.until, 'until');
+  if (!eventIds && !since && body.status === undefined) {
+    throw new WebhookError('Provide event_ids, since or status');
+  }
+  let status: WebhookDeliveryStatus | null = null;
+  if (body.status !== undefined) {
+    if (body.status !== 'failed' && body.status !== 'succeeded' && body.status !== 'pending') {
+      throw new WebhookError('status must be pending, succeeded or failed');
+    }
+    status = body.status;
+  }
+  return { eventIds, since, until, status };
+}
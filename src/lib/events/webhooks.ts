@@ -0,0 +1,165 @@
+/**
+ * Webhook endpoint registry, delivery log and replay.
+ *
+ * Secrets are generated here and only returned when an endpoint is
+ * created or its secret rotated; list and update responses omit them.
+ */
+
+import { randomBytes } from 'crypto';
+import { Prisma, type webhook_deliveries, type webhook_endpoints } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { eventTypeMatchesSql } from './delivery';
+import type { WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint } from './types';
+import { MAX_REPLAY_EVENTS, WebhookError, type ReplayInput, type WebhookEndpointInput } from './validation';
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+export function serializeWebhookEndpoint(row: webhook_endpoints, { includeSecret = false } = {}): WebhookEndpoint {
+  return {
+    id: row.id.toString(),
+    url: row.url,
+    description: row.description,
+    event_types: row.event_types,
+    enabled: row.enabled,
+    created_by: row.created_by,
+    created_at: row.created_at.toISOString(),
+    updated_at: row.updated_at.toISOString(),
+    ...(includeSecret ? { secret: row.secret } : {}),
+  };
+}
+
+function serializeWebhookDelivery(row: webhook_deliveries & { event: { event_type: string } }): WebhookDelivery {
+  return {
+    id: row.id.toString(),
+    endpoint_id: row.endpoint_id.toString(),
+    event_id: row.event_id.toString(),
+    event_type: row.event.event_type,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    next_attempt_at: row.next_attempt_at.toISOString(),
+    last_attempt_at: row.last_attempt_at?.toISOString() ?? null,
+    response_status: row.response_status,
+    last_error: row.last_error,
+    delivered_at: row.delivered_at?.toISOString() ?? null,
+    created_at: row.created_at.toISOString(),
+  };
+}
+
+async function getEndpointOrThrow(id: bigint): Promise<webhook_endpoints> {
+  const endpoint = await prisma.webhook_endpoints.findUnique({ where: { id } });
+  if (!endpoint) throw new WebhookError(`Webhook endpoint ${id.toString()} not found`, 404);
+  return endpoint;
+}
+
+export async function listWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+  const rows = await prisma.webhook_endpoints.findMany({ orderBy: { id: 'asc' } });
+  return rows.map((row) => serializeWebhookEndpoint(row));
+}
+
+export async function createWebhookEndpoint(input: WebhookEndpointInput, createdBy: string): Promise<WebhookEndpoint> {
+  const row = await prisma.webhook_endpoints.create({
+    data: {
+      url: input.url!,
+      description: input.description ?? null,
+      event_types: input.event_types ?? [],
+      enabled: input.enabled ?? true,
+      secret: generateSecret(),
+      created_by: createdBy,
+    },
+  });
+  return serializeWebhookEndpoint(row, { includeSecret: true });
+}
+
+export async function updateWebhookEndpoint(
+  id: bigint,
+  input: WebhookEndpointInput,
+  { rotateSecret = false }: { rotateSecret?: boolean } = {},
+): Promise<WebhookEndpoint> {
+  await getEndpointOrThrow(id);
+  const row = await prisma.webhook_endpoints.update({
+    where: { id },
+    data: {
+      ...input,
+      ...(rotateSecret ? { secret: generateSecret() } : {}),
+      updated_at: new Date(),
+    },
+  });
+  return serializeWebhookEndpoint(row, { includeSecret: rotateSecret });
+}
+
+export async function deleteWebhookEndpoint(id: bigint): Promise<void> {
+  await getEndpointOrThrow(id);
+  await prisma.webhook_endpoints.delete({ where: { id } });
+}
+
+/** Newest deliveries for `endpointId`, optionally only those in `status`. */
+export async function listWebhookDeliveries(
+  endpointId: bigint,
+  { status, limit = 50, beforeId }: { status?: WebhookDeliveryStatus; limit?: number; beforeId?: bigint } = {},
+): Promise<WebhookDelivery[]> {
+  await getEndpointOrThrow(endpointId);
+  const rows = await prisma.webhook_deliveries.findMany({
+    where: {
+      endpoint_id: endpointId,
+      ...(status ? { status } : {}),
+      ...(beforeId ? { id: { lt: beforeId } } : {}),
+    },
+    include: { event: { select: { event_type: true } } },
+    orderBy: { id: 'desc' },
+    take: Math.min(Math.max(limit, 1), 200),
+  });
+  return rows.map(serializeWebhookDelivery);
+}
+
+/**
+ * Queue events for re-delivery to `endpointId`. Existing deliveries are
+ * reset to `pending` with a fresh attempt budget; events the endpoint
+ * never received (e.g. from before it was registered) get new rows as
+ * long as they match its `event_types`. With `status`, only existing
+ * deliveries in that state are replayed. Returns how many were queued.
+ */
+export async function replayWebhookDeliveries(endpointId: bigint, input: ReplayInput): Promise<number> {
+  await getEndpointOrThrow(endpointId);
+  const eventFilters: Prisma.Sql[] = [];
+  if (input.eventIds) eventFilters.push(Prisma.sql`ev.id IN (${Prisma.join(input.eventIds)})`);
+  if (input.since) eventFilters.push(Prisma.sql`ev.occurred_at >= ${input.since}`);
+  if (input.until) eventFilters.push(Prisma.sql`ev.occurred_at < ${input.until}`);
+  const where = eventFilters.length > 0 ? Prisma.join(eventFilters, ' AND ') : Prisma.sql`TRUE`;
+
+  if (input.status) {
+    return prisma.$executeRaw(Prisma.sql`
+      UPDATE webhook_deliveries
+      SET status = 'pending', attempts = 0, next_attempt_at = now(), last_error = NULL
+      WHERE id IN (
+        SELECT d.id
+        FROM webhook_deliveries d
+        JOIN domain_events ev ON ev.id = d.event_id
+        WHERE d.endpoint_id = ${endpointId}
+          AND d.status = ${input.status}::webhook_delivery_status
+          AND ${where}
+        ORDER BY d.event_id
+        LIMIT ${MAX_REPLAY_EVENTS}
+      )
+    `);
+  }
+
+  return prisma.$executeRaw(Prisma.sql`
+    INSERT INTO webhook_deliveries (endpoint_id, event_id)
+    SELECT e.id, ev.id
+    FROM domain_events ev
+    JOIN webhook_endpoints e ON e.id = ${endpointId}
+    WHERE ${where}
+      AND ${eventTypeMatchesSql(Prisma.sql`e.event_types`, Prisma.sql`ev.event_type`)}
+    ORDER BY ev.id
+    LIMIT ${MAX_REPLAY_EVENTS}
+    ON CONFLICT (endpoint_id, event_id) DO UPDATE
+    SET status = 'pending',
+        attempts = 0,
+        next_attempt_at = now(),
+        last_error = NULL,
+        response_status = NULL,
+        delivered_at = NULL
+  `);
+}
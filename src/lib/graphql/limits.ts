@@ -0,0 +1,144 @@
+/**
+ * Validation rules that bound how much work one GraphQL request can ask
+ * for, checked before anything resolves.
+ *
+ * Depth counts nested selections (fragments expanded). Cost is an
+ * estimate of rows loaded: every field costs 1, and a list field's
+ * sub-selection is multiplied by its `ids` argument length when it has
+ * one, or by `LIST_FAN_OUT` for relation lists whose size isn't known up
+ * front. Introspection fields are not counted so GraphiQL keeps working.
+ */
+
+import {
+  getNamedType,
+  getNullableType,
+  GraphQLError,
+  isInterfaceType,
+  isListType,
+  isObjectType,
+  Kind,
+  type ASTVisitor,
+  type GraphQLNamedType,
+  type SelectionSetNode,
+  type ValidationContext,
+  type ValueNode,
+} from 'graphql';
+import { MAX_IDS_PER_FIELD } from './schema';
+
+export const MAX_QUERY_DEPTH = 10;
+export const MAX_QUERY_COST = 10_000;
+/** Assumed rows per relation list (children, senses, fillers, ...). */
+const LIST_FAN_OUT = 10;
+
+/** Length of a list argument, whether written inline or passed as a variable. */
+function listLength(value: ValueNode, variables: Record<string, unknown>): number | null {
+  if (value.kind === Kind.LIST) return value.values.length;
+  if (value.kind === Kind.VARIABLE) {
+    const bound = variables[value.name.value];
+    return Array.isArray(bound) ? bound.length : null;
+  }
+  return null;
+}
+
+/**
+ * Build the rules for one request; `variables` are needed to size list
+ * arguments passed by variable.
+ */
+export function queryLimitRules(
+  variables: Record<string, unknown> | null | undefined,
+): Array<(context: ValidationContext) => ASTVisitor> {
+  const vars = variables ?? {};
+
+  const rule = (context: ValidationContext): ASTVisitor => {
+    const schema = context.getSchema();
+    let reported = false;
+    const report = (message: string) => {
+      if (reported) return;
+      reported = true;
+      context.reportError(new GraphQLError(message));
+    };
+
+    /** Returns [depth, cost] of a selection set on `parentType`. */
+    const measure = (
+      selectionSet: SelectionSetNode,
+      parentType: GraphQLNamedType | null | undefined,
+      visited: Set<string>,
+    ): [number, number] => {
+      let depth = 0;
+      let cost = 0;
+      for (const selection of selectionSet.selections) {
+        if (selection.kind === Kind.FIELD) {
+          const name = selection.name.value;
+          if (name.startsWith('__')) continue;
+          const fieldDef =
+            parentType && (isObjectType(parentType) || isInterfaceType(parentType))
+              ? parentType.getFields()[name]
+              : undefined;
+
+          let multiplier = 1;
+          for (const arg of selection.arguments ?? []) {
+            const length = listLength(arg.value, vars);
+            if (length === null) continue;
+            if (length > MAX_IDS_PER_FIELD) {
+              report(`${name}(${arg.name.value}) accepts at most ${MAX_IDS_PER_FIELD} values`);
+            }
+            if (arg.name.value === 'ids') multiplier = Math.max(length, 1);
+          }
+          if (multiplier === 1 && fieldDef && isListType(getNullableType(fieldDef.type))) {
+            multiplier = LIST_FAN_OUT;
+          }
+
+          if (selection.selectionSet) {
+            const [childDepth, childCost] = measure(
+              selection.selectionSet,
+              fieldDef ? getNamedType(fieldDef.type) : null,
+              visited,
+            );
+            depth = Math.max(depth, childDepth + 1);
+            cost += 1 + multiplier * childCost;
+          } else {
+            depth = Math.max(depth, 1);
+            cost += 1;
+          }
+        } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+          const type = selection.typeCondition ? schema.getType(selection.typeCondition.name.value) : parentType;
+          const [childDepth, childCost] = measure(selection.selectionSet, type, visited);
+          depth = Math.max(depth, childDepth);
+          cost += childCost;
+        } else {
+          const name = selection.name.value;
+          const fragment = context.getFragment(name);
+          // Cycles are reported by NoFragmentCyclesRule.
+          if (!fragment || visited.has(name)) continue;
+          const [childDepth, childCost] = measure(
+            fragment.selectionSet,
+            schema.getType(fragment.typeCondition.name.value),
+            new Set(visited).add(name),
+          );
+          depth = Math.max(depth, childDepth);
+          cost += childCost;
+        }
+      }
+      return [depth, cost];
+    };
+
+    return {
+      OperationDefinition(node) {
+        const rootType =
+          node.operation === 'query'
+            ? schema.getQueryType()
+            : node.operation === 'mutation'
+              ? schema.getMutationType()
+              : schema.getSubscriptionType();
+        const [depth, cost] = measure(node.selectionSet, rootType, new Set());
+        if (depth > MAX_QUERY_DEPTH) {
+          report(`Query depth ${depth} exceeds the limit of ${MAX_QUERY_DEPTH}`);
+        } else if (cost > MAX_QUERY_COST) {
+          report(`Query cost ${cost} exceeds the limit of ${MAX_QUERY_COST}; request fewer ids or nested lists`);
+        }
+      },
+    };
+  };
+
+  return [rule];
+}
@@ -0,0 +1,384 @@
+/**
+ * Per-request DataLoaders behind the GraphQL schema.
+ *
+ * Every nested field goes through a loader, so a query that asks for the
+ * properties of 200 concepts issues one `properties` query rather than
+ * 200. There are two loader sets per request: committed rows only, and
+ * rows with the pending-change overlay applied (`includePending`). The
+ * overlay uses `attachPendingInfoToEntities`, the batched form of
+ * `applyPendingToEntity`, so GraphQL previews match the Explorer.
+ */
+
+import DataLoader from 'dataloader';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { PendingChangeInfo } from '@/lib/types';
+import { attachPendingInfoToEntities } from '@/lib/version-control/merge';
+import type { EntityType } from '@/lib/version-control/types';
+
+/** A row as resolvers see it: its pending overlay, and which loader set it came from. */
+export type Node<T> = T & { pending: PendingChangeInfo | null; includePending: boolean };
+
+export type ConceptRow = Prisma.conceptsGetPayload<object>;
+export type SenseRow = Prisma.sensesGetPayload<object>;
+export type PropertyGroupRow = Prisma.property_groupsGetPayload<{
+  include: { property_group_members: { select: { property_id: true } } };
+}>;
+export type PropertyMappingRow = Prisma.property_mappingsGetPayload<object>;
+export type LexicalUnitRow = Prisma.lexical_unitsGetPayload<{ include: { lexical_unit_types: { select: { type: true } } } }>;
+export type LexicalUnitRelationRow = Prisma.lexical_unit_relationsGetPayload<object>;
+export type ReferentRow = Prisma.referentsGetPayload<{
+  include: { referent_aliases: { select: { alias: true } } };
+}>;
+export type InstanceRow = Prisma.instancesGetPayload<object>;
+export type InstanceFillerRow = Prisma.instance_fillersGetPayload<{
+  include: { properties: { select: { label: true } }; filler_types: { select: { label: true } } };
+}>;
+
+/**
+ * Properties are flattened to one shape because, with pending changes,
+ * a concept's property list can come from a staged `properties` edit
+ * whose rows have no database id yet.
+ */
+export interface PropertySource {
+  id: string;
+  concept_id: string;
+  label: string | null;
+  description: string | null;
+  notes: string | null;
+  main: boolean | null;
+  examples: string[];
+  fillers: unknown;
+  version: number | null;
+  pending: PendingChangeInfo | null;
+  includePending: boolean;
+}
+
+type ConceptNode = Node<ConceptRow> & { properties?: PropertySource[] };
+
+/** Pending parent_of edges, as staged `frame_relation` changesets. */
+interface PendingEdges {
+  created: Array<{ parent_id: bigint; child_id: bigint }>;
+  deleted: Array<{ parent_id: bigint; child_id: bigint }>;
+}
+
+function keyed<K, V>(keys: readonly K[], rows: V[], keyOf: (row: V) => K): Array<V | null> {
+  const byKey = new Map<K, V>();
+  for (const row of rows) byKey.set(keyOf(row), row);
+  return keys.map((key) => byKey.get(key) ?? null);
+}
+
+function grouped<K, V>(keys: readonly K[], rows: V[], keyOf: (row: V) => K): V[][] {
+  const byKey = new Map<K, V[]>(keys.map((key) => [key, []]));
+  for (const row of rows) byKey.get(keyOf(row))?.push(row);
+  return keys.map((key) => byKey.get(key) ?? []);
+}
+
+function toBigInt(value: unknown): bigint | null {
+  if (typeof value === 'bigint') return value;
+  if ((typeof value === 'string' && /^\d+$/.test(value)) || (typeof value === 'number' && Number.isInteger(value))) {
+    return BigInt(value);
+  }
+  return null;
+}
+
+function propertySource(row: Prisma.propertiesGetPayload<object>): Omit<PropertySource, 'pending' | 'includePending'> {
+  return {
+    id: row.id.toString(),
+    concept_id: row.concept_id.toString(),
+    label: row.label,
+    description: row.description,
+    notes: row.notes,
+    main: row.main,
+    examples: row.examples,
+    fillers: row.fillers,
+    version: row.version,
+  };
+}
+
+/**
+ * A staged `properties` edit replaces the list with the Explorer's preview
+ * shape (no concept id, fillers or version). Map it back, keeping the
+ * committed row's extra fields where the preview still refers to it.
+ */
+function restorePropertySources(preview: unknown, committed: PropertySource[], conceptId: bigint): PropertySource[] {
+  if (preview === committed || !Array.isArray(preview)) return committed;
+  const byId = new Map(committed.map((p) => [p.id, p]));
+  return preview.map((item: Record<string, unknown>) => {
+    const id = String(item.id);
+    const base = byId.get(id);
+    return {
+      id,
+      concept_id: conceptId.toString(),
+      label: typeof item.label === 'string' ? item.label : null,
+      description: typeof item.description === 'string' ? item.description : null,
+      notes: typeof item.notes === 'string' ? item.notes : null,
+      main: typeof item.main === 'boolean' ? item.main : null,
+      examples: Array.isArray(item.examples) ? item.examples.filter((ex): ex is string => typeof ex === 'string') : [],
+      fillers: base?.fillers ?? null,
+      version: base?.version ?? null,
+      pending: base?.pending ?? null,
+      includePending: true,
+    };
+  });
+}
+
+export function createLoaders(includePending: boolean) {
+  async function overlay<T extends object>(
+    rows: T[],
+    entityType: EntityType,
+    getId: (row: T) => bigint,
+  ): Promise<Array<Node<T>>> {
+    if (!includePending) return rows.map((row) => ({ ...row, pending: null, includePending }));
+    const merged = await attachPendingInfoToEntities(rows, entityType, getId);
+    return merged.map((row) => ({ ...row, includePending }));
+  }
+
+  let pendingEdges: Promise<PendingEdges> | null = null;
+  function loadPendingEdges(): Promise<PendingEdges> {
+    pendingEdges ??= prisma.changesets
+      .findMany({
+        where: { entity_type: 'frame_relation', status: 'pending', operation: { in: ['create', 'delete'] } },
+        select: { operation: true, before_snapshot: true, after_snapshot: true },
+      })
+      .then((rows) => {
+        const edges: PendingEdges = { created: [], deleted: [] };
+        for (const row of rows) {
+          const snapshot = (row.operation === 'create' ? row.after_snapshot : row.before_snapshot) as
+            | Record<string, unknown>
+            | null;
+          const parentId = toBigInt(snapshot?.parent_id);
+          const childId = toBigInt(snapshot?.child_id);
+          if (parentId === null || childId === null || (snapshot?.type ?? 'parent_of') !== 'parent_of') continue;
+          (row.operation === 'create' ? edges.created : edges.deleted).push({ parent_id: parentId, child_id: childId });
+        }
+        return edges;
+      });
+    return pendingEdges;
+  }
+
+  /** Direct neighbours in the parent_of DAG; `side` is the column the key matches. */
+  function edgeLoader(side: 'child_id' | 'parent_id') {
+    const other = side === 'child_id' ? 'parent_id' : 'child_id';
+    return new DataLoader<bigint, bigint[]>(async (keys) => {
+      const rows = await prisma.concept_relations.findMany({
+        where: { type: 'parent_of', [side]: { in: [...keys] } },
+        select: { parent_id: true, child_id: true },
+        orderBy: { [other]: 'asc' },
+      });
+      const ids = grouped(keys, rows, (row) => row[side]).map((group) => group.map((row) => row[other]));
+      if (!includePending) return ids;
+
+      const edges = await loadPendingEdges();
+      return keys.map((key, i) => {
+        const removed = new Set(edges.deleted.filter((e) => e[side] === key).map((e) => e[other]));
+        const kept = ids[i].filter((id) => !removed.has(id));
+        for (const edge of edges.created) {
+          if (edge[side] === key && !kept.includes(edge[other])) kept.push(edge[other]);
+        }
+        return kept;
+      });
+    });
+  }
+
+  const propertiesByConcept = new DataLoader<bigint, PropertySource[]>(async (keys) => {
+    const rows = await prisma.properties.findMany({
+      where: { concept_id: { in: [...keys] } },
+      orderBy: { id: 'asc' },
+    });
+    const merged = await overlay(rows, 'frame_role', (row) => row.id);
+    return grouped(
+      keys,
+      merged.map((row) => ({ ...propertySource(row), pending: row.pending, includePending })),
+      (row) => BigInt(row.concept_id),
+    );
+  });
+
+  const concept = new DataLoader<bigint, ConceptNode | null>(async (keys) => {
+    const rows = await prisma.concepts.findMany({ where: { id: { in: [...keys] } } });
+    if (!includePending) return keyed(keys, await overlay(rows, 'frame', (row) => row.id), (row) => row.id);
+
+    // Seed `properties` so staged concept-level property edits are applied
+    // on top of the committed list, exactly as the concept page previews them.
+    const properties = await propertiesByConcept.loadMany(rows.map((row) => row.id));
+    const seeded = rows.map((row, i) => {
+      const list = properties[i];
+      return { ...row, properties: list instanceof Error ? [] : list };
+    });
+    const merged = await overlay(seeded, 'frame', (row) => row.id);
+    return keyed(
+      keys,
+      merged.map((row, i) => ({ ...row, properties: restorePropertySources(row.properties, seeded[i].properties, row.id) })),
+      (row) => row.id,
+    );
+  });
+
+  const property = new DataLoader<bigint, PropertySource | null>(async (keys) => {
+    const rows = await prisma.properties.findMany({ where: { id: { in: [...keys] } } });
+    const merged = await overlay(rows, 'frame_role', (row) => row.id);
+    return keyed(
+      keys,
+      merged.map((row) => ({ ...propertySource(row), pending: row.pending, includePending })),
+      (row) => BigInt(row.id),
+    );
+  });
+
+  const propertyGroupsByConcept = new DataLoader<bigint, PropertyGroupRow[]>(async (keys) => {
+    const rows = await prisma.property_groups.findMany({
+      where: { concept_id: { in: [...keys] } },
+      include: { property_group_members: { select: { property_id: true }, orderBy: { property_id: 'asc' } } },
+      orderBy: { id: 'asc' },
+    });
+    return grouped(keys, rows, (row) => row.concept_id!);
+  });
+
+  function mappingLoader(side: 'parent_concept_id' | 'child_concept_id') {
+    return new DataLoader<bigint, Array<Node<PropertyMappingRow>>>(async (keys) => {
+      const rows = await prisma.property_mappings.findMany({
+        where: { [side]: { in: [...keys] } },
+        orderBy: { id: 'asc' },
+      });
+      const merged = await overlay(rows, 'frame_role_mapping', (row) => row.id);
+      return grouped(keys, merged, (row) => row[side]);
+    });
+  }
+
+  const sense = new DataLoader<number, Node<SenseRow> | null>(async (keys) => {
+    const rows = await prisma.senses.findMany({ where: { id: { in: [...keys] } } });
+    const merged = await overlay(rows, 'frame_sense', (row) => BigInt(row.id));
+    return keyed(keys, merged, (row) => row.id);
+  });
+
+  const senseIdsByConcept = new DataLoader<bigint, number[]>(async (keys) => {
+    const rows = await prisma.sense_concepts.findMany({
+      where: { concept_id: { in: [...keys] } },
+      select: { concept_id: true, sense_id: true },
+      orderBy: { sense_id: 'asc' },
+    });
+    return grouped(keys, rows, (row) => row.concept_id).map((group) => group.map((row) => row.sense_id));
+  });
+
+  const conceptIdsBySense = new DataLoader<number, bigint[]>(async (keys) => {
+    const rows = await prisma.sense_concepts.findMany({
+      where: { sense_id: { in: [...keys] } },
+      select: { concept_id: true, sense_id: true },
+      orderBy: { concept_id: 'asc' },
+    });
+    return grouped(keys, rows, (row) => row.sense_id).map((group) => group.map((row) => row.concept_id));
+  });
+
+  const lexicalUnitIdsBySense = new DataLoader<number, bigint[]>(async (keys) => {
+    const rows = await prisma.lexical_unit_senses.findMany({
+      where: { sense_id: { in: [...keys] }, lexical_units: { deleted: false } },
+      select: { lexical_unit_id: true, sense_id: true },
+      orderBy: { lexical_unit_id: 'asc' },
+    });
+    return grouped(keys, rows, (row) => row.sense_id).map((group) => group.map((row) => row.lexical_unit_id));
+  });
+
+  const lexicalUnit = new DataLoader<bigint, Node<LexicalUnitRow> | null>(async (keys) => {
+    const rows = await prisma.lexical_units.findMany({
+      where: { id: { in: [...keys] } },
+      include: { lexical_unit_types: { select: { type: true }, orderBy: { type: 'asc' } } },
+    });
+    const merged = await overlay(rows, 'lexical_unit', (row) => row.id);
+    return keyed(keys, merged, (row) => row.id);
+  });
+
+  const senseIdsByLexicalUnit = new DataLoader<bigint, number[]>(async (keys) => {
+    const rows = await prisma.lexical_unit_senses.findMany({
+      where: { lexical_unit_id: { in: [...keys] } },
+      select: { lexical_unit_id: true, sense_id: true },
+      orderBy: { sense_id: 'asc' },
+    });
+    return grouped(keys, rows, (row) => row.lexical_unit_id).map((group) => group.map((row) => row.sense_id));
+  });
+
+  function relationLoader(side: 'source_id' | 'target_id') {
+    return new DataLoader<bigint, Array<Node<LexicalUnitRelationRow>>>(async (keys) => {
+      const rows = await prisma.lexical_unit_relations.findMany({
+        where: { [side]: { in: [...keys] } },
+        orderBy: { id: 'asc' },
+      });
+      const merged = await overlay(rows, 'lexical_unit_relation', (row) => row.id);
+      return grouped(keys, merged, (row) => row[side]);
+    });
+  }
+
+  const referent = new DataLoader<bigint, Node<ReferentRow> | null>(async (keys) => {
+    const rows = await prisma.referents.findMany({
+      where: { id: { in: [...keys] } },
+      include: { referent_aliases: { select: { alias: true }, orderBy: { id: 'asc' } } },
+    });
+    const merged = await overlay(rows, 'referent', (row) => row.id);
+    return keyed(keys, merged, (row) => row.id);
+  });
+
+  const instance = new DataLoader<bigint, Node<InstanceRow> | null>(async (keys) => {
+    const rows = await prisma.instances.findMany({ where: { id: { in: [...keys] } } });
+    const merged = await overlay(rows, 'instance', (row) => row.id);
+    return keyed(keys, merged, (row) => row.id);
+  });
+
+  const instanceIdsByReferent = new DataLoader<bigint, bigint[]>(async (keys) => {
+    const rows = await prisma.instances.findMany({
+      where: { referent_id: { in: [...keys] } },
+      select: { id: true, referent_id: true },
+      orderBy: { id: 'asc' },
+    });
+    return grouped(keys, rows, (row) => row.referent_id!).map((group) => group.map((row) => row.id));
+  });
+
+  const fillersByInstance = new DataLoader<bigint, InstanceFillerRow[]>(async (keys) => {
+    const rows = await prisma.instance_fillers.findMany({
+      where: { instance_id: { in: [...keys] } },
+      include: { properties: { select: { label: true } }, filler_types: { select: { label: true } } },
+      orderBy: { id: 'asc' },
+    });
+    return grouped(keys, rows, (row) => row.instance_id);
+  });
+
+  return {
+    concept,
+    parentIds: edgeLoader('child_id'),
+    childIds: edgeLoader('parent_id'),
+    propertiesByConcept,
+    property,
+    propertyGroupsByConcept,
+    mappingsByParentConcept: mappingLoader('parent_concept_id'),
+    mappingsByChildConcept: mappingLoader('child_concept_id'),
+    sense,
+    senseIdsByConcept,
+    conceptIdsBySense,
+    lexicalUnitIdsBySense,
+    lexicalUnit,
+    senseIdsByLexicalUnit,
+    relationsBySource: relationLoader('source_id'),
+    relationsByTarget: relationLoader('target_id'),
+    referent,
+    instance,
+    instanceIdsByReferent,
+    fillersByInstance,
+  };
+}
+
+export type Loaders = ReturnType<typeof createLoaders>;
+
+export interface GraphQLContext {
+  /** The committed or the pending-overlay loader set. */
+  loaders(includePending: boolean): Loaders;
+}
+
+export function createGraphQLContext(): GraphQLContext {
+  const sets = new Map<boolean, Loaders>();
+  return {
+    loaders(includePending) {
+      let set = sets.get(includePending);
+      if (!set) {
+        set = createLoaders(includePending);
+        sets.set(includePending, set);
+      }
+      return set;
+    },
+  };
+}
@@ -0,0 +1,562 @@
+/**
+ * GraphQL schema over the ontology, served at /api/graphql.
+ *
+ * Covers concepts (with the parent_of DAG), properties, property groups,
+ * property mappings, senses, lexical units and their relations, referents
+ * and instances. Root fields and every nested field resolve through the
+ * request's DataLoaders (see `loaders.ts`).
+ *
+ * `includePending: true` on a root field returns rows with their pending
+ * changesets applied and fills each node's `pending` field; everything
+ * reached from that root inherits the same mode.
+ */
+
+import {
+  GraphQLBoolean,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+  Kind,
+  type GraphQLFieldConfig,
+  type GraphQLOutputType,
+  type ValueNode,
+} from 'graphql';
+import type { PendingChangeInfo } from '@/lib/types';
+import { parseSensesExistsFieldName } from '@/lib/version-control/sensesSubfields';
+import type {
+  ConceptRow,
+  GraphQLContext,
+  InstanceFillerRow,
+  InstanceRow,
+  LexicalUnitRelationRow,
+  LexicalUnitRow,
+  Node,
+  PropertyGroupRow,
+  PropertyMappingRow,
+  PropertySource,
+  ReferentRow,
+  SenseRow,
+} from './loaders';
+
+/** Upper bound on ids per list argument. */
+export const MAX_IDS_PER_FIELD = 500;
+
+/** Raised for bad arguments; its message is returned to the client as-is. */
+export class GraphQLInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GraphQLInputError';
+  }
+}
+
+// ============================================
+// Field helpers
+// ============================================
+
+type Source = { includePending: boolean } & object;
+type Field<S> = GraphQLFieldConfig<S, GraphQLContext, Record<string, unknown>>;
+
+function get(source: object, key: string): unknown {
+  return (source as Record<string, unknown>)[key] ?? null;
+}
+
+const nonNull = <T extends GraphQLOutputType>(type: T) => new GraphQLNonNull(type);
+const listOf = <T extends GraphQLOutputType>(type: T) => nonNull(new GraphQLList(nonNull(type)));
+
+/** A column read straight off the row (pending values already applied). */
+function column<S extends object>(type: GraphQLOutputType, key: string, description?: string): Field<S> {
+  return { type, description, resolve: (source) => get(source, key) };
+}
+
+/** Bigint ids and foreign keys, as strings. */
+function idColumn<S extends object>(key: string, required = true): Field<S> {
+  return {
+    type: required ? nonNull(GraphQLID) : GraphQLID,
+    resolve: (source) => {
+      const value = get(source, key);
+      return value === null ? null : String(value);
+    },
+  };
+}
+
+/** Timestamps as ISO 8601; pending values arrive as strings already. */
+function timestamp<S extends object>(key: string): Field<S> {
+  return {
+    type: GraphQLString,
+    resolve: (source) => {
+      const value = get(source, key);
+      return value instanceof Date ? value.toISOString() : value;
+    },
+  };
+}
+
+function parseId(value: unknown, name: string): bigint {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    throw new GraphQLInputError(`${name} must be a numeric id`);
+  }
+  return BigInt(value);
+}
+
+function parseIds(value: unknown, name: string): bigint[] {
+  const ids = value as unknown[];
+  if (ids.length > MAX_IDS_PER_FIELD) {
+    throw new GraphQLInputError(`${name} accepts at most ${MAX_IDS_PER_FIELD} ids`);
+  }
+  return ids.map((id) => parseId(id, name));
+}
+
+function senseKey(id: bigint): number {
+  if (id > 2147483647n) throw new GraphQLInputError('sense id is out of range');
+  return Number(id);
+}
+
+/** Drop ids the loader didn't find (or failed on) from a list field. */
+function present<T>(values: Array<T | null | Error>): T[] {
+  return values.filter((value): value is T => value !== null && !(value instanceof Error));
+}
+
+// ============================================
+// Types
+// ============================================
+
+const JSONScalar = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Arbitrary JSON value.',
+  serialize: (value) => value,
+  parseValue: (value) => value,
+  parseLiteral: function parseLiteral(ast: ValueNode): unknown {
+    switch (ast.kind) {
+      case Kind.STRING:
+      case Kind.BOOLEAN:
+        return ast.value;
+      case Kind.INT:
+      case Kind.FLOAT:
+        return Number(ast.value);
+      case Kind.LIST:
+        return ast.values.map(parseLiteral);
+      case Kind.OBJECT:
+        return Object.fromEntries(ast.fields.map((f) => [f.name.value, parseLiteral(f.value)]));
+      default:
+        return null;
+    }
+  },
+});
+
+const PendingFieldType = new GraphQLObjectType<{ name: string } & PendingChangeInfo['pending_fields'][string]>({
+  name: 'PendingField',
+  fields: {
+    name: { type: nonNull(GraphQLString) },
+    status: { type: nonNull(GraphQLString) },
+    oldValue: column(JSONScalar, 'old_value'),
+    newValue: column(JSONScalar, 'new_value'),
+  },
+});
+
+const PendingChangeType = new GraphQLObjectType<PendingChangeInfo>({
+  name: 'PendingChange',
+  description: 'The pending changeset for a row, when queried with includePending.',
+  fields: {
+    operation: { type: nonNull(GraphQLString) },
+    changesetId: column(nonNull(GraphQLID), 'changeset_id'),
+    fields: {
+      type: listOf(PendingFieldType),
+      resolve: (pending) => Object.entries(pending.pending_fields).map(([name, field]) => ({ name, ...field })),
+    },
+  },
+});
+
+const pendingField: Field<Source> = {
+  type: PendingChangeType,
+  description: 'Null unless includePending is set and the row has a pending changeset.',
+  resolve: (source) => get(source, 'pending'),
+};
+
+const ConceptType: GraphQLObjectType<Node<ConceptRow> & { properties?: PropertySource[] }, GraphQLContext> =
+  new GraphQLObjectType({
+    name: 'Concept',
+    fields: () => ({
+      id: idColumn('id'),
+      code: column(GraphQLString, 'code'),
+      label: column(nonNull(GraphQLString), 'label'),
+      definition: column(GraphQLString, 'definition'),
+      shortDefinition: column(GraphQLString, 'short_definition'),
+      archetype: column(GraphQLString, 'archetype'),
+      subtype: column(GraphQLString, 'subtype'),
+      domain: column(GraphQLString, 'domain'),
+      stateKind: column(GraphQLString, 'state_kind'),
+      vendler: column(GraphQLString, 'vendler'),
+      wikidataId: column(GraphQLString, 'wikidata_id'),
+      statistical: column(GraphQLBoolean, 'statistical'),
+      quantitative: column(GraphQLBoolean, 'quantitative'),
+      descendantCount: column(GraphQLInt, 'descendant_count'),
+      deleted: column(GraphQLBoolean, 'deleted'),
+      mergedIntoId: idColumn('merged_into', false),
+      version: column(GraphQLInt, 'version'),
+      createdAt: timestamp('created_at'),
+      updatedAt: timestamp('updated_at'),
+      pending: pendingField,
+      parents: {
+        type: listOf(ConceptType),
+        description: 'Direct parents in the parent_of DAG.',
+        resolve: async (concept, _args, ctx) => {
+          const loaders = ctx.loaders(concept.includePending);
+          return present(await loaders.concept.loadMany(await loaders.parentIds.load(concept.id)));
+        },
+      },
+      children: {
+        type: listOf(ConceptType),
+        description: 'Direct children in the parent_of DAG.',
+        resolve: async (concept, _args, ctx) => {
+          const loaders = ctx.loaders(concept.includePending);
+          return present(await loaders.concept.loadMany(await loaders.childIds.load(concept.id)));
+        },
+      },
+      properties: {
+        type: listOf(PropertyType),
+        resolve: (concept, _args, ctx) =>
+          concept.properties ?? ctx.loaders(concept.includePending).propertiesByConcept.load(concept.id),
+      },
+      propertyGroups: {
+        type: listOf(PropertyGroupType),
+        resolve: async (concept, _args, ctx) => {
+          const groups = await ctx.loaders(concept.includePending).propertyGroupsByConcept.load(concept.id);
+          return groups.map((group) => ({ ...group, includePending: concept.includePending }));
+        },
+      },
+      inheritedPropertyMappings: {
+        type: listOf(PropertyMappingType),
+        description: "How this concept's parents' properties map onto its own.",
+        resolve: (concept, _args, ctx) => ctx.loaders(concept.includePending).mappingsByChildConcept.load(concept.id),
+      },
+      inheritingPropertyMappings: {
+        type: listOf(PropertyMappingType),
+        description: "How this concept's properties map onto its children's.",
+        resolve: (concept, _args, ctx) => ctx.loaders(concept.includePending).mappingsByParentConcept.load(concept.id),
+      },
+      senses: {
+        type: listOf(SenseType),
+        resolve: async (concept, _args, ctx) => {
+          const loaders = ctx.loaders(concept.includePending);
+          return present(await loaders.sense.loadMany(await loaders.senseIdsByConcept.load(concept.id)));
+        },
+      },
+    }),
+  });
+
+const PropertyType: GraphQLObjectType<PropertySource, GraphQLContext> = new GraphQLObjectType({
+  name: 'Property',
+  fields: () => ({
+    id: {
+      type: nonNull(GraphQLID),
+      description: 'Numeric for committed properties; "pending-role-N" for ones a pending edit adds.',
+    },
+    conceptId: column(nonNull(GraphQLID), 'concept_id'),
+    label: { type: GraphQLString },
+    description: { type: GraphQLString },
+    notes: { type: GraphQLString },
+    main: { type: GraphQLBoolean },
+    examples: { type: listOf(GraphQLString) },
+    fillers: { type: JSONScalar, description: 'Filler specification as stored.' },
+    version: { type: GraphQLInt },
+    pending: pendingField,
+    concept: {
+      type: ConceptType,
+      resolve: (property, _args, ctx) =>
+        ctx.loaders(property.includePending).concept.load(BigInt(property.concept_id)),
+    },
+  }),
+});
+
+const PropertyGroupType: GraphQLObjectType<PropertyGroupRow & Source, GraphQLContext> = new GraphQLObjectType({
+  name: 'PropertyGroup',
+  description: 'A set of properties of which at least one must be filled (when requireAtLeastOne).',
+  fields: () => ({
+    id: idColumn('id'),
+    conceptId: idColumn('concept_id', false),
+    description: column(GraphQLString, 'description'),
+    requireAtLeastOne: column(nonNull(GraphQLBoolean), 'require_at_least_one'),
+    properties: {
+      type: listOf(PropertyType),
+      resolve: async (group, _args, ctx) =>
+        present(
+          await ctx
+            .loaders(group.includePending)
+            .property.loadMany(group.property_group_members.map((m) => m.property_id)),
+        ),
+    },
+  }),
+});
+
+const PropertyMappingType: GraphQLObjectType<Node<PropertyMappingRow>, GraphQLContext> = new GraphQLObjectType({
+  name: 'PropertyMapping',
+  description: "Maps a parent concept's property onto a child's (or marks it absorbed).",
+  fields: () => ({
+    id: idColumn('id'),
+    parentConceptId: idColumn('parent_concept_id'),
+    childConceptId: idColumn('child_concept_id'),
+    parentPropertyLabel: column(nonNull(GraphQLString), 'parent_property_label'),
+    childPropertyLabel: column(GraphQLString, 'child_property_label'),
+    isAbsorbed: column(GraphQLBoolean, 'is_absorbed'),
+    incorporatedValue: column(GraphQLString, 'incorporated_value'),
+    pending: pendingField,
+    parentConcept: {
+      type: ConceptType,
+      resolve: (mapping, _args, ctx) => ctx.loaders(mapping.includePending).concept.load(mapping.parent_concept_id),
+    },
+    childConcept: {
+      type: ConceptType,
+      resolve: (mapping, _args, ctx) => ctx.loaders(mapping.includePending).concept.load(mapping.child_concept_id),
+    },
+  }),
+});
+
+const SenseType: GraphQLObjectType<Node<SenseRow>, GraphQLContext> = new GraphQLObjectType({
+  name: 'Sense',
+  fields: () => ({
+    id: idColumn('id'),
+    pos: column(nonNull(GraphQLString), 'pos'),
+    definition: column(nonNull(GraphQLString), 'definition'),
+    archetype: column(GraphQLString, 'archetype'),
+    lemmas: column(listOf(GraphQLString), 'lemmas'),
+    confidence: column(GraphQLString, 'confidence'),
+    typeDispute: column(GraphQLString, 'type_dispute'),
+    causative: column(GraphQLBoolean, 'causative'),
+    inchoative: column(GraphQLBoolean, 'inchoative'),
+    perspectival: column(GraphQLBoolean, 'perspectival'),
+    createdAt: timestamp('created_at'),
+    updatedAt: timestamp('updated_at'),
+    pending: pendingField,
+    concepts: {
+      type: listOf(ConceptType),
+      resolve: async (sense, _args, ctx) => {
+        const loaders = ctx.loaders(sense.includePending);
+        return present(await loaders.concept.loadMany(await loaders.conceptIdsBySense.load(sense.id)));
+      },
+    },
+    lexicalUnits: {
+      type: listOf(LexicalUnitType),
+      resolve: async (sense, _args, ctx) => {
+        const loaders = ctx.loaders(sense.includePending);
+        return present(await loaders.lexicalUnit.loadMany(await loaders.lexicalUnitIdsBySense.load(sense.id)));
+      },
+    },
+  }),
+});
+
+/** Sense ids of a lexical unit, with staged `senses.<id>.__exists` attach/detach applied. */
+function effectiveSenseIds(unit: Node<LexicalUnitRow>, committed: number[]): number[] {
+  if (!unit.pending) return committed;
+  const ids = new Set(committed);
+  for (const [name, field] of Object.entries(unit.pending.pending_fields)) {
+    const parsed = parseSensesExistsFieldName(name);
+    if (!parsed || field.status === 'rejected') continue;
+    if (field.new_value) ids.add(parsed.senseId);
+    else ids.delete(parsed.senseId);
+  }
+  return [...ids].sort((a, b) => a - b);
+}
+
+const LexicalUnitType: GraphQLObjectType<Node<LexicalUnitRow>, GraphQLContext> = new GraphQLObjectType({
+  name: 'LexicalUnit',
+  fields: () => ({
+    id: idColumn('id'),
+    code: column(nonNull(GraphQLString), 'code'),
+    pos: column(nonNull(GraphQLString), 'pos'),
+    lemmas: column(listOf(GraphQLString), 'lemmas'),
+    srcLemmas: column(listOf(GraphQLString), 'src_lemmas'),
+    gloss: column(nonNull(GraphQLString), 'gloss'),
+    examples: column(listOf(GraphQLString), 'examples'),
+    lexfile: column(GraphQLString, 'lexfile'),
+    isMwe: column(GraphQLBoolean, 'is_mwe'),
+    vendlerClass: column(GraphQLString, 'vendler_class'),
+    wikidataId: column(GraphQLString, 'wikidata_id'),
+    deleted: column(GraphQLBoolean, 'deleted'),
+    version: column(GraphQLInt, 'version'),
+    createdAt: timestamp('created_at'),
+    updatedAt: timestamp('updated_at'),
+    types: {
+      type: listOf(GraphQLString),
+      resolve: (unit) => unit.lexical_unit_types.map((t) => t.type),
+    },
+    pending: pendingField,
+    senses: {
+      type: listOf(SenseType),
+      resolve: async (unit, _args, ctx) => {
+        const loaders = ctx.loaders(unit.includePending);
+        const ids = effectiveSenseIds(unit, await loaders.senseIdsByLexicalUnit.load(unit.id));
+        return present(await loaders.sense.loadMany(ids));
+      },
+    },
+    outgoingRelations: {
+      type: listOf(LexicalUnitRelationType),
+      resolve: (unit, _args, ctx) => ctx.loaders(unit.includePending).relationsBySource.load(unit.id),
+    },
+    incomingRelations: {
+      type: listOf(LexicalUnitRelationType),
+      resolve: (unit, _args, ctx) => ctx.loaders(unit.includePending).relationsByTarget.load(unit.id),
+    },
+  }),
+});
+
+const LexicalUnitRelationType: GraphQLObjectType<Node<LexicalUnitRelationRow>, GraphQLContext> =
+  new GraphQLObjectType({
+    name: 'LexicalUnitRelation',
+    fields: () => ({
+      id: idColumn('id'),
+      type: column(nonNull(GraphQLString), 'type'),
+      sourceId: idColumn('source_id'),
+      targetId: idColumn('target_id'),
+      weight: column(GraphQLFloat, 'weight'),
+      properties: column(JSONScalar, 'properties'),
+      pending: pendingField,
+      source: {
+        type: LexicalUnitType,
+        resolve: (relation, _args, ctx) => ctx.loaders(relation.includePending).lexicalUnit.load(relation.source_id),
+      },
+      target: {
+        type: LexicalUnitType,
+        resolve: (relation, _args, ctx) => ctx.loaders(relation.includePending).lexicalUnit.load(relation.target_id),
+      },
+    }),
+  });
+
+const ReferentType: GraphQLObjectType<Node<ReferentRow>, GraphQLContext> = new GraphQLObjectType({
+  name: 'Referent',
+  fields: () => ({
+    id: idColumn('id'),
+    canonicalLabel: column(nonNull(GraphQLString), 'canonical_label'),
+    typeConceptId: idColumn('type_concept_id'),
+    knowledgeGraphId: idColumn('knowledge_graph_id', false),
+    mergedIntoId: idColumn('merged_into_id', false),
+    metadata: column(JSONScalar, 'metadata'),
+    aliases: {
+      type: listOf(GraphQLString),
+      resolve: (referent) => referent.referent_aliases.map((a) => a.alias),
+    },
+    createdAt: timestamp('created_at'),
+    updatedAt: timestamp('updated_at'),
+    pending: pendingField,
+    typeConcept: {
+      type: ConceptType,
+      resolve: (referent, _args, ctx) => ctx.loaders(referent.includePending).concept.load(referent.type_concept_id),
+    },
+    instances: {
+      type: listOf(InstanceType),
+      resolve: async (referent, _args, ctx) => {
+        const loaders = ctx.loaders(referent.includePending);
+        return present(await loaders.instance.loadMany(await loaders.instanceIdsByReferent.load(referent.id)));
+      },
+    },
+  }),
+});
+
+const InstanceFillerType: GraphQLObjectType<InstanceFillerRow & Source, GraphQLContext> = new GraphQLObjectType({
+  name: 'InstanceFiller',
+  fields: () => ({
+    id: idColumn('id'),
+    propertyId: idColumn('property_id'),
+    propertyLabel: { type: GraphQLString, resolve: (filler) => filler.properties.label },
+    value: column(GraphQLString, 'filler_value', 'Set for primitive fillers.'),
+    valueType: { type: GraphQLString, resolve: (filler) => filler.filler_types?.label ?? null },
+    confidence: column(GraphQLFloat, 'confidence'),
+    fillerInstance: {
+      type: InstanceType,
+      description: 'Set for instance-valued fillers.',
+      resolve: (filler, _args, ctx) =>
+        filler.filler_instance_id === null
+          ? null
+          : ctx.loaders(filler.includePending).instance.load(filler.filler_instance_id),
+    },
+  }),
+});
+
+const InstanceType: GraphQLObjectType<Node<InstanceRow>, GraphQLContext> = new GraphQLObjectType({
+  name: 'Instance',
+  description: 'A claims ABox instance of a concept.',
+  fields: () => ({
+    id: idColumn('id'),
+    conceptId: idColumn('concept_id'),
+    confidence: column(GraphQLFloat, 'confidence'),
+    referentialStatus: column(nonNull(GraphQLString), 'referential_status'),
+    knowledgeGraphId: idColumn('knowledge_graph_id', false),
+    sourceTextId: idColumn('source_text_id', false),
+    metadata: column(JSONScalar, 'metadata'),
+    createdAt: timestamp('created_at'),
+    pending: pendingField,
+    concept: {
+      type: ConceptType,
+      resolve: (instance, _args, ctx) => ctx.loaders(instance.includePending).concept.load(instance.concept_id),
+    },
+    referent: {
+      type: ReferentType,
+      resolve: (instance, _args, ctx) =>
+        instance.referent_id === null ? null : ctx.loaders(instance.includePending).referent.load(instance.referent_id),
+    },
+    fillers: {
+      type: listOf(InstanceFillerType),
+      resolve: async (instance, _args, ctx) => {
+        const fillers = await ctx.loaders(instance.includePending).fillersByInstance.load(instance.id);
+        return fillers.map((filler) => ({ ...filler, includePending: instance.includePending }));
+      },
+    },
+  }),
+});
+
+// ============================================
+// Root
+// ============================================
+
+const includePendingArg = {
+  includePending: {
+    type: GraphQLBoolean,
+    defaultValue: false,
+    description: 'Apply pending changesets to the returned rows and everything nested under them.',
+  },
+};
+
+/** `<name>(id)` and `<plural>(ids)` root fields over one by-id loader. */
+function byIdFields<T>(
+  name: string,
+  plural: string,
+  type: GraphQLObjectType,
+  load: (ctx: GraphQLContext, includePending: boolean, ids: bigint[]) => Promise<Array<T | null | Error>>,
+): Record<string, Field<unknown>> {
+  return {
+    [name]: {
+      type,
+      args: { id: { type: nonNull(GraphQLID) }, ...includePendingArg },
+      resolve: async (_root, args, ctx) => {
+        const [row] = await load(ctx, args.includePending as boolean, [parseId(args.id, 'id')]);
+        if (row instanceof Error) throw row;
+        return row;
+      },
+    },
+    [plural]: {
+      type: listOf(type),
+      description: `Up to ${MAX_IDS_PER_FIELD} ids; unknown ids are skipped.`,
+      args: { ids: { type: nonNull(new GraphQLList(nonNull(GraphQLID))) }, ...includePendingArg },
+      resolve: async (_root, args, ctx) =>
+        present(await load(ctx, args.includePending as boolean, parseIds(args.ids, 'ids'))),
+    },
+  };
+}
+
+const QueryType = new GraphQLObjectType<unknown, GraphQLContext>({
+  name: 'Query',
+  fields: () => ({
+    ...byIdFields('concept', 'concepts', ConceptType, (ctx, p, ids) => ctx.loaders(p).concept.loadMany(ids)),
+    ...byIdFields('property', 'properties', PropertyType, (ctx, p, ids) => ctx.loaders(p).property.loadMany(ids)),
+    ...byIdFields('sense', 'senses', SenseType, (ctx, p, ids) => ctx.loaders(p).sense.loadMany(ids.map(senseKey))),
+    ...byIdFields('lexicalUnit', 'lexicalUnits', LexicalUnitType, (ctx, p, ids) => ctx.loaders(p).lexicalUnit.loadMany(ids)),
+    ...byIdFields('referent', 'referents', ReferentType, (ctx, p, ids) => ctx.loaders(p).referent.loadMany(ids)),
+    ...byIdFields('instance', 'instances', InstanceType, (ctx, p, ids) => ctx.loaders(p).instance.loadMany(ids)),
+  }),
+});
+
+export const schema = new GraphQLSchema({ query: QueryType });
@@ -0,0 +1,404 @@
+/**
+ * Server-side helpers for browsing and triaging health check findings.
+ *
+ * Findings are written by `recordHealthCheckResult`; this module is the
+ * read side for reviewers plus the manual status transitions
+ * (false positive / ignore / reopen). Every status change recomputes
+ * `health_check_state.open_findings_count` for the affected targets in
+ * the same transaction, using the same count the result writer uses.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { IssuePriority } from '@/lib/issues/types';
+import { countOpenFindings, type HealthCheckTarget } from './results';
+import type {
+  ConceptArchetype,
+  ConceptSubtype,
+  HealthCheckEntityType,
+  HealthCheckFindingSummary,
+  HealthFindingReviewStatus,
+  HealthFindingStagedChange,
+  HealthFindingStatus,
+} from './types';
+
+export interface HealthFindingFilters {
+  statuses?: HealthFindingStatus[];
+  check_definition_id?: bigint;
+  /** Diagnosis code ids or code strings (e.g. `FS-001-S`). */
+  diagnosis_code_ids?: bigint[];
+  diagnosis_codes?: string[];
+  group_ids?: bigint[];
+  severities?: IssuePriority[];
+  entity_types?: HealthCheckEntityType[];
+  entity_id?: bigint;
+  /** Matched against the anchor concept (see `HealthCheckFindingSummary`). */
+  archetypes?: ConceptArchetype[];
+  subtypes?: ConceptSubtype[];
+  first_seen_from?: Date;
+  first_seen_to?: Date;
+  last_seen_from?: Date;
+  last_seen_to?: Date;
+}
+
+export interface ListHealthFindingsOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export interface ListHealthFindingsResult {
+  findings: HealthCheckFindingSummary[];
+  total: number;
+}
+
+type FindingIdRow = {
+  id: bigint;
+  anchor_concept_id: bigint | null;
+  entity_label: string | null;
+};
+
+/**
+ * Concept a finding's target hangs off. Senses resolve through
+ * `sense_concepts`, lexical units through their first linked sense,
+ * relations through their child, properties through their owning concept.
+ */
+const ANCHOR_CONCEPT_SQL = Prisma.sql`
+  CASE r.entity_type::text
+    WHEN 'concept' THEN r.entity_id
+    WHEN 'property' THEN (SELECT p.concept_id FROM properties p WHERE p.id = r.entity_id)
+    WHEN 'concept_relation' THEN (SELECT cr.child_id FROM concept_relations cr WHERE cr.id = r.entity_id)
+    WHEN 'sense' THEN (
+      SELECT sc.concept_id FROM sense_concepts sc
+      WHERE sc.sense_id = r.entity_id::int
+      ORDER BY sc.concept_id
+      LIMIT 1
+    )
+    WHEN 'lexical_unit' THEN (
+      SELECT sc.concept_id FROM lexical_unit_senses lus
+      JOIN sense_concepts sc ON sc.sense_id = lus.sense_id
+      WHERE lus.lexical_unit_id = r.entity_id
+      ORDER BY sc.concept_id
+      LIMIT 1
+    )
+    ELSE NULL
+  END
+`;
+
+const ENTITY_LABEL_SQL = Prisma.sql`
+  CASE r.entity_type::text
+    WHEN 'lexical_unit' THEN (SELECT lu.code FROM lexical_units lu WHERE lu.id = r.entity_id)
+    WHEN 'property' THEN (
+      SELECT COALESCE(ac.label || '.', '') || COALESCE(p.label, '#' || p.id::text)
+      FROM properties p WHERE p.id = r.entity_id
+    )
+    WHEN 'sense' THEN (SELECT left(s.definition, 120) FROM senses s WHERE s.id = r.entity_id::int)
+    ELSE ac.label
+  END
+`;
+
+function buildWhere(filters: HealthFindingFilters): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [];
+
+  if (filters.statuses?.length) {
+    conditions.push(Prisma.sql`f.status::text IN (${Prisma.join(filters.statuses)})`);
+  }
+  if (filters.check_definition_id !== undefined) {
+    conditions.push(Prisma.sql`r.check_definition_id = ${filters.check_definition_id}`);
+  }
+  if (filters.diagnosis_code_ids?.length || filters.diagnosis_codes?.length) {
+    const parts: Prisma.Sql[] = [];
+    if (filters.diagnosis_code_ids?.length) {
+      parts.push(Prisma.sql`f.diagnosis_code_id IN (${Prisma.join(filters.diagnosis_code_ids)})`);
+    }
+    if (filters.diagnosis_codes?.length) {
+      parts.push(Prisma.sql`d.code IN (${Prisma.join(filters.diagnosis_codes)})`);
+    }
+    conditions.push(Prisma.sql`(${Prisma.join(parts, ' OR ')})`);
+  }
+  if (filters.group_ids?.length) {
+    conditions.push(Prisma.sql`d.group_id IN (${Prisma.join(filters.group_ids)})`);
+  }
+  if (filters.severities?.length) {
+    conditions.push(Prisma.sql`f.severity::text IN (${Prisma.join(filters.severities)})`);
+  }
+  if (filters.entity_types?.length) {
+    conditions.push(Prisma.sql`r.entity_type::text IN (${Prisma.join(filters.entity_types)})`);
+  }
+  if (filters.entity_id !== undefined) {
+    conditions.push(Prisma.sql`r.entity_id = ${filters.entity_id}`);
+  }
+  if (filters.archetypes?.length) {
+    conditions.push(Prisma.sql`ac.archetype::text IN (${Prisma.join(filters.archetypes)})`);
+  }
+  if (filters.subtypes?.length) {
+    conditions.push(Prisma.sql`ac.subtype::text IN (${Prisma.join(filters.subtypes)})`);
+  }
+  if (filters.first_seen_from) {
+    conditions.push(Prisma.sql`f.first_seen_at >= ${filters.first_seen_from}`);
+  }
+  if (filters.first_seen_to) {
+    conditions.push(Prisma.sql`f.first_seen_at < ${filters.first_seen_to}`);
+  }
+  if (filters.last_seen_from) {
+    conditions.push(Prisma.sql`f.last_seen_at >= ${filters.last_seen_from}`);
+  }
+  if (filters.last_seen_to) {
+    conditions.push(Prisma.sql`f.last_seen_at < ${filters.last_seen_to}`);
+  }
+
+  return conditions.length > 0
+    ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+    : Prisma.empty;
+}
+
+const FINDINGS_FROM_SQL = Prisma.sql`
+  FROM health_check_findings f
+  JOIN health_check_results r ON r.id = f.result_id
+  JOIN health_diagnosis_codes d ON d.id = f.diagnosis_code_id
+  LEFT JOIN LATERAL (SELECT ${ANCHOR_CONCEPT_SQL} AS concept_id) anchor ON true
+  LEFT JOIN concepts ac ON ac.id = anchor.concept_id
+`;
+
+/**
+ * List findings matching `filters`, most recently seen first, with their
+ * target entity, diagnosis code and any staged remediation attached.
+ */
+export async function listHealthFindings(
+  filters: HealthFindingFilters,
+  options: ListHealthFindingsOptions = {},
+): Promise<ListHealthFindingsResult> {
+  const limit = Math.min(Math.max(options.limit ?? 50, 1), 500);
+  const offset = Math.max(options.offset ?? 0, 0);
+  const whereSql = buildWhere(filters);
+
+  const [totalRows, idRows] = await Promise.all([
+    prisma.$queryRaw<Array<{ total: bigint }>>(Prisma.sql`
+      SELECT COUNT(*)::bigint AS total
+      ${FINDINGS_FROM_SQL}
+      ${whereSql}
+    `),
+    prisma.$queryRaw<FindingIdRow[]>(Prisma.sql`
+      SELECT f.id, anchor.concept_id AS anchor_concept_id, ${ENTITY_LABEL_SQL} AS entity_label
+      ${FINDINGS_FROM_SQL}
+      ${whereSql}
+      ORDER BY f.last_seen_at DESC, f.id DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `),
+  ]);
+
+  const total = Number(totalRows[0]?.total ?? 0);
+  const ids = idRows.map((row) => row.id);
+  if (ids.length === 0) return { findings: [], total };
+
+  const [rows, stagedByFinding] = await Promise.all([
+    prisma.health_check_findings.findMany({
+      where: { id: { in: ids } },
+      include: {
+        result: {
+          select: {
+            run_id: true,
+            check_definition_id: true,
+            entity_type: true,
+            entity_id: true,
+            check_definition: { select: { code: true } },
+          },
+        },
+        diagnosis_code: {
+          select: {
+            id: true,
+            code: true,
+            label: true,
+            group_id: true,
+            health_diagnosis_code_groups: { select: { label: true } },
+          },
+        },
+        changeset: { select: { id: true, status: true, operation: true } },
+      },
+    }),
+    loadStagedChanges(ids),
+  ]);
+
+  const extrasById = new Map(idRows.map((row) => [row.id.toString(), row]));
+  const rowsById = new Map(rows.map((row) => [row.id.toString(), row]));
+
+  const findings: HealthCheckFindingSummary[] = [];
+  for (const id of ids) {
+    const f = rowsById.get(id.toString());
+    if (!f) continue;
+    const extras = extrasById.get(id.toString());
+
+    const staged = [...(stagedByFinding.get(id.toString()) ?? [])];
+    if (f.changeset && !staged.some((s) => s.kind === 'changeset' && s.id === f.changeset!.id.toString())) {
+      staged.unshift({
+        kind: 'changeset',
+        id: f.changeset.id.toString(),
+        status: f.changeset.status,
+        label: f.changeset.operation,
+      });
+    }
+
+    findings.push({
+      id: f.id.toString(),
+      status: f.status as HealthFindingStatus,
+      severity: f.severity as IssuePriority,
+      title: f.title,
+      message: f.message,
+      evidence: f.evidence,
+      suggested_fix: f.suggested_fix,
+      first_seen_at: f.first_seen_at.toISOString(),
+      last_seen_at: f.last_seen_at.toISOString(),
+      resolved_at: f.resolved_at ? f.resolved_at.toISOString() : null,
+      result_id: f.result_id.toString(),
+      run_id: f.result.run_id.toString(),
+      check_definition_id: f.result.check_definition_id.toString(),
+      check_definition_code: f.result.check_definition.code,
+      entity_type: f.result.entity_type as HealthCheckEntityType,
+      entity_id: f.result.entity_id.toString(),
+      entity_label: extras?.entity_label ?? null,
+      anchor_concept_id: extras?.anchor_concept_id?.toString() ?? null,
+      diagnosis_code: {
+        id: f.diagnosis_code.id.toString(),
+        code: f.diagnosis_code.code,
+        label: f.diagnosis_code.label,
+        group_id: f.diagnosis_code.group_id?.toString() ?? null,
+        group_label: f.diagnosis_code.health_diagnosis_code_groups?.label ?? null,
+      },
+      staged_changes: staged,
+    });
+  }
+
+  return { findings, total };
+}
+
+/**
+ * Changesets and change plans staged for each finding, whether linked
+ * directly (`finding_id`) or through a remediation proposal. Discarded
+ * ones are left out — they no longer say anything about the finding.
+ */
+async function loadStagedChanges(
+  findingIds: bigint[],
+): Promise<Map<string, HealthFindingStagedChange[]>> {
+  const [changesets, plans, proposals] = await Promise.all([
+    prisma.changesets.findMany({
+      where: { finding_id: { in: findingIds }, status: { not: 'discarded' } },
+      select: { id: true, finding_id: true, status: true, operation: true },
+    }),
+    prisma.change_plans.findMany({
+      where: { finding_id: { in: findingIds }, status: { not: 'discarded' } },
+      select: { id: true, finding_id: true, status: true, plan_kind: true },
+    }),
+    prisma.health_remediation_proposals.findMany({
+      where: {
+        finding_id: { in: findingIds },
+        OR: [{ staged_changeset_id: { not: null } }, { staged_change_plan_id: { not: null } }],
+      },
+      select: {
+        finding_id: true,
+        staged_changeset: { select: { id: true, status: true, operation: true } },
+        staged_change_plan: { select: { id: true, status: true, plan_kind: true } },
+      },
+    }),
+  ]);
+
+  const out = new Map<string, HealthFindingStagedChange[]>();
+  const add = (findingId: bigint | null, change: HealthFindingStagedChange) => {
+    if (findingId === null || change.status === 'discarded') return;
+    const key = findingId.toString();
+    const list = out.get(key) ?? [];
+    if (!list.some((c) => c.kind === change.kind && c.id === change.id)) list.push(change);
+    out.set(key, list);
+  };
+
+  for (const cs of changesets) {
+    add(cs.finding_id, { kind: 'changeset', id: cs.id.toString(), status: cs.status, label: cs.operation });
+  }
+  for (const plan of plans) {
+    add(plan.finding_id, { kind: 'change_plan', id: plan.id.toString(), status: plan.status, label: plan.plan_kind });
+  }
+  for (const p of proposals) {
+    if (p.staged_change_plan) {
+      add(p.finding_id, {
+        kind: 'change_plan',
+        id: p.staged_change_plan.id.toString(),
+        status: p.staged_change_plan.status,
+        label: p.staged_change_plan.plan_kind,
+      });
+    }
+    if (p.staged_changeset) {
+      add(p.finding_id, {
+        kind: 'changeset',
+        id: p.staged_changeset.id.toString(),
+        status: p.staged_changeset.status,
+        label: p.staged_changeset.operation,
+      });
+    }
+  }
+  return out;
+}
+
+export interface SetHealthFindingStatusResult {
+  updated: number;
+  /** Number of `health_check_state` rows whose open count was refreshed. */
+  states_refreshed: number;
+}
+
+/**
+ * Bulk-move findings to a reviewer status (`open` reopens). Findings that
+ * already have the requested status are left alone. The open-findings
+ * counter of every affected target is recomputed inside the same
+ * transaction.
+ */
+export async function setHealthFindingStatus(
+  findingIds: bigint[],
+  status: HealthFindingReviewStatus,
+): Promise<SetHealthFindingStatusResult> {
+  if (findingIds.length === 0) return { updated: 0, states_refreshed: 0 };
+
+  return prisma.$transaction(async (tx) => {
+    const findings = await tx.health_check_findings.findMany({
+      where: { id: { in: findingIds }, status: { not: status } },
+      select: {
+        id: true,
+        result: { select: { check_definition_id: true, entity_type: true, entity_id: true } },
+      },
+    });
+    if (findings.length === 0) return { updated: 0, states_refreshed: 0 };
+
+    const { count } = await tx.health_check_findings.updateMany({
+      where: { id: { in: findings.map((f) => f.id) } },
+      data: {
+        status,
+        resolved_at: status === 'open' ? null : new Date(),
+      },
+    });
+
+    const targets = new Map<string, HealthCheckTarget>();
+    for (const f of findings) {
+      const target: HealthCheckTarget = {
+        check_definition_id: f.result.check_definition_id,
+        entity_type: f.result.entity_type as HealthCheckEntityType,
+        entity_id: f.result.entity_id,
+      };
+      targets.set(
+        `${target.check_definition_id}:${target.entity_type}:${target.entity_id}`,
+        target,
+      );
+    }
+
+    let statesRefreshed = 0;
+    for (const target of targets.values()) {
+      const openFindings = await countOpenFindings(tx, target);
+      const { count: stateCount } = await tx.health_check_state.updateMany({
+        where: {
+          check_definition_id: target.check_definition_id,
+          entity_type: target.entity_type,
+          entity_id: target.entity_id,
+        },
+        data: { open_findings_count: openFindings },
+      });
+      statesRefreshed += stateCount;
+    }
+
+    return { updated: count, states_refreshed: statesRefreshed };
+  }, { timeout: 30_000, maxWait: 10_000 });
+}
@@ -1,3 +1,5 @@
 export * from './types';
 export * from './validation';
 export * from './results';
+export * from './findings';
+export * from './staleness';
@@ -13,6 +13,7 @@ import { prisma } from '@/lib/prisma';
 import type {
   HealthCheckEntityType,
   HealthCheckResultStatus,
+  HealthFindingStatus,
 } from './types';
 
 export function toBigInt(value: bigint | number | string): bigint {
@@ -101,6 +102,34 @@ export async function refreshHealthCheckRunCounts(
   });
 }
 
+export interface HealthCheckTarget {
+  check_definition_id: bigint;
+  entity_type: HealthCheckEntityType;
+  entity_id: bigint;
+}
+
+/**
+ * Number of `open` findings across every result for a (check, entity)
+ * target. This is the value `health_check_state.open_findings_count`
+ * must hold; both the result writer and the findings review actions
+ * derive it from here so the two can't disagree.
+ */
+export async function countOpenFindings(
+  tx: Prisma.TransactionClient,
+  target: HealthCheckTarget,
+): Promise<number> {
+  return tx.health_check_findings.count({
+    where: {
+      result: {
+        check_definition_id: target.check_definition_id,
+        entity_type: target.entity_type,
+        entity_id: target.entity_id,
+      },
+      status: 'open',
+    },
+  });
+}
+
 export interface RecordHealthCheckFindingInput {
   diagnosis_code_id: bigint | number | string;
   title: string;
@@ -127,6 +156,14 @@ export interface RecordHealthCheckResultInput {
   metadata?: Prisma.InputJsonValue | null;
   error?: string | null;
   findings?: RecordHealthCheckFindingInput[];
+  /**
+   * Treat this result as the new full picture for its target: earlier
+   * `open` findings are resolved, and a finding whose diagnosis code was
+   * already reported keeps its original `first_seen_at` plus any
+   * `ignored` / `false_positive` triage. Used by full re-evaluations such
+   * as the local programmatic runner.
+   */
+  supersede_findings?: boolean;
 }
 
 export interface RecordHealthCheckResultOutput {
@@ -170,35 +207,77 @@ export async function recordHealthCheckResult(
       },
     });
 
+    const previous = new Map<bigint, { status: HealthFindingStatus; first_seen_at: Date }>();
+    if (input.supersede_findings) {
+      const prior = await tx.health_check_findings.findMany({
+        where: {
+          result: {
+            check_definition_id: checkDefinitionId,
+            entity_type: input.entity_type,
+            entity_id: entityId,
+            id: { not: result.id },
+          },
+          status: { in: ['open', 'ignored', 'false_positive'] },
+        },
+        select: { diagnosis_code_id: true, status: true, first_seen_at: true },
+        orderBy: { first_seen_at: 'asc' },
+      });
+      for (const p of prior) {
+        if (!previous.has(p.diagnosis_code_id)) {
+          previous.set(p.diagnosis_code_id, {
+            status: p.status as HealthFindingStatus,
+            first_seen_at: p.first_seen_at,
+          });
+        }
+      }
+    }
+
     const findingIds: bigint[] = [];
     if (input.findings && input.findings.length > 0) {
       for (const f of input.findings) {
+        const diagnosisCodeId = toBigInt(f.diagnosis_code_id);
+        const carried = previous.get(diagnosisCodeId);
+        const status = carried && carried.status !== 'open' ? carried.status : 'open';
         const created = await tx.health_check_findings.create({
           data: {
             result_id: result.id,
-            diagnosis_code_id: toBigInt(f.diagnosis_code_id),
+            diagnosis_code_id: diagnosisCodeId,
+            status,
             severity: f.severity ?? 'medium',
             title: f.title,
             message: f.message ?? null,
             evidence: f.evidence ?? Prisma.JsonNull,
             suggested_fix: f.suggested_fix ?? Prisma.JsonNull,
-            first_seen_at: checkedAt,
+            first_seen_at: carried?.first_seen_at ?? checkedAt,
             last_seen_at: checkedAt,
+            resolved_at: status === 'open' ? null : checkedAt,
           },
         });
         findingIds.push(created.id);
       }
     }
 
-    const openFindings = await tx.health_check_findings.count({
-      where: {
-        result: {
-          check_definition_id: checkDefinitionId,
-          entity_type: input.entity_type,
-          entity_id: entityId,
+    // Resolved only now so the notification trigger can still see which of
+    // the new findings were already open.
+    if (input.supersede_findings) {
+      await tx.health_check_findings.updateMany({
+        where: {
+          result: {
+            check_definition_id: checkDefinitionId,
+            entity_type: input.entity_type,
+            entity_id: entityId,
+            id: { not: result.id },
+          },
+          status: 'open',
         },
-        status: 'open',
-      },
+        data: { status: 'resolved', resolved_at: checkedAt },
+      });
+    }
+
+    const openFindings = await countOpenFindings(tx, {
+      check_definition_id: checkDefinitionId,
+      entity_type: input.entity_type,
+      entity_id: entityId,
     });
 
     await tx.health_check_state.upsert({
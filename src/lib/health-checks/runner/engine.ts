@@ -0,0 +1,376 @@
+/**
+ * In-process executor for `execution_kind = 'programmatic'` health checks.
+ *
+ * This is the local alternative to the Step Functions pipeline: it claims a
+ * `health_check_runs` row, pages through the rule's targets, skips targets
+ * whose content fingerprint and rule version match `health_check_state`,
+ * and writes every evaluated target through `recordHealthCheckResult`.
+ * A `stale_only` scope narrows the run to targets flagged stale at commit
+ * time (see `../staleness`) or never checked.
+ */
+
+import { createHash } from 'crypto';
+import { Prisma, type entity_type } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { IssuePriority } from '@/lib/issues/types';
+import { recordHealthCheckResult, stableStringify, type RecordHealthCheckFindingInput } from '../results';
+import { computeEntityFingerprints, isFingerprintedEntityType } from '../staleness';
+import type { HealthCheckResultStatus, HealthCheckRunScope } from '../types';
+import { getProgrammaticRule } from './registry';
+import type {
+  HealthCheckRule,
+  ProgrammaticRunSummary,
+  RuleFinding,
+} from './types';
+
+const BATCH_SIZE = 200;
+
+export class ProgrammaticRunError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProgrammaticRunError';
+  }
+}
+
+/** True when checks should run in-process instead of via Step Functions. */
+export function isLocalHealthCheckRunner(): boolean {
+  return process.env.HEALTHCHECK_RUNNER === 'local';
+}
+
+function resultStatus(severities: (IssuePriority | undefined)[]): HealthCheckResultStatus {
+  if (severities.length === 0) return 'passed';
+  return severities.some((s) => s === 'high' || s === 'critical') ? 'failed' : 'warning';
+}
+
+/**
+ * Pure evaluation with the rule's declared severities; exported so rules
+ * can be exercised against fixture snapshots.
+ */
+export function evaluateRule<TSnapshot>(
+  rule: HealthCheckRule<TSnapshot>,
+  snapshot: TSnapshot,
+): { status: HealthCheckResultStatus; findings: RuleFinding[] } {
+  const findings = rule.evaluate(snapshot);
+  const severities = new Map(rule.diagnosis_codes.map((c) => [c.code, c.severity]));
+  return {
+    status: resultStatus(findings.map((f) => f.severity ?? severities.get(f.diagnosis_code))),
+    findings,
+  };
+}
+
+/**
+ * Fallback fingerprint for entity types without a content fingerprint in
+ * `../staleness`: a hash of the rule's own snapshot.
+ */
+export function getSnapshotFingerprint(snapshot: unknown): string {
+  return createHash('sha256').update(stableStringify(snapshot)).digest('hex');
+}
+
+interface SyncedDiagnosisCode {
+  id: bigint;
+  enabled: boolean;
+  severity: IssuePriority;
+}
+
+/**
+ * Upsert the definition row and any missing diagnosis codes for a rule.
+ * Programmatic definitions are owned by source, so label/description and
+ * rule_version follow the code; `enabled` and existing diagnosis codes are
+ * left as curated in the UI.
+ */
+export async function syncProgrammaticDefinition(rule: HealthCheckRule<unknown>): Promise<{
+  definition_id: bigint;
+  enabled: boolean;
+  codes: Map<string, SyncedDiagnosisCode>;
+}> {
+  const fields = {
+    label: rule.label,
+    description: rule.description,
+    target_types: [rule.entity_type as entity_type],
+    rule_version: rule.rule_version,
+    execution_kind: 'programmatic',
+  };
+  const definition = await prisma.health_check_definitions.upsert({
+    where: { code: rule.code },
+    create: { code: rule.code, ...fields },
+    update: fields,
+    select: { id: true, enabled: true },
+  });
+
+  await prisma.health_diagnosis_codes.createMany({
+    data: rule.diagnosis_codes.map((c) => ({
+      check_definition_id: definition.id,
+      code: c.code,
+      label: c.label,
+      description: c.description,
+      severity: c.severity,
+      category: c.category ?? null,
+      remediation_strategy: c.remediation_strategy ?? null,
+    })),
+    skipDuplicates: true,
+  });
+
+  const rows = await prisma.health_diagnosis_codes.findMany({
+    where: { code: { in: rule.diagnosis_codes.map((c) => c.code) } },
+    select: { id: true, code: true, enabled: true, severity: true },
+  });
+
+  return {
+    definition_id: definition.id,
+    enabled: definition.enabled,
+    codes: new Map(
+      rows.map((r) => [r.code, { id: r.id, enabled: r.enabled, severity: r.severity as IssuePriority }]),
+    ),
+  };
+}
+
+function parseScope(raw: Prisma.JsonValue | null): HealthCheckRunScope {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const scope = raw as Record<string, unknown>;
+  const entityIds = Array.isArray(scope.entity_ids)
+    ? scope.entity_ids.map((v) => String(v).trim()).filter((v) => /^\d+$/.test(v))
+    : undefined;
+  return {
+    entity_ids: entityIds,
+    stale_only: scope.stale_only === true,
+    force: scope.force === true,
+  };
+}
+
+/** Create a queued run for a registered rule (syncing its definition first). */
+export async function queueProgrammaticRun(
+  code: string,
+  options: { scope?: HealthCheckRunScope; label?: string } = {},
+): Promise<bigint> {
+  const rule = getProgrammaticRule(code);
+  if (!rule) throw new ProgrammaticRunError(`No programmatic rule registered for ${code}`);
+
+  const { definition_id, enabled } = await syncProgrammaticDefinition(rule);
+  if (!enabled) throw new ProgrammaticRunError(`Health check ${code} is disabled`);
+
+  const run = await prisma.health_check_runs.create({
+    data: {
+      check_definition_id: definition_id,
+      label: options.label ?? null,
+      scope: options.scope ? (options.scope as Prisma.InputJsonValue) : Prisma.JsonNull,
+      status: 'queued',
+    },
+    select: { id: true },
+  });
+  return run.id;
+}
+
+/**
+ * Claim and execute a queued run whose definition has a registered rule.
+ * Failures inside a single target are recorded as `error` results; a
+ * failure of the run itself marks the run `failed` and is reported in the
+ * returned summary rather than thrown.
+ */
+export async function executeProgrammaticRun(
+  runId: bigint,
+  options: { worker_id?: string } = {},
+): Promise<ProgrammaticRunSummary> {
+  const run = await prisma.health_check_runs.findUnique({
+    where: { id: runId },
+    select: {
+      id: true,
+      status: true,
+      scope: true,
+      check_definition: { select: { id: true, code: true, execution_kind: true } },
+    },
+  });
+  if (!run) throw new ProgrammaticRunError(`Health check run ${runId} not found`);
+  const definition = run.check_definition;
+  if (!definition || definition.execution_kind !== 'programmatic') {
+    throw new ProgrammaticRunError(`Run ${runId} is not a programmatic health check`);
+  }
+  const rule = getProgrammaticRule(definition.code);
+  if (!rule) {
+    throw new ProgrammaticRunError(`No programmatic rule registered for ${definition.code}`);
+  }
+
+  const claimed = await prisma.health_check_runs.updateMany({
+    where: { id: runId, status: 'queued' },
+    data: {
+      status: 'running',
+      started_at: new Date(),
+      worker_id: options.worker_id ?? `local-${process.pid}`,
+    },
+  });
+  if (claimed.count === 0) {
+    throw new ProgrammaticRunError(`Run ${runId} is ${run.status}, not queued`);
+  }
+
+  const summary: ProgrammaticRunSummary = {
+    run_id: runId,
+    check_code: definition.code,
+    status: 'completed',
+    total: 0,
+    evaluated: 0,
+    unchanged: 0,
+    counts: { passed: 0, warning: 0, failed: 0, error: 0, skipped: 0 },
+    error: null,
+  };
+
+  try {
+    const { codes } = await syncProgrammaticDefinition(rule);
+    const scope = parseScope(run.scope);
+
+    const explicitIds = scope.entity_ids?.map((id) => BigInt(id));
+    let cursor: bigint | null = null;
+    let offset = 0;
+
+    for (;;) {
+      let ids: bigint[];
+      if (explicitIds) {
+        ids = explicitIds.slice(offset, offset + BATCH_SIZE);
+        offset += ids.length;
+      } else {
+        ids = await rule.listTargetIds(cursor, BATCH_SIZE);
+        if (ids.length > 0) cursor = ids[ids.length - 1];
+      }
+      if (ids.length === 0) break;
+
+      await evaluateBatch(rule, definition.id, runId, ids, codes, scope, summary);
+
+      await prisma.health_check_runs.update({
+        where: { id: runId },
+        data: { total_items: summary.total },
+      });
+      if (!explicitIds && ids.length < BATCH_SIZE) break;
+    }
+
+    await prisma.health_check_runs.update({
+      where: { id: runId },
+      data: { status: 'completed', completed_at: new Date(), total_items: summary.total },
+    });
+  } catch (error) {
+    summary.status = 'failed';
+    summary.error = error instanceof Error ? error.message : String(error);
+    console.error(`[HealthChecks] Local run ${runId} (${definition.code}) failed:`, error);
+    await prisma.health_check_runs.update({
+      where: { id: runId },
+      data: { status: 'failed', completed_at: new Date(), error: summary.error },
+    });
+  }
+
+  return summary;
+}
+
+async function evaluateBatch(
+  rule: HealthCheckRule<unknown>,
+  definitionId: bigint,
+  runId: bigint,
+  ids: bigint[],
+  codes: Map<string, SyncedDiagnosisCode>,
+  scope: HealthCheckRunScope,
+  summary: ProgrammaticRunSummary,
+): Promise<void> {
+  const states = await prisma.health_check_state.findMany({
+    where: {
+      check_definition_id: definitionId,
+      entity_type: rule.entity_type,
+      entity_id: { in: ids },
+      entity_key_hash: '',
+    },
+    select: {
+      entity_id: true,
+      target_fingerprint: true,
+      target_version: true,
+      stale: true,
+      last_status: true,
+    },
+  });
+  const stateById = new Map(states.map((s) => [s.entity_id, s]));
+  const isCurrent = (state: (typeof states)[number] | undefined) =>
+    !!state &&
+    !state.stale &&
+    state.last_status !== 'error' &&
+    state.target_version === rule.rule_version;
+
+  // Stale-only runs never load snapshots for targets whose state is
+  // current; commits flag changed targets via `markHealthCheckStateStaleInTx`.
+  let candidateIds = ids;
+  if (scope.stale_only && !scope.force) {
+    candidateIds = ids.filter((id) => !isCurrent(stateById.get(id)));
+    summary.total += ids.length - candidateIds.length;
+    summary.unchanged += ids.length - candidateIds.length;
+    if (candidateIds.length === 0) return;
+  }
+
+  const snapshots = await rule.loadSnapshots(candidateIds);
+  summary.total += snapshots.length;
+
+  const entityFingerprints = isFingerprintedEntityType(rule.entity_type)
+    ? await computeEntityFingerprints(
+        prisma,
+        rule.entity_type,
+        snapshots.map((s) => s.entity_id),
+      )
+    : null;
+
+  for (const { entity_id, snapshot } of snapshots) {
+    const fingerprint = entityFingerprints?.get(entity_id) ?? getSnapshotFingerprint(snapshot);
+    const state = stateById.get(entity_id);
+    if (!scope.force && isCurrent(state) && state!.target_fingerprint === fingerprint) {
+      summary.unchanged++;
+      continue;
+    }
+
+    let status: HealthCheckResultStatus;
+    let findings: RecordHealthCheckFindingInput[] = [];
+    let errorMessage: string | null = null;
+    try {
+      findings = rule.evaluate(snapshot).flatMap((f) => {
+        const code = codes.get(f.diagnosis_code);
+        if (!code) {
+          throw new ProgrammaticRunError(
+            `${rule.code} emitted undeclared diagnosis code ${f.diagnosis_code}`,
+          );
+        }
+        if (!code.enabled) return [];
+        return [
+          {
+            diagnosis_code_id: code.id,
+            title: f.title,
+            message: f.message ?? null,
+            severity: f.severity ?? code.severity,
+            evidence: f.evidence ?? null,
+            suggested_fix: f.suggested_fix ?? null,
+          },
+        ];
+      });
+      status = resultStatus(findings.map((f) => f.severity));
+    } catch (error) {
+      status = 'error';
+      findings = [];
+      errorMessage = error instanceof Error ? error.message : String(error);
+    }
+
+    await recordHealthCheckResult({
+      run_id: runId,
+      check_definition_id: definitionId,
+      entity_type: rule.entity_type,
+      entity_id,
+      status,
+      summary: findings.length > 0 ? `${findings.length} finding${findings.length === 1 ? '' : 's'}` : null,
+      target_version: rule.rule_version,
+      target_fingerprint: fingerprint,
+      metadata: { runner: 'local' },
+      error: errorMessage,
+      findings,
+      supersede_findings: status !== 'error',
+    });
+    summary.evaluated++;
+    summary.counts[status]++;
+  }
+}
+
+/** Queue and immediately execute a run for one registered rule. */
+export async function runProgrammaticHealthCheck(
+  code: string,
+  options: { scope?: HealthCheckRunScope; label?: string; worker_id?: string } = {},
+): Promise<ProgrammaticRunSummary> {
+  const runId = await queueProgrammaticRun(code, options);
+  return executeProgrammaticRun(runId, { worker_id: options.worker_id });
+}
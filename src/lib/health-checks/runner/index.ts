@@ -0,0 +1,6 @@
+export * from './types';
+export * from './registry';
+export * from './engine';
+export type { FrameRulesSnapshot } from './rules/frame-rules';
+export type { FrameSenseRulesSnapshot } from './rules/frame-sense-rules';
+export type { InheritanceRoleMappingSnapshot } from './rules/inheritance-role-mapping-rules';
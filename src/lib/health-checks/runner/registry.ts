@@ -0,0 +1,25 @@
+/**
+ * Registry of programmatic rules the local runner can execute, keyed by
+ * `health_check_definitions.code`. Add new rules here.
+ */
+
+import type { HealthCheckRule } from './types';
+import { frameRules } from './rules/frame-rules';
+import { frameSenseRules } from './rules/frame-sense-rules';
+import { inheritanceRoleMappingRules } from './rules/inheritance-role-mapping-rules';
+
+const RULES: HealthCheckRule<unknown>[] = [
+  frameRules,
+  frameSenseRules,
+  inheritanceRoleMappingRules,
+];
+
+const RULES_BY_CODE = new Map(RULES.map((rule) => [rule.code, rule]));
+
+export function getProgrammaticRule(code: string): HealthCheckRule<unknown> | null {
+  return RULES_BY_CODE.get(code) ?? null;
+}
+
+export function listProgrammaticRules(): HealthCheckRule<unknown>[] {
+  return Array.from(RULES_BY_CODE.values());
+}
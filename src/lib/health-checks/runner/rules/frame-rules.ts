@@ -0,0 +1,174 @@
+/**
+ * FRAME_RULES — structural checks on a single concept and its properties.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { HealthCheckRule, RuleFinding } from '../types';
+
+export interface FrameRulesSnapshot {
+  id: string;
+  label: string;
+  definition: string | null;
+  short_definition: string | null;
+  archetype: string | null;
+  properties: { id: string; label: string | null; description: string | null }[];
+}
+
+function isBlank(value: string | null | undefined): boolean {
+  return !value || value.trim().length === 0;
+}
+
+export const frameRules: HealthCheckRule<FrameRulesSnapshot> = {
+  code: 'FRAME_RULES',
+  label: 'Frame Structural Rules',
+  description:
+    'Deterministic checks on a concept row and its properties: required text fields, archetype, and property label hygiene.',
+  entity_type: 'concept',
+  rule_version: 1,
+  diagnosis_codes: [
+    {
+      code: 'FRAME_MISSING_DEFINITION',
+      label: 'Missing Definition',
+      description: 'The concept has no definition.',
+      severity: 'high',
+      category: 'Definition',
+    },
+    {
+      code: 'FRAME_MISSING_SHORT_DEFINITION',
+      label: 'Missing Short Definition',
+      description: 'The concept has no short definition.',
+      severity: 'low',
+      category: 'Definition',
+    },
+    {
+      code: 'FRAME_MISSING_ARCHETYPE',
+      label: 'Missing Archetype',
+      description: 'The concept has no archetype assigned.',
+      severity: 'medium',
+      category: 'Classification',
+    },
+    {
+      code: 'FRAME_PROPERTY_MISSING_LABEL',
+      label: 'Property Missing Label',
+      description: 'A property of the concept has no label.',
+      severity: 'high',
+      category: 'Properties',
+    },
+    {
+      code: 'FRAME_PROPERTY_MISSING_DESCRIPTION',
+      label: 'Property Missing Description',
+      description: 'A property of the concept has no description.',
+      severity: 'medium',
+      category: 'Properties',
+    },
+    {
+      code: 'FRAME_DUPLICATE_PROPERTY_LABEL',
+      label: 'Duplicate Property Label',
+      description: 'Two or more properties of the concept share a label (case-insensitive).',
+      severity: 'high',
+      category: 'Properties',
+    },
+  ],
+
+  async listTargetIds(afterId, limit) {
+    const rows = await prisma.concepts.findMany({
+      where: {
+        deleted: false,
+        merged_into: null,
+        disable_healthcheck: false,
+        ...(afterId !== null ? { id: { gt: afterId } } : {}),
+      },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: limit,
+    });
+    return rows.map((r) => r.id);
+  },
+
+  async loadSnapshots(ids) {
+    const concepts = await prisma.concepts.findMany({
+      where: { id: { in: ids }, deleted: false },
+      select: {
+        id: true,
+        label: true,
+        definition: true,
+        short_definition: true,
+        archetype: true,
+        properties: {
+          select: { id: true, label: true, description: true },
+          orderBy: { id: 'asc' },
+        },
+      },
+    });
+    return concepts.map((c) => ({
+      entity_id: c.id,
+      snapshot: {
+        id: c.id.toString(),
+        label: c.label,
+        definition: c.definition,
+        short_definition: c.short_definition,
+        archetype: c.archetype,
+        properties: c.properties.map((p) => ({
+          id: p.id.toString(),
+          label: p.label,
+          description: p.description,
+        })),
+      },
+    }));
+  },
+
+  evaluate(concept) {
+    const findings: RuleFinding[] = [];
+
+    if (isBlank(concept.definition)) {
+      findings.push({
+        diagnosis_code: 'FRAME_MISSING_DEFINITION',
+        title: `"${concept.label}" has no definition`,
+      });
+    }
+    if (isBlank(concept.short_definition)) {
+      findings.push({
+        diagnosis_code: 'FRAME_MISSING_SHORT_DEFINITION',
+        title: `"${concept.label}" has no short definition`,
+      });
+    }
+    if (!concept.archetype) {
+      findings.push({
+        diagnosis_code: 'FRAME_MISSING_ARCHETYPE',
+        title: `"${concept.label}" has no archetype`,
+      });
+    }
+
+    const byLabel = new Map<string, string[]>();
+    for (const property of concept.properties) {
+      if (isBlank(property.label)) {
+        findings.push({
+          diagnosis_code: 'FRAME_PROPERTY_MISSING_LABEL',
+          title: `Property #${property.id} on "${concept.label}" has no label`,
+          evidence: { property_id: property.id },
+        });
+        continue;
+      }
+      if (isBlank(property.description)) {
+        findings.push({
+          diagnosis_code: 'FRAME_PROPERTY_MISSING_DESCRIPTION',
+          title: `Property "${property.label}" on "${concept.label}" has no description`,
+          evidence: { property_id: property.id, property_label: property.label },
+        });
+      }
+      const key = property.label!.trim().toLowerCase();
+      byLabel.set(key, [...(byLabel.get(key) ?? []), property.id]);
+    }
+
+    for (const [label, propertyIds] of byLabel) {
+      if (propertyIds.length < 2) continue;
+      findings.push({
+        diagnosis_code: 'FRAME_DUPLICATE_PROPERTY_LABEL',
+        title: `"${concept.label}" has ${propertyIds.length} properties labelled "${label}"`,
+        evidence: { property_label: label, property_ids: propertyIds },
+      });
+    }
+
+    return findings;
+  },
+};
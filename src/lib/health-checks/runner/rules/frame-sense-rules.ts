@@ -0,0 +1,151 @@
+/**
+ * FRAME_SENSE_RULES — attachment and content checks on a single sense.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { HealthCheckRule, RuleFinding } from '../types';
+
+export interface FrameSenseRulesSnapshot {
+  id: number;
+  pos: string;
+  definition: string;
+  lemmas: string[];
+  concept_ids: string[];
+  lexical_units: { id: string; code: string; pos: string }[];
+}
+
+export const frameSenseRules: HealthCheckRule<FrameSenseRulesSnapshot> = {
+  code: 'FRAME_SENSE_RULES',
+  label: 'Frame Sense Structural Rules',
+  description:
+    'Deterministic checks on a sense: definition present, attached to exactly one live concept, and backed by lexical units of the same part of speech.',
+  entity_type: 'sense',
+  rule_version: 1,
+  diagnosis_codes: [
+    {
+      code: 'FRAME_SENSE_MISSING_DEFINITION',
+      label: 'Missing Sense Definition',
+      description: 'The sense has an empty definition.',
+      severity: 'high',
+      category: 'Definition',
+    },
+    {
+      code: 'FRAME_SENSE_NO_CONCEPT',
+      label: 'Orphan Sense',
+      description: 'The sense is not attached to any live concept.',
+      severity: 'high',
+      category: 'Attachment',
+    },
+    {
+      code: 'FRAME_SENSE_MULTIPLE_CONCEPTS',
+      label: 'Sense on Multiple Concepts',
+      description: 'The sense is attached to more than one live concept.',
+      severity: 'medium',
+      category: 'Attachment',
+    },
+    {
+      code: 'FRAME_SENSE_NO_LEXICAL_UNITS',
+      label: 'Sense Without Lexical Units',
+      description: 'No live lexical unit is attached to the sense.',
+      severity: 'medium',
+      category: 'Attachment',
+    },
+    {
+      code: 'FRAME_SENSE_POS_MISMATCH',
+      label: 'Lexical Unit POS Mismatch',
+      description: "An attached lexical unit's part of speech differs from the sense's.",
+      severity: 'medium',
+      category: 'Attachment',
+    },
+  ],
+
+  async listTargetIds(afterId, limit) {
+    const rows = await prisma.senses.findMany({
+      where: afterId !== null ? { id: { gt: Number(afterId) } } : {},
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: limit,
+    });
+    return rows.map((r) => BigInt(r.id));
+  },
+
+  async loadSnapshots(ids) {
+    const senses = await prisma.senses.findMany({
+      where: { id: { in: ids.map((id) => Number(id)) } },
+      select: {
+        id: true,
+        pos: true,
+        definition: true,
+        lemmas: true,
+        sense_concepts: {
+          where: { concepts: { deleted: false } },
+          select: { concept_id: true },
+          orderBy: { concept_id: 'asc' },
+        },
+        lexical_unit_senses: {
+          where: { lexical_units: { deleted: false } },
+          select: { lexical_units: { select: { id: true, code: true, pos: true } } },
+          orderBy: { lexical_unit_id: 'asc' },
+        },
+      },
+    });
+    return senses.map((s) => ({
+      entity_id: BigInt(s.id),
+      snapshot: {
+        id: s.id,
+        pos: s.pos,
+        definition: s.definition,
+        lemmas: s.lemmas,
+        concept_ids: s.sense_concepts.map((sc) => sc.concept_id.toString()),
+        lexical_units: s.lexical_unit_senses.map(({ lexical_units: lu }) => ({
+          id: lu.id.toString(),
+          code: lu.code,
+          pos: lu.pos,
+        })),
+      },
+    }));
+  },
+
+  evaluate(sense) {
+    const findings: RuleFinding[] = [];
+    const name = sense.lemmas.length > 0 ? `${sense.lemmas[0]}.${sense.pos}` : `sense #${sense.id}`;
+
+    if (sense.definition.trim().length === 0) {
+      findings.push({
+        diagnosis_code: 'FRAME_SENSE_MISSING_DEFINITION',
+        title: `${name} has no definition`,
+      });
+    }
+
+    if (sense.concept_ids.length === 0) {
+      findings.push({
+        diagnosis_code: 'FRAME_SENSE_NO_CONCEPT',
+        title: `${name} is not attached to a concept`,
+      });
+    } else if (sense.concept_ids.length > 1) {
+      findings.push({
+        diagnosis_code: 'FRAME_SENSE_MULTIPLE_CONCEPTS',
+        title: `${name} is attached to ${sense.concept_ids.length} concepts`,
+        evidence: { concept_ids: sense.concept_ids },
+      });
+    }
+
+    if (sense.lexical_units.length === 0) {
+      findings.push({
+        diagnosis_code: 'FRAME_SENSE_NO_LEXICAL_UNITS',
+        title: `${name} has no lexical units`,
+      });
+    }
+
+    const mismatched = sense.lexical_units.filter((lu) => lu.pos !== sense.pos);
+    if (mismatched.length > 0) {
+      findings.push({
+        diagnosis_code: 'FRAME_SENSE_POS_MISMATCH',
+        title: `${name} has ${mismatched.length} lexical unit${mismatched.length === 1 ? '' : 's'} with a different POS`,
+        evidence: { lexical_units: mismatched },
+      });
+    }
+
+    return findings;
+  },
+};
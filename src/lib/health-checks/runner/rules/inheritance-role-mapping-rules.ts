@@ -0,0 +1,203 @@
+/**
+ * INHERITANCE_ROLE_MAPPING_RULES — edge-level checks that every property of
+ * a parent concept is accounted for on each `parent_of` child via
+ * `property_mappings`, and that existing mapping rows still point at live
+ * property labels on both ends.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { HealthCheckRule, RuleFinding } from '../types';
+
+export interface InheritanceRoleMappingSnapshot {
+  relation_id: string;
+  parent: { id: string; label: string; property_labels: string[] };
+  child: { id: string; label: string; property_labels: string[] };
+  mappings: {
+    parent_property_label: string;
+    child_property_label: string | null;
+    is_absorbed: boolean | null;
+  }[];
+}
+
+function propertyLabels(properties: { label: string | null }[]): string[] {
+  return properties
+    .map((p) => p.label?.trim())
+    .filter((label): label is string => Boolean(label))
+    .sort();
+}
+
+export const inheritanceRoleMappingRules: HealthCheckRule<InheritanceRoleMappingSnapshot> = {
+  code: 'INHERITANCE_ROLE_MAPPING_RULES',
+  label: 'Inheritance Role Mapping Rules',
+  description:
+    'Deterministic checks on a parent_of edge: every parent property is mapped or absorbed on the child, and mapping rows reference existing properties.',
+  entity_type: 'concept_relation',
+  rule_version: 1,
+  diagnosis_codes: [
+    {
+      code: 'INHERITANCE_UNMAPPED_PARENT_ROLE',
+      label: 'Unmapped Parent Role',
+      description: 'A parent property has no mapping row (child label or absorbed) for this edge.',
+      severity: 'medium',
+      category: 'Role Mapping',
+      remediation_strategy: 'upsert_role_mappings',
+    },
+    {
+      code: 'INHERITANCE_STALE_PARENT_ROLE',
+      label: 'Stale Parent Role Mapping',
+      description: 'A mapping row references a parent property label that no longer exists.',
+      severity: 'medium',
+      category: 'Role Mapping',
+      remediation_strategy: 'upsert_role_mappings',
+    },
+    {
+      code: 'INHERITANCE_DANGLING_CHILD_ROLE',
+      label: 'Dangling Child Role Mapping',
+      description: 'A mapping row targets a child property label that does not exist on the child.',
+      severity: 'high',
+      category: 'Role Mapping',
+      remediation_strategy: 'upsert_role_mappings',
+    },
+  ],
+
+  async listTargetIds(afterId, limit) {
+    const rows = await prisma.concept_relations.findMany({
+      where: {
+        type: 'parent_of',
+        concepts_concept_relations_parent_idToconcepts: { deleted: false, disable_healthcheck: false },
+        concepts_concept_relations_child_idToconcepts: { deleted: false, disable_healthcheck: false },
+        ...(afterId !== null ? { id: { gt: afterId } } : {}),
+      },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: limit,
+    });
+    return rows.map((r) => r.id);
+  },
+
+  async loadSnapshots(ids) {
+    const conceptSelect = {
+      id: true,
+      label: true,
+      properties: { select: { label: true } },
+    } as const;
+    const relations = await prisma.concept_relations.findMany({
+      where: { id: { in: ids }, type: 'parent_of' },
+      select: {
+        id: true,
+        parent_id: true,
+        child_id: true,
+        concepts_concept_relations_parent_idToconcepts: { select: conceptSelect },
+        concepts_concept_relations_child_idToconcepts: { select: conceptSelect },
+      },
+    });
+    if (relations.length === 0) return [];
+
+    const mappings = await prisma.property_mappings.findMany({
+      where: {
+        OR: relations.map((r) => ({
+          parent_concept_id: r.parent_id,
+          child_concept_id: r.child_id,
+        })),
+      },
+      select: {
+        parent_concept_id: true,
+        child_concept_id: true,
+        parent_property_label: true,
+        child_property_label: true,
+        is_absorbed: true,
+      },
+      orderBy: [{ parent_property_label: 'asc' }, { child_property_label: 'asc' }],
+    });
+
+    return relations.map((r) => {
+      const parent = r.concepts_concept_relations_parent_idToconcepts;
+      const child = r.concepts_concept_relations_child_idToconcepts;
+      return {
+        entity_id: r.id,
+        snapshot: {
+          relation_id: r.id.toString(),
+          parent: {
+            id: parent.id.toString(),
+            label: parent.label,
+            property_labels: propertyLabels(parent.properties),
+          },
+          child: {
+            id: child.id.toString(),
+            label: child.label,
+            property_labels: propertyLabels(child.properties),
+          },
+          mappings: mappings
+            .filter((m) => m.parent_concept_id === r.parent_id && m.child_concept_id === r.child_id)
+            .map((m) => ({
+              parent_property_label: m.parent_property_label,
+              child_property_label: m.child_property_label,
+              is_absorbed: m.is_absorbed,
+            })),
+        },
+      };
+    });
+  },
+
+  evaluate(edge) {
+    const findings: RuleFinding[] = [];
+    const edgeName = `${edge.parent.label} → ${edge.child.label}`;
+    const parentLabels = new Set(edge.parent.property_labels);
+    const childLabels = new Set(edge.child.property_labels);
+    const suggestedFix = {
+      strategy: 'upsert_role_mappings',
+      parent_concept_id: edge.parent.id,
+      child_concept_id: edge.child.id,
+    };
+
+    const mapped = new Set(
+      edge.mappings
+        .filter((m) => m.child_property_label !== null || m.is_absorbed === true)
+        .map((m) => m.parent_property_label),
+    );
+    const unmapped = edge.parent.property_labels.filter((label) => !mapped.has(label));
+    if (unmapped.length > 0) {
+      findings.push({
+        diagnosis_code: 'INHERITANCE_UNMAPPED_PARENT_ROLE',
+        title: `${edgeName}: ${unmapped.length} parent role${unmapped.length === 1 ? '' : 's'} not mapped`,
+        evidence: { parent_property_labels: unmapped },
+        suggested_fix: suggestedFix,
+      });
+    }
+
+    const stale = [
+      ...new Set(
+        edge.mappings
+          .map((m) => m.parent_property_label)
+          .filter((label) => !parentLabels.has(label)),
+      ),
+    ];
+    if (stale.length > 0) {
+      findings.push({
+        diagnosis_code: 'INHERITANCE_STALE_PARENT_ROLE',
+        title: `${edgeName}: mappings reference ${stale.length} missing parent role${stale.length === 1 ? '' : 's'}`,
+        evidence: { parent_property_labels: stale },
+        suggested_fix: suggestedFix,
+      });
+    }
+
+    const dangling = edge.mappings.filter(
+      (m) => m.child_property_label !== null && !childLabels.has(m.child_property_label),
+    );
+    if (dangling.length > 0) {
+      findings.push({
+        diagnosis_code: 'INHERITANCE_DANGLING_CHILD_ROLE',
+        title: `${edgeName}: ${dangling.length} mapping${dangling.length === 1 ? '' : 's'} target missing child roles`,
+        evidence: {
+          mappings: dangling.map((m) => ({
+            parent_property_label: m.parent_property_label,
+            child_property_label: m.child_property_label,
+          })),
+        },
+        suggested_fix: suggestedFix,
+      });
+    }
+
+    return findings;
+  },
+};
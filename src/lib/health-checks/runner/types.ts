@@ -0,0 +1,73 @@
+/**
+ * Contracts for the in-process programmatic health-check runner.
+ *
+ * A rule is split into a DB-facing half (`listTargetIds` / `loadSnapshots`)
+ * and a pure half (`evaluate`). Snapshots are plain JSON so rule authors
+ * can exercise `evaluate` against fixture objects without a database.
+ */
+
+import type { Prisma } from '@prisma/client';
+import type { IssuePriority } from '@/lib/issues/types';
+import type { HealthCheckEntityType, HealthCheckResultStatus } from '../types';
+
+/** Diagnosis code a rule can emit; synced into `health_diagnosis_codes`. */
+export interface RuleDiagnosisCode {
+  code: string;
+  label: string;
+  description: string;
+  severity: IssuePriority;
+  category?: string;
+  remediation_strategy?: string;
+}
+
+/** One problem reported by `evaluate`. */
+export interface RuleFinding {
+  /** Must match one of the rule's `diagnosis_codes[].code`. */
+  diagnosis_code: string;
+  title: string;
+  message?: string;
+  /** Overrides the diagnosis code's default severity. */
+  severity?: IssuePriority;
+  evidence?: Prisma.InputJsonValue;
+  suggested_fix?: Prisma.InputJsonValue;
+}
+
+export interface RuleSnapshot<TSnapshot> {
+  entity_id: bigint;
+  snapshot: TSnapshot;
+}
+
+export interface HealthCheckRule<TSnapshot = unknown> {
+  /** `health_check_definitions.code` this rule implements. */
+  code: string;
+  label: string;
+  description: string;
+  entity_type: HealthCheckEntityType;
+  /**
+   * Bump whenever `evaluate` changes behaviour. Stored as
+   * `health_check_state.target_version`, so a new version re-checks
+   * everything once.
+   */
+  rule_version: number;
+  diagnosis_codes: RuleDiagnosisCode[];
+  /** Keyset-paged candidate ids, ascending, strictly after `afterId`. */
+  listTargetIds(afterId: bigint | null, limit: number): Promise<bigint[]>;
+  /** Load JSON-serialisable snapshots for the given ids (missing ids are dropped). */
+  loadSnapshots(ids: bigint[]): Promise<RuleSnapshot<TSnapshot>[]>;
+  /** Pure evaluation of a single snapshot. */
+  evaluate(snapshot: TSnapshot): RuleFinding[];
+}
+
+export interface ProgrammaticRunSummary {
+  run_id: bigint;
+  check_code: string;
+  status: 'completed' | 'failed';
+  /** Targets considered. */
+  total: number;
+  /** Targets evaluated and written as results. */
+  evaluated: number;
+  /** Targets skipped because their fingerprint was unchanged. */
+  unchanged: number;
+  counts: Record<HealthCheckResultStatus, number>;
+  error: string | null;
+}
@@ -0,0 +1,306 @@
+/**
+ * Content fingerprints for health-check targets and the commit-time hook
+ * that flags `health_check_state` rows stale when a target changed.
+ *
+ * A fingerprint covers an entity's own row (minus bookkeeping columns such
+ * as timestamps, version counters and embeddings) plus the neighbouring
+ * rows the programmatic rules read, so "fingerprint unchanged" means "a
+ * re-check would see the same input".
+ */
+
+import { createHash } from 'crypto';
+import { Prisma, type PrismaClient } from '@prisma/client';
+import { stableStringify } from './results';
+import type { HealthCheckEntityType } from './types';
+
+type DbClient = Prisma.TransactionClient | PrismaClient;
+
+/** Entity types with a content fingerprint. */
+export type FingerprintedEntityType = Extract<
+  HealthCheckEntityType,
+  'concept' | 'sense' | 'lexical_unit' | 'concept_relation'
+>;
+
+const FINGERPRINTED_ENTITY_TYPES: FingerprintedEntityType[] = [
+  'concept',
+  'sense',
+  'lexical_unit',
+  'concept_relation',
+];
+
+export function isFingerprintedEntityType(value: string): value is FingerprintedEntityType {
+  return (FINGERPRINTED_ENTITY_TYPES as string[]).includes(value);
+}
+
+/** Columns that change without the entity's content changing. */
+const VOLATILE_COLUMNS = Prisma.raw(
+  `ARRAY['created_at','updated_at','version','embedding','gloss_tsv','examples_tsv','descendant_count']::text[]`,
+);
+
+function fingerprintQuery(entityType: FingerprintedEntityType, ids: bigint[]): Prisma.Sql {
+  switch (entityType) {
+    case 'concept':
+      return Prisma.sql`
+        SELECT c.id, jsonb_build_object(
+          'row', to_jsonb(c) - ${VOLATILE_COLUMNS},
+          'properties', COALESCE((
+            SELECT jsonb_agg(to_jsonb(p) - ${VOLATILE_COLUMNS} ORDER BY p.id)
+            FROM properties p WHERE p.concept_id = c.id
+          ), '[]'::jsonb)
+        ) AS content
+        FROM concepts c
+        WHERE c.id IN (${Prisma.join(ids)})
+      `;
+    case 'sense':
+      return Prisma.sql`
+        SELECT s.id::bigint AS id, jsonb_build_object(
+          'row', to_jsonb(s) - ${VOLATILE_COLUMNS},
+          'concepts', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('id', c.id, 'deleted', c.deleted) ORDER BY c.id)
+            FROM sense_concepts sc JOIN concepts c ON c.id = sc.concept_id
+            WHERE sc.sense_id = s.id
+          ), '[]'::jsonb),
+          'lexical_units', COALESCE((
+            SELECT jsonb_agg(
+              jsonb_build_object('id', lu.id, 'code', lu.code, 'pos', lu.pos, 'deleted', lu.deleted)
+              ORDER BY lu.id
+            )
+            FROM lexical_unit_senses lus JOIN lexical_units lu ON lu.id = lus.lexical_unit_id
+            WHERE lus.sense_id = s.id
+          ), '[]'::jsonb)
+        ) AS content
+        FROM senses s
+        WHERE s.id IN (${Prisma.join(ids.map((id) => Number(id)))})
+      `;
+    case 'lexical_unit':
+      return Prisma.sql`
+        SELECT lu.id, jsonb_build_object(
+          'row', to_jsonb(lu) - ${VOLATILE_COLUMNS},
+          'sense_ids', COALESCE((
+            SELECT jsonb_agg(lus.sense_id ORDER BY lus.sense_id)
+            FROM lexical_unit_senses lus WHERE lus.lexical_unit_id = lu.id
+          ), '[]'::jsonb)
+        ) AS content
+        FROM lexical_units lu
+        WHERE lu.id IN (${Prisma.join(ids)})
+      `;
+    case 'concept_relation':
+      return Prisma.sql`
+        SELECT r.id, jsonb_build_object(
+          'row', to_jsonb(r) - ${VOLATILE_COLUMNS},
+          'parent_properties', COALESCE((
+            SELECT jsonb_agg(p.label ORDER BY p.label) FROM properties p WHERE p.concept_id = r.parent_id
+          ), '[]'::jsonb),
+          'child_properties', COALESCE((
+            SELECT jsonb_agg(p.label ORDER BY p.label) FROM properties p WHERE p.concept_id = r.child_id
+          ), '[]'::jsonb),
+          'mappings', COALESCE((
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'parent', m.parent_property_label,
+                'child', m.child_property_label,
+                'absorbed', m.is_absorbed
+              )
+              ORDER BY m.id
+            )
+            FROM property_mappings m
+            WHERE m.parent_concept_id = r.parent_id AND m.child_concept_id = r.child_id
+          ), '[]'::jsonb)
+        ) AS content
+        FROM concept_relations r
+        WHERE r.id IN (${Prisma.join(ids)})
+      `;
+  }
+}
+
+/**
+ * Fingerprint each id that still exists. Ids with no row are absent from
+ * the returned map.
+ */
+export async function computeEntityFingerprints(
+  client: DbClient,
+  entityType: FingerprintedEntityType,
+  ids: bigint[],
+): Promise<Map<bigint, string>> {
+  const fingerprints = new Map<bigint, string>();
+  if (ids.length === 0) return fingerprints;
+
+  const rows = await client.$queryRaw<{ id: bigint; content: unknown }[]>(
+    fingerprintQuery(entityType, ids),
+  );
+  for (const row of rows) {
+    fingerprints.set(
+      BigInt(row.id),
+      createHash('sha256').update(stableStringify(row.content)).digest('hex'),
+    );
+  }
+  return fingerprints;
+}
+
+export interface TouchedHealthCheckTargets {
+  concept: Set<bigint>;
+  sense: Set<bigint>;
+  lexical_unit: Set<bigint>;
+  concept_relation: Set<bigint>;
+}
+
+export function emptyTouchedTargets(): TouchedHealthCheckTargets {
+  return {
+    concept: new Set(),
+    sense: new Set(),
+    lexical_unit: new Set(),
+    concept_relation: new Set(),
+  };
+}
+
+function addId(set: Set<bigint>, value: unknown): void {
+  if (typeof value === 'bigint') set.add(value);
+  else if (typeof value === 'number' && Number.isInteger(value)) set.add(BigInt(value));
+  else if (typeof value === 'string' && /^\d+$/.test(value)) set.add(BigInt(value));
+}
+
+/**
+ * Collect the targets a committed changeset touched, from its entity id
+ * and before/after snapshots. Accepts both the legacy version-control
+ * names (`frame`, `frame_sense`, ...) and the v2 runner names.
+ */
+export function collectTouchedTargets(
+  changeset: {
+    entity_type: string;
+    entity_id: bigint | null;
+    before_snapshot: unknown;
+    after_snapshot: unknown;
+  },
+  into: TouchedHealthCheckTargets = emptyTouchedTargets(),
+): TouchedHealthCheckTargets {
+  const snapshots = [changeset.before_snapshot, changeset.after_snapshot].filter(
+    (s): s is Record<string, unknown> => !!s && typeof s === 'object' && !Array.isArray(s),
+  );
+  const fromSnapshots = (key: string, set: Set<bigint>) => {
+    for (const s of snapshots) addId(set, s[key]);
+  };
+
+  switch (changeset.entity_type) {
+    case 'frame':
+    case 'concept':
+      addId(into.concept, changeset.entity_id);
+      fromSnapshots('__merge_child_id', into.concept);
+      break;
+    case 'frame_sense':
+    case 'sense':
+      addId(into.sense, changeset.entity_id);
+      fromSnapshots('concept_id', into.concept);
+      fromSnapshots('__merge_child_id', into.sense);
+      for (const s of snapshots) {
+        const ctx = s.__merge_context;
+        if (ctx && typeof ctx === 'object' && !Array.isArray(ctx)) {
+          addId(into.concept, (ctx as Record<string, unknown>).concept_id);
+        }
+      }
+      break;
+    case 'lexical_unit':
+      addId(into.lexical_unit, changeset.entity_id);
+      break;
+    case 'frame_role':
+    case 'property':
+      fromSnapshots('concept_id', into.concept);
+      break;
+    case 'frame_relation':
+    case 'concept_relation':
+      addId(into.concept_relation, changeset.entity_id);
+      fromSnapshots('parent_id', into.concept);
+      fromSnapshots('child_id', into.concept);
+      break;
+    case 'frame_role_mapping':
+    case 'property_mapping':
+      fromSnapshots('parent_concept_id', into.concept);
+      fromSnapshots('child_concept_id', into.concept);
+      break;
+    case 'lexical_unit_relation':
+      fromSnapshots('source_id', into.lexical_unit);
+      fromSnapshots('target_id', into.lexical_unit);
+      break;
+  }
+  return into;
+}
+
+/**
+ * Pull in targets whose fingerprint depends on a touched entity: the
+ * parent_of edges of a touched concept, the senses of a touched concept
+ * or lexical unit.
+ */
+async function expandDependents(
+  tx: Prisma.TransactionClient,
+  touched: TouchedHealthCheckTargets,
+): Promise<void> {
+  const conceptIds = Array.from(touched.concept);
+  const luIds = Array.from(touched.lexical_unit);
+
+  if (conceptIds.length > 0) {
+    const edges = await tx.concept_relations.findMany({
+      where: { OR: [{ parent_id: { in: conceptIds } }, { child_id: { in: conceptIds } }] },
+      select: { id: true },
+    });
+    for (const e of edges) touched.concept_relation.add(e.id);
+
+    const senseLinks = await tx.sense_concepts.findMany({
+      where: { concept_id: { in: conceptIds } },
+      select: { sense_id: true },
+    });
+    for (const l of senseLinks) touched.sense.add(BigInt(l.sense_id));
+  }
+
+  if (luIds.length > 0) {
+    const senseLinks = await tx.lexical_unit_senses.findMany({
+      where: { lexical_unit_id: { in: luIds } },
+      select: { sense_id: true },
+    });
+    for (const l of senseLinks) touched.sense.add(BigInt(l.sense_id));
+  }
+}
+
+/**
+ * Flag `health_check_state` rows stale for every touched target (and its
+ * dependents) whose current fingerprint differs from the one recorded at
+ * its last check. Targets that no longer exist are flagged
+ * unconditionally. Returns the number of state rows flagged.
+ */
+export async function markHealthCheckStateStaleInTx(
+  tx: Prisma.TransactionClient,
+  touched: TouchedHealthCheckTargets,
+): Promise<number> {
+  await expandDependents(tx, touched);
+
+  let flagged = 0;
+  for (const entityType of FINGERPRINTED_ENTITY_TYPES) {
+    const ids = Array.from(touched[entityType]);
+    if (ids.length === 0) continue;
+
+    const fingerprints = await computeEntityFingerprints(tx, entityType, ids);
+
+    const missing = ids.filter((id) => !fingerprints.has(id));
+    if (missing.length > 0) {
+      const result = await tx.health_check_state.updateMany({
+        where: { entity_type: entityType, entity_id: { in: missing }, stale: false },
+        data: { stale: true, next_check_at: new Date() },
+      });
+      flagged += result.count;
+    }
+
+    if (fingerprints.size > 0) {
+      const values = Prisma.join(
+        Array.from(fingerprints, ([id, fp]) => Prisma.sql`(${id}::bigint, ${fp}::text)`),
+      );
+      flagged += await tx.$executeRaw`
+        UPDATE health_check_state s
+        SET stale = true, next_check_at = NOW(), updated_at = NOW()
+        FROM (VALUES ${values}) AS t(entity_id, fingerprint)
+        WHERE s.entity_type = ${entityType}::entity_type
+          AND s.entity_id = t.entity_id
+          AND s.stale = false
+          AND s.target_fingerprint IS DISTINCT FROM t.fingerprint
+      `;
+    }
+  }
+  return flagged;
+}
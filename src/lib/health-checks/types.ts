@@ -484,6 +484,22 @@ export interface HealthDiagnosisCode {
   created_at: string;
 }
 
+/**
+ * Known keys of `health_check_runs.scope`. Workers ignore keys they don't
+ * understand, so the column stays free-form JSON.
+ */
+export interface HealthCheckRunScope {
+  /** Restrict the run to these entity ids. */
+  entity_ids?: string[];
+  /**
+   * Only re-check targets that are stale, never checked, or last checked
+   * with an older rule version. Used by the nightly incremental run.
+   */
+  stale_only?: boolean;
+  /** Re-evaluate targets even when their fingerprint is unchanged. */
+  force?: boolean;
+}
+
 export interface HealthCheckRunSummary {
   id: string;
   check_definition_id: string | null;
@@ -497,6 +513,8 @@ export interface HealthCheckRunSummary {
    */
   check_definition_execution_kind: HealthCheckExecutionKind | null;
   label: string | null;
+  /** True when the run's scope is `stale_only` (incremental re-check). */
+  stale_only: boolean;
   status: HealthCheckRunStatus;
   worker_id: string | null;
   /** Always null for programmatic runs. */
@@ -550,3 +568,74 @@ export const HEALTH_CHECK_RESULT_STATUS_STYLES: Record<HealthCheckResultStatus,
   error: 'bg-rose-100 text-rose-800 border-rose-200',
   skipped: 'bg-gray-100 text-gray-700 border-gray-200',
 };
+
+export const HEALTH_FINDING_STATUS_LABELS: Record<HealthFindingStatus, string> = {
+  open: 'Open',
+  resolved: 'Resolved',
+  ignored: 'Ignored',
+  false_positive: 'False positive',
+};
+
+export const HEALTH_FINDING_STATUS_STYLES: Record<HealthFindingStatus, string> = {
+  open: 'bg-red-50 text-red-700 border-red-200',
+  resolved: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  ignored: 'bg-gray-100 text-gray-700 border-gray-200',
+  false_positive: 'bg-slate-100 text-slate-700 border-slate-200',
+};
+
+/**
+ * Statuses a reviewer may set by hand. `resolved` is reserved for the
+ * pipeline (a later run no longer reports the finding, or its remediation
+ * was committed).
+ */
+export type HealthFindingReviewStatus = Exclude<HealthFindingStatus, 'resolved'>;
+
+export const HEALTH_FINDING_REVIEW_STATUSES: HealthFindingReviewStatus[] = [
+  'open',
+  'ignored',
+  'false_positive',
+];
+
+/** A changeset or change plan already staged to remediate a finding. */
+export interface HealthFindingStagedChange {
+  kind: 'changeset' | 'change_plan';
+  id: string;
+  status: string;
+  /** `plan_kind` for plans, `operation` for changesets. */
+  label: string;
+}
+
+export interface HealthCheckFindingSummary {
+  id: string;
+  status: HealthFindingStatus;
+  severity: IssuePriority;
+  title: string;
+  message: string | null;
+  evidence: unknown;
+  suggested_fix: unknown;
+  first_seen_at: string;
+  last_seen_at: string;
+  resolved_at: string | null;
+  result_id: string;
+  run_id: string;
+  check_definition_id: string;
+  check_definition_code: string | null;
+  entity_type: HealthCheckEntityType;
+  entity_id: string;
+  /** Display label of the target entity (concept label, LU code, …). */
+  entity_label: string | null;
+  /**
+   * The concept the target hangs off (the concept itself, a property's
+   * concept, a sense's concept, a relation's child). Used for linking and
+   * for the archetype/subtype filters.
+   */
+  anchor_concept_id: string | null;
+  diagnosis_code: {
+    id: string;
+    code: string;
+    label: string;
+    group_id: string | null;
+    group_label: string | null;
+  };
+  staged_changes: HealthFindingStagedChange[];
+}
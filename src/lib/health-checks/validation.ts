@@ -7,11 +7,15 @@ import {
   CONCEPT_ARCHETYPES,
   HEALTH_CHECK_ENTITY_TYPES,
   HEALTH_CHECK_RUN_STATUSES,
+  HEALTH_FINDING_REVIEW_STATUSES,
+  HEALTH_FINDING_STATUSES,
   HEALTH_REMEDIATION_STRATEGIES,
   type ConceptSubtype,
   type ConceptArchetype,
   type HealthCheckEntityType,
   type HealthCheckRunStatus,
+  type HealthFindingReviewStatus,
+  type HealthFindingStatus,
   type HealthRemediationStrategy,
 } from './types';
 import { ISSUE_PRIORITIES, type IssuePriority } from '@/lib/issues/types';
@@ -26,6 +30,18 @@ export function isHealthCheckRunStatus(value: unknown): value is HealthCheckRunS
     && (HEALTH_CHECK_RUN_STATUSES as readonly string[]).includes(value);
 }
 
+export function isHealthFindingStatus(value: unknown): value is HealthFindingStatus {
+  return typeof value === 'string'
+    && (HEALTH_FINDING_STATUSES as readonly string[]).includes(value);
+}
+
+export function isHealthFindingReviewStatus(
+  value: unknown,
+): value is HealthFindingReviewStatus {
+  return typeof value === 'string'
+    && (HEALTH_FINDING_REVIEW_STATUSES as readonly string[]).includes(value);
+}
+
 export function isIssuePriority(value: unknown): value is IssuePriority {
   return typeof value === 'string'
     && (ISSUE_PRIORITIES as readonly string[]).includes(value);
@@ -10,6 +10,7 @@ import type {
   LexicalUnitRelation,
   LexicalUnitRelationType
 } from './types'
+import { refreshPendingChangesCount } from '@/hooks/usePendingChangesCount'
 
 // Custom hook for searching lexical units
 export function useSearchEntries() {
@@ -179,6 +180,9 @@ export function useLexicalUnitRelations(entryId: string | null) {
         throw new Error('Failed to add relation')
       }
 
+      // Relation edits are staged for review, not applied directly
+      refreshPendingChangesCount()
+
       // Refresh relations
       if (entryId) {
         await fetchRelations(entryId)
@@ -201,6 +205,9 @@ export function useLexicalUnitRelations(entryId: string | null) {
         throw new Error('Failed to remove relation')
       }
 
+      // Relation edits are staged for review, not applied directly
+      refreshPendingChangesCount()
+
       // Refresh relations
       if (entryId) {
         await fetchRelations(entryId)
@@ -113,7 +113,30 @@ export type ChangePlanKind =
    * diagnoses (per-row; absorbed by the merge that subsumed the
    * `create_frame_role_mapping` v1 strategy).
    */
-  | 'upsert_role_mappings';
+  | 'upsert_role_mappings'
+  /**
+   * An OWL/SKOS file diffed against the concept graph by
+   * `stageOntologyImport`. Bundles frame CREATE/UPDATE, frame_role
+   * CREATE/UPDATE and `parent_of` frame_relation CREATE/DELETE
+   * changesets; `metadata` carries per-kind counts and the lines the
+   * importer could not stage.
+   */
+  | 'ontology_import'
+  /**
+   * Inverse of a committed changeset or plan, staged by
+   * `stageChangesetRevert` / `stagePlanRevert`. Every member points at
+   * the changeset it undoes via `reverts_changeset_id`; `metadata`
+   * carries the source plan/changeset, the conflicts the reviewer chose
+   * to override and the parts that could not be inverted.
+   */
+  | 'revert'
+  /**
+   * A lexical unit moved to a new hypernym by `stageHypernymChange`.
+   * Bundles `lexical_unit_relation` DELETE/CREATE changesets for the
+   * unit's own hypernym edge and for the hyponyms that stay with the old
+   * hypernym; committing each writes or removes the hyponym inverse.
+   */
+  | 'change_hypernym';
 
 /** v2: lifecycle status mirrored from runner schema. */
 export type ChangePlanStatus = 'pending' | 'committed' | 'discarded' | 'failed';
@@ -156,6 +179,8 @@ export interface IssueChangePlanSummary {
   created_at: string;
   updated_at: string;
   changesets: IssueChangePlanChangesetSummary[];
+  /** Reviewer approvals a require_approvals commit policy asks for (0 = none). */
+  required_approvals?: number;
   /**
    * Plan alternatives: the logical-change group this plan is one alternative
    * of. When the group owns more than one pending plan, the reviewer compares
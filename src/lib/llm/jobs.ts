@@ -8,6 +8,8 @@ import {
   JobEntityTypeFilter,
   JobListOptions,
   JobScope,
+  JobScopeSenseContrastLemmas,
+  JobScopeSourceTexts,
   LexicalUnitSummary,
   JobTargetType,
   RenderedPrompt,
@@ -19,6 +21,11 @@ import { withRetry } from '@/lib/db-utils';
 import { callSourceClustering } from '@/lib/clustering/sourceClustering';
 
 import { fetchUnitsForScope, countEntriesForScope } from './entries';
+import { buildSystemPrompt } from './system-prompts';
+import { prepareClaimsExtractionItems } from '@/lib/claims/extraction/job';
+import { DEFAULT_CLAIMS_EXTRACTION_TEMPLATE } from '@/lib/claims/extraction/prompt';
+import { prepareContrastDraftItems } from '@/lib/sense-contrasts/drafting';
+import { DEFAULT_SENSE_CONTRAST_TEMPLATE } from '@/lib/sense-contrasts/prompt';
 
 export { fetchUnitsForScope };
 
@@ -234,6 +241,7 @@ async function fetchJobRecord(jobId: bigint, options: FetchOptions = {}): Promis
         completed_at: item.completed_at ? item.completed_at.toISOString() : null,
         lexical_unit_id: item.lexical_unit_id ? item.lexical_unit_id.toString() : null,
         concept_id: item.concept_id ? item.concept_id.toString() : null,
+        source_text_id: item.source_text_id ? item.source_text_id.toString() : null,
         entry: extractEntrySummary(item),
       }))
     : [];
@@ -777,6 +785,35 @@ export async function renderPromptAsync(
 // ============================================================================
 
 export async function previewLLMJob(params: CreateLLMJobParams) {
+  if (params.scope.kind === 'source_texts') {
+    const { items, totalChunks } = await prepareClaimsExtractionItems(params.scope, params.promptTemplate, { limit: 5 });
+    if (totalChunks === 0) {
+      throw new LLMJobError('No text to extract from in the selected sources.', 400);
+    }
+    return {
+      previews: items.map((item) => ({
+        prompt: item.request_payload.renderedPrompt as string,
+        variables: item.request_payload.variables as Record<string, string>,
+      })),
+      totalEntries: totalChunks,
+      clusteringError: undefined,
+    };
+  }
+  if (params.scope.kind === 'sense_contrast_lemmas') {
+    const { items, totalLemmas } = await prepareContrastDraftItems(params.scope, params.promptTemplate, { limit: 5 });
+    if (totalLemmas === 0) {
+      throw new LLMJobError('No lemmas in scope are missing sense contrasts.', 400);
+    }
+    return {
+      previews: items.map((item) => ({
+        prompt: item.request_payload.renderedPrompt as string,
+        variables: item.request_payload.variables as Record<string, string>,
+      })),
+      totalEntries: totalLemmas,
+      clusteringError: undefined,
+    };
+  }
+
   // For preview, we only need a few entries. 
   // We apply a limit to the scope to avoid fetching thousands of records.
   const previewScope = { ...params.scope };
@@ -819,6 +856,13 @@ export async function createLLMJob(
   params: CreateLLMJobParams,
   initialBatchSize?: number
 ): Promise<SerializedJob> {
+  if (params.scope.kind === 'source_texts') {
+    return createClaimsExtractionJob(params, params.scope);
+  }
+  if (params.scope.kind === 'sense_contrast_lemmas') {
+    return createContrastDraftingJob(params, params.scope);
+  }
+
   const entries = await fetchUnitsForScope(params.scope);
 
   if (entries.length === 0) {
@@ -916,6 +960,17 @@ export async function createLLMJob(
     };
   }));
 
+  return insertJobWithItems(params, jobConfig, totalEntries, preparedJobItemsData);
+}
+
+type PreparedJobItem = Omit<Prisma.llm_job_itemsCreateManyInput, 'job_id'>;
+
+async function insertJobWithItems(
+  params: CreateLLMJobParams,
+  jobConfig: Prisma.InputJsonObject,
+  totalItems: number,
+  preparedJobItemsData: PreparedJobItem[],
+): Promise<SerializedJob> {
   const job = await prisma.$transaction(
     async (tx) => {
       const createdJob = await tx.llm_jobs.create({
@@ -929,7 +984,7 @@ export async function createLLMJob(
           provider: 'openai',
           llm_vendor: 'openai',
           status: 'queued',
-          total_items: totalEntries,
+          total_items: totalItems,
         } as any,
       });
 
@@ -958,6 +1013,104 @@ export async function createLLMJob(
   return result;
 }
 
+/**
+ * extract_claims jobs: one item per source-text chunk rather than per
+ * entry. The prompt is rendered by the extraction module and the runner
+ * gets the output schema on each item; MCP tools are off since the model
+ * should only use the passage.
+ */
+async function createClaimsExtractionJob(
+  params: CreateLLMJobParams,
+  scope: JobScopeSourceTexts,
+): Promise<SerializedJob> {
+  const { items, totalChunks } = await prepareClaimsExtractionItems(scope, params.promptTemplate);
+  if (items.length === 0) {
+    throw new LLMJobError('No text to extract from in the selected sources.', 400);
+  }
+  const MAX_CHUNKS_PER_JOB = 2000;
+  if (totalChunks > MAX_CHUNKS_PER_JOB) {
+    throw new LLMJobError(
+      `Job scope contains ${totalChunks} chunks, which exceeds the maximum of ${MAX_CHUNKS_PER_JOB}.`,
+      400
+    );
+  }
+
+  const jobConfig: Prisma.InputJsonObject = {
+    model: params.model,
+    userPromptTemplate: params.promptTemplate || DEFAULT_CLAIMS_EXTRACTION_TEMPLATE,
+    systemPrompt: params.systemPrompt ?? buildSystemPrompt({ jobType: 'extract_claims', agenticMode: false }),
+    serviceTier: params.serviceTier ?? null,
+    reasoning: params.reasoning ?? null,
+    targetFields: [],
+    reallocationEntityTypes: [],
+    metadata: (params.metadata ?? {}) as Prisma.InputJsonObject,
+    mcpEnabled: false,
+    changesetId: null,
+    chatHistory: null,
+    splitMinConcepts: null,
+    splitMaxConcepts: null,
+  };
+
+  return insertJobWithItems(
+    { ...params, jobType: 'extract_claims' },
+    jobConfig,
+    totalChunks,
+    items.map((item) => ({
+      status: 'queued' as const,
+      source_text_id: item.source_text_id,
+      request_payload: item.request_payload,
+    })),
+  );
+}
+
+/**
+ * draft_sense_contrasts jobs: one item per polysemous lemma with missing
+ * contrasts. Like extract_claims, the prompt is rendered by the drafting
+ * module, each item carries its output schema and MCP tools are off.
+ */
+async function createContrastDraftingJob(
+  params: CreateLLMJobParams,
+  scope: JobScopeSenseContrastLemmas,
+): Promise<SerializedJob> {
+  const { items, totalLemmas } = await prepareContrastDraftItems(scope, params.promptTemplate);
+  if (items.length === 0) {
+    throw new LLMJobError('No lemmas in scope are missing sense contrasts.', 400);
+  }
+  const MAX_LEMMAS_PER_JOB = 2000;
+  if (totalLemmas > MAX_LEMMAS_PER_JOB) {
+    throw new LLMJobError(
+      `Job scope contains ${totalLemmas} lemmas, which exceeds the maximum of ${MAX_LEMMAS_PER_JOB}.`,
+      400
+    );
+  }
+
+  const jobConfig: Prisma.InputJsonObject = {
+    model: params.model,
+    userPromptTemplate: params.promptTemplate || DEFAULT_SENSE_CONTRAST_TEMPLATE,
+    systemPrompt: params.systemPrompt ?? buildSystemPrompt({ jobType: 'draft_sense_contrasts', agenticMode: false }),
+    serviceTier: params.serviceTier ?? null,
+    reasoning: params.reasoning ?? null,
+    targetFields: [],
+    reallocationEntityTypes: [],
+    metadata: (params.metadata ?? {}) as Prisma.InputJsonObject,
+    mcpEnabled: false,
+    changesetId: null,
+    chatHistory: null,
+    splitMinConcepts: null,
+    splitMaxConcepts: null,
+  };
+
+  return insertJobWithItems(
+    { ...params, jobType: 'draft_sense_contrasts' },
+    jobConfig,
+    items.length,
+    items.map((item) => ({
+      status: 'queued' as const,
+      request_payload: item.request_payload,
+    })),
+  );
+}
+
 // ============================================================================
 // Public API - Job Listing and Retrieval
 // ============================================================================
@@ -1018,6 +1171,7 @@ export async function listLLMJobs(options: JobListOptions = {}): Promise<Seriali
       completed_at: item.completed_at ? item.completed_at.toISOString() : null,
       lexical_unit_id: item.lexical_unit_id ? item.lexical_unit_id.toString() : null,
       concept_id: item.concept_id ? item.concept_id.toString() : null,
+      source_text_id: item.source_text_id ? item.source_text_id.toString() : null,
       entry: extractEntrySummary(item),
     }));
 
@@ -1066,7 +1220,7 @@ export async function getLLMJob(jobId: number | string, options: JobDetailOption
 // Public API - Job Management
 // ============================================================================
 
-export async function cancelLLMJob(jobId: number | string): Promise<CancelJobResult> {
+export async function cancelLLMJob(jobId: number | string, cancelledBy: string): Promise<CancelJobResult> {
   const job = await getLLMJob(jobId, { refresh: false });
 
   if (['completed', 'failed', 'cancelled'].includes(job.status)) {
@@ -1096,15 +1250,15 @@ export async function cancelLLMJob(jobId: number | string): Promise<CancelJobRes
     },
   });
 
-  await discardByLlmJob(BigInt(job.id));
+  await discardByLlmJob(BigInt(job.id), cancelledBy);
 
   const refreshed = await getLLMJob(jobId, { refresh: false });
   await updateJobAggregates(BigInt(refreshed.id));
   return { job: refreshed, cancelledCount: skipResult.count };
 }
 
-export async function deleteLLMJob(jobId: number | string): Promise<void> {
-  await discardByLlmJob(BigInt(jobId));
+export async function deleteLLMJob(jobId: number | string, deletedBy: string): Promise<void> {
+  await discardByLlmJob(BigInt(jobId), deletedBy);
 
   try {
     await getLLMJobsDelegate().update({
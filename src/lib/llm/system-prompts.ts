@@ -63,6 +63,18 @@ For lexical units: recommend the best concept (recommended_concept_id).
 For concepts: recommend either the best super-concept (recommended_super_concept_id) or the best parent in the parent_of DAG hierarchy (recommended_parent_concept_id). Use recommended_parent_concept_id when the task involves inheritance relationships between concepts, and recommended_super_concept_id when the task involves super-concept grouping.
 
 Use the provided entry data and return your result strictly in the required JSON schema.`,
+
+  extract_claims: `You are extracting structured claims from a source document into a knowledge graph.
+
+Represent each claim as an instance of one of the catalog concepts, filling only the properties listed for that concept. Ground every instance in the passage: cite the block id and copy the supporting quote verbatim. Do not infer facts the passage does not state.
+
+Return your result strictly in the required JSON schema.`,
+
+  draft_sense_contrasts: `You are a lexicographer writing sense contrasts for a lexical database.
+
+A sense contrast tells a reader who sees two senses of the same word which one applies: it names the difference in meaning, not the shared part. Keep each contrast short, neutral and consistent in style with any existing contrasts for the word.
+
+Return your result strictly in the required JSON schema.`,
 };
 
 const MCP_TOOL_BLOCKS: Record<string, string> = {
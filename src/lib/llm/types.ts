@@ -35,7 +35,40 @@ export interface JobScopeFilters {
   };
 }
 
-export type JobScope = JobScopeIds | JobScopeConceptIds | JobScopeFilters;
+/**
+ * Claim extraction over source texts (`extract_claims` jobs). Each source is
+ * split into DocumentIndex section chunks; one job item per chunk.
+ */
+export interface JobScopeSourceTexts {
+  kind: 'source_texts';
+  sourceTextIds: string[];
+  /** Graph extracted instances are staged into. Defaults to each source's ingestion graph. */
+  knowledgeGraphId?: string;
+  /** Concept types offered to the model. Defaults to the concepts already used in the graph. */
+  conceptIds?: string[];
+  /** Upper bound on block text per chunk (default 6000 characters). */
+  maxChunkChars?: number;
+}
+
+/**
+ * Contrast drafting over polysemous lemmas (`draft_sense_contrasts` jobs).
+ * One job item per lemma that still has sense pairs without a contrast.
+ */
+export interface JobScopeSenseContrastLemmas {
+  kind: 'sense_contrast_lemmas';
+  /** Lemmas to draft for. Omitted or empty: every lemma with missing contrasts. */
+  lemmas?: string[];
+  pos?: POSType;
+  /** Upper bound on lemmas (one item each) in the job (default 200). */
+  limit?: number;
+}
+
+export type JobScope =
+  | JobScopeIds
+  | JobScopeConceptIds
+  | JobScopeFilters
+  | JobScopeSourceTexts
+  | JobScopeSenseContrastLemmas;
 
 /**
  * MCP tool approval configuration
@@ -57,7 +90,7 @@ export interface CreateLLMJobParams {
   previewOnly?: boolean;
   metadata?: Record<string, unknown>;
   serviceTier?: 'flex' | 'default' | 'priority';
-  jobType?: 'flag' | 'edit' | 'allocate_contents' | 'allocate' | 'review' | 'split';
+  jobType?: 'flag' | 'edit' | 'allocate_contents' | 'allocate' | 'review' | 'split' | 'extract_claims' | 'draft_sense_contrasts';
   targetFields?: string[];
   reallocationEntityTypes?: POSType[];
   reasoning?: {
@@ -143,7 +176,7 @@ export interface RenderedPrompt {
   variables: Record<string, string>;
 }
 
-export interface SerializedJobItem extends Omit<llm_job_items, 'id' | 'job_id' | 'created_at' | 'updated_at' | 'started_at' | 'completed_at' | 'lexical_unit_id' | 'concept_id'> {
+export interface SerializedJobItem extends Omit<llm_job_items, 'id' | 'job_id' | 'created_at' | 'updated_at' | 'started_at' | 'completed_at' | 'lexical_unit_id' | 'concept_id' | 'source_text_id'> {
   id: string;
   job_id: string;
   created_at: string;
@@ -152,6 +185,7 @@ export interface SerializedJobItem extends Omit<llm_job_items, 'id' | 'job_id' |
   completed_at: string | null;
   lexical_unit_id: string | null;
   concept_id: string | null;
+  source_text_id: string | null;
 }
 
 export interface SerializedJob extends Omit<llm_jobs, 'id' | 'created_at' | 'updated_at' | 'started_at' | 'completed_at' | 'cost_microunits'> {
@@ -229,7 +263,7 @@ export function parseJobConfig(config: unknown): ParsedJobConfig | null {
 export function parseJobScope(scope: unknown): JobScope | null {
   if (!scope || typeof scope !== 'object') return null;
   const parsed = scope as { kind?: string };
-  if (!parsed.kind || !['ids', 'concept_ids', 'filters'].includes(parsed.kind)) {
+  if (!parsed.kind || !['ids', 'concept_ids', 'filters', 'source_texts'].includes(parsed.kind)) {
     return null;
   }
   return scope as JobScope;
@@ -252,6 +286,10 @@ export function formatScopeDescription(scope: JobScope | null, totalItems: numbe
     }
     case 'filters':
       return `Filtered ${scope.targetType}${scope.filters?.limit ? ` (limit: ${scope.filters.limit})` : ''}`;
+    case 'source_texts': {
+      const count = scope.sourceTextIds?.length ?? 0;
+      return `${count} source text${count === 1 ? '' : 's'} (${totalItems} chunks)`;
+    }
     default:
       return `${totalItems} items`;
   }
@@ -0,0 +1,182 @@
+/**
+ * Daily email digest.
+ *
+ * Every user with `email_digest` on and an email address gets one email
+ * listing the notifications they haven't received by email yet (read or
+ * not — the digest is a record of the day). Mail goes out through a
+ * plain HTTP relay (NOTIFICATION_EMAIL_WEBHOOK_URL receives
+ * `{ from, to, subject, html, text }`), so any provider with a send API
+ * or a small forwarding function works.
+ */
+
+import type { notifications } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { absoluteLink } from './dispatch';
+import { NOTIFICATION_KIND_LABELS, type NotificationKind } from './types';
+import { NotificationError } from './validation';
+
+/** Most notifications listed in one digest; the rest are summarized as a count. */
+const DIGEST_ITEM_LIMIT = 100;
+/** Older notifications are left out, so opting in doesn't mail the whole backlog. */
+const DIGEST_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface RenderedDigest {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface DigestSummary {
+  users: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Render `items` (newest first) for `userName`, grouped by kind. */
+export function renderDigest(userName: string, items: notifications[], total = items.length): RenderedDigest {
+  const groups = new Map<NotificationKind, notifications[]>();
+  for (const item of items) {
+    const kind = item.kind as NotificationKind;
+    if (!groups.has(kind)) groups.set(kind, []);
+    groups.get(kind)!.push(item);
+  }
+
+  const subject = `Source Console: ${total} update${total === 1 ? '' : 's'} for ${userName}`;
+  const more = total - items.length;
+
+  const textSections: string[] = [];
+  const htmlSections: string[] = [];
+  for (const [kind, group] of groups) {
+    const label = NOTIFICATION_KIND_LABELS[kind] ?? kind;
+    textSections.push(
+      [
+        `${label} (${group.length})`,
+        ...group.map((n) => {
+          const url = absoluteLink(n.link);
+          return [`- ${n.title}`, n.body ? `  ${n.body}` : null, url ? `  ${url}` : null].filter(Boolean).join('\n');
+        }),
+      ].join('\n'),
+    );
+    htmlSections.push(
+      `<h3 style="font-size:14px;margin:20px 0 8px;color:#111827">${escapeHtml(label)} (${group.length})</h3>` +
+        '<ul style="padding-left:18px;margin:0">' +
+        group
+          .map((n) => {
+            const url = absoluteLink(n.link);
+            const title = url
+              ? `<a href="${escapeHtml(url)}" style="color:#1d4ed8">${escapeHtml(n.title)}</a>`
+              : escapeHtml(n.title);
+            const body = n.body ? `<div style="color:#6b7280;margin-top:2px">${escapeHtml(n.body)}</div>` : '';
+            return `<li style="margin-bottom:8px">${title}${body}</li>`;
+          })
+          .join('') +
+        '</ul>',
+    );
+  }
+  if (more > 0) {
+    textSections.push(`…and ${more} more.`);
+    htmlSections.push(`<p style="color:#6b7280">…and ${more} more.</p>`);
+  }
+
+  const text = [`Hi ${userName},`, `Here is what happened since your last digest:`, ...textSections].join('\n\n');
+  const html =
+    '<div style="font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;font-size:13px;color:#374151">' +
+    `<p>Hi ${escapeHtml(userName)},</p><p>Here is what happened since your last digest:</p>` +
+    htmlSections.join('') +
+    '<p style="color:#9ca3af;font-size:12px;margin-top:24px">Change what you receive under Notifications → Settings.</p>' +
+    '</div>';
+  return { subject, html, text };
+}
+
+/** Notifications not yet emailed to `userName`, newest first, and how many there are. */
+async function undigested(userName: string): Promise<{ items: notifications[]; total: number }> {
+  const where = {
+    recipient: userName,
+    emailed_at: null,
+    created_at: { gte: new Date(Date.now() - DIGEST_WINDOW_MS) },
+  };
+  const [items, total] = await Promise.all([
+    prisma.notifications.findMany({ where, orderBy: { id: 'desc' }, take: DIGEST_ITEM_LIMIT }),
+    prisma.notifications.count({ where }),
+  ]);
+  return { items, total };
+}
+
+/** What the next digest for `userName` would contain (null when there's nothing to send). */
+export async function previewDigest(userName: string): Promise<RenderedDigest | null> {
+  const { items, total } = await undigested(userName);
+  return items.length > 0 ? renderDigest(userName, items, total) : null;
+}
+
+async function sendEmail(to: string, digest: RenderedDigest): Promise<void> {
+  const url = process.env.NOTIFICATION_EMAIL_WEBHOOK_URL;
+  if (!url) throw new NotificationError('NOTIFICATION_EMAIL_WEBHOOK_URL is not configured', 503);
+  const token = process.env.NOTIFICATION_EMAIL_WEBHOOK_TOKEN;
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify({
+      from: process.env.NOTIFICATION_EMAIL_FROM ?? 'Source Console <no-reply@localhost>',
+      to,
+      ...digest,
+    }),
+    signal: AbortSignal.timeout(15_000),
+  });
+  if (!res.ok) throw new Error(`Email relay responded ${res.status}`);
+}
+
+/**
+ * Send one digest to every opted-in user with something new. With
+ * `dryRun` nothing is sent or marked; the summary counts who would get one.
+ */
+export async function sendNotificationDigests({ dryRun = false }: { dryRun?: boolean } = {}): Promise<DigestSummary> {
+  const users = await prisma.notification_preferences.findMany({
+    where: { email_digest: true, email: { not: null } },
+    select: { user_name: true, email: true },
+  });
+  const summary: DigestSummary = { users: users.length, sent: 0, skipped: 0, failed: 0 };
+
+  for (const user of users) {
+    const { items, total } = await undigested(user.user_name);
+    if (items.length === 0) {
+      summary.skipped += 1;
+      continue;
+    }
+    if (dryRun) {
+      summary.sent += 1;
+      continue;
+    }
+    try {
+      await sendEmail(user.email!, renderDigest(user.user_name, items, total));
+      const now = new Date();
+      await prisma.$transaction([
+        prisma.notifications.updateMany({
+          where: { recipient: user.user_name, emailed_at: null, id: { lte: items[0].id } },
+          data: { emailed_at: now },
+        }),
+        prisma.notification_preferences.update({
+          where: { user_name: user.user_name },
+          data: { last_digest_at: now },
+        }),
+      ]);
+      summary.sent += 1;
+    } catch (error) {
+      console.error(`[Notifications] Digest for ${user.user_name} failed:`, error);
+      summary.failed += 1;
+    }
+  }
+  return summary;
+}
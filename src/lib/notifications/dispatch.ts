@@ -0,0 +1,510 @@
+/**
+ * Notification dispatcher.
+ *
+ * Database triggers append to `notification_events`; this module claims
+ * unprocessed events (FOR UPDATE SKIP LOCKED, so concurrent dispatchers
+ * don't double up), works out who should hear about each one, writes
+ * `notifications` rows and pushes them to personal webhooks.
+ *
+ *   comment_added        → @mentioned users ('mention'), then the
+ *                          changeset author and watchers ('comment')
+ *   changeset_committed  → author and watchers; members of a change
+ *   changeset_discarded    plan collapse into one 'plan_*' notification
+ *   changeset_revised    → author of the revised changeset and watchers
+ *   llm_job_finished     → whoever submitted the job
+ *   finding_opened       → watchers of the concept / lexical unit and of
+ *                          the diagnosis code
+ *
+ * The actor is never notified of their own action, synthetic users
+ * (system, LLM agent, commit policies) are never notified, and muted
+ * kinds are dropped. `dedupe_key` makes re-processing harmless.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { AUTO_COMMIT_USER } from '@/lib/commit-policies/engine';
+import { SYSTEM_USER_DISPLAY_NAME, SYSTEM_USER_ID } from '@/lib/users/displayName';
+import type { NotificationKind, SubscriptionTargetType } from './types';
+import { parseMentions } from './validation';
+
+/** Stop retrying a personal webhook after this many failures. */
+const MAX_WEBHOOK_ATTEMPTS = 5;
+/** Don't push notifications older than this to a webhook (e.g. one configured later). */
+const WEBHOOK_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface ClaimedEvent {
+  id: bigint;
+  kind: string;
+  changeset_id: bigint | null;
+  change_plan_id: bigint | null;
+  llm_job_id: bigint | null;
+  finding_id: bigint | null;
+  comment_id: bigint | null;
+  actor: string | null;
+}
+
+interface Draft {
+  recipient: string;
+  kind: NotificationKind;
+  title: string;
+  body: string | null;
+  link: string | null;
+  actor: string | null;
+  dedupe_key: string;
+}
+
+export interface DispatchSummary {
+  events: number;
+  notifications: number;
+  webhooks_sent: number;
+  webhooks_failed: number;
+}
+
+function isNotifiableUser(name: string | null | undefined): name is string {
+  return !!name && name !== SYSTEM_USER_ID && name !== AUTO_COMMIT_USER && !name.startsWith('system:');
+}
+
+function displayActor(actor: string | null): string {
+  if (!actor || actor === SYSTEM_USER_ID) return SYSTEM_USER_DISPLAY_NAME;
+  if (actor === AUTO_COMMIT_USER) return 'A commit policy';
+  if (actor.startsWith('system:')) return 'The LLM agent';
+  return actor;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max).trim()}…`;
+}
+
+/** Users watching any of `targets`. */
+async function watchersOf(targets: Array<[SubscriptionTargetType, bigint | null]>): Promise<string[]> {
+  const where = targets
+    .filter((t): t is [SubscriptionTargetType, bigint] => t[1] !== null)
+    .map(([target_type, target_id]) => ({ target_type, target_id }));
+  if (where.length === 0) return [];
+  const rows = await prisma.notification_subscriptions.findMany({
+    where: { OR: where },
+    select: { user_name: true },
+  });
+  return rows.map((r) => r.user_name);
+}
+
+/**
+ * Subscription target type for each entity type that can be watched.
+ * Changesets say `frame`; health-check findings say `concept` and `sense`.
+ */
+const ENTITY_TARGET_TYPES: Record<string, SubscriptionTargetType> = {
+  frame: 'frame',
+  concept: 'frame',
+  lexical_unit: 'lexical_unit',
+  sense: 'lexical_unit',
+};
+
+/**
+ * Targets whose watchers hear about an entity. A sense has no target of
+ * its own, so it resolves to the lexical units it belongs to.
+ */
+async function entityTargets(
+  entityType: string,
+  entityId: bigint | null,
+): Promise<Array<[SubscriptionTargetType, bigint]>> {
+  const targetType = ENTITY_TARGET_TYPES[entityType];
+  if (!targetType || entityId === null) return [];
+  if (entityType !== 'sense') return [[targetType, entityId]];
+  const links = await prisma.lexical_unit_senses.findMany({
+    where: { sense_id: Number(entityId) },
+    select: { lexical_unit_id: true },
+    orderBy: { lexical_unit_id: 'asc' },
+  });
+  return links.map((l) => [targetType, l.lexical_unit_id]);
+}
+
+const ENTITY_NOUNS: Record<string, string> = {
+  frame: 'concept',
+  concept: 'concept',
+  lexical_unit: 'lexical unit',
+  sense: 'sense',
+  frame_relation: 'concept relation',
+  concept_relation: 'concept relation',
+  lexical_unit_relation: 'lexical unit relation',
+};
+
+/** "the update to concept “Aspirin”" */
+function describeChangeset(cs: {
+  entity_type: string;
+  entity_id: bigint | null;
+  operation: string;
+  before_snapshot: Prisma.JsonValue;
+  after_snapshot: Prisma.JsonValue;
+}): string {
+  const noun = ENTITY_NOUNS[cs.entity_type] ?? cs.entity_type.replace(/_/g, ' ');
+  const snapshot = (cs.after_snapshot ?? cs.before_snapshot) as Record<string, unknown> | null;
+  const name = snapshot && typeof snapshot === 'object'
+    ? snapshot.label ?? snapshot.code ?? snapshot.name ?? snapshot.word ?? snapshot.gloss
+    : null;
+  const what = name ? `${noun} “${truncate(String(name), 40)}”` : `${noun} ${cs.entity_id ? `#${cs.entity_id}` : '(new)'}`;
+  const op = cs.operation === 'create' ? 'creation of' : cs.operation === 'delete' ? 'deletion of' : `${cs.operation} to`;
+  return `the ${op} ${what}`;
+}
+
+const changesetSelect = {
+  id: true,
+  entity_type: true,
+  entity_id: true,
+  operation: true,
+  created_by: true,
+  before_snapshot: true,
+  after_snapshot: true,
+  revision_number: true,
+  revision_prompt: true,
+  revision_parent_id: true,
+  change_plan: { select: { id: true, created_by: true, summary: true, plan_kind: true } },
+} satisfies Prisma.changesetsSelect;
+
+type ChangesetInfo = Prisma.changesetsGetPayload<{ select: typeof changesetSelect }>;
+
+async function changesetWatchTargets(cs: ChangesetInfo): Promise<Array<[SubscriptionTargetType, bigint | null]>> {
+  const targets: Array<[SubscriptionTargetType, bigint | null]> = await entityTargets(cs.entity_type, cs.entity_id);
+  if (cs.change_plan) targets.push(['change_plan', cs.change_plan.id]);
+  return targets;
+}
+
+// ============================================
+// Per-event fan-out
+// ============================================
+
+async function changesetStatusDrafts(event: ClaimedEvent, status: 'committed' | 'discarded'): Promise<Draft[]> {
+  if (event.changeset_id === null) return [];
+  const cs = await prisma.changesets.findUnique({ where: { id: event.changeset_id }, select: changesetSelect });
+  if (!cs) return [];
+
+  const actor = displayActor(event.actor);
+  const watchers = await watchersOf(await changesetWatchTargets(cs));
+  const plan = cs.change_plan;
+  const base = {
+    actor: event.actor,
+    link: '/concepts/pending',
+    body: null,
+  };
+  if (plan) {
+    const draft = {
+      ...base,
+      kind: `plan_${status}` as NotificationKind,
+      title: `${actor} ${status} change plan “${truncate(plan.summary ?? plan.plan_kind, 60)}”`,
+      dedupe_key: `change_plan:${plan.id}:${status}`,
+    };
+    return [plan.created_by, cs.created_by, ...watchers].map((recipient) => ({ ...draft, recipient }));
+  }
+  const draft = {
+    ...base,
+    kind: `changeset_${status}` as NotificationKind,
+    title: `${actor} ${status} ${describeChangeset(cs)}`,
+    dedupe_key: `changeset:${cs.id}:${status}`,
+  };
+  return [cs.created_by, ...watchers].map((recipient) => ({ ...draft, recipient }));
+}
+
+async function revisionDrafts(event: ClaimedEvent): Promise<Draft[]> {
+  if (event.changeset_id === null) return [];
+  const cs = await prisma.changesets.findUnique({ where: { id: event.changeset_id }, select: changesetSelect });
+  if (!cs?.revision_parent_id) return [];
+  const parent = await prisma.changesets.findUnique({
+    where: { id: cs.revision_parent_id },
+    select: { created_by: true },
+  });
+
+  const draft = {
+    kind: 'changeset_revised' as const,
+    title: `${displayActor(event.actor)} revised ${describeChangeset(cs)} (revision ${cs.revision_number})`,
+    body: cs.revision_prompt ? truncate(cs.revision_prompt, 280) : null,
+    link: '/concepts/pending',
+    actor: event.actor,
+    dedupe_key: `changeset:${cs.id}:revised`,
+  };
+  const watchers = await watchersOf(await changesetWatchTargets(cs));
+  return [parent?.created_by ?? cs.created_by, ...watchers].map((recipient) => ({ ...draft, recipient }));
+}
+
+async function commentDrafts(event: ClaimedEvent): Promise<Draft[]> {
+  if (event.comment_id === null) return [];
+  const comment = await prisma.change_comments.findUnique({
+    where: { id: event.comment_id },
+    select: {
+      id: true,
+      author: true,
+      content: true,
+      changesets: { select: changesetSelect },
+      field_changes: { select: { field_name: true, changesets: { select: changesetSelect } } },
+    },
+  });
+  const cs = comment?.changesets ?? comment?.field_changes?.changesets;
+  if (!comment || !cs) return [];
+
+  const actor = displayActor(comment.author);
+  const where = comment.field_changes
+    ? `${comment.field_changes.field_name} in ${describeChangeset(cs)}`
+    : describeChangeset(cs);
+  const shared = {
+    body: truncate(comment.content, 280),
+    link: '/concepts/pending',
+    actor: comment.author,
+    // One notification per comment per person: a mention wins over the
+    // plain "new comment" one because it's drafted first.
+    dedupe_key: `comment:${comment.id}`,
+  };
+  const mentions = parseMentions(comment.content).map((recipient) => ({
+    ...shared,
+    recipient,
+    kind: 'mention' as const,
+    title: `${actor} mentioned you on ${where}`,
+  }));
+  const watchers = await watchersOf(await changesetWatchTargets(cs));
+  const others = [cs.created_by, cs.change_plan?.created_by, ...watchers]
+    .filter(isNotifiableUser)
+    .map((recipient) => ({
+      ...shared,
+      recipient,
+      kind: 'comment' as const,
+      title: `${actor} commented on ${where}`,
+    }));
+  return [...mentions, ...others];
+}
+
+async function llmJobDrafts(event: ClaimedEvent): Promise<Draft[]> {
+  if (event.llm_job_id === null) return [];
+  const job = await prisma.llm_jobs.findUnique({
+    where: { id: event.llm_job_id },
+    select: {
+      id: true,
+      label: true,
+      status: true,
+      submitted_by: true,
+      total_items: true,
+      succeeded_items: true,
+      failed_items: true,
+      flagged_items: true,
+      error: true,
+    },
+  });
+  if (!job || !isNotifiableUser(job.submitted_by)) return [];
+  const counts = `${job.succeeded_items} succeeded, ${job.failed_items} failed, ${job.flagged_items} flagged of ${job.total_items} items`;
+  return [
+    {
+      recipient: job.submitted_by,
+      kind: 'llm_job_finished',
+      title: `LLM job ${job.label ? `“${truncate(job.label, 60)}”` : `#${job.id}`} ${job.status}`,
+      body: job.error ? `${counts}. ${truncate(job.error, 200)}` : counts,
+      link: null,
+      actor: null,
+      dedupe_key: `llm_job:${job.id}:${job.status}`,
+    },
+  ];
+}
+
+async function findingDrafts(event: ClaimedEvent): Promise<Draft[]> {
+  if (event.finding_id === null) return [];
+  const finding = await prisma.health_check_findings.findUnique({
+    where: { id: event.finding_id },
+    select: {
+      id: true,
+      title: true,
+      severity: true,
+      diagnosis_code: { select: { id: true, code: true } },
+      result: { select: { entity_type: true, entity_id: true } },
+    },
+  });
+  if (!finding) return [];
+
+  const { entity_type, entity_id } = finding.result;
+  const entities = await entityTargets(entity_type, entity_id);
+  const watchers = await watchersOf([['diagnosis_code', finding.diagnosis_code.id], ...entities]);
+  if (watchers.length === 0) return [];
+
+  let subject = `${ENTITY_NOUNS[entity_type] ?? entity_type.replace(/_/g, ' ')} #${entity_id}`;
+  let link: string | null = null;
+  const [target] = entities;
+  if (target?.[0] === 'frame') {
+    const concept = await prisma.concepts.findUnique({ where: { id: target[1] }, select: { label: true } });
+    if (concept) subject = `concept “${truncate(concept.label, 40)}”`;
+    link = `/graph/concepts?entry=${target[1]}`;
+  } else if (target?.[0] === 'lexical_unit') {
+    const lu = await prisma.lexical_units.findUnique({ where: { id: target[1] }, select: { code: true } });
+    if (lu) subject = entity_type === 'sense' ? `a sense of lexical unit ${lu.code}` : `lexical unit ${lu.code}`;
+  }
+  const draft = {
+    kind: 'finding_opened' as const,
+    title: `New ${finding.severity} ${finding.diagnosis_code.code} finding on ${subject}`,
+    body: truncate(finding.title, 280),
+    link,
+    actor: null,
+    dedupe_key: `finding:${finding.id}`,
+  };
+  return watchers.map((recipient) => ({ ...draft, recipient }));
+}
+
+function draftsFor(event: ClaimedEvent): Promise<Draft[]> {
+  switch (event.kind) {
+    case 'changeset_committed':
+      return changesetStatusDrafts(event, 'committed');
+    case 'changeset_discarded':
+      return changesetStatusDrafts(event, 'discarded');
+    case 'changeset_revised':
+      return revisionDrafts(event);
+    case 'comment_added':
+      return commentDrafts(event);
+    case 'llm_job_finished':
+      return llmJobDrafts(event);
+    case 'finding_opened':
+      return findingDrafts(event);
+    default:
+      return Promise.resolve([]);
+  }
+}
+
+// ============================================
+// Dispatch
+// ============================================
+
+async function claimEvents(limit: number): Promise<ClaimedEvent[]> {
+  return prisma.$queryRaw<ClaimedEvent[]>(Prisma.sql`
+    UPDATE notification_events
+    SET processed_at = now()
+    WHERE id IN (
+      SELECT id FROM notification_events
+      WHERE processed_at IS NULL
+      ORDER BY id
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, kind::text AS kind, changeset_id, change_plan_id, llm_job_id, finding_id, comment_id, actor
+  `);
+}
+
+/**
+ * Drain up to `limit` queued events into notifications, then push
+ * undelivered notifications to personal webhooks. A batch that fails
+ * mid-way is released so the next run retries it.
+ */
+export async function dispatchNotificationEvents({ limit = 200 }: { limit?: number } = {}): Promise<DispatchSummary> {
+  const events = await claimEvents(limit);
+  const summary: DispatchSummary = { events: events.length, notifications: 0, webhooks_sent: 0, webhooks_failed: 0 };
+
+  if (events.length > 0) {
+    try {
+      const rows: Prisma.notificationsCreateManyInput[] = [];
+      const seen = new Set<string>();
+      for (const event of events) {
+        for (const draft of await draftsFor(event)) {
+          if (!isNotifiableUser(draft.recipient) || draft.recipient === draft.actor) continue;
+          const key = `${draft.recipient}\u0000${draft.dedupe_key}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          rows.push({ ...draft, event_id: event.id });
+        }
+      }
+
+      const recipients = [...new Set(rows.map((r) => r.recipient))];
+      const muted = new Map(
+        (
+          await prisma.notification_preferences.findMany({
+            where: { user_name: { in: recipients } },
+            select: { user_name: true, muted_kinds: true },
+          })
+        ).map((p) => [p.user_name, new Set<string>(p.muted_kinds)]),
+      );
+      const data = rows.filter((r) => !muted.get(r.recipient)?.has(r.kind));
+      if (data.length > 0) {
+        summary.notifications = (await prisma.notifications.createMany({ data, skipDuplicates: true })).count;
+      }
+    } catch (error) {
+      await prisma.notification_events.updateMany({
+        where: { id: { in: events.map((e) => e.id) } },
+        data: { processed_at: null },
+      });
+      throw error;
+    }
+  }
+
+  const webhooks = await deliverWebhooks();
+  summary.webhooks_sent = webhooks.sent;
+  summary.webhooks_failed = webhooks.failed;
+  return summary;
+}
+
+// ============================================
+// Webhook delivery
+// ============================================
+
+/** Absolute URL for a notification link, when a public base URL is configured. */
+export function absoluteLink(link: string | null): string | null {
+  const base = process.env.NOTIFICATIONS_BASE_URL;
+  if (!link || !base) return null;
+  return new URL(link, base).toString();
+}
+
+/** Slack incoming-webhook payload; other chat tools accept the same `text` field. */
+function slackPayload(n: { title: string; body: string | null; link: string | null }) {
+  const url = absoluteLink(n.link);
+  const lines = [`*${n.title}*`, ...(n.body ? [n.body] : []), ...(url ? [`<${url}|Open in Source Console>`] : [])];
+  const text = lines.join('\n');
+  return {
+    text,
+    blocks: [{ type: 'section', text: { type: 'mrkdwn', text } }],
+  };
+}
+
+/**
+ * Push undelivered notifications to their recipients' webhooks. Rows are
+ * claimed by bumping `webhook_attempts` under SKIP LOCKED so concurrent
+ * dispatchers never post the same notification twice; deliveries run in
+ * parallel with a short timeout so a slow endpoint can't stall the bell.
+ */
+async function deliverWebhooks(limit = 50): Promise<{ sent: number; failed: number }> {
+  const claimed = await prisma.$queryRaw<Array<{
+    id: bigint;
+    title: string;
+    body: string | null;
+    link: string | null;
+    webhook_url: string;
+  }>>(Prisma.sql`
+    UPDATE notifications n
+    SET webhook_attempts = n.webhook_attempts + 1
+    FROM notification_preferences p
+    WHERE n.id IN (
+      SELECT n2.id
+      FROM notifications n2
+      JOIN notification_preferences p2 ON p2.user_name = n2.recipient
+      WHERE p2.webhook_url IS NOT NULL
+        AND n2.webhook_sent_at IS NULL
+        AND n2.webhook_attempts < ${MAX_WEBHOOK_ATTEMPTS}
+        AND n2.created_at >= ${new Date(Date.now() - WEBHOOK_WINDOW_MS)}
+      ORDER BY n2.id
+      LIMIT ${limit}
+      FOR UPDATE OF n2 SKIP LOCKED
+    )
+      AND p.user_name = n.recipient
+    RETURNING n.id, n.title, n.body, n.link, p.webhook_url
+  `);
+
+  const results = await Promise.all(
+    claimed.map(async (n) => {
+      try {
+        const res = await fetch(n.webhook_url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(slackPayload(n)),
+          signal: AbortSignal.timeout(5_000),
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return n.id;
+      } catch (error) {
+        console.error(`[Notifications] Webhook delivery failed for notification ${n.id}:`, error);
+        return null;
+      }
+    }),
+  );
+  const sentIds = results.filter((id): id is bigint => id !== null);
+  if (sentIds.length > 0) {
+    await prisma.notifications.updateMany({ where: { id: { in: sentIds } }, data: { webhook_sent_at: new Date() } });
+  }
+  return { sent: sentIds.length, failed: claimed.length - sentIds.length };
+}
@@ -0,0 +1,191 @@
+/**
+ * Reading notifications and managing subscriptions and preferences for
+ * the signed-in user. Producing notifications is `./dispatch`.
+ */
+
+import type { notification_preferences, notifications } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type {
+  Notification,
+  NotificationKind,
+  NotificationList,
+  NotificationPreferences,
+  NotificationSubscription,
+  SubscriptionTargetType,
+} from './types';
+import { NotificationError, parsePreferencesInput } from './validation';
+
+export function serializeNotification(row: notifications): Notification {
+  return {
+    id: row.id.toString(),
+    kind: row.kind as NotificationKind,
+    title: row.title,
+    body: row.body,
+    link: row.link,
+    actor: row.actor,
+    read_at: row.read_at?.toISOString() ?? null,
+    created_at: row.created_at.toISOString(),
+  };
+}
+
+export async function listNotifications(
+  userName: string,
+  { unreadOnly = false, limit = 50, beforeId }: { unreadOnly?: boolean; limit?: number; beforeId?: bigint } = {},
+): Promise<NotificationList> {
+  const [rows, unreadCount] = await Promise.all([
+    prisma.notifications.findMany({
+      where: {
+        recipient: userName,
+        ...(unreadOnly ? { read_at: null } : {}),
+        ...(beforeId !== undefined ? { id: { lt: beforeId } } : {}),
+      },
+      orderBy: { id: 'desc' },
+      take: limit,
+    }),
+    prisma.notifications.count({ where: { recipient: userName, read_at: null } }),
+  ]);
+  return { notifications: rows.map(serializeNotification), unread_count: unreadCount };
+}
+
+/** Mark some (or, with `'all'`, every) unread notification of `userName` as read. */
+export async function markNotificationsRead(userName: string, ids: bigint[] | 'all'): Promise<number> {
+  const { count } = await prisma.notifications.updateMany({
+    where: {
+      recipient: userName,
+      read_at: null,
+      ...(ids === 'all' ? {} : { id: { in: ids } }),
+    },
+    data: { read_at: new Date() },
+  });
+  return count;
+}
+
+// ============================================
+// Preferences
+// ============================================
+
+function serializePreferences(row: notification_preferences | null): NotificationPreferences {
+  return {
+    email: row?.email ?? null,
+    email_digest: row?.email_digest ?? false,
+    webhook_url: row?.webhook_url ?? null,
+    muted_kinds: (row?.muted_kinds ?? []) as NotificationKind[],
+    last_digest_at: row?.last_digest_at?.toISOString() ?? null,
+  };
+}
+
+export async function getNotificationPreferences(userName: string): Promise<NotificationPreferences> {
+  return serializePreferences(
+    await prisma.notification_preferences.findUnique({ where: { user_name: userName } }),
+  );
+}
+
+export async function updateNotificationPreferences(
+  userName: string,
+  body: Record<string, unknown>,
+): Promise<NotificationPreferences> {
+  const data = parsePreferencesInput(body);
+  const row = await prisma.notification_preferences.upsert({
+    where: { user_name: userName },
+    update: { ...data, updated_at: new Date() },
+    create: {
+      user_name: userName,
+      email: (data.email as string | null | undefined) ?? null,
+      email_digest: (data.email_digest as boolean | undefined) ?? false,
+      webhook_url: (data.webhook_url as string | null | undefined) ?? null,
+      muted_kinds: (data.muted_kinds as NotificationKind[] | undefined) ?? [],
+    },
+  });
+  return serializePreferences(row);
+}
+
+// ============================================
+// Subscriptions
+// ============================================
+
+async function targetExists(targetType: SubscriptionTargetType, targetId: bigint): Promise<boolean> {
+  const where = { id: targetId };
+  switch (targetType) {
+    case 'frame':
+      return (await prisma.concepts.count({ where })) > 0;
+    case 'lexical_unit':
+      return (await prisma.lexical_units.count({ where })) > 0;
+    case 'change_plan':
+      return (await prisma.change_plans.count({ where })) > 0;
+    case 'diagnosis_code':
+      return (await prisma.health_diagnosis_codes.count({ where })) > 0;
+  }
+}
+
+/** Human labels for subscription targets, keyed by `${type}:${id}`. */
+async function targetLabels(
+  targets: Array<{ target_type: SubscriptionTargetType; target_id: bigint }>,
+): Promise<Map<string, string>> {
+  const idsOf = (type: SubscriptionTargetType) =>
+    targets.filter((t) => t.target_type === type).map((t) => t.target_id);
+  const [concepts, lexicalUnits, plans, codes] = await Promise.all([
+    prisma.concepts.findMany({ where: { id: { in: idsOf('frame') } }, select: { id: true, label: true } }),
+    prisma.lexical_units.findMany({ where: { id: { in: idsOf('lexical_unit') } }, select: { id: true, code: true } }),
+    prisma.change_plans.findMany({
+      where: { id: { in: idsOf('change_plan') } },
+      select: { id: true, summary: true, plan_kind: true },
+    }),
+    prisma.health_diagnosis_codes.findMany({
+      where: { id: { in: idsOf('diagnosis_code') } },
+      select: { id: true, code: true, label: true },
+    }),
+  ]);
+  const labels = new Map<string, string>();
+  for (const c of concepts) labels.set(`frame:${c.id}`, c.label);
+  for (const lu of lexicalUnits) labels.set(`lexical_unit:${lu.id}`, lu.code);
+  for (const p of plans) labels.set(`change_plan:${p.id}`, p.summary ?? p.plan_kind);
+  for (const d of codes) labels.set(`diagnosis_code:${d.id}`, `${d.code} · ${d.label}`);
+  return labels;
+}
+
+export async function listSubscriptions(
+  userName: string,
+  filter: { target_type?: SubscriptionTargetType; target_id?: bigint } = {},
+): Promise<NotificationSubscription[]> {
+  const rows = await prisma.notification_subscriptions.findMany({
+    where: { user_name: userName, ...filter },
+    orderBy: { created_at: 'desc' },
+  });
+  const labels = await targetLabels(rows as Array<{ target_type: SubscriptionTargetType; target_id: bigint }>);
+  return rows.map((row) => ({
+    id: row.id.toString(),
+    target_type: row.target_type as SubscriptionTargetType,
+    target_id: row.target_id.toString(),
+    target_label: labels.get(`${row.target_type}:${row.target_id}`) ?? null,
+    created_at: row.created_at.toISOString(),
+  }));
+}
+
+/** Watch a target; subscribing twice is a no-op. */
+export async function subscribe(
+  userName: string,
+  target: { target_type: SubscriptionTargetType; target_id: bigint },
+): Promise<NotificationSubscription> {
+  if (!(await targetExists(target.target_type, target.target_id))) {
+    throw new NotificationError(`${target.target_type} ${target.target_id} not found`, 404);
+  }
+  await prisma.notification_subscriptions.upsert({
+    where: {
+      user_name_target_type_target_id: { user_name: userName, ...target },
+    },
+    update: {},
+    create: { user_name: userName, ...target },
+  });
+  const [subscription] = await listSubscriptions(userName, target);
+  return subscription;
+}
+
+export async function unsubscribe(
+  userName: string,
+  target: { target_type: SubscriptionTargetType; target_id: bigint },
+): Promise<boolean> {
+  const { count } = await prisma.notification_subscriptions.deleteMany({
+    where: { user_name: userName, ...target },
+  });
+  return count > 0;
+}
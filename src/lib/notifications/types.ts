@@ -0,0 +1,92 @@
+/**
+ * Notification types shared by the API routes and the UI.
+ *
+ * Database triggers queue `notification_events` (commits, discards,
+ * revisions, comments, LLM job completion, new health-check findings);
+ * the dispatcher in `./dispatch` fans them out to the people involved
+ * and to subscribers. See migrations/add_notifications.sql.
+ */
+
+export type NotificationKind =
+  /** Someone @mentioned me in a comment. */
+  | 'mention'
+  /** Someone commented on my changeset or on something I watch. */
+  | 'comment'
+  | 'changeset_committed'
+  | 'changeset_discarded'
+  /** A new revision of my changeset was staged. */
+  | 'changeset_revised'
+  | 'plan_committed'
+  | 'plan_discarded'
+  | 'llm_job_finished'
+  /** A health check opened a finding on a concept or diagnosis code I watch. */
+  | 'finding_opened';
+
+export const NOTIFICATION_KINDS: readonly NotificationKind[] = [
+  'mention',
+  'comment',
+  'changeset_committed',
+  'changeset_discarded',
+  'changeset_revised',
+  'plan_committed',
+  'plan_discarded',
+  'llm_job_finished',
+  'finding_opened',
+];
+
+export const NOTIFICATION_KIND_LABELS: Record<NotificationKind, string> = {
+  mention: 'Mentions',
+  comment: 'Comments',
+  changeset_committed: 'Changeset committed',
+  changeset_discarded: 'Changeset discarded',
+  changeset_revised: 'Changeset revised',
+  plan_committed: 'Change plan committed',
+  plan_discarded: 'Change plan discarded',
+  llm_job_finished: 'LLM job finished',
+  finding_opened: 'New health-check finding',
+};
+
+export type SubscriptionTargetType = 'frame' | 'lexical_unit' | 'change_plan' | 'diagnosis_code';
+
+export const SUBSCRIPTION_TARGET_TYPES: readonly SubscriptionTargetType[] = [
+  'frame',
+  'lexical_unit',
+  'change_plan',
+  'diagnosis_code',
+];
+
+export interface Notification {
+  id: string;
+  kind: NotificationKind;
+  title: string;
+  body: string | null;
+  /** App-relative path to open, when there is somewhere useful to go. */
+  link: string | null;
+  actor: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationSubscription {
+  id: string;
+  target_type: SubscriptionTargetType;
+  target_id: string;
+  /** Concept label, lexical unit code, plan summary or diagnosis code. */
+  target_label: string | null;
+  created_at: string;
+}
+
+export interface NotificationPreferences {
+  email: string | null;
+  /** Include me in the daily email digest. */
+  email_digest: boolean;
+  /** Slack-compatible incoming webhook that gets every notification. */
+  webhook_url: string | null;
+  muted_kinds: NotificationKind[];
+  last_digest_at: string | null;
+}
+
+export interface NotificationList {
+  notifications: Notification[];
+  unread_count: number;
+}
@@ -0,0 +1,94 @@
+/**
+ * Validation for notification API input, plus @mention parsing.
+ */
+
+import { Prisma } from '@prisma/client';
+import {
+  NOTIFICATION_KINDS,
+  SUBSCRIPTION_TARGET_TYPES,
+  type NotificationKind,
+  type SubscriptionTargetType,
+} from './types';
+
+export class NotificationError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'NotificationError';
+  }
+}
+
+/**
+ * User names mentioned as `@name` in a comment, lower-cased and
+ * de-duplicated. User names are the local part of the sign-in email
+ * (see `getCurrentUserName`), so `@jane.doe` and `@j_doe-2` both work;
+ * a trailing `.` is punctuation, and emails (`a@b.com`) aren't mentions.
+ */
+export function parseMentions(content: string): string[] {
+  const names = new Set<string>();
+  for (const match of content.matchAll(/(^|[^\w.@])@([a-z0-9][a-z0-9._-]*)/gi)) {
+    names.add(match[2].replace(/[.]+$/, '').toLowerCase());
+  }
+  return [...names];
+}
+
+export function isSubscriptionTargetType(value: unknown): value is SubscriptionTargetType {
+  return typeof value === 'string' && (SUBSCRIPTION_TARGET_TYPES as readonly string[]).includes(value);
+}
+
+export function parseSubscriptionTarget(body: Record<string, unknown>): {
+  target_type: SubscriptionTargetType;
+  target_id: bigint;
+} {
+  if (!isSubscriptionTargetType(body.target_type)) {
+    throw new NotificationError(`target_type must be one of: ${SUBSCRIPTION_TARGET_TYPES.join(', ')}`);
+  }
+  const id = String(body.target_id ?? '');
+  if (!/^\d+$/.test(id)) throw new NotificationError('target_id must be a numeric id');
+  return { target_type: body.target_type, target_id: BigInt(id) };
+}
+
+function optionalText(value: unknown, field: string): string | null {
+  if (value === null) return null;
+  if (typeof value !== 'string') throw new NotificationError(`${field} must be a string`);
+  return value.trim() || null;
+}
+
+/** Turn a PATCH body into `notification_preferences` data; absent fields are left alone. */
+export function parsePreferencesInput(
+  body: Record<string, unknown>,
+): Omit<Prisma.notification_preferencesUncheckedUpdateInput, 'user_name' | 'last_digest_at' | 'updated_at'> {
+  const data: Omit<Prisma.notification_preferencesUncheckedUpdateInput, 'user_name' | 'last_digest_at' | 'updated_at'> = {};
+
+  if (body.email !== undefined) {
+    const email = optionalText(body.email, 'email');
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new NotificationError('email must be an email address');
+    }
+    data.email = email;
+  }
+  if (body.email_digest !== undefined) {
+    if (typeof body.email_digest !== 'boolean') throw new NotificationError('email_digest must be a boolean');
+    data.email_digest = body.email_digest;
+  }
+  if (body.webhook_url !== undefined) {
+    const url = optionalText(body.webhook_url, 'webhook_url');
+    if (url) {
+      let parsed: URL;
+      try {
+        parsed = new URL(url);
+      } catch {
+        throw new NotificationError('webhook_url must be a URL');
+      }
+      if (parsed.protocol !== 'https:') throw new NotificationError('webhook_url must use https');
+    }
+    data.webhook_url = url;
+  }
+  if (body.muted_kinds !== undefined) {
+    const kinds = body.muted_kinds;
+    if (!Array.isArray(kinds) || kinds.some((k) => !(NOTIFICATION_KINDS as readonly unknown[]).includes(k))) {
+      throw new NotificationError(`muted_kinds must be a list of: ${NOTIFICATION_KINDS.join(', ')}`);
+    }
+    data.muted_kinds = [...new Set(kinds as NotificationKind[])];
+  }
+  return data;
+}
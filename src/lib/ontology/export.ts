@@ -0,0 +1,242 @@
+/**
+ * Ontology-wide export as Turtle, streamed in id-ordered batches so the
+ * full concept table never sits in memory.
+ *
+ * OWL flavor:
+ *   - concept        → `owl:Class`, `rdfs:label`, `skos:definition`,
+ *                      `rdfs:comment` (short definition), `se:code`,
+ *                      `se:archetype`, `se:subtype`
+ *   - parent_of      → `rdfs:subClassOf` on the child
+ *   - external id    → `skos:exactMatch` (wikidata / UMLS resolve to their
+ *                      public IRIs, other vocabularies under `<base>external/`)
+ *   - property       → `owl:ObjectProperty` (`owl:DatatypeProperty` when
+ *                      every filler constraint is primitive) with
+ *                      `rdfs:domain` the declaring concept and `rdfs:range`
+ *                      the constraint classes/datatypes (`owl:unionOf` when
+ *                      there is more than one)
+ *   - property group → `se:PropertyGroup` listing its `se:member`s
+ *
+ * SKOS flavor emits the concept scheme only: `skos:Concept`,
+ * `skos:prefLabel`, `skos:definition`, `skos:notation`, `skos:broader` and
+ * `skos:exactMatch`. Properties have no SKOS counterpart and are omitted.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { createTurtleFormatter, RDF_FIRST, RDF_NIL, RDF_PREFIXES, RDF_REST, RDF_TYPE, type RdfSubject, type RdfTerm, type RdfTriple } from '@/lib/rdf';
+import {
+  externalIdIri,
+  ontologyNamespaces,
+  ontologyPrefixes,
+  propertyRanges,
+  type OntologyExportFlavor,
+  type OntologyNamespaces,
+} from './vocab';
+
+const { owl, rdfs, skos, xsd, dcterms } = RDF_PREFIXES;
+
+const BATCH_SIZE = 500;
+
+const iri = (value: string): RdfTerm => ({ kind: 'iri', value });
+const literal = (value: string, datatype?: string): RdfTerm => ({ kind: 'literal', value, datatype });
+
+async function loadConceptBatch(afterId: bigint) {
+  return prisma.concepts.findMany({
+    where: { deleted: false, id: { gt: afterId } },
+    orderBy: { id: 'asc' },
+    take: BATCH_SIZE,
+    select: {
+      id: true,
+      label: true,
+      definition: true,
+      short_definition: true,
+      code: true,
+      archetype: true,
+      subtype: true,
+      wikidata_id: true,
+      concept_external_ids: { select: { vocabulary: true, external_id: true } },
+      concept_relations_concept_relations_child_idToconcepts: {
+        where: { type: 'parent_of' },
+        select: { parent_id: true },
+      },
+      properties: {
+        orderBy: { id: 'asc' },
+        select: {
+          id: true,
+          label: true,
+          description: true,
+          main: true,
+          property_filler_constraints: {
+            select: { concept_id: true, filler_types: { select: { label: true } } },
+          },
+        },
+      },
+    },
+  });
+}
+
+type ConceptRow = Awaited<ReturnType<typeof loadConceptBatch>>[number];
+
+function exactMatches(ns: OntologyNamespaces, concept: ConceptRow): string[] {
+  const out = new Set<string>();
+  for (const ext of concept.concept_external_ids) out.add(externalIdIri(ns, ext.vocabulary, ext.external_id));
+  if (concept.wikidata_id) out.add(externalIdIri(ns, 'wikidata', concept.wikidata_id));
+  return Array.from(out);
+}
+
+function conceptTriples(ns: OntologyNamespaces, concept: ConceptRow, flavor: OntologyExportFlavor): RdfTriple[] {
+  const subject: RdfSubject = { kind: 'iri', value: `${ns.concept}${concept.id}` };
+  const triples: RdfTriple[] = [];
+  const add = (s: RdfSubject, predicate: string, object: RdfTerm) => triples.push({ subject: s, predicate, object });
+  const parents = concept.concept_relations_concept_relations_child_idToconcepts.map((r) => `${ns.concept}${r.parent_id}`);
+
+  if (flavor === 'skos') {
+    add(subject, RDF_TYPE, iri(`${skos}Concept`));
+    add(subject, `${skos}inScheme`, iri(ns.ontology));
+    add(subject, `${skos}prefLabel`, literal(concept.label));
+    if (concept.definition) add(subject, `${skos}definition`, literal(concept.definition));
+    if (concept.short_definition) add(subject, `${skos}scopeNote`, literal(concept.short_definition));
+    if (concept.code) add(subject, `${skos}notation`, literal(concept.code));
+    if (parents.length === 0) add(subject, `${skos}topConceptOf`, iri(ns.ontology));
+    for (const parent of parents) add(subject, `${skos}broader`, iri(parent));
+    for (const match of exactMatches(ns, concept)) add(subject, `${skos}exactMatch`, iri(match));
+    return triples;
+  }
+
+  add(subject, RDF_TYPE, iri(`${owl}Class`));
+  add(subject, `${rdfs}label`, literal(concept.label));
+  if (concept.definition) add(subject, `${skos}definition`, literal(concept.definition));
+  if (concept.short_definition) add(subject, `${rdfs}comment`, literal(concept.short_definition));
+  if (concept.code) add(subject, `${ns.vocab}code`, literal(concept.code));
+  if (concept.archetype) add(subject, `${ns.vocab}archetype`, literal(concept.archetype));
+  if (concept.subtype) add(subject, `${ns.vocab}subtype`, literal(concept.subtype));
+  for (const parent of parents) add(subject, `${rdfs}subClassOf`, iri(parent));
+  for (const match of exactMatches(ns, concept)) add(subject, `${skos}exactMatch`, iri(match));
+
+  for (const property of concept.properties) {
+    const propertySubject: RdfSubject = { kind: 'iri', value: `${ns.property}${property.id}` };
+    const ranges = propertyRanges(ns, property.property_filler_constraints);
+    const kinds = new Set(ranges.values());
+    const propertyType = kinds.size === 1 && kinds.has(true)
+      ? `${owl}DatatypeProperty`
+      : kinds.size === 2 ? `${RDF_PREFIXES.rdf}Property` : `${owl}ObjectProperty`;
+
+    add(propertySubject, RDF_TYPE, iri(propertyType));
+    if (property.label) add(propertySubject, `${rdfs}label`, literal(property.label));
+    if (property.description) add(propertySubject, `${rdfs}comment`, literal(property.description));
+    if (property.main) add(propertySubject, `${ns.vocab}main`, literal('true', `${xsd}boolean`));
+    add(propertySubject, `${rdfs}domain`, iri(subject.value));
+
+    const rangeIris = Array.from(ranges.keys());
+    if (rangeIris.length === 1) {
+      add(propertySubject, `${rdfs}range`, iri(rangeIris[0]));
+    } else if (rangeIris.length > 1) {
+      // Anonymous union class (or datatype union) over an rdf:List.
+      const union: RdfSubject = { kind: 'bnode', value: `range${property.id}` };
+      add(propertySubject, `${rdfs}range`, union);
+      add(union, RDF_TYPE, iri(kinds.has(false) ? `${owl}Class` : `${rdfs}Datatype`));
+      let cell: RdfSubject = { kind: 'bnode', value: `range${property.id}_0` };
+      add(union, `${owl}unionOf`, cell);
+      rangeIris.forEach((rangeIri, index) => {
+        add(cell, RDF_FIRST, iri(rangeIri));
+        if (index === rangeIris.length - 1) {
+          add(cell, RDF_REST, iri(RDF_NIL));
+        } else {
+          const next: RdfSubject = { kind: 'bnode', value: `range${property.id}_${index + 1}` };
+          add(cell, RDF_REST, next);
+          cell = next;
+        }
+      });
+    }
+  }
+
+  return triples;
+}
+
+async function* propertyGroupTriples(ns: OntologyNamespaces): AsyncGenerator<RdfTriple[]> {
+  let cursor = BigInt(0);
+  while (true) {
+    const groups = await prisma.property_groups.findMany({
+      where: { id: { gt: cursor }, concepts: { deleted: false } },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      select: {
+        id: true,
+        concept_id: true,
+        description: true,
+        require_at_least_one: true,
+        property_group_members: { select: { property_id: true } },
+      },
+    });
+    if (groups.length === 0) return;
+    cursor = groups[groups.length - 1].id;
+
+    const triples: RdfTriple[] = [];
+    for (const group of groups) {
+      const subject: RdfSubject = { kind: 'iri', value: `${ns.propertyGroup}${group.id}` };
+      triples.push({ subject, predicate: RDF_TYPE, object: iri(`${ns.vocab}PropertyGroup`) });
+      if (group.concept_id) {
+        triples.push({ subject, predicate: `${ns.vocab}concept`, object: iri(`${ns.concept}${group.concept_id}`) });
+      }
+      if (group.description) triples.push({ subject, predicate: `${rdfs}comment`, object: literal(group.description) });
+      triples.push({
+        subject,
+        predicate: `${ns.vocab}requireAtLeastOne`,
+        object: literal(String(group.require_at_least_one), `${xsd}boolean`),
+      });
+      for (const member of group.property_group_members) {
+        triples.push({ subject, predicate: `${ns.vocab}member`, object: iri(`${ns.property}${member.property_id}`) });
+      }
+    }
+    yield triples;
+  }
+}
+
+/**
+ * Streams the whole (non-deleted) concept graph as Turtle. Each yielded
+ * chunk is a self-contained run of subject blocks, so the output can be
+ * written straight to a response body.
+ */
+export async function* streamOntologyTurtle(options: {
+  baseIri: string;
+  flavor: OntologyExportFlavor;
+}): AsyncGenerator<string> {
+  const ns = ontologyNamespaces(options.baseIri);
+  const turtle = createTurtleFormatter(ontologyPrefixes(ns));
+  const ontology: RdfSubject = { kind: 'iri', value: ns.ontology };
+
+  yield turtle.header();
+  yield turtle.block([
+    {
+      subject: ontology,
+      predicate: RDF_TYPE,
+      object: iri(options.flavor === 'skos' ? `${skos}ConceptScheme` : `${owl}Ontology`),
+    },
+    { subject: ontology, predicate: `${rdfs}label`, object: literal('Source Explorer ontology') },
+    { subject: ontology, predicate: `${dcterms}modified`, object: literal(new Date().toISOString(), `${xsd}dateTime`) },
+  ]);
+
+  if (options.flavor === 'owl') {
+    yield turtle.blocks([
+      { subject: { kind: 'iri', value: `${ns.vocab}code` }, predicate: RDF_TYPE, object: iri(`${owl}AnnotationProperty`) },
+      { subject: { kind: 'iri', value: `${ns.vocab}archetype` }, predicate: RDF_TYPE, object: iri(`${owl}AnnotationProperty`) },
+      { subject: { kind: 'iri', value: `${ns.vocab}subtype` }, predicate: RDF_TYPE, object: iri(`${owl}AnnotationProperty`) },
+      { subject: { kind: 'iri', value: `${ns.vocab}main` }, predicate: RDF_TYPE, object: iri(`${owl}AnnotationProperty`) },
+      { subject: { kind: 'iri', value: `${skos}definition` }, predicate: RDF_TYPE, object: iri(`${owl}AnnotationProperty`) },
+      { subject: { kind: 'iri', value: `${skos}exactMatch` }, predicate: RDF_TYPE, object: iri(`${owl}AnnotationProperty`) },
+    ]);
+  }
+
+  let cursor = BigInt(0);
+  while (true) {
+    const concepts = await loadConceptBatch(cursor);
+    if (concepts.length === 0) break;
+    cursor = concepts[concepts.length - 1].id;
+    yield turtle.blocks(concepts.flatMap((concept) => conceptTriples(ns, concept, options.flavor)));
+  }
+
+  if (options.flavor === 'owl') {
+    for await (const triples of propertyGroupTriples(ns)) {
+      yield turtle.blocks(triples);
+    }
+  }
+}
@@ -0,0 +1,725 @@
+/**
+ * OWL/SKOS import: diff a Turtle file (typically a round-tripped
+ * `/api/ontology/export` edited in Protégé) against the concept graph and
+ * stage the differences for review as one `ontology_import` change plan.
+ *
+ * Matching:
+ *   - classes are matched on `<base>concepts/<id>`; base comes from the
+ *     file's owl:Ontology / skos:ConceptScheme node (`<base>ontology`),
+ *     falling back to the configured export base
+ *   - otherwise on `skos:exactMatch` against concept_external_ids /
+ *     wikidata_id
+ *   - anything left is a new concept
+ *
+ * Staged:
+ *   - new class            → frame CREATE (its new properties inlined)
+ *   - label / annotations  → frame UPDATE (absent annotations are left alone)
+ *   - subClassOf / broader → frame_relation CREATE / DELETE (`parent_of`)
+ *   - new property         → frame_role CREATE on an existing concept
+ *   - property label / rdfs:comment → frame_role UPDATE
+ *
+ * Reported but not staged (`unsupported`): external id edits, range and
+ * domain edits, OWL restrictions, removed properties and concepts absent
+ * from the file. Deleting concepts is left to the explorer.
+ */
+
+import { concept_archetype_enum, concept_subtype_enum } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { parseTurtle, RDF_PREFIXES, RDF_TYPE, type RdfTerm, type RdfTriple } from '@/lib/rdf';
+import {
+  createChangesetFromCreate,
+  createChangesetFromDelete,
+  createChangesetFromUpdate,
+} from '@/lib/version-control';
+import { ontologyNamespaces, parseExternalIdIri, propertyRanges, type OntologyNamespaces } from './vocab';
+
+const { owl, rdfs, skos } = RDF_PREFIXES;
+
+const CLASS_TYPES = new Set([`${owl}Class`, `${skos}Concept`, `${rdfs}Class`]);
+const PROPERTY_TYPES = new Set([
+  `${owl}ObjectProperty`,
+  `${owl}DatatypeProperty`,
+  `${RDF_PREFIXES.rdf}Property`,
+]);
+const ONTOLOGY_TYPES = new Set([`${owl}Ontology`, `${skos}ConceptScheme`]);
+const IGNORED_PARENTS = new Set([`${owl}Thing`, `${rdfs}Resource`]);
+
+const ARCHETYPES = new Set<string>(Object.values(concept_archetype_enum));
+const SUBTYPES = new Set<string>(Object.values(concept_subtype_enum));
+
+export class OntologyImportError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'OntologyImportError';
+  }
+}
+
+type ConceptField = 'label' | 'definition' | 'short_definition' | 'code' | 'archetype' | 'subtype';
+
+/** Concept reference in a diff: an existing id, or the IRI of a new class. */
+export type ConceptRef = { id: string; label: string } | { iri: string; label: string };
+
+export interface OntologyImportDiff {
+  base: string;
+  newConcepts: Array<{ iri: string; label: string; fields: Partial<Record<ConceptField, string>>; properties: string[] }>;
+  conceptUpdates: Array<{ id: string; label: string; changes: Partial<Record<ConceptField, { from: string | null; to: string }>> }>;
+  addedParents: Array<{ child: ConceptRef; parent: ConceptRef }>;
+  removedParents: Array<{ relationId: string; child: ConceptRef; parent: ConceptRef }>;
+  newProperties: Array<{ conceptId: string; conceptLabel: string; label: string; description: string | null }>;
+  propertyUpdates: Array<{ id: string; label: string; changes: Partial<Record<'label' | 'description', { from: string | null; to: string }>> }>;
+  unsupported: string[];
+  /** Non-deleted concepts in the database that the file doesn't mention. */
+  missingConcepts: number;
+}
+
+export interface OntologyImportResult {
+  diff: OntologyImportDiff;
+  planId: string | null;
+  changesetIds: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Parsed file
+// ---------------------------------------------------------------------------
+
+class TripleIndex {
+  private bySubject = new Map<string, RdfTriple[]>();
+
+  constructor(triples: RdfTriple[]) {
+    for (const t of triples) {
+      const key = `${t.subject.kind}:${t.subject.value}`;
+      const list = this.bySubject.get(key) ?? [];
+      list.push(t);
+      this.bySubject.set(key, list);
+    }
+  }
+
+  objects(subject: string, predicate: string): RdfTerm[] {
+    return (this.bySubject.get(`iri:${subject}`) ?? []).filter((t) => t.predicate === predicate).map((t) => t.object);
+  }
+
+  iris(subject: string, predicate: string): string[] {
+    return this.objects(subject, predicate).flatMap((o) => (o.kind === 'iri' ? [o.value] : []));
+  }
+
+  /** Plain or English literal, preferring untagged, then `en`, then any. */
+  literal(subject: string, ...predicates: string[]): string | null {
+    for (const predicate of predicates) {
+      const literals = this.objects(subject, predicate).filter(
+        (o): o is RdfTerm & { kind: 'literal' } => o.kind === 'literal',
+      );
+      const best =
+        literals.find((l) => !l.language) ??
+        literals.find((l) => l.language === 'en' || l.language?.startsWith('en-')) ??
+        literals[0];
+      if (best) return best.value.trim();
+    }
+    return null;
+  }
+
+  subjectsOfType(types: Set<string>): string[] {
+    const out: string[] = [];
+    for (const [key, triples] of this.bySubject) {
+      if (!key.startsWith('iri:')) continue;
+      if (triples.some((t) => t.predicate === RDF_TYPE && t.object.kind === 'iri' && types.has(t.object.value))) {
+        out.push(key.slice(4));
+      }
+    }
+    return out;
+  }
+}
+
+function localName(iri: string): string {
+  const tail = iri.split(/[#/]/).filter(Boolean).pop() ?? iri;
+  try {
+    return decodeURIComponent(tail).replace(/_/g, ' ');
+  } catch {
+    return tail;
+  }
+}
+
+function detectNamespaces(index: TripleIndex, fallbackBaseIri: string): OntologyNamespaces {
+  for (const subject of index.subjectsOfType(ONTOLOGY_TYPES)) {
+    const match = /^(.*\/)ontology$/.exec(subject);
+    if (match) return ontologyNamespaces(match[1]);
+  }
+  return ontologyNamespaces(fallbackBaseIri);
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+interface StagingPlan {
+  diff: OntologyImportDiff;
+  newConceptSnapshots: Map<string, Record<string, unknown>>;
+  conceptUpdateRows: Array<{ id: bigint; current: Record<string, unknown>; updates: Record<string, unknown> }>;
+  propertyCreates: Array<Record<string, unknown>>;
+  propertyUpdateRows: Array<{ id: bigint; current: Record<string, unknown>; updates: Record<string, unknown> }>;
+  relationDeletes: Array<{ id: bigint; snapshot: Record<string, unknown> }>;
+  relationCreates: Array<{ parent: bigint | string; child: bigint | string; parentLabel: string; childLabel: string }>;
+}
+
+async function buildStagingPlan(text: string, fallbackBaseIri: string): Promise<StagingPlan> {
+  let parsed;
+  try {
+    parsed = parseTurtle(text);
+  } catch (error) {
+    throw new OntologyImportError(error instanceof Error ? error.message : 'Could not parse Turtle');
+  }
+
+  const index = new TripleIndex(parsed.triples);
+  const ns = detectNamespaces(index, fallbackBaseIri);
+  const conceptPattern = new RegExp(`^${ns.concept.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\d+)$`);
+  const propertyPattern = new RegExp(`^${ns.property.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\d+)$`);
+  const unsupported: string[] = [];
+
+  const classIris = index.subjectsOfType(CLASS_TYPES).filter((iri) => !IGNORED_PARENTS.has(iri));
+  const classIriSet = new Set(classIris);
+  if (classIris.length === 0) {
+    throw new OntologyImportError('File declares no owl:Class or skos:Concept resources');
+  }
+
+  // --- resolve classes to concept ids -------------------------------------
+  const directIds = new Map<string, bigint>();
+  const externalKeys = new Map<string, Array<{ vocabulary: string; externalId: string }>>();
+  for (const classIri of classIris) {
+    const match = conceptPattern.exec(classIri);
+    if (match) {
+      directIds.set(classIri, BigInt(match[1]));
+      continue;
+    }
+    const keys = index
+      .iris(classIri, `${skos}exactMatch`)
+      .map((m) => parseExternalIdIri(ns, m))
+      .filter((k): k is { vocabulary: string; externalId: string } => k !== null);
+    if (keys.length > 0) externalKeys.set(classIri, keys);
+  }
+
+  const externalLookups = Array.from(externalKeys.values()).flat();
+  const externalMatches = externalLookups.length > 0
+    ? await prisma.concept_external_ids.findMany({
+        where: { OR: externalLookups.map((k) => ({ vocabulary: k.vocabulary, external_id: k.externalId })) },
+        select: { concept_id: true, vocabulary: true, external_id: true },
+      })
+    : [];
+  const wikidataLookups = externalLookups.filter((k) => k.vocabulary === 'wikidata').map((k) => k.externalId);
+  const wikidataMatches = wikidataLookups.length > 0
+    ? await prisma.concepts.findMany({
+        where: { wikidata_id: { in: wikidataLookups }, deleted: false },
+        select: { id: true, wikidata_id: true },
+      })
+    : [];
+
+  const resolvedIds = new Map(directIds);
+  for (const [classIri, keys] of externalKeys) {
+    for (const key of keys) {
+      const hit =
+        externalMatches.find((m) => m.vocabulary === key.vocabulary && m.external_id === key.externalId)?.concept_id ??
+        (key.vocabulary === 'wikidata' ? wikidataMatches.find((m) => m.wikidata_id === key.externalId)?.id : undefined);
+      if (hit) {
+        resolvedIds.set(classIri, hit);
+        break;
+      }
+    }
+  }
+
+  const matchedIds = Array.from(new Set(resolvedIds.values()));
+  const existing = await prisma.concepts.findMany({
+    where: { id: { in: matchedIds }, deleted: false },
+    select: {
+      id: true,
+      label: true,
+      definition: true,
+      short_definition: true,
+      code: true,
+      archetype: true,
+      subtype: true,
+      version: true,
+      wikidata_id: true,
+      concept_external_ids: { select: { vocabulary: true, external_id: true } },
+      concept_relations_concept_relations_child_idToconcepts: {
+        where: { type: 'parent_of' },
+        select: { id: true, parent_id: true, version: true, locked: true, type: true },
+      },
+      properties: {
+        select: {
+          id: true,
+          label: true,
+          description: true,
+          version: true,
+          property_filler_constraints: {
+            select: { concept_id: true, filler_types: { select: { label: true } } },
+          },
+        },
+      },
+    },
+  });
+  const existingById = new Map(existing.map((c) => [c.id, c]));
+  for (const [classIri, id] of resolvedIds) {
+    if (!existingById.has(id)) {
+      unsupported.push(`${classIri}: concept ${id} does not exist or is deleted; treated as a new class`);
+      resolvedIds.delete(classIri);
+    }
+  }
+
+  const totalConcepts = await prisma.concepts.count({ where: { deleted: false } });
+  const missingConcepts = Math.max(0, totalConcepts - existingById.size);
+
+  // Labels for parents that aren't themselves declared in the file.
+  const labelCache = new Map<bigint, string>(existing.map((c) => [c.id, c.label]));
+  const conceptLabel = async (id: bigint): Promise<string | null> => {
+    if (!labelCache.has(id)) {
+      const row = await prisma.concepts.findFirst({ where: { id, deleted: false }, select: { label: true } });
+      if (!row) return null;
+      labelCache.set(id, row.label);
+    }
+    return labelCache.get(id)!;
+  };
+
+  const classLabel = (classIri: string) =>
+    index.literal(classIri, `${rdfs}label`, `${skos}prefLabel`) ?? localName(classIri);
+
+  const fileFields = (classIri: string): Partial<Record<ConceptField, string>> => {
+    const fields: Partial<Record<ConceptField, string>> = { label: classLabel(classIri) };
+    const definition = index.literal(classIri, `${skos}definition`);
+    const shortDefinition = index.literal(classIri, `${rdfs}comment`, `${skos}scopeNote`);
+    const code = index.literal(classIri, `${ns.vocab}code`, `${skos}notation`);
+    const archetype = index.literal(classIri, `${ns.vocab}archetype`);
+    const subtype = index.literal(classIri, `${ns.vocab}subtype`);
+    if (definition) fields.definition = definition;
+    if (shortDefinition) fields.short_definition = shortDefinition;
+    if (code) fields.code = code;
+    if (archetype) {
+      if (ARCHETYPES.has(archetype)) fields.archetype = archetype;
+      else unsupported.push(`${classIri}: unknown archetype "${archetype}" ignored`);
+    }
+    if (subtype) {
+      if (SUBTYPES.has(subtype)) fields.subtype = subtype;
+      else unsupported.push(`${classIri}: unknown subtype "${subtype}" ignored`);
+    }
+    return fields;
+  };
+
+  const diff: OntologyImportDiff = {
+    base: ns.base,
+    newConcepts: [],
+    conceptUpdates: [],
+    addedParents: [],
+    removedParents: [],
+    newProperties: [],
+    propertyUpdates: [],
+    unsupported,
+    missingConcepts,
+  };
+  const plan: StagingPlan = {
+    diff,
+    newConceptSnapshots: new Map(),
+    conceptUpdateRows: [],
+    propertyCreates: [],
+    propertyUpdateRows: [],
+    relationDeletes: [],
+    relationCreates: [],
+  };
+
+  const refFor = async (iri: string): Promise<ConceptRef | null> => {
+    const id = resolvedIds.get(iri) ?? (conceptPattern.test(iri) ? BigInt(conceptPattern.exec(iri)![1]) : undefined);
+    if (id !== undefined) {
+      const label = await conceptLabel(id);
+      return label === null ? null : { id: id.toString(), label };
+    }
+    return classIriSet.has(iri) ? { iri, label: classLabel(iri) } : null;
+  };
+
+  // --- concepts -------------------------------------------------------------
+  for (const classIri of classIris) {
+    const fields = fileFields(classIri);
+    const id = resolvedIds.get(classIri);
+    const row = id !== undefined ? existingById.get(id) : undefined;
+
+    if (!row) {
+      diff.newConcepts.push({ iri: classIri, label: fields.label!, fields, properties: [] });
+      plan.newConceptSnapshots.set(classIri, { ...fields, properties: [] });
+      for (const match of index.iris(classIri, `${skos}exactMatch`)) {
+        unsupported.push(`${classIri}: exactMatch ${match} not imported for new concepts`);
+      }
+      continue;
+    }
+
+    const changes: OntologyImportDiff['conceptUpdates'][number]['changes'] = {};
+    const updates: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(fields) as Array<[ConceptField, string]>) {
+      const current = (row[field] as string | null) ?? null;
+      if (current === value) continue;
+      changes[field] = { from: current, to: value };
+      updates[field] = value;
+    }
+    if (Object.keys(updates).length > 0) {
+      diff.conceptUpdates.push({ id: row.id.toString(), label: row.label, changes });
+      const current = {
+        id: row.id,
+        label: row.label,
+        definition: row.definition,
+        short_definition: row.short_definition,
+        code: row.code,
+        archetype: row.archetype,
+        subtype: row.subtype,
+        version: row.version,
+      };
+      plan.conceptUpdateRows.push({ id: row.id, current, updates });
+    }
+
+    const currentMatches = new Set(row.concept_external_ids.map((e) => `${e.vocabulary}|${e.external_id}`));
+    if (row.wikidata_id) currentMatches.add(`wikidata|${row.wikidata_id}`);
+    const fileMatches = new Set(
+      index
+        .iris(classIri, `${skos}exactMatch`)
+        .map((m) => parseExternalIdIri(ns, m))
+        .filter((k): k is { vocabulary: string; externalId: string } => k !== null)
+        .map((k) => `${k.vocabulary}|${k.externalId}`),
+    );
+    if (currentMatches.size !== fileMatches.size || Array.from(fileMatches).some((m) => !currentMatches.has(m))) {
+      unsupported.push(`${classIri}: exactMatch changes are not imported; edit external ids in the explorer`);
+    }
+  }
+
+  // --- parents --------------------------------------------------------------
+  const parentPredicates = [`${rdfs}subClassOf`, `${skos}broader`];
+  const parentsByChild = new Map<string, Set<string>>();
+  const addedEdges: Array<{ child: string; parent: string }> = [];
+  for (const relation of await prisma.concept_relations.findMany({
+    where: { type: 'parent_of' },
+    select: { parent_id: true, child_id: true },
+  })) {
+    const set = parentsByChild.get(relation.child_id.toString()) ?? new Set();
+    set.add(relation.parent_id.toString());
+    parentsByChild.set(relation.child_id.toString(), set);
+  }
+  const refKey = (ref: ConceptRef) => ('id' in ref ? ref.id : ref.iri);
+
+  for (const classIri of classIris) {
+    const child = await refFor(classIri);
+    if (!child) continue;
+    const parentObjects = parentPredicates.flatMap((p) => index.objects(classIri, p));
+    if (parentObjects.some((o) => o.kind === 'bnode')) {
+      unsupported.push(`${classIri}: anonymous superclasses (OWL restrictions) are not imported`);
+    }
+
+    const fileParents = new Map<string, ConceptRef>();
+    for (const parentIri of parentObjects.flatMap((o) => (o.kind === 'iri' ? [o.value] : []))) {
+      if (IGNORED_PARENTS.has(parentIri)) continue;
+      const parent = await refFor(parentIri);
+      if (!parent) {
+        unsupported.push(`${classIri}: unknown parent ${parentIri} ignored`);
+        continue;
+      }
+      fileParents.set(refKey(parent), parent);
+    }
+
+    const row = 'id' in child ? existingById.get(BigInt(child.id)) : undefined;
+    const currentParents = row?.concept_relations_concept_relations_child_idToconcepts ?? [];
+    const currentKeys = new Set(currentParents.map((r) => r.parent_id.toString()));
+
+    for (const relation of currentParents) {
+      if (fileParents.has(relation.parent_id.toString())) continue;
+      const parentLabel = (await conceptLabel(relation.parent_id)) ?? relation.parent_id.toString();
+      if (relation.locked) {
+        unsupported.push(`${classIri}: parent "${parentLabel}" is locked and was not removed`);
+        continue;
+      }
+      diff.removedParents.push({
+        relationId: relation.id.toString(),
+        child,
+        parent: { id: relation.parent_id.toString(), label: parentLabel },
+      });
+      plan.relationDeletes.push({
+        id: relation.id,
+        snapshot: {
+          id: relation.id.toString(),
+          parent_id: relation.parent_id.toString(),
+          child_id: row!.id.toString(),
+          type: relation.type,
+          version: relation.version,
+          source_label: parentLabel,
+          target_label: child.label,
+        },
+      });
+      parentsByChild.get(refKey(child))?.delete(relation.parent_id.toString());
+    }
+
+    for (const [key, parent] of fileParents) {
+      if (currentKeys.has(key)) continue;
+      if (key === refKey(child)) {
+        unsupported.push(`${classIri}: a concept cannot be its own parent`);
+        continue;
+      }
+      diff.addedParents.push({ child, parent });
+      addedEdges.push({ child: refKey(child), parent: key });
+      const set = parentsByChild.get(refKey(child)) ?? new Set();
+      set.add(key);
+      parentsByChild.set(refKey(child), set);
+    }
+  }
+
+  // Reject added edges that would close a cycle in the resulting DAG.
+  const reachesUp = (from: string, target: string): boolean => {
+    const seen = new Set<string>();
+    const stack = [from];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (node === target) return true;
+      if (seen.has(node)) continue;
+      seen.add(node);
+      for (const p of parentsByChild.get(node) ?? []) stack.push(p);
+    }
+    return false;
+  };
+  const acceptedEdges = new Set<number>();
+  addedEdges.forEach((edge, i) => {
+    if (reachesUp(edge.parent, edge.child)) {
+      parentsByChild.get(edge.child)?.delete(edge.parent);
+      unsupported.push(`${diff.addedParents[i].child.label} → ${diff.addedParents[i].parent.label}: would create a cycle; not staged`);
+    } else {
+      acceptedEdges.add(i);
+    }
+  });
+  diff.addedParents = diff.addedParents.filter((_, i) => acceptedEdges.has(i));
+  for (const { child, parent } of diff.addedParents) {
+    plan.relationCreates.push({
+      parent: 'id' in parent ? BigInt(parent.id) : parent.iri,
+      child: 'id' in child ? BigInt(child.id) : child.iri,
+      parentLabel: parent.label,
+      childLabel: child.label,
+    });
+  }
+
+  // --- properties -----------------------------------------------------------
+  const existingProperties = new Map(
+    existing.flatMap((c) => c.properties.map((p) => [p.id, { ...p, concept_id: c.id }] as const)),
+  );
+  const filePropertyIds = new Set<bigint>();
+
+  for (const propertyIri of index.subjectsOfType(PROPERTY_TYPES)) {
+    const label = index.literal(propertyIri, `${rdfs}label`, `${skos}prefLabel`) ?? localName(propertyIri);
+    const description = index.literal(propertyIri, `${rdfs}comment`);
+    const domains = index.iris(propertyIri, `${rdfs}domain`);
+    const match = propertyPattern.exec(propertyIri);
+    const row = match ? existingProperties.get(BigInt(match[1])) : undefined;
+
+    if (match && !row) {
+      // Declared on a concept the file doesn't include (or since deleted).
+      continue;
+    }
+
+    if (row) {
+      filePropertyIds.add(row.id);
+      const changes: OntologyImportDiff['propertyUpdates'][number]['changes'] = {};
+      const updates: Record<string, unknown> = {};
+      if (label !== (row.label ?? null)) {
+        changes.label = { from: row.label, to: label };
+        updates.label = label;
+      }
+      if (description && description !== (row.description ?? null)) {
+        changes.description = { from: row.description, to: description };
+        updates.description = description;
+      }
+      if (Object.keys(updates).length > 0) {
+        diff.propertyUpdates.push({ id: row.id.toString(), label: row.label ?? label, changes });
+        const current = {
+          id: row.id,
+          concept_id: row.concept_id,
+          label: row.label,
+          description: row.description,
+          version: row.version,
+        };
+        plan.propertyUpdateRows.push({ id: row.id, current, updates });
+      }
+      if (domains.length > 0 && !domains.includes(`${ns.concept}${row.concept_id}`)) {
+        unsupported.push(`${propertyIri}: domain changes are not imported`);
+      }
+      const currentRanges = Array.from(propertyRanges(ns, row.property_filler_constraints).keys()).sort();
+      const fileRanges = index.iris(propertyIri, `${rdfs}range`).sort();
+      const hasUnionRange = index.objects(propertyIri, `${rdfs}range`).some((o) => o.kind === 'bnode');
+      if (!hasUnionRange && fileRanges.join(' ') !== currentRanges.join(' ') && !(currentRanges.length > 1 && fileRanges.length === 0)) {
+        unsupported.push(`${propertyIri}: range changes are not imported; edit filler constraints in the explorer`);
+      }
+      continue;
+    }
+
+    if (domains.length !== 1) {
+      unsupported.push(`${propertyIri}: new properties need exactly one rdfs:domain; skipped`);
+      continue;
+    }
+    const domain = await refFor(domains[0]);
+    if (!domain) {
+      unsupported.push(`${propertyIri}: domain ${domains[0]} is not a known concept; skipped`);
+      continue;
+    }
+    if (index.iris(propertyIri, `${rdfs}range`).length > 0) {
+      unsupported.push(`${propertyIri}: range of a new property is not imported`);
+    }
+
+    if ('iri' in domain) {
+      const snapshot = plan.newConceptSnapshots.get(domain.iri)!;
+      const properties = snapshot.properties as Array<Record<string, unknown>>;
+      if (properties.some((p) => p.label === label)) {
+        unsupported.push(`${propertyIri}: duplicate property label "${label}" on new concept; skipped`);
+        continue;
+      }
+      properties.push({ label, description, main: false, examples: [] });
+      diff.newConcepts.find((c) => c.iri === domain.iri)?.properties.push(label);
+      continue;
+    }
+
+    const conceptRow = existingById.get(BigInt(domain.id));
+    const taken = conceptRow?.properties.some((p) => p.label === label) ?? false;
+    if (taken || plan.propertyCreates.some((p) => p.concept_id === domain.id && p.label === label)) {
+      unsupported.push(`${propertyIri}: "${domain.label}" already has a property labelled "${label}"; skipped`);
+      continue;
+    }
+    diff.newProperties.push({ conceptId: domain.id, conceptLabel: domain.label, label, description });
+    plan.propertyCreates.push({ concept_id: domain.id, label, description, main: false, examples: [] });
+  }
+
+  const removedProperties = Array.from(existingProperties.values()).filter((p) => !filePropertyIds.has(p.id));
+  if (removedProperties.length > 0 && index.subjectsOfType(PROPERTY_TYPES).length > 0) {
+    unsupported.push(
+      `${removedProperties.length} existing propert${removedProperties.length === 1 ? 'y is' : 'ies are'} missing from the file; property deletes are not imported`,
+    );
+  }
+
+  // Snapshots must not carry empty property arrays into concepts.create.
+  for (const snapshot of plan.newConceptSnapshots.values()) {
+    if ((snapshot.properties as unknown[]).length === 0) delete snapshot.properties;
+  }
+
+  return plan;
+}
+
+/** Parses and diffs without writing anything. */
+export async function diffOntologyImport(text: string, options: { baseIri: string }): Promise<OntologyImportDiff> {
+  return (await buildStagingPlan(text, options.baseIri)).diff;
+}
+
+/**
+ * Stages the diff as pending changesets grouped under one
+ * `ontology_import` change plan. Updates that land on an entity which
+ * already has a pending changeset are merged into it (as with any other
+ * edit) and stay attached to whatever plan that changeset belongs to.
+ */
+export async function stageOntologyImport(
+  text: string,
+  options: { baseIri: string; userId: string; filename?: string | null },
+): Promise<OntologyImportResult> {
+  const plan = await buildStagingPlan(text, options.baseIri);
+  const { diff } = plan;
+
+  const summary = [
+    diff.newConcepts.length && `${diff.newConcepts.length} new concept${diff.newConcepts.length === 1 ? '' : 's'}`,
+    diff.conceptUpdates.length && `${diff.conceptUpdates.length} concept edit${diff.conceptUpdates.length === 1 ? '' : 's'}`,
+    (diff.addedParents.length || diff.removedParents.length) &&
+      `${diff.addedParents.length + diff.removedParents.length} hierarchy change${diff.addedParents.length + diff.removedParents.length === 1 ? '' : 's'}`,
+    (diff.newProperties.length || diff.propertyUpdates.length) &&
+      `${diff.newProperties.length + diff.propertyUpdates.length} property change${diff.newProperties.length + diff.propertyUpdates.length === 1 ? '' : 's'}`,
+  ].filter(Boolean).join(', ');
+
+  // All or nothing: a failure part-way must not leave loose changesets
+  // outside the import plan.
+  return prisma.$transaction(
+    async (tx) => {
+      const staged: bigint[] = [];
+
+      const newConceptIds = new Map<string, bigint>();
+      for (const [iri, snapshot] of plan.newConceptSnapshots) {
+        const changeset = await createChangesetFromCreate('frame', snapshot, options.userId, undefined, tx);
+        newConceptIds.set(iri, changeset.id);
+        staged.push(changeset.id);
+      }
+
+      for (const row of plan.conceptUpdateRows) {
+        const changeset = await createChangesetFromUpdate(
+          'frame', row.id, row.current, row.updates, options.userId, undefined, tx,
+        );
+        if (changeset.id !== BigInt(0)) staged.push(changeset.id);
+      }
+
+      for (const snapshot of plan.propertyCreates) {
+        const changeset = await createChangesetFromCreate('frame_role', snapshot, options.userId, undefined, tx);
+        staged.push(changeset.id);
+      }
+
+      for (const row of plan.propertyUpdateRows) {
+        const changeset = await createChangesetFromUpdate(
+          'frame_role', row.id, row.current, row.updates, options.userId, undefined, tx,
+        );
+        if (changeset.id !== BigInt(0)) staged.push(changeset.id);
+      }
+
+      for (const relation of plan.relationDeletes) {
+        const changeset = await createChangesetFromDelete(
+          'frame_relation', relation.id, relation.snapshot, options.userId, undefined, tx,
+        );
+        staged.push(changeset.id);
+      }
+
+      // New concepts are referenced by placeholder ("-<changeset id>"), which
+      // the plan commit resolves once their CREATE has landed.
+      const endpoint = (ref: bigint | string) =>
+        typeof ref === 'bigint' ? ref.toString() : `-${newConceptIds.get(ref)!.toString()}`;
+      for (const relation of plan.relationCreates) {
+        const changeset = await createChangesetFromCreate(
+          'frame_relation',
+          {
+            parent_id: endpoint(relation.parent),
+            child_id: endpoint(relation.child),
+            type: 'parent_of',
+            source_label: relation.parentLabel,
+            target_label: relation.childLabel,
+          },
+          options.userId,
+          undefined,
+          tx,
+        );
+        staged.push(changeset.id);
+      }
+
+      if (staged.length === 0) {
+        return { diff, planId: null, changesetIds: [] };
+      }
+
+      const changePlan = await tx.change_plans.create({
+        data: {
+          plan_kind: 'ontology_import',
+          summary: options.filename ? `${options.filename}: ${summary}` : summary,
+          created_by: options.userId,
+          metadata: {
+            filename: options.filename ?? null,
+            base: diff.base,
+            counts: {
+              new_concepts: diff.newConcepts.length,
+              concept_updates: diff.conceptUpdates.length,
+              added_parents: diff.addedParents.length,
+              removed_parents: diff.removedParents.length,
+              new_properties: diff.newProperties.length,
+              property_updates: diff.propertyUpdates.length,
+            },
+            unsupported: diff.unsupported.slice(0, 200),
+            missing_concepts: diff.missingConcepts,
+          },
+        },
+      });
+      await tx.changesets.updateMany({
+        where: { id: { in: staged }, change_plan_id: null, status: 'pending' },
+        data: { change_plan_id: changePlan.id },
+      });
+
+      return {
+        diff,
+        planId: changePlan.id.toString(),
+        changesetIds: staged.map((id) => id.toString()),
+      };
+    },
+    // Large files stage thousands of rows.
+    { timeout: 120_000, maxWait: 10_000 },
+  );
+}
@@ -0,0 +1,10 @@
+export * from './vocab';
+export { streamOntologyTurtle } from './export';
+export {
+  diffOntologyImport,
+  stageOntologyImport,
+  OntologyImportError,
+  type ConceptRef,
+  type OntologyImportDiff,
+  type OntologyImportResult,
+} from './import';
@@ -0,0 +1,122 @@
+/**
+ * IRIs for the ontology-wide OWL/SKOS export and the importer that reads
+ * it back. Concept IRIs match the claims export (`<base>concepts/<id>`) so
+ * both files can be loaded into one triple store.
+ */
+
+import { RDF_PREFIXES } from '@/lib/rdf';
+
+export type OntologyExportFlavor = 'owl' | 'skos';
+
+export const ONTOLOGY_EXPORT_FLAVORS: OntologyExportFlavor[] = ['owl', 'skos'];
+
+export interface OntologyNamespaces {
+  base: string;
+  /** The owl:Ontology / skos:ConceptScheme node. */
+  ontology: string;
+  concept: string;
+  property: string;
+  propertyGroup: string;
+  fillerType: string;
+  external: string;
+  vocab: string;
+}
+
+export function ontologyNamespaces(baseIri: string): OntologyNamespaces {
+  const base = baseIri.endsWith('/') ? baseIri : `${baseIri}/`;
+  return {
+    base,
+    ontology: `${base}ontology`,
+    concept: `${base}concepts/`,
+    property: `${base}properties/`,
+    propertyGroup: `${base}property-groups/`,
+    fillerType: `${base}filler-types/`,
+    external: `${base}external/`,
+    vocab: `${base}ontology/vocab#`,
+  };
+}
+
+/** Well-known resolvers for `concept_external_ids.vocabulary`. */
+const EXTERNAL_ID_IRIS: Record<string, string> = {
+  wikidata: 'http://www.wikidata.org/entity/',
+  umls_cui: 'https://uts.nlm.nih.gov/uts/umls/concept/',
+};
+
+export function externalIdIri(ns: OntologyNamespaces, vocabulary: string, externalId: string): string {
+  const prefix = EXTERNAL_ID_IRIS[vocabulary] ?? `${ns.external}${encodeURIComponent(vocabulary)}/`;
+  return `${prefix}${encodeURIComponent(externalId)}`;
+}
+
+/** Inverse of {@link externalIdIri}; null when the IRI isn't one we mint. */
+export function parseExternalIdIri(
+  ns: OntologyNamespaces,
+  iri: string,
+): { vocabulary: string; externalId: string } | null {
+  for (const [vocabulary, prefix] of Object.entries(EXTERNAL_ID_IRIS)) {
+    if (iri.startsWith(prefix) && iri.length > prefix.length) {
+      return { vocabulary, externalId: decodeURIComponent(iri.slice(prefix.length)) };
+    }
+  }
+  if (iri.startsWith(ns.external)) {
+    const [vocabulary, externalId] = iri.slice(ns.external.length).split('/');
+    if (vocabulary && externalId) {
+      return { vocabulary: decodeURIComponent(vocabulary), externalId: decodeURIComponent(externalId) };
+    }
+  }
+  return null;
+}
+
+/** Filler types that map onto XSD datatypes; everything else is a class. */
+const PRIMITIVE_FILLER_DATATYPES: Record<string, string> = {
+  string: 'string',
+  text: 'string',
+  number: 'decimal',
+  decimal: 'decimal',
+  float: 'decimal',
+  integer: 'integer',
+  int: 'integer',
+  boolean: 'boolean',
+  date: 'date',
+  datetime: 'dateTime',
+};
+
+function primitiveFillerDatatype(fillerTypeLabel: string): string | null {
+  const local = PRIMITIVE_FILLER_DATATYPES[fillerTypeLabel.trim().toLowerCase()];
+  return local ? `${RDF_PREFIXES.xsd}${local}` : null;
+}
+
+export function ontologyPrefixes(ns: OntologyNamespaces): Array<[string, string]> {
+  return [
+    ['rdf', RDF_PREFIXES.rdf],
+    ['rdfs', RDF_PREFIXES.rdfs],
+    ['owl', RDF_PREFIXES.owl],
+    ['xsd', RDF_PREFIXES.xsd],
+    ['skos', RDF_PREFIXES.skos],
+    ['dcterms', RDF_PREFIXES.dcterms],
+    ['se', ns.vocab],
+    ['concept', ns.concept],
+    ['prop', ns.property],
+    ['group', ns.propertyGroup],
+    ['filler', ns.fillerType],
+  ];
+}
+
+/**
+ * `rdfs:range` IRIs for a property's filler constraints, each flagged with
+ * whether it is an XSD datatype (true) or a class (false).
+ */
+export function propertyRanges(
+  ns: OntologyNamespaces,
+  constraints: Array<{ concept_id: bigint | null; filler_types: { label: string } }>,
+): Map<string, boolean> {
+  const ranges = new Map<string, boolean>();
+  for (const c of constraints) {
+    if (c.concept_id) {
+      ranges.set(`${ns.concept}${c.concept_id}`, false);
+      continue;
+    }
+    const datatype = primitiveFillerDatatype(c.filler_types.label);
+    ranges.set(datatype ?? `${ns.fillerType}${encodeURIComponent(c.filler_types.label)}`, datatype !== null);
+  }
+  return ranges;
+}
@@ -0,0 +1,56 @@
+/**
+ * Shared request handling for /api/v1 routes: API-key authentication,
+ * rate limiting, rate-limit headers and the stable error envelope.
+ */
+
+import { NextResponse } from 'next/server';
+import { authenticateApiKey, consumeRateLimit, type RateLimitState } from './keys';
+import { PublicApiError } from './validation';
+
+function withRateLimitHeaders(response: NextResponse, rate: RateLimitState | null): NextResponse {
+  if (!rate) return response;
+  response.headers.set('X-RateLimit-Limit', String(rate.limit));
+  response.headers.set('X-RateLimit-Remaining', String(rate.remaining));
+  response.headers.set('X-RateLimit-Reset', String(rate.reset));
+  if (rate.exceeded) {
+    response.headers.set('Retry-After', String(Math.max(1, rate.reset - Math.floor(Date.now() / 1000))));
+  }
+  return response;
+}
+
+/**
+ * Authenticate `request`, count it against the key's rate limit and
+ * return `handler`'s result as JSON. Errors become
+ * `{ error: { code, message } }` with the matching status.
+ */
+export async function handlePublicApiRequest(
+  request: Request,
+  handler: (searchParams: URLSearchParams) => Promise<unknown>,
+): Promise<NextResponse> {
+  let rate: RateLimitState | null = null;
+  try {
+    const key = await authenticateApiKey(request);
+    rate = await consumeRateLimit(key);
+    if (rate.exceeded) {
+      throw new PublicApiError(
+        `Rate limit of ${rate.limit} requests per minute exceeded`,
+        429,
+        'rate_limited',
+      );
+    }
+    const body = await handler(new URL(request.url).searchParams);
+    return withRateLimitHeaders(NextResponse.json(body), rate);
+  } catch (error) {
+    if (error instanceof PublicApiError) {
+      return withRateLimitHeaders(
+        NextResponse.json({ error: { code: error.code, message: error.message } }, { status: error.statusCode }),
+        rate,
+      );
+    }
+    console.error(`[API v1] Error handling ${new URL(request.url).pathname}:`, error);
+    return withRateLimitHeaders(
+      NextResponse.json({ error: { code: 'internal_error', message: 'Internal error' } }, { status: 500 }),
+      rate,
+    );
+  }
+}
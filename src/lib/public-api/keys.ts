@@ -0,0 +1,210 @@
+/**
+ * API keys for the public /api/v1 read API.
+ *
+ * Keys look like `sk_<prefix>_<secret>`. The prefix finds the row; only a
+ * SHA-256 hash of the whole key is stored, so a key can't be recovered
+ * after it is issued. Requests pass it as `Authorization: Bearer <key>`
+ * or `X-API-Key: <key>`.
+ *
+ * Rate limits are per key, counted in one-minute windows in
+ * `api_key_usage` so every server instance sees the same count.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { Prisma, type api_keys } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { PublicApiError } from './validation';
+
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 120;
+export const MAX_RATE_LIMIT_PER_MINUTE = 10_000;
+/** Usage windows older than this are pruned. */
+const USAGE_RETENTION = Prisma.raw(`interval '1 day'`);
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  /** Identifies the key in logs and lists; the secret part is never stored. */
+  key_prefix: string;
+  rate_limit_per_minute: number;
+  created_by: string;
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  /** The full key, only returned when it is created. */
+  key?: string;
+}
+
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  /** Unix seconds when the current window ends. */
+  reset: number;
+  exceeded: boolean;
+}
+
+export class ApiKeyError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function serializeApiKey(row: api_keys, key?: string): ApiKey {
+  return {
+    id: row.id.toString(),
+    name: row.name,
+    key_prefix: row.key_prefix,
+    rate_limit_per_minute: row.rate_limit_per_minute,
+    created_by: row.created_by,
+    created_at: row.created_at.toISOString(),
+    last_used_at: row.last_used_at?.toISOString() ?? null,
+    expires_at: row.expires_at?.toISOString() ?? null,
+    revoked_at: row.revoked_at?.toISOString() ?? null,
+    ...(key ? { key } : {}),
+  };
+}
+
+// ============================================
+// Management (admin routes)
+// ============================================
+
+export interface ApiKeyInput {
+  name?: string;
+  rate_limit_per_minute?: number;
+  expires_at?: Date | null;
+}
+
+/** POST (name required) or PATCH (`partial`) body for a key. */
+export function parseApiKeyInput(
+  body: Record<string, unknown>,
+  { partial = false }: { partial?: boolean } = {},
+): ApiKeyInput {
+  const input: ApiKeyInput = {};
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) throw new ApiKeyError('name is required');
+    input.name = body.name.trim();
+  }
+  if (body.rate_limit_per_minute !== undefined) {
+    const limit = body.rate_limit_per_minute;
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > MAX_RATE_LIMIT_PER_MINUTE) {
+      throw new ApiKeyError(`rate_limit_per_minute must be an integer between 1 and ${MAX_RATE_LIMIT_PER_MINUTE}`);
+    }
+    input.rate_limit_per_minute = limit;
+  }
+  if (body.expires_at !== undefined) {
+    if (body.expires_at === null) {
+      input.expires_at = null;
+    } else {
+      const date = typeof body.expires_at === 'string' ? new Date(body.expires_at) : null;
+      if (!date || Number.isNaN(date.getTime())) throw new ApiKeyError('expires_at must be an ISO timestamp');
+      input.expires_at = date;
+    }
+  }
+  return input;
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const rows = await prisma.api_keys.findMany({ orderBy: { id: 'asc' } });
+  return rows.map((row) => serializeApiKey(row));
+}
+
+/** Issue a new key. The returned `key` is the only time the secret is visible. */
+export async function createApiKey(input: ApiKeyInput, createdBy: string): Promise<ApiKey> {
+  const prefix = randomBytes(5).toString('hex');
+  const key = `sk_${prefix}_${randomBytes(24).toString('base64url')}`;
+  const row = await prisma.api_keys.create({
+    data: {
+      name: input.name!,
+      key_prefix: prefix,
+      key_hash: hashKey(key),
+      rate_limit_per_minute: input.rate_limit_per_minute ?? DEFAULT_RATE_LIMIT_PER_MINUTE,
+      expires_at: input.expires_at ?? null,
+      created_by: createdBy,
+    },
+  });
+  return serializeApiKey(row, key);
+}
+
+async function getApiKeyOrThrow(id: bigint): Promise<api_keys> {
+  const row = await prisma.api_keys.findUnique({ where: { id } });
+  if (!row) throw new ApiKeyError(`API key ${id.toString()} not found`, 404);
+  return row;
+}
+
+export async function updateApiKey(id: bigint, input: ApiKeyInput): Promise<ApiKey> {
+  await getApiKeyOrThrow(id);
+  return serializeApiKey(await prisma.api_keys.update({ where: { id }, data: input }));
+}
+
+/** Revoking is permanent; the row is kept so usage stays attributable. */
+export async function revokeApiKey(id: bigint): Promise<ApiKey> {
+  const row = await getApiKeyOrThrow(id);
+  if (row.revoked_at) return serializeApiKey(row);
+  return serializeApiKey(await prisma.api_keys.update({ where: { id }, data: { revoked_at: new Date() } }));
+}
+
+// ============================================
+// Request authentication
+// ============================================
+
+function keyFromRequest(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  if (header?.toLowerCase().startsWith('bearer ')) return header.slice(7).trim() || null;
+  return request.headers.get('x-api-key')?.trim() || null;
+}
+
+/** The active key a request carries; throws 401 when missing, unknown, revoked or expired. */
+export async function authenticateApiKey(request: Request): Promise<api_keys> {
+  const key = keyFromRequest(request);
+  if (!key) {
+    throw new PublicApiError('Pass an API key as "Authorization: Bearer <key>" or "X-API-Key"', 401, 'unauthorized');
+  }
+  const match = /^sk_([0-9a-f]{10})_[A-Za-z0-9_-]+$/.exec(key);
+  const row = match ? await prisma.api_keys.findUnique({ where: { key_prefix: match[1] } }) : null;
+  const valid =
+    row !== null &&
+    timingSafeEqual(Buffer.from(hashKey(key), 'hex'), Buffer.from(row.key_hash, 'hex'));
+  if (!row || !valid) throw new PublicApiError('Invalid API key', 401, 'unauthorized');
+  if (row.revoked_at) throw new PublicApiError('This API key has been revoked', 401, 'unauthorized');
+  if (row.expires_at && row.expires_at <= new Date()) {
+    throw new PublicApiError('This API key has expired', 401, 'unauthorized');
+  }
+  return row;
+}
+
+/**
+ * Count one request against the key's current minute window. The first
+ * request of a window also stamps `last_used_at` and prunes old windows.
+ */
+export async function consumeRateLimit(key: api_keys): Promise<RateLimitState> {
+  const [usage] = await prisma.$queryRaw<Array<{ request_count: number; window_start: Date }>>(Prisma.sql`
+    INSERT INTO api_key_usage (api_key_id, window_start, request_count)
+    VALUES (${key.id}, date_trunc('minute', now()), 1)
+    ON CONFLICT (api_key_id, window_start)
+    DO UPDATE SET request_count = api_key_usage.request_count + 1
+    RETURNING request_count, window_start
+  `);
+
+  if (usage.request_count === 1) {
+    await prisma.$transaction([
+      prisma.api_keys.update({ where: { id: key.id }, data: { last_used_at: new Date() } }),
+      prisma.$executeRaw(Prisma.sql`
+        DELETE FROM api_key_usage
+        WHERE api_key_id = ${key.id} AND window_start < now() - ${USAGE_RETENTION}
+      `),
+    ]);
+  }
+
+  const limit = key.rate_limit_per_minute;
+  return {
+    limit,
+    remaining: Math.max(0, limit - usage.request_count),
+    reset: Math.floor(usage.window_start.getTime() / 1000) + 60,
+    exceeded: usage.request_count > limit,
+  };
+}
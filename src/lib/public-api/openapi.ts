@@ -0,0 +1,404 @@
+/**
+ * OpenAPI 3.1 document for the public /api/v1 read API, served at
+ * `/api/v1/openapi.json`.
+ *
+ * Built from the operation list below so routes, parameters and schemas
+ * are described in one place; the schemas mirror `types.ts` and must be
+ * updated with it.
+ */
+
+import { lexical_unit_relation_type, part_of_speech } from '@prisma/client';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './validation';
+
+type JsonSchema = Record<string, unknown>;
+
+interface QueryParam {
+  name: string;
+  description: string;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  path: string;
+  operationId: string;
+  summary: string;
+  tag: string;
+  /** Schema name in components; list operations wrap it in a page. */
+  schema: string;
+  list: boolean;
+  pathId?: string;
+  query?: QueryParam[];
+}
+
+const str = (extra: JsonSchema = {}): JsonSchema => ({ type: 'string', ...extra });
+const nullable = (schema: JsonSchema): JsonSchema => ({ ...schema, type: [schema.type as string, 'null'] });
+const arrayOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const id = str({ pattern: '^\\d+$' });
+const timestamp = str({ format: 'date-time' });
+
+function object(properties: Record<string, JsonSchema>): JsonSchema {
+  return { type: 'object', required: Object.keys(properties), properties };
+}
+
+const idParam = (name: string, description: string): QueryParam => ({ name, description, schema: id });
+const boolParam = (name: string, description: string): QueryParam => ({
+  name,
+  description,
+  schema: { type: 'string', enum: ['true', 'false', '1', '0'] },
+});
+const updatedSince: QueryParam = {
+  name: 'updated_since',
+  description: 'Only rows updated at or after this ISO 8601 timestamp.',
+  schema: timestamp,
+};
+const posParam: QueryParam = { name: 'pos', description: 'Part of speech.', schema: str({ enum: Object.values(part_of_speech) }) };
+
+const OPERATIONS: Operation[] = [
+  {
+    path: '/concepts',
+    operationId: 'listConcepts',
+    summary: 'List concepts',
+    tag: 'Concepts',
+    schema: 'Concept',
+    list: true,
+    query: [
+      { name: 'code', description: 'Exact concept code.', schema: str() },
+      updatedSince,
+      boolParam('include_deleted', 'Include deleted and merged concepts.'),
+    ],
+  },
+  { path: '/concepts/{id}', operationId: 'getConcept', summary: 'Get a concept with its parents and children', tag: 'Concepts', schema: 'ConceptDetail', list: false, pathId: 'Concept id.' },
+  {
+    path: '/concepts/{id}/properties',
+    operationId: 'listConceptProperties',
+    summary: "List a concept's properties",
+    tag: 'Concepts',
+    schema: 'Property',
+    list: true,
+    pathId: 'Concept id.',
+    query: [updatedSince],
+  },
+  {
+    path: '/properties',
+    operationId: 'listProperties',
+    summary: 'List properties',
+    tag: 'Concepts',
+    schema: 'Property',
+    list: true,
+    query: [idParam('concept_id', 'Only properties of this concept.'), updatedSince],
+  },
+  {
+    path: '/concept-relations',
+    operationId: 'listConceptRelations',
+    summary: 'List parent_of edges of the concept DAG',
+    tag: 'Concepts',
+    schema: 'ConceptRelation',
+    list: true,
+    query: [
+      idParam('parent_id', 'Only edges from this parent.'),
+      idParam('child_id', 'Only edges to this child.'),
+      boolParam('include_deleted', 'Include edges touching deleted or merged concepts.'),
+    ],
+  },
+  {
+    path: '/senses',
+    operationId: 'listSenses',
+    summary: 'List senses',
+    tag: 'Lexicon',
+    schema: 'Sense',
+    list: true,
+    query: [
+      posParam,
+      idParam('concept_id', 'Only senses linked to this concept.'),
+      idParam('lexical_unit_id', 'Only senses of this lexical unit.'),
+    ],
+  },
+  { path: '/senses/{id}', operationId: 'getSense', summary: 'Get a sense', tag: 'Lexicon', schema: 'Sense', list: false, pathId: 'Sense id.' },
+  {
+    path: '/lexical-units',
+    operationId: 'listLexicalUnits',
+    summary: 'List lexical units',
+    tag: 'Lexicon',
+    schema: 'LexicalUnit',
+    list: true,
+    query: [
+      posParam,
+      { name: 'lemma', description: 'Only units with this lemma.', schema: str() },
+      updatedSince,
+      boolParam('include_deleted', 'Include deleted lexical units.'),
+    ],
+  },
+  { path: '/lexical-units/{id}', operationId: 'getLexicalUnit', summary: 'Get a lexical unit', tag: 'Lexicon', schema: 'LexicalUnit', list: false, pathId: 'Lexical unit id.' },
+  {
+    path: '/lexical-unit-relations',
+    operationId: 'listLexicalUnitRelations',
+    summary: 'List relations between lexical units',
+    tag: 'Lexicon',
+    schema: 'LexicalUnitRelation',
+    list: true,
+    query: [
+      { name: 'type', description: 'Relation type.', schema: str({ enum: Object.values(lexical_unit_relation_type) }) },
+      idParam('source_id', 'Only relations from this lexical unit.'),
+      idParam('target_id', 'Only relations to this lexical unit.'),
+    ],
+  },
+  {
+    path: '/referents',
+    operationId: 'listReferents',
+    summary: 'List referents',
+    tag: 'Claims',
+    schema: 'Referent',
+    list: true,
+    query: [
+      idParam('type_concept_id', 'Only referents typed by this concept.'),
+      idParam('knowledge_graph_id', 'Only referents scoped to this claims graph.'),
+      updatedSince,
+      boolParam('include_merged', 'Include referents merged into another.'),
+    ],
+  },
+  { path: '/referents/{id}', operationId: 'getReferent', summary: 'Get a referent', tag: 'Claims', schema: 'Referent', list: false, pathId: 'Referent id.' },
+  { path: '/claims-graphs', operationId: 'listClaimsGraphs', summary: 'List claims graphs', tag: 'Claims', schema: 'ClaimsGraph', list: true },
+  { path: '/claims-graphs/{id}', operationId: 'getClaimsGraph', summary: 'Get a whole claims graph', tag: 'Claims', schema: 'ClaimsGraphDetail', list: false, pathId: 'Claims graph id.' },
+];
+
+const externalId = object({ vocabulary: str(), external_id: str() });
+
+const concept = object({
+  id,
+  code: nullable(str()),
+  label: str(),
+  definition: nullable(str()),
+  short_definition: nullable(str()),
+  archetype: nullable(str()),
+  subtype: nullable(str()),
+  domain: nullable(str()),
+  state_kind: nullable(str()),
+  vendler: nullable(str()),
+  wikidata_id: nullable(str()),
+  statistical: { type: 'boolean' },
+  quantitative: { type: 'boolean' },
+  descendant_count: { type: 'integer' },
+  deleted: { type: 'boolean' },
+  merged_into_id: nullable(id),
+  version: { type: 'integer' },
+  external_ids: arrayOf(ref('ExternalId')),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+const claimsGraph = object({
+  id,
+  label: str(),
+  description: nullable(str()),
+  instance_count: { type: 'integer' },
+  created_at: timestamp,
+});
+
+const SCHEMAS: Record<string, JsonSchema> = {
+  ExternalId: externalId,
+  Concept: concept,
+  ConceptDetail: {
+    allOf: [ref('Concept'), object({ parent_ids: arrayOf(id), child_ids: arrayOf(id) })],
+  },
+  Property: object({
+    id,
+    concept_id: id,
+    label: nullable(str()),
+    description: nullable(str()),
+    notes: nullable(str()),
+    main: nullable({ type: 'boolean' }),
+    examples: arrayOf(str()),
+    fillers: { description: 'Filler specification as stored (free-form JSON).' },
+    version: { type: 'integer' },
+    created_at: timestamp,
+    updated_at: timestamp,
+  }),
+  ConceptRelation: object({
+    id,
+    type: { const: 'parent_of' },
+    parent_id: id,
+    child_id: id,
+    created_at: nullable(timestamp),
+    updated_at: nullable(timestamp),
+  }),
+  Sense: object({
+    id,
+    pos: str({ enum: Object.values(part_of_speech) }),
+    definition: str(),
+    archetype: str(),
+    lemmas: arrayOf(str()),
+    confidence: nullable(str()),
+    type_dispute: nullable(str()),
+    causative: nullable({ type: 'boolean' }),
+    inchoative: nullable({ type: 'boolean' }),
+    perspectival: nullable({ type: 'boolean' }),
+    lexical_unit_ids: arrayOf(id),
+    concept_ids: arrayOf(id),
+    created_at: nullable(timestamp),
+    updated_at: nullable(timestamp),
+  }),
+  LexicalUnit: object({
+    id,
+    code: str(),
+    pos: str({ enum: Object.values(part_of_speech) }),
+    lemmas: arrayOf(str()),
+    src_lemmas: arrayOf(str()),
+    gloss: str(),
+    examples: arrayOf(str()),
+    lexfile: str(),
+    is_mwe: { type: 'boolean' },
+    vendler_class: nullable(str()),
+    wikidata_id: nullable(str()),
+    types: arrayOf(str()),
+    sense_ids: arrayOf(id),
+    version: { type: 'integer' },
+    created_at: nullable(timestamp),
+    updated_at: nullable(timestamp),
+  }),
+  LexicalUnitRelation: object({
+    id,
+    type: str({ enum: Object.values(lexical_unit_relation_type) }),
+    source_id: id,
+    target_id: id,
+    weight: nullable({ type: 'number' }),
+    properties: { description: 'Free-form JSON.' },
+  }),
+  Referent: object({
+    id,
+    canonical_label: str(),
+    type_concept_id: id,
+    knowledge_graph_id: nullable(id),
+    merged_into_id: nullable(id),
+    aliases: arrayOf(str()),
+    external_ids: arrayOf(ref('ExternalId')),
+    metadata: { description: 'Free-form JSON.' },
+    created_at: timestamp,
+    updated_at: timestamp,
+  }),
+  ClaimsGraph: claimsGraph,
+  ClaimFiller: object({
+    id,
+    property_id: id,
+    property_label: str(),
+    filler_instance_id: nullable(id),
+    value: nullable(str()),
+    value_type: nullable(str()),
+  }),
+  ClaimMention: object({
+    id,
+    source_text_id: id,
+    start: nullable({ type: 'integer' }),
+    end: nullable({ type: 'integer' }),
+    text: nullable(str()),
+    breadcrumb: nullable(str()),
+    page: nullable({ type: 'integer' }),
+  }),
+  ClaimInstance: object({
+    id,
+    label: str(),
+    concept_id: id,
+    confidence: nullable({ type: 'number' }),
+    referential_status: str(),
+    referent_id: nullable(id),
+    source_text_id: nullable(id),
+    in_graph: { type: 'boolean' },
+    fillers: arrayOf(ref('ClaimFiller')),
+    mentions: arrayOf(ref('ClaimMention')),
+  }),
+  ClaimsGraphDetail: object({
+    graph: ref('ClaimsGraph'),
+    concepts: arrayOf(object({ id, label: str() })),
+    instances: arrayOf(ref('ClaimInstance')),
+    referents: arrayOf(object({
+      id,
+      label: str(),
+      type_concept_id: id,
+      aliases: arrayOf(str()),
+      external_ids: arrayOf(ref('ExternalId')),
+    })),
+    sources: arrayOf(object({ id, uri: nullable(str()), title: nullable(str()) })),
+  }),
+  Error: object({
+    error: object({
+      code: str({ enum: ['bad_request', 'invalid_cursor', 'unauthorized', 'forbidden', 'not_found', 'rate_limited', 'internal_error'] }),
+      message: str(),
+    }),
+  }),
+};
+
+const PAGINATION: QueryParam[] = [
+  {
+    name: 'limit',
+    description: `Page size (default ${DEFAULT_PAGE_SIZE}).`,
+    schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+  },
+  { name: 'cursor', description: '`next_cursor` from the previous page.', schema: str() },
+];
+
+const rateLimitHeaders = {
+  'X-RateLimit-Limit': { description: 'Requests allowed per minute for this key.', schema: { type: 'integer' } },
+  'X-RateLimit-Remaining': { description: 'Requests left in the current window.', schema: { type: 'integer' } },
+  'X-RateLimit-Reset': { description: 'Unix time when the window resets.', schema: { type: 'integer' } },
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } },
+});
+
+function buildOperation(op: Operation): Record<string, unknown> {
+  const parameters = [
+    ...(op.pathId ? [{ name: 'id', in: 'path', required: true, description: op.pathId, schema: id }] : []),
+    ...(op.list ? PAGINATION : []),
+    ...(op.query ?? []),
+  ].map((p) => ('in' in p ? p : { ...p, in: 'query', required: false }));
+
+  const body = op.list
+    ? object({ data: arrayOf(ref(op.schema)), next_cursor: nullable(str()) })
+    : ref(op.schema);
+
+  return {
+    operationId: op.operationId,
+    summary: op.summary,
+    tags: [op.tag],
+    parameters,
+    responses: {
+      200: { description: 'OK', headers: rateLimitHeaders, content: { 'application/json': { schema: body } } },
+      400: errorResponse('Invalid parameter or cursor'),
+      401: errorResponse('Missing, invalid, revoked or expired API key'),
+      ...(op.pathId ? { 404: errorResponse('Not found') } : {}),
+      429: errorResponse('Rate limit exceeded; see Retry-After'),
+    },
+  };
+}
+
+/** The document, with `serverUrl` as the base of every path (e.g. `https://host/api/v1`). */
+export function buildOpenApiDocument(serverUrl: string): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const op of OPERATIONS) {
+    paths[op.path] = { get: buildOperation(op) };
+  }
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Source Explorer read API',
+      version: '1.0.0',
+      description:
+        'Read-only access to concepts, the parent_of DAG, the lexicon and claims graphs. ' +
+        'Lists are ordered by id and paged with `cursor`; pass `next_cursor` until it is null. ' +
+        'Fields may be added within v1 but are never renamed or removed.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    tags: [{ name: 'Concepts' }, { name: 'Lexicon' }, { name: 'Claims' }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'API key as a bearer token.' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+      schemas: SCHEMAS,
+    },
+  };
+}
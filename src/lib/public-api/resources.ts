@@ -0,0 +1,497 @@
+/**
+ * Queries and serializers behind the public /api/v1 routes.
+ *
+ * Every list is ordered by id and paged with an opaque cursor (see
+ * `validation.ts`); filters are plain query parameters. Deleted concepts
+ * and lexical units and merged concepts and referents are left out unless
+ * `include_deleted` / `include_merged` is set, so a default sync mirrors
+ * what the Explorer shows.
+ */
+
+import { Prisma, lexical_unit_relation_type, part_of_speech } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { loadClaimsExport } from '@/lib/claims/export';
+import type {
+  Page,
+  V1ClaimsGraph,
+  V1ClaimsGraphDetail,
+  V1Concept,
+  V1ConceptDetail,
+  V1ConceptRelation,
+  V1LexicalUnit,
+  V1LexicalUnitRelation,
+  V1Property,
+  V1Referent,
+  V1Sense,
+} from './types';
+import {
+  decodeCursor,
+  encodeCursor,
+  parseBooleanFlag,
+  parseId,
+  parseLimit,
+  parseOptionalDate,
+  parseOptionalEnum,
+  parseOptionalId,
+  PublicApiError,
+} from './validation';
+
+const PARTS_OF_SPEECH = Object.values(part_of_speech);
+const LEXICAL_UNIT_RELATION_TYPES = Object.values(lexical_unit_relation_type);
+
+function iso(date: Date | null | undefined): string | null {
+  return date ? date.toISOString() : null;
+}
+
+/** Trim the look-ahead row and build the page envelope. */
+function toPage<R extends { id: bigint | number }, T>(rows: R[], limit: number, serialize: (row: R) => T): Page<T> {
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  return {
+    data: pageRows.map(serialize),
+    next_cursor: hasMore ? encodeCursor(pageRows[pageRows.length - 1].id) : null,
+  };
+}
+
+function notFound(noun: string, id: bigint): PublicApiError {
+  return new PublicApiError(`${noun} ${id.toString()} not found`, 404, 'not_found');
+}
+
+/** Sense ids are 32-bit in the schema. */
+function senseId(id: bigint): number {
+  if (id > 2147483647n) throw new PublicApiError('sense id is out of range');
+  return Number(id);
+}
+
+// ============================================
+// Concepts and properties
+// ============================================
+
+const conceptInclude = {
+  concept_external_ids: { select: { vocabulary: true, external_id: true }, orderBy: { id: 'asc' as const } },
+} satisfies Prisma.conceptsInclude;
+
+type ConceptRow = Prisma.conceptsGetPayload<{ include: typeof conceptInclude }>;
+
+function serializeConcept(row: ConceptRow): V1Concept {
+  return {
+    id: row.id.toString(),
+    code: row.code,
+    label: row.label,
+    definition: row.definition,
+    short_definition: row.short_definition,
+    archetype: row.archetype,
+    subtype: row.subtype,
+    domain: row.domain,
+    state_kind: row.state_kind,
+    vendler: row.vendler,
+    wikidata_id: row.wikidata_id,
+    statistical: row.statistical,
+    quantitative: row.quantitative,
+    descendant_count: row.descendant_count,
+    deleted: row.deleted,
+    merged_into_id: row.merged_into?.toString() ?? null,
+    version: row.version,
+    external_ids: row.concept_external_ids,
+    created_at: row.created_at.toISOString(),
+    updated_at: row.updated_at.toISOString(),
+  };
+}
+
+/** Query: cursor, limit, code, updated_since, include_deleted. */
+export async function listConcepts(params: URLSearchParams): Promise<Page<V1Concept>> {
+  const limit = parseLimit(params.get('limit'));
+  const after = decodeCursor(params.get('cursor'));
+  const updatedSince = parseOptionalDate(params.get('updated_since'), 'updated_since');
+  const code = params.get('code');
+  const rows = await prisma.concepts.findMany({
+    where: {
+      ...(after !== null ? { id: { gt: after } } : {}),
+      ...(parseBooleanFlag(params.get('include_deleted')) ? {} : { deleted: false, merged_into: null }),
+      ...(updatedSince ? { updated_at: { gte: updatedSince } } : {}),
+      ...(code ? { code } : {}),
+    },
+    include: conceptInclude,
+    orderBy: { id: 'asc' },
+    take: limit + 1,
+  });
+  return toPage(rows, limit, serializeConcept);
+}
+
+export async function getConcept(id: string): Promise<V1ConceptDetail> {
+  const conceptId = parseId(id, 'id');
+  const row = await prisma.concepts.findUnique({
+    where: { id: conceptId },
+    include: {
+      ...conceptInclude,
+      concept_relations_concept_relations_child_idToconcepts: {
+        where: { type: 'parent_of' },
+        select: { parent_id: true },
+        orderBy: { parent_id: 'asc' },
+      },
+      concept_relations_concept_relations_parent_idToconcepts: {
+        where: { type: 'parent_of' },
+        select: { child_id: true },
+        orderBy: { child_id: 'asc' },
+      },
+    },
+  });
+  if (!row) throw notFound('Concept', conceptId);
+  return {
+    ...serializeConcept(row),
+    parent_ids: row.concept_relations_concept_relations_child_idToconcepts.map((r) => r.parent_id.toString()),
+    child_ids: row.concept_relations_concept_relations_parent_idToconcepts.map((r) => r.child_id.toString()),
+  };
+}
+
+function serializeProperty(row: Prisma.propertiesGetPayload<object>): V1Property {
+  return {
+    id: row.id.toString(),
+    concept_id: row.concept_id.toString(),
+    label: row.label,
+    description: row.description,
+    notes: row.notes,
+    main: row.main,
+    examples: row.examples,
+    fillers: row.fillers ?? null,
+    version: row.version,
+    created_at: row.created_at.toISOString(),
+    updated_at: row.updated_at.toISOString(),
+  };
+}
+
+/** Query: cursor, limit, concept_id, updated_since. */
+export async function listProperties(params: URLSearchParams, conceptId?: string): Promise<Page<V1Property>> {
+  const limit = parseLimit(params.get('limit'));
+  const after = decodeCursor(params.get('cursor'));
+  const updatedSince = parseOptionalDate(params.get('updated_since'), 'updated_since');
+  const concept = conceptId !== undefined
+    ? parseId(conceptId, 'id')
+    : parseOptionalId(params.get('concept_id'), 'concept_id');
+  if (conceptId !== undefined && concept !== undefined) {
+    const exists = await prisma.concepts.count({ where: { id: concept } });
+    if (exists === 0) throw notFound('Concept', concept);
+  }
+  const rows = await prisma.properties.findMany({
+    where: {
+      ...(after !== null ? { id: { gt: after } } : {}),
+      ...(concept !== undefined ? { concept_id: concept } : {}),
+      ...(updatedSince ? { updated_at: { gte: updatedSince } } : {}),
+    },
+    orderBy: { id: 'asc' },
+    take: limit + 1,
+  });
+  return toPage(rows, limit, serializeProperty);
+}
+
+/** The parent_of DAG as an edge list. Query: cursor, limit, parent_id, child_id, include_deleted. */
+export async function listConceptRelations(params: URLSearchParams): Promise<Page<V1ConceptRelation>> {
+  const limit = parseLimit(params.get('limit'));
+  const after = decodeCursor(params.get('cursor'));
+  const parentId = parseOptionalId(params.get('parent_id'), 'parent_id');
+  const childId = parseOptionalId(params.get('child_id'), 'child_id');
+  const live = { deleted: false, merged_into: null };
+  const rows = await prisma.concept_relations.findMany({
+    where: {
+      type: 'parent_of',
+      ...(after !== null ? { id: { gt: after } } : {}),
+      ...(parentId !== undefined ? { parent_id: parentId } : {}),
+      ...(childId !== undefined ? { child_id: childId } : {}),
+      ...(parseBooleanFlag(params.get('include_deleted'))
+        ? {}
+        : {
+            concepts_concept_relations_parent_idToconcepts: live,
+            concepts_concept_relations_child_idToconcepts: live,
+          }),
+    },
+    orderBy: { id: 'asc' },
+    take: limit + 1,
+  });
+  return toPage(rows, limit, (row) => ({
+    id: row.id.toString(),
+    type: 'parent_of' as const,
+    parent_id: row.parent_id.toString(),
+    child_id: row.child_id.toString(),
+    created_at: iso(row.created_at),
+    updated_at: iso(row.updated_at),
+  }));
+}
+
+// ============================================
+// Senses and lexical units
+// ============================================
+
+const senseInclude = {
+  lexical_unit_senses: { select: { lexical_unit_id: true }, orderBy: { lexical_unit_id: 'asc' as const } },
+  sense_concepts: { select: { concept_id: true }, orderBy: { concept_id: 'asc' as const } },
+} satisfies Prisma.sensesInclude;
+
+function serializeSense(row: Prisma.sensesGetPayload<{ include: typeof senseInclude }>): V1Sense {
+  return {
+    id: row.id.toString(),
+    pos: row.pos,
+    definition: row.definition,
+    archetype: row.archetype,
+    lemmas: row.lemmas,
+    confidence: row.confidence,
+    type_dispute: row.type_dispute,
+    causative: row.causative,
+    inchoative: row.inchoative,
+    perspectival: row.perspectival,
+    lexical_unit_ids: row.lexical_unit_senses.map((s) => s.lexical_unit_id.toString()),
+    concept_ids: row.sense_concepts.map((s) => s.concept_id.toString()),
+    created_at: iso(row.created_at),
+    updated_at: iso(row.updated_at),
+  };
+}
+
+/** Query: cursor, limit, pos, concept_id, lexical_unit_id. */
+export async function listSenses(params: URLSearchParams): Promise<Page<V1Sense>> {
+  const limit = parseLimit(params.get('limit'));
+  const after = decodeCursor(params.get('cursor'));
+  const pos = parseOptionalEnum(params.get('pos'), 'pos', PARTS_OF_SPEECH);
+  const conceptId = parseOptionalId(params.get('concept_id'), 'concept_id');
+  const lexicalUnitId = parseOptionalId(params.get('lexical_unit_id'), 'lexical_unit_id');
+  const rows = await prisma.senses.findMany({
+    where: {
+      ...(after !== null ? { id: { gt: senseId(after) } } : {}),
+      ...(pos ? { pos } : {}),
+      ...(conceptId !== undefined ? { sense_concepts: { some: { concept_id: conceptId } } } : {}),
+      ...(lexicalUnitId !== undefined ? { lexical_unit_senses: { some: { lexical_unit_id: lexicalUnitId } } } : {}),
+    },
+    include: senseInclude,
+    orderBy: { id: 'asc' },
+    take: limit + 1,
+  });
+  return toPage(rows, limit, serializeSense);
+}
+
+export async function getSense(id: string): Promise<V1Sense> {
+  const parsed = parseId(id, 'id');
+  const row = await prisma.senses.findUnique({ where: { id: senseId(parsed) }, include: senseInclude });
+  if (!row) throw notFound('Sense', parsed);
+  return serializeSense(row);
+}
+
+const lexicalUnitSelect = {
+  id: true,
+  code: true,
+  pos: true,
+  lemmas: true,
+  src_lemmas: true,
+  gloss: true,
+  examples: true,
+  lexfile: true,
+  is_mwe: true,
+  vendler_class: true,
+  wikidata_id: true,
+  version: true,
+  created_at: true,
+  updated_at: true,
+  lexical_unit_types: { select: { type: true }, orderBy: { type: 'asc' as const } },
+  lexical_unit_senses: { select: { sense_id: true }, orderBy: { sense_id: 'asc' as const } },
+} satisfies Prisma.lexical_unitsSelect;
+
+function serializeLexicalUnit(row: Prisma.lexical_unitsGetPayload<{ select: typeof lexicalUnitSelect }>): V1LexicalUnit {
+  return {
+    id: row.id.toString(),
+    code: row.code,
+    pos: row.pos,
+    lemmas: row.lemmas,
+    src_lemmas: row.src_lemmas,
+    gloss: row.gloss,
+    examples: row.examples,
+    lexfile: row.lexfile,
+    is_mwe: row.is_mwe ?? false,
+    vendler_class: row.vendler_class,
+    wikidata_id: row.wikidata_id,
+    types: row.lexical_unit_types.map((t) => t.type),
+    sense_ids: row.lexical_unit_senses.map((s) => s.sense_id.toString()),
+    version: row.version ?? 1,
+    created_at: iso(row.created_at),
+    updated_at: iso(row.updated_at),
+  };
+}
+
+/** Query: cursor, limit, pos, lemma, updated_since, include_deleted. */
+export async function listLexicalUnits(params: URLSearchParams): Promise<Page<V1LexicalUnit>> {
+  const limit = parseLimit(params.get('limit'));
+  const after = decodeCursor(params.get('cursor'));
+  const pos = parseOptionalEnum(params.get('pos'), 'pos', PARTS_OF_SPEECH);
+  const updatedSince = parseOptionalDate(params.get('updated_since'), 'updated_since');
+  const lemma = params.get('lemma');
+  const rows = await prisma.lexical_units.findMany({
+    where: {
+      ...(after !== null ? { id: { gt: after } } : {}),
+      ...(parseBooleanFlag(params.get('include_deleted')) ? {} : { deleted: false }),
+      ...(pos ? { pos } : {}),
+      ...(lemma ? { lemmas: { has: lemma } } : {}),
+      ...(updatedSince ? { updated_at: { gte: updatedSince } } : {}),
+    },
+    select: lexicalUnitSelect,
+    orderBy: { id: 'asc' },
+    take: limit + 1,
+  });
+  return toPage(rows, limit, serializeLexicalUnit);
+}
+
+export async function getLexicalUnit(id: string): Promise<V1LexicalUnit> {
+  const parsed = parseId(id, 'id');
+  const row = await prisma.lexical_units.findUnique({ where: { id: parsed }, select: lexicalUnitSelect });
+  if (!row) throw notFound('Lexical unit', parsed);
+  return serializeLexicalUnit(row);
+}
+
+/** Query: cursor, limit, type, source_id, target_id. */
+export async function listLexicalUnitRelations(params: URLSearchParams): Promise<Page<V1LexicalUnitRelation>> {
+  const limit = parseLimit(params.get('limit'));
+  const after = decodeCursor(params.get('cursor'));
+  const type = parseOptionalEnum(params.get('type'), 'type', LEXICAL_UNIT_RELATION_TYPES);
+  const sourceId = parseOptionalId(params.get('source_id'), 'source_id');
+  const targetId = parseOptionalId(params.get('target_id'), 'target_id');
+  const rows = await prisma.lexical_unit_relations.findMany({
+    where: {
+      ...(after !== null ? { id: { gt: after } } : {}),
+      ...(type ? { type } : {}),
+      ...(sourceId !== undefined ? { source_id: sourceId } : {}),
+      ...(targetId !== undefined ? { target_id: targetId } : {}),
+    },
+    orderBy: { id: 'asc' },
+    take: limit + 1,
+  });
+  return toPage(rows, limit, (row) => ({
+    id: row.id.toString(),
+    type: row.type,
+    source_id: row.source_id.toString(),
+    target_id: row.target_id.toString(),
+    weight: row.weight,
+    properties: row.properties ?? null,
+  }));
+}
+
+// ============================================
+// Referents and claims graphs
+// ============================================
+
+const referentInclude = {
+  referent_aliases: { select: { alias: true }, orderBy: { id: 'asc' as const } },
+  referent_external_ids: { select: { vocabulary: true, external_id: true }, orderBy: { id: 'asc' as const } },
+} satisfies Prisma.referentsInclude;
+
+function serializeReferent(row: Prisma.referentsGetPayload<{ include: typeof referentInclude }>): V1Referent {
+  return {
+    id: row.id.toString(),
+    canonical_label: row.canonical_label,
+    type_concept_id: row.type_concept_id.toString(),
+    knowledge_graph_id: row.knowledge_graph_id?.toString() ?? null,
+    merged_into_id: row.merged_into_id?.toString() ?? null,
+    aliases: row.referent_aliases.map((a) => a.alias),
+    external_ids: row.referent_external_ids,
+    metadata: row.metadata,
+    created_at: row.created_at.toISOString(),
+    updated_at: row.updated_at.toISOString(),
+  };
+}
+
+/** Query: cursor, limit, type_concept_id, knowledge_graph_id, updated_since, include_merged. */
+export async function listReferents(params: URLSearchParams): Promise<Page<V1Referent>> {
+  const limit = parseLimit(params.get('limit'));
+  const after = decodeCursor(params.get('cursor'));
+  const typeConceptId = parseOptionalId(params.get('type_concept_id'), 'type_concept_id');
+  const graphId = parseOptionalId(params.get('knowledge_graph_id'), 'knowledge_graph_id');
+  const updatedSince = parseOptionalDate(params.get('updated_since'), 'updated_since');
+  const rows = await prisma.referents.findMany({
+    where: {
+      ...(after !== null ? { id: { gt: after } } : {}),
+      ...(parseBooleanFlag(params.get('include_merged')) ? {} : { merged_into_id: null }),
+      ...(typeConceptId !== undefined ? { type_concept_id: typeConceptId } : {}),
+      ...(graphId !== undefined ? { knowledge_graph_id: graphId } : {}),
+      ...(updatedSince ? { updated_at: { gte: updatedSince } } : {}),
+    },
+    include: referentInclude,
+    orderBy: { id: 'asc' },
+    take: limit + 1,
+  });
+  return toPage(rows, limit, serializeReferent);
+}
+
+export async function getReferent(id: string): Promise<V1Referent> {
+  const parsed = parseId(id, 'id');
+  const row = await prisma.referents.findUnique({ where: { id: parsed }, include: referentInclude });
+  if (!row) throw notFound('Referent', parsed);
+  return serializeReferent(row);
+}
+
+const graphInclude = { _count: { select: { instances: true } } } satisfies Prisma.knowledge_graphsInclude;
+
+function serializeClaimsGraph(row: Prisma.knowledge_graphsGetPayload<{ include: typeof graphInclude }>): V1ClaimsGraph {
+  return {
+    id: row.id.toString(),
+    label: row.label,
+    description: row.description,
+    instance_count: row._count.instances,
+    created_at: row.created_at.toISOString(),
+  };
+}
+
+/** Query: cursor, limit. */
+export async function listClaimsGraphs(params: URLSearchParams): Promise<Page<V1ClaimsGraph>> {
+  const limit = parseLimit(params.get('limit'));
+  const after = decodeCursor(params.get('cursor'));
+  const rows = await prisma.knowledge_graphs.findMany({
+    where: after !== null ? { id: { gt: after } } : {},
+    include: graphInclude,
+    orderBy: { id: 'asc' },
+    take: limit + 1,
+  });
+  return toPage(rows, limit, serializeClaimsGraph);
+}
+
+/** The whole graph, from the same snapshot the claims exporters use. */
+export async function getClaimsGraph(id: string): Promise<V1ClaimsGraphDetail> {
+  const graphId = parseId(id, 'id');
+  const [row, data] = await Promise.all([
+    prisma.knowledge_graphs.findUnique({ where: { id: graphId }, include: graphInclude }),
+    loadClaimsExport(graphId),
+  ]);
+  if (!row || !data) throw notFound('Claims graph', graphId);
+  return {
+    graph: serializeClaimsGraph(row),
+    concepts: data.concepts,
+    instances: data.instances.map((i) => ({
+      id: i.id,
+      label: i.label,
+      concept_id: i.conceptId,
+      confidence: i.confidence,
+      referential_status: i.referentialStatus,
+      referent_id: i.referentId,
+      source_text_id: i.sourceTextId,
+      in_graph: i.inGraph,
+      fillers: i.fillers.map((f) => ({
+        id: f.id,
+        property_id: f.propertyId,
+        property_label: f.propertyLabel,
+        filler_instance_id: f.fillerInstanceId,
+        value: f.value,
+        value_type: f.valueType,
+      })),
+      mentions: i.mentions.map((m) => ({
+        id: m.id,
+        source_text_id: m.sourceTextId,
+        start: m.start,
+        end: m.end,
+        text: m.text,
+        breadcrumb: m.breadcrumb,
+        page: m.page,
+      })),
+    })),
+    referents: data.referents.map((r) => ({
+      id: r.id,
+      label: r.label,
+      type_concept_id: r.typeConceptId,
+      aliases: r.aliases,
+      external_ids: r.externalIds.map((e) => ({ vocabulary: e.vocabulary, external_id: e.externalId })),
+    })),
+    sources: data.sources,
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Response shapes of the public /api/v1 read API.
+ *
+ * These are a published contract: fields may be added, but existing ones
+ * keep their name, type and meaning within v1. Ids are strings (they are
+ * bigints in Postgres), timestamps are ISO 8601, and absent values are
+ * `null` rather than omitted. `openapi.ts` documents the same shapes.
+ */
+
+export interface Page<T> {
+  data: T[];
+  /** Pass as `cursor` to fetch the next page; null on the last page. */
+  next_cursor: string | null;
+}
+
+export interface ExternalId {
+  vocabulary: string;
+  external_id: string;
+}
+
+export interface V1Concept {
+  id: string;
+  code: string | null;
+  label: string;
+  definition: string | null;
+  short_definition: string | null;
+  archetype: string | null;
+  subtype: string | null;
+  domain: string | null;
+  state_kind: string | null;
+  vendler: string | null;
+  wikidata_id: string | null;
+  statistical: boolean;
+  quantitative: boolean;
+  descendant_count: number;
+  deleted: boolean;
+  /** Set when this concept was merged into another. */
+  merged_into_id: string | null;
+  version: number;
+  external_ids: ExternalId[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface V1ConceptDetail extends V1Concept {
+  /** Direct parents in the parent_of DAG. */
+  parent_ids: string[];
+  /** Direct children in the parent_of DAG. */
+  child_ids: string[];
+}
+
+export interface V1Property {
+  id: string;
+  concept_id: string;
+  label: string | null;
+  description: string | null;
+  notes: string | null;
+  main: boolean | null;
+  examples: string[];
+  /** Filler specification as stored (free-form JSON). */
+  fillers: unknown;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/** One parent_of edge: `parent_id` is the broader concept. */
+export interface V1ConceptRelation {
+  id: string;
+  type: 'parent_of';
+  parent_id: string;
+  child_id: string;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface V1Sense {
+  id: string;
+  pos: string;
+  definition: string;
+  archetype: string;
+  lemmas: string[];
+  confidence: string | null;
+  type_dispute: string | null;
+  causative: boolean | null;
+  inchoative: boolean | null;
+  perspectival: boolean | null;
+  lexical_unit_ids: string[];
+  concept_ids: string[];
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface V1LexicalUnit {
+  id: string;
+  code: string;
+  pos: string;
+  lemmas: string[];
+  src_lemmas: string[];
+  gloss: string;
+  examples: string[];
+  lexfile: string;
+  is_mwe: boolean;
+  vendler_class: string | null;
+  wikidata_id: string | null;
+  types: string[];
+  sense_ids: string[];
+  version: number;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface V1LexicalUnitRelation {
+  id: string;
+  type: string;
+  source_id: string;
+  target_id: string;
+  weight: number | null;
+  properties: unknown;
+}
+
+export interface V1Referent {
+  id: string;
+  canonical_label: string;
+  type_concept_id: string;
+  knowledge_graph_id: string | null;
+  merged_into_id: string | null;
+  aliases: string[];
+  external_ids: ExternalId[];
+  metadata: unknown;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface V1ClaimsGraph {
+  id: string;
+  label: string;
+  description: string | null;
+  instance_count: number;
+  created_at: string;
+}
+
+export interface V1ClaimFiller {
+  id: string;
+  property_id: string;
+  property_label: string;
+  /** Set for instance-valued fillers. */
+  filler_instance_id: string | null;
+  /** Set for primitive fillers. */
+  value: string | null;
+  value_type: string | null;
+}
+
+export interface V1ClaimMention {
+  id: string;
+  source_text_id: string;
+  /** Character range in the source's canonical text; null when it no longer resolves. */
+  start: number | null;
+  end: number | null;
+  text: string | null;
+  breadcrumb: string | null;
+  page: number | null;
+}
+
+export interface V1ClaimInstance {
+  id: string;
+  label: string;
+  concept_id: string;
+  confidence: number | null;
+  referential_status: string;
+  referent_id: string | null;
+  source_text_id: string | null;
+  /** False for filler targets that live in another graph (no fillers or mentions). */
+  in_graph: boolean;
+  fillers: V1ClaimFiller[];
+  mentions: V1ClaimMention[];
+}
+
+/** A whole claims graph: its instances with fillers and mentions, plus what they reference. */
+export interface V1ClaimsGraphDetail {
+  graph: V1ClaimsGraph;
+  concepts: Array<{ id: string; label: string }>;
+  instances: V1ClaimInstance[];
+  referents: Array<{
+    id: string;
+    label: string;
+    type_concept_id: string;
+    aliases: string[];
+    external_ids: ExternalId[];
+  }>;
+  sources: Array<{ id: string; uri: string | null; title: string | null }>;
+}
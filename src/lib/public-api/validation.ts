@@ -0,0 +1,85 @@
+/**
+ * Errors, ids, cursors and limits for the public /api/v1 routes.
+ */
+
+export type PublicApiErrorCode =
+  | 'bad_request'
+  | 'invalid_cursor'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'rate_limited'
+  | 'internal_error';
+
+/** Rendered as `{ error: { code, message } }`; `code` is part of the stable contract. */
+export class PublicApiError extends Error {
+  constructor(
+    message: string,
+    public statusCode = 400,
+    public code: PublicApiErrorCode = 'bad_request',
+  ) {
+    super(message);
+    this.name = 'PublicApiError';
+  }
+}
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+export function parseLimit(value: string | null): number {
+  if (value === null || value === '') return DEFAULT_PAGE_SIZE;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new PublicApiError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  return limit;
+}
+
+/**
+ * Cursors are opaque to clients: base64url of `{"after":"<id>"}`. Lists
+ * are ordered by id, so a cursor stays valid while rows are added.
+ */
+export function encodeCursor(lastId: bigint | number): string {
+  return Buffer.from(JSON.stringify({ after: lastId.toString() })).toString('base64url');
+}
+
+export function decodeCursor(value: string | null): bigint | null {
+  if (value === null || value === '') return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as { after?: unknown };
+    if (typeof parsed.after === 'string' && /^\d+$/.test(parsed.after)) return BigInt(parsed.after);
+  } catch {
+    // fall through
+  }
+  throw new PublicApiError('cursor is not valid; pass next_cursor from a previous page', 400, 'invalid_cursor');
+}
+
+export function parseId(value: string | null, field: string): bigint {
+  if (value === null || !/^\d+$/.test(value)) {
+    throw new PublicApiError(`${field} must be a numeric id`);
+  }
+  return BigInt(value);
+}
+
+export function parseOptionalId(value: string | null, field: string): bigint | undefined {
+  return value === null || value === '' ? undefined : parseId(value, field);
+}
+
+export function parseOptionalDate(value: string | null, field: string): Date | undefined {
+  if (value === null || value === '') return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new PublicApiError(`${field} must be an ISO timestamp`);
+  return date;
+}
+
+export function parseOptionalEnum<T extends string>(value: string | null, field: string, allowed: readonly T[]): T | undefined {
+  if (value === null || value === '') return undefined;
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new PublicApiError(`${field} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+export function parseBooleanFlag(value: string | null): boolean {
+  return value === 'true' || value === '1';
+}
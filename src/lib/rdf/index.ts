@@ -0,0 +1,3 @@
+export * from './types';
+export { createTurtleFormatter, escapeTurtleIri, escapeTurtleString } from './turtle-writer';
+export { parseTurtle, TurtleParseError, type ParsedTurtle } from './turtle-parser';
@@ -0,0 +1,326 @@
+/**
+ * Turtle (RDF 1.1) parser covering what Protégé and rdflib emit:
+ * `@prefix`/`@base` and their SPARQL forms, IRIs, prefixed names, `a`,
+ * blank node labels and `[ … ]` property lists, collections, `;`/`,`
+ * lists, short and long string literals with language tags or datatypes,
+ * and numeric/boolean shorthands. Relative IRIs are resolved against the
+ * current base with the URL API.
+ */
+
+import { RDF_FIRST, RDF_NIL, RDF_PREFIXES, RDF_REST, RDF_TYPE, type RdfSubject, type RdfTerm, type RdfTriple } from './types';
+
+export class TurtleParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(`Turtle parse error on line ${line}: ${message}`);
+    this.name = 'TurtleParseError';
+  }
+}
+
+export interface ParsedTurtle {
+  triples: RdfTriple[];
+  prefixes: Record<string, string>;
+  base: string | null;
+}
+
+const XSD = RDF_PREFIXES.xsd;
+const LANGUAGE_TAG = /@([A-Za-z]+(?:-[A-Za-z0-9]+)*)/y;
+const NUMBER = /[+-]?(\d+\.\d*[eE][+-]?\d+|\.?\d+[eE][+-]?\d+|\d*\.\d+|\d+)/y;
+
+export function parseTurtle(text: string, options: { baseIri?: string } = {}): ParsedTurtle {
+  let pos = 0;
+  let base: string | null = options.baseIri ?? null;
+  let bnodeCounter = 0;
+  const prefixes: Record<string, string> = {};
+  const triples: RdfTriple[] = [];
+
+  const fail = (message: string): never => {
+    throw new TurtleParseError(message, text.slice(0, pos).split('\n').length);
+  };
+
+  const skip = () => {
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === '#') {
+        while (pos < text.length && text[pos] !== '\n') pos++;
+      } else if (/\s/.test(ch)) {
+        pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const peek = (s: string) => text.startsWith(s, pos);
+
+  const expect = (s: string) => {
+    skip();
+    if (!peek(s)) fail(`expected '${s}'`);
+    pos += s.length;
+  };
+
+  const keyword = (word: string) => {
+    const match = text.slice(pos, pos + word.length);
+    return match.toLowerCase() === word.toLowerCase() && !/[A-Za-z0-9_:-]/.test(text[pos + word.length] ?? '');
+  };
+
+  const resolve = (iri: string): string => {
+    if (/^[A-Za-z][A-Za-z0-9+.-]*:/.test(iri) || !base) return iri;
+    try {
+      return new URL(iri, base).toString();
+    } catch {
+      return iri;
+    }
+  };
+
+  const unescape = (raw: string, iri: boolean): string =>
+    raw.replace(/\\(u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{8}|.)/g, (_, seq: string) => {
+      if (seq[0] === 'u' || seq[0] === 'U') return String.fromCodePoint(parseInt(seq.slice(1), 16));
+      if (iri) return fail('invalid escape in IRI');
+      const map: Record<string, string> = { t: '\t', b: '\b', n: '\n', r: '\r', f: '\f', '"': '"', "'": "'", '\\': '\\' };
+      return map[seq] ?? fail(`invalid escape '\\${seq}'`);
+    });
+
+  const readIriRef = (): string => {
+    const end = text.indexOf('>', pos + 1);
+    if (end < 0) fail('unterminated IRI');
+    const raw = text.slice(pos + 1, end);
+    pos = end + 1;
+    return resolve(unescape(raw, true));
+  };
+
+  const PN_CHARS = /[A-Za-z0-9_\-.·À-￿]/;
+
+  const readPrefixedName = (): string => {
+    const start = pos;
+    while (pos < text.length && text[pos] !== ':' && PN_CHARS.test(text[pos])) pos++;
+    if (text[pos] !== ':') fail('expected prefixed name');
+    const prefix = text.slice(start, pos);
+    pos++;
+    let local = '';
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === '\\' && pos + 1 < text.length) {
+        local += text[pos + 1];
+        pos += 2;
+      } else if (ch === '%' && /^[0-9A-Fa-f]{2}$/.test(text.slice(pos + 1, pos + 3))) {
+        local += text.slice(pos, pos + 3);
+        pos += 3;
+      } else if (PN_CHARS.test(ch) || ch === ':') {
+        local += ch;
+        pos++;
+      } else {
+        break;
+      }
+    }
+    // A trailing '.' ends the statement rather than the name.
+    while (local.endsWith('.')) {
+      local = local.slice(0, -1);
+      pos--;
+    }
+    const namespace = prefixes[prefix];
+    if (namespace === undefined) fail(`undeclared prefix '${prefix}:'`);
+    return namespace + local;
+  };
+
+  const readIri = (): string => {
+    skip();
+    return text[pos] === '<' ? readIriRef() : readPrefixedName();
+  };
+
+  const readString = (): string => {
+    const quote = text[pos];
+    const long = peek(quote.repeat(3));
+    const delimiter = long ? quote.repeat(3) : quote;
+    pos += delimiter.length;
+    let raw = '';
+    while (true) {
+      if (pos >= text.length) fail('unterminated string');
+      const ch = text[pos];
+      if (ch === '\\') {
+        raw += text.slice(pos, pos + 2);
+        pos += 2;
+        continue;
+      }
+      if (peek(delimiter)) {
+        pos += delimiter.length;
+        break;
+      }
+      if (!long && (ch === '\n' || ch === '\r')) fail('newline in short string');
+      raw += ch;
+      pos++;
+    }
+    return unescape(raw, false);
+  };
+
+  const readLiteral = (): RdfTerm => {
+    const value = readString();
+    if (text[pos] === '@') {
+      LANGUAGE_TAG.lastIndex = pos;
+      const match = LANGUAGE_TAG.exec(text);
+      if (!match) fail('invalid language tag');
+      pos += match![0].length;
+      return { kind: 'literal', value, language: match![1].toLowerCase() };
+    }
+    if (peek('^^')) {
+      pos += 2;
+      return { kind: 'literal', value, datatype: readIri() };
+    }
+    return { kind: 'literal', value };
+  };
+
+  const newBnode = (): RdfSubject => ({ kind: 'bnode', value: `b${++bnodeCounter}` });
+  const labelledBnodes = new Map<string, RdfSubject>();
+
+  const readBnodeLabel = (): RdfSubject => {
+    pos += 2;
+    const start = pos;
+    while (pos < text.length && PN_CHARS.test(text[pos])) pos++;
+    while (text[pos - 1] === '.' && pos > start) pos--;
+    const label = text.slice(start, pos);
+    const existing = labelledBnodes.get(label);
+    if (existing) return existing;
+    const node = newBnode();
+    labelledBnodes.set(label, node);
+    return node;
+  };
+
+  const readCollection = (): RdfSubject | RdfTerm => {
+    pos++;
+    const items: RdfTerm[] = [];
+    skip();
+    while (!peek(')')) {
+      if (pos >= text.length) fail('unterminated collection');
+      items.push(readObject());
+      skip();
+    }
+    pos++;
+    if (items.length === 0) return { kind: 'iri', value: RDF_NIL };
+    const head = newBnode();
+    let current = head;
+    items.forEach((item, index) => {
+      triples.push({ subject: current, predicate: RDF_FIRST, object: item });
+      if (index === items.length - 1) {
+        triples.push({ subject: current, predicate: RDF_REST, object: { kind: 'iri', value: RDF_NIL } });
+      } else {
+        const next = newBnode();
+        triples.push({ subject: current, predicate: RDF_REST, object: next });
+        current = next;
+      }
+    });
+    return head;
+  };
+
+  const readBlankNodePropertyList = (): RdfSubject => {
+    pos++;
+    const node = newBnode();
+    skip();
+    if (!peek(']')) readPredicateObjectList(node);
+    expect(']');
+    return node;
+  };
+
+  function readObject(): RdfTerm {
+    skip();
+    const ch = text[pos];
+    if (ch === '<') return { kind: 'iri', value: readIriRef() };
+    if (ch === '"' || ch === "'") return readLiteral();
+    if (ch === '[') return readBlankNodePropertyList();
+    if (ch === '(') return readCollection();
+    if (peek('_:')) return readBnodeLabel();
+    NUMBER.lastIndex = pos;
+    const number = NUMBER.exec(text);
+    if (number) {
+      pos += number[0].length;
+      const lexical = number[0];
+      const datatype = /[eE]/.test(lexical) ? 'double' : lexical.includes('.') ? 'decimal' : 'integer';
+      return { kind: 'literal', value: lexical, datatype: `${XSD}${datatype}` };
+    }
+    if (keyword('true') || keyword('false')) {
+      const value = text.slice(pos, pos + (keyword('true') ? 4 : 5));
+      pos += value.length;
+      return { kind: 'literal', value, datatype: `${XSD}boolean` };
+    }
+    return { kind: 'iri', value: readPrefixedName() };
+  }
+
+  function readPredicateObjectList(subject: RdfSubject) {
+    while (true) {
+      skip();
+      let predicate: string;
+      if (text[pos] === 'a' && /[\s<"'[(_]/.test(text[pos + 1] ?? '')) {
+        pos++;
+        predicate = RDF_TYPE;
+      } else {
+        predicate = readIri();
+      }
+      while (true) {
+        triples.push({ subject, predicate, object: readObject() });
+        skip();
+        if (text[pos] !== ',') break;
+        pos++;
+      }
+      skip();
+      if (text[pos] !== ';') return;
+      while (text[pos] === ';') {
+        pos++;
+        skip();
+      }
+      if (text[pos] === '.' || text[pos] === ']' || pos >= text.length) return;
+    }
+  }
+
+  const readDirective = (): boolean => {
+    const sparql = !peek('@');
+    if (!sparql) pos++;
+    if (keyword('prefix')) {
+      pos += 6;
+      skip();
+      const start = pos;
+      while (pos < text.length && text[pos] !== ':') pos++;
+      const prefix = text.slice(start, pos).trim();
+      pos++;
+      skip();
+      if (text[pos] !== '<') fail('expected namespace IRI');
+      prefixes[prefix] = readIriRef();
+    } else if (keyword('base')) {
+      pos += 4;
+      skip();
+      if (text[pos] !== '<') fail('expected base IRI');
+      base = readIriRef();
+    } else {
+      if (!sparql) fail('unknown directive');
+      return false;
+    }
+    if (!sparql) expect('.');
+    return true;
+  };
+
+  while (true) {
+    skip();
+    if (pos >= text.length) break;
+    if ((text[pos] === '@' || keyword('prefix') || keyword('base')) && readDirective()) continue;
+
+    let subject: RdfSubject;
+    const ch = text[pos];
+    if (ch === '[') {
+      subject = readBlankNodePropertyList();
+      skip();
+      if (text[pos] === '.') {
+        pos++;
+        continue;
+      }
+    } else if (ch === '(') {
+      const head = readCollection();
+      if (head.kind === 'literal') fail('literal subject');
+      subject = head as RdfSubject;
+    } else if (peek('_:')) {
+      subject = readBnodeLabel();
+    } else {
+      subject = { kind: 'iri', value: readIri() };
+    }
+    readPredicateObjectList(subject);
+    expect('.');
+  }
+
+  return { triples, prefixes, base };
+}
@@ -0,0 +1,77 @@
+import { RDF_TYPE, type RdfTerm, type RdfTriple } from './types';
+
+export function escapeTurtleString(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+export function escapeTurtleIri(value: string): string {
+  let out = '';
+  for (const ch of value) {
+    const code = ch.charCodeAt(0);
+    out += code <= 0x20 || '<>"{}|^`\\'.includes(ch)
+      ? `\\u${code.toString(16).toUpperCase().padStart(4, '0')}`
+      : ch;
+  }
+  return out;
+}
+
+/**
+ * Term formatting against a fixed prefix table. IRIs whose local part
+ * isn't a safe PN_LOCAL are written in full.
+ */
+export function createTurtleFormatter(prefixes: Array<[string, string]>) {
+  const compact = (iri: string): string => {
+    if (iri === RDF_TYPE) return 'a';
+    for (const [prefix, namespace] of prefixes) {
+      if (!iri.startsWith(namespace)) continue;
+      const local = iri.slice(namespace.length);
+      if (/^[A-Za-z0-9_]([A-Za-z0-9_-]*)$/.test(local)) return `${prefix}:${local}`;
+    }
+    return `<${escapeTurtleIri(iri)}>`;
+  };
+
+  const term = (t: RdfTerm): string => {
+    if (t.kind === 'iri') return compact(t.value);
+    if (t.kind === 'bnode') return `_:${t.value}`;
+    const literal = `"${escapeTurtleString(t.value)}"`;
+    if (t.language) return `${literal}@${t.language}`;
+    return t.datatype ? `${literal}^^${compact(t.datatype)}` : literal;
+  };
+
+  const header = (): string =>
+    prefixes.map(([prefix, namespace]) => `@prefix ${prefix}: <${escapeTurtleIri(namespace)}> .`).join('\n') + '\n\n';
+
+  /** One subject block; triples must share a subject. */
+  const block = (triples: RdfTriple[]): string => {
+    if (triples.length === 0) return '';
+    const byPredicate = new Map<string, string[]>();
+    for (const t of triples) {
+      const list = byPredicate.get(t.predicate) ?? [];
+      list.push(term(t.object));
+      byPredicate.set(t.predicate, list);
+    }
+    const lines = Array.from(byPredicate, ([predicate, objects]) => `    ${compact(predicate)} ${objects.join(', ')}`);
+    return `${term(triples[0].subject)}\n${lines.join(' ;\n')} .\n\n`;
+  };
+
+  /** Group triples by subject (first-seen order) and write each block. */
+  const blocks = (triples: RdfTriple[]): string => {
+    const bySubject = new Map<string, RdfTriple[]>();
+    for (const t of triples) {
+      const key = `${t.subject.kind}:${t.subject.value}`;
+      const list = bySubject.get(key) ?? [];
+      list.push(t);
+      bySubject.set(key, list);
+    }
+    let out = '';
+    for (const group of bySubject.values()) out += block(group);
+    return out;
+  };
+
+  return { compact, term, header, block, blocks };
+}
@@ -0,0 +1,28 @@
+export const RDF_PREFIXES = {
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+  owl: 'http://www.w3.org/2002/07/owl#',
+  xsd: 'http://www.w3.org/2001/XMLSchema#',
+  skos: 'http://www.w3.org/2004/02/skos/core#',
+  dcterms: 'http://purl.org/dc/terms/',
+  prov: 'http://www.w3.org/ns/prov#',
+  oa: 'http://www.w3.org/ns/oa#',
+} as const;
+
+export const RDF_TYPE = `${RDF_PREFIXES.rdf}type`;
+export const RDF_FIRST = `${RDF_PREFIXES.rdf}first`;
+export const RDF_REST = `${RDF_PREFIXES.rdf}rest`;
+export const RDF_NIL = `${RDF_PREFIXES.rdf}nil`;
+
+export type RdfTerm =
+  | { kind: 'iri'; value: string }
+  | { kind: 'bnode'; value: string }
+  | { kind: 'literal'; value: string; datatype?: string; language?: string };
+
+export type RdfSubject = RdfTerm & { kind: 'iri' | 'bnode' };
+
+export interface RdfTriple {
+  subject: RdfSubject;
+  predicate: string;
+  object: RdfTerm;
+}
@@ -0,0 +1,629 @@
+/**
+ * Referent merges through the changeset workflow.
+ *
+ * Staging writes a pending `merge` (or `create`) changeset on
+ * `entity_type='referent'`; a reviewer commits it from Pending Changes,
+ * which lands in `commitReferentMergeInTx` / `commitReferentCreateInTx`.
+ *
+ * Contract for `merge` on `referent`:
+ *
+ *   - `entity_id` is the LOSER referent, or the winner itself when the
+ *     merge only attaches unresolved instances.
+ *   - `before_snapshot.__merge_child_id` is the WINNER referent id.
+ *   - `before_snapshot.__merge_context` carries `type_concept_id` and the
+ *     labels shown in review (drift check: both referents must still have
+ *     that type and be unmerged).
+ *   - `before_snapshot.__merge_payload.instance_ids` are unresolved
+ *     instances to attach to the winner.
+ *
+ * Merges are soft: the loser keeps its row with `merged_into_id` set, and
+ * the audit_log row records every moved row so a staged un-merge (see
+ * `commitReferentUnmergeInTx`) can put them back.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createChangeset } from '@/lib/version-control/create';
+import { setRowHistoryContext } from '@/lib/version-control/rowHistoryContext';
+import type { ChangesetWithFieldChanges, CommitResult } from '@/lib/version-control/types';
+import { normalizeReferentLabel } from './normalize';
+import type {
+  ReferentMergeRevertResult,
+  StageReferentFromInstancesInput,
+  StageReferentMergeInput,
+} from './types';
+
+/** Invalid merge request (surfaced as 400 by the routes). */
+export class ReferentResolutionError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'ReferentResolutionError';
+  }
+}
+
+/** Rows moved by a committed merge; stored in the audit_log `new_value`. */
+interface ReferentMergeRecord {
+  merged_into: string;
+  loser_id: string | null;
+  moved_instance_ids: string[];
+  attached_instance_ids: string[];
+  moved_alias_ids: string[];
+  added_alias_ids: string[];
+  moved_external_id_ids: string[];
+  rechained_referent_ids: string[];
+}
+
+function toBigIntOrNull(value: unknown): bigint | null {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value);
+  if (typeof value === 'string' && /^\d+$/.test(value)) return BigInt(value);
+  return null;
+}
+
+function toBigIntList(value: unknown): bigint[] {
+  if (!Array.isArray(value)) return [];
+  return value.map(toBigIntOrNull).filter((v): v is bigint => v !== null);
+}
+
+async function assertAttachableInstances(
+  instanceIds: bigint[],
+  typeConceptId: bigint,
+): Promise<void> {
+  if (instanceIds.length === 0) return;
+  const rows = await prisma.instances.findMany({
+    where: { id: { in: instanceIds } },
+    select: { id: true, concept_id: true, referent_id: true },
+  });
+  if (rows.length !== instanceIds.length) {
+    throw new ReferentResolutionError('One or more instances do not exist');
+  }
+  for (const row of rows) {
+    if (row.referent_id !== null) {
+      throw new ReferentResolutionError(`Instance ${row.id} is already resolved to referent ${row.referent_id}`);
+    }
+    if (row.concept_id !== typeConceptId) {
+      throw new ReferentResolutionError(
+        `Instance ${row.id} is typed by concept ${row.concept_id}, not ${typeConceptId}`,
+      );
+    }
+  }
+}
+
+/**
+ * Stage a referent merge. Returns the new changeset id, or the id of an
+ * already-pending merge for the same loser (staging is idempotent).
+ */
+export async function stageReferentMerge(
+  input: StageReferentMergeInput,
+  createdBy: string,
+): Promise<{ changeset_id: bigint; created: boolean }> {
+  const loserId = input.loser_id ?? null;
+  const instanceIds = Array.from(new Set(input.instance_ids ?? []));
+  if (loserId === null && instanceIds.length === 0) {
+    throw new ReferentResolutionError('Provide loser_id and/or instance_ids');
+  }
+  if (loserId !== null && loserId === input.winner_id) {
+    throw new ReferentResolutionError('Cannot merge a referent into itself');
+  }
+
+  const ids = loserId !== null ? [input.winner_id, loserId] : [input.winner_id];
+  const rows = await prisma.referents.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, canonical_label: true, type_concept_id: true, merged_into_id: true },
+  });
+  const winner = rows.find((r) => r.id === input.winner_id);
+  const loser = loserId !== null ? rows.find((r) => r.id === loserId) : null;
+  if (!winner) throw new ReferentResolutionError(`Referent ${input.winner_id} not found`);
+  if (loserId !== null && !loser) throw new ReferentResolutionError(`Referent ${loserId} not found`);
+  for (const r of [winner, loser]) {
+    if (r?.merged_into_id != null) {
+      throw new ReferentResolutionError(`Referent ${r.id} is already merged into ${r.merged_into_id}`);
+    }
+  }
+  if (loser && loser.type_concept_id !== winner.type_concept_id) {
+    throw new ReferentResolutionError('Referents of different types cannot be merged');
+  }
+  await assertAttachableInstances(instanceIds, winner.type_concept_id);
+
+  const entityId = loser?.id ?? winner.id;
+  const existing = await prisma.changesets.findFirst({
+    where: {
+      entity_type: 'referent',
+      entity_id: entityId,
+      operation: 'merge',
+      status: 'pending',
+    },
+    select: { id: true, before_snapshot: true },
+  });
+  if (existing) {
+    // Only an identical request is a retry; anything else would silently
+    // hand back a merge into a different winner or of different instances.
+    const snapshot = (existing.before_snapshot ?? {}) as Record<string, unknown>;
+    const payload = (snapshot.__merge_payload ?? {}) as { instance_ids?: unknown };
+    const stagedInstanceIds = Array.isArray(payload.instance_ids) ? payload.instance_ids.map(String) : [];
+    const wantedInstanceIds = instanceIds.map(String);
+    const sameInstances =
+      stagedInstanceIds.length === wantedInstanceIds.length &&
+      wantedInstanceIds.every((id) => stagedInstanceIds.includes(id));
+    if (snapshot.__merge_child_id !== winner.id.toString() || !sameInstances) {
+      throw new ReferentResolutionError(
+        `Referent ${entityId} already has a different pending merge (changeset ${existing.id})`,
+        409,
+      );
+    }
+    return { changeset_id: existing.id, created: false };
+  }
+
+  const changeset = await createChangeset({
+    entity_type: 'referent',
+    entity_id: entityId,
+    operation: 'merge',
+    before_snapshot: {
+      canonical_label: (loser ?? winner).canonical_label,
+      __merge_child_id: winner.id.toString(),
+      __merge_context: {
+        type_concept_id: winner.type_concept_id.toString(),
+        winner_label: winner.canonical_label,
+        loser_label: loser?.canonical_label ?? null,
+      },
+      __merge_payload: {
+        instance_ids: instanceIds.map(String),
+        signals: input.signals ?? [],
+      },
+    },
+    created_by: createdBy,
+  });
+  return { changeset_id: changeset.id, created: true };
+}
+
+/** Stage a new referent for a cluster of unresolved instances. */
+export async function stageReferentFromInstances(
+  input: StageReferentFromInstancesInput,
+  createdBy: string,
+): Promise<{ changeset_id: bigint }> {
+  const label = input.canonical_label.trim();
+  if (!label) throw new ReferentResolutionError('canonical_label is required');
+  const instanceIds = Array.from(new Set(input.instance_ids));
+  if (instanceIds.length === 0) throw new ReferentResolutionError('instance_ids is required');
+
+  const concept = await prisma.concepts.findUnique({
+    where: { id: input.type_concept_id },
+    select: { id: true },
+  });
+  if (!concept) throw new ReferentResolutionError(`Concept ${input.type_concept_id} not found`);
+  await assertAttachableInstances(instanceIds, input.type_concept_id);
+
+  const changeset = await createChangeset({
+    entity_type: 'referent',
+    operation: 'create',
+    after_snapshot: {
+      canonical_label: label,
+      type_concept_id: input.type_concept_id.toString(),
+      knowledge_graph_id: input.knowledge_graph_id?.toString() ?? null,
+      __aliases: input.aliases ?? [],
+      __link_instance_ids: instanceIds.map(String),
+    },
+    created_by: createdBy,
+  });
+  return { changeset_id: changeset.id };
+}
+
+/**
+ * Commit a staged referent CREATE: insert the referent, its aliases, and
+ * attach the clustered instances. Returns the new referent id.
+ */
+export async function commitReferentCreateInTx(
+  tx: Prisma.TransactionClient,
+  data: Record<string, unknown>,
+): Promise<bigint> {
+  const label = typeof data.canonical_label === 'string' ? data.canonical_label.trim() : '';
+  const typeConceptId = toBigIntOrNull(data.type_concept_id);
+  if (!label || !typeConceptId) {
+    throw new Error('CREATE referent requires canonical_label and type_concept_id');
+  }
+  const instanceIds = toBigIntList(data.__link_instance_ids);
+
+  const referent = await tx.referents.create({
+    data: {
+      canonical_label: label,
+      type_concept_id: typeConceptId,
+      knowledge_graph_id: toBigIntOrNull(data.knowledge_graph_id),
+    },
+  });
+
+  const aliasLabels = new Map<string, string>();
+  const rawAliases = Array.isArray(data.__aliases) ? data.__aliases : [];
+  for (const alias of [label, ...rawAliases]) {
+    if (typeof alias !== 'string') continue;
+    const normalized = normalizeReferentLabel(alias);
+    if (normalized && !aliasLabels.has(normalized)) aliasLabels.set(normalized, alias.trim());
+  }
+  if (aliasLabels.size > 0) {
+    await tx.referent_aliases.createMany({
+      data: Array.from(aliasLabels, ([normalized, alias]) => ({
+        referent_id: referent.id,
+        alias,
+        normalized,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  if (instanceIds.length > 0) {
+    const linked = await tx.instances.updateMany({
+      where: { id: { in: instanceIds }, referent_id: null, concept_id: typeConceptId },
+      data: { referent_id: referent.id },
+    });
+    if (linked.count !== instanceIds.length) {
+      throw new Error(
+        `CREATE referent drift: ${instanceIds.length - linked.count} instance(s) were resolved or retyped since staging`,
+      );
+    }
+  }
+
+  return referent.id;
+}
+
+function idsOf(rows: { id: bigint }[]): string[] {
+  return rows.map((r) => r.id.toString());
+}
+
+/**
+ * Commit a staged referent MERGE (see the contract at the top of this
+ * file). Mirrors `commitMergeInTx` for senses: drift check, repoint,
+ * mark committed, audit.
+ */
+export async function commitReferentMergeInTx(
+  tx: Prisma.TransactionClient,
+  changeset: ChangesetWithFieldChanges,
+  committedBy: string,
+): Promise<CommitResult> {
+  const csLabel = `changeset ${changeset.id.toString()}`;
+  const before = changeset.before_snapshot;
+  if (!before || !changeset.entity_id) {
+    throw new Error(`MERGE on referent requires entity_id and before_snapshot (${csLabel})`);
+  }
+  const winnerId = toBigIntOrNull(before.__merge_child_id);
+  if (!winnerId) {
+    throw new Error(`MERGE before_snapshot missing __merge_child_id on ${csLabel}`);
+  }
+  const ctx = (before.__merge_context ?? {}) as Record<string, unknown>;
+  const typeConceptId = toBigIntOrNull(ctx.type_concept_id);
+  if (!typeConceptId) {
+    throw new Error(`MERGE before_snapshot missing __merge_context.type_concept_id on ${csLabel}`);
+  }
+  const payload = (before.__merge_payload ?? {}) as Record<string, unknown>;
+  const instanceIds = toBigIntList(payload.instance_ids);
+  const loserId = changeset.entity_id === winnerId ? null : changeset.entity_id;
+
+  await setRowHistoryContext(tx, { userId: committedBy, changesetId: changeset.id });
+
+  // 1) DRIFT CHECK
+  const rows = await tx.referents.findMany({
+    where: { id: { in: loserId ? [winnerId, loserId] : [winnerId] } },
+    select: { id: true, canonical_label: true, type_concept_id: true, merged_into_id: true },
+  });
+  const winner = rows.find((r) => r.id === winnerId);
+  const loser = loserId ? rows.find((r) => r.id === loserId) : null;
+  if (!winner) throw new Error(`MERGE drift: winner referent ${winnerId} no longer exists`);
+  if (loserId && !loser) throw new Error(`MERGE drift: loser referent ${loserId} no longer exists`);
+  for (const r of [winner, loser]) {
+    if (!r) continue;
+    if (r.merged_into_id !== null) {
+      throw new Error(`MERGE drift: referent ${r.id} was merged into ${r.merged_into_id} since staging`);
+    }
+    if (r.type_concept_id !== typeConceptId) {
+      throw new Error(`MERGE drift: referent ${r.id} is no longer typed by concept ${typeConceptId}`);
+    }
+  }
+
+  const record: ReferentMergeRecord = {
+    merged_into: winnerId.toString(),
+    loser_id: loserId?.toString() ?? null,
+    moved_instance_ids: [],
+    attached_instance_ids: [],
+    moved_alias_ids: [],
+    added_alias_ids: [],
+    moved_external_id_ids: [],
+    rechained_referent_ids: [],
+  };
+
+  // 2) Attach unresolved instances.
+  if (instanceIds.length > 0) {
+    record.attached_instance_ids = idsOf(
+      await tx.$queryRaw<{ id: bigint }[]>`
+        UPDATE instances SET referent_id = ${winnerId}
+        WHERE id IN (${Prisma.join(instanceIds)})
+          AND referent_id IS NULL
+          AND concept_id = ${typeConceptId}
+        RETURNING id
+      `,
+    );
+    if (record.attached_instance_ids.length !== instanceIds.length) {
+      throw new Error(
+        `MERGE drift: ${instanceIds.length - record.attached_instance_ids.length} instance(s) were resolved or retyped since staging`,
+      );
+    }
+  }
+
+  if (loser) {
+    // 3) Repoint the loser's instances.
+    record.moved_instance_ids = idsOf(
+      await tx.$queryRaw<{ id: bigint }[]>`
+        UPDATE instances SET referent_id = ${winnerId}
+        WHERE referent_id = ${loser.id}
+        RETURNING id
+      `,
+    );
+
+    // 4) Union aliases. Aliases the winner already has stay on the loser
+    //    (UNIQUE (referent_id, normalized)); the loser's canonical label
+    //    becomes a winner alias.
+    record.moved_alias_ids = idsOf(
+      await tx.$queryRaw<{ id: bigint }[]>`
+        UPDATE referent_aliases SET referent_id = ${winnerId}
+        WHERE referent_id = ${loser.id}
+          AND normalized NOT IN (
+            SELECT normalized FROM referent_aliases WHERE referent_id = ${winnerId}
+          )
+        RETURNING id
+      `,
+    );
+    const loserForm = normalizeReferentLabel(loser.canonical_label);
+    if (loserForm && loserForm !== normalizeReferentLabel(winner.canonical_label)) {
+      record.added_alias_ids = idsOf(
+        await tx.$queryRaw<{ id: bigint }[]>`
+          INSERT INTO referent_aliases (referent_id, alias, normalized)
+          VALUES (${winnerId}, ${loser.canonical_label}, ${loserForm})
+          ON CONFLICT (referent_id, normalized) DO NOTHING
+          RETURNING id
+        `,
+      );
+    }
+
+    // 5) Move external ids ((vocabulary, external_id) is globally unique,
+    //    so they can't collide with the winner's).
+    record.moved_external_id_ids = idsOf(
+      await tx.$queryRaw<{ id: bigint }[]>`
+        UPDATE referent_external_ids SET referent_id = ${winnerId}
+        WHERE referent_id = ${loser.id}
+        RETURNING id
+      `,
+    );
+
+    // 6) Referents previously merged into the loser now point at the winner.
+    record.rechained_referent_ids = idsOf(
+      await tx.$queryRaw<{ id: bigint }[]>`
+        UPDATE referents SET merged_into_id = ${winnerId}, updated_at = NOW()
+        WHERE merged_into_id = ${loser.id}
+        RETURNING id
+      `,
+    );
+
+    await tx.referents.update({
+      where: { id: loser.id },
+      data: { merged_into_id: winnerId, merged_at: new Date(), updated_at: new Date() },
+    });
+  }
+
+  await tx.referents.update({
+    where: { id: winnerId },
+    data: { updated_at: new Date() },
+  });
+
+  // 7) AUDIT + mark changeset committed.
+  await tx.changesets.update({
+    where: { id: changeset.id },
+    data: { status: 'committed', reviewed_by: committedBy, reviewed_at: new Date(), committed_at: new Date() },
+  });
+  await tx.audit_log.create({
+    data: {
+      entity_type: 'referent',
+      entity_id: changeset.entity_id,
+      field_name: '*',
+      operation: 'merge',
+      old_value: before as Prisma.InputJsonValue,
+      new_value: record as unknown as Prisma.InputJsonValue,
+      changed_by: committedBy,
+      changesets: { connect: { id: changeset.id } },
+    },
+  });
+
+  return {
+    success: true,
+    committed_count: 1,
+    skipped_count: 0,
+    errors: [],
+  };
+}
+
+function parseMergeRecord(value: Prisma.JsonValue | null): ReferentMergeRecord | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const v = value as Record<string, unknown>;
+  if (typeof v.merged_into !== 'string') return null;
+  const list = (key: string) => (Array.isArray(v[key]) ? (v[key] as unknown[]).map(String) : []);
+  return {
+    merged_into: v.merged_into,
+    loser_id: typeof v.loser_id === 'string' ? v.loser_id : null,
+    moved_instance_ids: list('moved_instance_ids'),
+    attached_instance_ids: list('attached_instance_ids'),
+    moved_alias_ids: list('moved_alias_ids'),
+    added_alias_ids: list('added_alias_ids'),
+    moved_external_id_ids: list('moved_external_id_ids'),
+    rechained_referent_ids: list('rechained_referent_ids'),
+  };
+}
+
+/**
+ * Undo a committed referent merge using the rows recorded at commit time.
+ * Rows that moved again since (e.g. an instance re-pointed elsewhere) are
+ * left alone; the counts in the result say what was actually restored.
+ *
+ * Only runs when a reviewer commits the staged un-merge `unmergeChangesetId`,
+ * which tags the row-history entries.
+ */
+async function undoReferentMergeInTx(
+  tx: Prisma.TransactionClient,
+  changesetId: bigint,
+  revertedBy: string,
+  unmergeChangesetId: bigint,
+): Promise<ReferentMergeRevertResult> {
+  const changeset = await tx.changesets.findUnique({
+    where: { id: changesetId },
+    select: { id: true, entity_type: true, operation: true, status: true, entity_id: true },
+  });
+  if (!changeset || changeset.entity_type !== 'referent' || changeset.operation !== 'merge') {
+    throw new ReferentResolutionError(`Changeset ${changesetId} is not a referent merge`);
+  }
+  if (changeset.status !== 'committed') {
+    throw new ReferentResolutionError(`Changeset ${changesetId} is ${changeset.status}, not committed`);
+  }
+
+  const audits = await tx.audit_log.findMany({
+    where: { changeset_id: changesetId, entity_type: 'referent' },
+    orderBy: { id: 'asc' },
+    select: { operation: true, field_name: true, new_value: true },
+  });
+  if (audits.some((a) => a.field_name === 'merged_into_id')) {
+    throw new ReferentResolutionError(`Referent merge ${changesetId} was already reverted`);
+  }
+  const record = parseMergeRecord(audits.find((a) => a.operation === 'merge')?.new_value ?? null);
+  if (!record) {
+    throw new ReferentResolutionError(`No merge record found for changeset ${changesetId}`);
+  }
+
+  const winnerId = BigInt(record.merged_into);
+  const loserId = record.loser_id ? BigInt(record.loser_id) : null;
+  const ids = (list: string[]) => list.map((id) => BigInt(id));
+
+  await setRowHistoryContext(tx, { userId: revertedBy, changesetId: unmergeChangesetId });
+
+  if (loserId) {
+    const loser = await tx.referents.findUnique({
+      where: { id: loserId },
+      select: { merged_into_id: true },
+    });
+    if (!loser || loser.merged_into_id !== winnerId) {
+      throw new ReferentResolutionError(
+        `Referent ${loserId} is no longer merged into ${winnerId}; cannot revert`,
+      );
+    }
+  }
+
+  let restoredInstances = 0;
+  let restoredAliases = 0;
+  let restoredExternalIds = 0;
+  if (loserId) {
+    restoredInstances = (
+      await tx.instances.updateMany({
+        where: { id: { in: ids(record.moved_instance_ids) }, referent_id: winnerId },
+        data: { referent_id: loserId },
+      })
+    ).count;
+    restoredAliases = (
+      await tx.referent_aliases.updateMany({
+        where: { id: { in: ids(record.moved_alias_ids) }, referent_id: winnerId },
+        data: { referent_id: loserId },
+      })
+    ).count;
+    await tx.referent_aliases.deleteMany({
+      where: { id: { in: ids(record.added_alias_ids) }, referent_id: winnerId },
+    });
+    restoredExternalIds = (
+      await tx.referent_external_ids.updateMany({
+        where: { id: { in: ids(record.moved_external_id_ids) }, referent_id: winnerId },
+        data: { referent_id: loserId },
+      })
+    ).count;
+    await tx.referents.updateMany({
+      where: { id: { in: ids(record.rechained_referent_ids) }, merged_into_id: winnerId },
+      data: { merged_into_id: loserId, updated_at: new Date() },
+    });
+    await tx.referents.update({
+      where: { id: loserId },
+      data: { merged_into_id: null, merged_at: null, updated_at: new Date() },
+    });
+  }
+  const detachedInstances = (
+    await tx.instances.updateMany({
+      where: { id: { in: ids(record.attached_instance_ids) }, referent_id: winnerId },
+      data: { referent_id: null },
+    })
+  ).count;
+
+  const summary: ReferentMergeRevertResult = {
+    changeset_id: changesetId.toString(),
+    winner_id: winnerId.toString(),
+    loser_id: loserId?.toString() ?? null,
+    restored_instances: restoredInstances,
+    detached_instances: detachedInstances,
+    restored_aliases: restoredAliases,
+    restored_external_ids: restoredExternalIds,
+  };
+
+  await tx.audit_log.create({
+    data: {
+      entity_type: 'referent',
+      entity_id: changeset.entity_id ?? winnerId,
+      field_name: 'merged_into_id',
+      operation: 'update',
+      old_value: { merged_into: winnerId.toString() },
+      new_value: summary as unknown as Prisma.InputJsonValue,
+      changed_by: revertedBy,
+      changesets: { connect: { id: changesetId } },
+    },
+  });
+  return summary;
+}
+
+/**
+ * Commit a staged referent un-merge: an UPDATE changeset on the merge's
+ * `entity_id` whose `reverts_changeset_id` is the committed merge and whose
+ * only field change is `merged_into_id: <winner> -> null` (staged by
+ * `stageChangesetRevert`). Replays the recorded merge backwards, then marks
+ * the changeset committed like any other update.
+ */
+export async function commitReferentUnmergeInTx(
+  tx: Prisma.TransactionClient,
+  changeset: ChangesetWithFieldChanges,
+  approvedChanges: ChangesetWithFieldChanges['field_changes'],
+  committedBy: string,
+): Promise<CommitResult> {
+  const csLabel = `changeset ${changeset.id.toString()}`;
+  const row = await tx.changesets.findUnique({
+    where: { id: changeset.id },
+    select: { reverts_changeset_id: true },
+  });
+  if (!row?.reverts_changeset_id) {
+    throw new Error(`UPDATE on referent is only supported for merge reverts (${csLabel})`);
+  }
+  if (approvedChanges.some((fc) => fc.field_name !== 'merged_into_id')) {
+    throw new Error(`UPDATE on referent only accepts merged_into_id (${csLabel})`);
+  }
+
+  const summary = await undoReferentMergeInTx(tx, row.reverts_changeset_id, committedBy, changeset.id);
+
+  await tx.changesets.update({
+    where: { id: changeset.id },
+    data: { status: 'committed', reviewed_by: committedBy, reviewed_at: new Date(), committed_at: new Date() },
+  });
+  await tx.audit_log.create({
+    data: {
+      entity_type: 'referent',
+      entity_id: changeset.entity_id ?? BigInt(summary.winner_id),
+      field_name: 'merged_into_id',
+      operation: 'update',
+      old_value: { merged_into: summary.winner_id },
+      new_value: summary as unknown as Prisma.InputJsonValue,
+      changed_by: committedBy,
+      changesets: { connect: { id: changeset.id } },
+    },
+  });
+
+  return {
+    success: true,
+    committed_count: approvedChanges.length,
+    skipped_count: changeset.field_changes.length - approvedChanges.length,
+    errors: [],
+  };
+}
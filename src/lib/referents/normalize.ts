@@ -0,0 +1,23 @@
+/**
+ * Surface-form normalization for referent matching.
+ *
+ * Mirrors `public.normalize_referent_label()` in
+ * migrations/add_referent_resolution.sql; candidate queries run the SQL
+ * version, staging code runs this one, so the two must agree.
+ */
+
+export function normalizeReferentLabel(value: string | null | undefined): string {
+  return (value ?? '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Strip URI prefixes so `https://www.wikidata.org/entity/Q42` and `Q42`
+ * compare equal. Matches the SQL expression used by
+ * `idx_referent_external_ids_normalized`.
+ */
+export function normalizeExternalId(value: string): string {
+  return value.replace(/^.*[/#]/, '').toLowerCase();
+}
@@ -0,0 +1,431 @@
+/**
+ * Cross-document referent resolution: propose referents (and unresolved
+ * instances) that denote the same real-world thing.
+ *
+ * Three signals, all scoped to a single `type_concept_id`:
+ *   - alias: normalized canonical label / alias / instance label equality
+ *   - external_id: the same identifier under the same vocabulary once URI
+ *     prefixes and case are stripped
+ *   - embedding: cosine similarity of `referents.embedding`
+ *
+ * Candidates are proposals only; `merge.ts` stages them as changesets.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type {
+  FindReferentMergeCandidatesOptions,
+  InstanceLinkCandidate,
+  NewReferentCandidate,
+  ReferentMatchSignal,
+  ReferentMergeCandidate,
+  ReferentPairCandidate,
+  ReferentSummary,
+  UnresolvedInstanceSummary,
+} from './types';
+
+const DEFAULT_MIN_SIMILARITY = 0.92;
+const DEFAULT_LIMIT = 200;
+
+const SIGNAL_SCORES = {
+  external_id: 1,
+  alias: 0.95,
+} as const;
+
+function referentScope(alias: string, opts: FindReferentMergeCandidatesOptions): Prisma.Sql {
+  const r = Prisma.raw(alias);
+  const clauses: Prisma.Sql[] = [Prisma.sql`${r}.merged_into_id IS NULL`];
+  if (opts.type_concept_id != null) {
+    clauses.push(Prisma.sql`${r}.type_concept_id = ${opts.type_concept_id}`);
+  }
+  if (opts.knowledge_graph_id != null) {
+    clauses.push(
+      Prisma.sql`(${r}.knowledge_graph_id = ${opts.knowledge_graph_id} OR ${r}.knowledge_graph_id IS NULL)`,
+    );
+  }
+  return Prisma.join(clauses, ' AND ');
+}
+
+function instanceScope(alias: string, opts: FindReferentMergeCandidatesOptions): Prisma.Sql {
+  const i = Prisma.raw(alias);
+  const clauses: Prisma.Sql[] = [
+    Prisma.sql`${i}.referent_id IS NULL`,
+    Prisma.sql`public.normalize_referent_label(${i}.metadata ->> 'label') <> ''`,
+  ];
+  if (opts.type_concept_id != null) {
+    clauses.push(Prisma.sql`${i}.concept_id = ${opts.type_concept_id}`);
+  }
+  if (opts.knowledge_graph_id != null) {
+    clauses.push(Prisma.sql`${i}.knowledge_graph_id = ${opts.knowledge_graph_id}`);
+  }
+  return Prisma.join(clauses, ' AND ');
+}
+
+/** True when referent `r` has the normalized form of instance `i`'s label. */
+function referentMatchesInstanceLabel(r: string, i: string): Prisma.Sql {
+  const ra = Prisma.raw(r);
+  const ia = Prisma.raw(i);
+  return Prisma.sql`(
+    public.normalize_referent_label(${ra}.canonical_label) = public.normalize_referent_label(${ia}.metadata ->> 'label')
+    OR EXISTS (
+      SELECT 1 FROM referent_aliases ra
+      WHERE ra.referent_id = ${ra}.id
+        AND public.normalize_referent_label(ra.alias) = public.normalize_referent_label(${ia}.metadata ->> 'label')
+    )
+  )`;
+}
+
+type PairRow = { a_id: bigint; b_id: bigint };
+
+async function findAliasPairs(
+  opts: FindReferentMergeCandidatesOptions,
+  limit: number,
+): Promise<(PairRow & { forms: string[] })[]> {
+  return prisma.$queryRaw`
+    WITH forms AS (
+      SELECT r.id AS referent_id, r.type_concept_id,
+             public.normalize_referent_label(r.canonical_label) AS form
+      FROM referents r
+      WHERE ${referentScope('r', opts)}
+      UNION
+      SELECT r.id, r.type_concept_id, public.normalize_referent_label(a.alias)
+      FROM referent_aliases a
+      JOIN referents r ON r.id = a.referent_id
+      WHERE ${referentScope('r', opts)}
+    )
+    SELECT a.referent_id AS a_id, b.referent_id AS b_id, array_agg(DISTINCT a.form) AS forms
+    FROM forms a
+    JOIN forms b
+      ON b.type_concept_id = a.type_concept_id
+     AND b.form = a.form
+     AND b.referent_id > a.referent_id
+    WHERE a.form <> ''
+    GROUP BY a.referent_id, b.referent_id
+    ORDER BY a.referent_id, b.referent_id
+    LIMIT ${limit}
+  `;
+}
+
+async function findExternalIdPairs(
+  opts: FindReferentMergeCandidatesOptions,
+  limit: number,
+): Promise<(PairRow & { vocabulary: string; external_id: string })[]> {
+  return prisma.$queryRaw`
+    SELECT DISTINCT ON (ra.id, rb.id)
+           ra.id AS a_id, rb.id AS b_id, a.vocabulary, a.external_id
+    FROM referent_external_ids a
+    JOIN referent_external_ids b
+      ON lower(b.vocabulary) = lower(a.vocabulary)
+     AND lower(regexp_replace(b.external_id, '^.*[/#]', '')) = lower(regexp_replace(a.external_id, '^.*[/#]', ''))
+     AND b.referent_id > a.referent_id
+    JOIN referents ra ON ra.id = a.referent_id
+    JOIN referents rb ON rb.id = b.referent_id
+    WHERE rb.type_concept_id = ra.type_concept_id
+      AND rb.merged_into_id IS NULL
+      AND ${referentScope('ra', opts)}
+    ORDER BY ra.id, rb.id
+    LIMIT ${limit}
+  `;
+}
+
+async function findEmbeddingPairs(
+  opts: FindReferentMergeCandidatesOptions,
+  minSimilarity: number,
+  limit: number,
+): Promise<(PairRow & { similarity: number })[]> {
+  return prisma.$queryRaw`
+    SELECT r.id AS a_id, n.id AS b_id, n.similarity
+    FROM referents r
+    CROSS JOIN LATERAL (
+      SELECT o.id, 1 - (o.embedding <=> r.embedding) AS similarity
+      FROM referents o
+      WHERE o.merged_into_id IS NULL
+        AND o.embedding IS NOT NULL
+        AND o.type_concept_id = r.type_concept_id
+        AND o.id <> r.id
+      ORDER BY o.embedding <=> r.embedding
+      LIMIT 5
+    ) n
+    WHERE ${referentScope('r', opts)}
+      AND r.embedding IS NOT NULL
+      AND n.id > r.id
+      AND n.similarity >= ${minSimilarity}
+    ORDER BY n.similarity DESC
+    LIMIT ${limit}
+  `;
+}
+
+async function findInstanceLinks(
+  opts: FindReferentMergeCandidatesOptions,
+  limit: number,
+): Promise<{ instance_id: bigint; referent_id: bigint; form: string }[]> {
+  return prisma.$queryRaw`
+    SELECT i.id AS instance_id, r.id AS referent_id,
+           public.normalize_referent_label(i.metadata ->> 'label') AS form
+    FROM instances i
+    JOIN referents r ON r.type_concept_id = i.concept_id AND r.merged_into_id IS NULL
+    WHERE ${instanceScope('i', opts)}
+      AND ${referentMatchesInstanceLabel('r', 'i')}
+    ORDER BY r.id, i.id
+    LIMIT ${limit}
+  `;
+}
+
+async function findInstanceClusters(
+  opts: FindReferentMergeCandidatesOptions,
+  limit: number,
+): Promise<{ concept_id: bigint; form: string; instance_ids: bigint[] }[]> {
+  return prisma.$queryRaw`
+    SELECT i.concept_id,
+           public.normalize_referent_label(i.metadata ->> 'label') AS form,
+           array_agg(i.id ORDER BY i.id) AS instance_ids
+    FROM instances i
+    WHERE ${instanceScope('i', opts)}
+      AND NOT EXISTS (
+        SELECT 1 FROM referents r
+        WHERE r.type_concept_id = i.concept_id
+          AND r.merged_into_id IS NULL
+          AND ${referentMatchesInstanceLabel('r', 'i')}
+      )
+    GROUP BY i.concept_id, public.normalize_referent_label(i.metadata ->> 'label')
+    HAVING count(DISTINCT i.source_text_id) >= 2
+    ORDER BY count(DISTINCT i.source_text_id) DESC, form
+    LIMIT ${limit}
+  `;
+}
+
+async function loadReferentSummaries(ids: bigint[]): Promise<Map<string, ReferentSummary>> {
+  const out = new Map<string, ReferentSummary>();
+  if (ids.length === 0) return out;
+
+  const rows = await prisma.referents.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      canonical_label: true,
+      type_concept_id: true,
+      knowledge_graph_id: true,
+      concepts: { select: { label: true } },
+      referent_aliases: { select: { alias: true }, orderBy: { id: 'asc' } },
+      _count: { select: { instances: true } },
+    },
+  });
+  for (const r of rows) {
+    out.set(r.id.toString(), {
+      id: r.id.toString(),
+      canonical_label: r.canonical_label,
+      type_concept_id: r.type_concept_id.toString(),
+      type_concept_label: r.concepts?.label ?? null,
+      knowledge_graph_id: r.knowledge_graph_id?.toString() ?? null,
+      aliases: r.referent_aliases.map((a) => a.alias),
+      instance_count: r._count.instances,
+    });
+  }
+  return out;
+}
+
+async function loadInstanceSummaries(ids: bigint[]): Promise<Map<string, UnresolvedInstanceSummary>> {
+  const out = new Map<string, UnresolvedInstanceSummary>();
+  if (ids.length === 0) return out;
+
+  const rows = await prisma.instances.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      metadata: true,
+      concept_id: true,
+      source_text_id: true,
+      knowledge_graph_id: true,
+      source_texts: { select: { source_uri: true, metadata: true } },
+    },
+  });
+  for (const i of rows) {
+    const meta = i.metadata as Record<string, unknown> | null;
+    const sourceMeta = i.source_texts?.metadata as Record<string, unknown> | null | undefined;
+    const title =
+      typeof sourceMeta?.title === 'string' ? sourceMeta.title : i.source_texts?.source_uri ?? null;
+    out.set(i.id.toString(), {
+      id: i.id.toString(),
+      label: typeof meta?.label === 'string' ? meta.label : null,
+      concept_id: i.concept_id.toString(),
+      source_text_id: i.source_text_id?.toString() ?? null,
+      source_text_title: title,
+      knowledge_graph_id: i.knowledge_graph_id?.toString() ?? null,
+    });
+  }
+  return out;
+}
+
+/**
+ * Pending referent changesets, keyed by the candidate key they stage.
+ * Merges are keyed by `entity_id` (the loser, or the winner for
+ * instance-only merges); creates by their sorted instance ids.
+ */
+async function loadPendingKeys(): Promise<Map<string, string>> {
+  const pending = await prisma.changesets.findMany({
+    where: { entity_type: 'referent', status: 'pending' },
+    select: { id: true, entity_id: true, operation: true, before_snapshot: true, after_snapshot: true },
+  });
+  const out = new Map<string, string>();
+  for (const cs of pending) {
+    if (cs.operation === 'merge') {
+      const before = cs.before_snapshot as Record<string, unknown> | null;
+      const winner = String(before?.__merge_child_id ?? '');
+      if (cs.entity_id != null && String(cs.entity_id) !== winner) {
+        out.set(`referents:${winner}:${cs.entity_id}`, cs.id.toString());
+      } else {
+        out.set(`instances_to_referent:${winner}`, cs.id.toString());
+      }
+    } else if (cs.operation === 'create') {
+      const after = cs.after_snapshot as Record<string, unknown> | null;
+      const ids = Array.isArray(after?.__link_instance_ids) ? after.__link_instance_ids.map(String) : [];
+      out.set(`instances_new_referent:${ids.sort().join(',')}`, cs.id.toString());
+    }
+  }
+  return out;
+}
+
+function pickWinner(a: ReferentSummary, b: ReferentSummary): [ReferentSummary, ReferentSummary] {
+  if (a.instance_count !== b.instance_count) {
+    return a.instance_count > b.instance_count ? [a, b] : [b, a];
+  }
+  return BigInt(a.id) < BigInt(b.id) ? [a, b] : [b, a];
+}
+
+function signalScore(signal: ReferentMatchSignal): number {
+  return signal.kind === 'embedding' ? signal.similarity : SIGNAL_SCORES[signal.kind];
+}
+
+/**
+ * Propose merge candidates. Referent pairs come first, ordered by score;
+ * then instance links and new-referent clusters.
+ */
+export async function findReferentMergeCandidates(
+  opts: FindReferentMergeCandidatesOptions = {},
+): Promise<ReferentMergeCandidate[]> {
+  const limit = opts.limit ?? DEFAULT_LIMIT;
+  const minSimilarity = opts.min_similarity ?? DEFAULT_MIN_SIMILARITY;
+
+  const [aliasPairs, externalPairs, embeddingPairs, instanceLinks, clusters, pendingKeys] =
+    await Promise.all([
+      findAliasPairs(opts, limit),
+      findExternalIdPairs(opts, limit),
+      findEmbeddingPairs(opts, minSimilarity, limit),
+      findInstanceLinks(opts, limit),
+      findInstanceClusters(opts, limit),
+      loadPendingKeys(),
+    ]);
+
+  const pairSignals = new Map<string, { a: bigint; b: bigint; signals: ReferentMatchSignal[] }>();
+  const addPair = (a: bigint, b: bigint, signals: ReferentMatchSignal[]) => {
+    const key = `${a}:${b}`;
+    const entry = pairSignals.get(key) ?? { a, b, signals: [] };
+    entry.signals.push(...signals);
+    pairSignals.set(key, entry);
+  };
+  for (const row of externalPairs) {
+    addPair(row.a_id, row.b_id, [
+      { kind: 'external_id', vocabulary: row.vocabulary, external_id: row.external_id },
+    ]);
+  }
+  for (const row of aliasPairs) {
+    addPair(row.a_id, row.b_id, row.forms.map((form) => ({ kind: 'alias' as const, form })));
+  }
+  for (const row of embeddingPairs) {
+    addPair(row.a_id, row.b_id, [{ kind: 'embedding', similarity: Number(row.similarity) }]);
+  }
+
+  const linksByReferent = new Map<string, { instance_ids: bigint[]; forms: Set<string> }>();
+  for (const row of instanceLinks) {
+    const key = row.referent_id.toString();
+    const entry = linksByReferent.get(key) ?? { instance_ids: [], forms: new Set<string>() };
+    entry.instance_ids.push(row.instance_id);
+    entry.forms.add(row.form);
+    linksByReferent.set(key, entry);
+  }
+
+  const referentIds = new Set<bigint>();
+  for (const { a, b } of pairSignals.values()) {
+    referentIds.add(a);
+    referentIds.add(b);
+  }
+  for (const key of linksByReferent.keys()) referentIds.add(BigInt(key));
+
+  const instanceIds = new Set<bigint>();
+  for (const row of instanceLinks) instanceIds.add(row.instance_id);
+  for (const row of clusters) for (const id of row.instance_ids) instanceIds.add(id);
+
+  const [referents, instances, conceptLabels] = await Promise.all([
+    loadReferentSummaries(Array.from(referentIds)),
+    loadInstanceSummaries(Array.from(instanceIds)),
+    prisma.concepts.findMany({
+      where: { id: { in: Array.from(new Set(clusters.map((c) => c.concept_id))) } },
+      select: { id: true, label: true },
+    }),
+  ]);
+  const conceptLabelById = new Map(conceptLabels.map((c) => [c.id.toString(), c.label]));
+
+  const pairs: ReferentPairCandidate[] = [];
+  for (const { a, b, signals } of pairSignals.values()) {
+    const ra = referents.get(a.toString());
+    const rb = referents.get(b.toString());
+    if (!ra || !rb) continue;
+    const [winner, loser] = pickWinner(ra, rb);
+    const key = `referents:${winner.id}:${loser.id}`;
+    pairs.push({
+      kind: 'referents',
+      key,
+      type_concept_id: winner.type_concept_id,
+      type_concept_label: winner.type_concept_label,
+      score: Math.max(...signals.map(signalScore)),
+      signals,
+      pending_changeset_id: pendingKeys.get(key) ?? null,
+      winner,
+      loser,
+    });
+  }
+  pairs.sort((x, y) => y.score - x.score || Number(BigInt(x.winner.id) - BigInt(y.winner.id)));
+
+  const links: InstanceLinkCandidate[] = [];
+  for (const [referentId, entry] of linksByReferent) {
+    const referent = referents.get(referentId);
+    if (!referent) continue;
+    const key = `instances_to_referent:${referentId}`;
+    links.push({
+      kind: 'instances_to_referent',
+      key,
+      type_concept_id: referent.type_concept_id,
+      type_concept_label: referent.type_concept_label,
+      score: SIGNAL_SCORES.alias,
+      signals: Array.from(entry.forms, (form) => ({ kind: 'alias' as const, form })),
+      pending_changeset_id: pendingKeys.get(key) ?? null,
+      referent,
+      instances: entry.instance_ids
+        .map((id) => instances.get(id.toString()))
+        .filter((i): i is UnresolvedInstanceSummary => !!i),
+    });
+  }
+
+  const fresh: NewReferentCandidate[] = [];
+  for (const cluster of clusters) {
+    const members = cluster.instance_ids
+      .map((id) => instances.get(id.toString()))
+      .filter((i): i is UnresolvedInstanceSummary => !!i);
+    if (members.length < 2) continue;
+    const idKey = cluster.instance_ids.map(String).sort().join(',');
+    const key = `instances_new_referent:${idKey}`;
+    fresh.push({
+      kind: 'instances_new_referent',
+      key,
+      type_concept_id: cluster.concept_id.toString(),
+      type_concept_label: conceptLabelById.get(cluster.concept_id.toString()) ?? null,
+      score: SIGNAL_SCORES.alias,
+      signals: [{ kind: 'alias', form: cluster.form }],
+      pending_changeset_id: pendingKeys.get(key) ?? null,
+      label: members.find((m) => m.label)?.label ?? cluster.form,
+      instances: members,
+    });
+  }
+
+  return [...pairs, ...links, ...fresh];
+}
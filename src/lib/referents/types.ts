@@ -0,0 +1,107 @@
+/**
+ * Referent resolution types.
+ *
+ * Ids are serialized as strings so the candidate payloads can go straight
+ * into `NextResponse.json`.
+ */
+
+export type ReferentMatchSignal =
+  | { kind: 'alias'; form: string }
+  | { kind: 'external_id'; vocabulary: string; external_id: string }
+  | { kind: 'embedding'; similarity: number };
+
+export interface ReferentSummary {
+  id: string;
+  canonical_label: string;
+  type_concept_id: string;
+  type_concept_label: string | null;
+  knowledge_graph_id: string | null;
+  aliases: string[];
+  instance_count: number;
+}
+
+export interface UnresolvedInstanceSummary {
+  id: string;
+  label: string | null;
+  concept_id: string;
+  source_text_id: string | null;
+  source_text_title: string | null;
+  knowledge_graph_id: string | null;
+}
+
+interface CandidateBase {
+  /** Stable key for UI selection state. */
+  key: string;
+  type_concept_id: string;
+  type_concept_label: string | null;
+  /** 0-1; an exact external-id or alias match scores above any embedding hit. */
+  score: number;
+  signals: ReferentMatchSignal[];
+  /** Pending changeset already staging this candidate, if any. */
+  pending_changeset_id: string | null;
+}
+
+/** Two referents that look like the same thing. `winner` survives the merge. */
+export interface ReferentPairCandidate extends CandidateBase {
+  kind: 'referents';
+  winner: ReferentSummary;
+  loser: ReferentSummary;
+}
+
+/** Unresolved instances whose label matches an existing referent. */
+export interface InstanceLinkCandidate extends CandidateBase {
+  kind: 'instances_to_referent';
+  referent: ReferentSummary;
+  instances: UnresolvedInstanceSummary[];
+}
+
+/**
+ * Unresolved instances from two or more source texts sharing a label and
+ * concept, with no referent to attach to yet.
+ */
+export interface NewReferentCandidate extends CandidateBase {
+  kind: 'instances_new_referent';
+  label: string;
+  instances: UnresolvedInstanceSummary[];
+}
+
+export type ReferentMergeCandidate =
+  | ReferentPairCandidate
+  | InstanceLinkCandidate
+  | NewReferentCandidate;
+
+export interface FindReferentMergeCandidatesOptions {
+  type_concept_id?: bigint;
+  knowledge_graph_id?: bigint;
+  /** Minimum cosine similarity for embedding candidates (default 0.92). */
+  min_similarity?: number;
+  /** Per-signal row cap before merging signals (default 200). */
+  limit?: number;
+}
+
+export interface StageReferentMergeInput {
+  winner_id: bigint;
+  /** Referent to fold into the winner. Omit to only attach instances. */
+  loser_id?: bigint | null;
+  /** Unresolved instances to attach to the winner. */
+  instance_ids?: bigint[];
+  signals?: ReferentMatchSignal[];
+}
+
+export interface StageReferentFromInstancesInput {
+  canonical_label: string;
+  type_concept_id: bigint;
+  knowledge_graph_id?: bigint | null;
+  instance_ids: bigint[];
+  aliases?: string[];
+}
+
+export interface ReferentMergeRevertResult {
+  changeset_id: string;
+  winner_id: string;
+  loser_id: string | null;
+  restored_instances: number;
+  detached_instances: number;
+  restored_aliases: number;
+  restored_external_ids: number;
+}
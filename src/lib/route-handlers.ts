@@ -8,9 +8,22 @@ import {
 } from '@/lib/db';
 import { getPaginatedLexicalUnits } from '@/lib/db/entities';
 import { handleDatabaseError } from './db-utils';
-import { stageUpdate, stageDelete, stageFlagUpdates, EntityType, attachPendingInfoToEntities, getPendingInfoForEntity, applyPendingToEntity } from './version-control';
+import {
+  stageUpdate,
+  stageDelete,
+  stageFlagUpdates,
+  EntityType,
+  attachPendingInfoToEntities,
+  getPendingInfoForEntity,
+  applyPendingToEntity,
+  getEntityTimeline,
+  restoreEntityToPoint,
+  TimelineEntityNotFoundError,
+  TimelineRestoreError,
+} from './version-control';
+import type { TimelineEntityKind } from './version-control';
 import type { LexicalType, PaginationParams, TableLexicalUnit } from './types';
-import { getCurrentUserName } from '@/utils/supabase/server';
+import { PermissionError, requirePermission } from '@/lib/users/roles';
 
 /**
  * Helper to convert LexicalType to EntityType
@@ -226,7 +239,7 @@ export async function handleUpdateById(
 ): Promise<NextResponse> {
   try {
     const entityType = lexicalTypeToEntityType(lexicalType);
-    const userId = await getCurrentUserName();
+    const { userName: userId } = await requirePermission('stage_changes');
     
     const updates = body as Record<string, unknown>;
     const allowedFields = getAllowedFieldsForType(lexicalType);
@@ -273,6 +286,9 @@ export async function handleUpdateById(
       },
     });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     const { message, status, shouldRetry } = handleDatabaseError(error, routePath);
     return NextResponse.json(
       { 
@@ -298,7 +314,7 @@ export async function handleDeleteById(
 ): Promise<NextResponse> {
   try {
     const entityType = lexicalTypeToEntityType(lexicalType);
-    const userId = await getCurrentUserName();
+    const { userName: userId } = await requirePermission('stage_changes');
     
     const response = await stageDelete(entityType, id, userId);
     
@@ -309,6 +325,9 @@ export async function handleDeleteById(
       },
     });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     const { message, status, shouldRetry } = handleDatabaseError(error, routePath);
     return NextResponse.json(
       { 
@@ -516,7 +535,7 @@ export async function handleFlagRequest(
     }
 
     const entityType = lexicalTypeToEntityType(lexicalType);
-    const userId = await getCurrentUserName();
+    const { userName: userId } = await requirePermission('stage_changes');
     
     const directUpdates: Record<string, any> = {};
     const stagedUpdates: Record<string, any> = {};
@@ -562,6 +581,9 @@ export async function handleFlagRequest(
       },
     });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     const { message, status, shouldRetry } = handleDatabaseError(error, `PATCH /api/${lexicalType}/flag`);
     return NextResponse.json(
       { 
@@ -576,3 +598,105 @@ export async function handleFlagRequest(
     );
   }
 }
+
+/**
+ * Handles GET timeline requests (`?before=<history_id>&limit=<n>`)
+ */
+export async function handleGetTimeline(
+  request: NextRequest,
+  id: string,
+  kind: TimelineEntityKind,
+  routePath: string
+): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const beforeParam = searchParams.get('before');
+    const limitParam = searchParams.get('limit');
+
+    if (beforeParam !== null && !/^\d+$/.test(beforeParam)) {
+      return NextResponse.json({ error: 'before must be a history id' }, { status: 400 });
+    }
+
+    const timeline = await getEntityTimeline(kind, id, {
+      before: beforeParam !== null ? BigInt(beforeParam) : undefined,
+      limit: limitParam !== null ? parseInt(limitParam, 10) || undefined : undefined,
+    });
+
+    return NextResponse.json(timeline, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate',
+        'Pragma': 'no-cache',
+      },
+    });
+  } catch (error) {
+    if (error instanceof TimelineEntityNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    const { message, status, shouldRetry } = handleDatabaseError(error, routePath);
+    return NextResponse.json(
+      { 
+        error: message,
+        retryable: shouldRetry,
+        timestamp: new Date().toISOString()
+      },
+      { 
+        status,
+        headers: shouldRetry ? { 'Retry-After': '5' } : {}
+      }
+    );
+  }
+}
+
+/**
+ * Handles POST timeline requests: stage a restore to `{ history_id }`. Requires the editor role.
+ */
+export async function handleRestoreTimeline(
+  request: NextRequest,
+  id: string,
+  kind: TimelineEntityKind,
+  routePath: string
+): Promise<NextResponse> {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const historyId = (body as { history_id?: unknown }).history_id;
+
+    if (
+      (typeof historyId !== 'string' && typeof historyId !== 'number') ||
+      !/^\d+$/.test(String(historyId))
+    ) {
+      return NextResponse.json({ error: 'history_id is required' }, { status: 400 });
+    }
+
+    const { userName: userId } = await requirePermission('stage_changes');
+    const result = await restoreEntityToPoint(kind, id, BigInt(historyId), userId);
+
+    return NextResponse.json(result, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate',
+        'Pragma': 'no-cache',
+      },
+    });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (error instanceof TimelineEntityNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof TimelineRestoreError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    const { message, status, shouldRetry } = handleDatabaseError(error, routePath);
+    return NextResponse.json(
+      { 
+        error: message,
+        retryable: shouldRetry,
+        timestamp: new Date().toISOString()
+      },
+      { 
+        status,
+        headers: shouldRetry ? { 'Retry-After': '5' } : {}
+      }
+    );
+  }
+}
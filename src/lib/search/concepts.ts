@@ -1,5 +1,4 @@
 import { prisma } from '@/lib/prisma';
-import type { UnifiedSearchResult } from '@/lib/types';
 
 type ConceptCandidate = {
   id: bigint;
@@ -271,16 +270,3 @@ export async function searchConceptsLegacy(query: string, limit: number): Promis
     archetype: concept.archetype,
   }));
 }
-
-/** Concept search in the unified cross-entity shape. */
-export async function searchConcepts(query: string, limit: number): Promise<UnifiedSearchResult[]> {
-  const scored = await rankConcepts(query, limit);
-  return scored.map(({ concept }) => ({
-    type: 'concept' as const,
-    id: concept.id.toString(),
-    label: concept.label,
-    sublabel: concept.short_definition || concept.definition || undefined,
-    badge: concept.archetype ?? undefined,
-    href: `/graph/concepts?entry=${concept.id.toString()}`,
-  }));
-}
@@ -0,0 +1,716 @@
+import { Prisma, part_of_speech } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { normalizeReferentLabel } from '@/lib/referents/normalize';
+import { embedText, embeddingsAvailable, toVectorLiteral } from '@/lib/embeddings/providers';
+import type {
+  HybridSearchResponse,
+  PartOfSpeech,
+  SearchEntityType,
+  SearchFacetCounts,
+  SearchFacetFilters,
+  SearchFacetName,
+  SearchMatchSource,
+  SearchMode,
+  SearchSnippetSegment,
+  UnifiedSearchResult,
+} from '@/lib/types';
+
+/**
+ * Hybrid search over concepts, lexical units, senses, referents and claims.
+ *
+ * Every entity type is ranked up to three ways:
+ *   exact  – the query equals a label, code or lemma, so typing a name still
+ *            puts that row first when full-text prefers longer matches;
+ *   text   – ts_rank_cd over the type's tsvector column(s);
+ *   vector – cosine distance between the query embedding and the row's.
+ * The rankings are fused with reciprocal-rank fusion (each ranking adds
+ * 1 / (RRF_K + rank)), then the fused candidates are hydrated with display
+ * fields, facet values and a ts_headline snippet.
+ *
+ * The vector ranking is best-effort: without an embedding provider (see
+ * src/lib/embeddings/providers.ts), or when the embedding call or a vector
+ * query fails, results come from the other two rankings and `vector_used`
+ * is false.
+ */
+
+export const SEARCH_ENTITY_TYPES: SearchEntityType[] = ['concept', 'lexical_unit', 'sense', 'referent', 'claim'];
+export const SEARCH_MODES: SearchMode[] = ['hybrid', 'text', 'vector'];
+
+/** Standard RRF damping constant; larger values flatten the rank curve. */
+const RRF_K = 60;
+/** Candidates taken from each ranking, and kept after fusion, per type. */
+const MIN_POOL = 30;
+const MAX_POOL = 100;
+
+const HEADLINE_START = '\u0002';
+const HEADLINE_STOP = '\u0003';
+const HEADLINE_OPTIONS =
+  `StartSel=${HEADLINE_START}, StopSel=${HEADLINE_STOP}, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "`;
+/** Snippet length when there is no text query to centre it on (vector-only mode). */
+const PLAIN_SNIPPET_CHARS = 160;
+
+const PART_OF_SPEECH_VALUES = Object.values(part_of_speech) as string[];
+
+export class HybridSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HybridSearchError';
+  }
+}
+
+export interface HybridSearchOptions {
+  /** Entity types to search; all of them when omitted. */
+  types?: SearchEntityType[];
+  /** Results per type. */
+  limit: number;
+  mode?: SearchMode;
+  filters?: SearchFacetFilters;
+}
+
+/** Values of the facet columns a source exposes, as text. */
+type FacetValues = Partial<Record<SearchFacetName, string | null>>;
+
+interface HydratedHit {
+  result: UnifiedSearchResult;
+  facets: FacetValues;
+}
+
+/** Everything a ranking query needs, built once per request. */
+interface QueryContext {
+  /** The raw query, trimmed. */
+  query: string;
+  /** `to_tsquery(...)` over the prefix-matched tokens; null when the query has no words. */
+  tsquery: Prisma.Sql | null;
+  /** pgvector literal of the query embedding; null when the vector ranking is off. */
+  vector: string | null;
+  pool: number;
+}
+
+interface SearchSource {
+  /** SQL expression per facet this type supports (over the source's table alias). */
+  facets: Partial<Record<SearchFacetName, Prisma.Sql>>;
+  /** Always-on conditions (not deleted, not merged, …). */
+  base: Prisma.Sql;
+  exact?: (ctx: QueryContext, where: Prisma.Sql) => Promise<bigint[]>;
+  text: (ctx: QueryContext, where: Prisma.Sql) => Promise<bigint[]>;
+  vector: (ctx: QueryContext, where: Prisma.Sql) => Promise<bigint[]>;
+  hydrate: (ids: bigint[], ctx: QueryContext) => Promise<Map<string, HydratedHit>>;
+}
+
+// ============================================
+// Query parsing
+// ============================================
+
+/**
+ * Prefix tsquery text for the query: each word becomes `word:*` and the words
+ * are ANDed, so "photo synth" finds "photosynthesis". Only letters and digits
+ * survive, which keeps to_tsquery from choking on user punctuation.
+ */
+function buildTsQueryText(query: string): string | null {
+  const tokens = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (tokens.length === 0) return null;
+  return tokens.map((t) => `${t}:*`).join(' & ');
+}
+
+function headlineSql(text: Prisma.Sql, ctx: QueryContext): Prisma.Sql {
+  return ctx.tsquery
+    ? Prisma.sql`ts_headline('english', coalesce(${text}, ''), ${ctx.tsquery}, ${HEADLINE_OPTIONS})`
+    : Prisma.sql`NULL::text`;
+}
+
+/** Split a ts_headline result on its sentinel markers. */
+function parseHeadline(headline: string): SearchSnippetSegment[] {
+  const segments: SearchSnippetSegment[] = [];
+  let highlight = false;
+  let buffer = '';
+  const flush = () => {
+    if (buffer) segments.push({ text: buffer, highlight });
+    buffer = '';
+  };
+  for (const ch of headline) {
+    if (ch === HEADLINE_START || ch === HEADLINE_STOP) {
+      flush();
+      highlight = ch === HEADLINE_START;
+    } else {
+      buffer += ch;
+    }
+  }
+  flush();
+  return segments;
+}
+
+/** Snippet from a headline when there is one, else the leading slice of the source text. */
+function toSnippet(headline: string | null, fallback: string | null): SearchSnippetSegment[] | undefined {
+  if (headline && headline.includes(HEADLINE_START)) return parseHeadline(headline);
+  const text = (fallback ?? '').trim();
+  if (!text) return undefined;
+  const clipped = text.length > PLAIN_SNIPPET_CHARS ? `${text.slice(0, PLAIN_SNIPPET_CHARS).trimEnd()}…` : text;
+  return [{ text: clipped, highlight: false }];
+}
+
+function idList(ids: bigint[]): Prisma.Sql {
+  return Prisma.join(ids);
+}
+
+// ============================================
+// Facets
+// ============================================
+
+/**
+ * Facet conditions for one source, or null when a filter is set that the
+ * source has no column for (the type then drops out of the results rather
+ * than silently ignoring the filter).
+ */
+function facetWhere(source: SearchSource, filters: SearchFacetFilters): Prisma.Sql | null {
+  const conditions: Prisma.Sql[] = [source.base];
+  for (const [name, value] of Object.entries(filters) as [SearchFacetName, SearchFacetFilters[SearchFacetName]][]) {
+    if (value === undefined) continue;
+    const column = source.facets[name];
+    if (!column) return null;
+    if (typeof value === 'boolean') {
+      conditions.push(Prisma.sql`${column} = ${value ? 'true' : 'false'}`);
+    } else if (value.length > 0) {
+      conditions.push(Prisma.sql`${column} IN (${Prisma.join(value as string[])})`);
+    }
+  }
+  return Prisma.join(conditions, ' AND ');
+}
+
+function countFacets(hits: HydratedHit[], counts: SearchFacetCounts): void {
+  for (const { facets } of hits) {
+    for (const [name, value] of Object.entries(facets) as [SearchFacetName, string | null][]) {
+      if (value == null) continue;
+      const bucket = (counts[name] ??= {});
+      bucket[value] = (bucket[value] ?? 0) + 1;
+    }
+  }
+}
+
+// ============================================
+// Sources
+// ============================================
+
+const conceptSource: SearchSource = {
+  facets: {
+    archetype: Prisma.sql`c.archetype::text`,
+    subtype: Prisma.sql`c.subtype::text`,
+    flagged: Prisma.sql`coalesce(c.flagged, false)::text`,
+    domain: Prisma.sql`c.domain::text`,
+  },
+  base: Prisma.sql`c.deleted = false AND c.merged_into IS NULL`,
+  exact: async (ctx, where) => {
+    const rows = await prisma.$queryRaw<{ id: bigint }[]>(Prisma.sql`
+      SELECT c.id FROM concepts c
+      WHERE (lower(c.label) = lower(${ctx.query}) OR lower(c.code) = lower(${ctx.query})) AND ${where}
+      ORDER BY length(c.label), c.id
+      LIMIT ${ctx.pool}
+    `);
+    return rows.map((r) => r.id);
+  },
+  text: async (ctx, where) => {
+    const rows = await prisma.$queryRaw<{ id: bigint }[]>(Prisma.sql`
+      SELECT c.id FROM concepts c
+      WHERE c.gloss_tsv @@ ${ctx.tsquery} AND ${where}
+      ORDER BY ts_rank_cd(c.gloss_tsv, ${ctx.tsquery}) DESC, c.id
+      LIMIT ${ctx.pool}
+    `);
+    return rows.map((r) => r.id);
+  },
+  vector: async (ctx, where) => {
+    const rows = await prisma.$queryRaw<{ id: bigint }[]>(Prisma.sql`
+      SELECT c.id FROM concepts c
+      WHERE c.embedding IS NOT NULL AND ${where}
+      ORDER BY c.embedding <=> ${ctx.vector}::extensions.vector
+      LIMIT ${ctx.pool}
+    `);
+    return rows.map((r) => r.id);
+  },
+  hydrate: async (ids, ctx) => {
+    const rows = await prisma.$queryRaw<Array<{
+      id: bigint;
+      label: string;
+      short_definition: string | null;
+      definition: string | null;
+      archetype: string | null;
+      subtype: string | null;
+      flagged: string;
+      domain: string | null;
+      headline: string | null;
+    }>>(Prisma.sql`
+      SELECT c.id, c.label, c.short_definition, c.definition,
+             c.archetype::text AS archetype, c.subtype::text AS subtype,
+             coalesce(c.flagged, false)::text AS flagged, c.domain::text AS domain,
+             ${headlineSql(Prisma.sql`concat_ws(' — ', c.short_definition, c.definition)`, ctx)} AS headline
+      FROM concepts c
+      WHERE c.id IN (${idList(ids)})
+    `);
+    return new Map(rows.map((row) => {
+      const id = row.id.toString();
+      return [id, {
+        result: {
+          type: 'concept',
+          id,
+          label: row.label,
+          sublabel: row.short_definition || row.definition || undefined,
+          badge: row.archetype ?? undefined,
+          href: `/graph/concepts?entry=${id}`,
+          snippet: toSnippet(row.headline, row.short_definition || row.definition),
+        },
+        facets: { archetype: row.archetype, subtype: row.subtype, flagged: row.flagged, domain: row.domain },
+      }];
+    }));
+  },
+};
+
+const lexicalUnitSource: SearchSource = {
+  facets: {
+    pos: Prisma.sql`lu.pos::text`,
+    flagged: Prisma.sql`coalesce(lu.flagged, false)::text`,
+  },
+  base: Prisma.sql`coalesce(lu.deleted, false) = false`,
+  exact: async (ctx, where) => {
+    const rows = await prisma.$queryRaw<{ id: bigint }[]>(Prisma.sql`
+      SELECT lu.id FROM lexical_units lu
+      WHERE (lu.lemmas && ARRAY[${ctx.query}, ${ctx.query.toLowerCase()}]::text[]
+             OR lower(lu.code) = lower(${ctx.query}))
+        AND ${where}
+      ORDER BY cardinality(lu.lemmas), lu.id
+      LIMIT ${ctx.pool}
+    `);
+    return rows.map((r) => r.id);
+  },
+  text: async (ctx, where) => {
+    // Examples count for half: a word used in an example sentence is weaker
+    // evidence than the same word in the gloss.
+    const rows = await prisma.$queryRaw<{ id: bigint }[]>(Prisma.sql`
+      SELECT lu.id FROM lexical_units lu
+      WHERE (lu.gloss_tsv @@ ${ctx.tsquery} OR lu.examples_tsv @@ ${ctx.tsquery}) AND ${where}
+      ORDER BY coalesce(ts_rank_cd(lu.gloss_tsv, ${ctx.tsquery}), 0)
+             + 0.5 * coalesce(ts_rank_cd(lu.examples_tsv, ${ctx.tsquery}), 0) DESC, lu.id
+      LIMIT ${ctx.pool}
+    `);
+    return rows.map((r) => r.id);
+  },
+  vector: async (ctx, where) => {
+    const rows = await prisma.$queryRaw<{ id: bigint }[]>(Prisma.sql`
+      SELECT lu.id FROM lexical_units lu
+      WHERE lu.embedding_1536 IS NOT NULL AND ${where}
+      ORDER BY lu.embedding_1536 <=> ${ctx.vector}::extensions.vector
+      LIMIT ${ctx.pool}
+    `);
+    return rows.map((r) => r.id);
+  },
+  hydrate: async (ids, ctx) => {
+    const rows = await prisma.$queryRaw<Array<{
+      id: bigint;
+      code: string;
+      lemmas: string[];
+      gloss: string;
+      pos: string;
+      flagged: string;
+      headline: string | null;
+    }>>(Prisma.sql`
+      SELECT lu.id, lu.code, lu.lemmas, lu.gloss, lu.pos::text AS pos,
+             coalesce(lu.flagged, false)::text AS flagged,
+             ${headlineSql(Prisma.sql`lu.gloss`, ctx)} AS headline
+      FROM lexical_units lu
+      WHERE lu.id IN (${idList(ids)})
+    `);
+    return new Map(rows.map((row) => {
+      const id = row.id.toString();
+      return [id, {
+        result: {
+          type: 'lexical_unit',
+          id,
+          label: row.lemmas.filter(Boolean).join(', ') || row.code,
+          sublabel: row.gloss || undefined,
+          badge: row.pos,
+          // The senses table matches linked lexical unit codes.
+          href: `/table?search=${encodeURIComponent(row.code)}`,
+          snippet: toSnippet(row.headline, row.gloss),
+        },
+        facets: { pos: row.pos, flagged: row.flagged },
+      }];
+    }));
+  },
+};
+
+const senseSource: SearchSource = {
+  facets: {
+    pos: Prisma.sql`s.pos::text`,
+    archetype: Prisma.sql`s.archetype`,
+  },
+  base: Prisma.sql`TRUE`,
+  exact: async (ctx, where) => {
+    const rows = await prisma.$queryRaw<{ id: bigint }[]>(Prisma.sql`
+      SELECT s.id::bigint AS id FROM senses s
+      WHERE s.lemmas && ARRAY[${ctx.query}, ${ctx.query.toLowerCase()}]::text[] AND ${where}
+      ORDER BY cardinality(s.lemmas), s.id
+      LIMIT ${ctx.pool}
+    `);
+    return rows.map((r) => r.id);
+  },
+  text: async (ctx, where) => {
+    const rows = await prisma.$queryRaw<{ id: bigint }[]>(Prisma.sql`
+      SELECT s.id::bigint AS id FROM senses s
+      WHERE s.gloss_tsv @@ ${ctx.tsquery} AND ${where}
+      ORDER BY ts_rank_cd(s.gloss_tsv, ${ctx.tsquery}) DESC, s.id
+      LIMIT ${ctx.pool}
+    `);
+    return rows.map((r) => r.id);
+  },
+  vector: async (ctx, where) => {
+    const rows = await prisma.$queryRaw<{ id: bigint }[]>(Prisma.sql`
+      SELECT s.id::bigint AS id FROM senses s
+      WHERE s.embedding IS NOT NULL AND ${where}
+      ORDER BY s.embedding <=> ${ctx.vector}::extensions.halfvec
+      LIMIT ${ctx.pool}
+    `);
+    return rows.map((r) => r.id);
+  },
+  hydrate: async (ids, ctx) => {
+    const rows = await prisma.$queryRaw<Array<{
+      id: bigint;
+      lemmas: string[];
+      definition: string;
+      pos: string;
+      archetype: string;
+      concept_label: string | null;
+      headline: string | null;
+    }>>(Prisma.sql`
+      SELECT s.id::bigint AS id, s.lemmas, s.definition, s.pos::text AS pos, s.archetype,
+             (SELECT c.label FROM sense_concepts sc JOIN concepts c ON c.id = sc.concept_id
+              WHERE sc.sense_id = s.id ORDER BY c.id LIMIT 1) AS concept_label,
+             ${headlineSql(Prisma.sql`s.definition`, ctx)} AS headline
+      FROM senses s
+      WHERE s.id IN (${idList(ids)})
+    `);
+    return new Map(rows.map((row) => {
+      const id = row.id.toString();
+      return [id, {
+        result: {
+          type: 'sense',
+          id,
+          label: row.lemmas.filter(Boolean).join(', ') || row.definition || `Sense #${id}`,
+          sublabel: row.definition || row.concept_label || undefined,
+          badge: row.pos,
+          href: `/table?search=${encodeURIComponent(id)}&highlightId=${encodeURIComponent(id)}`,
+          snippet: toSnippet(row.headline, row.definition),
+        },
+        facets: { pos: row.pos, archetype: row.archetype },
+      }];
+    }));
+  },
+};
+
+const referentSource: SearchSource = {
+  facets: {},
+  base: Prisma.sql`r.merged_into_id IS NULL`,
+  exact: async (ctx, where) => {
+    const normalized = normalizeReferentLabel(ctx.query);
+    if (!normalized) return [];
+    const rows = await prisma.$queryRaw<{ id: bigint }[]>(Prisma.sql`
+      SELECT r.id FROM referents r
+      WHERE (public.normalize_referent_label(r.canonical_label) = ${normalized}
+             OR EXISTS (SELECT 1 FROM referent_aliases ra
+                        WHERE ra.referent_id = r.id AND ra.normalized = ${normalized}))
+        AND ${where}
+      ORDER BY r.id
+      LIMIT ${ctx.pool}
+    `);
+    return rows.map((r) => r.id);
+  },
+  text: async (ctx, where) => {
+    const rows = await prisma.$queryRaw<{ id: bigint }[]>(Prisma.sql`
+      SELECT r.id FROM referents r
+      WHERE r.gloss_tsv @@ ${ctx.tsquery} AND ${where}
+      ORDER BY ts_rank_cd(r.gloss_tsv, ${ctx.tsquery}) DESC, r.id
+      LIMIT ${ctx.pool}
+    `);
+    return rows.map((r) => r.id);
+  },
+  vector: async (ctx, where) => {
+    const rows = await prisma.$queryRaw<{ id: bigint }[]>(Prisma.sql`
+      SELECT r.id FROM referents r
+      WHERE r.embedding IS NOT NULL AND ${where}
+      ORDER BY r.embedding <=> ${ctx.vector}::extensions.vector
+      LIMIT ${ctx.pool}
+    `);
+    return rows.map((r) => r.id);
+  },
+  hydrate: async (ids, ctx) => {
+    const rows = await prisma.$queryRaw<Array<{
+      id: bigint;
+      canonical_label: string;
+      type_label: string | null;
+      headline: string | null;
+    }>>(Prisma.sql`
+      SELECT r.id, r.canonical_label, c.label AS type_label,
+             ${headlineSql(Prisma.sql`r.canonical_label`, ctx)} AS headline
+      FROM referents r
+      LEFT JOIN concepts c ON c.id = r.type_concept_id
+      WHERE r.id IN (${idList(ids)})
+    `);
+    return new Map(rows.map((row) => {
+      const id = row.id.toString();
+      return [id, {
+        result: {
+          type: 'referent',
+          id,
+          label: row.canonical_label,
+          sublabel: row.type_label ?? undefined,
+          href: `/table/referents?search=${encodeURIComponent(id)}&highlightId=${encodeURIComponent(id)}`,
+          snippet: toSnippet(row.headline, null),
+        },
+        facets: {},
+      }];
+    }));
+  },
+};
+
+/**
+ * Claims are instances placed in a knowledge graph. They have no text of
+ * their own, so they are ranked through their referent (and, more weakly,
+ * their concept).
+ */
+const claimSource: SearchSource = {
+  facets: {},
+  base: Prisma.sql`i.knowledge_graph_id IS NOT NULL`,
+  text: async (ctx, where) => {
+    const rows = await prisma.$queryRaw<{ id: bigint }[]>(Prisma.sql`
+      SELECT i.id FROM instances i
+      JOIN concepts c ON c.id = i.concept_id
+      LEFT JOIN referents r ON r.id = i.referent_id
+      WHERE (r.gloss_tsv @@ ${ctx.tsquery} OR c.gloss_tsv @@ ${ctx.tsquery}) AND ${where}
+      ORDER BY greatest(coalesce(ts_rank_cd(r.gloss_tsv, ${ctx.tsquery}), 0),
+                        0.5 * ts_rank_cd(c.gloss_tsv, ${ctx.tsquery})) DESC, i.id
+      LIMIT ${ctx.pool}
+    `);
+    return rows.map((r) => r.id);
+  },
+  vector: async (ctx, where) => {
+    const rows = await prisma.$queryRaw<{ id: bigint }[]>(Prisma.sql`
+      SELECT i.id FROM (
+        SELECT r.id, r.embedding <=> ${ctx.vector}::extensions.vector AS distance
+        FROM referents r
+        WHERE r.embedding IS NOT NULL AND r.merged_into_id IS NULL
+        ORDER BY distance
+        LIMIT ${ctx.pool}
+      ) nearest
+      JOIN instances i ON i.referent_id = nearest.id
+      WHERE ${where}
+      ORDER BY nearest.distance, i.id
+      LIMIT ${ctx.pool}
+    `);
+    return rows.map((r) => r.id);
+  },
+  hydrate: async (ids, ctx) => {
+    const rows = await prisma.$queryRaw<Array<{
+      id: bigint;
+      knowledge_graph_id: bigint | null;
+      concept_label: string | null;
+      referent_label: string | null;
+      graph_label: string | null;
+      headline: string | null;
+    }>>(Prisma.sql`
+      SELECT i.id, i.knowledge_graph_id, c.label AS concept_label,
+             r.canonical_label AS referent_label, kg.label AS graph_label,
+             ${headlineSql(Prisma.sql`coalesce(r.canonical_label, c.label)`, ctx)} AS headline
+      FROM instances i
+      LEFT JOIN concepts c ON c.id = i.concept_id
+      LEFT JOIN referents r ON r.id = i.referent_id
+      LEFT JOIN knowledge_graphs kg ON kg.id = i.knowledge_graph_id
+      WHERE i.id IN (${idList(ids)})
+    `);
+    return new Map(rows.map((row) => {
+      const id = row.id.toString();
+      const graphId = row.knowledge_graph_id?.toString() ?? '';
+      return [id, {
+        result: {
+          type: 'claim',
+          id,
+          label: row.concept_label || `Instance #${id}`,
+          sublabel: row.referent_label || undefined,
+          badge: row.graph_label ?? undefined,
+          href: `/claims?graph=${encodeURIComponent(graphId)}&highlight=${encodeURIComponent(id)}`,
+          snippet: toSnippet(row.headline, null),
+        },
+        facets: {},
+      }];
+    }));
+  },
+};
+
+const SOURCES: Record<SearchEntityType, SearchSource> = {
+  concept: conceptSource,
+  lexical_unit: lexicalUnitSource,
+  sense: senseSource,
+  referent: referentSource,
+  claim: claimSource,
+};
+
+// ============================================
+// Fusion
+// ============================================
+
+interface FusedCandidate {
+  id: bigint;
+  score: number;
+  matched_by: SearchMatchSource[];
+}
+
+/** Reciprocal-rank fusion of per-ranking id lists (best first). */
+function fuseRankings(rankings: Array<{ source: SearchMatchSource; ids: bigint[] }>): FusedCandidate[] {
+  const fused = new Map<string, FusedCandidate>();
+  for (const { source, ids } of rankings) {
+    ids.forEach((id, index) => {
+      const key = id.toString();
+      const entry = fused.get(key) ?? { id, score: 0, matched_by: [] };
+      entry.score += 1 / (RRF_K + index + 1);
+      if (!entry.matched_by.includes(source)) entry.matched_by.push(source);
+      fused.set(key, entry);
+    });
+  }
+  return [...fused.values()].sort((a, b) =>
+    b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0),
+  );
+}
+
+interface TypeSearchResult {
+  results: UnifiedSearchResult[];
+  hits: HydratedHit[];
+  vectorFailed: boolean;
+}
+
+async function searchType(
+  type: SearchEntityType,
+  ctx: QueryContext,
+  mode: SearchMode,
+  filters: SearchFacetFilters,
+  limit: number,
+): Promise<TypeSearchResult> {
+  const source = SOURCES[type];
+  const where = facetWhere(source, filters);
+  if (!where) return { results: [], hits: [], vectorFailed: false };
+
+  let vectorFailed = false;
+  const legs: Array<Promise<{ source: SearchMatchSource; ids: bigint[] }>> = [];
+  if (mode !== 'vector') {
+    if (source.exact) legs.push(source.exact(ctx, where).then((ids) => ({ source: 'exact' as const, ids })));
+    if (ctx.tsquery) legs.push(source.text(ctx, where).then((ids) => ({ source: 'text' as const, ids })));
+  }
+  if (ctx.vector) {
+    legs.push(
+      source.vector(ctx, where)
+        .then((ids) => ({ source: 'vector' as const, ids }))
+        .catch((err) => {
+          console.error(`[search] vector ranking for "${type}" failed:`, err);
+          vectorFailed = true;
+          return { source: 'vector' as const, ids: [] };
+        }),
+    );
+  }
+
+  const fused = fuseRankings(await Promise.all(legs)).slice(0, ctx.pool);
+  if (fused.length === 0) return { results: [], hits: [], vectorFailed };
+
+  const hydrated = await source.hydrate(fused.map((f) => f.id), ctx);
+  const hits: HydratedHit[] = [];
+  for (const candidate of fused) {
+    const hit = hydrated.get(candidate.id.toString());
+    if (!hit) continue;
+    hit.result.score = candidate.score;
+    hit.result.matched_by = candidate.matched_by;
+    hits.push(hit);
+  }
+  return { results: hits.slice(0, limit).map((h) => h.result), hits, vectorFailed };
+}
+
+// ============================================
+// Entry points
+// ============================================
+
+/**
+ * Run the hybrid search. Facet counts cover every fused candidate (up to the
+ * candidate pool per type), not just the returned page, so they describe
+ * what narrowing a filter would leave.
+ */
+export async function hybridSearch(query: string, options: HybridSearchOptions): Promise<HybridSearchResponse> {
+  const q = query.trim();
+  const mode = options.mode ?? 'hybrid';
+  const filters = options.filters ?? {};
+  const types = options.types ?? SEARCH_ENTITY_TYPES;
+  const response: HybridSearchResponse = { query: q, mode, vector_used: false, groups: {}, facets: {} };
+  for (const type of types) response.groups[type] = [];
+  if (q.length < 2) return response;
+
+  let vector: string | null = null;
+  if (mode !== 'text' && embeddingsAvailable()) {
+    try {
+      vector = toVectorLiteral(await embedText(q));
+    } catch (err) {
+      console.error('[search] query embedding failed:', err);
+    }
+  }
+
+  const tsQueryText = buildTsQueryText(q);
+  const ctx: QueryContext = {
+    query: q,
+    tsquery: tsQueryText ? Prisma.sql`to_tsquery('english', ${tsQueryText})` : null,
+    vector,
+    pool: Math.min(Math.max(options.limit * 3, MIN_POOL), MAX_POOL),
+  };
+
+  const outcomes = await Promise.all(types.map((type) =>
+    searchType(type, ctx, mode, filters, options.limit).catch((err) => {
+      console.error(`[search] "${type}" search failed:`, err);
+      return { results: [], hits: [], vectorFailed: false } as TypeSearchResult;
+    }),
+  ));
+
+  types.forEach((type, index) => {
+    response.groups[type] = outcomes[index].results;
+    countFacets(outcomes[index].hits, response.facets);
+  });
+  response.vector_used = vector !== null && !outcomes.some((o) => o.vectorFailed);
+  return response;
+}
+
+function listParam(params: URLSearchParams, name: string): string[] | undefined {
+  const values = params.getAll(name)
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
+
+/**
+ * Read `mode`, `pos`, `archetype`, `subtype`, `domain` (comma-separated or
+ * repeated) and `flagged` (true|false) from a search URL.
+ */
+export function parseSearchFilters(params: URLSearchParams): { mode: SearchMode; filters: SearchFacetFilters } {
+  const modeParam = params.get('mode') || 'hybrid';
+  if (!SEARCH_MODES.includes(modeParam as SearchMode)) {
+    throw new HybridSearchError(`Invalid mode: ${modeParam}`);
+  }
+
+  const filters: SearchFacetFilters = {};
+  const pos = listParam(params, 'pos');
+  if (pos) {
+    const invalid = pos.find((p) => !PART_OF_SPEECH_VALUES.includes(p));
+    if (invalid) throw new HybridSearchError(`Invalid pos: ${invalid}`);
+    filters.pos = pos as PartOfSpeech[];
+  }
+  for (const name of ['archetype', 'subtype', 'domain'] as const) {
+    const values = listParam(params, name);
+    if (values) filters[name] = values;
+  }
+  const flagged = params.get('flagged');
+  if (flagged !== null && flagged !== '') {
+    if (flagged !== 'true' && flagged !== 'false') {
+      throw new HybridSearchError('flagged must be true or false');
+    }
+    filters.flagged = flagged === 'true';
+  }
+  return { mode: modeParam as SearchMode, filters };
+}
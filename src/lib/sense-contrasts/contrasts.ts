@@ -0,0 +1,160 @@
+/**
+ * Sense contrasts for display: for each polysemous lemma of a lexical unit
+ * or sense, its sibling senses and what distinguishes each pair, with
+ * staged (uncommitted) edits overlaid. Edits themselves go through the
+ * `sense_contrast` changesets in `@/lib/version-control/sense-contrasts`.
+ */
+
+import type { part_of_speech } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { SenseContrastError } from '@/lib/version-control/sense-contrasts';
+import type {
+  ContrastSenseSummary,
+  LemmaContrastGroup,
+  PendingSenseContrastChange,
+  SenseContrastEntry,
+} from './types';
+
+const pairKey = (lo: number | string, hi: number | string) => `${lo}:${hi}`;
+
+/** Pending sense_contrast changesets, keyed by sense pair and by contrast id. */
+async function loadPendingContrastChanges(): Promise<{
+  byPair: Map<string, PendingSenseContrastChange>;
+  byId: Map<string, PendingSenseContrastChange>;
+}> {
+  const changesets = await prisma.changesets.findMany({
+    where: { entity_type: 'sense_contrast', status: 'pending' },
+    select: {
+      id: true,
+      operation: true,
+      entity_id: true,
+      llm_job_id: true,
+      after_snapshot: true,
+      field_changes: { select: { field_name: true, new_value: true } },
+    },
+  });
+
+  const byPair = new Map<string, PendingSenseContrastChange>();
+  const byId = new Map<string, PendingSenseContrastChange>();
+  for (const cs of changesets) {
+    if (cs.operation !== 'create' && cs.operation !== 'update' && cs.operation !== 'delete') continue;
+    const snapshot = (cs.after_snapshot ?? {}) as Record<string, unknown>;
+    const textChange = cs.field_changes.find((fc) => fc.field_name === 'contrast_text');
+    const text = cs.operation === 'create'
+      ? snapshot.contrast_text
+      : cs.operation === 'update' ? textChange?.new_value : null;
+    const change: PendingSenseContrastChange = {
+      changeset_id: cs.id.toString(),
+      operation: cs.operation,
+      contrast_text: typeof text === 'string' ? text : null,
+      llm_job_id: cs.llm_job_id?.toString() ?? null,
+    };
+    if (cs.operation === 'create') {
+      byPair.set(pairKey(String(snapshot.sense_id), String(snapshot.contrasted_sense_id)), change);
+    } else if (cs.entity_id !== null) {
+      byId.set(cs.entity_id.toString(), change);
+    }
+  }
+  return { byPair, byId };
+}
+
+/**
+ * Contrast groups for `lemmas` within one part of speech. Lemmas with
+ * fewer than two senses are left out.
+ */
+export async function getLemmaContrastGroups(
+  lemmas: string[],
+  pos: part_of_speech,
+): Promise<LemmaContrastGroup[]> {
+  const wanted = Array.from(new Set(lemmas.filter((l) => l.trim() !== '')));
+  if (wanted.length === 0) return [];
+
+  const senses = await prisma.senses.findMany({
+    where: { pos, lemmas: { hasSome: wanted } },
+    select: {
+      id: true,
+      pos: true,
+      definition: true,
+      lemmas: true,
+      sense_concepts: { select: { concepts: { select: { label: true } } } },
+    },
+    orderBy: { id: 'asc' },
+  });
+  if (senses.length < 2) return [];
+
+  const ids = senses.map((s) => s.id);
+  const [rows, pending] = await Promise.all([
+    prisma.sense_contrasts.findMany({
+      where: { sense_id: { in: ids }, contrasted_sense_id: { in: ids } },
+    }),
+    loadPendingContrastChanges(),
+  ]);
+  const rowsByPair = new Map(rows.map((r) => [pairKey(r.sense_id, r.contrasted_sense_id), r]));
+
+  const groups: LemmaContrastGroup[] = [];
+  for (const lemma of wanted) {
+    const members = senses.filter((s) => s.lemmas.includes(lemma));
+    if (members.length < 2) continue;
+
+    const contrasts: SenseContrastEntry[] = [];
+    let missing = 0;
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const lo = members[i].id;
+        const hi = members[j].id;
+        const row = rowsByPair.get(pairKey(lo, hi));
+        const change = row ? pending.byId.get(row.id.toString()) : pending.byPair.get(pairKey(lo, hi));
+        if (!row && !change) {
+          missing++;
+          continue;
+        }
+        contrasts.push({
+          id: row ? row.id.toString() : null,
+          sense_id: lo.toString(),
+          contrasted_sense_id: hi.toString(),
+          contrast_text: row?.contrast_text ?? null,
+          pending: change ?? null,
+        });
+      }
+    }
+
+    groups.push({
+      lemma,
+      pos,
+      senses: members.map((s): ContrastSenseSummary => ({
+        id: s.id.toString(),
+        pos: s.pos,
+        definition: s.definition,
+        lemmas: s.lemmas,
+        concept_label: s.sense_concepts.length === 1 ? s.sense_concepts[0].concepts.label : null,
+      })),
+      contrasts,
+      missing_count: missing,
+    });
+  }
+  return groups;
+}
+
+/** Contrast groups for every lemma of a lexical unit. */
+export async function getSenseContrastsForLexicalUnit(lexicalUnitId: bigint): Promise<LemmaContrastGroup[]> {
+  const unit = await prisma.lexical_units.findFirst({
+    where: { id: lexicalUnitId, deleted: false },
+    select: { lemmas: true, pos: true },
+  });
+  if (!unit) {
+    throw new SenseContrastError(`Lexical unit ${lexicalUnitId} not found`, 404);
+  }
+  return getLemmaContrastGroups(unit.lemmas, unit.pos);
+}
+
+/** Contrast groups for every lemma of a sense. */
+export async function getSenseContrastsForSense(senseId: number): Promise<LemmaContrastGroup[]> {
+  const sense = await prisma.senses.findUnique({
+    where: { id: senseId },
+    select: { lemmas: true, pos: true },
+  });
+  if (!sense) {
+    throw new SenseContrastError(`Sense ${senseId} not found`, 404);
+  }
+  return getLemmaContrastGroups(sense.lemmas, sense.pos);
+}
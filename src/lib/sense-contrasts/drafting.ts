@@ -0,0 +1,342 @@
+/**
+ * LLM drafting of missing sense contrasts (`draft_sense_contrasts` jobs).
+ *
+ * `prepareContrastDraftItems` turns a `sense_contrast_lemmas` scope into one
+ * job item per polysemous lemma that still has sense pairs without a
+ * contrast (or a staged one). Execution happens in the job runner like every
+ * other job type; `stageContrastDraftingJob` then stages each drafted text
+ * as a pending `sense_contrast` CREATE carrying the job id, for reviewers to
+ * accept or revise.
+ */
+
+import { Prisma, type part_of_speech } from '@prisma/client';
+import { z } from 'zod';
+import { zodSchema } from 'ai';
+import { prisma } from '@/lib/prisma';
+import { renderTemplate } from '@/lib/llm/template-renderer';
+import type { JobScopeSenseContrastLemmas } from '@/lib/llm/types';
+import {
+  SenseContrastError,
+  canonicalSensePair,
+  findPendingSenseContrastCreate,
+  stageSenseContrastCreate,
+} from '@/lib/version-control/sense-contrasts';
+import { getLemmaContrastGroups } from './contrasts';
+import { DEFAULT_SENSE_CONTRAST_TEMPLATE } from './prompt';
+import type {
+  ContrastDraftItemContext,
+  ContrastDraftItemReport,
+  LemmaContrastGroup,
+  StageContrastDraftsResult,
+} from './types';
+
+/** Lemmas per job when the scope sets no limit. */
+const DEFAULT_LEMMA_LIMIT = 200;
+
+/**
+ * Pairs asked for in one item. A lemma with more missing pairs gets the
+ * first ones; the rest stay missing for a later job.
+ */
+const MAX_PAIRS_PER_ITEM = 45;
+
+export const contrastDraftOutputSchema = z.object({
+  contrasts: z.array(
+    z.object({
+      sense_id: z.number().int().describe('Id of the first sense of the pair, as listed'),
+      contrasted_sense_id: z.number().int().describe('Id of the second sense of the pair, as listed'),
+      contrast_text: z.string().describe('What distinguishes the first sense from the second'),
+    }),
+  ),
+});
+
+/** JSON Schema handed to the job runner alongside each rendered prompt. */
+export function contrastDraftOutputJsonSchema(): unknown {
+  return zodSchema(contrastDraftOutputSchema).jsonSchema;
+}
+
+export interface PreparedContrastDraftItem {
+  request_payload: Prisma.InputJsonObject;
+}
+
+// ============================================
+// Job preparation
+// ============================================
+
+/**
+ * (lemma, pos) pairs in scope with at least one sense pair lacking both a
+ * contrast and a staged CREATE, alphabetically.
+ */
+async function findLemmasMissingContrasts(
+  scope: JobScopeSenseContrastLemmas,
+  limit: number,
+): Promise<{ lemmas: Array<{ lemma: string; pos: part_of_speech }>; total: number }> {
+  const lemmaFilter = scope.lemmas && scope.lemmas.length > 0
+    ? Prisma.sql`AND l = ANY(${scope.lemmas}::text[])`
+    : Prisma.empty;
+  const posFilter = scope.pos ? Prisma.sql`AND s.pos = ${scope.pos}::part_of_speech` : Prisma.empty;
+
+  const rows = await prisma.$queryRaw<Array<{ lemma: string; pos: part_of_speech; total: bigint }>>`
+    WITH lemma_senses AS (
+      SELECT DISTINCT l AS lemma, s.pos, s.id
+      FROM senses s, unnest(s.lemmas) AS l
+      WHERE true ${lemmaFilter} ${posFilter}
+    ),
+    missing AS (
+      SELECT DISTINCT a.lemma, a.pos
+      FROM lemma_senses a
+      JOIN lemma_senses b ON b.lemma = a.lemma AND b.pos = a.pos AND b.id > a.id
+      WHERE NOT EXISTS (
+          SELECT 1 FROM sense_contrasts c
+          WHERE c.sense_id = a.id AND c.contrasted_sense_id = b.id
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM changesets cs
+          WHERE cs.entity_type = 'sense_contrast'
+            AND cs.operation = 'create'
+            AND cs.status = 'pending'
+            AND cs.after_snapshot->>'sense_id' = a.id::text
+            AND cs.after_snapshot->>'contrasted_sense_id' = b.id::text
+        )
+    )
+    SELECT lemma, pos, COUNT(*) OVER ()::bigint AS total
+    FROM missing
+    ORDER BY lemma, pos
+    LIMIT ${limit}
+  `;
+  return {
+    lemmas: rows.map((r) => ({ lemma: r.lemma, pos: r.pos })),
+    total: rows.length > 0 ? Number(rows[0].total) : 0,
+  };
+}
+
+function missingPairs(group: LemmaContrastGroup): Array<[string, string]> {
+  const covered = new Set(group.contrasts.map((c) => `${c.sense_id}:${c.contrasted_sense_id}`));
+  const pairs: Array<[string, string]> = [];
+  for (let i = 0; i < group.senses.length; i++) {
+    for (let j = i + 1; j < group.senses.length; j++) {
+      const [lo, hi] = [group.senses[i].id, group.senses[j].id];
+      if (!covered.has(`${lo}:${hi}`)) pairs.push([lo, hi]);
+    }
+  }
+  return pairs;
+}
+
+export function renderContrastDraftPrompt(
+  template: string,
+  group: LemmaContrastGroup,
+  pairs: Array<[string, string]>,
+): { prompt: string; variables: Record<string, string> } {
+  const existing = group.contrasts
+    .map((c) => ({ ...c, text: c.pending?.contrast_text ?? c.contrast_text }))
+    .filter((c) => c.text);
+  const variables = {
+    lemma: group.lemma,
+    pos: group.pos,
+    sense_list: group.senses
+      .map((s) => `[${s.id}] ${s.definition}${s.concept_label ? ` (concept: ${s.concept_label})` : ''}`)
+      .join('\n'),
+    existing_contrasts: existing.map((c) => `[${c.sense_id}] vs [${c.contrasted_sense_id}]: ${c.text}`).join('\n'),
+    missing_pairs: pairs.map(([lo, hi]) => `[${lo}] vs [${hi}]`).join('\n'),
+  };
+  const result = renderTemplate(template, { ...variables, senses: group.senses });
+  if (!result.success) {
+    throw new SenseContrastError(`Prompt template error: ${result.error ?? 'unknown error'}`);
+  }
+  return { prompt: result.prompt, variables };
+}
+
+/**
+ * Resolve the scope into rendered per-lemma payloads. `totalLemmas` is the
+ * number of lemmas the whole job covers, which can exceed `options.limit`
+ * (used for previews).
+ */
+export async function prepareContrastDraftItems(
+  scope: JobScopeSenseContrastLemmas,
+  promptTemplate: string | undefined,
+  options: { limit?: number } = {},
+): Promise<{ items: PreparedContrastDraftItem[]; totalLemmas: number }> {
+  const scopeLimit = scope.limit && scope.limit > 0 ? scope.limit : DEFAULT_LEMMA_LIMIT;
+  const { lemmas, total } = await findLemmasMissingContrasts(
+    scope,
+    Math.min(scopeLimit, options.limit ?? scopeLimit),
+  );
+
+  const template = promptTemplate?.trim() || DEFAULT_SENSE_CONTRAST_TEMPLATE;
+  const responseSchema = contrastDraftOutputJsonSchema() as Prisma.InputJsonValue;
+
+  const byPos = new Map<part_of_speech, string[]>();
+  for (const { lemma, pos } of lemmas) {
+    byPos.set(pos, [...(byPos.get(pos) ?? []), lemma]);
+  }
+  const groups = new Map<string, LemmaContrastGroup>();
+  for (const [pos, posLemmas] of byPos) {
+    for (const group of await getLemmaContrastGroups(posLemmas, pos)) {
+      groups.set(`${group.lemma}:${pos}`, group);
+    }
+  }
+
+  const items: PreparedContrastDraftItem[] = [];
+  for (const { lemma, pos } of lemmas) {
+    const group = groups.get(`${lemma}:${pos}`);
+    if (!group) continue;
+    const pairs = missingPairs(group).slice(0, MAX_PAIRS_PER_ITEM);
+    if (pairs.length === 0) continue;
+
+    const { prompt, variables } = renderContrastDraftPrompt(template, group, pairs);
+    const contrast: ContrastDraftItemContext = {
+      lemma,
+      pos,
+      sense_ids: group.senses.map((s) => s.id),
+      missing_pairs: pairs,
+    };
+    items.push({
+      request_payload: {
+        promptTemplate: template,
+        renderedPrompt: prompt,
+        variables,
+        entry: { code: `${lemma} (${pos})`, pos, label: lemma },
+        contrast: contrast as unknown as Prisma.InputJsonObject,
+        responseSchema,
+      },
+    });
+  }
+
+  return { items, totalLemmas: Math.min(total, scopeLimit) };
+}
+
+// ============================================
+// Staging
+// ============================================
+
+/** Find the drafting output in a runner response payload. */
+function extractOutput(payload: Prisma.JsonValue | null): unknown {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return payload;
+  const record = payload as Record<string, unknown>;
+  if (Array.isArray(record.contrasts)) return record;
+  for (const key of ['parsed', 'output', 'result']) {
+    const value = record[key];
+    if (value && typeof value === 'object' && Array.isArray((value as Record<string, unknown>).contrasts)) {
+      return value;
+    }
+  }
+  if (typeof record.output_text === 'string') {
+    try {
+      return JSON.parse(record.output_text);
+    } catch {
+      return record.output_text;
+    }
+  }
+  return payload;
+}
+
+function readItemContext(requestPayload: Prisma.JsonValue | null): ContrastDraftItemContext | null {
+  const record = requestPayload as Record<string, unknown> | null;
+  const ctx = record?.contrast as ContrastDraftItemContext | undefined;
+  if (!ctx || !Array.isArray(ctx.missing_pairs) || !Array.isArray(ctx.sense_ids)) return null;
+  return ctx;
+}
+
+/**
+ * Stage every drafted contrast of a draft_sense_contrasts job that hasn't
+ * been staged yet. Drafts for pairs the item didn't ask for, or that gained
+ * a contrast since, are dropped and reported on the item. Safe to call
+ * repeatedly while the job runs.
+ */
+export async function stageContrastDraftingJob(
+  jobId: bigint,
+  stagedBy: string,
+): Promise<StageContrastDraftsResult> {
+  const job = await prisma.llm_jobs.findUnique({
+    where: { id: jobId },
+    select: { id: true, job_type: true },
+  });
+  if (!job) throw new SenseContrastError(`Job ${jobId} not found`, 404);
+  if (job.job_type !== 'draft_sense_contrasts') {
+    throw new SenseContrastError(`Job ${jobId} is not a draft_sense_contrasts job`);
+  }
+
+  const items = await prisma.llm_job_items.findMany({
+    where: { job_id: jobId, status: 'succeeded' },
+    select: { id: true, request_payload: true, response_payload: true, flags: true },
+    orderBy: { id: 'asc' },
+  });
+
+  const result: StageContrastDraftsResult = {
+    job_id: jobId.toString(),
+    staged_items: 0,
+    skipped_items: 0,
+    changeset_ids: [],
+    issue_count: 0,
+  };
+
+  for (const item of items) {
+    const flags = (item.flags as Record<string, unknown> | null) ?? {};
+    const ctx = readItemContext(item.request_payload);
+    if (flags.sense_contrast_drafting || !ctx) {
+      result.skipped_items++;
+      continue;
+    }
+
+    const requested = new Set(ctx.missing_pairs.map(([lo, hi]) => `${lo}:${hi}`));
+    const parsed = contrastDraftOutputSchema.safeParse(extractOutput(item.response_payload));
+    const issues: string[] = parsed.success ? [] : ['Response did not match the output schema'];
+    const changesetIds: string[] = [];
+    const seen = new Set<string>();
+
+    for (const draft of parsed.success ? parsed.data.contrasts : []) {
+      const label = `[${draft.sense_id}] vs [${draft.contrasted_sense_id}]`;
+      if (draft.sense_id === draft.contrasted_sense_id) {
+        issues.push(`${label}: a sense cannot be contrasted with itself`);
+        continue;
+      }
+      const [lo, hi] = canonicalSensePair(draft.sense_id, draft.contrasted_sense_id);
+      const key = `${lo}:${hi}`;
+      if (!requested.has(key)) {
+        issues.push(`${label}: pair was not requested`);
+        continue;
+      }
+      if (seen.has(key)) {
+        issues.push(`${label}: drafted more than once`);
+        continue;
+      }
+      seen.add(key);
+      if (await findPendingSenseContrastCreate(lo, hi)) {
+        issues.push(`${label}: a contrast is already staged`);
+        continue;
+      }
+      try {
+        const staged = await stageSenseContrastCreate(
+          { senseId: lo, contrastedSenseId: hi, contrastText: draft.contrast_text },
+          stagedBy,
+          { llmJobId: jobId },
+        );
+        changesetIds.push(staged.changeset_id);
+      } catch (error) {
+        if (!(error instanceof SenseContrastError)) throw error;
+        issues.push(`${label}: ${error.message}`);
+      }
+    }
+
+    const report: ContrastDraftItemReport = {
+      staged_at: new Date().toISOString(),
+      staged_by: stagedBy,
+      changeset_ids: changesetIds,
+      drafted_count: changesetIds.length,
+      issues,
+    };
+    await prisma.llm_job_items.update({
+      where: { id: item.id },
+      data: {
+        has_edits: changesetIds.length > 0,
+        flagged: issues.length > 0 ? true : undefined,
+        flags: { ...flags, sense_contrast_drafting: report } as unknown as Prisma.InputJsonObject,
+      },
+    });
+
+    result.staged_items++;
+    result.changeset_ids.push(...changesetIds);
+    result.issue_count += issues.length;
+  }
+
+  return result;
+}
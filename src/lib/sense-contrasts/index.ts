@@ -0,0 +1,15 @@
+export * from './types';
+export { DEFAULT_SENSE_CONTRAST_TEMPLATE } from './prompt';
+export {
+  getLemmaContrastGroups,
+  getSenseContrastsForLexicalUnit,
+  getSenseContrastsForSense,
+} from './contrasts';
+export {
+  contrastDraftOutputSchema,
+  contrastDraftOutputJsonSchema,
+  prepareContrastDraftItems,
+  renderContrastDraftPrompt,
+  stageContrastDraftingJob,
+  type PreparedContrastDraftItem,
+} from './drafting';
@@ -0,0 +1,20 @@
+/**
+ * Default user prompt for draft_sense_contrasts jobs. Kept free of server
+ * imports so the job dialog can prefill it.
+ */
+
+export const DEFAULT_SENSE_CONTRAST_TEMPLATE = `Write contrasts between senses of the {{ pos }} "{{ lemma }}".
+
+Senses:
+{{ sense_list }}
+{% if existing_contrasts %}
+Existing contrasts (match their style; do not rewrite them):
+{{ existing_contrasts }}
+{% endif %}
+Pairs that need a contrast:
+{{ missing_pairs }}
+
+Rules:
+- Write one contrast for each listed pair, using the sense ids exactly as given.
+- A contrast is one or two sentences saying what distinguishes the first sense from the second: the kind of thing or situation each applies to, not a restatement of both definitions.
+- Ground the contrast in the definitions; do not invent senses or usages.`;
@@ -0,0 +1,69 @@
+/** A sense as shown next to its contrasts. */
+export interface ContrastSenseSummary {
+  id: string;
+  pos: string;
+  definition: string;
+  lemmas: string[];
+  /** Label of the sense's concept, when it links to exactly one. */
+  concept_label: string | null;
+}
+
+/** A staged change to one contrast pair that hasn't been committed yet. */
+export interface PendingSenseContrastChange {
+  changeset_id: string;
+  operation: 'create' | 'update' | 'delete';
+  /** Proposed text; null for a delete. */
+  contrast_text: string | null;
+  /** Set when the text was drafted by a draft_sense_contrasts job. */
+  llm_job_id: string | null;
+}
+
+/**
+ * One contrast between two senses of a lemma, lower sense id first. `id`
+ * and `contrast_text` are null while the pair only has a staged create.
+ */
+export interface SenseContrastEntry {
+  id: string | null;
+  sense_id: string;
+  contrasted_sense_id: string;
+  contrast_text: string | null;
+  pending: PendingSenseContrastChange | null;
+}
+
+/**
+ * The senses sharing one lemma and part of speech, with the contrasts
+ * between them. Pairs with neither a contrast nor a staged create are left
+ * out of `contrasts` and counted in `missing_count`.
+ */
+export interface LemmaContrastGroup {
+  lemma: string;
+  pos: string;
+  senses: ContrastSenseSummary[];
+  contrasts: SenseContrastEntry[];
+  missing_count: number;
+}
+
+/** What the stager needs from each draft_sense_contrasts item; stored in request_payload.contrast. */
+export interface ContrastDraftItemContext {
+  lemma: string;
+  pos: string;
+  sense_ids: string[];
+  /** Pairs without a contrast when the job was created, as [lower id, higher id]. */
+  missing_pairs: Array<[string, string]>;
+}
+
+export interface ContrastDraftItemReport {
+  staged_at: string;
+  staged_by: string;
+  changeset_ids: string[];
+  drafted_count: number;
+  issues: string[];
+}
+
+export interface StageContrastDraftsResult {
+  job_id: string;
+  staged_items: number;
+  skipped_items: number;
+  changeset_ids: string[];
+  issue_count: number;
+}
@@ -0,0 +1,81 @@
+/**
+ * Snapshot bundles: one JSONL file per table plus `manifest.json` with
+ * row counts and SHA-256 checksums, written by `scripts/export-snapshot.ts`.
+ *
+ * Rows are the table's columns as stored (minus embeddings and tsvectors),
+ * one JSON object per line in primary-key order, so re-exporting the same
+ * snapshot yields the same files as long as the table layout is unchanged.
+ */
+
+import { createHash } from 'crypto';
+import { createWriteStream } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { once } from 'events';
+import path from 'path';
+import type { dataset_snapshots } from '@prisma/client';
+import { SNAPSHOT_TABLES, streamTableAtWatermark, type SnapshotTable } from './state';
+import { serializeSnapshot } from './store';
+import type { BundleManifest, BundleTableEntry } from './types';
+
+/** Bumped when the file layout or row encoding changes. */
+export const BUNDLE_FORMAT = 1;
+
+/** JSONL lines of one table at the snapshot. */
+export async function* streamSnapshotTable(
+  snapshot: dataset_snapshots,
+  table: SnapshotTable,
+): AsyncGenerator<string> {
+  for await (const row of streamTableAtWatermark(table, snapshot.row_history_watermark)) {
+    yield `${JSON.stringify(row)}\n`;
+  }
+}
+
+async function writeTable(snapshot: dataset_snapshots, table: SnapshotTable, dir: string): Promise<BundleTableEntry> {
+  const file = `${table.name}.jsonl`;
+  const out = createWriteStream(path.join(dir, file));
+  const hash = createHash('sha256');
+  let rows = 0;
+  let bytes = 0;
+  try {
+    for await (const line of streamSnapshotTable(snapshot, table)) {
+      const chunk = Buffer.from(line);
+      hash.update(chunk);
+      rows++;
+      bytes += chunk.length;
+      if (!out.write(chunk)) await once(out, 'drain');
+    }
+  } finally {
+    out.end();
+    await once(out, 'close');
+  }
+  return { table: table.name, file, rows, bytes, sha256: hash.digest('hex') };
+}
+
+/**
+ * Write the bundle for `snapshot` into `<outDir>/<snapshot name>/` and
+ * return its manifest. `onTable` is called after each table is written.
+ */
+export async function writeSnapshotBundle(
+  snapshot: dataset_snapshots,
+  outDir: string,
+  onTable?: (entry: BundleTableEntry) => void,
+): Promise<{ dir: string; manifest: BundleManifest }> {
+  const dir = path.join(outDir, snapshot.name);
+  await mkdir(dir, { recursive: true });
+
+  const tables: BundleTableEntry[] = [];
+  for (const table of SNAPSHOT_TABLES) {
+    const entry = await writeTable(snapshot, table, dir);
+    tables.push(entry);
+    onTable?.(entry);
+  }
+
+  const manifest: BundleManifest = {
+    bundle_format: BUNDLE_FORMAT,
+    snapshot: serializeSnapshot(snapshot),
+    exported_at: new Date().toISOString(),
+    tables,
+  };
+  await writeFile(path.join(dir, 'manifest.json'), `${JSON.stringify(manifest, null, 2)}\n`);
+  return { dir, manifest };
+}
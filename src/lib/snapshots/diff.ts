@@ -0,0 +1,235 @@
+/**
+ * Diff between two dataset snapshots, read from the history entries that
+ * fall between their watermarks. Rows touched several times collapse to
+ * their state at each end, so an edit that was made and then undone
+ * inside the range does not show up.
+ */
+
+import { Prisma, type dataset_snapshots } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { rowKey, SNAPSHOT_TABLES, type SnapshotRow, type SnapshotTable } from './state';
+import { serializeSnapshot } from './store';
+import type {
+  ConceptRef,
+  ConceptReparent,
+  LexicalUnitMove,
+  SenseChange,
+  SenseConceptMove,
+  SenseRef,
+  SnapshotDiff,
+} from './types';
+
+interface RowChange {
+  before: SnapshotRow | null;
+  after: SnapshotRow | null;
+}
+
+/** Bookkeeping columns that change on every write and say nothing about content. */
+const IGNORED_FIELDS = new Set(['created_at', 'updated_at', 'version']);
+
+const DIFF_TABLES = ['concepts', 'concept_relations', 'senses', 'sense_concepts', 'lexical_unit_senses'];
+
+function table(name: string): SnapshotTable {
+  return SNAPSHOT_TABLES.find((t) => t.name === name)!;
+}
+
+async function loadRowChanges(fromId: bigint, toId: bigint): Promise<Map<string, Map<string, RowChange>>> {
+  const entries = await prisma.$queryRaw<
+    Array<{ table_name: string; old_row: SnapshotRow | null; new_row: SnapshotRow | null }>
+  >(Prisma.sql`
+    SELECT table_name, old_row, new_row
+    FROM entity_row_history
+    WHERE id > ${fromId} AND id <= ${toId} AND table_name = ANY(${DIFF_TABLES})
+    ORDER BY id
+  `);
+
+  const byTable = new Map<string, Map<string, RowChange>>(DIFF_TABLES.map((name) => [name, new Map()]));
+  for (const entry of entries) {
+    const t = table(entry.table_name);
+    const changes = byTable.get(t.name)!;
+    if (entry.old_row) {
+      const key = rowKey(t, entry.old_row);
+      const change = changes.get(key) ?? { before: entry.old_row, after: null };
+      change.after = null;
+      changes.set(key, change);
+    }
+    if (entry.new_row) {
+      const key = rowKey(t, entry.new_row);
+      const change = changes.get(key) ?? { before: null, after: null };
+      change.after = entry.new_row;
+      changes.set(key, change);
+    }
+  }
+  return byTable;
+}
+
+const str = (value: unknown): string | null => (value === null || value === undefined ? null : String(value));
+
+function conceptLive(row: SnapshotRow | null): boolean {
+  return row !== null && row.deleted !== true && row.merged_into == null;
+}
+
+function parentEdge(row: SnapshotRow | null): { parent: string; child: string } | null {
+  if (!row || row.type !== 'parent_of') return null;
+  return { parent: String(row.parent_id), child: String(row.child_id) };
+}
+
+const byId = <T extends { id: string }>(a: T, b: T) => Number(BigInt(a.id) - BigInt(b.id));
+
+/** Added and removed members per owner, from link-table changes. */
+function linkMoves(
+  changes: Map<string, RowChange>,
+  ownerColumn: string,
+  memberColumn: string,
+): Map<string, { added: string[]; removed: string[] }> {
+  const moves = new Map<string, { added: string[]; removed: string[] }>();
+  const entry = (owner: string) => {
+    let move = moves.get(owner);
+    if (!move) moves.set(owner, (move = { added: [], removed: [] }));
+    return move;
+  };
+  for (const { before, after } of changes.values()) {
+    if (before && !after) entry(String(before[ownerColumn])).removed.push(String(before[memberColumn]));
+    if (after && !before) entry(String(after[ownerColumn])).added.push(String(after[memberColumn]));
+  }
+  return moves;
+}
+
+/**
+ * Compare two snapshots. They may be passed in either order; the result
+ * always runs from the older one to the newer one.
+ */
+export async function diffSnapshots(a: dataset_snapshots, b: dataset_snapshots): Promise<SnapshotDiff> {
+  const [from, to] = a.row_history_watermark <= b.row_history_watermark ? [a, b] : [b, a];
+  const changes = await loadRowChanges(from.row_history_watermark, to.row_history_watermark);
+
+  const [rowCounts, [audit]] = await Promise.all([
+    prisma.$queryRaw<Array<{ table_name: string; count: bigint }>>(Prisma.sql`
+      SELECT table_name, count(*) AS count
+      FROM entity_row_history
+      WHERE id > ${from.row_history_watermark} AND id <= ${to.row_history_watermark}
+      GROUP BY table_name
+      ORDER BY table_name
+    `),
+    prisma.$queryRaw<Array<{ count: bigint }>>(Prisma.sql`
+      SELECT count(*) AS count
+      FROM audit_log
+      WHERE id > ${from.audit_log_watermark} AND id <= ${to.audit_log_watermark}
+    `),
+  ]);
+
+  // Concepts
+  const added: ConceptRef[] = [];
+  const removed: ConceptRef[] = [];
+  const relabelled: SnapshotDiff['concepts']['relabelled'] = [];
+  const conceptLabels = new Map<string, string | null>();
+  for (const [id, { before, after }] of changes.get('concepts')!) {
+    conceptLabels.set(id, str((after ?? before)?.label));
+    if (!conceptLive(before) && conceptLive(after)) added.push({ id, label: str(after!.label) });
+    else if (conceptLive(before) && !conceptLive(after)) removed.push({ id, label: str(before!.label) });
+    else if (conceptLive(before) && conceptLive(after) && before!.label !== after!.label) {
+      relabelled.push({ id, from_label: str(before!.label), to_label: str(after!.label) });
+    }
+  }
+
+  // Reparentings: parent_of edges gained or lost, grouped by child
+  const edgeMoves = new Map<string, { added: string[]; removed: string[] }>();
+  const edgeEntry = (child: string) => {
+    let move = edgeMoves.get(child);
+    if (!move) edgeMoves.set(child, (move = { added: [], removed: [] }));
+    return move;
+  };
+  for (const { before, after } of changes.get('concept_relations')!.values()) {
+    const was = parentEdge(before);
+    const is = parentEdge(after);
+    if (was && is && was.parent === is.parent && was.child === is.child) continue;
+    if (was) edgeEntry(was.child).removed.push(was.parent);
+    if (is) edgeEntry(is.child).added.push(is.parent);
+  }
+
+  const senseConceptMoves = linkMoves(changes.get('sense_concepts')!, 'sense_id', 'concept_id');
+  const unitMoves = linkMoves(changes.get('lexical_unit_senses')!, 'lexical_unit_id', 'sense_id');
+
+  // Resolve labels for concepts and codes for lexical units the diff only references.
+  const referenced = new Set<string>();
+  for (const [child, move] of edgeMoves) [child, ...move.added, ...move.removed].forEach((id) => referenced.add(id));
+  for (const move of senseConceptMoves.values()) [...move.added, ...move.removed].forEach((id) => referenced.add(id));
+  const missing = [...referenced].filter((id) => !conceptLabels.has(id));
+  const [concepts, units] = await Promise.all([
+    missing.length
+      ? prisma.concepts.findMany({ where: { id: { in: missing.map(BigInt) } }, select: { id: true, label: true } })
+      : Promise.resolve([]),
+    unitMoves.size
+      ? prisma.lexical_units.findMany({
+          where: { id: { in: [...unitMoves.keys()].map(BigInt) } },
+          select: { id: true, code: true },
+        })
+      : Promise.resolve([]),
+  ]);
+  for (const c of concepts) conceptLabels.set(c.id.toString(), c.label);
+  const unitCodes = new Map(units.map((u) => [u.id.toString(), u.code]));
+  const ref = (id: string): ConceptRef => ({ id, label: conceptLabels.get(id) ?? null });
+
+  const reparentings: ConceptReparent[] = [...edgeMoves]
+    .filter(([, move]) => move.added.length || move.removed.length)
+    .map(([child, move]) => ({
+      concept_id: child,
+      label: conceptLabels.get(child) ?? null,
+      parents_added: move.added.map(ref),
+      parents_removed: move.removed.map(ref),
+    }))
+    .sort((x, y) => Number(BigInt(x.concept_id) - BigInt(y.concept_id)));
+
+  const lexicalUnitMoves: LexicalUnitMove[] = [...unitMoves]
+    .map(([unit, move]) => ({
+      lexical_unit_id: unit,
+      code: unitCodes.get(unit) ?? null,
+      senses_added: move.added,
+      senses_removed: move.removed,
+    }))
+    .sort((x, y) => Number(BigInt(x.lexical_unit_id) - BigInt(y.lexical_unit_id)));
+
+  // Senses
+  const sensesAdded: SenseRef[] = [];
+  const sensesRemoved: SenseRef[] = [];
+  const sensesChanged: SenseChange[] = [];
+  for (const [id, { before, after }] of changes.get('senses')!) {
+    if (!before && after) sensesAdded.push({ id, definition: str(after.definition) });
+    else if (before && !after) sensesRemoved.push({ id, definition: str(before.definition) });
+    else if (before && after) {
+      const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+        .filter((f) => !IGNORED_FIELDS.has(f) && JSON.stringify(before[f]) !== JSON.stringify(after[f]))
+        .sort();
+      if (fields.length) sensesChanged.push({ id, definition: str(after.definition), fields });
+    }
+  }
+  const conceptMoves: SenseConceptMove[] = [...senseConceptMoves]
+    .map(([sense, move]) => ({
+      sense_id: sense,
+      concepts_added: move.added.map(ref),
+      concepts_removed: move.removed.map(ref),
+    }))
+    .sort((x, y) => Number(BigInt(x.sense_id) - BigInt(y.sense_id)));
+
+  return {
+    from: serializeSnapshot(from),
+    to: serializeSnapshot(to),
+    concepts: {
+      added: added.sort(byId),
+      removed: removed.sort(byId),
+      relabelled: relabelled.sort(byId),
+    },
+    reparentings,
+    lexical_unit_moves: lexicalUnitMoves,
+    senses: {
+      added: sensesAdded.sort(byId),
+      removed: sensesRemoved.sort(byId),
+      changed: sensesChanged.sort(byId),
+      concept_moves: conceptMoves,
+    },
+    counts: {
+      rows_changed: Object.fromEntries(rowCounts.map((r) => [r.table_name, Number(r.count)])),
+      audit_log_entries: Number(audit.count),
+    },
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Table state at a snapshot, rebuilt from `entity_row_history`.
+ *
+ * A row's state at a watermark is its current row, rewound through every
+ * history entry newer than the watermark. Only the rows those entries
+ * touch are held in memory; everything else streams straight from the
+ * live table in key order, so a bundle of an old snapshot costs about as
+ * much as one of the current state.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+export type SnapshotRow = Record<string, unknown>;
+
+export interface SnapshotTable {
+  name: string;
+  /** Primary key columns, all integers; rows are exported in this order. */
+  key: string[];
+}
+
+/**
+ * Tables with a row-history trigger, i.e. everything a snapshot can
+ * reproduce. Order is the bundle's file order (parents before children).
+ */
+export const SNAPSHOT_TABLES: readonly SnapshotTable[] = [
+  { name: 'concepts', key: ['id'] },
+  { name: 'concept_relations', key: ['id'] },
+  { name: 'properties', key: ['id'] },
+  { name: 'property_groups', key: ['id'] },
+  { name: 'property_group_members', key: ['id'] },
+  { name: 'senses', key: ['id'] },
+  { name: 'sense_concepts', key: ['sense_id', 'concept_id'] },
+  { name: 'lexical_units', key: ['id'] },
+  { name: 'lexical_unit_senses', key: ['lexical_unit_id', 'sense_id'] },
+  { name: 'lexical_unit_relations', key: ['id'] },
+];
+
+/** Columns the history trigger strips from its snapshots; stripped here too so rows compare equal. */
+const STRIPPED_COLUMNS = ['embedding', 'embedding_1536', 'gloss_tsv', 'examples_tsv'];
+
+const PAGE_SIZE = 1000;
+
+export function rowKey(table: SnapshotTable, row: SnapshotRow): string {
+  return table.key.map((col) => String(row[col])).join(':');
+}
+
+function compareKeys(table: SnapshotTable, a: SnapshotRow, b: SnapshotRow): number {
+  for (const col of table.key) {
+    const x = BigInt(String(a[col]));
+    const y = BigInt(String(b[col]));
+    if (x !== y) return x < y ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Rows that differ at `watermark` from the live table: key → state at the
+ * watermark, or null when the row did not exist yet.
+ */
+async function loadRewoundRows(table: SnapshotTable, watermark: bigint): Promise<Map<string, SnapshotRow | null>> {
+  const entries = await prisma.$queryRaw<Array<{ old_row: SnapshotRow | null; new_row: SnapshotRow | null }>>(Prisma.sql`
+    SELECT old_row, new_row
+    FROM entity_row_history
+    WHERE table_name = ${table.name} AND id > ${watermark}
+    ORDER BY id DESC
+  `);
+
+  // Undo newest first; the oldest entry's old_row is what remains.
+  const rewound = new Map<string, SnapshotRow | null>();
+  for (const entry of entries) {
+    if (entry.new_row) rewound.set(rowKey(table, entry.new_row), null);
+    if (entry.old_row) rewound.set(rowKey(table, entry.old_row), entry.old_row);
+  }
+  return rewound;
+}
+
+async function* streamLiveRows(table: SnapshotTable): AsyncGenerator<SnapshotRow> {
+  const strip = Prisma.raw(STRIPPED_COLUMNS.map((col) => ` - '${col}'`).join(''));
+  const keyList = Prisma.raw(table.key.join(', '));
+  let after: SnapshotRow | null = null;
+
+  for (;;) {
+    const cursor: Prisma.Sql = after
+      ? Prisma.sql`WHERE (${keyList}) > (${Prisma.join(table.key.map((col) => BigInt(String(after![col]))))})`
+      : Prisma.empty;
+    const page: Array<{ row: SnapshotRow }> = await prisma.$queryRaw(Prisma.sql`
+      SELECT to_jsonb(t)${strip} AS row
+      FROM ${Prisma.raw(table.name)} t
+      ${cursor}
+      ORDER BY ${keyList}
+      LIMIT ${PAGE_SIZE}
+    `);
+    for (const { row } of page) yield row;
+    if (page.length < PAGE_SIZE) return;
+    after = page[page.length - 1].row;
+  }
+}
+
+/**
+ * Every row of `table` as it was at `watermark`, in key order. Pass the
+ * current max history id (or null) for the live state.
+ */
+export async function* streamTableAtWatermark(
+  table: SnapshotTable,
+  watermark: bigint | null,
+): AsyncGenerator<SnapshotRow> {
+  const rewound = watermark === null ? new Map<string, SnapshotRow | null>() : await loadRewoundRows(table, watermark);
+  const restored = [...rewound.values()]
+    .filter((row): row is SnapshotRow => row !== null)
+    .sort((a, b) => compareKeys(table, a, b));
+
+  let next = 0;
+  for await (const row of streamLiveRows(table)) {
+    while (next < restored.length && compareKeys(table, restored[next], row) < 0) {
+      yield restored[next++];
+    }
+    if (!rewound.has(rowKey(table, row))) yield row;
+  }
+  while (next < restored.length) yield restored[next++];
+}
+
+export function findSnapshotTable(name: string): SnapshotTable | undefined {
+  return SNAPSHOT_TABLES.find((table) => table.name === name);
+}
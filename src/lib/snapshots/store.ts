@@ -0,0 +1,84 @@
+/**
+ * Creating, listing and deleting dataset snapshots.
+ */
+
+import { Prisma, type dataset_snapshots } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { SnapshotError, type DatasetSnapshot } from './types';
+
+const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+export function serializeSnapshot(row: dataset_snapshots): DatasetSnapshot {
+  return {
+    id: row.id.toString(),
+    name: row.name,
+    description: row.description,
+    row_history_watermark: row.row_history_watermark.toString(),
+    audit_log_watermark: row.audit_log_watermark.toString(),
+    created_by: row.created_by,
+    created_at: row.created_at.toISOString(),
+  };
+}
+
+export interface SnapshotInput {
+  name: string;
+  description: string | null;
+}
+
+/** POST body: { name, description? }. Names look like release tags, e.g. "2026.10" or "v3-rc1". */
+export function parseSnapshotInput(body: Record<string, unknown>): SnapshotInput {
+  if (typeof body.name !== 'string' || !NAME_PATTERN.test(body.name)) {
+    throw new SnapshotError(
+      'name must be 1-64 letters, digits, ".", "_" or "-", starting with a letter or digit',
+    );
+  }
+  if (body.description !== undefined && body.description !== null && typeof body.description !== 'string') {
+    throw new SnapshotError('description must be a string');
+  }
+  return { name: body.name, description: (body.description as string | null | undefined)?.trim() || null };
+}
+
+export async function listSnapshots(): Promise<DatasetSnapshot[]> {
+  const rows = await prisma.dataset_snapshots.findMany({ orderBy: { id: 'desc' } });
+  return rows.map(serializeSnapshot);
+}
+
+/** Look a snapshot up by numeric id or by name. */
+export async function getSnapshotRow(idOrName: string): Promise<dataset_snapshots> {
+  const row = /^\d+$/.test(idOrName)
+    ? await prisma.dataset_snapshots.findUnique({ where: { id: BigInt(idOrName) } })
+    : await prisma.dataset_snapshots.findUnique({ where: { name: idOrName } });
+  if (!row) throw new SnapshotError(`Snapshot not found: ${idOrName}`, 404);
+  return row;
+}
+
+/** Tag the committed state as of now. */
+export async function createSnapshot(input: SnapshotInput, createdBy: string): Promise<DatasetSnapshot> {
+  const [watermarks] = await prisma.$queryRaw<Array<{ row_history: bigint; audit_log: bigint }>>(Prisma.sql`
+    SELECT (SELECT COALESCE(max(id), 0) FROM entity_row_history)::bigint AS row_history,
+           (SELECT COALESCE(max(id), 0) FROM audit_log)::bigint AS audit_log
+  `);
+  try {
+    const row = await prisma.dataset_snapshots.create({
+      data: {
+        name: input.name,
+        description: input.description,
+        row_history_watermark: watermarks.row_history,
+        audit_log_watermark: watermarks.audit_log,
+        created_by: createdBy,
+      },
+    });
+    return serializeSnapshot(row);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new SnapshotError(`A snapshot named "${input.name}" already exists`, 409);
+    }
+    throw error;
+  }
+}
+
+/** Drops the tag only; history is untouched. */
+export async function deleteSnapshot(idOrName: string): Promise<void> {
+  const row = await getSnapshotRow(idOrName);
+  await prisma.dataset_snapshots.delete({ where: { id: row.id } });
+}
@@ -0,0 +1,108 @@
+/**
+ * Shared types for dataset snapshots (release tags), their diffs and
+ * exported bundles.
+ */
+
+export interface DatasetSnapshot {
+  id: string;
+  name: string;
+  description: string | null;
+  /** Highest entity_row_history id included in the snapshot. */
+  row_history_watermark: string;
+  /** Highest audit_log id at the time the snapshot was taken. */
+  audit_log_watermark: string;
+  created_by: string;
+  created_at: string;
+}
+
+export class SnapshotError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+export interface ConceptRef {
+  id: string;
+  label: string | null;
+}
+
+export interface ConceptRelabel {
+  id: string;
+  from_label: string | null;
+  to_label: string | null;
+}
+
+/** Parent edges a concept gained or lost between the two snapshots. */
+export interface ConceptReparent {
+  concept_id: string;
+  label: string | null;
+  parents_added: ConceptRef[];
+  parents_removed: ConceptRef[];
+}
+
+/** Senses a lexical unit was attached to or detached from. */
+export interface LexicalUnitMove {
+  lexical_unit_id: string;
+  code: string | null;
+  senses_added: string[];
+  senses_removed: string[];
+}
+
+export interface SenseRef {
+  id: string;
+  definition: string | null;
+}
+
+export interface SenseChange {
+  id: string;
+  definition: string | null;
+  /** Columns whose value differs between the two snapshots. */
+  fields: string[];
+}
+
+/** Concepts a sense was linked to or unlinked from. */
+export interface SenseConceptMove {
+  sense_id: string;
+  concepts_added: ConceptRef[];
+  concepts_removed: ConceptRef[];
+}
+
+export interface SnapshotDiff {
+  /** Always the older snapshot, whichever order they were requested in. */
+  from: DatasetSnapshot;
+  to: DatasetSnapshot;
+  concepts: {
+    added: ConceptRef[];
+    removed: ConceptRef[];
+    relabelled: ConceptRelabel[];
+  };
+  reparentings: ConceptReparent[];
+  lexical_unit_moves: LexicalUnitMove[];
+  senses: {
+    added: SenseRef[];
+    removed: SenseRef[];
+    changed: SenseChange[];
+    concept_moves: SenseConceptMove[];
+  };
+  /** Rows changed per table, and audit_log entries, between the watermarks. */
+  counts: {
+    rows_changed: Record<string, number>;
+    audit_log_entries: number;
+  };
+}
+
+export interface BundleTableEntry {
+  table: string;
+  file: string;
+  rows: number;
+  bytes: number;
+  sha256: string;
+}
+
+export interface BundleManifest {
+  bundle_format: number;
+  snapshot: DatasetSnapshot;
+  exported_at: string;
+  tables: BundleTableEntry[];
+}
@@ -418,13 +418,19 @@ export interface SearchOptions {
 // Unified (cross-entity) search
 // ============================================
 
-/** The four entity types reachable from the global navbar search. */
-export type SearchEntityType = 'concept' | 'sense' | 'referent' | 'claim';
+/** The entity types reachable from the global navbar search. */
+export type SearchEntityType = 'concept' | 'lexical_unit' | 'sense' | 'referent' | 'claim';
+
+/** One run of snippet text; `highlight` marks the parts that matched the query. */
+export interface SearchSnippetSegment {
+  text: string;
+  highlight: boolean;
+}
 
 /**
- * A single normalized result from the unified search endpoint. Every searcher
- * (concepts/senses/referents/claims) maps its rows into this shape, building a
- * ready-to-navigate `href` server-side so the client just calls router.push.
+ * A single normalized result from the unified search endpoint. Every entity
+ * type maps its rows into this shape, building a ready-to-navigate `href`
+ * server-side so the client just calls router.push.
  */
 export interface UnifiedSearchResult {
   type: SearchEntityType;
@@ -433,11 +439,45 @@ export interface UnifiedSearchResult {
   sublabel?: string; // secondary line (definition / gloss / alias / concept·referent)
   badge?: string; // pos / archetype / vocabulary / graph name
   href: string; // ready-to-navigate URL (built server-side)
+  /** Highlighted excerpt of the text that matched. */
+  snippet?: SearchSnippetSegment[];
+  /** Reciprocal-rank-fusion score; only comparable within one response. */
+  score?: number;
+  /** Which rankings found the result. */
+  matched_by?: SearchMatchSource[];
 }
 
 /** Unscoped response: results grouped by entity type. */
 export type UnifiedSearchGroups = Record<SearchEntityType, UnifiedSearchResult[]>;
 
+/** The rankings fused by the hybrid search. */
+export type SearchMatchSource = 'exact' | 'text' | 'vector';
+
+export type SearchMode = 'hybrid' | 'text' | 'vector';
+
+/** Facet filters. A type without the filtered field is left out of the results. */
+export interface SearchFacetFilters {
+  pos?: PartOfSpeech[];
+  archetype?: string[];
+  subtype?: string[];
+  flagged?: boolean;
+  domain?: string[];
+}
+
+export type SearchFacetName = keyof SearchFacetFilters;
+
+/** Value -> number of matching candidates, per facet. */
+export type SearchFacetCounts = Partial<Record<SearchFacetName, Record<string, number>>>;
+
+export interface HybridSearchResponse {
+  query: string;
+  mode: SearchMode;
+  /** False when the vector ranking was requested but could not run (no embedding provider, or it failed). */
+  vector_used: boolean;
+  groups: Partial<UnifiedSearchGroups>;
+  facets: SearchFacetCounts;
+}
+
 export interface PaginatedSearchResult {
   entries: LexicalUnit[];
   total: number;
@@ -0,0 +1,74 @@
+/**
+ * Role model shared by the API routes and the UI.
+ *
+ * Roles are ordered — each one can do everything the roles before it can:
+ *
+ *   viewer   read only
+ *   editor   stage changes, run LLM jobs, stage reverts
+ *   reviewer commit / discard changesets and plans, run health checks
+ *   admin    edit health-check definitions and diagnosis codes, commit
+ *            policies and roles
+ *
+ * Stored per user in `user_roles` (migrations/add_user_roles.sql); the
+ * server-side lookup lives in `./roles`. This module has no server
+ * imports so client components can use it.
+ */
+
+export type UserRole = 'viewer' | 'editor' | 'reviewer' | 'admin';
+
+export const USER_ROLES: readonly UserRole[] = ['viewer', 'editor', 'reviewer', 'admin'];
+
+export type Permission =
+  /** Stage edits, deletes, relation changes and reverts as pending changesets. */
+  | 'stage_changes'
+  /** Create, extend, cancel and delete LLM jobs. */
+  | 'run_llm_jobs'
+  /** Commit, reject or discard changesets and change plans. */
+  | 'review_changes'
+  /** Trigger health-check runs and update findings. */
+  | 'run_health_checks'
+  /** Create, edit and delete health-check definitions and diagnosis codes. */
+  | 'manage_health_checks'
+  /** Create, edit and delete commit policies. */
+  | 'manage_commit_policies'
+  /** Grant and revoke user roles. */
+  | 'manage_roles'
+  /** Register outbound webhook endpoints and replay their deliveries. */
+  | 'manage_webhooks'
+  /** Issue, change and revoke API keys for the public /api/v1. */
+  | 'manage_api_keys'
+  /** Tag and delete dataset snapshots (releases). */
+  | 'manage_releases'
+  /** Queue embedding backfills. */
+  | 'manage_embeddings';
+
+export const PERMISSION_MIN_ROLE: Record<Permission, UserRole> = {
+  stage_changes: 'editor',
+  run_llm_jobs: 'editor',
+  review_changes: 'reviewer',
+  run_health_checks: 'reviewer',
+  manage_health_checks: 'admin',
+  manage_commit_policies: 'admin',
+  manage_roles: 'admin',
+  manage_webhooks: 'admin',
+  manage_api_keys: 'admin',
+  manage_releases: 'admin',
+  manage_embeddings: 'admin',
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+/** True when `role` is `minimum` or ranks above it. */
+export function roleAtLeast(role: UserRole, minimum: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(minimum);
+}
+
+export function roleAllows(role: UserRole, permission: Permission): boolean {
+  return roleAtLeast(role, PERMISSION_MIN_ROLE[permission]);
+}
+
+export function permissionsForRole(role: UserRole): Permission[] {
+  return (Object.keys(PERMISSION_MIN_ROLE) as Permission[]).filter((p) => roleAllows(role, p));
+}
@@ -0,0 +1,192 @@
+/**
+ * Server-side role lookup and enforcement for the API routes.
+ *
+ * `requirePermission` resolves the signed-in user's role from `user_roles`
+ * and throws `PermissionError` (401 without a session, 403 when the role
+ * is too low); routes map it to a JSON error like their other domain
+ * errors. The optional "reviewer must differ from author" rule is
+ * checked by the `assertCanCommit*` helpers when REQUIRE_DISTINCT_REVIEWER
+ * is "true".
+ */
+
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/utils/supabase/server';
+import { SYSTEM_USER_ID } from './displayName';
+import {
+  isUserRole,
+  PERMISSION_MIN_ROLE,
+  permissionsForRole,
+  roleAllows,
+  type Permission,
+  type UserRole,
+} from './permissions';
+
+export class PermissionError extends Error {
+  constructor(message: string, public statusCode = 403) {
+    super(message);
+    this.name = 'PermissionError';
+  }
+}
+
+export interface CurrentUserRole {
+  /** Same value `getCurrentUserName()` returns. */
+  userName: string;
+  role: UserRole;
+  authenticated: boolean;
+}
+
+/** Role for signed-in users without a `user_roles` row. */
+export function defaultUserRole(): UserRole {
+  const configured = process.env.DEFAULT_USER_ROLE;
+  return isUserRole(configured) ? configured : 'viewer';
+}
+
+/** Whether commits must be made by someone other than the changeset author. */
+export function distinctReviewerRequired(): boolean {
+  return process.env.REQUIRE_DISTINCT_REVIEWER === 'true';
+}
+
+export async function getUserRole(userName: string): Promise<UserRole> {
+  const row = await prisma.user_roles.findUnique({
+    where: { user_name: userName },
+    select: { role: true },
+  });
+  return row?.role ?? defaultUserRole();
+}
+
+/** The current request's user and role; requests without a session are viewers. */
+export async function getCurrentUserRole(): Promise<CurrentUserRole> {
+  const user = await getCurrentUser();
+  if (!user?.email) {
+    return { userName: SYSTEM_USER_ID, role: 'viewer', authenticated: false };
+  }
+  const userName = user.email.split('@')[0];
+  return { userName, role: await getUserRole(userName), authenticated: true };
+}
+
+/** Resolve the current user and throw unless their role grants `permission`. */
+export async function requirePermission(permission: Permission): Promise<CurrentUserRole> {
+  const current = await getCurrentUserRole();
+  if (!current.authenticated) {
+    throw new PermissionError('Sign in required', 401);
+  }
+  if (!roleAllows(current.role, permission)) {
+    throw new PermissionError(
+      `This action requires the ${PERMISSION_MIN_ROLE[permission]} role (you are ${current.role})`,
+    );
+  }
+  return current;
+}
+
+/** Resolve the current user for per-user data (any role); throws 401 without a session. */
+export async function requireSignedIn(): Promise<CurrentUserRole> {
+  const current = await getCurrentUserRole();
+  if (!current.authenticated) {
+    throw new PermissionError('Sign in required', 401);
+  }
+  return current;
+}
+
+/** Payload of GET /api/users/me, consumed by `useCurrentUserRole`. */
+export function serializeCurrentUserRole(current: CurrentUserRole) {
+  return {
+    user_name: current.userName,
+    role: current.role,
+    authenticated: current.authenticated,
+    permissions: current.authenticated ? permissionsForRole(current.role) : [],
+    require_distinct_reviewer: distinctReviewerRequired(),
+  };
+}
+
+// ============================================
+// Distinct-reviewer rule
+// ============================================
+
+function ownWorkError(reviewer: string, count: number, noun: string): PermissionError {
+  const many = count !== 1;
+  return new PermissionError(
+    `${count} ${noun}${many ? 's were' : ' was'} created by ${reviewer}; ` +
+      `another reviewer has to commit ${many ? 'them' : 'it'}`,
+  );
+}
+
+/** Throw when any of `changesetIds` was created by the reviewer. */
+export async function assertCanCommitChangesets(reviewer: string, changesetIds: bigint[]): Promise<void> {
+  if (!distinctReviewerRequired() || changesetIds.length === 0) return;
+  const own = await prisma.changesets.count({
+    where: { id: { in: changesetIds }, created_by: reviewer },
+  });
+  if (own > 0) throw ownWorkError(reviewer, own, 'changeset');
+}
+
+/** Throw when the reviewer created any pending changeset in the given scope. */
+export async function assertCanCommitScope(
+  reviewer: string,
+  scope: { llmJobId?: bigint; createdBy?: string },
+): Promise<void> {
+  if (!distinctReviewerRequired()) return;
+  if (scope.createdBy !== undefined && scope.createdBy !== reviewer) return;
+  const own = await prisma.changesets.count({
+    where: { llm_job_id: scope.llmJobId, created_by: reviewer, status: 'pending' },
+  });
+  if (own > 0) throw ownWorkError(reviewer, own, 'changeset');
+}
+
+/**
+ * Plan ids (of `planIds`) the reviewer may not commit: plans they
+ * created, or that contain a changeset they created. Empty when the rule
+ * is off.
+ */
+export async function ownPlanIds(reviewer: string, planIds: bigint[]): Promise<bigint[]> {
+  if (!distinctReviewerRequired() || planIds.length === 0) return [];
+  const plans = await prisma.change_plans.findMany({
+    where: {
+      id: { in: planIds },
+      OR: [
+        { created_by: reviewer },
+        { changesets: { some: { created_by: reviewer } } },
+      ],
+    },
+    select: { id: true },
+  });
+  return plans.map((p) => p.id);
+}
+
+export async function assertCanCommitPlans(reviewer: string, planIds: bigint[]): Promise<void> {
+  const own = await ownPlanIds(reviewer, planIds);
+  if (own.length > 0) {
+    throw ownWorkError(reviewer, own.length, 'plan');
+  }
+}
+
+// ============================================
+// Discarding
+// ============================================
+
+/**
+ * Editors may discard their own pending changesets; discarding anyone
+ * else's needs `review_changes`.
+ */
+export async function assertCanDiscardChangesets(current: CurrentUserRole, changesetIds: bigint[]): Promise<void> {
+  if (roleAllows(current.role, 'review_changes') || changesetIds.length === 0) return;
+  const others = await prisma.changesets.count({
+    where: { id: { in: changesetIds }, created_by: { not: current.userName } },
+  });
+  if (others > 0) {
+    throw new PermissionError(
+      `Only reviewers can discard changes made by others (${others} changeset${others === 1 ? '' : 's'})`,
+    );
+  }
+}
+
+/** Same rule as `assertCanDiscardChangesets`, keyed on the plan author. */
+export async function assertCanDiscardPlan(current: CurrentUserRole, planId: bigint): Promise<void> {
+  if (roleAllows(current.role, 'review_changes')) return;
+  const plan = await prisma.change_plans.findUnique({
+    where: { id: planId },
+    select: { created_by: true },
+  });
+  if (plan && plan.created_by !== current.userName) {
+    throw new PermissionError('Only reviewers can discard plans made by others');
+  }
+}
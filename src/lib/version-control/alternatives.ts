@@ -355,6 +355,7 @@ export async function getGroupIdForPlan(
 export async function finalizePlanAlternativeGroupInTx(
   tx: Tx,
   planId: bigint,
+  committedBy: string,
 ): Promise<void> {
   const client = tx as Prisma.TransactionClient;
 
@@ -377,7 +378,7 @@ export async function finalizePlanAlternativeGroupInTx(
   if (siblingChangesetIds.length > 0) {
     await (client.changesets as any).updateMany({
       where: { id: { in: siblingChangesetIds } },
-      data: { status: 'discarded' },
+      data: { status: 'discarded', reviewed_by: committedBy, reviewed_at: new Date() },
     });
     // Reject their pending field_changes so the pending list reflects removal.
     await (client.field_changes as any).updateMany({
@@ -393,7 +394,7 @@ export async function finalizePlanAlternativeGroupInTx(
       id: { not: planId },
       status: 'pending',
     },
-    data: { status: 'discarded' },
+    data: { status: 'discarded', reviewed_by: committedBy, reviewed_at: new Date() },
   });
 
   // Mark the group committed with this plan as the winner.
@@ -49,6 +49,13 @@ export interface BulkCommitPlansArgs {
   planIds?: bigint[];
   /** When planIds is omitted, optionally restrict by plan_kind. */
   planKind?: string;
+  /**
+   * Skip plans this user created or contributed a changeset to (the
+   * REQUIRE_DISTINCT_REVIEWER rule); they stay pending.
+   */
+  excludeAuthor?: string;
+  /** Plans to leave pending, e.g. ones still waiting on commit-policy approvals. */
+  excludePlanIds?: bigint[];
   committedBy: string;
 }
 
@@ -69,6 +76,19 @@ export async function bulkCommitPlans(
       status: 'pending',
       ...(args.planIds ? { id: { in: args.planIds } } : {}),
       ...(args.planKind ? { plan_kind: args.planKind } : {}),
+      ...(args.excludeAuthor
+        ? {
+            NOT: {
+              OR: [
+                { created_by: args.excludeAuthor },
+                { changesets: { some: { created_by: args.excludeAuthor } } },
+              ],
+            },
+          }
+        : {}),
+      ...(args.excludePlanIds && args.excludePlanIds.length > 0
+        ? { AND: [{ id: { notIn: args.excludePlanIds } }] }
+        : {}),
     },
     include: {
       changesets: {
@@ -202,7 +222,7 @@ export async function bulkCommitPlans(
             if (cs.status !== 'pending') continue;
             await tx.changesets.update({
               where: { id: cs.id },
-              data: { status: 'discarded' },
+              data: { status: 'discarded', reviewed_by: args.committedBy, reviewed_at: new Date() },
             });
           }
           discarded += 1;
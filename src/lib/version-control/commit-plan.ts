@@ -48,6 +48,7 @@ import { prisma } from '@/lib/prisma';
 
 import { commitChangesetInTx } from './commit';
 import { finalizePlanAlternativeGroupInTx, getGroupIdForPlan } from './alternatives';
+import { recordChangePlanEventInTx } from '@/lib/events/outbox';
 import type { CommitError } from './types';
 
 export type ChangePlanStatus = 'pending' | 'committed' | 'discarded';
@@ -252,7 +253,9 @@ export async function commitPlan(
       // Finalize the plan's alternative group: mark this plan as the selected
       // winner, mark the group committed, and discard sibling plans + their
       // changesets. No-op for ungrouped plans.
-      await finalizePlanAlternativeGroupInTx(tx, planId);
+      await finalizePlanAlternativeGroupInTx(tx, planId, committedBy);
+
+      await recordChangePlanEventInTx(tx, 'change_plan.committed', plan, committedBy, attempted);
     }, {
       timeout: 30_000,
       maxWait: 10_000,
@@ -430,6 +433,8 @@ export async function discardPlan(planId: bigint, discardedBy: string): Promise<
         data: { selected_plan_id: null },
       });
     }
+
+    await recordChangePlanEventInTx(tx, 'change_plan.discarded', plan, discardedBy, discardedChangesets);
   });
 
   return { planId, discardedChangesets };
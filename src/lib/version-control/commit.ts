@@ -18,6 +18,12 @@ import {
 import { getChangeset, createChangesetFromUpdate } from './create';
 import { addComment } from './comments';
 import { setRowHistoryContext } from './rowHistoryContext';
+import {
+  collectTouchedTargets,
+  markHealthCheckStateStaleInTx,
+} from '@/lib/health-checks/staleness';
+import { recordChangesetCommittedInTx } from '@/lib/events/outbox';
+import { enqueueEmbeddingRefreshInTx } from '@/lib/embeddings/queue';
 import {
   applyPropertiesSubChanges,
   isPropertiesFieldName,
@@ -27,6 +33,25 @@ import {
   isSensesFieldName,
   parseSensesExistsFieldName,
 } from './sensesSubfields';
+import {
+  commitReferentCreateInTx,
+  commitReferentMergeInTx,
+  commitReferentUnmergeInTx,
+} from '@/lib/referents/merge';
+import { commitConceptMergeInTx, commitConceptUnmergeInTx } from '@/lib/concepts/merge';
+import { commitInstanceCreateInTx } from '@/lib/claims/extraction/stage';
+import {
+  commitLexicalUnitRelationCreateInTx,
+  commitLexicalUnitRelationDeleteInTx,
+  commitLexicalUnitRelationUpdateInTx,
+  deleteLexicalUnitRelationInTx,
+  upsertLexicalUnitRelationInTx,
+} from './lexical-unit-relations';
+import {
+  commitSenseContrastCreateInTx,
+  commitSenseContrastDeleteInTx,
+  commitSenseContrastUpdateInTx,
+} from './sense-contrasts';
 
 // Convert camelCase field names to snake_case for Prisma
 function camelToSnake(str: string): string {
@@ -34,7 +59,8 @@ function camelToSnake(str: string): string {
 }
 
 // No bidirectional relation pairs - parent_of is unidirectional
-// (child_of relations are created as inverse but not auto-managed)
+// (child_of relations are created as inverse but not auto-managed).
+// Lexical unit relations have their own map, LEXICAL_UNIT_INVERSE_RELATION_TYPE.
 export const INVERSE_RELATION_TYPE: Record<string, string> = {};
 
 /** Runner v2 uses `concept_relation`; legacy rows use `frame_relation`. */
@@ -172,8 +198,8 @@ export async function commitChangeset(
       async (tx) => {
         const result = await commitChangesetInTx(tx, changesetId, committedBy);
         if (result.success) {
-          await discardRevisionAncestorsInTx(tx, changesetId);
-          await finalizeAlternativeGroupInTx(tx, changesetId);
+          await discardRevisionAncestorsInTx(tx, changesetId, committedBy);
+          await finalizeAlternativeGroupInTx(tx, changesetId, committedBy);
         }
         return result;
       },
@@ -207,6 +233,7 @@ export async function commitChangeset(
 async function discardRevisionAncestorsInTx(
   tx: Prisma.TransactionClient,
   changesetId: bigint,
+  committedBy: string,
 ): Promise<void> {
   const cs = await tx.changesets.findUnique({
     where: { id: changesetId },
@@ -226,7 +253,7 @@ async function discardRevisionAncestorsInTx(
   if (ancestorIds.length > 0) {
     await tx.changesets.updateMany({
       where: { id: { in: ancestorIds }, status: 'pending' },
-      data: { status: 'discarded' },
+      data: { status: 'discarded', reviewed_by: committedBy, reviewed_at: new Date() },
     });
   }
 }
@@ -241,6 +268,7 @@ async function discardRevisionAncestorsInTx(
 async function finalizeAlternativeGroupInTx(
   tx: Prisma.TransactionClient,
   changesetId: bigint,
+  committedBy: string,
 ): Promise<void> {
   const cs = await (tx.changesets.findUnique as any)({
     where: { id: changesetId },
@@ -271,7 +299,7 @@ async function finalizeAlternativeGroupInTx(
       change_plan_id: null,
       status: 'pending',
     },
-    data: { status: 'discarded' },
+    data: { status: 'discarded', reviewed_by: committedBy, reviewed_at: new Date() },
   });
 
   await (tx.change_alternatives.update as any)({
@@ -338,18 +366,35 @@ export async function commitChangesetInTx(
     );
   }
 
+  let result: CommitResult;
   switch (changeset.operation) {
     case 'create':
-      return await commitCreateInTx(tx, changeset, committedBy);
+      result = await commitCreateInTx(tx, changeset, committedBy);
+      break;
     case 'update':
-      return await commitUpdateInTx(tx, changeset, approvedChanges, committedBy);
+      result = await commitUpdateInTx(tx, changeset, approvedChanges, committedBy);
+      break;
     case 'delete':
-      return await commitDeleteInTx(tx, changeset, committedBy);
+      result = await commitDeleteInTx(tx, changeset, committedBy);
+      break;
     case 'merge':
-      return await commitMergeInTx(tx, changeset, committedBy);
+      result = await commitMergeInTx(tx, changeset, committedBy);
+      break;
     default:
       throw new Error(`Unknown operation: ${changeset.operation}`);
   }
+
+  // Flag health-check state for every touched target whose content
+  // fingerprint moved, so the next stale-only run re-checks it. Runs in
+  // the same tx so a rolled-back plan leaves the flags untouched.
+  // The outbox event shares the tx too, so subscribers only hear about
+  // writes that actually landed; likewise the embedding refresh queue.
+  if (result.success) {
+    await markHealthCheckStateStaleInTx(tx, collectTouchedTargets(changeset));
+    await recordChangesetCommittedInTx(tx, changeset, committedBy);
+    await enqueueEmbeddingRefreshInTx(tx, changeset);
+  }
+  return result;
 }
 
 async function getChangesetInTx(
@@ -713,6 +758,18 @@ async function commitCreateInTx(
         },
       });
       newEntityId = role.id;
+    } else if (changeset.entity_type === 'referent') {
+      // Staged by referent resolution for a cluster of unresolved
+      // instances; see `stageReferentFromInstances`.
+      newEntityId = await commitReferentCreateInTx(tx, entityData as Record<string, unknown>);
+    } else if (changeset.entity_type === 'instance') {
+      // Staged by an extract_claims job; see `stageClaimsExtractionJob`.
+      newEntityId = await commitInstanceCreateInTx(tx, entityData as Record<string, unknown>);
+    } else if (changeset.entity_type === 'lexical_unit_relation') {
+      // Also writes the inverse edge; see LEXICAL_UNIT_INVERSE_RELATION_TYPE.
+      newEntityId = await commitLexicalUnitRelationCreateInTx(tx, entityData as Record<string, unknown>);
+    } else if (changeset.entity_type === 'sense_contrast') {
+      newEntityId = await commitSenseContrastCreateInTx(tx, entityData as Record<string, unknown>);
     } else {
       throw new Error(`CREATE not implemented for entity type: ${changeset.entity_type}`);
     }
@@ -723,6 +780,8 @@ async function commitCreateInTx(
       data: {
         entity_id: newEntityId,
         status: 'committed',
+        reviewed_by: committedBy,
+        reviewed_at: new Date(),
         committed_at: new Date(),
       },
     });
@@ -837,11 +896,28 @@ async function commitUpdateInTx(
     );
   }
 
+  // Referents are only ever updated by a staged merge revert.
+  if (changeset.entity_type === 'referent') {
+    return commitReferentUnmergeInTx(tx, changeset, approvedChanges, committedBy);
+  }
+  // Concepts only change `merged_into` through a staged merge revert.
+  if (changeset.entity_type === 'frame' && approvedChanges.some((fc) => fc.field_name === 'merged_into')) {
+    return commitConceptUnmergeInTx(tx, changeset, approvedChanges, committedBy);
+  }
+
   const conflictResult = await checkVersionConflictInTx(tx, changeset);
   if (conflictResult) {
     throw new Error(conflictResult.error);
   }
 
+  // Relation retypes swap the inverse edge along with the type.
+  if (changeset.entity_type === 'lexical_unit_relation') {
+    return commitLexicalUnitRelationUpdateInTx(tx, changeset, approvedChanges, committedBy);
+  }
+  if (changeset.entity_type === 'sense_contrast') {
+    return commitSenseContrastUpdateInTx(tx, changeset, approvedChanges, committedBy);
+  }
+
   // Separate complex fields from simple fields
   const simpleChanges = approvedChanges.filter(fc => !isComplexField(fc.field_name));
   const complexChanges = approvedChanges.filter(fc => isComplexField(fc.field_name));
@@ -1118,6 +1194,8 @@ async function commitUpdateInTx(
       where: { id: changeset.id },
       data: {
         status: 'committed',
+        reviewed_by: committedBy,
+        reviewed_at: new Date(),
         committed_at: new Date(),
       },
     });
@@ -1226,34 +1304,14 @@ async function commitComplexFieldChange(
         const oldHypernymId = toBigIntOrNull(hypernymData.old_hypernym_id);
         const newHypernymId = toBigIntOrNull(hypernymData.new_hypernym_id);
 
-        // Delete the old hypernym relation if it exists
+        // Delete the old hypernym relation (and its hyponym inverse) if it exists
         if (oldHypernymId) {
-          await tx.lexical_unit_relations.deleteMany({
-            where: {
-              source_id: entityId,
-              target_id: oldHypernymId,
-              type: 'hypernym',
-            },
-          });
+          await deleteLexicalUnitRelationInTx(tx, entityId, oldHypernymId, 'hypernym');
         }
         
-        // Create new hypernym relation if there's a new hypernym
+        // Create new hypernym relation (and its hyponym inverse) if there's a new hypernym
         if (newHypernymId) {
-          await tx.lexical_unit_relations.upsert({
-            where: {
-              source_id_type_target_id: {
-                source_id: entityId,
-                target_id: newHypernymId,
-                type: 'hypernym',
-              },
-            },
-            create: {
-              source_id: entityId,
-              target_id: newHypernymId,
-              type: 'hypernym',
-            },
-            update: {},
-          });
+          await upsertLexicalUnitRelationInTx(tx, entityId, newHypernymId, 'hypernym');
         }
       }
       break;
@@ -1330,7 +1388,7 @@ async function commitDeleteInTx(
       // FK cascade map (see prisma/schema.prisma):
       //   sense_concepts        -> onDelete: Cascade  (cleaned up automatically)
       //   lexical_unit_senses       -> onDelete: Cascade  (cleaned up automatically)
-      //   frame_sense_contrasts     -> onDelete: Cascade  (cleaned up automatically)
+      //   sense_contrasts     -> onDelete: Cascade  (cleaned up automatically)
       //   sense_definition_revisions -> onDelete: NoAction (BLOCKING)
       //
       // We refuse to delete a sense that still has revision history rather
@@ -1420,6 +1478,12 @@ async function commitDeleteInTx(
       if (existing) {
         await tx.properties.delete({ where: { id: roleId } });
       }
+    } else if (changeset.entity_type === 'lexical_unit_relation') {
+      // Hard-delete (no soft-delete column); the inverse edge goes with it.
+      await commitLexicalUnitRelationDeleteInTx(tx, changeset.entity_id!);
+    } else if (changeset.entity_type === 'sense_contrast') {
+      // Hard-delete (no soft-delete column).
+      await commitSenseContrastDeleteInTx(tx, changeset.entity_id!);
     } else {
       throw new Error(`DELETE not implemented for entity type: ${changeset.entity_type}`);
     }
@@ -1429,6 +1493,8 @@ async function commitDeleteInTx(
       where: { id: changeset.id },
       data: {
         status: 'committed',
+        reviewed_by: committedBy,
+        reviewed_at: new Date(),
         committed_at: new Date(),
       },
     });
@@ -1461,9 +1527,10 @@ async function commitDeleteInTx(
 // ============================================
 
 /**
- * Commits a `merge` operation. Currently only `entity_type='sense'`
- * is supported (Phase 1 - merge_sense plan kind). Phase 5 will add the
- * `concept` case for merge_frame.
+ * Commits a `merge` operation. Supports `entity_type='sense'`
+ * (Phase 1 - merge_sense plan kind), `referent` (cross-document
+ * resolution, delegated to `commitReferentMergeInTx`) and `frame`
+ * (concept merges, delegated to `commitConceptMergeInTx`).
  *
  * Contract for `merge` on `frame_sense`:
  *
@@ -1486,7 +1553,7 @@ async function commitDeleteInTx(
  *      sense_id=loser to use winner; deduplicate by deleting
  *      collisions on (lexical_unit_id, winner) before the move.
  *   3. B4 (relink sense_concepts): same pattern keyed on concept_id.
- *   4. B5 (relink frame_sense_contrasts): same pattern keyed on
+ *   4. B5 (relink sense_contrasts): same pattern keyed on
  *      (sense_id, contrasted_sense_id) and on the inverse
  *      column. Self-contrasts (contrasted_sense_id == winner) are
  *      dropped.
@@ -1502,6 +1569,12 @@ async function commitMergeInTx(
   changeset: ChangesetWithFieldChanges,
   committedBy: string,
 ): Promise<CommitResult> {
+  if (changeset.entity_type === 'referent') {
+    return commitReferentMergeInTx(tx, changeset, committedBy);
+  }
+  if (changeset.entity_type === 'frame') {
+    return commitConceptMergeInTx(tx, changeset, committedBy);
+  }
   if (changeset.entity_type !== 'frame_sense') {
     throw new Error(
       `MERGE not implemented for entity type: ${changeset.entity_type} (changeset ${changeset.id.toString()})`,
@@ -1625,7 +1698,7 @@ async function commitMergeInTx(
     WHERE sense_id = ${loserIdInt}
   `);
 
-  // 4) B5 relink frame_sense_contrasts.
+  // 4) B5 relink sense_contrasts.
   //
   // The table has TWO non-trivial integrity rules we must respect:
   //
@@ -1651,18 +1724,18 @@ async function commitMergeInTx(
   // the winner's (the winner's text would already be on the existing
   // row, so this is the only way to surface loser-side annotations).
   await tx.$executeRaw(Prisma.sql`
-    INSERT INTO frame_sense_contrasts (sense_id, contrasted_sense_id, contrast_text)
+    INSERT INTO sense_contrasts (sense_id, contrasted_sense_id, contrast_text)
     SELECT
       LEAST(${winnerIdInt}, other_id) AS lo,
       GREATEST(${winnerIdInt}, other_id) AS hi,
       MIN(contrast_text) AS contrast_text
     FROM (
       SELECT contrasted_sense_id AS other_id, contrast_text
-      FROM frame_sense_contrasts
+      FROM sense_contrasts
       WHERE sense_id = ${loserIdInt}
       UNION ALL
       SELECT sense_id AS other_id, contrast_text
-      FROM frame_sense_contrasts
+      FROM sense_contrasts
       WHERE contrasted_sense_id = ${loserIdInt}
     ) loser_rows
     WHERE other_id <> ${winnerIdInt}
@@ -1671,7 +1744,7 @@ async function commitMergeInTx(
     ON CONFLICT (sense_id, contrasted_sense_id) DO NOTHING
   `);
   await tx.$executeRaw(Prisma.sql`
-    DELETE FROM frame_sense_contrasts
+    DELETE FROM sense_contrasts
     WHERE sense_id = ${loserIdInt}
        OR contrasted_sense_id = ${loserIdInt}
   `);
@@ -1702,6 +1775,8 @@ async function commitMergeInTx(
     where: { id: changeset.id },
     data: {
       status: 'committed',
+      reviewed_by: committedBy,
+      reviewed_at: new Date(),
       committed_at: new Date(),
     },
   });
@@ -1839,6 +1914,55 @@ async function checkVersionConflict(
   return await checkVersionConflictInTx(prisma, changeset);
 }
 
+/**
+ * Current optimistic-locking version of an entity. Null when the row is
+ * gone or the entity type isn't versioned (same rule the commit check uses).
+ */
+export async function getCurrentEntityVersion(
+  client: Prisma.TransactionClient | typeof prisma,
+  entityType: string,
+  entityId: bigint,
+): Promise<number | null> {
+  if (entityType === 'lexical_unit') {
+    const lu = await client.lexical_units.findUnique({
+      where: { id: entityId },
+      select: { version: true },
+    });
+    return lu?.version ?? null;
+  }
+  if (entityType === 'frame') {
+    const concept = await client.concepts.findUnique({
+      where: { id: entityId },
+      select: { version: true },
+    });
+    return concept?.version ?? null;
+  }
+  if (isConceptRelationEntityType(entityType)) {
+    const rel = await client.concept_relations.findUnique({
+      where: { id: entityId },
+      select: { version: true },
+    });
+    return rel?.version ?? null;
+  }
+  if (entityType === 'lexical_unit_relation') {
+    // `version` is nullable on lexical_unit_relations; staging records 1 for NULL.
+    const rel = await client.lexical_unit_relations.findUnique({
+      where: { id: entityId },
+      select: { version: true },
+    });
+    return rel ? rel.version ?? 1 : null;
+  }
+  if (entityType === 'sense_contrast') {
+    // sense_contrasts has no version column; staging records 1.
+    const contrast = await client.sense_contrasts.findUnique({
+      where: { id: Number(entityId) },
+      select: { id: true },
+    });
+    return contrast ? 1 : null;
+  }
+  return null;
+}
+
 async function checkVersionConflictInTx(
   client: Prisma.TransactionClient | typeof prisma,
   changeset: ChangesetWithFieldChanges,
@@ -1852,27 +1976,7 @@ async function checkVersionConflictInTx(
     return null;
   }
 
-  let currentVersion: number | null = null;
-
-  if (changeset.entity_type === 'lexical_unit') {
-    const lu = await client.lexical_units.findUnique({
-      where: { id: changeset.entity_id },
-      select: { version: true },
-    });
-    currentVersion = lu?.version ?? null;
-  } else if (changeset.entity_type === 'frame') {
-    const concept = await client.concepts.findUnique({
-      where: { id: changeset.entity_id },
-      select: { version: true },
-    });
-    currentVersion = concept?.version ?? null;
-  } else if (isConceptRelationEntityType(changeset.entity_type)) {
-    const rel = await client.concept_relations.findUnique({
-      where: { id: changeset.entity_id },
-      select: { version: true },
-    });
-    currentVersion = rel?.version ?? null;
-  }
+  const currentVersion = await getCurrentEntityVersion(client, changeset.entity_type, changeset.entity_id);
 
   if (currentVersion === null) {
     return {
@@ -2018,16 +2122,18 @@ export async function commitByUser(
 // Discard Operations
 // ============================================
 
-export async function discardChangeset(changesetId: bigint): Promise<void> {
+export async function discardChangeset(changesetId: bigint, discardedBy: string): Promise<void> {
   await prisma.changesets.update({
     where: { id: changesetId },
     data: {
       status: 'discarded',
+      reviewed_by: discardedBy,
+      reviewed_at: new Date(),
     },
   });
 }
 
-export async function discardByLlmJob(llmJobId: bigint): Promise<void> {
+export async function discardByLlmJob(llmJobId: bigint, discardedBy: string): Promise<void> {
   await prisma.changesets.updateMany({
     where: {
       llm_job_id: llmJobId,
@@ -2035,11 +2141,13 @@ export async function discardByLlmJob(llmJobId: bigint): Promise<void> {
     },
     data: {
       status: 'discarded',
+      reviewed_by: discardedBy,
+      reviewed_at: new Date(),
     },
   });
 }
 
-export async function discardByUser(createdBy: string): Promise<void> {
+export async function discardByUser(createdBy: string, discardedBy: string): Promise<void> {
   await prisma.changesets.updateMany({
     where: {
       created_by: createdBy,
@@ -2048,6 +2156,8 @@ export async function discardByUser(createdBy: string): Promise<void> {
     },
     data: {
       status: 'discarded',
+      reviewed_by: discardedBy,
+      reviewed_at: new Date(),
     },
   });
 }
@@ -2160,7 +2270,7 @@ export async function bulkReject(
   if (discardIds.length > 0) {
     await prisma.changesets.updateMany({
       where: { id: { in: discardIds } },
-      data: { status: 'discarded' },
+      data: { status: 'discarded', reviewed_by: userId, reviewed_at: new Date() },
     });
     result.discarded = discardIds.length;
     result.processed += discardIds.length;
@@ -2193,7 +2303,7 @@ export async function bulkReject(
       if (allRejected) {
         await prisma.changesets.update({
           where: { id: changesetId },
-          data: { status: 'discarded' },
+          data: { status: 'discarded', reviewed_by: userId, reviewed_at: new Date() },
         });
         result.discarded = (result.discarded || 0) + 1;
       }
@@ -2204,11 +2314,12 @@ export async function bulkReject(
 }
 
 export async function bulkDiscard(
-  changesetIds: bigint[]
+  changesetIds: bigint[],
+  userId: string
 ): Promise<BulkOperationResult> {
   const updateResult = await prisma.changesets.updateMany({
     where: { id: { in: changesetIds } },
-    data: { status: 'discarded' },
+    data: { status: 'discarded', reviewed_by: userId, reviewed_at: new Date() },
   });
 
   return {
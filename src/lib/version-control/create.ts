@@ -31,7 +31,7 @@ function isPlainObject(value: unknown): value is Record<string, unknown> {
  * - Uses `toJSON()` for non-plain objects (e.g. Prisma Decimal)
  * - Sorts object keys for stable ordering
  */
-function normalizeForJson(value: unknown): unknown {
+export function normalizeForJson(value: unknown): unknown {
   if (value === null || value === undefined) return null;
 
   if (typeof value === 'bigint') return value.toString();
@@ -100,7 +100,7 @@ function stableJsonStringify(value: unknown): string {
 }
 
 // Helper to convert value to Prisma JSON value (handling null)
-function toJsonValue(value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull {
+export function toJsonValue(value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull {
   const normalized = normalizeForJson(value);
   if (normalized === null || normalized === undefined) return Prisma.DbNull;
   return normalized as Prisma.InputJsonValue;
@@ -129,11 +129,15 @@ export function valuesAreEqual(a: unknown, b: unknown): boolean {
  * 
  * For UPDATE/DELETE: requires entity_id and entity_version
  * For CREATE: entity_id is null, use after_snapshot for the full entity
+ *
+ * Pass a transaction client as `db` to stage the changeset together with
+ * other rows.
  */
 export async function createChangeset(
-  input: CreateChangesetInput
+  input: CreateChangesetInput,
+  db: Prisma.TransactionClient = prisma
 ): Promise<Changeset> {
-  const result = await prisma.changesets.create({
+  const result = await db.changesets.create({
     data: {
       llm_jobs: input.llm_job_id ? { connect: { id: input.llm_job_id } } : undefined,
       entity_type: input.entity_type,
@@ -144,6 +148,9 @@ export async function createChangeset(
       after_snapshot: toJsonValue(input.after_snapshot),
       created_by: input.created_by,
       status: 'pending',
+      reverts_changeset: input.reverts_changeset_id
+        ? { connect: { id: input.reverts_changeset_id } }
+        : undefined,
     },
   });
 
@@ -153,8 +160,11 @@ export async function createChangeset(
 /**
  * Get a changeset by ID with its field changes.
  */
-export async function getChangeset(id: bigint): Promise<ChangesetWithFieldChanges | null> {
-  const result = await prisma.changesets.findUnique({
+export async function getChangeset(
+  id: bigint,
+  db: Prisma.TransactionClient = prisma
+): Promise<ChangesetWithFieldChanges | null> {
+  const result = await db.changesets.findUnique({
     where: { id },
     include: {
       field_changes: true,
@@ -175,9 +185,10 @@ export async function getChangeset(id: bigint): Promise<ChangesetWithFieldChange
  */
 export async function findPendingChangeset(
   entityType: EntityType,
-  entityId: bigint
+  entityId: bigint,
+  db: Prisma.TransactionClient = prisma
 ): Promise<ChangesetWithFieldChanges | null> {
-  const result = await prisma.changesets.findFirst({
+  const result = await db.changesets.findFirst({
     where: {
       entity_type: entityType,
       entity_id: entityId,
@@ -259,14 +270,15 @@ export class NoOpFieldChangeError extends Error {
  * @throws {NoOpFieldChangeError} If old_value equals new_value (no actual change)
  */
 export async function createFieldChange(
-  input: CreateFieldChangeInput
+  input: CreateFieldChangeInput,
+  db: Prisma.TransactionClient = prisma
 ): Promise<FieldChange> {
   // Validate that values are actually different
   if (valuesAreEqual(input.old_value, input.new_value)) {
     throw new NoOpFieldChangeError(input.field_name);
   }
   
-  const result = await prisma.field_changes.create({
+  const result = await db.field_changes.create({
     data: {
       changeset_id: input.changeset_id,
       field_name: input.field_name,
@@ -304,13 +316,14 @@ export async function upsertFieldChange(
   changesetId: bigint,
   fieldName: string,
   oldValue: unknown,
-  newValue: unknown
+  newValue: unknown,
+  db: Prisma.TransactionClient = prisma
 ): Promise<UpsertFieldChangeResult> {
   // Check if this is a no-op (values are equal)
   const isNoOp = valuesAreEqual(oldValue, newValue);
   
   // Check if there's an existing field change for this field
-  const existing = await prisma.field_changes.findUnique({
+  const existing = await db.field_changes.findUnique({
     where: {
       changeset_id_field_name: {
         changeset_id: changesetId,
@@ -322,19 +335,19 @@ export async function upsertFieldChange(
   if (isNoOp) {
     if (existing) {
       // Delete the existing field change since values are now equal (reverted)
-      await prisma.field_changes.delete({
+      await db.field_changes.delete({
         where: { id: existing.id },
       });
       
       // Check if there are any remaining field changes in the changeset
-      const remainingCount = await prisma.field_changes.count({
+      const remainingCount = await db.field_changes.count({
         where: { changeset_id: changesetId },
       });
       
       // If no remaining field changes, discard the changeset
       let changesetDiscarded = false;
       if (remainingCount === 0) {
-        await prisma.changesets.update({
+        await db.changesets.update({
           where: { id: changesetId },
           data: { status: 'discarded' },
         });
@@ -358,7 +371,7 @@ export async function upsertFieldChange(
   // Values are different - proceed with upsert
   if (existing) {
     // Update existing field change
-    const result = await prisma.field_changes.update({
+    const result = await db.field_changes.update({
       where: { id: existing.id },
       data: {
         old_value: toJsonValue(oldValue),
@@ -373,7 +386,7 @@ export async function upsertFieldChange(
     };
   } else {
     // Create new field change
-    const result = await prisma.field_changes.create({
+    const result = await db.field_changes.create({
       data: {
         changeset_id: changesetId,
         field_name: fieldName,
@@ -393,9 +406,10 @@ export async function upsertFieldChange(
 /**
  * Check if all field changes in a changeset are rejected, and auto-discard if so.
  * @param changesetId - The ID of the changeset to check
+ * @param discardedBy - The user whose rejection emptied the changeset
  * @returns true if the changeset was auto-discarded
  */
-export async function checkAndAutoDiscard(changesetId: bigint): Promise<boolean> {
+export async function checkAndAutoDiscard(changesetId: bigint, discardedBy?: string): Promise<boolean> {
   // Count field changes by status
   const fieldChanges = await prisma.field_changes.findMany({
     where: { changeset_id: changesetId },
@@ -413,7 +427,7 @@ export async function checkAndAutoDiscard(changesetId: bigint): Promise<boolean>
     // Auto-discard the changeset
     await prisma.changesets.update({
       where: { id: changesetId },
-      data: { status: 'discarded' },
+      data: { status: 'discarded', reviewed_by: discardedBy ?? null, reviewed_at: new Date() },
     });
     return true;
   }
@@ -466,7 +480,7 @@ export async function updateFieldChangeStatus(
   // If we just rejected a field, check if all fields are now rejected
   let changeset_discarded = false;
   if (status === 'rejected') {
-    changeset_discarded = await checkAndAutoDiscard(result.changeset_id);
+    changeset_discarded = await checkAndAutoDiscard(result.changeset_id, userId);
   }
 
   return { ...fieldChange, changeset_discarded };
@@ -524,7 +538,7 @@ export async function rejectAllFieldChanges(
   });
 
   // Check if all fields are now rejected and auto-discard if so
-  const changeset_discarded = await checkAndAutoDiscard(changesetId);
+  const changeset_discarded = await checkAndAutoDiscard(changesetId, userId);
 
   return { count: result.count, changeset_discarded };
 }
@@ -594,9 +608,10 @@ export async function createChangesetFromUpdate(
   updates: Record<string, unknown>,
   createdBy: string,
   llmJobId?: bigint,
+  db: Prisma.TransactionClient = prisma,
 ): Promise<ChangesetWithFieldChanges> {
   // Check if there's already a pending changeset for this entity
-  const changeset = await findPendingChangeset(entityType, entityId);
+  const changeset = await findPendingChangeset(entityType, entityId, db);
   
   if (changeset) {
     // Add/update field changes in the existing changeset
@@ -609,13 +624,14 @@ export async function createChangesetFromUpdate(
         changeset.id,
         fieldName,
         oldValue,
-        newValue
+        newValue,
+        db
       );
     }
     
     // Refresh the changeset to get all field changes
     // Note: changeset may have been auto-discarded if all fields were reverted
-    const refreshed = await getChangeset(changeset.id);
+    const refreshed = await getChangeset(changeset.id, db);
     if (!refreshed) {
       // Changeset was discarded - return empty result
       return {
@@ -669,7 +685,7 @@ export async function createChangesetFromUpdate(
     entity_version: hasVersion ? (currentEntity.version as number) : undefined,
     before_snapshot: currentEntity,
     created_by: createdBy,
-  });
+  }, db);
   
   // Create field changes for each actual change
   const fieldChanges: FieldChange[] = [];
@@ -683,7 +699,7 @@ export async function createChangesetFromUpdate(
       field_name: fieldName,
       old_value: oldValue,
       new_value: newValue,
-    });
+    }, db);
     fieldChanges.push(fc);
   }
   
@@ -706,6 +722,7 @@ export async function createChangesetFromCreate(
   entityData: Record<string, unknown>,
   createdBy: string,
   llmJobId?: bigint,
+  db: Prisma.TransactionClient = prisma,
 ): Promise<ChangesetWithFieldChanges> {
   // Create the changeset with after_snapshot containing the full entity
   const changeset = await createChangeset({
@@ -717,7 +734,7 @@ export async function createChangesetFromCreate(
     before_snapshot: undefined,
     after_snapshot: entityData,
     created_by: createdBy,
-  });
+  }, db);
   
   // For CREATE operations, we don't create individual field_changes
   // The entire entity is the change
@@ -742,6 +759,7 @@ export async function createChangesetFromDelete(
   currentEntity: Record<string, unknown>,
   createdBy: string,
   llmJobId?: bigint,
+  db: Prisma.TransactionClient = prisma,
 ): Promise<ChangesetWithFieldChanges> {
   const changeset = await createChangeset({
     llm_job_id: llmJobId,
@@ -751,7 +769,7 @@ export async function createChangesetFromDelete(
     entity_version: (currentEntity.version as number) ?? 1,
     before_snapshot: currentEntity,
     created_by: createdBy,
-  });
+  }, db);
   
   return {
     ...changeset,
@@ -187,6 +187,7 @@ export {
   stagePropertiesUpdate,
   stageConceptRelationReparent,
   stageSenseAttachment,
+  withCommitPolicies,
 } from './stage';
 
 // Senses subfield helpers (for UI pending-state overlays and API callers)
@@ -199,6 +200,91 @@ export {
 
 export type { StagedResponse, ReparentResult } from './stage';
 
+// Lexical unit relation edits (inverse-maintaining) + consistency sweep
+export {
+  LEXICAL_UNIT_INVERSE_RELATION_TYPE,
+  LexicalUnitRelationError,
+  isLexicalUnitRelationType,
+  stageLexicalUnitRelationCreate,
+  stageLexicalUnitRelationDelete,
+  stageLexicalUnitRelationRetype,
+  stageHypernymChange,
+  sweepLexicalUnitRelationInverses,
+} from './lexical-unit-relations';
+
+export type {
+  LexicalUnitRelationRef,
+  HypernymChangeInput,
+  HypernymChangeResult,
+  InverseSweepEntry,
+  InverseSweepResult,
+} from './lexical-unit-relations';
+
+// Sense contrast edits (rows stored lower sense id first)
+export {
+  MAX_SENSE_CONTRAST_LENGTH,
+  SenseContrastError,
+  canonicalSensePair,
+  findPendingSenseContrastCreate,
+  senseContrastLabel,
+  stageSenseContrastCreate,
+  stageSenseContrastDelete,
+  stageSenseContrastUpdate,
+} from './sense-contrasts';
+
+export type { SenseContrastInput, SenseContrastStageOptions } from './sense-contrasts';
+
+// Entity timeline (row history grouped by changeset, restore-to-point)
+export {
+  getEntityTimeline,
+  restoreEntityToPoint,
+  TimelineEntityNotFoundError,
+  TimelineRestoreError,
+} from './timeline';
+
+export type {
+  TimelineEntityKind,
+  TimelineRelation,
+  TimelineFieldDiff,
+  TimelineRowChange,
+  TimelineChangesetInfo,
+  TimelineGroup,
+  EntityTimeline,
+  TimelineRestoreResult,
+} from './timeline';
+
+// Revert a committed changeset / plan as new pending changes
+export {
+  stageChangesetRevert,
+  stagePlanRevert,
+  RevertError,
+  RevertConflictError,
+} from './revert';
+
+export type {
+  RevertConflict,
+  RevertConflictReason,
+  RevertOptions,
+  RevertResult,
+} from './revert';
+
+// Rebase a stale pending changeset onto the entity's current version
+export {
+  analyzeRebase,
+  rebaseChangeset,
+  findStaleChangesets,
+  RebaseError,
+  RebaseConflictError,
+} from './rebase';
+
+export type {
+  RebaseAnalysis,
+  RebaseFieldAnalysis,
+  RebaseFieldOutcome,
+  RebaseResolution,
+  RebaseResult,
+} from './types';
+
 // Comment operations
 export {
   getComments,
@@ -0,0 +1,628 @@
+/**
+ * Version Control - Lexical Unit Relations
+ *
+ * Staging, commit and consistency helpers for `lexical_unit_relations`
+ * edges (entity_type `lexical_unit_relation`). An edge is addressed by
+ * (source code, type, target code); create, delete and retype (an
+ * `update` of the `type` field) are staged as ordinary changesets, and
+ * committing one also writes or removes the inverse edge named in
+ * `LEXICAL_UNIT_INVERSE_RELATION_TYPE`.
+ */
+
+import { randomUUID } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { Prisma, lexical_unit_relation_type } from '@prisma/client';
+import {
+  createChangesetFromCreate,
+  createChangesetFromDelete,
+  createChangesetFromUpdate,
+  findPendingChangeset,
+} from './create';
+import { setRowHistoryContext } from './rowHistoryContext';
+import type { StagedResponse } from './stage';
+import type { ChangesetWithFieldChanges, CommitResult } from './types';
+
+const RELATION_TYPES = new Set<string>(Object.values(lexical_unit_relation_type));
+
+/**
+ * Inverse edge for each relation type that has one. Symmetric types map
+ * to themselves. Types without an entry (entails, causes, also_see, …)
+ * are one-directional and never get an inverse written.
+ */
+export const LEXICAL_UNIT_INVERSE_RELATION_TYPE: Partial<
+  Record<lexical_unit_relation_type, lexical_unit_relation_type>
+> = {
+  hypernym: 'hyponym',
+  hyponym: 'hypernym',
+  instance_hypernym: 'instance_hyponym',
+  instance_hyponym: 'instance_hypernym',
+  meronym_part: 'holonym_part',
+  holonym_part: 'meronym_part',
+  meronym_member: 'holonym_member',
+  holonym_member: 'meronym_member',
+  meronym_substance: 'holonym_substance',
+  holonym_substance: 'meronym_substance',
+  domain_topic: 'member_of_domain_topic',
+  member_of_domain_topic: 'domain_topic',
+  domain_region: 'member_of_domain_region',
+  member_of_domain_region: 'domain_region',
+  domain_usage: 'member_of_domain_usage',
+  member_of_domain_usage: 'domain_usage',
+  antonym: 'antonym',
+  similar_to: 'similar_to',
+  derivationally_related: 'derivationally_related',
+};
+
+export class LexicalUnitRelationError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'LexicalUnitRelationError';
+  }
+}
+
+export interface LexicalUnitRelationRef {
+  /** Lexical unit code of the source, e.g. "run.v.01" */
+  sourceCode: string;
+  /** Lexical unit code of the target */
+  targetCode: string;
+  type: string;
+}
+
+export interface HypernymChangeInput {
+  unitCode: string;
+  oldHypernymCode?: string;
+  newHypernymCode: string;
+  /** Hyponyms of the unit that move along with it (no edge changes). */
+  hyponymsToMove: string[];
+  /** Hyponyms of the unit that are re-attached to the old hypernym. */
+  hyponymsToStay: string[];
+}
+
+export interface HypernymChangeResult {
+  staged: true;
+  plan_id: string | null;
+  changeset_ids: string[];
+  message: string;
+}
+
+export interface InverseSweepEntry {
+  type: lexical_unit_relation_type;
+  inverse_type: lexical_unit_relation_type;
+  missing: number;
+  /** Up to `sampleSize` edges lacking their inverse, as LU codes. */
+  samples: Array<{ source: string; target: string }>;
+}
+
+export interface InverseSweepResult {
+  fixed: boolean;
+  total_missing: number;
+  inserted: number;
+  by_type: InverseSweepEntry[];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+export function isLexicalUnitRelationType(value: unknown): value is lexical_unit_relation_type {
+  return typeof value === 'string' && RELATION_TYPES.has(value);
+}
+
+function assertRelationType(value: unknown): lexical_unit_relation_type {
+  if (!isLexicalUnitRelationType(value)) {
+    throw new LexicalUnitRelationError(`Unknown relation type: ${String(value)}`);
+  }
+  return value;
+}
+
+function toBigIntOrNull(v: unknown): bigint | null {
+  if (typeof v === 'bigint') return v;
+  if (typeof v === 'number' && Number.isInteger(v)) return BigInt(v);
+  if (typeof v === 'string' && /^\d+$/.test(v.trim())) return BigInt(v.trim());
+  return null;
+}
+
+async function resolveUnit(code: string): Promise<{ id: bigint; code: string }> {
+  const unit = await prisma.lexical_units.findFirst({
+    where: { code, deleted: false },
+    select: { id: true, code: true },
+  });
+  if (!unit) {
+    throw new LexicalUnitRelationError(`Lexical unit ${code} not found`, 404);
+  }
+  return unit;
+}
+
+async function findRelation(sourceId: bigint, targetId: bigint, type: lexical_unit_relation_type) {
+  return prisma.lexical_unit_relations.findUnique({
+    where: { source_id_type_target_id: { source_id: sourceId, type, target_id: targetId } },
+  });
+}
+
+/**
+ * Snapshot stored on relation changesets. Ids are strings so the JSON
+ * round-trips; the `*_label` codes are what the pending-changes UI shows.
+ */
+function relationSnapshot(
+  rel: { source_id: bigint; target_id: bigint; type: string },
+  sourceCode: string,
+  targetCode: string,
+  extra: Record<string, unknown> = {},
+): Record<string, unknown> {
+  return {
+    source_id: rel.source_id.toString(),
+    target_id: rel.target_id.toString(),
+    type: rel.type,
+    source_label: sourceCode,
+    target_label: targetCode,
+    ...extra,
+  };
+}
+
+function existingSnapshot(
+  rel: { id: bigint; source_id: bigint; target_id: bigint; type: string; weight: number | null; version: number | null },
+  sourceCode: string,
+  targetCode: string,
+  extra: Record<string, unknown> = {},
+): Record<string, unknown> {
+  return relationSnapshot(rel, sourceCode, targetCode, {
+    id: rel.id.toString(),
+    weight: rel.weight,
+    version: rel.version ?? 1,
+    ...extra,
+  });
+}
+
+async function findPendingRelationCreate(
+  sourceId: bigint,
+  targetId: bigint,
+  type: lexical_unit_relation_type,
+) {
+  return prisma.changesets.findFirst({
+    where: {
+      entity_type: 'lexical_unit_relation',
+      operation: 'create',
+      status: 'pending',
+      AND: [
+        { after_snapshot: { path: ['source_id'], equals: sourceId.toString() } },
+        { after_snapshot: { path: ['target_id'], equals: targetId.toString() } },
+        { after_snapshot: { path: ['type'], equals: type } },
+      ],
+    },
+    select: { id: true },
+  });
+}
+
+// ============================================
+// Staging
+// ============================================
+
+/**
+ * Stage a CREATE for a new relation edge. Re-staging an edge that
+ * already has a pending CREATE returns that changeset.
+ */
+export async function stageLexicalUnitRelationCreate(
+  ref: LexicalUnitRelationRef,
+  userId: string,
+  extra: Record<string, unknown> = {},
+): Promise<StagedResponse> {
+  const type = assertRelationType(ref.type);
+  if (ref.sourceCode === ref.targetCode) {
+    throw new LexicalUnitRelationError('Cannot create relation between entry and itself');
+  }
+  const [source, target] = await Promise.all([resolveUnit(ref.sourceCode), resolveUnit(ref.targetCode)]);
+
+  if (await findRelation(source.id, target.id, type)) {
+    throw new LexicalUnitRelationError('This relation already exists', 409);
+  }
+  const pending = await findPendingRelationCreate(source.id, target.id, type);
+  if (pending) {
+    return {
+      staged: true,
+      changeset_id: pending.id.toString(),
+      message: 'This relation is already staged for review',
+      field_changes_count: 0,
+    };
+  }
+
+  const changeset = await createChangesetFromCreate(
+    'lexical_unit_relation',
+    relationSnapshot({ source_id: source.id, target_id: target.id, type }, source.code, target.code, extra),
+    userId,
+  );
+  return {
+    staged: true,
+    changeset_id: changeset.id.toString(),
+    message: `Relation ${source.code} ${type} ${target.code} staged for review`,
+    field_changes_count: 0,
+  };
+}
+
+/**
+ * Stage a DELETE of an existing relation edge. An edge that already has
+ * a pending DELETE returns that changeset; one with a pending retype is
+ * refused until the retype is committed or discarded.
+ */
+export async function stageLexicalUnitRelationDelete(
+  ref: LexicalUnitRelationRef,
+  userId: string,
+  extra: Record<string, unknown> = {},
+): Promise<StagedResponse> {
+  const type = assertRelationType(ref.type);
+  const [source, target] = await Promise.all([resolveUnit(ref.sourceCode), resolveUnit(ref.targetCode)]);
+  const rel = await findRelation(source.id, target.id, type);
+  if (!rel) {
+    throw new LexicalUnitRelationError('Relation not found', 404);
+  }
+
+  const pending = await findPendingChangeset('lexical_unit_relation', rel.id);
+  if (pending) {
+    if (pending.operation === 'delete') {
+      return {
+        staged: true,
+        changeset_id: pending.id.toString(),
+        message: 'Deletion of this relation is already staged for review',
+        field_changes_count: 0,
+      };
+    }
+    throw new LexicalUnitRelationError('This relation has pending changes; review them first', 409);
+  }
+
+  const changeset = await createChangesetFromDelete(
+    'lexical_unit_relation',
+    rel.id,
+    existingSnapshot(rel, source.code, target.code, extra),
+    userId,
+  );
+  return {
+    staged: true,
+    changeset_id: changeset.id.toString(),
+    message: `Deletion of ${source.code} ${type} ${target.code} staged for review`,
+    field_changes_count: 0,
+  };
+}
+
+/**
+ * Stage a change of an existing edge's relation type as an UPDATE with
+ * a single `type` field change.
+ */
+export async function stageLexicalUnitRelationRetype(
+  ref: LexicalUnitRelationRef,
+  newType: string,
+  userId: string,
+): Promise<StagedResponse> {
+  const type = assertRelationType(ref.type);
+  const nextType = assertRelationType(newType);
+  const [source, target] = await Promise.all([resolveUnit(ref.sourceCode), resolveUnit(ref.targetCode)]);
+  const rel = await findRelation(source.id, target.id, type);
+  if (!rel) {
+    throw new LexicalUnitRelationError('Relation not found', 404);
+  }
+  if (nextType !== type && (await findRelation(source.id, target.id, nextType))) {
+    throw new LexicalUnitRelationError(`A ${nextType} relation between these entries already exists`, 409);
+  }
+
+  const pending = await findPendingChangeset('lexical_unit_relation', rel.id);
+  if (pending && pending.operation !== 'update') {
+    throw new LexicalUnitRelationError('This relation has pending changes; review them first', 409);
+  }
+
+  const changeset = await createChangesetFromUpdate(
+    'lexical_unit_relation',
+    rel.id,
+    existingSnapshot(rel, source.code, target.code),
+    { type: nextType },
+    userId,
+  );
+  return {
+    staged: true,
+    changeset_id: changeset.id.toString(),
+    message: changeset.field_changes.length > 0
+      ? `Retype of ${source.code} → ${target.code} to ${nextType} staged for review`
+      : 'No changes detected',
+    field_changes_count: changeset.field_changes.length,
+  };
+}
+
+/**
+ * Stage a hypernym move for a lexical unit: drop the edge to the old
+ * hypernym, add one to the new hypernym, and re-attach the hyponyms that
+ * stay behind to the old hypernym. The relation DELETE/CREATE changesets
+ * are grouped into one `change_hypernym` plan so they commit together.
+ */
+export async function stageHypernymChange(
+  input: HypernymChangeInput,
+  userId: string,
+): Promise<HypernymChangeResult> {
+  const unit = await resolveUnit(input.unitCode);
+  const newHypernym = await resolveUnit(input.newHypernymCode);
+  const oldHypernym = input.oldHypernymCode ? await resolveUnit(input.oldHypernymCode) : null;
+
+  if (newHypernym.id === unit.id) {
+    throw new LexicalUnitRelationError('A lexical unit cannot be its own hypernym');
+  }
+  if (oldHypernym && oldHypernym.id === newHypernym.id) {
+    return { staged: true, plan_id: null, changeset_ids: [], message: 'Hypernym is unchanged' };
+  }
+
+  const moveGroupId = randomUUID();
+  const staged: string[] = [];
+  const stage = async (kind: 'create' | 'delete', sourceCode: string, targetCode: string) => {
+    const ref = { sourceCode, targetCode, type: 'hypernym' };
+    const result = kind === 'create'
+      ? await stageLexicalUnitRelationCreate(ref, userId, { move_group_id: moveGroupId })
+      : await stageLexicalUnitRelationDelete(ref, userId, { move_group_id: moveGroupId });
+    staged.push(result.changeset_id);
+  };
+
+  if (oldHypernym && (await findRelation(unit.id, oldHypernym.id, 'hypernym'))) {
+    await stage('delete', unit.code, oldHypernym.code);
+  }
+  if (!(await findRelation(unit.id, newHypernym.id, 'hypernym'))) {
+    await stage('create', unit.code, newHypernym.code);
+  }
+
+  const stayed: string[] = [];
+  if (oldHypernym) {
+    for (const hyponymCode of input.hyponymsToStay) {
+      const hyponym = await resolveUnit(hyponymCode);
+      if (await findRelation(hyponym.id, unit.id, 'hypernym')) {
+        await stage('delete', hyponym.code, unit.code);
+      }
+      if (!(await findRelation(hyponym.id, oldHypernym.id, 'hypernym'))) {
+        await stage('create', hyponym.code, oldHypernym.code);
+      }
+      stayed.push(hyponym.code);
+    }
+  }
+
+  const changesetIds = Array.from(new Set(staged));
+  let planId: bigint | null = null;
+  if (changesetIds.length > 1) {
+    const plan = await prisma.change_plans.create({
+      data: {
+        plan_kind: 'change_hypernym',
+        summary: `Move ${unit.code} under ${newHypernym.code}`,
+        created_by: userId,
+        metadata: {
+          unit_code: unit.code,
+          old_hypernym: oldHypernym?.code ?? null,
+          new_hypernym: newHypernym.code,
+          hyponyms_to_move: input.hyponymsToMove,
+          hyponyms_to_stay: stayed,
+        },
+      },
+    });
+    await prisma.changesets.updateMany({
+      where: { id: { in: changesetIds.map((id) => BigInt(id)) }, change_plan_id: null, status: 'pending' },
+      data: { change_plan_id: plan.id },
+    });
+    planId = plan.id;
+  }
+
+  return {
+    staged: true,
+    plan_id: planId?.toString() ?? null,
+    changeset_ids: changesetIds,
+    message: changesetIds.length === 0
+      ? 'Hypernym is unchanged'
+      : `Hypernym change to ${newHypernym.code} staged for review. ` +
+        `${input.hyponymsToMove.length} hyponyms move, ${stayed.length} stay.`,
+  };
+}
+
+// ============================================
+// Commit (inside the caller's transaction)
+// ============================================
+
+/**
+ * Write `type` edges from source to target and its inverse (if any).
+ * Idempotent: both edges are upserted on the unique triple.
+ */
+export async function upsertLexicalUnitRelationInTx(
+  tx: Prisma.TransactionClient,
+  sourceId: bigint,
+  targetId: bigint,
+  type: lexical_unit_relation_type,
+): Promise<bigint> {
+  const rel = await tx.lexical_unit_relations.upsert({
+    where: { source_id_type_target_id: { source_id: sourceId, type, target_id: targetId } },
+    create: { source_id: sourceId, target_id: targetId, type },
+    update: {},
+  });
+  const inverse = LEXICAL_UNIT_INVERSE_RELATION_TYPE[type];
+  if (inverse) {
+    await tx.lexical_unit_relations.upsert({
+      where: { source_id_type_target_id: { source_id: targetId, type: inverse, target_id: sourceId } },
+      create: { source_id: targetId, target_id: sourceId, type: inverse },
+      update: {},
+    });
+  }
+  return rel.id;
+}
+
+/** Remove the `type` edge from source to target and its inverse (if any). */
+export async function deleteLexicalUnitRelationInTx(
+  tx: Prisma.TransactionClient,
+  sourceId: bigint,
+  targetId: bigint,
+  type: lexical_unit_relation_type,
+): Promise<void> {
+  await tx.lexical_unit_relations.deleteMany({
+    where: { source_id: sourceId, target_id: targetId, type },
+  });
+  const inverse = LEXICAL_UNIT_INVERSE_RELATION_TYPE[type];
+  if (inverse) {
+    await tx.lexical_unit_relations.deleteMany({
+      where: { source_id: targetId, target_id: sourceId, type: inverse },
+    });
+  }
+}
+
+/** CREATE changeset body; returns the id of the new forward edge. */
+export async function commitLexicalUnitRelationCreateInTx(
+  tx: Prisma.TransactionClient,
+  data: Record<string, unknown>,
+): Promise<bigint> {
+  const sourceId = toBigIntOrNull(data.source_id);
+  const targetId = toBigIntOrNull(data.target_id);
+  if (!sourceId || !targetId || !isLexicalUnitRelationType(data.type)) {
+    throw new Error('CREATE lexical_unit_relation requires source_id, target_id, and type');
+  }
+  return upsertLexicalUnitRelationInTx(tx, sourceId, targetId, data.type);
+}
+
+/** DELETE changeset body; a row that is already gone is a no-op. */
+export async function commitLexicalUnitRelationDeleteInTx(
+  tx: Prisma.TransactionClient,
+  relationId: bigint,
+): Promise<void> {
+  const rel = await tx.lexical_unit_relations.findUnique({ where: { id: relationId } });
+  if (rel) {
+    await deleteLexicalUnitRelationInTx(tx, rel.source_id, rel.target_id, rel.type);
+  }
+}
+
+/**
+ * UPDATE changeset body. Only `type` is editable: the old inverse is
+ * removed, the edge is retyped in place (keeping its id and bumping its
+ * version) and the new inverse is written.
+ */
+export async function commitLexicalUnitRelationUpdateInTx(
+  tx: Prisma.TransactionClient,
+  changeset: ChangesetWithFieldChanges,
+  approvedChanges: ChangesetWithFieldChanges['field_changes'],
+  committedBy: string,
+): Promise<CommitResult> {
+  const relationId = changeset.entity_id!;
+  const unsupported = approvedChanges.find((fc) => fc.field_name !== 'type');
+  if (unsupported) {
+    throw new Error(`UPDATE lexical_unit_relation only supports the type field, got ${unsupported.field_name}`);
+  }
+  const typeChange = approvedChanges[0];
+
+  await setRowHistoryContext(tx, { userId: committedBy, changesetId: changeset.id });
+
+  if (typeChange) {
+    const nextType = assertRelationType(typeChange.new_value);
+    const rel = await tx.lexical_unit_relations.findUnique({ where: { id: relationId } });
+    if (!rel) {
+      throw new Error(`lexical_unit_relation ${relationId} not found - it may have been deleted`);
+    }
+    const oldInverse = LEXICAL_UNIT_INVERSE_RELATION_TYPE[rel.type];
+    if (oldInverse) {
+      await tx.lexical_unit_relations.deleteMany({
+        where: { source_id: rel.target_id, target_id: rel.source_id, type: oldInverse },
+      });
+    }
+    await tx.lexical_unit_relations.update({
+      where: { id: relationId },
+      data: { type: nextType, version: (rel.version ?? 1) + 1, updated_at: new Date() },
+    });
+    const newInverse = LEXICAL_UNIT_INVERSE_RELATION_TYPE[nextType];
+    if (newInverse) {
+      await tx.lexical_unit_relations.upsert({
+        where: { source_id_type_target_id: { source_id: rel.target_id, type: newInverse, target_id: rel.source_id } },
+        create: { source_id: rel.target_id, target_id: rel.source_id, type: newInverse },
+        update: {},
+      });
+    }
+  }
+
+  await tx.changesets.update({
+    where: { id: changeset.id },
+    data: { status: 'committed', reviewed_by: committedBy, reviewed_at: new Date(), committed_at: new Date() },
+  });
+  for (const fc of approvedChanges) {
+    await tx.audit_log.create({
+      data: {
+        entity_type: changeset.entity_type,
+        entity_id: relationId,
+        field_name: fc.field_name,
+        operation: 'update',
+        old_value: fc.old_value === null ? Prisma.DbNull : fc.old_value as Prisma.InputJsonValue,
+        new_value: fc.new_value === null ? Prisma.DbNull : fc.new_value as Prisma.InputJsonValue,
+        changed_by: committedBy,
+        changesets: { connect: { id: changeset.id } },
+      },
+    });
+  }
+
+  return {
+    success: true,
+    committed_count: approvedChanges.length,
+    skipped_count: changeset.field_changes.length - approvedChanges.length,
+    errors: [],
+  };
+}
+
+// ============================================
+// Consistency sweep
+// ============================================
+
+/**
+ * Report (and with `fix`, insert) the inverse edges missing from
+ * `lexical_unit_relations`: for every edge whose type has an inverse,
+ * the reversed edge of the inverse type must exist. Edges touching a
+ * soft-deleted lexical unit are ignored. Inserted rows are attributed
+ * to `userId` in row history.
+ */
+export async function sweepLexicalUnitRelationInverses(
+  options: { fix?: boolean; userId?: string; sampleSize?: number } = {},
+): Promise<InverseSweepResult> {
+  const sampleSize = options.sampleSize ?? 5;
+  const byType: InverseSweepEntry[] = [];
+  let inserted = 0;
+
+  for (const [type, inverse] of Object.entries(LEXICAL_UNIT_INVERSE_RELATION_TYPE) as Array<
+    [lexical_unit_relation_type, lexical_unit_relation_type]
+  >) {
+    const missingWhere = Prisma.sql`
+      FROM lexical_unit_relations r
+      JOIN lexical_units s ON s.id = r.source_id AND s.deleted = false
+      JOIN lexical_units t ON t.id = r.target_id AND t.deleted = false
+      WHERE r.type = ${type}::lexical_unit_relation_type
+        AND NOT EXISTS (
+          SELECT 1 FROM lexical_unit_relations i
+          WHERE i.source_id = r.target_id
+            AND i.target_id = r.source_id
+            AND i.type = ${inverse}::lexical_unit_relation_type
+        )
+    `;
+    const [{ count }] = await prisma.$queryRaw<{ count: bigint }[]>`SELECT COUNT(*)::bigint AS count ${missingWhere}`;
+    if (count === 0n) continue;
+
+    const samples = await prisma.$queryRaw<{ source: string; target: string }[]>`
+      SELECT s.code AS source, t.code AS target ${missingWhere}
+      ORDER BY r.id
+      LIMIT ${sampleSize}
+    `;
+    byType.push({ type, inverse_type: inverse, missing: Number(count), samples });
+  }
+
+  if (options.fix && byType.length > 0) {
+    inserted = await prisma.$transaction(async (tx) => {
+      await setRowHistoryContext(tx, { userId: options.userId ?? 'system:relation-sweep' });
+      let total = 0;
+      for (const entry of byType) {
+        total += await tx.$executeRaw`
+          INSERT INTO lexical_unit_relations (source_id, target_id, type)
+          SELECT r.target_id, r.source_id, ${entry.inverse_type}::lexical_unit_relation_type
+          FROM lexical_unit_relations r
+          JOIN lexical_units s ON s.id = r.source_id AND s.deleted = false
+          JOIN lexical_units t ON t.id = r.target_id AND t.deleted = false
+          WHERE r.type = ${entry.type}::lexical_unit_relation_type
+          ON CONFLICT (source_id, type, target_id) DO NOTHING
+        `;
+      }
+      return total;
+    });
+  }
+
+  return {
+    fixed: options.fix === true,
+    total_missing: byType.reduce((sum, entry) => sum + entry.missing, 0),
+    inserted,
+    by_type: byType,
+  };
+}
@@ -0,0 +1,275 @@
+/**
+ * Version Control - Rebase
+ *
+ * A pending UPDATE or DELETE records the entity version it was staged
+ * against; once someone else commits to the entity, `checkVersionConflictInTx`
+ * refuses it. Rebasing moves the changeset onto the current row instead of
+ * throwing it away. Each field change is compared three ways:
+ *
+ *   base    = field_changes.old_value (the value when it was staged)
+ *   theirs  = the entity's current value
+ *   mine    = field_changes.new_value
+ *
+ *   theirs == base   → clean: the concurrent edit didn't touch the field
+ *   theirs == mine   → converged: already applied, the field change is dropped
+ *   otherwise        → conflict: the reviewer picks mine or theirs
+ *
+ * Fields whose current value isn't a column on the row (properties.* and
+ * senses.* subfields, hypernym edits) can't be compared and are always
+ * conflicts. A DELETE rebases onto the current row with no field checks.
+ * After rebasing, `entity_version` and `before_snapshot` point at the
+ * current row, so the commit's optimistic lock passes again.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getCurrentEntityVersion } from './commit';
+import { normalizeForJson, toJsonValue, valuesAreEqual } from './create';
+import { fetchEntityByCode } from './stage';
+import type {
+  EntityType,
+  RebaseAnalysis,
+  RebaseFieldAnalysis,
+  RebaseResolution,
+  RebaseResult,
+} from './types';
+
+/** Invalid rebase request (surfaced with `statusCode` by the routes). */
+export class RebaseError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'RebaseError';
+  }
+}
+
+/** Some conflicts have no resolution; the analysis lists them. */
+export class RebaseConflictError extends Error {
+  constructor(public analysis: RebaseAnalysis, public unresolved: string[]) {
+    super(
+      `${unresolved.length} conflicting field${unresolved.length === 1 ? '' : 's'} need a resolution: ${unresolved.join(', ')}`,
+    );
+    this.name = 'RebaseConflictError';
+  }
+}
+
+// ============================================
+// Staleness
+// ============================================
+
+interface VersionedRef {
+  id: bigint;
+  entity_type: string;
+  entity_id: bigint | null;
+  entity_version: number | null;
+}
+
+/**
+ * Current versions of the entities behind `rows`, keyed by changeset id,
+ * for the rows whose entity has moved past `entity_version` (null when
+ * the entity is gone). Rows without a version are never stale.
+ */
+export async function findStaleChangesets(rows: VersionedRef[]): Promise<Map<string, number | null>> {
+  const idsByType = new Map<string, bigint[]>();
+  for (const row of rows) {
+    if (row.entity_id === null || row.entity_version === null) continue;
+    const type = row.entity_type === 'concept_relation' ? 'frame_relation' : row.entity_type;
+    if (!idsByType.has(type)) idsByType.set(type, []);
+    idsByType.get(type)!.push(row.entity_id);
+  }
+
+  const versions = new Map<string, number | null>();
+  const record = (type: string, found: Array<{ id: bigint; version: number | null }>, nullVersion: number | null) => {
+    for (const r of found) versions.set(`${type}:${r.id}`, r.version ?? nullVersion);
+  };
+  await Promise.all(
+    Array.from(idsByType, async ([type, ids]) => {
+      const where = { id: { in: ids } };
+      const select = { id: true, version: true } as const;
+      if (type === 'lexical_unit') record(type, await prisma.lexical_units.findMany({ where, select }), null);
+      else if (type === 'frame') record(type, await prisma.concepts.findMany({ where, select }), null);
+      else if (type === 'frame_relation') record(type, await prisma.concept_relations.findMany({ where, select }), null);
+      // `version` is nullable on lexical_unit_relations; staging records 1 for NULL.
+      else if (type === 'lexical_unit_relation') {
+        record(type, await prisma.lexical_unit_relations.findMany({ where, select }), 1);
+      }
+    }),
+  );
+
+  const stale = new Map<string, number | null>();
+  for (const row of rows) {
+    if (row.entity_id === null || row.entity_version === null) continue;
+    const type = row.entity_type === 'concept_relation' ? 'frame_relation' : row.entity_type;
+    if (!['lexical_unit', 'frame', 'frame_relation', 'lexical_unit_relation'].includes(type)) continue;
+    const current = versions.get(`${type}:${row.entity_id}`) ?? null;
+    if (current !== row.entity_version) stale.set(row.id.toString(), current);
+  }
+  return stale;
+}
+
+// ============================================
+// Analysis
+// ============================================
+
+async function loadPendingChangeset(changesetId: bigint, db: Prisma.TransactionClient = prisma) {
+  const changeset = await db.changesets.findUnique({
+    where: { id: changesetId },
+    include: { field_changes: { orderBy: { id: 'asc' } } },
+  });
+  if (!changeset) throw new RebaseError('Changeset not found', 404);
+  if (changeset.status !== 'pending') {
+    throw new RebaseError(`Only pending changesets can be rebased (this one is ${changeset.status})`, 409);
+  }
+  if (changeset.operation !== 'update' && changeset.operation !== 'delete') {
+    throw new RebaseError(`${changeset.operation} changesets don't target an existing version`);
+  }
+  return changeset;
+}
+
+type PendingChangeset = Awaited<ReturnType<typeof loadPendingChangeset>>;
+
+async function analyze(
+  changeset: PendingChangeset,
+  db: Prisma.TransactionClient = prisma,
+): Promise<{
+  analysis: RebaseAnalysis;
+  current: Record<string, unknown> | null;
+}> {
+  const currentVersion = changeset.entity_id !== null
+    ? await getCurrentEntityVersion(db, changeset.entity_type, changeset.entity_id)
+    : null;
+  const stale = changeset.entity_version !== null && currentVersion !== changeset.entity_version;
+
+  const analysis: RebaseAnalysis = {
+    changeset_id: changeset.id.toString(),
+    entity_type: changeset.entity_type as EntityType,
+    entity_id: changeset.entity_id?.toString() ?? null,
+    operation: changeset.operation,
+    expected_version: changeset.entity_version,
+    current_version: currentVersion,
+    stale,
+    fields: [],
+    conflict_count: 0,
+  };
+  if (!stale) return { analysis, current: null };
+
+  if (currentVersion === null || changeset.entity_id === null) {
+    throw new RebaseError('Entity not found - it may have been deleted', 409);
+  }
+  const fetched = await fetchEntityByCode(changeset.entity_type, changeset.entity_id.toString(), db);
+  if (!fetched) throw new RebaseError('Entity not found - it may have been deleted', 409);
+  const current = fetched.entity;
+
+  if (changeset.operation === 'update') {
+    for (const fc of changeset.field_changes) {
+      if (fc.status === 'rejected') continue;
+      const readable = !fc.field_name.includes('.') && fc.field_name in current;
+      const currentValue = readable ? current[fc.field_name] : undefined;
+      let outcome: RebaseFieldAnalysis['outcome'] = 'conflict';
+      if (readable && valuesAreEqual(currentValue, fc.old_value)) outcome = 'clean';
+      else if (readable && valuesAreEqual(currentValue, fc.new_value)) outcome = 'converged';
+      analysis.fields.push({
+        field_change_id: fc.id.toString(),
+        field_name: fc.field_name,
+        base_value: fc.old_value,
+        current_value: readable ? normalizeForJson(currentValue) : undefined,
+        proposed_value: fc.new_value,
+        outcome,
+      });
+    }
+  }
+  analysis.conflict_count = analysis.fields.filter((f) => f.outcome === 'conflict').length;
+  return { analysis, current };
+}
+
+/** Three-way comparison of a pending changeset against the entity's current row. */
+export async function analyzeRebase(changesetId: bigint): Promise<RebaseAnalysis> {
+  const changeset = await loadPendingChangeset(changesetId);
+  return (await analyze(changeset)).analysis;
+}
+
+// ============================================
+// Rebase
+// ============================================
+
+/**
+ * Move a stale changeset onto the entity's current version. Clean fields
+ * are kept, converged ones dropped, and each conflict needs an entry in
+ * `resolutions` (keyed by field name) or a `RebaseConflictError` is
+ * thrown. A changeset left without field changes is discarded.
+ */
+export async function rebaseChangeset(
+  changesetId: bigint,
+  rebasedBy: string,
+  resolutions: Record<string, RebaseResolution> = {},
+): Promise<RebaseResult> {
+  // The changeset row stays locked from the status check to the write, so
+  // a concurrent commit, discard or second rebase can't slip in between.
+  return prisma.$transaction(
+    async (tx) => {
+      await tx.$queryRaw`SELECT id FROM changesets WHERE id = ${changesetId} FOR UPDATE`;
+      const changeset = await loadPendingChangeset(changesetId, tx);
+      const { analysis, current } = await analyze(changeset, tx);
+
+      const result: RebaseResult = {
+        changeset_id: changesetId.toString(),
+        rebased: false,
+        discarded: false,
+        entity_version: changeset.entity_version,
+        kept_fields: [],
+        dropped_fields: [],
+      };
+      if (!analysis.stale || !current) return result;
+
+      const unresolved = analysis.fields
+        .filter((f) => f.outcome === 'conflict' && resolutions[f.field_name] !== 'mine' && resolutions[f.field_name] !== 'theirs')
+        .map((f) => f.field_name);
+      if (unresolved.length > 0) throw new RebaseConflictError(analysis, unresolved);
+
+      const drop: bigint[] = [];
+      const rebaseOldValue: Array<{ id: bigint; value: unknown }> = [];
+      for (const field of analysis.fields) {
+        const keep = field.outcome === 'clean' || (field.outcome === 'conflict' && resolutions[field.field_name] === 'mine');
+        if (keep) {
+          result.kept_fields.push(field.field_name);
+          // Record what the field is being changed *from* now, so the diff
+          // and the audit trail show the value the commit overwrites.
+          if (field.outcome === 'conflict' && field.current_value !== undefined) {
+            rebaseOldValue.push({ id: BigInt(field.field_change_id), value: current[field.field_name] });
+          }
+        } else {
+          result.dropped_fields.push(field.field_name);
+          drop.push(BigInt(field.field_change_id));
+        }
+      }
+
+      const remaining = changeset.field_changes.filter(
+        (fc) => fc.status !== 'rejected' && !drop.includes(fc.id),
+      ).length;
+      const discard = changeset.operation === 'update' && remaining === 0;
+
+      if (drop.length > 0) {
+        await tx.field_changes.deleteMany({ where: { id: { in: drop } } });
+      }
+      for (const { id, value } of rebaseOldValue) {
+        await tx.field_changes.update({ where: { id }, data: { old_value: toJsonValue(value) } });
+      }
+      await tx.changesets.update({
+        where: { id: changesetId },
+        data: discard
+          ? { status: 'discarded', reviewed_by: rebasedBy, reviewed_at: new Date() }
+          : {
+              entity_version: analysis.current_version,
+              before_snapshot: toJsonValue(current),
+              // The content changed under any earlier policy decision.
+              policy_evaluated_at: null,
+            },
+      });
+
+      result.rebased = true;
+      result.discarded = discard;
+      result.entity_version = discard ? changeset.entity_version : analysis.current_version;
+      return result;
+    },
+    { timeout: 30_000, maxWait: 10_000 },
+  );
+}
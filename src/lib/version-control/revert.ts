@@ -0,0 +1,1018 @@
+/**
+ * Version Control - Revert
+ *
+ * Turns a committed changeset (or every committed member of a change plan)
+ * into its inverse, staged as ordinary pending changesets so the rollback
+ * goes through review like any other edit. Nothing here writes to the live
+ * tables.
+ *
+ *   create → DELETE of the created row (lexical units: a soft-delete
+ *            UPDATE, because `commitChangesetInTx` refuses LU DELETEs)
+ *   delete → frames / lexical units: UPDATE clearing `deleted`;
+ *            hard-deleted rows: CREATE from the row-history snapshot
+ *            (falling back to `before_snapshot`)
+ *   update → UPDATE putting every committed field back to its old value
+ *   merge  → referents: UPDATE `merged_into_id → null`, committed by
+ *            `commitReferentUnmergeInTx` from the recorded merge;
+ *            concepts: UPDATE `merged_into → null`, committed by
+ *            `commitConceptUnmergeInTx` from the recorded plan;
+ *            senses: CREATE of the loser (definition, concept and LU
+ *            links from row history), UPDATE of the winner's definition
+ *            and LU detaches for the links the merge moved
+ *
+ * Restored hard-deleted rows get fresh ids. Every inverse points back at
+ * its source through `changesets.reverts_changeset_id`; when one revert
+ * yields more than one inverse they are grouped into a `revert` plan so
+ * they commit atomically.
+ *
+ * Before anything is staged, later commits and pending changesets on the
+ * same entities are collected as conflicts (per field for updates). The
+ * caller gets a `RevertConflictError` unless it passes `force`.
+ */
+
+import { Prisma, type concept_relation_type, type lexical_unit_relation_type } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createChangeset, createFieldChange, valuesAreEqual } from './create';
+import { sensesExistsFieldName } from './sensesSubfields';
+import type { ChangeOperation, EntityType } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export type RevertConflictReason = 'later_commit' | 'value_changed' | 'pending_change';
+
+export interface RevertConflict {
+  /** The committed changeset being reverted. */
+  changeset_id: string;
+  entity_type: string;
+  entity_id: string | null;
+  /** Field both sides touched, or `*` for the whole entity. */
+  field_name: string;
+  reason: RevertConflictReason;
+  /** The later committed (or pending) changeset, when there is one. */
+  other_changeset_id: string | null;
+  message: string;
+}
+
+export interface RevertResult {
+  /** Set when the inverse spans more than one changeset. */
+  plan_id: string | null;
+  changeset_ids: string[];
+  /** Conflicts that were overridden with `force`. */
+  conflicts: RevertConflict[];
+  /** Parts of the source that could not be inverted, one line each. */
+  skipped: string[];
+}
+
+export interface RevertOptions {
+  /** Stage the inverse even when later changes conflict with it. */
+  force?: boolean;
+}
+
+/** Invalid revert request (surfaced with `statusCode` by the routes). */
+export class RevertError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'RevertError';
+  }
+}
+
+/** Later changes overlap the revert; retry with `force` to stage anyway. */
+export class RevertConflictError extends Error {
+  constructor(public conflicts: RevertConflict[]) {
+    super(`${conflicts.length} later change${conflicts.length === 1 ? '' : 's'} conflict with this revert`);
+    this.name = 'RevertConflictError';
+  }
+}
+
+// ============================================
+// Internal shapes
+// ============================================
+
+type SourceChangeset = Prisma.changesetsGetPayload<{ include: { field_changes: true } }>;
+
+interface InverseDraft {
+  source_id: bigint;
+  entity_type: EntityType;
+  entity_id?: bigint;
+  operation: Exclude<ChangeOperation, 'merge'>;
+  entity_version?: number | null;
+  before_snapshot?: Record<string, unknown>;
+  after_snapshot?: Record<string, unknown>;
+  field_changes: Array<{ field_name: string; old_value: unknown; new_value: unknown }>;
+}
+
+interface InverseBuild {
+  drafts: InverseDraft[];
+  conflicts: RevertConflict[];
+  skipped: string[];
+}
+
+interface HistoryRow {
+  table_name: string;
+  entity_id: bigint | null;
+  operation: 'create' | 'update' | 'delete' | 'merge';
+  old_row: Record<string, unknown> | null;
+  new_row: Record<string, unknown> | null;
+}
+
+/** Row-history table names per entity type, legacy names included. */
+const HISTORY_TABLES: Partial<Record<EntityType, readonly string[]>> = {
+  frame: ['concepts', 'frames'],
+  lexical_unit: ['lexical_units'],
+  frame_sense: ['senses', 'frame_senses'],
+  frame_role: ['properties', 'frame_roles'],
+  frame_relation: ['concept_relations'],
+  lexical_unit_relation: ['lexical_unit_relations'],
+};
+
+const SENSE_CREATE_FIELDS = [
+  'pos',
+  'definition',
+  'archetype',
+  'confidence',
+  'type_dispute',
+  'causative',
+  'inchoative',
+  'perspectival',
+] as const;
+
+// ============================================
+// Helpers
+// ============================================
+
+function csLabel(source: SourceChangeset): string {
+  return `#${source.id.toString()} (${source.operation} ${source.entity_type}${source.entity_id !== null ? ` ${source.entity_id.toString()}` : ''})`;
+}
+
+function toBigInt(value: unknown): bigint | null {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value);
+  if (typeof value === 'string' && /^\d+$/.test(value.trim())) return BigInt(value.trim());
+  return null;
+}
+
+/** Live column values and JSON field-change values in one comparable form. */
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'bigint' || typeof value === 'number') return String(value);
+  if (value === undefined || value === '') return null;
+  return value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return valuesAreEqual(comparable(a), comparable(b));
+}
+
+function isSimpleField(fieldName: string): boolean {
+  return !fieldName.includes('.') && fieldName !== 'hypernym' && fieldName !== 'properties';
+}
+
+async function loadHistory(changesetId: bigint): Promise<HistoryRow[]> {
+  return prisma.$queryRaw<HistoryRow[]>(Prisma.sql`
+    SELECT table_name, entity_id, operation::text AS operation, old_row, new_row
+    FROM entity_row_history
+    WHERE changeset_id = ${changesetId}
+    ORDER BY id ASC
+  `);
+}
+
+/** The row as it was just before `source` deleted it. */
+function deletedRow(
+  source: SourceChangeset,
+  history: HistoryRow[],
+): Record<string, unknown> | null {
+  const tables = HISTORY_TABLES[source.entity_type as EntityType] ?? [];
+  const row = history.find(
+    (h) =>
+      tables.includes(h.table_name) &&
+      h.entity_id === source.entity_id &&
+      (h.operation === 'delete' || h.operation === 'merge') &&
+      h.old_row,
+  );
+  if (row?.old_row) return row.old_row;
+  const snapshot = source.before_snapshot;
+  return snapshot && typeof snapshot === 'object' && !Array.isArray(snapshot)
+    ? (snapshot as Record<string, unknown>)
+    : null;
+}
+
+/** Link rows that pointed at `senseId` before `source` removed or moved them. */
+function senseLinkRows(history: HistoryRow[], table: string, senseId: number) {
+  return history.filter(
+    (h) =>
+      h.table_name === table &&
+      (h.operation === 'delete' || h.operation === 'update') &&
+      toBigInt(h.old_row?.sense_id) === BigInt(senseId),
+  );
+}
+
+async function liveSense(id: number) {
+  return prisma.senses.findUnique({
+    where: { id },
+    include: {
+      sense_concepts: { select: { concept_id: true } },
+      lexical_unit_senses: { select: { lexical_unit_id: true } },
+    },
+  });
+}
+
+function senseSnapshot(sense: NonNullable<Awaited<ReturnType<typeof liveSense>>>): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = { id: sense.id };
+  for (const field of SENSE_CREATE_FIELDS) snapshot[field] = sense[field];
+  snapshot.concept_id = sense.sense_concepts[0]?.concept_id ?? null;
+  snapshot.lexical_unit_ids = sense.lexical_unit_senses.map((l) => l.lexical_unit_id);
+  return snapshot;
+}
+
+// ============================================
+// Inverse builders
+// ============================================
+
+async function invertCreate(source: SourceChangeset): Promise<InverseBuild> {
+  const build: InverseBuild = { drafts: [], conflicts: [], skipped: [] };
+  const id = source.entity_id;
+  if (id === null) {
+    build.skipped.push(`${csLabel(source)}: committed without an entity id`);
+    return build;
+  }
+  const draft = (fields: Partial<InverseDraft>): InverseDraft => ({
+    source_id: source.id,
+    entity_type: source.entity_type as EntityType,
+    entity_id: id,
+    operation: 'delete',
+    field_changes: [],
+    ...fields,
+  });
+
+  switch (source.entity_type) {
+    case 'frame': {
+      const concept = await prisma.concepts.findUnique({ where: { id } });
+      if (!concept || concept.deleted) {
+        build.skipped.push(`${csLabel(source)}: concept ${id} is already deleted`);
+      } else {
+        build.drafts.push(draft({ entity_version: concept.version, before_snapshot: concept }));
+      }
+      break;
+    }
+    case 'lexical_unit': {
+      const lu = await prisma.lexical_units.findUnique({ where: { id } });
+      if (!lu || lu.deleted) {
+        build.skipped.push(`${csLabel(source)}: lexical unit ${id} is already deleted`);
+      } else {
+        build.drafts.push(draft({
+          operation: 'update',
+          entity_version: lu.version,
+          field_changes: [
+            { field_name: 'deleted', old_value: false, new_value: true },
+            { field_name: 'deleted_reason', old_value: lu.deleted_reason, new_value: `Reverted changeset ${source.id}` },
+          ],
+        }));
+      }
+      break;
+    }
+    case 'frame_sense': {
+      const sense = await liveSense(Number(id));
+      if (!sense) {
+        build.skipped.push(`${csLabel(source)}: sense ${id} no longer exists`);
+      } else {
+        build.drafts.push(draft({ before_snapshot: senseSnapshot(sense) }));
+      }
+      break;
+    }
+    case 'frame_relation': {
+      const rel = await prisma.concept_relations.findUnique({ where: { id } });
+      if (!rel) {
+        build.skipped.push(`${csLabel(source)}: relation ${id} no longer exists`);
+      } else if (rel.locked) {
+        build.skipped.push(`${csLabel(source)}: relation ${id} is locked`);
+      } else {
+        build.drafts.push(draft({ entity_version: rel.version, before_snapshot: rel }));
+      }
+      break;
+    }
+    case 'frame_role': {
+      const role = await prisma.properties.findUnique({ where: { id } });
+      if (!role) {
+        build.skipped.push(`${csLabel(source)}: property ${id} no longer exists`);
+      } else {
+        build.drafts.push(draft({ before_snapshot: role }));
+      }
+      break;
+    }
+    case 'frame_role_mapping': {
+      const mapping = await prisma.property_mappings.findUnique({ where: { id } });
+      if (!mapping) {
+        build.skipped.push(`${csLabel(source)}: property mapping ${id} no longer exists`);
+      } else {
+        build.drafts.push(draft({ before_snapshot: mapping }));
+      }
+      break;
+    }
+    case 'lexical_unit_relation': {
+      const rel = await prisma.lexical_unit_relations.findUnique({ where: { id } });
+      if (!rel) {
+        build.skipped.push(`${csLabel(source)}: relation ${id} no longer exists`);
+      } else {
+        build.drafts.push(draft({
+          entity_version: rel.version ?? 1,
+          before_snapshot: { ...(source.after_snapshot as Record<string, unknown> | null), ...rel },
+        }));
+      }
+      break;
+    }
+    case 'sense_contrast': {
+      const contrast = await prisma.sense_contrasts.findUnique({ where: { id: Number(id) } });
+      if (!contrast) {
+        build.skipped.push(`${csLabel(source)}: sense contrast ${id} no longer exists`);
+      } else {
+        build.drafts.push(draft({
+          entity_version: 1,
+          before_snapshot: { ...(source.after_snapshot as Record<string, unknown> | null), ...contrast },
+        }));
+      }
+      break;
+    }
+    default:
+      build.skipped.push(`${csLabel(source)}: ${source.entity_type} rows cannot be deleted through review`);
+  }
+  return build;
+}
+
+async function invertDelete(source: SourceChangeset): Promise<InverseBuild> {
+  const build: InverseBuild = { drafts: [], conflicts: [], skipped: [] };
+  const id = source.entity_id;
+  if (id === null) {
+    build.skipped.push(`${csLabel(source)}: committed without an entity id`);
+    return build;
+  }
+
+  // Soft-deleted rows come back by clearing the flag.
+  if (source.entity_type === 'frame' || source.entity_type === 'lexical_unit') {
+    const row = source.entity_type === 'frame'
+      ? await prisma.concepts.findUnique({
+          where: { id },
+          select: { deleted: true, deleted_reason: true, deleted_at: true, version: true },
+        })
+      : await prisma.lexical_units.findUnique({
+          where: { id },
+          select: { deleted: true, deleted_reason: true, deleted_at: true, version: true },
+        });
+    if (!row) {
+      build.skipped.push(`${csLabel(source)}: row ${id} no longer exists`);
+    } else if (!row.deleted) {
+      build.skipped.push(`${csLabel(source)}: ${source.entity_type} ${id} is no longer deleted`);
+    } else {
+      const fieldChanges: InverseDraft['field_changes'] = [
+        { field_name: 'deleted', old_value: true, new_value: false },
+      ];
+      if (row.deleted_reason !== null) {
+        fieldChanges.push({ field_name: 'deleted_reason', old_value: row.deleted_reason, new_value: null });
+      }
+      if (row.deleted_at !== null) {
+        fieldChanges.push({ field_name: 'deleted_at', old_value: row.deleted_at.toISOString(), new_value: null });
+      }
+      build.drafts.push({
+        source_id: source.id,
+        entity_type: source.entity_type,
+        entity_id: id,
+        operation: 'update',
+        entity_version: row.version,
+        field_changes: fieldChanges,
+      });
+    }
+    return build;
+  }
+
+  const history = await loadHistory(source.id);
+  const old = deletedRow(source, history);
+  if (!old) {
+    build.skipped.push(`${csLabel(source)}: no snapshot of the deleted row`);
+    return build;
+  }
+  const create = (afterSnapshot: Record<string, unknown>) =>
+    build.drafts.push({
+      source_id: source.id,
+      entity_type: source.entity_type as EntityType,
+      operation: 'create',
+      after_snapshot: afterSnapshot,
+      field_changes: [],
+    });
+
+  switch (source.entity_type) {
+    case 'frame_sense': {
+      const senseId = Number(id);
+      const conceptId =
+        toBigInt(senseLinkRows(history, 'sense_concepts', senseId)[0]?.old_row?.concept_id) ??
+        toBigInt(old.concept_id);
+      if (!conceptId) {
+        build.skipped.push(`${csLabel(source)}: concept of the deleted sense is unknown`);
+        break;
+      }
+      const luIds = senseLinkRows(history, 'lexical_unit_senses', senseId)
+        .map((h) => toBigInt(h.old_row?.lexical_unit_id))
+        .filter((v): v is bigint => v !== null);
+      const after: Record<string, unknown> = { concept_id: conceptId };
+      for (const field of SENSE_CREATE_FIELDS) after[field] = old[field] ?? null;
+      after.lexical_unit_ids = luIds.length > 0 ? luIds : (Array.isArray(old.lexical_unit_ids) ? old.lexical_unit_ids : []);
+      create(after);
+      build.skipped.push(`${csLabel(source)}: the restored sense gets a new id; sense contrasts are not restored`);
+      break;
+    }
+    case 'frame_relation': {
+      const parentId = toBigInt(old.parent_id);
+      const childId = toBigInt(old.child_id);
+      if (!parentId || !childId || typeof old.type !== 'string') {
+        build.skipped.push(`${csLabel(source)}: snapshot lacks parent_id, child_id or type`);
+        break;
+      }
+      const existing = await prisma.concept_relations.findFirst({
+        where: { parent_id: parentId, child_id: childId, type: old.type as concept_relation_type },
+        select: { id: true },
+      });
+      if (existing) {
+        build.skipped.push(`${csLabel(source)}: ${old.type} ${parentId} → ${childId} already exists again`);
+        break;
+      }
+      create({ parent_id: parentId, child_id: childId, type: old.type, locked: old.locked === true });
+      break;
+    }
+    case 'frame_role': {
+      const conceptId = toBigInt(old.concept_id);
+      if (!conceptId || typeof old.label !== 'string') {
+        build.skipped.push(`${csLabel(source)}: snapshot lacks concept_id or label`);
+        break;
+      }
+      const existing = await prisma.properties.findFirst({
+        where: { concept_id: conceptId, label: old.label },
+        select: { id: true },
+      });
+      if (existing) {
+        build.skipped.push(`${csLabel(source)}: concept ${conceptId} has a "${old.label}" property again`);
+        break;
+      }
+      create({
+        concept_id: conceptId,
+        label: old.label,
+        description: old.description ?? null,
+        notes: old.notes ?? null,
+        main: old.main === true,
+        examples: Array.isArray(old.examples) ? old.examples : [],
+      });
+      break;
+    }
+    case 'lexical_unit_relation': {
+      const sourceId = toBigInt(old.source_id);
+      const targetId = toBigInt(old.target_id);
+      if (!sourceId || !targetId || typeof old.type !== 'string') {
+        build.skipped.push(`${csLabel(source)}: snapshot lacks source_id, target_id or type`);
+        break;
+      }
+      const existing = await prisma.lexical_unit_relations.findFirst({
+        where: { source_id: sourceId, target_id: targetId, type: old.type as lexical_unit_relation_type },
+        select: { id: true },
+      });
+      if (existing) {
+        build.skipped.push(`${csLabel(source)}: ${old.type} ${sourceId} → ${targetId} already exists again`);
+        break;
+      }
+      const labels = (source.before_snapshot ?? {}) as Record<string, unknown>;
+      create({
+        source_id: sourceId.toString(),
+        target_id: targetId.toString(),
+        type: old.type,
+        source_label: labels.source_label ?? null,
+        target_label: labels.target_label ?? null,
+      });
+      break;
+    }
+    case 'sense_contrast': {
+      const lo = toBigInt(old.sense_id);
+      const hi = toBigInt(old.contrasted_sense_id);
+      if (!lo || !hi || typeof old.contrast_text !== 'string') {
+        build.skipped.push(`${csLabel(source)}: snapshot lacks sense_id, contrasted_sense_id or contrast_text`);
+        break;
+      }
+      const existing = await prisma.sense_contrasts.findUnique({
+        where: { sense_id_contrasted_sense_id: { sense_id: Number(lo), contrasted_sense_id: Number(hi) } },
+        select: { id: true },
+      });
+      if (existing) {
+        build.skipped.push(`${csLabel(source)}: senses ${lo} and ${hi} have a contrast again`);
+        break;
+      }
+      const labels = (source.before_snapshot ?? {}) as Record<string, unknown>;
+      create({
+        sense_id: lo.toString(),
+        contrasted_sense_id: hi.toString(),
+        contrast_text: old.contrast_text,
+        sense_label: labels.sense_label ?? null,
+        contrasted_sense_label: labels.contrasted_sense_label ?? null,
+      });
+      break;
+    }
+    case 'frame_role_mapping':
+      create({
+        parent_concept_id: old.parent_concept_id,
+        child_concept_id: old.child_concept_id,
+        parent_property_label: old.parent_property_label,
+        child_property_label: old.child_property_label ?? null,
+        run_id: typeof old.run_id === 'string' ? old.run_id : '',
+        model: old.model ?? null,
+      });
+      break;
+    default:
+      build.skipped.push(`${csLabel(source)}: ${source.entity_type} deletes cannot be reverted`);
+  }
+  return build;
+}
+
+async function invertUpdate(source: SourceChangeset): Promise<InverseBuild> {
+  const build: InverseBuild = { drafts: [], conflicts: [], skipped: [] };
+  const id = source.entity_id;
+  const committed = source.field_changes.filter((fc) => fc.status === 'approved');
+  if (id === null || committed.length === 0) {
+    build.skipped.push(`${csLabel(source)}: no committed field changes`);
+    return build;
+  }
+
+  let live: Record<string, unknown> | null;
+  let version: number | null | undefined;
+  switch (source.entity_type) {
+    case 'frame': {
+      const concept = await prisma.concepts.findUnique({ where: { id } });
+      live = concept;
+      version = concept?.version;
+      break;
+    }
+    case 'lexical_unit': {
+      const lu = await prisma.lexical_units.findUnique({ where: { id } });
+      live = lu;
+      version = lu?.version;
+      break;
+    }
+    case 'frame_sense': {
+      const sense = await liveSense(Number(id));
+      live = sense ? senseSnapshot(sense) : null;
+      break;
+    }
+    case 'lexical_unit_relation': {
+      const rel = await prisma.lexical_unit_relations.findUnique({ where: { id } });
+      live = rel;
+      version = rel ? rel.version ?? 1 : undefined;
+      break;
+    }
+    case 'sense_contrast': {
+      live = await prisma.sense_contrasts.findUnique({ where: { id: Number(id) } });
+      break;
+    }
+    default:
+      build.skipped.push(`${csLabel(source)}: ${source.entity_type} updates cannot be reverted`);
+      return build;
+  }
+  if (!live) {
+    build.skipped.push(`${csLabel(source)}: ${source.entity_type} ${id} no longer exists`);
+    return build;
+  }
+
+  const fieldChanges: InverseDraft['field_changes'] = [];
+  for (const fc of committed) {
+    // Complex subfields (properties.*, senses.*, hypernym) have no single
+    // live column to read; their committed value is the best current value.
+    const current = isSimpleField(fc.field_name) ? live[fc.field_name] : fc.new_value;
+    if (isSimpleField(fc.field_name) && !sameValue(current, fc.new_value)) {
+      build.conflicts.push({
+        changeset_id: source.id.toString(),
+        entity_type: source.entity_type,
+        entity_id: id.toString(),
+        field_name: fc.field_name,
+        reason: 'value_changed',
+        other_changeset_id: null,
+        message: `${fc.field_name} is no longer the value ${csLabel(source)} committed`,
+      });
+    }
+    if (sameValue(current, fc.old_value)) {
+      build.skipped.push(`${csLabel(source)}: ${fc.field_name} is already back to its old value`);
+      continue;
+    }
+    fieldChanges.push({
+      field_name: fc.field_name,
+      old_value: typeof current === 'bigint' ? current.toString() : current,
+      new_value: fc.old_value,
+    });
+  }
+
+  if (fieldChanges.length > 0) {
+    build.drafts.push({
+      source_id: source.id,
+      entity_type: source.entity_type as EntityType,
+      entity_id: id,
+      operation: 'update',
+      entity_version: version,
+      field_changes: fieldChanges,
+    });
+  }
+  return build;
+}
+
+async function invertReferentMerge(source: SourceChangeset): Promise<InverseBuild> {
+  const build: InverseBuild = { drafts: [], conflicts: [], skipped: [] };
+  const before = (source.before_snapshot ?? {}) as Record<string, unknown>;
+  const winnerId = toBigInt(before.__merge_child_id);
+  const reverted = await prisma.audit_log.findFirst({
+    where: { changeset_id: source.id, field_name: 'merged_into_id' },
+    select: { id: true },
+  });
+  if (reverted) {
+    build.skipped.push(`${csLabel(source)}: referent merge was already reverted`);
+  } else if (!winnerId || source.entity_id === null) {
+    build.skipped.push(`${csLabel(source)}: merge has no recorded winner`);
+  } else {
+    build.drafts.push({
+      source_id: source.id,
+      entity_type: 'referent',
+      entity_id: source.entity_id,
+      operation: 'update',
+      before_snapshot: before,
+      field_changes: [{ field_name: 'merged_into_id', old_value: winnerId.toString(), new_value: null }],
+    });
+  }
+  return build;
+}
+
+async function invertConceptMerge(source: SourceChangeset): Promise<InverseBuild> {
+  const build: InverseBuild = { drafts: [], conflicts: [], skipped: [] };
+  const before = (source.before_snapshot ?? {}) as Record<string, unknown>;
+  const survivorId = toBigInt(before.__merge_child_id);
+  const audits = await prisma.audit_log.findMany({
+    where: { changeset_id: source.id, entity_type: 'frame' },
+    select: { operation: true, field_name: true, new_value: true },
+  });
+  const record = audits.find((a) => a.operation === 'merge')?.new_value as Record<string, unknown> | undefined;
+  if (audits.some((a) => a.field_name === 'merged_into')) {
+    build.skipped.push(`${csLabel(source)}: concept merge was already reverted`);
+  } else if (!survivorId || source.entity_id === null) {
+    build.skipped.push(`${csLabel(source)}: merge has no recorded survivor`);
+  } else if (!record?.undo) {
+    build.skipped.push(`${csLabel(source)}: merge was committed without an un-merge record`);
+  } else {
+    build.drafts.push({
+      source_id: source.id,
+      entity_type: 'frame',
+      entity_id: source.entity_id,
+      operation: 'update',
+      before_snapshot: before,
+      field_changes: [{ field_name: 'merged_into', old_value: survivorId.toString(), new_value: null }],
+    });
+  }
+  return build;
+}
+
+async function invertSenseMerge(source: SourceChangeset): Promise<InverseBuild> {
+  const build: InverseBuild = { drafts: [], conflicts: [], skipped: [] };
+  const before = (source.before_snapshot ?? {}) as Record<string, unknown>;
+  const winnerId = toBigInt(before.__merge_child_id);
+  if (source.entity_id === null || !winnerId) {
+    build.skipped.push(`${csLabel(source)}: merge has no recorded winner`);
+    return build;
+  }
+  const loserId = Number(source.entity_id);
+  const winnerIdInt = Number(winnerId);
+  const history = await loadHistory(source.id);
+
+  const loser = deletedRow(source, history);
+  if (!loser || typeof loser.definition !== 'string') {
+    build.skipped.push(`${csLabel(source)}: no snapshot of the merged-away sense`);
+    return build;
+  }
+  const ctx = (before.__merge_context ?? {}) as Record<string, unknown>;
+  const conceptId =
+    toBigInt(senseLinkRows(history, 'sense_concepts', loserId)[0]?.old_row?.concept_id) ??
+    toBigInt(ctx.concept_id);
+  if (!conceptId) {
+    build.skipped.push(`${csLabel(source)}: concept of the merged-away sense is unknown`);
+    return build;
+  }
+  const luLinks = senseLinkRows(history, 'lexical_unit_senses', loserId);
+  const after: Record<string, unknown> = { concept_id: conceptId };
+  for (const field of SENSE_CREATE_FIELDS) after[field] = loser[field] ?? null;
+  after.lexical_unit_ids = luLinks
+    .map((h) => toBigInt(h.old_row?.lexical_unit_id))
+    .filter((v): v is bigint => v !== null);
+  build.drafts.push({
+    source_id: source.id,
+    entity_type: 'frame_sense',
+    operation: 'create',
+    after_snapshot: after,
+    field_changes: [],
+  });
+
+  const winner = await liveSense(winnerIdInt);
+  const winnerBefore = history.find(
+    (h) =>
+      HISTORY_TABLES.frame_sense!.includes(h.table_name) &&
+      h.entity_id === winnerId &&
+      h.operation === 'update',
+  )?.old_row;
+  if (!winner) {
+    build.skipped.push(`${csLabel(source)}: surviving sense ${winnerId} no longer exists`);
+    return build;
+  }
+  if (typeof winnerBefore?.definition === 'string' && winnerBefore.definition !== winner.definition) {
+    build.drafts.push({
+      source_id: source.id,
+      entity_type: 'frame_sense',
+      entity_id: winnerId,
+      operation: 'update',
+      field_changes: [{ field_name: 'definition', old_value: winner.definition, new_value: winnerBefore.definition }],
+    });
+  }
+
+  // Only links the merge UPDATEd onto the winner move back; the ones it
+  // deleted as duplicates were already on the winner before the merge.
+  const linkedNow = new Set(winner.lexical_unit_senses.map((l) => l.lexical_unit_id));
+  for (const link of luLinks) {
+    const luId = toBigInt(link.old_row?.lexical_unit_id);
+    if (link.operation !== 'update' || !luId || !linkedNow.has(luId)) continue;
+    build.drafts.push({
+      source_id: source.id,
+      entity_type: 'lexical_unit',
+      entity_id: luId,
+      operation: 'update',
+      field_changes: [{ field_name: sensesExistsFieldName(winnerIdInt), old_value: true, new_value: false }],
+    });
+  }
+
+  build.skipped.push(
+    `${csLabel(source)}: the restored sense gets a new id; contrasts moved onto sense ${winnerId} stay there`,
+  );
+  return build;
+}
+
+async function invertChangeset(source: SourceChangeset): Promise<InverseBuild> {
+  switch (source.operation) {
+    case 'create':
+      return invertCreate(source);
+    case 'delete':
+      return invertDelete(source);
+    case 'update':
+      return invertUpdate(source);
+    case 'merge':
+      if (source.entity_type === 'referent') return invertReferentMerge(source);
+      if (source.entity_type === 'frame_sense') return invertSenseMerge(source);
+      if (source.entity_type === 'frame') return invertConceptMerge(source);
+      return {
+        drafts: [],
+        conflicts: [],
+        skipped: [`${csLabel(source)}: ${source.entity_type} merges cannot be reverted`],
+      };
+  }
+}
+
+// ============================================
+// Conflict detection
+// ============================================
+
+/** Entities whose later history decides whether `source` can be undone. */
+function touchedEntityIds(source: SourceChangeset): bigint[] {
+  const ids = source.entity_id !== null ? [source.entity_id] : [];
+  if (source.operation === 'merge') {
+    const winner = toBigInt((source.before_snapshot as Record<string, unknown> | null)?.__merge_child_id);
+    if (winner) ids.push(winner);
+  }
+  return ids;
+}
+
+/**
+ * Later commits and pending changesets on the entities `sources` touched.
+ * Changesets inside `sources` itself (the rest of a reverted plan) never
+ * count. For updates only overlapping fields conflict; any later change to
+ * a created, deleted or merged entity does.
+ */
+async function findLaterChanges(sources: SourceChangeset[]): Promise<RevertConflict[]> {
+  const sourceIds = sources.map((s) => s.id);
+  const conflicts: RevertConflict[] = [];
+
+  for (const source of sources) {
+    const entityIds = touchedEntityIds(source);
+    if (entityIds.length === 0 || !source.committed_at) continue;
+
+    const others = await prisma.changesets.findMany({
+      where: {
+        id: { notIn: sourceIds },
+        entity_type: source.entity_type,
+        entity_id: { in: entityIds },
+        OR: [
+          { status: 'committed', committed_at: { gt: source.committed_at } },
+          { status: 'pending' },
+        ],
+      },
+      include: { field_changes: { select: { field_name: true, status: true } } },
+      orderBy: { id: 'asc' },
+    });
+
+    const ownFields = new Set(
+      source.field_changes.filter((fc) => fc.status === 'approved').map((fc) => fc.field_name),
+    );
+    for (const other of others) {
+      const pending = other.status === 'pending';
+      const otherFields = other.field_changes
+        .filter((fc) => (pending ? fc.status !== 'rejected' : fc.status === 'approved'))
+        .map((fc) => fc.field_name);
+      const fields =
+        source.operation === 'update' && other.operation === 'update'
+          ? otherFields.filter((f) => ownFields.has(f))
+          : ['*'];
+      for (const field of fields) {
+        conflicts.push({
+          changeset_id: source.id.toString(),
+          entity_type: source.entity_type,
+          entity_id: other.entity_id?.toString() ?? null,
+          field_name: field,
+          reason: pending ? 'pending_change' : 'later_commit',
+          other_changeset_id: other.id.toString(),
+          message: pending
+            ? `pending ${other.operation} #${other.id} also edits ${field === '*' ? 'this entity' : field}`
+            : `${other.operation} #${other.id} changed ${field === '*' ? 'this entity' : field} after ${csLabel(source)}`,
+        });
+      }
+    }
+  }
+  return conflicts;
+}
+
+// ============================================
+// Staging
+// ============================================
+
+async function assertNotReverted(
+  tx: Prisma.TransactionClient,
+  sources: SourceChangeset[],
+): Promise<void> {
+  const existing = await tx.changesets.findFirst({
+    where: {
+      reverts_changeset_id: { in: sources.map((s) => s.id) },
+      status: { in: ['pending', 'committed'] },
+    },
+    select: { id: true, status: true, reverts_changeset_id: true },
+  });
+  if (existing) {
+    throw new RevertError(
+      `Changeset ${existing.reverts_changeset_id} already has a ${existing.status} revert (#${existing.id})`,
+      409,
+    );
+  }
+}
+
+async function stageInverse(
+  sources: SourceChangeset[],
+  userId: string,
+  options: RevertOptions,
+  plan: { reverts_plan_id: bigint | null; summary: string },
+): Promise<RevertResult> {
+  // Undo newest first so same-type inverses commit in reverse order.
+  const ordered = [...sources].sort((a, b) => {
+    const at = a.committed_at?.getTime() ?? 0;
+    const bt = b.committed_at?.getTime() ?? 0;
+    return bt - at || (b.id > a.id ? 1 : b.id < a.id ? -1 : 0);
+  });
+
+  const drafts: InverseDraft[] = [];
+  const conflicts: RevertConflict[] = [];
+  const skipped: string[] = [];
+  for (const source of ordered) {
+    const build = await invertChangeset(source);
+    drafts.push(...build.drafts);
+    conflicts.push(...build.conflicts);
+    skipped.push(...build.skipped);
+  }
+  conflicts.push(...(await findLaterChanges(sources)));
+
+  if (conflicts.length > 0 && !options.force) {
+    throw new RevertConflictError(conflicts);
+  }
+  if (drafts.length === 0) {
+    throw new RevertError(`Nothing to revert: ${skipped.join('; ') || 'no inverse changes'}`, 422);
+  }
+
+  // Lock the source rows so two concurrent reverts of the same changeset
+  // serialize here; the second then sees the first one's pending inverse.
+  return prisma.$transaction(
+    async (tx) => {
+      await tx.$queryRaw`
+        SELECT id FROM changesets
+        WHERE id IN (${Prisma.join(sources.map((s) => s.id))})
+        ORDER BY id
+        FOR UPDATE
+      `;
+      await assertNotReverted(tx, sources);
+
+      const staged: bigint[] = [];
+      for (const draft of drafts) {
+        const changeset = await createChangeset({
+          entity_type: draft.entity_type,
+          entity_id: draft.entity_id,
+          operation: draft.operation,
+          entity_version: draft.entity_version ?? undefined,
+          before_snapshot: draft.before_snapshot,
+          after_snapshot: draft.after_snapshot,
+          created_by: userId,
+          reverts_changeset_id: draft.source_id,
+        }, tx);
+        for (const fc of draft.field_changes) {
+          await createFieldChange({ changeset_id: changeset.id, ...fc }, tx);
+        }
+        staged.push(changeset.id);
+      }
+
+      let planId: bigint | null = null;
+      if (staged.length > 1) {
+        const changePlan = await tx.change_plans.create({
+          data: {
+            plan_kind: 'revert',
+            summary: plan.summary,
+            created_by: userId,
+            metadata: {
+              reverts_plan_id: plan.reverts_plan_id?.toString() ?? null,
+              reverts_changeset_ids: sources.map((s) => s.id.toString()),
+              conflicts: conflicts as unknown as Prisma.InputJsonValue,
+              skipped,
+            },
+          },
+        });
+        await tx.changesets.updateMany({
+          where: { id: { in: staged }, change_plan_id: null, status: 'pending' },
+          data: { change_plan_id: changePlan.id },
+        });
+        planId = changePlan.id;
+      }
+
+      return {
+        plan_id: planId?.toString() ?? null,
+        changeset_ids: staged.map((id) => id.toString()),
+        conflicts,
+        skipped,
+      };
+    },
+    { timeout: 30_000, maxWait: 10_000 },
+  );
+}
+
+/**
+ * Stage the inverse of one committed changeset. Returns a loose pending
+ * changeset, or a `revert` plan when the inverse needs several (sense
+ * merges).
+ */
+export async function stageChangesetRevert(
+  changesetId: bigint,
+  userId: string,
+  options: RevertOptions = {},
+): Promise<RevertResult> {
+  const source = await prisma.changesets.findUnique({
+    where: { id: changesetId },
+    include: { field_changes: true },
+  });
+  if (!source) {
+    throw new RevertError(`Changeset not found: ${changesetId}`, 404);
+  }
+  if (source.status !== 'committed') {
+    throw new RevertError(`Changeset ${changesetId} is ${source.status}, not committed`, 422);
+  }
+  return stageInverse([source], userId, options, {
+    reverts_plan_id: null,
+    summary: `Revert changeset #${changesetId}`,
+  });
+}
+
+/**
+ * Stage the inverse of every committed member of a committed plan as one
+ * `revert` plan, so the rollback lands atomically.
+ */
+export async function stagePlanRevert(
+  planId: bigint,
+  userId: string,
+  options: RevertOptions = {},
+): Promise<RevertResult> {
+  const plan = await prisma.change_plans.findUnique({
+    where: { id: planId },
+    select: { id: true, status: true, plan_kind: true, summary: true },
+  });
+  if (!plan) {
+    throw new RevertError(`Change plan not found: ${planId}`, 404);
+  }
+  if (plan.status !== 'committed') {
+    throw new RevertError(`Change plan ${planId} is ${plan.status}, not committed`, 422);
+  }
+  const sources = await prisma.changesets.findMany({
+    where: { change_plan_id: planId, status: 'committed' },
+    include: { field_changes: true },
+  });
+  if (sources.length === 0) {
+    throw new RevertError(`Change plan ${planId} has no committed changesets`, 422);
+  }
+  return stageInverse(sources, userId, options, {
+    reverts_plan_id: planId,
+    summary: `Revert ${plan.plan_kind.replace(/_/g, ' ')} plan #${planId}${plan.summary ? `: ${plan.summary}` : ''}`,
+  });
+}
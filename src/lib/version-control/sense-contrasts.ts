@@ -0,0 +1,364 @@
+/**
+ * Version Control - Sense Contrasts
+ *
+ * Staging and commit helpers for `sense_contrasts` rows (entity_type
+ * `sense_contrast`): a short text saying how one sense of a lemma differs
+ * from a sibling sense. A row is addressed by its sense pair, always stored
+ * lower id first (the table's CHECK constraint), so editing a contrast from
+ * either sense lands on the same row. Create, delete and a `contrast_text`
+ * update are staged as ordinary changesets.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import {
+  createChangesetFromCreate,
+  createChangesetFromDelete,
+  createChangesetFromUpdate,
+  findPendingChangeset,
+} from './create';
+import { setRowHistoryContext } from './rowHistoryContext';
+import type { StagedResponse } from './stage';
+import type { ChangesetWithFieldChanges, CommitResult } from './types';
+
+/** Longest contrast text accepted when staging. */
+export const MAX_SENSE_CONTRAST_LENGTH = 1000;
+
+export class SenseContrastError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'SenseContrastError';
+  }
+}
+
+export interface SenseContrastInput {
+  senseId: number;
+  contrastedSenseId: number;
+  contrastText: string;
+}
+
+export interface SenseContrastStageOptions {
+  /** Set when the text was drafted by a draft_sense_contrasts job. */
+  llmJobId?: bigint;
+  extra?: Record<string, unknown>;
+}
+
+interface ContrastSense {
+  id: number;
+  pos: string;
+  definition: string;
+  lemmas: string[];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/** Order a pair the way sense_contrasts stores it (lower id first). */
+export function canonicalSensePair(a: number, b: number): [number, number] {
+  if (a === b) {
+    throw new SenseContrastError('A sense cannot be contrasted with itself');
+  }
+  return a < b ? [a, b] : [b, a];
+}
+
+/** Short label for a sense, e.g. `bank (noun): sloping land beside a…`. */
+export function senseContrastLabel(sense: { pos: string; definition: string; lemmas: string[] }): string {
+  const definition = sense.definition.length > 40 ? `${sense.definition.slice(0, 40)}…` : sense.definition;
+  return `${sense.lemmas[0] ?? '?'} (${sense.pos}): ${definition}`;
+}
+
+function normalizeText(text: unknown): string {
+  const trimmed = typeof text === 'string' ? text.trim() : '';
+  if (!trimmed) {
+    throw new SenseContrastError('contrast_text must be a non-empty string');
+  }
+  if (trimmed.length > MAX_SENSE_CONTRAST_LENGTH) {
+    throw new SenseContrastError(`contrast_text is longer than ${MAX_SENSE_CONTRAST_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+function toIntOrNull(v: unknown): number | null {
+  if (typeof v === 'number' && Number.isInteger(v)) return v;
+  if (typeof v === 'bigint') return Number(v);
+  if (typeof v === 'string' && /^\d+$/.test(v.trim())) return Number(v.trim());
+  return null;
+}
+
+async function loadPair(lo: number, hi: number): Promise<[ContrastSense, ContrastSense]> {
+  const senses = await prisma.senses.findMany({
+    where: { id: { in: [lo, hi] } },
+    select: { id: true, pos: true, definition: true, lemmas: true },
+  });
+  const low = senses.find((s) => s.id === lo);
+  const high = senses.find((s) => s.id === hi);
+  if (!low || !high) {
+    throw new SenseContrastError(`Sense ${!low ? lo : hi} not found`, 404);
+  }
+  if (!low.lemmas.some((lemma) => high.lemmas.includes(lemma))) {
+    throw new SenseContrastError(`Senses ${lo} and ${hi} share no lemma`);
+  }
+  return [low, high];
+}
+
+/**
+ * Snapshot stored on contrast changesets. Ids are strings so the JSON
+ * round-trips; the `*_label` strings are what the pending-changes UI shows.
+ */
+function contrastSnapshot(
+  low: ContrastSense,
+  high: ContrastSense,
+  contrastText: string,
+  extra: Record<string, unknown> = {},
+): Record<string, unknown> {
+  return {
+    sense_id: low.id.toString(),
+    contrasted_sense_id: high.id.toString(),
+    contrast_text: contrastText,
+    sense_label: senseContrastLabel(low),
+    contrasted_sense_label: senseContrastLabel(high),
+    ...extra,
+  };
+}
+
+async function findContrast(lo: number, hi: number) {
+  return prisma.sense_contrasts.findUnique({
+    where: { sense_id_contrasted_sense_id: { sense_id: lo, contrasted_sense_id: hi } },
+  });
+}
+
+async function loadContrast(contrastId: number) {
+  const contrast = await prisma.sense_contrasts.findUnique({ where: { id: contrastId } });
+  if (!contrast) {
+    throw new SenseContrastError(`Sense contrast ${contrastId} not found`, 404);
+  }
+  const [low, high] = await loadPair(contrast.sense_id, contrast.contrasted_sense_id);
+  return { contrast, low, high };
+}
+
+/** Pending CREATE for a sense pair, if one is staged. */
+export async function findPendingSenseContrastCreate(lo: number, hi: number) {
+  return prisma.changesets.findFirst({
+    where: {
+      entity_type: 'sense_contrast',
+      operation: 'create',
+      status: 'pending',
+      AND: [
+        { after_snapshot: { path: ['sense_id'], equals: lo.toString() } },
+        { after_snapshot: { path: ['contrasted_sense_id'], equals: hi.toString() } },
+      ],
+    },
+    select: { id: true, after_snapshot: true },
+  });
+}
+
+// ============================================
+// Staging
+// ============================================
+
+/**
+ * Stage a CREATE for a contrast between two senses sharing a lemma.
+ * Re-staging a pair that already has a pending CREATE returns that
+ * changeset.
+ */
+export async function stageSenseContrastCreate(
+  input: SenseContrastInput,
+  userId: string,
+  options: SenseContrastStageOptions = {},
+): Promise<StagedResponse> {
+  const [lo, hi] = canonicalSensePair(input.senseId, input.contrastedSenseId);
+  const contrastText = normalizeText(input.contrastText);
+  const [low, high] = await loadPair(lo, hi);
+
+  if (await findContrast(lo, hi)) {
+    throw new SenseContrastError('These senses already have a contrast; edit it instead', 409);
+  }
+  const pending = await findPendingSenseContrastCreate(lo, hi);
+  if (pending) {
+    return {
+      staged: true,
+      changeset_id: pending.id.toString(),
+      message: 'A contrast for these senses is already staged for review',
+      field_changes_count: 0,
+    };
+  }
+
+  const changeset = await createChangesetFromCreate(
+    'sense_contrast',
+    contrastSnapshot(low, high, contrastText, options.extra),
+    userId,
+    options.llmJobId,
+  );
+  return {
+    staged: true,
+    changeset_id: changeset.id.toString(),
+    message: `Contrast between senses ${lo} and ${hi} staged for review`,
+    field_changes_count: 0,
+  };
+}
+
+/**
+ * Stage a new `contrast_text` for an existing contrast. Repeated edits
+ * fold into the pending UPDATE; a contrast with a pending DELETE is
+ * refused until that is committed or discarded.
+ */
+export async function stageSenseContrastUpdate(
+  contrastId: number,
+  contrastText: string,
+  userId: string,
+  options: SenseContrastStageOptions = {},
+): Promise<StagedResponse> {
+  const text = normalizeText(contrastText);
+  const { contrast, low, high } = await loadContrast(contrastId);
+
+  const pending = await findPendingChangeset('sense_contrast', BigInt(contrastId));
+  if (pending && pending.operation !== 'update') {
+    throw new SenseContrastError('This contrast has pending changes; review them first', 409);
+  }
+
+  const changeset = await createChangesetFromUpdate(
+    'sense_contrast',
+    BigInt(contrastId),
+    { id: contrast.id.toString(), ...contrastSnapshot(low, high, contrast.contrast_text, options.extra) },
+    { contrast_text: text },
+    userId,
+    options.llmJobId,
+  );
+  return {
+    staged: true,
+    changeset_id: changeset.id.toString(),
+    message: changeset.field_changes.length > 0
+      ? `Contrast between senses ${low.id} and ${high.id} staged for review`
+      : 'No changes detected',
+    field_changes_count: changeset.field_changes.length,
+  };
+}
+
+/**
+ * Stage a DELETE of a contrast. A contrast that already has a pending
+ * DELETE returns that changeset; one with a pending edit is refused.
+ */
+export async function stageSenseContrastDelete(
+  contrastId: number,
+  userId: string,
+): Promise<StagedResponse> {
+  const { contrast, low, high } = await loadContrast(contrastId);
+
+  const pending = await findPendingChangeset('sense_contrast', BigInt(contrastId));
+  if (pending) {
+    if (pending.operation === 'delete') {
+      return {
+        staged: true,
+        changeset_id: pending.id.toString(),
+        message: 'Deletion of this contrast is already staged for review',
+        field_changes_count: 0,
+      };
+    }
+    throw new SenseContrastError('This contrast has pending changes; review them first', 409);
+  }
+
+  const changeset = await createChangesetFromDelete(
+    'sense_contrast',
+    BigInt(contrastId),
+    { id: contrast.id.toString(), ...contrastSnapshot(low, high, contrast.contrast_text) },
+    userId,
+  );
+  return {
+    staged: true,
+    changeset_id: changeset.id.toString(),
+    message: `Deletion of the contrast between senses ${low.id} and ${high.id} staged for review`,
+    field_changes_count: 0,
+  };
+}
+
+// ============================================
+// Commit (inside the caller's transaction)
+// ============================================
+
+/**
+ * CREATE changeset body; returns the id of the row. A pair that gained a
+ * contrast since staging has its text replaced rather than failing on the
+ * unique pair.
+ */
+export async function commitSenseContrastCreateInTx(
+  tx: Prisma.TransactionClient,
+  data: Record<string, unknown>,
+): Promise<bigint> {
+  const a = toIntOrNull(data.sense_id);
+  const b = toIntOrNull(data.contrasted_sense_id);
+  if (a === null || b === null || typeof data.contrast_text !== 'string') {
+    throw new Error('CREATE sense_contrast requires sense_id, contrasted_sense_id, and contrast_text');
+  }
+  const [lo, hi] = canonicalSensePair(a, b);
+  const row = await tx.sense_contrasts.upsert({
+    where: { sense_id_contrasted_sense_id: { sense_id: lo, contrasted_sense_id: hi } },
+    create: { sense_id: lo, contrasted_sense_id: hi, contrast_text: data.contrast_text },
+    update: { contrast_text: data.contrast_text, updated_at: new Date() },
+  });
+  return BigInt(row.id);
+}
+
+/** DELETE changeset body; a row that is already gone is a no-op. */
+export async function commitSenseContrastDeleteInTx(
+  tx: Prisma.TransactionClient,
+  contrastId: bigint,
+): Promise<void> {
+  await tx.sense_contrasts.deleteMany({ where: { id: Number(contrastId) } });
+}
+
+/** UPDATE changeset body. Only `contrast_text` is editable. */
+export async function commitSenseContrastUpdateInTx(
+  tx: Prisma.TransactionClient,
+  changeset: ChangesetWithFieldChanges,
+  approvedChanges: ChangesetWithFieldChanges['field_changes'],
+  committedBy: string,
+): Promise<CommitResult> {
+  const contrastId = changeset.entity_id!;
+  const unsupported = approvedChanges.find((fc) => fc.field_name !== 'contrast_text');
+  if (unsupported) {
+    throw new Error(`UPDATE sense_contrast only supports the contrast_text field, got ${unsupported.field_name}`);
+  }
+  const textChange = approvedChanges[0];
+
+  await setRowHistoryContext(tx, { userId: committedBy, changesetId: changeset.id });
+
+  if (textChange) {
+    if (typeof textChange.new_value !== 'string' || !textChange.new_value.trim()) {
+      throw new Error('contrast_text must be a non-empty string');
+    }
+    const updated = await tx.sense_contrasts.updateMany({
+      where: { id: Number(contrastId) },
+      data: { contrast_text: textChange.new_value.trim(), updated_at: new Date() },
+    });
+    if (updated.count === 0) {
+      throw new Error(`sense_contrast ${contrastId} not found - it may have been deleted`);
+    }
+  }
+
+  await tx.changesets.update({
+    where: { id: changeset.id },
+    data: { status: 'committed', reviewed_by: committedBy, reviewed_at: new Date(), committed_at: new Date() },
+  });
+  for (const fc of approvedChanges) {
+    await tx.audit_log.create({
+      data: {
+        entity_type: changeset.entity_type,
+        entity_id: contrastId,
+        field_name: fc.field_name,
+        operation: 'update',
+        old_value: fc.old_value === null ? Prisma.DbNull : fc.old_value as Prisma.InputJsonValue,
+        new_value: fc.new_value === null ? Prisma.DbNull : fc.new_value as Prisma.InputJsonValue,
+        changed_by: committedBy,
+        changesets: { connect: { id: changeset.id } },
+      },
+    });
+  }
+
+  return {
+    success: true,
+    committed_count: approvedChanges.length,
+    skipped_count: changeset.field_changes.length - approvedChanges.length,
+    errors: [],
+  };
+}
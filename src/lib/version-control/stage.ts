@@ -6,6 +6,7 @@
  * reviewed and committed through the Pending Changes modal.
  */
 
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import {
   createChangesetFromUpdate,
@@ -18,6 +19,7 @@ import {
 import { randomUUID } from 'crypto';
 import { parsePropertiesFieldName } from './propertiesSubfields';
 import { sensesExistsFieldName } from './sensesSubfields';
+import { evaluateStagedChanges } from '@/lib/commit-policies/engine';
 import {
   EntityType,
   ENTITY_TYPE_TO_TABLE,
@@ -34,6 +36,32 @@ export interface StagedResponse {
   changeset_id: string;
   message: string;
   field_changes_count: number;
+  /** Set when a commit policy committed the change right after staging. */
+  auto_committed?: boolean;
+}
+
+/** Run commit policies on a freshly staged changeset and report auto-commits. */
+export async function withCommitPolicies(response: StagedResponse): Promise<StagedResponse> {
+  if (!response.changeset_id) return response;
+  const [outcome] = await evaluateStagedChanges({ changesetIds: [BigInt(response.changeset_id)] });
+  if (outcome?.decision !== 'auto_committed') return response;
+  return {
+    ...response,
+    auto_committed: true,
+    message: `Changes committed automatically by commit policy "${outcome.policy_name}"`,
+  };
+}
+
+/**
+ * Commit policies commit through their own connection and cannot see rows
+ * staged in an open transaction, so helpers given a caller's `db` leave
+ * them to the caller (`withCommitPolicies` once the transaction commits).
+ */
+function policiesUnlessInTx(
+  db: Prisma.TransactionClient,
+  response: StagedResponse,
+): StagedResponse | Promise<StagedResponse> {
+  return db === prisma ? withCommitPolicies(response) : response;
 }
 
 // ============================================
@@ -43,9 +71,10 @@ export interface StagedResponse {
 /**
  * Fetch the current state of an entity by its code (string ID like "run.v.01")
  */
-async function fetchEntityByCode(
+export async function fetchEntityByCode(
   entityType: string,
-  code: string
+  code: string,
+  db: Prisma.TransactionClient = prisma,
 ): Promise<{ entity: Record<string, unknown>; numericId: bigint } | null> {
   const normalizedType = normalizeEntityType(entityType);
   const table = ENTITY_TYPE_TO_TABLE[normalizedType];
@@ -55,7 +84,7 @@ async function fetchEntityByCode(
 
   // Most tables use numeric ID, lexical_units also supports lookup by code
   if (isLexicalUnitType(normalizedType)) {
-    entity = await prisma.lexical_units.findFirst({
+    entity = await db.lexical_units.findFirst({
       where: { 
         OR: [
           { code },
@@ -70,7 +99,7 @@ async function fetchEntityByCode(
     // changes to `concept_id` have an accurate before_value.
     if (!isNumericId(code)) return null;
     const senseId = Number(code);
-    const sense = await prisma.senses.findUnique({
+    const sense = await db.senses.findUnique({
       where: { id: senseId },
       include: { sense_concepts: { select: { concept_id: true } } },
     });
@@ -88,7 +117,7 @@ async function fetchEntityByCode(
       const numericId = BigInt(code);
       // We have to use any because we don't know the table name at compile time
       // and Prisma doesn't support dynamic table names easily without $queryRaw
-      entity = await (prisma[table as keyof typeof prisma] as any).findUnique({
+      entity = await (db[table as keyof typeof db] as any).findUnique({
         where: { id: numericId },
       }) as Record<string, unknown> | null;
     } catch (error) {
@@ -124,6 +153,7 @@ function isNumericId(id: string): boolean {
  * @param updates - The proposed updates (field name -> new value)
  * @param userId - The user making the change
  * @param comment - Optional justification for the change
+ * @param db - Transaction to stage in; commit policies are then the caller's job
  * @returns StagedResponse with changeset info
  */
 export async function stageUpdate(
@@ -131,13 +161,14 @@ export async function stageUpdate(
   entityCode: string,
   updates: Record<string, unknown>,
   userId: string,
-  comment?: string
+  comment?: string,
+  db: Prisma.TransactionClient = prisma,
 ): Promise<StagedResponse> {
   // Normalize entity type (e.g., verb -> lexical_unit)
   const normalizedType = normalizeEntityType(entityType);
 
   // Fetch current entity state
-  const result = await fetchEntityByCode(entityType, entityCode);
+  const result = await fetchEntityByCode(entityType, entityCode, db);
   if (!result) {
     throw new Error(`Entity not found: ${entityType}:${entityCode}`);
   }
@@ -161,6 +192,7 @@ export async function stageUpdate(
     updates,
     userId,
     undefined,
+    db,
   );
 
   // `createChangesetFromUpdate()` returns a "virtual" empty changeset (id=0)
@@ -185,12 +217,12 @@ export async function stageUpdate(
     };
   }
 
-  return {
+  return policiesUnlessInTx(db, {
     staged: true,
     changeset_id: changeset.id.toString(),
     message: `Changes staged for review (${changeset.field_changes.length} field${changeset.field_changes.length !== 1 ? 's' : ''})`,
     field_changes_count: changeset.field_changes.length,
-  };
+  });
 }
 
 /**
@@ -228,12 +260,12 @@ export async function stageDelete(
     undefined,
   );
 
-  return {
+  return withCommitPolicies({
     staged: true,
     changeset_id: changeset.id.toString(),
     message: 'Delete operation staged for review',
     field_changes_count: 0,
-  };
+  });
 }
 
 /**
@@ -251,20 +283,22 @@ export async function stageDelete(
  * @param senseId    - The frame_sense.id to attach/detach
  * @param attach     - true to attach, false to detach
  * @param userId     - The user making the change
+ * @param db         - Transaction to stage in; commit policies are then the caller's job
  */
 export async function stageSenseAttachment(
   luCodeOrId: string,
   senseId: number,
   attach: boolean,
   userId: string,
+  db: Prisma.TransactionClient = prisma,
 ): Promise<StagedResponse> {
-  const result = await fetchEntityByCode('lexical_unit', luCodeOrId);
+  const result = await fetchEntityByCode('lexical_unit', luCodeOrId, db);
   if (!result) {
     throw new Error(`Lexical unit not found: ${luCodeOrId}`);
   }
   const { entity, numericId } = result;
 
-  const existingLink = await prisma.lexical_unit_senses.findUnique({
+  const existingLink = await db.lexical_unit_senses.findUnique({
     where: {
       lexical_unit_id_sense_id: {
         lexical_unit_id: numericId,
@@ -291,6 +325,7 @@ export async function stageSenseAttachment(
     { [fieldName]: attach },
     userId,
     undefined,
+    db,
   );
 
   if (changeset.id === BigInt(0) || changeset.field_changes.length === 0) {
@@ -310,12 +345,12 @@ export async function stageSenseAttachment(
     };
   }
 
-  return {
+  return policiesUnlessInTx(db, {
     staged: true,
     changeset_id: changeset.id.toString(),
     message: `Sense ${attach ? 'attach' : 'detach'} staged for review`,
     field_changes_count: changeset.field_changes.length,
-  };
+  });
 }
 
 /**
@@ -358,12 +393,14 @@ export async function stageFlagUpdates(
  * @param newProperties - The new frame roles array
  * @param userId - The user making the changes
  * @param comment - Optional justification for the changes
+ * @param db - Transaction to stage in; commit policies are then the caller's job
  */
 export async function stagePropertiesUpdate(
   conceptId: string,
   newProperties: unknown[],
   userId: string,
-  comment?: string
+  comment?: string,
+  db: Prisma.TransactionClient = prisma,
 ): Promise<StagedResponse> {
   const numericId = BigInt(conceptId);
 
@@ -428,7 +465,7 @@ export async function stagePropertiesUpdate(
   });
   
   // Fetch current concept
-  const concept = await prisma.concepts.findUnique({
+  const concept = await db.concepts.findUnique({
     where: { id: numericId },
   });
 
@@ -437,7 +474,7 @@ export async function stagePropertiesUpdate(
   }
 
   // Fetch current properties
-  const currentPropertiesRaw = await prisma.properties.findMany({
+  const currentPropertiesRaw = await db.properties.findMany({
     where: { concept_id: numericId },
     orderBy: { id: 'asc' },
   });
@@ -473,10 +510,10 @@ export async function stagePropertiesUpdate(
   // upsertFieldChange() can auto-discard a changeset when the last field change is deleted,
   // but in this function we may delete and create changes in one pass.
   const reconcileChangesetStatus = async (changesetId: bigint): Promise<number> => {
-    const count = await prisma.field_changes.count({
+    const count = await db.field_changes.count({
       where: { changeset_id: changesetId },
     });
-    await prisma.changesets.update({
+    await db.changesets.update({
       where: { id: changesetId },
       data: { status: count > 0 ? 'pending' : 'discarded' },
     });
@@ -484,12 +521,12 @@ export async function stagePropertiesUpdate(
   };
 
   // Check if there's already a pending changeset for this concept
-  const changeset = await findPendingChangeset('frame', numericId);
+  const changeset = await findPendingChangeset('frame', numericId, db);
 
   if (changeset) {
     // If a legacy full-field change exists, delete it so we only track granular sub-changes.
     // This avoids double-applying properties edits at commit time.
-    await prisma.field_changes.deleteMany({
+    await db.field_changes.deleteMany({
       where: { changeset_id: changeset.id, field_name: 'properties' },
     });
 
@@ -519,7 +556,8 @@ export async function stagePropertiesUpdate(
         changeset.id,
         `properties.${rt}.__exists`,
         oldExists,
-        newExists
+        newExists,
+        db,
       );
 
       for (const f of roleFields) {
@@ -530,7 +568,8 @@ export async function stagePropertiesUpdate(
           changeset.id,
           `properties.${rt}.${String(f)}`,
           oldValue,
-          newValue
+          newValue,
+          db,
         );
       }
     }
@@ -545,12 +584,12 @@ export async function stagePropertiesUpdate(
       };
     }
 
-    return {
+    return policiesUnlessInTx(db, {
       staged: true,
       changeset_id: changeset.id.toString(),
       message: 'Concept role changes staged for review',
       field_changes_count: fieldChangesCount,
-    };
+    });
   }
 
   // Create new changeset
@@ -568,6 +607,7 @@ export async function stagePropertiesUpdate(
     { properties: normalizedNewProperties },
     userId,
     undefined,
+    db,
   );
 
   // Virtual empty changeset indicates no differences
@@ -581,7 +621,7 @@ export async function stagePropertiesUpdate(
   }
 
   // Delete the legacy full-field change so only granular sub-changes remain.
-  await prisma.field_changes.deleteMany({
+  await db.field_changes.deleteMany({
     where: { changeset_id: newChangeset.id, field_name: 'properties' },
   });
 
@@ -595,7 +635,8 @@ export async function stagePropertiesUpdate(
       newChangeset.id,
       `properties.${rt}.__exists`,
       oldExists,
-      newExists
+      newExists,
+      db,
     );
 
     for (const f of roleFields) {
@@ -606,7 +647,8 @@ export async function stagePropertiesUpdate(
         newChangeset.id,
         `properties.${rt}.${String(f)}`,
         oldValue,
-        newValue
+        newValue,
+        db,
       );
     }
   }
@@ -621,12 +663,12 @@ export async function stagePropertiesUpdate(
     };
   }
 
-  return {
+  return policiesUnlessInTx(db, {
     staged: true,
     changeset_id: newChangeset.id.toString(),
     message: 'Concept role changes staged for review',
     field_changes_count: fieldChangesCount,
-  };
+  });
 }
 
 // ============================================
@@ -653,11 +695,12 @@ export async function stageConceptRelationReparent(
   newParentConceptId: bigint,
   userId: string,
   llmJobId?: bigint,
+  db: Prisma.TransactionClient = prisma,
 ): Promise<ReparentResult> {
   // Validate frames exist and are not deleted
   const [concept, newParent] = await Promise.all([
-    prisma.concepts.findUnique({ where: { id: conceptId }, select: { id: true, label: true, deleted: true } }),
-    prisma.concepts.findUnique({ where: { id: newParentConceptId }, select: { id: true, label: true, deleted: true } }),
+    db.concepts.findUnique({ where: { id: conceptId }, select: { id: true, label: true, deleted: true } }),
+    db.concepts.findUnique({ where: { id: newParentConceptId }, select: { id: true, label: true, deleted: true } }),
   ]);
 
   if (!concept || concept.deleted) {
@@ -671,12 +714,12 @@ export async function stageConceptRelationReparent(
   }
 
   // Cycle detection: walk up from newParentConceptId following parent_of edges
-  await assertNoCycle(conceptId, newParentConceptId);
+  await assertNoCycle(conceptId, newParentConceptId, db);
 
   // Convention: parent_of parent_id = parent, child_id = child.
   // Find the current parent_of relation for this frame (where the
   // frame is the child).
-  const existingRelation = await prisma.concept_relations.findFirst({
+  const existingRelation = await db.concept_relations.findFirst({
     where: {
       child_id: conceptId,
       type: 'parent_of',
@@ -706,7 +749,7 @@ export async function stageConceptRelationReparent(
   if (existingRelation) {
     // Resolve old parent label for richer snapshots (parent is at
     // parent_id under the source=parent / target=child convention).
-    const oldParent = await prisma.concepts.findUnique({
+    const oldParent = await db.concepts.findUnique({
       where: { id: existingRelation.parent_id },
       select: { label: true },
     });
@@ -728,6 +771,7 @@ export async function stageConceptRelationReparent(
       relSnapshot,
       userId,
       llmJobId,
+      db,
     );
     deleteChangesetId = deleteChangeset.id.toString();
   }
@@ -746,6 +790,7 @@ export async function stageConceptRelationReparent(
     } as unknown as Record<string, unknown>,
     userId,
     llmJobId,
+    db,
   );
 
   return {
@@ -766,7 +811,11 @@ export async function stageConceptRelationReparent(
  * walk UP from a node X (find its parent), look for the row where
  * `child_id = X` and follow `parent_id`.
  */
-async function assertNoCycle(targetConceptId: bigint, startConceptId: bigint): Promise<void> {
+async function assertNoCycle(
+  targetConceptId: bigint,
+  startConceptId: bigint,
+  db: Prisma.TransactionClient = prisma,
+): Promise<void> {
   const visited = new Set<string>();
   let current = startConceptId;
 
@@ -781,7 +830,7 @@ async function assertNoCycle(targetConceptId: bigint, startConceptId: bigint): P
       );
     }
 
-    const parentRel = await prisma.concept_relations.findFirst({
+    const parentRel = await db.concept_relations.findFirst({
       where: {
         child_id: current,
         type: 'parent_of',
@@ -0,0 +1,775 @@
+/**
+ * Version Control - Entity Timeline
+ *
+ * Reads `entity_row_history` (filled by the `log_entity_row_history()`
+ * trigger) for a concept, lexical unit or sense and shapes it into a
+ * changeset-grouped timeline with per-field diffs. Child rows that belong
+ * to the entity are folded in alongside its own row:
+ *
+ *   concept       → properties, sense_concepts, concept_relations
+ *   lexical_unit  → lexical_unit_senses, lexical_unit_relations
+ *   sense         → sense_concepts, lexical_unit_senses
+ *
+ * Child rows are matched on the parent key inside the JSONB snapshot; the
+ * expressions below must stay identical to the partial indexes created by
+ * `migrations/add_entity_timeline_support.sql`.
+ *
+ * "Restore to this point" never writes to the live tables. It rewinds the
+ * current rows through every history entry newer than the chosen point and
+ * stages whatever differs through the normal helpers (`stageUpdate`,
+ * `stagePropertiesUpdate`, `stageSenseAttachment`,
+ * `stageConceptRelationReparent`), so the result shows up as an ordinary
+ * pending changeset and goes through review like any other edit. A restore
+ * that spans several changesets stages them in one transaction, so it
+ * lands whole or not at all.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { valuesAreEqual } from './create';
+import {
+  stageUpdate,
+  stagePropertiesUpdate,
+  stageSenseAttachment,
+  stageConceptRelationReparent,
+  withCommitPolicies,
+  type StagedResponse,
+} from './stage';
+import type { EntityType } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export type TimelineEntityKind = 'concept' | 'lexical_unit' | 'sense';
+
+export type TimelineRelation =
+  | 'self'
+  | 'property'
+  | 'sense_concept'
+  | 'concept_relation'
+  | 'lexical_unit_sense'
+  | 'lexical_unit_relation';
+
+export interface TimelineFieldDiff {
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+}
+
+export interface TimelineRowChange {
+  history_id: string;
+  table_name: string;
+  relation: TimelineRelation;
+  /** Primary key of the changed row, or a `a:b` composite key. */
+  row_key: string | null;
+  /** Short human-readable description of the row (e.g. property label). */
+  row_label: string | null;
+  operation: 'create' | 'update' | 'delete' | 'merge';
+  changed_at: string;
+  changed_by: string | null;
+  diffs: TimelineFieldDiff[];
+}
+
+export interface TimelineChangesetInfo {
+  id: string;
+  entity_type: string;
+  entity_id: string | null;
+  operation: string;
+  created_by: string;
+  reviewed_by: string | null;
+  committed_at: string | null;
+  change_plan_id: string | null;
+  llm_job_id: string | null;
+  origin: string;
+}
+
+export interface TimelineGroup {
+  /** The changeset that produced these rows, or null for direct writes. */
+  changeset_id: string | null;
+  changeset: TimelineChangesetInfo | null;
+  changed_at: string;
+  changed_by: string | null;
+  /**
+   * Newest history id in the group. Restoring to this id reproduces the
+   * entity exactly as it was right after the group was applied.
+   */
+  restore_point: string;
+  changes: TimelineRowChange[];
+}
+
+export interface EntityTimeline {
+  kind: TimelineEntityKind;
+  entity_id: string;
+  groups: TimelineGroup[];
+  /** Pass as `before` to fetch the next (older) page; null when exhausted. */
+  next_cursor: string | null;
+}
+
+export interface TimelineRestoreResult {
+  restored_to: string;
+  staged: StagedResponse[];
+  /** Differences that could not be staged automatically, one line each. */
+  skipped: string[];
+}
+
+export class TimelineEntityNotFoundError extends Error {
+  constructor(kind: TimelineEntityKind, id: string) {
+    super(`${kind} not found: ${id}`);
+    this.name = 'TimelineEntityNotFoundError';
+  }
+}
+
+export class TimelineRestoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimelineRestoreError';
+  }
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+/** Columns that never show up as diffs (bookkeeping only). */
+const DIFF_IGNORE_COLUMNS = new Set(['updated_at', 'created_at', 'version']);
+
+/**
+ * Scalar columns that restore stages, per entity kind. Mirrors the fields the
+ * PATCH routes accept; bookkeeping, flags and soft-delete columns stay out.
+ */
+const RESTORABLE_FIELDS: Record<TimelineEntityKind, readonly string[]> = {
+  concept: [
+    'label',
+    'definition',
+    'short_definition',
+    'verifiable',
+    'unverifiable_reason',
+    'archetype',
+    'subtype',
+    'state_kind',
+    'disable_healthcheck',
+    'vendler',
+    'multi_perspective',
+    'wikidata_id',
+    'recipe',
+  ],
+  lexical_unit: [
+    'lemmas',
+    'src_lemmas',
+    'gloss',
+    'examples',
+    'lexfile',
+    'is_mwe',
+    'verifiable',
+    'unverifiable_reason',
+    'legal_gloss',
+    'vendler_class',
+    'concrete',
+    'countable',
+    'proper',
+    'collective',
+    'predicate',
+    'is_satellite',
+    'gradable',
+    'predicative',
+    'attributive',
+    'subjective',
+    'relational',
+    'wikidata_id',
+  ],
+  sense: [
+    'pos',
+    'definition',
+    'confidence',
+    'archetype',
+    'type_dispute',
+    'causative',
+    'inchoative',
+    'perspectival',
+    'lemmas',
+  ],
+};
+
+const KIND_TO_ENTITY_TYPE: Record<TimelineEntityKind, EntityType> = {
+  concept: 'frame',
+  lexical_unit: 'lexical_unit',
+  sense: 'frame_sense',
+};
+
+// ============================================
+// History queries
+// ============================================
+
+interface HistoryRow {
+  id: bigint;
+  table_name: string;
+  entity_id: bigint | null;
+  operation: 'create' | 'update' | 'delete' | 'merge';
+  changed_at: Date;
+  changed_by: string | null;
+  changeset_id: bigint | null;
+  old_row: Record<string, unknown> | null;
+  new_row: Record<string, unknown> | null;
+}
+
+/**
+ * Snapshot key expression; must match the partial indexes. The key is
+ * inlined (never bound) so the planner sees the same expression — callers
+ * only pass the fixed column names below.
+ */
+function childKey(column: string): Prisma.Sql {
+  return Prisma.raw(`(COALESCE(new_row, old_row) ->> '${column}')`);
+}
+
+/**
+ * WHERE-clause covering the entity's own row plus all of its child rows.
+ * Legacy table names are included for the entity's own row so history
+ * written before the frames → concepts rename still shows up.
+ */
+function historyPredicate(kind: TimelineEntityKind, id: bigint): Prisma.Sql {
+  const key = id.toString();
+  switch (kind) {
+    case 'concept':
+      return Prisma.sql`(
+        (table_name IN ('concepts', 'frames') AND entity_id = ${id})
+        OR (table_name IN ('properties', 'sense_concepts') AND ${childKey('concept_id')} = ${key})
+        OR (table_name = 'concept_relations' AND ${childKey('parent_id')} = ${key})
+        OR (table_name = 'concept_relations' AND ${childKey('child_id')} = ${key})
+      )`;
+    case 'lexical_unit':
+      return Prisma.sql`(
+        (table_name = 'lexical_units' AND entity_id = ${id})
+        OR (table_name = 'lexical_unit_senses' AND ${childKey('lexical_unit_id')} = ${key})
+        OR (table_name = 'lexical_unit_relations' AND ${childKey('source_id')} = ${key})
+        OR (table_name = 'lexical_unit_relations' AND ${childKey('target_id')} = ${key})
+      )`;
+    case 'sense':
+      return Prisma.sql`(
+        (table_name IN ('senses', 'frame_senses') AND entity_id = ${id})
+        OR (table_name IN ('sense_concepts', 'lexical_unit_senses') AND ${childKey('sense_id')} = ${key})
+      )`;
+  }
+}
+
+async function fetchHistory(
+  kind: TimelineEntityKind,
+  id: bigint,
+  opts: { before?: bigint; after?: bigint; limit?: number },
+): Promise<HistoryRow[]> {
+  const before = opts.before !== undefined ? Prisma.sql`AND id < ${opts.before}` : Prisma.empty;
+  const after = opts.after !== undefined ? Prisma.sql`AND id > ${opts.after}` : Prisma.empty;
+  const limit = opts.limit !== undefined ? Prisma.sql`LIMIT ${opts.limit}` : Prisma.empty;
+
+  return prisma.$queryRaw<HistoryRow[]>(Prisma.sql`
+    SELECT id, table_name, entity_id, operation::text AS operation,
+           changed_at, changed_by, changeset_id, old_row, new_row
+    FROM entity_row_history
+    WHERE ${historyPredicate(kind, id)} ${before} ${after}
+    ORDER BY id DESC
+    ${limit}
+  `);
+}
+
+/**
+ * Resolve the route `id` param to the numeric primary key. Lexical units
+ * also accept their code (e.g. "run.v.01").
+ */
+async function resolveEntityId(kind: TimelineEntityKind, idParam: string): Promise<bigint> {
+  const isNumeric = /^\d+$/.test(idParam);
+
+  if (kind === 'lexical_unit') {
+    const lu = await prisma.lexical_units.findFirst({
+      where: { OR: [{ code: idParam }, ...(isNumeric ? [{ id: BigInt(idParam) }] : [])] },
+      select: { id: true },
+    });
+    if (!lu) throw new TimelineEntityNotFoundError(kind, idParam);
+    return lu.id;
+  }
+
+  if (!isNumeric) throw new TimelineEntityNotFoundError(kind, idParam);
+
+  const exists =
+    kind === 'concept'
+      ? await prisma.concepts.findUnique({ where: { id: BigInt(idParam) }, select: { id: true } })
+      : await prisma.senses.findUnique({ where: { id: Number(idParam) }, select: { id: true } });
+  if (!exists) throw new TimelineEntityNotFoundError(kind, idParam);
+  return BigInt(idParam);
+}
+
+// ============================================
+// Row shaping
+// ============================================
+
+function relationForTable(tableName: string): TimelineRelation {
+  switch (tableName) {
+    case 'properties':
+    case 'frame_roles':
+      return 'property';
+    case 'sense_concepts':
+    case 'frame_sense_frames':
+      return 'sense_concept';
+    case 'concept_relations':
+      return 'concept_relation';
+    case 'lexical_unit_senses':
+      return 'lexical_unit_sense';
+    case 'lexical_unit_relations':
+      return 'lexical_unit_relation';
+    default:
+      return 'self';
+  }
+}
+
+/** Stable key for a row snapshot, used both for display and for rewinding. */
+function rowKey(relation: TimelineRelation, row: Record<string, unknown> | null): string | null {
+  if (!row) return null;
+  switch (relation) {
+    case 'sense_concept':
+      return `${String(row.sense_id)}:${String(row.concept_id)}`;
+    case 'lexical_unit_sense':
+      return `${String(row.lexical_unit_id)}:${String(row.sense_id)}`;
+    default:
+      return row.id !== undefined && row.id !== null ? String(row.id) : null;
+  }
+}
+
+function rowLabel(relation: TimelineRelation, row: Record<string, unknown> | null): string | null {
+  if (!row) return null;
+  switch (relation) {
+    case 'property':
+      return typeof row.label === 'string' ? row.label : `property #${String(row.id)}`;
+    case 'sense_concept':
+      return `sense #${String(row.sense_id)} → concept #${String(row.concept_id)}`;
+    case 'concept_relation':
+      return `${String(row.type)}: #${String(row.parent_id)} → #${String(row.child_id)}`;
+    case 'lexical_unit_sense':
+      return `lexical unit #${String(row.lexical_unit_id)} → sense #${String(row.sense_id)}`;
+    case 'lexical_unit_relation':
+      return `${String(row.type)}: #${String(row.source_id)} → #${String(row.target_id)}`;
+    default:
+      return null;
+  }
+}
+
+function computeDiffs(
+  oldRow: Record<string, unknown> | null,
+  newRow: Record<string, unknown> | null,
+): TimelineFieldDiff[] {
+  const fields = new Set([...Object.keys(oldRow ?? {}), ...Object.keys(newRow ?? {})]);
+  const diffs: TimelineFieldDiff[] = [];
+  for (const field of fields) {
+    if (DIFF_IGNORE_COLUMNS.has(field)) continue;
+    const oldValue = oldRow ? oldRow[field] ?? null : null;
+    const newValue = newRow ? newRow[field] ?? null : null;
+    if (valuesAreEqual(oldValue, newValue)) continue;
+    diffs.push({ field, old_value: oldValue, new_value: newValue });
+  }
+  return diffs.sort((a, b) => a.field.localeCompare(b.field));
+}
+
+function shapeRowChange(kind: TimelineEntityKind, row: HistoryRow): TimelineRowChange {
+  const relation = relationForTable(row.table_name);
+  const snapshot = row.new_row ?? row.old_row;
+  return {
+    history_id: row.id.toString(),
+    table_name: row.table_name,
+    relation,
+    row_key: rowKey(relation, snapshot),
+    row_label: rowLabel(relation, snapshot),
+    operation: row.operation,
+    changed_at: row.changed_at.toISOString(),
+    changed_by: row.changed_by,
+    diffs: computeDiffs(row.old_row, row.new_row),
+  };
+}
+
+// ============================================
+// Timeline
+// ============================================
+
+/**
+ * Build the changeset-grouped timeline for an entity, newest first.
+ *
+ * Consecutive history rows that share a changeset collapse into one group;
+ * rows written outside the changeset pipeline (changeset_id NULL) are
+ * grouped by consecutive actor instead. A page boundary can split a group,
+ * in which case the next page continues it.
+ */
+export async function getEntityTimeline(
+  kind: TimelineEntityKind,
+  idParam: string,
+  opts: { before?: bigint; limit?: number } = {},
+): Promise<EntityTimeline> {
+  const entityId = await resolveEntityId(kind, idParam);
+  const limit = Math.min(Math.max(opts.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  const rows = await fetchHistory(kind, entityId, { before: opts.before, limit: limit + 1 });
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+
+  const groups: TimelineGroup[] = [];
+  let currentKey: string | null = null;
+  for (const row of page) {
+    const key = row.changeset_id !== null
+      ? `cs:${row.changeset_id.toString()}`
+      : `direct:${row.changed_by ?? ''}`;
+    const change = shapeRowChange(kind, row);
+
+    if (key !== currentKey || groups.length === 0) {
+      groups.push({
+        changeset_id: row.changeset_id?.toString() ?? null,
+        changeset: null,
+        changed_at: change.changed_at,
+        changed_by: row.changed_by,
+        restore_point: change.history_id,
+        changes: [],
+      });
+      currentKey = key;
+    }
+    groups[groups.length - 1].changes.push(change);
+  }
+
+  const changesetIds = Array.from(
+    new Set(groups.filter(g => g.changeset_id !== null).map(g => BigInt(g.changeset_id!))),
+  );
+  if (changesetIds.length > 0) {
+    const changesets = await prisma.changesets.findMany({
+      where: { id: { in: changesetIds } },
+      select: {
+        id: true,
+        entity_type: true,
+        entity_id: true,
+        operation: true,
+        created_by: true,
+        reviewed_by: true,
+        committed_at: true,
+        change_plan_id: true,
+        llm_job_id: true,
+        origin: true,
+      },
+    });
+    const byId = new Map(changesets.map(cs => [cs.id.toString(), cs]));
+    for (const group of groups) {
+      const cs = group.changeset_id ? byId.get(group.changeset_id) : undefined;
+      if (!cs) continue;
+      group.changeset = {
+        id: cs.id.toString(),
+        entity_type: cs.entity_type,
+        entity_id: cs.entity_id?.toString() ?? null,
+        operation: cs.operation,
+        created_by: cs.created_by,
+        reviewed_by: cs.reviewed_by,
+        committed_at: cs.committed_at?.toISOString() ?? null,
+        change_plan_id: cs.change_plan_id?.toString() ?? null,
+        llm_job_id: cs.llm_job_id?.toString() ?? null,
+        origin: cs.origin,
+      };
+    }
+  }
+
+  return {
+    kind,
+    entity_id: entityId.toString(),
+    groups,
+    next_cursor: hasMore ? page[page.length - 1].id.toString() : null,
+  };
+}
+
+// ============================================
+// Restore
+// ============================================
+
+type Snapshot = Record<string, unknown>;
+
+/**
+ * Rewind a set of current rows through history entries (newest first) so the
+ * result is the set of rows as of the point just before the oldest entry.
+ */
+function rewindRows(
+  current: Map<string, Snapshot>,
+  entries: HistoryRow[],
+  relation: TimelineRelation,
+): Map<string, Snapshot> {
+  const rows = new Map(current);
+  for (const entry of entries) {
+    const newKey = rowKey(relation, entry.new_row);
+    const oldKey = rowKey(relation, entry.old_row);
+    if (newKey !== null) rows.delete(newKey);
+    if (oldKey !== null && entry.old_row) rows.set(oldKey, entry.old_row);
+  }
+  return rows;
+}
+
+/** Round-trip a Prisma row through JSON so it compares like a trigger snapshot. */
+function toSnapshot(row: object): Snapshot {
+  return JSON.parse(
+    JSON.stringify(row, (_key, value) => (typeof value === 'bigint' ? Number(value) : value)),
+  ) as Snapshot;
+}
+
+function toIdSet(rows: Map<string, Snapshot>, column: string, filter?: (row: Snapshot) => boolean): Set<string> {
+  const ids = new Set<string>();
+  for (const row of rows.values()) {
+    if (filter && !filter(row)) continue;
+    if (row[column] !== null && row[column] !== undefined) ids.add(String(row[column]));
+  }
+  return ids;
+}
+
+function setsEqual(a: Set<string>, b: Set<string>): boolean {
+  return a.size === b.size && [...a].every(v => b.has(v));
+}
+
+function comparableProperty(row: Snapshot) {
+  return {
+    label: row.label ?? null,
+    description: row.description ?? null,
+    notes: row.notes ?? null,
+    main: Boolean(row.main),
+    examples: Array.isArray(row.examples) ? row.examples : [],
+  };
+}
+
+function comparableProperties(rows: Iterable<Snapshot>) {
+  return Array.from(rows)
+    .map(comparableProperty)
+    .sort((a, b) => String(a.label).localeCompare(String(b.label)));
+}
+
+function reparentToStaged(result: Awaited<ReturnType<typeof stageConceptRelationReparent>>): StagedResponse {
+  return {
+    staged: true,
+    changeset_id: result.createChangesetId,
+    message: result.message,
+    field_changes_count: result.createChangesetId ? 1 : 0,
+  };
+}
+
+/**
+ * Stage the changes needed to bring an entity back to the state it had right
+ * after history row `historyId`. Nothing is committed: the caller gets the
+ * staged changesets back and they go through normal review.
+ */
+export async function restoreEntityToPoint(
+  kind: TimelineEntityKind,
+  idParam: string,
+  historyId: bigint,
+  userId: string,
+): Promise<TimelineRestoreResult> {
+  const entityId = await resolveEntityId(kind, idParam);
+  const newer = await fetchHistory(kind, entityId, { after: historyId });
+
+  const result: TimelineRestoreResult = {
+    restored_to: historyId.toString(),
+    staged: [],
+    skipped: [],
+  };
+  if (newer.length === 0) return result;
+
+  const byRelation = new Map<TimelineRelation, HistoryRow[]>();
+  for (const row of newer) {
+    const relation = relationForTable(row.table_name);
+    const list = byRelation.get(relation) ?? [];
+    list.push(row);
+    byRelation.set(relation, list);
+  }
+
+  // Reparents stage a DELETE + CREATE pair, which commit policies don't evaluate.
+  const reparents = new Set<StagedResponse>();
+  await prisma.$transaction(
+    async (tx) => {
+      // ---- The entity's own row ---------------------------------------
+      const selfEntries = byRelation.get('self') ?? [];
+      const updates: Record<string, unknown> = {};
+      if (selfEntries.length > 0) {
+        const oldest = selfEntries[selfEntries.length - 1];
+        if (!oldest.old_row) {
+          throw new TimelineRestoreError(
+            `${kind} ${entityId.toString()} did not exist at history point ${historyId.toString()}`,
+          );
+        }
+        const current = await fetchCurrentRow(tx, kind, entityId);
+        if (!current) throw new TimelineEntityNotFoundError(kind, idParam);
+        if (current.deleted === true) {
+          throw new TimelineRestoreError(
+            `${kind} ${entityId.toString()} is deleted; restore it before rewinding its history`,
+          );
+        }
+        for (const field of RESTORABLE_FIELDS[kind]) {
+          if (!(field in oldest.old_row)) continue;
+          const historical = oldest.old_row[field] ?? null;
+          if (!valuesAreEqual(historical, current[field] ?? null)) {
+            updates[field] = historical;
+          }
+        }
+      }
+
+      // ---- Child rows ---------------------------------------------------
+      if (kind === 'concept') {
+        await restoreConceptChildren(tx, entityId, byRelation, userId, result, reparents);
+      } else if (kind === 'sense') {
+        await restoreSenseChildren(tx, entityId, byRelation, updates, result);
+      } else {
+        await restoreLexicalUnitChildren(tx, entityId, byRelation, userId, result);
+      }
+
+      if (Object.keys(updates).length > 0) {
+        result.staged.unshift(
+          await stageUpdate(KIND_TO_ENTITY_TYPE[kind], entityId.toString(), updates, userId, undefined, tx),
+        );
+      }
+    },
+    { timeout: 30_000, maxWait: 10_000 },
+  );
+
+  // Commit policies need the staged rows committed first.
+  for (const [index, staged] of result.staged.entries()) {
+    if (!reparents.has(staged)) result.staged[index] = await withCommitPolicies(staged);
+  }
+
+  return result;
+}
+
+async function fetchCurrentRow(
+  tx: Prisma.TransactionClient,
+  kind: TimelineEntityKind,
+  id: bigint,
+): Promise<Snapshot | null> {
+  const row =
+    kind === 'concept'
+      ? await tx.concepts.findUnique({ where: { id } })
+      : kind === 'lexical_unit'
+        ? await tx.lexical_units.findUnique({ where: { id } })
+        : await tx.senses.findUnique({ where: { id: Number(id) } });
+  return row ? toSnapshot(row) : null;
+}
+
+async function restoreConceptChildren(
+  tx: Prisma.TransactionClient,
+  conceptId: bigint,
+  byRelation: Map<TimelineRelation, HistoryRow[]>,
+  userId: string,
+  result: TimelineRestoreResult,
+  reparents: Set<StagedResponse>,
+): Promise<void> {
+  const propertyEntries = byRelation.get('property') ?? [];
+  if (propertyEntries.length > 0) {
+    const current = await tx.properties.findMany({ where: { concept_id: conceptId } });
+    const currentRows = new Map(current.map(p => [p.id.toString(), toSnapshot(p)]));
+    const historical = rewindRows(currentRows, propertyEntries, 'property');
+
+    if (!valuesAreEqual(comparableProperties(currentRows.values()), comparableProperties(historical.values()))) {
+      const props = Array.from(historical.values()).map(row => ({
+        propertyType: row.label,
+        ...comparableProperty(row),
+      }));
+      result.staged.push(await stagePropertiesUpdate(conceptId.toString(), props, userId, undefined, tx));
+    }
+  }
+
+  const relationEntries = byRelation.get('concept_relation') ?? [];
+  if (relationEntries.length > 0) {
+    const current = await tx.concept_relations.findMany({
+      where: { OR: [{ parent_id: conceptId }, { child_id: conceptId }] },
+    });
+    const currentRows = new Map(current.map(r => [r.id.toString(), toSnapshot(r)]));
+    const historical = rewindRows(currentRows, relationEntries, 'concept_relation');
+
+    const key = conceptId.toString();
+    const isParentEdge = (row: Snapshot) => row.type === 'parent_of' && String(row.child_id) === key;
+    const isChildEdge = (row: Snapshot) => row.type === 'parent_of' && String(row.parent_id) === key;
+
+    const currentParents = toIdSet(currentRows, 'parent_id', isParentEdge);
+    const historicalParents = toIdSet(historical, 'parent_id', isParentEdge);
+    if (!setsEqual(currentParents, historicalParents)) {
+      if (historicalParents.size === 1 && currentParents.size <= 1) {
+        const [parentId] = historicalParents;
+        const staged = reparentToStaged(
+          await stageConceptRelationReparent(conceptId, BigInt(parentId), userId, undefined, tx),
+        );
+        reparents.add(staged);
+        result.staged.push(staged);
+      } else {
+        result.skipped.push(
+          `Parent concepts changed (${[...historicalParents].join(', ') || 'none'} → ` +
+            `${[...currentParents].join(', ') || 'none'}); reparent manually`,
+        );
+      }
+    }
+
+    if (!setsEqual(toIdSet(currentRows, 'child_id', isChildEdge), toIdSet(historical, 'child_id', isChildEdge))) {
+      result.skipped.push('Child concepts changed; they are restored from each child concept');
+    }
+  }
+
+  if ((byRelation.get('sense_concept') ?? []).length > 0) {
+    result.skipped.push('Sense attachments changed; they are restored from each sense');
+  }
+}
+
+async function restoreSenseChildren(
+  tx: Prisma.TransactionClient,
+  senseId: bigint,
+  byRelation: Map<TimelineRelation, HistoryRow[]>,
+  updates: Record<string, unknown>,
+  result: TimelineRestoreResult,
+): Promise<void> {
+  const linkEntries = byRelation.get('sense_concept') ?? [];
+  if (linkEntries.length > 0) {
+    const current = await tx.sense_concepts.findMany({ where: { sense_id: Number(senseId) } });
+    const currentRows = new Map(current.map(r => [`${r.sense_id}:${r.concept_id.toString()}`, toSnapshot(r)]));
+    const historical = rewindRows(currentRows, linkEntries, 'sense_concept');
+
+    const currentConcepts = toIdSet(currentRows, 'concept_id');
+    const historicalConcepts = toIdSet(historical, 'concept_id');
+    if (!setsEqual(currentConcepts, historicalConcepts)) {
+      if (historicalConcepts.size === 1) {
+        const [conceptId] = historicalConcepts;
+        updates.concept_id = conceptId;
+      } else {
+        result.skipped.push(
+          `Sense was linked to ${historicalConcepts.size} concepts at this point; re-link manually`,
+        );
+      }
+    }
+  }
+
+  if ((byRelation.get('lexical_unit_sense') ?? []).length > 0) {
+    result.skipped.push('Lexical unit attachments changed; they are restored from each lexical unit');
+  }
+}
+
+async function restoreLexicalUnitChildren(
+  tx: Prisma.TransactionClient,
+  luId: bigint,
+  byRelation: Map<TimelineRelation, HistoryRow[]>,
+  userId: string,
+  result: TimelineRestoreResult,
+): Promise<void> {
+  const linkEntries = byRelation.get('lexical_unit_sense') ?? [];
+  if (linkEntries.length > 0) {
+    const current = await tx.lexical_unit_senses.findMany({ where: { lexical_unit_id: luId } });
+    const currentRows = new Map(current.map(r => [`${r.lexical_unit_id.toString()}:${r.sense_id}`, toSnapshot(r)]));
+    const historical = rewindRows(currentRows, linkEntries, 'lexical_unit_sense');
+
+    const currentSenses = toIdSet(currentRows, 'sense_id');
+    const historicalSenses = toIdSet(historical, 'sense_id');
+    for (const senseId of historicalSenses) {
+      if (!currentSenses.has(senseId)) {
+        result.staged.push(await stageSenseAttachment(luId.toString(), Number(senseId), true, userId, tx));
+      }
+    }
+    for (const senseId of currentSenses) {
+      if (!historicalSenses.has(senseId)) {
+        result.staged.push(await stageSenseAttachment(luId.toString(), Number(senseId), false, userId, tx));
+      }
+    }
+  }
+
+  if ((byRelation.get('lexical_unit_relation') ?? []).length > 0) {
+    result.skipped.push('Lexical unit relations changed; edit them from the relations panel');
+  }
+}
@@ -19,7 +19,11 @@ export type EntityType =
   | 'frame_sense'            // Intermediate sense entity between LUs and concepts
   | 'recipe'
   | 'frame_relation'
-  | 'frame_role_mapping';    // Inheritance property mapping (Phase 2 cascading remediations)
+  | 'frame_role_mapping'     // Inheritance property mapping (Phase 2 cascading remediations)
+  | 'referent'               // Cross-document entity; `merge` / `create`, plus the `update` that reverts a merge
+  | 'instance'               // Claims ABox instance; only `create` is staged (claim extraction)
+  | 'lexical_unit_relation'  // lexical_unit_relations edge; create / delete / `type` update
+  | 'sense_contrast';        // sense_contrasts row; create / delete / `contrast_text` update
 
 export type ChangeOperation = 'create' | 'update' | 'delete' | 'merge';
 
@@ -129,6 +133,8 @@ export interface CreateChangesetInput {
   created_by: string;
   /** Optional LLM job ID if this changeset is part of an LLM batch */
   llm_job_id?: bigint;
+  /** Set by the revert endpoints: the committed changeset this one undoes */
+  reverts_changeset_id?: bigint;
 }
 
 export interface CreateFieldChangeInput {
@@ -192,6 +198,58 @@ export interface ConflictInfo {
   proposed_value: unknown;  // What we want to change it to
 }
 
+// ============================================
+// Rebase Types (stale pending changesets)
+// ============================================
+
+/**
+ * How a field change relates to the edit that moved the entity on:
+ *   - clean:     the concurrent edit didn't touch this field; keep it as is
+ *   - converged: the entity already holds the proposed value; drop it
+ *   - conflict:  both sides changed the field (or its current value can't
+ *                be read, e.g. properties / senses subfields); the
+ *                reviewer picks mine or theirs
+ */
+export type RebaseFieldOutcome = 'clean' | 'converged' | 'conflict';
+
+/** `mine` keeps the pending value; `theirs` keeps the entity's current value. */
+export type RebaseResolution = 'mine' | 'theirs';
+
+export interface RebaseFieldAnalysis {
+  field_change_id: string;
+  field_name: string;
+  /** The value when the change was staged (`field_changes.old_value`). */
+  base_value: unknown;
+  /** The entity's value now; undefined when it can't be read from the row. */
+  current_value: unknown;
+  proposed_value: unknown;
+  outcome: RebaseFieldOutcome;
+}
+
+export interface RebaseAnalysis {
+  changeset_id: string;
+  entity_type: EntityType;
+  entity_id: string | null;
+  operation: ChangeOperation;
+  expected_version: number | null;
+  current_version: number | null;
+  /** The entity moved past `expected_version`; commit would fail. */
+  stale: boolean;
+  fields: RebaseFieldAnalysis[];
+  conflict_count: number;
+}
+
+export interface RebaseResult {
+  changeset_id: string;
+  /** False when the changeset wasn't stale. */
+  rebased: boolean;
+  /** Every field was dropped, so the changeset was discarded. */
+  discarded: boolean;
+  entity_version: number | null;
+  kept_fields: string[];
+  dropped_fields: string[];
+}
+
 // ============================================
 // Merge Types (for client-side preview)
 // ============================================
@@ -365,6 +423,10 @@ export const ENTITY_TYPE_TO_TABLE: Record<EntityType, string> = {
   recipe: 'recipes',
   frame_relation: 'concept_relations',
   frame_role_mapping: 'property_mappings',
+  referent: 'referents',
+  instance: 'instances',
+  lexical_unit_relation: 'lexical_unit_relations',
+  sense_contrast: 'sense_contrasts',
 };
 
 /**
@@ -378,6 +440,10 @@ export const TABLE_TO_ENTITY_TYPE: Record<string, EntityType> = {
   recipes: 'recipe',
   concept_relations: 'frame_relation',
   property_mappings: 'frame_role_mapping',
+  referents: 'referent',
+  instances: 'instance',
+  lexical_unit_relations: 'lexical_unit_relation',
+  sense_contrasts: 'sense_contrast',
 };
 
 /**
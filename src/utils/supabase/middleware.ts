@@ -14,6 +14,11 @@ function clearSupabaseAuthCookies(
 }
 
 export async function updateSession(request: NextRequest) {
+  // The public read API authenticates by API key, not by session cookie.
+  if (request.nextUrl.pathname.startsWith('/api/v1/')) {
+    return NextResponse.next({ request })
+  }
+
   let supabaseResponse = NextResponse.next({
     request,
   })